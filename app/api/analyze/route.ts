@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeFileServer } from '@/lib/openAIService';
 import { chunkText, extractTextFromBase64 } from '@/lib/extractionService';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { documentReferenceDate } from '@/lib/chronology';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import type { Database } from '@/lib/database.types';
+import { keyframesFromVideo, type AnalysisKeyframe } from '@/lib/visualLogServer';
+import { parseStoredTranscript } from '@/lib/transcripts';
 
-async function downloadStorageObject(storagePath: string, signedUrl?: string) {
-  const supabase = getSupabaseAdmin();
+async function downloadStorageObject(supabase: SupabaseClient<Database>, storagePath: string, signedUrl?: string) {
 
   console.log('[downloadStorageObject] Starting download:', {
     storagePath,
@@ -44,6 +50,9 @@ export const maxDuration = 300; // 5 minutes for long file analysis
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     const { base64Data, mimeType, fileName, batesNumber, fileType, casePerspective, extractedText, storagePath, signedUrl } = body;
 
@@ -77,7 +86,7 @@ export async function POST(request: NextRequest) {
     if (!payloadBase64 && storagePath) {
       console.log('[analyze] Downloading from storage:', storagePath);
       try {
-        const buffer = await downloadStorageObject(storagePath as string, signedUrl);
+        const buffer = await downloadStorageObject(caller.supabase, storagePath as string, signedUrl);
         payloadBase64 = buffer.toString('base64');
         console.log('[analyze] Storage download complete, base64 length:', payloadBase64.length);
       } catch (downloadError) {
@@ -118,6 +127,23 @@ export async function POST(request: NextRequest) {
       console.log('[analyze] Warning: No text extracted from document');
     }
 
+    // Video is also analyzed from sampled keyframes; without ffmpeg it falls back to its audio and metadata
+    let keyframes: AnalysisKeyframe[] = [];
+    const videoMime = [detectedMime, mimeType].find((type): type is string => typeof type === 'string' && type.startsWith('video/'));
+    if (payloadBase64 && videoMime) {
+      try {
+        keyframes = await keyframesFromVideo(Buffer.from(payloadBase64, 'base64'), videoMime);
+        console.log('[analyze] Sampled keyframes:', keyframes.length);
+      } catch (keyframeError) {
+        console.error('[analyze] Keyframe sampling failed:', keyframeError);
+      }
+    }
+
+    // Stored files are attributed to their document, whose date anchors relative dates in the analysis
+    const { data: analyzedDocument } = storagePath
+      ? await caller.supabase.from('documents').select('id, metadata, transcript').eq('storage_path', storagePath).maybeSingle()
+      : { data: null };
+
     console.log('[analyze] Calling analyzeFileServer...');
     const analysis = await analyzeFileServer({
       mimeType: detectedMime || mimeType,
@@ -129,6 +155,9 @@ export async function POST(request: NextRequest) {
       textChunks: chunks,
       metadata,
       base64Data: payloadBase64,
+      documentDate: documentReferenceDate(analyzedDocument?.metadata) ?? documentReferenceDate(metadata),
+      keyframes,
+      durationMs: parseStoredTranscript(analyzedDocument?.transcript ?? null)?.durationMs ?? null,
     });
 
     console.log('[analyze] Analysis complete:', {
@@ -137,6 +166,22 @@ export async function POST(request: NextRequest) {
       entityCount: analysis.entities?.length || 0,
     });
 
+    // Inline content is recorded by the hash of what was analyzed
+    const analyzedHash = payloadBase64 ? sha256Hex(Buffer.from(payloadBase64, 'base64')) : cleanedText ? sha256Hex(cleanedText) : null;
+    await recordAudit(caller, request, {
+      action: 'document.analyze',
+      documentId: analyzedDocument?.id ?? null,
+      batesNumber: analyzedDocument ? undefined : batesNumber || null,
+      hashBefore: analyzedHash,
+      hashAfter: analyzedHash,
+      details: {
+        fileName,
+        storagePath,
+        source: base64Data ? 'inline' : storagePath ? 'storage' : 'text',
+        ...(keyframes.length > 0 ? { keyframes: keyframes.length } : {}),
+      },
+    });
+
     return NextResponse.json(analysis);
   } catch (error: any) {
     console.error('Analysis API error:', error);
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, getLocalJwtSecret } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { LOCAL_TOKEN_TTL_SECONDS, localUserId, signLocalToken } from '@/lib/localAuth';
+import { normalizeEmail } from '@/lib/projectAccess';
+import { createCallerClient } from '@/lib/supabaseClient';
+
+// POST /api/auth/local - Sign in with the local auth provider (AUTH_PROVIDER=local only)
+export async function POST(request: NextRequest) {
+  try {
+    if (getAuthProvider() !== 'local') {
+      return NextResponse.json({ error: 'Local sign-in is disabled' }, { status: 404 });
+    }
+
+    const body = (await request.json()) as { email?: unknown };
+    const email = normalizeEmail(body.email);
+    if (!email) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    const accessToken = signLocalToken(email, getLocalJwtSecret());
+    const userId = localUserId(email);
+    await recordAudit({ userId, email, supabase: createCallerClient(accessToken) }, request, { action: 'auth.sign_in' });
+
+    return NextResponse.json({
+      accessToken,
+      expiresIn: LOCAL_TOKEN_TTL_SECONDS,
+      user: { id: userId, email },
+    });
+  } catch (error: unknown) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
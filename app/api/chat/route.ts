@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { chatWithDiscoveryServer } from '@/lib/openAIService';
+import { retrieveRelevantPassages } from '@/lib/retrieval';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import type { RetrievedPassage } from '@/lib/types';
 
 export const maxDuration = 300; // 5 minutes for complex queries
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
-    const { query, filesContext, activeFile, casePerspective } = body;
+    const { query, filesContext, activeFile, casePerspective, projectId } = body;
 
     // Validate query
     if (!query || typeof query !== 'string') {
@@ -16,15 +24,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Ground the answer in the full text when the project has embedded chunks.
+    // Retrieval failures degrade to summary-only context rather than failing the chat.
+    let passages: RetrievedPassage[] = [];
+    if (projectId && typeof projectId === 'string') {
+      try {
+        passages = await retrieveRelevantPassages(caller.supabase, projectId, query);
+      } catch (retrievalError) {
+        console.warn('Chat retrieval unavailable, using summaries only:', retrievalError);
+      }
+    }
+
     // Call server-side Gemini chat function
     const response = await chatWithDiscoveryServer(
       query,
       filesContext || [],
       activeFile,
-      casePerspective
+      casePerspective,
+      passages
     );
 
-    return NextResponse.json({ response });
+    // The question itself may be work product, so only its hash is kept
+    await recordAudit(caller, request, {
+      action: 'chat',
+      projectId: projectId && typeof projectId === 'string' ? projectId : null,
+      details: { queryHash: sha256Hex(query), passageCount: passages.length },
+    });
+
+    return NextResponse.json({
+      response,
+      passages: passages.map(({ text, ...citation }) => citation),
+    });
   } catch (error: any) {
     console.error('Chat API error:', error);
     return NextResponse.json(
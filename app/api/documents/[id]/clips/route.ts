@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { createMediaClip, listMediaClips, loadClipSource } from '@/lib/clipsServer';
+import { clipRangeError, DEFAULT_OVERLAYS } from '@/lib/mediaClips';
+import { hasProjectRole, PROJECT_EDITORS } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import type { ClipOverlays } from '@/lib/types';
+
+export const maxDuration = 300; // 5 minutes for re-encoding long clips
+
+// GET /api/documents/[id]/clips - Clips cut from an audio or video document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const source = await loadClipSource(caller.supabase, id);
+    if (!source) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const clips = await listMediaClips(caller.supabase, { sourceDocumentId: id });
+    return NextResponse.json({ clips });
+  } catch (error: unknown) {
+    console.error('Error fetching clips:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clips', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/clips - Cut a clip from the recording and store it as a new Bates-numbered document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { startMs, endMs, overlays = {}, description } = body as {
+      startMs?: number;
+      endMs?: number;
+      overlays?: Partial<ClipOverlays>;
+      description?: string;
+    };
+
+    const rangeError = clipRangeError(Number(startMs), Number(endMs));
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const source = await loadClipSource(caller.supabase, id);
+    if (!source?.projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    const { projectId, storagePath, mimeType } = source;
+    if (!storagePath || !mimeType || !(mimeType.startsWith('video/') || mimeType.startsWith('audio/'))) {
+      return NextResponse.json({ error: 'Only stored audio and video documents can be clipped' }, { status: 422 });
+    }
+    const durationError = clipRangeError(Number(startMs), Number(endMs), source.transcript?.durationMs ?? null);
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 });
+    }
+
+    // Clips take a Bates number and become documents, which only editors can create
+    const role = await getProjectRole(caller.supabase, projectId, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can create clips');
+    }
+
+    const clip = await createMediaClip(caller.supabase, { ...source, projectId, storagePath, mimeType }, {
+      startMs: Math.round(Number(startMs)),
+      endMs: Math.round(Number(endMs)),
+      overlays: {
+        bates: overlays.bates ?? DEFAULT_OVERLAYS.bates,
+        timestamp: overlays.timestamp ?? DEFAULT_OVERLAYS.timestamp,
+        subtitles: overlays.subtitles ?? DEFAULT_OVERLAYS.subtitles,
+      },
+      description: typeof description === 'string' && description.trim() ? description.trim() : null,
+    });
+
+    await recordAudit(caller, request, {
+      action: 'document.clip',
+      documentId: id,
+      details: {
+        clipDocumentId: clip.documentId,
+        clipBates: clip.batesFormatted,
+        startMs: clip.startMs,
+        endMs: clip.endMs,
+        overlays: clip.overlays,
+      },
+    });
+    await recordAudit(caller, request, {
+      action: 'document.create',
+      documentId: clip.documentId,
+      hashBefore: null,
+      details: { source: 'media_clip', sourceDocumentId: id, sourceBates: source.batesFormatted },
+    });
+
+    return NextResponse.json({ clip }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating clip:', error);
+    return NextResponse.json(
+      { error: 'Failed to create clip', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
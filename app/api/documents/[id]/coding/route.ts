@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordHash } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { parseCodingValues } from '@/lib/coding';
+import { getCodingLayout, getDocumentCoding, saveDocumentCoding } from '@/lib/codingServer';
+import { findCodingConflict } from '@/lib/reviewBatchesServer';
+
+// GET /api/documents/[id]/coding - A document's reviewer coding
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const coding = await getDocumentCoding(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'coding' } });
+    return NextResponse.json({ coding });
+  } catch (error: unknown) {
+    console.error('Error fetching document coding:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document coding', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/documents/[id]/coding - Replace a document's coding, checked against its project's layout and batch checkout
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = (await request.json()) as { values?: unknown };
+    const reviewer = caller.email;
+    const supabase = caller.supabase;
+
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, project_id')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!document.project_id) {
+      return NextResponse.json({ error: 'Only documents in a project can be coded' }, { status: 400 });
+    }
+
+    const layout = await getCodingLayout(supabase, document.project_id);
+    const parsed = parseCodingValues(layout.fields, body.values);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const conflict = await findCodingConflict(supabase, document.id, reviewer);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const coding = await saveDocumentCoding(supabase, { id: document.id, project_id: document.project_id }, parsed.values, reviewer);
+    await recordAudit(caller, request, {
+      action: 'document.code',
+      documentId: document.id,
+      details: { valuesHash: recordHash(coding.values), fields: Object.keys(coding.values) },
+    });
+    return NextResponse.json({ coding });
+  } catch (error: unknown) {
+    console.error('Error saving document coding:', error);
+    return NextResponse.json(
+      { error: 'Failed to save document coding', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import {
+  buildDepositionDigest,
+  buildDepositionDigestFile,
+  DEPOSITION_DIGEST_CONTENT_TYPES,
+  type DepositionDigestFormat,
+} from '@/lib/depositionDigest';
+import { loadDepositionSource } from '@/lib/depositionServer';
+
+// POST /api/documents/[id]/deposition/digest - Export a page-line digest of the testimony as TXT, CSV or DOCX
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { format = 'txt' } = body as { format?: DepositionDigestFormat };
+
+    if (!Object.prototype.hasOwnProperty.call(DEPOSITION_DIGEST_CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'format must be txt, csv or docx' }, { status: 400 });
+    }
+
+    const source = await loadDepositionSource(caller.supabase, id);
+    if (!source) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!source.transcript) {
+      return NextResponse.json({ error: 'Document is not a numbered transcript' }, { status: 404 });
+    }
+
+    const entries = buildDepositionDigest(source.transcript, source.text);
+    const digest = await buildDepositionDigestFile(entries, format, {
+      witness: source.transcript.witness,
+      batesNumber: source.batesNumber,
+    });
+
+    await recordAudit(caller, request, {
+      action: 'export.deposition_digest',
+      documentId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(digest),
+      details: { format, entryCount: entries.length },
+    });
+
+    return new NextResponse(new Uint8Array(digest), {
+      status: 200,
+      headers: {
+        'Content-Type': DEPOSITION_DIGEST_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${source.batesNumber}_digest.${format}"`,
+        'Content-Length': String(digest.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting deposition digest:', error);
+    return NextResponse.json(
+      { error: 'Failed to export deposition digest', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
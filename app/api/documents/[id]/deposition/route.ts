@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { loadDepositionSource, toDepositionTestimony } from '@/lib/depositionServer';
+
+// GET /api/documents/[id]/deposition - Show a transcript's testimony by page and line
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const source = await loadDepositionSource(caller.supabase, id);
+
+    if (!source) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!source.transcript) {
+      return NextResponse.json({ error: 'Document is not a numbered transcript' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'deposition' } });
+
+    return NextResponse.json(toDepositionTestimony({ ...source, transcript: source.transcript }));
+  } catch (error: unknown) {
+    console.error('Error fetching deposition transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deposition transcript', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
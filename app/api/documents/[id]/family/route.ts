@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { loadDocumentFamily } from '@/lib/childDocuments';
+
+// GET /api/documents/[id]/family - List the parent/child family a document belongs to
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const family = await loadDocumentFamily(caller.supabase, id);
+
+    if (!family) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'family' } });
+
+    return NextResponse.json(family);
+  } catch (error: unknown) {
+    console.error('Error fetching document family:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document family', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
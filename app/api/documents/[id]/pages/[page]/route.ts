@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { renderPdfPages } from '@/lib/redactionBurn';
+import { loadRedactableDocument } from '@/lib/redactionsServer';
+
+// GET /api/documents/[id]/pages/[page] - Render one page of a PDF as a PNG for the redaction editor
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; page: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, page } = await params;
+    const pageNumber = parseInt(page, 10);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      return NextResponse.json({ error: 'page must be a positive integer' }, { status: 400 });
+    }
+
+    const document = await loadRedactableDocument(caller.supabase, id);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (document.mime_type !== 'application/pdf') {
+      return NextResponse.json({ error: 'Only PDF documents have rendered pages' }, { status: 400 });
+    }
+
+    const pageCount = (await PDFDocument.load(document.content, { ignoreEncryption: true })).getPageCount();
+    if (pageNumber > pageCount) {
+      return NextResponse.json({ error: `Document has ${pageCount} pages` }, { status: 404 });
+    }
+
+    const [rendered] = await renderPdfPages(document.content, { scale: 1.5, pages: [pageNumber] });
+
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'page', page: pageNumber } });
+
+    return new NextResponse(new Uint8Array(rendered.png), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': String(rendered.png.length),
+        'Cache-Control': 'private, max-age=300',
+        'X-Page-Count': String(pageCount),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error rendering page:', error);
+    return NextResponse.json(
+      { error: 'Failed to render page', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
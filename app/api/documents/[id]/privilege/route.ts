@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordHash } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isPrivilegeBasis, isPrivilegeStatus } from '@/lib/privilege';
+import { updatePrivilegeCoding } from '@/lib/privilegeServer';
+
+// PATCH /api/documents/[id]/privilege - Code a document's privilege status and bases
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = (await request.json()) as { status?: unknown; bases?: unknown; description?: unknown };
+
+    if (body.status !== null && !isPrivilegeStatus(body.status)) {
+      return NextResponse.json(
+        { error: 'status must be one of not_privileged, privileged, partial, or null' },
+        { status: 400 }
+      );
+    }
+    const bases = body.bases ?? [];
+    if (!Array.isArray(bases) || !bases.every(isPrivilegeBasis)) {
+      return NextResponse.json(
+        { error: 'bases may only contain attorney_client and work_product' },
+        { status: 400 }
+      );
+    }
+    if ((body.status === 'privileged' || body.status === 'partial') && bases.length === 0) {
+      return NextResponse.json(
+        { error: 'Privileged documents need at least one privilege basis' },
+        { status: 400 }
+      );
+    }
+    if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+      return NextResponse.json({ error: 'description must be a string' }, { status: 400 });
+    }
+
+    const privilege = await updatePrivilegeCoding(caller.supabase, id, {
+      status: body.status,
+      bases,
+      description: body.description ?? null,
+    });
+
+    if (!privilege) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, {
+      action: 'document.privilege',
+      documentId: id,
+      details: { status: body.status, bases, privilegeHash: recordHash(privilege) },
+    });
+
+    return NextResponse.json({ privilege });
+  } catch (error: unknown) {
+    console.error('Error updating privilege coding:', error);
+    return NextResponse.json(
+      { error: 'Failed to update privilege coding', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
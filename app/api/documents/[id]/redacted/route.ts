@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { applyRedactions } from '@/lib/redactionBurn';
+import { appliedRedactions } from '@/lib/redactions';
+import { listRedactions, loadRedactableDocument } from '@/lib/redactionsServer';
+
+// GET /api/documents/[id]/redacted - Download the document with accepted redactions burned in
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const supabase = caller.supabase;
+    const document = await loadRedactableDocument(supabase, id);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const redactions = appliedRedactions(await listRedactions(supabase, id));
+    if (redactions.length === 0) {
+      return NextResponse.json({ error: 'Document has no accepted redactions' }, { status: 404 });
+    }
+
+    const result = await applyRedactions(
+      document.content,
+      document.mime_type,
+      redactions,
+      document.extracted_text,
+      document.page_geometry
+    );
+    if (!result.redacted) {
+      return NextResponse.json(
+        { error: `Redactions cannot be burned into ${document.mime_type} files` },
+        { status: 422 }
+      );
+    }
+
+    const baseName = (document.bates_formatted || document.name.replace(/\.[^.]+$/, '')).replace(/[^\w.-]+/g, '_');
+    const extension = result.mimeType === 'application/pdf' ? 'pdf' : 'png';
+
+    await recordAudit(caller, request, {
+      action: 'document.download',
+      documentId: id,
+      hashBefore: sha256Hex(document.content),
+      hashAfter: sha256Hex(result.content),
+      details: { variant: 'redacted', redactionCount: redactions.length, mimeType: result.mimeType },
+    });
+
+    return new NextResponse(new Uint8Array(result.content), {
+      status: 200,
+      headers: {
+        'Content-Type': result.mimeType,
+        'Content-Disposition': `attachment; filename="${baseName}_REDACTED.${extension}"`,
+        'Content-Length': String(result.content.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error producing redacted document:', error);
+    return NextResponse.json(
+      { error: 'Failed to produce redacted document', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
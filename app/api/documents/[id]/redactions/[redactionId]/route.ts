@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isRedactionBox, isRedactionReason } from '@/lib/redactions';
+import { deleteRedaction, isRedactionStatus, updateRedaction } from '@/lib/redactionsServer';
+
+// PATCH /api/documents/[id]/redactions/[redactionId] - Accept or reject a suggestion, or change its reason or box
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; redactionId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, redactionId } = await params;
+    const body = (await request.json()) as { status?: unknown; reason?: unknown; box?: unknown };
+
+    if (body.status !== undefined && !isRedactionStatus(body.status)) {
+      return NextResponse.json({ error: 'status must be suggested, accepted or rejected' }, { status: 400 });
+    }
+    if (body.reason !== undefined && !isRedactionReason(body.reason)) {
+      return NextResponse.json({ error: 'reason must be a redaction reason code' }, { status: 400 });
+    }
+    if (body.box !== undefined && !isRedactionBox(body.box)) {
+      return NextResponse.json({ error: 'box must have x, y, width and height as fractions of the page' }, { status: 400 });
+    }
+
+    const redaction = await updateRedaction(caller.supabase, id, redactionId, {
+      status: body.status,
+      reason: body.reason,
+      box: body.box,
+    });
+
+    if (!redaction) {
+      return NextResponse.json({ error: 'Redaction not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, {
+      action: 'document.redact',
+      documentId: id,
+      details: { change: 'update', redactionId, status: redaction.status, reason: redaction.reason },
+    });
+
+    return NextResponse.json({ redaction });
+  } catch (error: unknown) {
+    console.error('Error updating redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to update redaction', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/documents/[id]/redactions/[redactionId] - Remove a redaction
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; redactionId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, redactionId } = await params;
+    const deleted = await deleteRedaction(caller.supabase, id, redactionId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Redaction not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, { action: 'document.redact', documentId: id, details: { change: 'delete', redactionId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete redaction', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
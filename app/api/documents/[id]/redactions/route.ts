@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isRedactionBox, isRedactionReason } from '@/lib/redactions';
+import { createRedaction, listRedactions } from '@/lib/redactionsServer';
+
+// GET /api/documents/[id]/redactions - List a document's redactions and pending suggestions, with the text they index into
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const supabase = caller.supabase;
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('extracted_text')
+      .eq('id', id)
+      .maybeSingle();
+    if (docError) throw docError;
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const redactions = await listRedactions(supabase, id);
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'redactions' } });
+    return NextResponse.json({ redactions, extractedText: document.extracted_text });
+  } catch (error: unknown) {
+    console.error('Error fetching redactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch redactions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/redactions - Add a reviewer-drawn box or text redaction
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = (await request.json()) as {
+      page?: unknown;
+      box?: unknown;
+      textStart?: unknown;
+      textEnd?: unknown;
+      reason?: unknown;
+    };
+
+    if (!isRedactionReason(body.reason)) {
+      return NextResponse.json({ error: 'reason must be a redaction reason code' }, { status: 400 });
+    }
+    const hasBox = body.box !== undefined && body.box !== null;
+    const hasSpan = body.textStart !== undefined && body.textStart !== null;
+    if (hasBox && (!isRedactionBox(body.box) || !Number.isInteger(body.page) || (body.page as number) < 1)) {
+      return NextResponse.json(
+        { error: 'A box needs a page number and x, y, width and height as fractions of the page' },
+        { status: 400 }
+      );
+    }
+    if (hasSpan && (!Number.isInteger(body.textStart) || !Number.isInteger(body.textEnd)
+      || (body.textStart as number) < 0 || (body.textEnd as number) <= (body.textStart as number))) {
+      return NextResponse.json({ error: 'textStart and textEnd must be offsets with textEnd after textStart' }, { status: 400 });
+    }
+    if (!hasBox && !hasSpan) {
+      return NextResponse.json({ error: 'Provide a box or a text span to redact' }, { status: 400 });
+    }
+
+    const supabase = caller.supabase;
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, project_id')
+      .eq('id', id)
+      .maybeSingle();
+    if (docError) throw docError;
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!document.project_id) {
+      return NextResponse.json({ error: 'Only project documents can be redacted' }, { status: 400 });
+    }
+
+    const redaction = await createRedaction(supabase, { id: document.id, project_id: document.project_id }, {
+      page: hasBox ? (body.page as number) : null,
+      box: hasBox && isRedactionBox(body.box) ? body.box : null,
+      textStart: hasSpan ? (body.textStart as number) : null,
+      textEnd: hasSpan ? (body.textEnd as number) : null,
+      reason: body.reason,
+    });
+
+    await recordAudit(caller, request, {
+      action: 'document.redact',
+      documentId: document.id,
+      details: { change: 'add', redactionId: redaction.id, reason: redaction.reason },
+    });
+
+    return NextResponse.json({ redaction }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to create redaction', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { listRedactions, refreshRedactionSuggestions } from '@/lib/redactionsServer';
+
+// POST /api/documents/[id]/redactions/suggest - Re-run PII detection over the document's text and word positions
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const supabase = caller.supabase;
+    const suggested = await refreshRedactionSuggestions(supabase, id);
+    const redactions = await listRedactions(supabase, id);
+
+    await recordAudit(caller, request, { action: 'document.redact', documentId: id, details: { change: 'suggest', suggested } });
+
+    return NextResponse.json({ suggested, redactions });
+  } catch (error: unknown) {
+    console.error('Error suggesting redactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to suggest redactions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordHash } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { indexDocumentEntities } from '@/lib/entitiesServer';
+import { hasProjectRole, PROJECT_EDITORS } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
 import type { Database } from '@/types/database.types';
 
 // GET /api/documents/[id] - Get a single document
@@ -8,8 +13,11 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const { data: document, error } = await supabase
       .from('documents')
@@ -25,6 +33,8 @@ export async function GET(
       );
     }
 
+    await recordAudit(caller, request, { action: 'document.view', documentId: id });
+
     return NextResponse.json({ document });
   } catch (error: any) {
     console.error('Error fetching document:', error);
@@ -41,6 +51,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
     const body = (await request.json()) as {
       analysis?: Database['public']['Tables']['documents']['Row']['analysis'];
@@ -49,7 +62,19 @@ export async function PATCH(
     };
     const { analysis, status, errorMessage } = body;
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
+
+    const { data: existing, error: loadError } = await supabase.from('documents').select('project_id').eq('id', id).maybeSingle();
+    if (loadError) throw loadError;
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (existing.project_id) {
+      const role = await getProjectRole(supabase, existing.project_id, caller.userId);
+      if (!hasProjectRole(role, PROJECT_EDITORS)) {
+        return forbidden('Only owners and attorneys can update documents');
+      }
+    }
 
     const updates: Partial<Database['public']['Tables']['documents']['Update']> = {};
     if (analysis !== undefined) updates.analysis = analysis;
@@ -74,6 +99,25 @@ export async function PATCH(
 
     if (error) throw error;
 
+    // A failed index leaves the entity pages stale, not the analysis unsaved
+    if (analysis !== undefined && document.project_id) {
+      try {
+        await indexDocumentEntities(supabase, { id: document.id, project_id: document.project_id, analysis: document.analysis });
+      } catch (indexError) {
+        console.error('Error indexing document entities:', indexError);
+      }
+    }
+
+    await recordAudit(caller, request, {
+      action: analysis !== undefined ? 'document.analyze' : 'document.update',
+      documentId: id,
+      details: {
+        fields: Object.keys(updates),
+        ...(analysis !== undefined && { analysisHash: recordHash(analysis) }),
+        ...(updates.status && { status: updates.status }),
+      },
+    });
+
     return NextResponse.json({ document });
   } catch (error: any) {
     console.error('Error updating document:', error);
@@ -90,13 +134,16 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
-    // Get document to find storage path
+    // Get document to find storage path, and what to record once it is gone
     const { data: document } = await supabase
       .from('documents')
-      .select('storage_path')
+      .select('project_id, bates_formatted, content_hash, name, storage_path')
       .eq('id', id)
       .single();
 
@@ -115,6 +162,16 @@ export async function DELETE(
 
     if (error) throw error;
 
+    await recordAudit(caller, request, {
+      action: 'document.delete',
+      projectId: document?.project_id ?? null,
+      documentId: id,
+      batesNumber: document?.bates_formatted ?? null,
+      hashBefore: document?.content_hash ?? null,
+      hashAfter: null,
+      details: { name: document?.name, storagePath: document?.storage_path },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     console.error('Error deleting document:', error);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { loadDocumentThread } from '@/lib/emailThreadsServer';
+
+// GET /api/documents/[id]/thread - Show the email conversation a document belongs to
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const thread = await loadDocumentThread(caller.supabase, id);
+
+    if (!thread) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'thread' } });
+
+    return NextResponse.json(thread);
+  } catch (error: unknown) {
+    console.error('Error fetching email thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email thread', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
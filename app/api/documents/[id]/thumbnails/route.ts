@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { canThumbnail } from '@/lib/thumbnails';
+import { isThumbnailQueued, loadDocumentThumbnails, queueThumbnails, signThumbnails } from '@/lib/thumbnailsServer';
+
+// GET /api/documents/[id]/thumbnails - A document's poster and video keyframes, and whether they are on their way
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const loaded = await loadDocumentThumbnails(caller.supabase, id);
+    if (!loaded) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const [thumbnails, queued] = await Promise.all([
+      loaded.thumbnails ? signThumbnails(caller.supabase, loaded.thumbnails) : null,
+      isThumbnailQueued(caller.supabase, id),
+    ]);
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'thumbnails' } });
+    return NextResponse.json({ thumbnails, queued });
+  } catch (error: unknown) {
+    console.error('Error fetching thumbnails:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch thumbnails', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/thumbnails - Queue keyframes (video) or a first-page thumbnail (PDF, image) for the document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const loaded = await loadDocumentThumbnails(caller.supabase, id);
+    if (!loaded?.projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!canThumbnail(loaded.mimeType)) {
+      return NextResponse.json({ error: `Thumbnails cannot be made from ${loaded.mimeType} files` }, { status: 422 });
+    }
+
+    const role = await getProjectRole(caller.supabase, loaded.projectId, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot queue thumbnails');
+    }
+
+    const queued = (await queueThumbnails(caller.supabase, loaded.projectId, [id])) > 0;
+    await recordAudit(caller, request, {
+      action: 'job.create',
+      projectId: loaded.projectId,
+      documentId: id,
+      details: { jobType: 'thumbnail', queued },
+    });
+    return NextResponse.json({ queued }, { status: 202 });
+  } catch (error: unknown) {
+    console.error('Error queueing thumbnails:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue thumbnails', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
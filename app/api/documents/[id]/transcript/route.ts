@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import {
+  isTranscriptionQueued,
+  listProjectPeople,
+  listTranscriptSpeakers,
+  loadDocumentTranscript,
+  queueTranscription,
+} from '@/lib/transcriptionServer';
+
+// GET /api/documents/[id]/transcript - The timed transcript of an audio or video document with its speakers, and whether one is on its way
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const loaded = await loadDocumentTranscript(caller.supabase, id);
+
+    if (!loaded) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const [queued, speakers, people] = await Promise.all([
+      isTranscriptionQueued(caller.supabase, id),
+      loaded.transcript ? listTranscriptSpeakers(caller.supabase, id, loaded.transcript) : [],
+      loaded.projectId ? listProjectPeople(caller.supabase, loaded.projectId) : [],
+    ]);
+    await recordAudit(caller, request, { action: 'document.view', documentId: id, details: { view: 'transcript' } });
+
+    return NextResponse.json({ transcript: loaded.transcript, queued, speakers, people });
+  } catch (error: unknown) {
+    console.error('Error fetching transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcript', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/transcript - Queue a timed transcription of the document's audio
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const loaded = await loadDocumentTranscript(caller.supabase, id);
+    if (!loaded?.projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const role = await getProjectRole(caller.supabase, loaded.projectId, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot transcribe documents');
+    }
+
+    const queued = await queueTranscription(caller.supabase, loaded.projectId, id);
+    await recordAudit(caller, request, { action: 'document.transcribe', documentId: id, details: { queued } });
+    return NextResponse.json({ queued }, { status: 202 });
+  } catch (error: unknown) {
+    console.error('Error queueing transcription:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue transcription', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
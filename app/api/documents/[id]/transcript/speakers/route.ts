@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import {
+  listTranscriptSpeakers,
+  loadDocumentTranscript,
+  queueSpeakerText,
+  setTranscriptSpeaker,
+  transcriptTextConflict,
+} from '@/lib/transcriptionServer';
+
+// PUT /api/documents/[id]/transcript/speakers - Identify a transcript speaker label as a person, or clear it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { label, entityId = null, name = null } = body as { label?: string; entityId?: string | null; name?: string | null };
+
+    if (typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'label is required' }, { status: 400 });
+    }
+
+    const loaded = await loadDocumentTranscript(caller.supabase, id);
+    if (!loaded?.projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!loaded.transcript || !loaded.transcript.segments.some(segment => segment.speaker === label)) {
+      return NextResponse.json({ error: `No speaker ${label} in this transcript` }, { status: 404 });
+    }
+
+    const role = await getProjectRole(caller.supabase, loaded.projectId, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot identify speakers');
+    }
+
+    // Naming a speaker rewrites the text; redactions on it have to be able to follow
+    const conflict = await transcriptTextConflict(caller.supabase, id, loaded.transcript);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const document = { id, projectId: loaded.projectId };
+    await setTranscriptSpeaker(caller.supabase, document, label, { entityId, name });
+    await queueSpeakerText(caller.supabase, loaded.projectId, id);
+    const speakers = await listTranscriptSpeakers(caller.supabase, id, loaded.transcript);
+
+    await recordAudit(caller, request, {
+      action: 'document.speakers',
+      documentId: id,
+      details: { label, entityId, name: speakers.find(speaker => speaker.label === label)?.name ?? null },
+    });
+
+    return NextResponse.json({ speakers });
+  } catch (error: unknown) {
+    console.error('Error identifying transcript speaker:', error);
+    return NextResponse.json(
+      { error: 'Failed to identify speaker', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
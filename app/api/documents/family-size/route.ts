@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { measureFamily } from '@/lib/documentFamilies';
+
+export const maxDuration = 120;
+
+// POST /api/documents/family-size - Count the Bates pages a container's children will need
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const formData = await request.formData();
+
+    const file = formData.get('file');
+    const fileName = formData.get('fileName') as string | null;
+    const mimeType = formData.get('mimeType') as string | null;
+
+    if (!file || typeof file === 'string' || !fileName) {
+      return NextResponse.json(
+        { error: 'Missing required fields: file, fileName' },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await (file as File).arrayBuffer());
+    const size = await measureFamily(buffer, mimeType || file.type, fileName);
+
+    const fileHash = sha256Hex(buffer);
+    await recordAudit(caller, request, {
+      action: 'document.view',
+      hashBefore: fileHash,
+      hashAfter: fileHash,
+      details: { view: 'family-size', fileName },
+    });
+
+    return NextResponse.json(size);
+  } catch (error: unknown) {
+    console.error('Error measuring document family:', error);
+    return NextResponse.json(
+      { error: 'Failed to measure document family', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { findUploadedHash, recordAudit } from '@/lib/auditLogServer';
+import { getCustodian } from '@/lib/custodiansServer';
+import { findExactDuplicateMaster } from '@/lib/duplicatesServer';
 
 // POST /api/documents - Create a new document record
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     const {
       projectId,
@@ -15,7 +21,15 @@ export async function POST(request: NextRequest) {
       batesPrefix,
       batesNumber,
       batesFormatted,
+      batesEndNumber,
+      batesEndFormatted,
+      batesFamilyEndNumber,
+      pageCount,
+      contentHash,
       storagePath,
+      custodianId,
+      originalPath,
+      fileModifiedAt,
       status = 'pending',
     } = body;
 
@@ -28,7 +42,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
+
+    // Every upload into a project names who or what it was collected from
+    const custodian = projectId && custodianId ? await getCustodian(supabase, projectId, custodianId) : null;
+    if (projectId && !custodian) {
+      return NextResponse.json(
+        { error: custodianId ? 'Custodian not found in this project' : 'Missing required field: custodianId' },
+        { status: 400 }
+      );
+    }
+
+    // The hash verified at upload is the evidence's fingerprint; a record claiming different content is refused
+    const uploadedHash = projectId ? await findUploadedHash(supabase, projectId, storagePath) : null;
+    if (uploadedHash && contentHash && uploadedHash !== contentHash) {
+      return NextResponse.json(
+        { error: 'contentHash does not match the SHA-256 recorded when the file was uploaded' },
+        { status: 409 }
+      );
+    }
+    const effectiveHash: string | undefined = contentHash || uploadedHash || undefined;
 
     // Build document object compatible with remote schema
     const documentData: Record<string, unknown> = {
@@ -53,6 +86,18 @@ export async function POST(request: NextRequest) {
     if (fileSize !== undefined) documentData.file_size = fileSize;
     if (batesPrefix) documentData.bates_prefix = batesPrefix;
     if (batesNumber !== undefined) documentData.bates_number = String(batesNumber);
+    if (batesEndNumber !== undefined) documentData.bates_end_number = batesEndNumber;
+    if (batesEndFormatted) documentData.bates_end_formatted = batesEndFormatted;
+    if (batesFamilyEndNumber !== undefined) documentData.bates_family_end_number = batesFamilyEndNumber;
+    if (pageCount !== undefined) documentData.page_count = pageCount;
+    if (effectiveHash) documentData.content_hash = effectiveHash;
+    if (custodian) documentData.custodian_id = custodian.id;
+    if (typeof originalPath === 'string' || typeof fileModifiedAt === 'string') {
+      documentData.metadata = {
+        ...(typeof originalPath === 'string' && originalPath ? { originalPath } : {}),
+        ...(typeof fileModifiedAt === 'string' && fileModifiedAt ? { fileModifiedAt } : {}),
+      };
+    }
 
     const { data: document, error } = await supabase
       .from('documents')
@@ -62,7 +107,22 @@ export async function POST(request: NextRequest) {
 
     if (error) throw error;
 
-    return NextResponse.json({ document }, { status: 201 });
+    await recordAudit(caller, request, {
+      action: 'document.create',
+      documentId: document.id,
+      hashBefore: null,
+      details: { name, storagePath, custodian: custodian?.name ?? null, originalPath: originalPath || null },
+    });
+
+    // Identical content already in the project: the caller can reuse its analysis instead of paying for another.
+    const duplicateOf = effectiveHash && projectId
+      ? await findExactDuplicateMaster(supabase, projectId, effectiveHash, document.id).catch((lookupError: unknown) => {
+          console.error('Duplicate lookup failed:', lookupError);
+          return null;
+        })
+      : null;
+
+    return NextResponse.json({ document, duplicateOf }, { status: 201 });
   } catch (error: any) {
     console.error('Error creating document:', error);
     return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -7,6 +8,9 @@ interface RouteParams {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
 
     if (!id) {
@@ -16,7 +20,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const { data: job, error } = await supabase
       .from('job_queue')
@@ -34,6 +38,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       throw new Error(`Failed to fetch job: ${error.message}`);
     }
 
+    await recordAudit(caller, request, {
+      action: 'job.view',
+      projectId: job.project_id,
+      documentId: job.document_id,
+      details: { jobId: id, jobType: job.job_type, status: job.status },
+    });
+
     return NextResponse.json({ job });
   } catch (error: unknown) {
     console.error('Error fetching job:', error);
@@ -47,6 +58,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
 
     if (!id) {
@@ -56,11 +70,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const { data: job, error: fetchError } = await supabase
       .from('job_queue')
-      .select('status')
+      .select('status, project_id, document_id, job_type')
       .eq('id', id)
       .single();
 
@@ -90,6 +104,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       throw new Error(`Failed to delete job: ${deleteError.message}`);
     }
 
+    await recordAudit(caller, request, {
+      action: 'job.delete',
+      projectId: job.project_id,
+      documentId: job.document_id,
+      details: { jobId: id, jobType: job.job_type },
+    });
+
     return NextResponse.json({ success: true, message: 'Job deleted' });
   } catch (error: unknown) {
     console.error('Error deleting job:', error);
@@ -103,6 +124,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
 
     if (!id) {
@@ -115,7 +139,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     const { status, priority, maxAttempts } = body;
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const updateData: Record<string, unknown> = {};
     
@@ -175,6 +199,13 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       throw new Error(`Failed to update job: ${error.message}`);
     }
 
+    await recordAudit(caller, request, {
+      action: 'job.update',
+      projectId: job.project_id,
+      documentId: job.document_id,
+      details: { jobId: id, ...updateData },
+    });
+
     return NextResponse.json({ job });
   } catch (error: unknown) {
     console.error('Error updating job:', error);
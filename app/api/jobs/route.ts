@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { getCaller, unauthorized, type Caller } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
 import type { Database } from '@/lib/database.types';
 
 type JobType = Database['public']['Tables']['job_queue']['Row']['job_type'];
 
+const VALID_JOB_TYPES = ['extract', 'analyze', 'transcribe', 'embed', 'thread', 'contradictions', 'thumbnail', 'speakers'];
+
 interface CreateJobRequest {
   projectId: string;
   documentId?: string;
@@ -22,13 +25,16 @@ interface BatchJobRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     
     if ('jobs' in body && Array.isArray(body.jobs)) {
-      return handleBatchCreate(body as BatchJobRequest);
+      return handleBatchCreate(caller, request, body as BatchJobRequest);
     }
     
-    return handleSingleCreate(body as CreateJobRequest);
+    return handleSingleCreate(caller, request, body as CreateJobRequest);
   } catch (error: unknown) {
     console.error('Error creating job:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -39,7 +45,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleSingleCreate(body: CreateJobRequest): Promise<NextResponse> {
+async function handleSingleCreate(caller: Caller, request: NextRequest, body: CreateJobRequest): Promise<NextResponse> {
   const { projectId, documentId, jobType, priority = 0 } = body;
 
   if (!projectId || !jobType) {
@@ -49,17 +55,14 @@ async function handleSingleCreate(body: CreateJobRequest): Promise<NextResponse>
     );
   }
 
-  const validJobTypes = ['extract', 'analyze', 'transcribe'];
-  if (!validJobTypes.includes(jobType)) {
+  if (!VALID_JOB_TYPES.includes(jobType)) {
     return NextResponse.json(
-      { error: `Invalid jobType. Must be one of: ${validJobTypes.join(', ')}` },
+      { error: `Invalid jobType. Must be one of: ${VALID_JOB_TYPES.join(', ')}` },
       { status: 400 }
     );
   }
 
-  const supabase = getSupabaseAdmin();
-
-  const { data: job, error } = await supabase
+  const { data: job, error } = await caller.supabase
     .from('job_queue')
     .insert({
       project_id: projectId,
@@ -77,10 +80,17 @@ async function handleSingleCreate(body: CreateJobRequest): Promise<NextResponse>
     throw new Error(`Failed to insert job: ${error.message}`);
   }
 
+  await recordAudit(caller, request, {
+    action: 'job.create',
+    projectId,
+    documentId: documentId || null,
+    details: { jobId: job.id, jobType },
+  });
+
   return NextResponse.json({ job }, { status: 201 });
 }
 
-async function handleBatchCreate(body: BatchJobRequest): Promise<NextResponse> {
+async function handleBatchCreate(caller: Caller, request: NextRequest, body: BatchJobRequest): Promise<NextResponse> {
   const { projectId, jobs } = body;
 
   if (!projectId || !Array.isArray(jobs) || jobs.length === 0) {
@@ -90,7 +100,6 @@ async function handleBatchCreate(body: BatchJobRequest): Promise<NextResponse> {
     );
   }
 
-  const validJobTypes = ['extract', 'analyze', 'transcribe'];
   for (const job of jobs) {
     if (!job.documentId || !job.jobType) {
       return NextResponse.json(
@@ -98,16 +107,14 @@ async function handleBatchCreate(body: BatchJobRequest): Promise<NextResponse> {
         { status: 400 }
       );
     }
-    if (!validJobTypes.includes(job.jobType)) {
+    if (!VALID_JOB_TYPES.includes(job.jobType)) {
       return NextResponse.json(
-        { error: `Invalid jobType. Must be one of: ${validJobTypes.join(', ')}` },
+        { error: `Invalid jobType. Must be one of: ${VALID_JOB_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
   }
 
-  const supabase = getSupabaseAdmin();
-
   const jobsToInsert = jobs.map(job => ({
     project_id: projectId,
     document_id: job.documentId,
@@ -118,7 +125,7 @@ async function handleBatchCreate(body: BatchJobRequest): Promise<NextResponse> {
     max_attempts: 3,
   }));
 
-  const { data: createdJobs, error } = await supabase
+  const { data: createdJobs, error } = await caller.supabase
     .from('job_queue')
     .insert(jobsToInsert)
     .select();
@@ -127,17 +134,26 @@ async function handleBatchCreate(body: BatchJobRequest): Promise<NextResponse> {
     throw new Error(`Failed to insert jobs: ${error.message}`);
   }
 
+  await recordAudit(caller, request, {
+    action: 'job.create',
+    projectId,
+    details: { jobCount: createdJobs.length, jobTypes: Array.from(new Set(jobs.map(job => job.jobType))) },
+  });
+
   return NextResponse.json({ jobs: createdJobs, count: createdJobs.length }, { status: 201 });
 }
 
 export async function GET(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const status = searchParams.get('status');
     const limit = parseInt(searchParams.get('limit') || '50', 10);
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     let query = supabase
       .from('job_queue')
@@ -167,6 +183,8 @@ export async function GET(request: NextRequest) {
       throw new Error(`Failed to fetch jobs: ${error.message}`);
     }
 
+    await recordAudit(caller, request, { action: 'job.view', projectId, details: { status, count: jobs.length } });
+
     return NextResponse.json({ jobs });
   } catch (error: unknown) {
     console.error('Error fetching jobs:', error);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { auditEntryConcerns, verifyAuditChain } from '@/lib/auditLog';
+import { loadAuditChain, recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// GET /api/projects/[id]/audit?documentId=&limit= - Latest audit entries and whether the project's chain verifies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can read the audit log');
+    }
+
+    const documentId = request.nextUrl.searchParams.get('documentId');
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+    const limit = Number.isFinite(requestedLimit) ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    // Verification needs the whole chain, not just the page returned
+    const chain = await loadAuditChain(caller.supabase, id);
+    const status = verifyAuditChain(chain);
+    const entries = (documentId ? chain.filter(entry => auditEntryConcerns(entry, documentId)) : chain)
+      .slice(-limit)
+      .reverse();
+
+    await recordAudit(caller, request, {
+      action: 'audit.view',
+      projectId: id,
+      documentId,
+      details: { chainValid: status.valid, entryCount: status.entryCount },
+    });
+
+    return NextResponse.json({ entries, chain: status });
+  } catch (error: unknown) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { checkInReviewBatch } from '@/lib/reviewBatchesServer';
+
+// POST /api/projects/[id]/batches/[batchId]/checkin - Release a checked-out batch, optionally as complete
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, batchId } = await params;
+    const body = (await request.json()) as { complete?: unknown };
+
+    if (body.complete !== undefined && typeof body.complete !== 'boolean') {
+      return NextResponse.json({ error: 'complete must be a boolean' }, { status: 400 });
+    }
+
+    const result = await checkInReviewBatch(caller.supabase, id, batchId, caller.email, body.complete ?? false);
+    if (!result) {
+      return NextResponse.json({ error: 'Review batch not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, { action: 'batch.check_in', projectId: id, details: { batchId, complete: body.complete ?? false } });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error checking in review batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to check in review batch', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { checkOutReviewBatch } from '@/lib/reviewBatchesServer';
+
+// POST /api/projects/[id]/batches/[batchId]/checkout - Check a batch out so only the caller codes it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, batchId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot check out review batches');
+    }
+
+    const result = await checkOutReviewBatch(caller.supabase, id, batchId, caller.email);
+    if (!result) {
+      return NextResponse.json({ error: 'Review batch not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, { action: 'batch.check_out', projectId: id, details: { batchId } });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error checking out review batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to check out review batch', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole, normalizeEmail } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { assignReviewBatch, deleteReviewBatch, getReviewBatch } from '@/lib/reviewBatchesServer';
+
+// GET /api/projects/[id]/batches/[batchId] - A review batch and its documents in review order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, batchId } = await params;
+    const result = await getReviewBatch(caller.supabase, id, batchId);
+    if (!result) {
+      return NextResponse.json({ error: 'Review batch not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'batch', batchId } });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error fetching review batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review batch', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/projects/[id]/batches/[batchId] - Assign the batch to a reviewer's email, or unassign it with null
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, batchId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can assign review batches');
+    }
+
+    const body = (await request.json()) as { assignee?: unknown };
+    const assignee = body.assignee === null || body.assignee === '' ? null : normalizeEmail(body.assignee);
+
+    if (body.assignee !== null && body.assignee !== '' && !assignee) {
+      return NextResponse.json({ error: 'assignee must be an email address or null' }, { status: 400 });
+    }
+
+    const batch = await assignReviewBatch(caller.supabase, id, batchId, assignee);
+    if (!batch) {
+      return NextResponse.json({ error: 'Review batch not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, { action: 'batch.assign', projectId: id, details: { batchId, name: batch.name, assignee } });
+    return NextResponse.json({ batch });
+  } catch (error: unknown) {
+    console.error('Error assigning review batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign review batch', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/batches/[batchId] - Dissolve a batch; its documents can be batched again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; batchId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, batchId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can delete review batches');
+    }
+
+    const deleted = await deleteReviewBatch(caller.supabase, id, batchId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Review batch not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, { action: 'batch.delete', projectId: id, details: { batchId } });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting review batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete review batch', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole, normalizeEmail } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE, parseBatchCriteria } from '@/lib/reviewBatches';
+import { createReviewBatches, listReviewBatches } from '@/lib/reviewBatchesServer';
+
+// GET /api/projects/[id]/batches - List review batches with their progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const batches = await listReviewBatches(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'batches' } });
+    return NextResponse.json({ batches });
+  } catch (error: unknown) {
+    console.error('Error fetching review batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review batches', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/batches - Split unbatched documents matching the criteria into review batches
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can create review batches');
+    }
+
+    const body = (await request.json()) as { criteria?: unknown; batchSize?: unknown; name?: unknown; assignee?: unknown };
+
+    const criteria = parseBatchCriteria(body.criteria);
+    if ('error' in criteria) {
+      return NextResponse.json({ error: criteria.error }, { status: 400 });
+    }
+    const batchSize = body.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (typeof batchSize !== 'number' || !Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `batchSize must be a whole number from 1 to ${MAX_BATCH_SIZE}` }, { status: 400 });
+    }
+    if (body.name !== undefined && typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'name must be a string' }, { status: 400 });
+    }
+    const assignee = body.assignee ? normalizeEmail(body.assignee) : null;
+    if (body.assignee && !assignee) {
+      return NextResponse.json({ error: 'assignee must be an email address' }, { status: 400 });
+    }
+
+    const batches = await createReviewBatches(caller.supabase, id, {
+      criteria,
+      batchSize,
+      name: (typeof body.name === 'string' && body.name.trim()) || 'Batch',
+      assignee,
+    });
+    await recordAudit(caller, request, {
+      action: 'batch.create',
+      projectId: id,
+      details: {
+        batchIds: batches.map(batch => batch.id),
+        documentCount: batches.reduce((sum, batch) => sum + batch.documentCount, 0),
+        assignee,
+      },
+    });
+    return NextResponse.json({ batches }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating review batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to create review batches', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
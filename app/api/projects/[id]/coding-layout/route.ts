@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordHash } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { parseCodingFields } from '@/lib/coding';
+import { getCodingLayout, saveCodingLayout } from '@/lib/codingServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/coding-layout - The project's review coding layout
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const layout = await getCodingLayout(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'coding-layout' } });
+    return NextResponse.json({ layout });
+  } catch (error: unknown) {
+    console.error('Error fetching coding layout:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch coding layout', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/coding-layout - Replace the project's coding fields
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can change the coding layout');
+    }
+
+    const body = (await request.json()) as { name?: unknown; fields?: unknown };
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 });
+    }
+    const parsed = parseCodingFields(body.fields);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const layout = await saveCodingLayout(caller.supabase, id, {
+      name: typeof body.name === 'string' ? body.name.trim() : 'Review coding',
+      fields: parsed.fields,
+    });
+    await recordAudit(caller, request, {
+      action: 'layout.update',
+      projectId: id,
+      details: { name: layout.name, fieldCount: layout.fields.length, layoutHash: recordHash(layout.fields) },
+    });
+    return NextResponse.json({ layout });
+  } catch (error: unknown) {
+    console.error('Error saving coding layout:', error);
+    return NextResponse.json(
+      { error: 'Failed to save coding layout', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { listDocumentCodings } from '@/lib/codingServer';
+
+// GET /api/projects/[id]/codings - Reviewer coding for every coded document, keyed by document id
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const codings = await listDocumentCodings(caller.supabase, id);
+    await recordAudit(caller, request, {
+      action: 'project.view',
+      projectId: id,
+      details: { view: 'codings', documentCount: Object.keys(codings).length },
+    });
+    return NextResponse.json({ codings });
+  } catch (error: unknown) {
+    console.error('Error fetching document codings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document codings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
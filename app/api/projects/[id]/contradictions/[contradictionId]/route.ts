@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isContradictionStatus, reviewContradiction } from '@/lib/contradictionsServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// PATCH /api/projects/[id]/contradictions/[contradictionId] - Confirm, dismiss or reopen a finding
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contradictionId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, contradictionId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot review contradictions');
+    }
+
+    const body = (await request.json()) as { status?: unknown };
+    if (!isContradictionStatus(body.status)) {
+      return NextResponse.json({ error: 'status must be open, confirmed or dismissed' }, { status: 400 });
+    }
+
+    const contradiction = await reviewContradiction(caller.supabase, id, contradictionId, body.status, caller.userId);
+    if (!contradiction) {
+      return NextResponse.json({ error: 'Contradiction not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, {
+      action: 'contradictions.review',
+      projectId: id,
+      details: { contradictionId, status: contradiction.status, bates: contradiction.statements.map(s => s.batesNumber) },
+    });
+    return NextResponse.json({ contradiction });
+  } catch (error: unknown) {
+    console.error('Error reviewing contradiction:', error);
+    return NextResponse.json(
+      { error: 'Failed to review contradiction', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
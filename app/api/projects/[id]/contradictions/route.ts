@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { getLatestContradictionReport, isContradictionAnalysisQueued, queueContradictionAnalysis } from '@/lib/contradictionsServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/contradictions - The latest cross-document contradiction report, and whether a new one is on its way
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const report = await getLatestContradictionReport(caller.supabase, id);
+    const queued = await isContradictionAnalysisQueued(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'contradictions' } });
+    return NextResponse.json({ report, queued });
+  } catch (error: unknown) {
+    console.error('Error fetching contradictions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contradictions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/contradictions - Queue a comparison of every analyzed document against the others
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot run the contradiction analysis');
+    }
+
+    const queued = await queueContradictionAnalysis(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'contradictions.run', projectId: id, details: { queued } });
+    return NextResponse.json({ queued }, { status: 202 });
+  } catch (error: unknown) {
+    console.error('Error queueing contradiction analysis:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue contradiction analysis', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isCustodianKind, normalizeCustodianName } from '@/lib/custodians';
+import { createCustodian, listCustodians } from '@/lib/custodiansServer';
+import { PROJECT_EDITORS, hasProjectRole, normalizeEmail } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/custodians - The people and sources the project's documents were collected from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const custodians = await listCustodians(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'custodians' } });
+    return NextResponse.json({ custodians });
+  } catch (error: unknown) {
+    console.error('Error fetching custodians:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custodians', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/custodians - Add a custodian or source
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can add custodians');
+    }
+
+    const body = (await request.json()) as { name?: unknown; kind?: unknown; email?: unknown; description?: unknown };
+    const name = normalizeCustodianName(body.name);
+    if (!name) {
+      return NextResponse.json({ error: 'A custodian name is required' }, { status: 400 });
+    }
+    const kind = body.kind ?? 'person';
+    if (!isCustodianKind(kind)) {
+      return NextResponse.json({ error: 'kind must be person or source' }, { status: 400 });
+    }
+    const email = body.email ? normalizeEmail(body.email) : null;
+    if (body.email && !email) {
+      return NextResponse.json({ error: 'email is not a valid address' }, { status: 400 });
+    }
+    const description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+
+    const result = await createCustodian(caller.supabase, id, { name, kind, email, description });
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, {
+      action: 'custodian.create',
+      projectId: id,
+      details: { custodianId: result.custodian.id, name, kind },
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error adding custodian:', error);
+    return NextResponse.json(
+      { error: 'Failed to add custodian', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
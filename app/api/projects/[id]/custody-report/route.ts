@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import {
+  buildCustodyReport,
+  CUSTODY_REPORT_CONTENT_TYPES,
+  sha256Hex,
+  toCustodyReport,
+  type CustodyReportFormat,
+} from '@/lib/auditLog';
+import { loadCustodyTrail, recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// POST /api/projects/[id]/custody-report - Export the chain of custody for one Bates number as CSV or DOCX
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can read the audit log');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { batesNumber, format = 'docx' } = body as { batesNumber?: unknown; format?: CustodyReportFormat };
+
+    if (typeof batesNumber !== 'string' || !batesNumber.trim()) {
+      return NextResponse.json({ error: 'batesNumber is required' }, { status: 400 });
+    }
+    if (!Object.prototype.hasOwnProperty.call(CUSTODY_REPORT_CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'format must be csv or docx' }, { status: 400 });
+    }
+
+    const trail = await loadCustodyTrail(caller.supabase, id, batesNumber);
+    if (!trail) {
+      return NextResponse.json({ error: `No document or audit entries for ${batesNumber.trim()}` }, { status: 404 });
+    }
+
+    const report = await buildCustodyReport(toCustodyReport(trail.subject, trail.entries, trail.chain), format);
+
+    await recordAudit(caller, request, {
+      action: 'export.custody_report',
+      projectId: id,
+      documentId: trail.subject.documentId,
+      batesNumber: trail.subject.batesNumber,
+      hashBefore: null,
+      hashAfter: sha256Hex(report),
+      details: { format, entryCount: trail.entries.length, chainValid: trail.chain.valid },
+    });
+
+    const fileName = `custody_${trail.subject.batesNumber.replace(/[^\w.-]+/g, '_')}.${format}`;
+    return new NextResponse(new Uint8Array(report), {
+      status: 200,
+      headers: {
+        'Content-Type': CUSTODY_REPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': String(report.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting chain of custody:', error);
+    return NextResponse.json(
+      { error: 'Failed to export chain of custody', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { dismissDuplicateGroup, loadDuplicateGroups, resolveDuplicateGroup } from '@/lib/duplicatesServer';
+import { hasProjectRole, PROJECT_EDITORS } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/duplicates - List exact and near-duplicate groups
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const groups = await loadDuplicateGroups(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'duplicates' } });
+    return NextResponse.json({ groups });
+  } catch (error: unknown) {
+    console.error('Error fetching duplicate groups:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch duplicate groups', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/projects/[id]/duplicates - Pick a group's master and suppress or release the rest
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const body = (await request.json()) as {
+      groupId?: string;
+      masterDocumentId?: string;
+      suppressDuplicates?: boolean;
+    };
+
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can resolve duplicates');
+    }
+
+    if (!body.groupId || !body.masterDocumentId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: groupId, masterDocumentId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await resolveDuplicateGroup(
+      caller.supabase,
+      id,
+      body.groupId,
+      body.masterDocumentId,
+      body.suppressDuplicates ?? true
+    );
+    if (!result) {
+      return NextResponse.json({ error: 'Duplicate group not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, {
+      action: 'duplicates.resolve',
+      projectId: id,
+      documentId: body.masterDocumentId,
+      details: { groupId: body.groupId, suppressDuplicates: body.suppressDuplicates ?? true },
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error resolving duplicate group:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve duplicate group', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/duplicates?groupId= - Mark a group as not duplicates
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const groupId = request.nextUrl.searchParams.get('groupId');
+
+    if (!groupId) {
+      return NextResponse.json({ error: 'Missing required fields: groupId' }, { status: 400 });
+    }
+
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can resolve duplicates');
+    }
+
+    const result = await dismissDuplicateGroup(caller.supabase, id, groupId);
+    if (!result) {
+      return NextResponse.json({ error: 'Duplicate group not found' }, { status: 404 });
+    }
+
+    await recordAudit(caller, request, { action: 'duplicates.dismiss', projectId: id, details: { groupId } });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error dismissing duplicate group:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss duplicate group', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { isEntityType, normalizeEntityName } from '@/lib/entities';
+import { getEntityDetail, updateEntity } from '@/lib/entitiesServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import type { EntityType } from '@/lib/types';
+
+// GET /api/projects/[id]/entities/[entityId] - An entity with every document and fact that references it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, entityId } = await params;
+    const detail = await getEntityDetail(caller.supabase, id, entityId);
+    if (!detail) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'entity', entityId } });
+    return NextResponse.json(detail);
+  } catch (error: unknown) {
+    console.error('Error fetching entity:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entity', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/projects/[id]/entities/[entityId] - Rename or retype an entity
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entityId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, entityId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot edit entities');
+    }
+
+    const body = (await request.json()) as { name?: unknown; type?: unknown };
+    const name = body.name === undefined ? undefined : normalizeEntityName(body.name);
+    if (name === null) {
+      return NextResponse.json({ error: 'name cannot be blank' }, { status: 400 });
+    }
+    if (body.type !== undefined && !isEntityType(body.type)) {
+      return NextResponse.json({ error: 'type is not a known entity type' }, { status: 400 });
+    }
+    const type = body.type as EntityType | undefined;
+
+    const result = await updateEntity(caller.supabase, id, entityId, { name, type });
+    if (!result) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, {
+      action: 'entity.update',
+      projectId: id,
+      details: { entityId, ...(name && { name }), ...(type && { type }) },
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error updating entity:', error);
+    return NextResponse.json(
+      { error: 'Failed to update entity', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
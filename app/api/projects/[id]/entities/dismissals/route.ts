@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { dismissEntityMerge } from '@/lib/entitiesServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// POST /api/projects/[id]/entities/dismissals - Record that two suggested entities are different
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot dismiss merge suggestions');
+    }
+
+    const body = (await request.json()) as { entityId?: unknown; otherEntityId?: unknown };
+    if (typeof body.entityId !== 'string' || typeof body.otherEntityId !== 'string' || body.entityId === body.otherEntityId) {
+      return NextResponse.json({ error: 'entityId and a different otherEntityId are required' }, { status: 400 });
+    }
+
+    const dismissed = await dismissEntityMerge(caller.supabase, id, body.entityId, body.otherEntityId);
+    if (!dismissed) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, {
+      action: 'entity.dismiss',
+      projectId: id,
+      details: { entityId: body.entityId, otherEntityId: body.otherEntityId },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error dismissing entity merge suggestion:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss merge suggestion', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
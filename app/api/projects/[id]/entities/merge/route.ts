@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { mergeEntities } from '@/lib/entitiesServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// POST /api/projects/[id]/entities/merge - Confirm that entities are one, folding the sources into the target
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot merge entities');
+    }
+
+    const body = (await request.json()) as { targetId?: unknown; sourceIds?: unknown };
+    const sourceIds = Array.isArray(body.sourceIds) ? body.sourceIds.filter((value): value is string => typeof value === 'string') : [];
+    if (typeof body.targetId !== 'string' || sourceIds.length === 0) {
+      return NextResponse.json({ error: 'targetId and at least one source id are required' }, { status: 400 });
+    }
+    if (sourceIds.includes(body.targetId)) {
+      return NextResponse.json({ error: 'An entity cannot be merged into itself' }, { status: 400 });
+    }
+
+    const entity = await mergeEntities(caller.supabase, id, body.targetId, sourceIds);
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+    await recordAudit(caller, request, {
+      action: 'entity.merge',
+      projectId: id,
+      details: { targetId: entity.id, name: entity.name, sourceIds, aliases: entity.aliases },
+    });
+    return NextResponse.json({ entity });
+  } catch (error: unknown) {
+    console.error('Error merging entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge entities', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
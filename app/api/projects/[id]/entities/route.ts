@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { listEntities, listEntityMergeSuggestions, reindexProjectEntities } from '@/lib/entitiesServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/entities - The people, organizations, places, vehicles and badge numbers across the case, with merge suggestions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const entities = await listEntities(caller.supabase, id);
+    const suggestions = await listEntityMergeSuggestions(caller.supabase, id, entities);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'entities' } });
+    return NextResponse.json({ entities, suggestions });
+  } catch (error: unknown) {
+    console.error('Error fetching entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entities', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/entities - Rebuild entity mentions from every analyzed document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot rebuild the entity index');
+    }
+
+    const result = await reindexProjectEntities(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'entity.index', projectId: id, details: result });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error indexing entities:', error);
+    return NextResponse.json(
+      { error: 'Failed to index entities', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { downloadExhibitItems, listMediaClips } from '@/lib/clipsServer';
+import { buildExhibitSet } from '@/lib/mediaClips';
+
+export const maxDuration = 300; // 5 minutes for packaging large clips
+
+const EXHIBIT_PREFIX = /^[A-Z][A-Z0-9]{0,9}$/;
+
+// POST /api/projects/[id]/exhibits - Package the project's media clips as a numbered exhibit set (zip)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can export exhibits');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { prefix = 'EX', clipIds } = body as { prefix?: string; clipIds?: string[] };
+
+    if (typeof prefix !== 'string' || !EXHIBIT_PREFIX.test(prefix)) {
+      return NextResponse.json(
+        { error: 'prefix must be up to 10 capital letters and digits, starting with a letter' },
+        { status: 400 }
+      );
+    }
+    if (clipIds !== undefined && (!Array.isArray(clipIds) || clipIds.length === 0)) {
+      return NextResponse.json(
+        { error: 'clipIds must be a non-empty array when provided' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = caller.supabase;
+    const clips = await listMediaClips(supabase, { projectId: id, clipIds });
+    // Exhibits follow the order the clips were asked for, else the order they were made
+    const ordered = clipIds ? clipIds.flatMap(clipId => clips.filter(clip => clip.id === clipId)) : clips;
+    const items = await downloadExhibitItems(supabase, ordered);
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No media clips to export' }, { status: 404 });
+    }
+
+    const { zip, index } = await buildExhibitSet(items, prefix);
+
+    await recordAudit(caller, request, {
+      action: 'export.exhibits',
+      projectId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(zip),
+      details: {
+        prefix,
+        exhibits: index.map(entry => ({ exhibit: entry.exhibit, batesNumber: entry.batesNumber, sourceBates: entry.sourceBates })),
+      },
+    });
+
+    return new NextResponse(new Uint8Array(zip), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="exhibits_${prefix}.zip"`,
+        'Content-Length': String(zip.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting exhibit clips:', error);
+    return NextResponse.json(
+      { error: 'Failed to export exhibit clips', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { createBatesRange, getNextBatesNumber, reserveFamilyNumbers } from '@/lib/bates';
+import { loadFileCustodian } from '@/lib/custodians';
+import { findOrCreateCustodian, getCustodian } from '@/lib/custodiansServer';
+import { combinePagesToPdf } from '@/lib/production';
+import { measureFamily } from '@/lib/documentFamilies';
+import { fileTypeFromMime, mimeTypeFromName } from '@/lib/fileTypes';
+import { buildDocumentKey } from '@/lib/storageUtils';
+import type { Json } from '@/lib/database.types';
+import type { LoadFileImportRecord } from '@/lib/loadFileImport';
+
+export const maxDuration = 300; // 5 minutes for large natives
+
+const mimeTypeFor = (file: File) => file.type || mimeTypeFromName(file.name);
+
+interface StoredFile {
+  bytes: Buffer;
+  mimeType: string;
+  note?: string;
+}
+
+/** Prefer the native, then the page images, then the producing party's text. */
+async function chooseStoredFile(native: File | null, images: File[], text: File | null): Promise<StoredFile | null> {
+  if (native) {
+    return { bytes: Buffer.from(await native.arrayBuffer()), mimeType: mimeTypeFor(native) };
+  }
+
+  if (images.length === 1) {
+    return { bytes: Buffer.from(await images[0].arrayBuffer()), mimeType: mimeTypeFor(images[0]) };
+  }
+
+  if (images.length > 1) {
+    const pages = await Promise.all(
+      images.map(async image => ({ bytes: new Uint8Array(await image.arrayBuffer()), mimeType: mimeTypeFor(image) }))
+    );
+    const combined = await combinePagesToPdf(pages);
+    if (combined) {
+      return { bytes: Buffer.from(combined), mimeType: 'application/pdf' };
+    }
+    return {
+      bytes: Buffer.from(pages[0].bytes),
+      mimeType: pages[0].mimeType,
+      note: `Only the first of ${pages.length} page images was stored; the format could not be combined`,
+    };
+  }
+
+  if (text) {
+    return { bytes: Buffer.from(await text.arrayBuffer()), mimeType: 'text/plain' };
+  }
+
+  return null;
+}
+
+// POST /api/projects/[id]/import - Ingest one document from a third-party load file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const formData = await request.formData();
+
+    const rawRecord = formData.get('record');
+    const producingParty = (formData.get('producingParty') as string | null)?.trim() || null;
+    const custodianId = (formData.get('custodianId') as string | null)?.trim() || null;
+    const native = formData.get('native');
+    const text = formData.get('text');
+    const images = formData.getAll('images').filter((value): value is File => typeof value !== 'string');
+
+    if (typeof rawRecord !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: record' },
+        { status: 400 }
+      );
+    }
+
+    let record: Pick<
+      LoadFileImportRecord,
+      'producingBegBates' | 'producingEndBates' | 'pageCount' | 'fileName' | 'fields'
+    >;
+    try {
+      record = JSON.parse(rawRecord);
+    } catch {
+      return NextResponse.json({ error: 'record is not valid JSON' }, { status: 400 });
+    }
+    if (!record?.producingBegBates || typeof record.fileName !== 'string' || !record.fileName) {
+      return NextResponse.json(
+        { error: 'Missing required fields: record.producingBegBates, record.fileName' },
+        { status: 400 }
+      );
+    }
+    if (record.pageCount != null && !(Number.isInteger(record.pageCount) && record.pageCount > 0)) {
+      return NextResponse.json({ error: 'record.pageCount must be a positive whole number' }, { status: 400 });
+    }
+
+    const textFile = text && typeof text !== 'string' ? text : null;
+    const stored = await chooseStoredFile(native && typeof native !== 'string' ? native : null, images, textFile);
+    if (!stored) {
+      return NextResponse.json(
+        { error: `No native, image or text file supplied for ${record.producingBegBates}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = caller.supabase;
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, bates_prefix')
+      .eq('id', id)
+      .single();
+
+    if (projectError) {
+      if (projectError.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+      throw projectError;
+    }
+
+    // A custodian chosen for the import wins; otherwise the load file's CUSTODIAN column, then the producing party as a source
+    let custodian = custodianId ? await getCustodian(supabase, id, custodianId) : null;
+    if (custodianId && !custodian) {
+      return NextResponse.json({ error: 'Custodian not found in this project' }, { status: 400 });
+    }
+    if (!custodian) {
+      const fieldCustodian = loadFileCustodian(record.fields || {});
+      const resolved = fieldCustodian
+        ? await findOrCreateCustodian(supabase, id, fieldCustodian, 'person')
+        : producingParty
+          ? await findOrCreateCustodian(supabase, id, producingParty, 'source')
+          : null;
+      custodian = resolved?.custodian ?? null;
+      if (resolved?.created) {
+        await recordAudit(caller, request, {
+          action: 'custodian.create',
+          projectId: id,
+          details: { custodianId: resolved.custodian.id, name: resolved.custodian.name, kind: resolved.custodian.kind },
+        });
+      }
+    }
+
+    // Produced natives can themselves be archives or emails; hold numbers for their contents.
+    const pageCount = record.pageCount ?? 1;
+    const { descendantPages } = await measureFamily(stored.bytes, stored.mimeType, record.fileName);
+    const { data: start, error: allocateError } = await supabase.rpc('allocate_bates_numbers', {
+      p_project_id: id,
+      p_count: pageCount + descendantPages,
+    });
+    if (allocateError) throw allocateError;
+
+    const bates = reserveFamilyNumbers(createBatesRange(project.bates_prefix, start, pageCount), descendantPages);
+    const storagePath = buildDocumentKey(id, bates.formatted, record.fileName);
+
+    const { error: uploadError } = await supabase.storage
+      .from('discovery-files')
+      .upload(storagePath, stored.bytes, { contentType: stored.mimeType, upsert: false });
+    if (uploadError) throw uploadError;
+
+    const metadata: Json = {
+      source: 'load_file_import',
+      producingParty,
+      loadFile: record.fields || {},
+      ...(stored.note ? { importNote: stored.note } : {}),
+    };
+
+    const { data: document, error: insertError } = await supabase
+      .from('documents')
+      .insert({
+        project_id: id,
+        name: record.fileName,
+        file_type: fileTypeFromMime(stored.mimeType),
+        mime_type: stored.mimeType,
+        file_size: stored.bytes.length,
+        bates_prefix: bates.prefix,
+        bates_number: String(bates.number),
+        bates_formatted: bates.formatted,
+        bates_end_number: bates.endNumber,
+        bates_end_formatted: bates.endFormatted,
+        bates_family_end_number: bates.familyEndNumber ?? null,
+        page_count: pageCount,
+        storage_path: storagePath,
+        file_url: storagePath,
+        content_hash: sha256Hex(stored.bytes),
+        extracted_text: textFile ? await textFile.text() : null,
+        producing_party: producingParty,
+        custodian_id: custodian?.id ?? null,
+        producing_bates_begin: record.producingBegBates,
+        producing_bates_end: record.producingEndBates || record.producingBegBates,
+        metadata,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    // Extraction outranks analysis so the analyzer sees the extracted text.
+    const { error: jobError } = await supabase.from('job_queue').insert([
+      { project_id: id, document_id: document.id, job_type: 'extract', priority: 1, status: 'pending', attempts: 0, max_attempts: 3 },
+      { project_id: id, document_id: document.id, job_type: 'analyze', priority: 0, status: 'pending', attempts: 0, max_attempts: 3 },
+    ]);
+    if (jobError) throw jobError;
+
+    await recordAudit(caller, request, {
+      action: 'document.import',
+      documentId: document.id,
+      hashBefore: null,
+      details: {
+        storagePath,
+        fileName: record.fileName,
+        producingParty,
+        producingBates: record.producingBegBates,
+        custodian: custodian?.name ?? null,
+      },
+    });
+
+    return NextResponse.json(
+      { document, batesNumber: bates, nextBatesNumber: getNextBatesNumber(bates) },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error importing load-file record:', error);
+    return NextResponse.json(
+      { error: 'Failed to import document', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import JSZip from 'jszip';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { addLoadFiles } from '@/lib/loadFile';
+import { addProductionFiles } from '@/lib/production';
+import { downloadProductionItems, loadProducibleDocuments, toLoadFileRecord } from '@/lib/productionServer';
+
+export const maxDuration = 300; // 5 minutes when images are stamped into the volume
+
+const VOLUME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+// POST /api/projects/[id]/loadfile - Export a DAT/OPT load-file volume (zip)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can export load files');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const {
+      volume = 'VOL001',
+      includeImages = true,
+      legend,
+      documentIds,
+    } = body as { volume?: string; includeImages?: boolean; legend?: string; documentIds?: string[] };
+
+    if (!VOLUME_PATTERN.test(volume)) {
+      return NextResponse.json(
+        { error: 'volume may only contain letters, numbers, dashes and underscores' },
+        { status: 400 }
+      );
+    }
+    if (documentIds !== undefined && (!Array.isArray(documentIds) || documentIds.length === 0)) {
+      return NextResponse.json(
+        { error: 'documentIds must be a non-empty array when provided' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = caller.supabase;
+    const documents = await loadProducibleDocuments(supabase, id, documentIds);
+
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: 'No Bates-numbered documents to export' },
+        { status: 404 }
+      );
+    }
+
+    const zip = new JSZip();
+    let records = documents.map(doc => toLoadFileRecord(doc));
+
+    if (includeImages) {
+      const items = await downloadProductionItems(supabase, documents);
+      const produced = new Map(
+        (await addProductionFiles(zip, items, { legend: legend || undefined })).map(entry => [entry.documentId, entry])
+      );
+      records = documents.map(doc => toLoadFileRecord(doc, produced.get(doc.id)));
+    }
+
+    addLoadFiles(zip, records, volume);
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    await recordAudit(caller, request, {
+      action: 'export.loadfile',
+      projectId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(archive),
+      details: { volume, includeImages, documentIds: documents.map(doc => doc.id) },
+    });
+
+    return new NextResponse(new Uint8Array(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${volume}_loadfile.zip"`,
+        'Content-Length': String(archive.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting load file:', error);
+    return NextResponse.json(
+      { error: 'Failed to export load file', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
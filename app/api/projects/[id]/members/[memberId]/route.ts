@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { MEMBER_MANAGERS, hasProjectRole, isProjectRole } from '@/lib/projectAccess';
+import { getProjectRole, removeProjectMember, updateProjectMemberRole } from '@/lib/projectMembersServer';
+
+// PATCH /api/projects/[id]/members/[memberId] - Change a member's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, memberId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, MEMBER_MANAGERS)) {
+      return forbidden('Only owners can change member roles');
+    }
+
+    const body = (await request.json()) as { role?: unknown };
+    if (!isProjectRole(body.role)) {
+      return NextResponse.json({ error: 'role must be owner, attorney, reviewer or read_only' }, { status: 400 });
+    }
+
+    const result = await updateProjectMemberRole(caller.supabase, id, memberId, body.role);
+    if (!result) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, {
+      action: 'member.update',
+      projectId: id,
+      details: { memberId, email: result.member.email, role: result.member.role },
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error updating project member:', error);
+    return NextResponse.json(
+      { error: 'Failed to update project member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/members/[memberId] - Remove a member or withdraw an invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id, memberId } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, MEMBER_MANAGERS)) {
+      return forbidden('Only owners can remove members');
+    }
+
+    const result = await removeProjectMember(caller.supabase, id, memberId, member =>
+      recordAudit(caller, request, {
+        action: 'member.remove',
+        projectId: id,
+        details: { memberId, email: member.email, role: member.role },
+      })
+    );
+    if (!result) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error removing project member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove project member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
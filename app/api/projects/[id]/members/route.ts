@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { MEMBER_MANAGERS, hasProjectRole, isProjectRole, normalizeEmail } from '@/lib/projectAccess';
+import { addProjectMember, getProjectRole, listProjectMembers } from '@/lib/projectMembersServer';
+
+// GET /api/projects/[id]/members - The project's members and the caller's own role
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const members = await listProjectMembers(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'members' } });
+    return NextResponse.json({ members, role });
+  } catch (error: unknown) {
+    console.error('Error fetching project members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project members', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/members - Invite someone by email; they join when they next sign in
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, MEMBER_MANAGERS)) {
+      return forbidden('Only owners can add members');
+    }
+
+    const body = (await request.json()) as { email?: unknown; role?: unknown };
+    const email = normalizeEmail(body.email);
+    if (!email) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (!isProjectRole(body.role)) {
+      return NextResponse.json({ error: 'role must be owner, attorney, reviewer or read_only' }, { status: 400 });
+    }
+
+    const result = await addProjectMember(caller.supabase, id, { email, role: body.role }, caller.userId);
+    if ('conflict' in result) {
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+    await recordAudit(caller, request, {
+      action: 'member.add',
+      projectId: id,
+      details: { memberId: result.member.id, email: result.member.email, role: result.member.role },
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error adding project member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add project member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import {
+  buildPrivilegeLog,
+  PRIVILEGE_LOG_CONTENT_TYPES,
+  toPrivilegeLogEntry,
+  type PrivilegeLogFormat,
+} from '@/lib/privilegeLog';
+import { loadPrivilegeLogSources } from '@/lib/privilegeServer';
+
+// POST /api/projects/[id]/privilege-log - Export the privilege log as CSV, XLSX or DOCX
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can export the privilege log');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { format = 'csv' } = body as { format?: PrivilegeLogFormat };
+
+    if (!Object.prototype.hasOwnProperty.call(PRIVILEGE_LOG_CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'format must be csv, xlsx or docx' }, { status: 400 });
+    }
+
+    const supabase = caller.supabase;
+    const sources = await loadPrivilegeLogSources(supabase, id);
+
+    if (sources.length === 0) {
+      return NextResponse.json(
+        { error: 'No documents are coded privileged or partially privileged' },
+        { status: 404 }
+      );
+    }
+
+    const { data: project } = await supabase.from('projects').select('name').eq('id', id).maybeSingle();
+    const title = project?.name ? `Privilege Log – ${project.name}` : 'Privilege Log';
+    const log = await buildPrivilegeLog(sources.map(toPrivilegeLogEntry), format, title);
+
+    await recordAudit(caller, request, {
+      action: 'export.privilege_log',
+      projectId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(log),
+      details: { format, entryCount: sources.length },
+    });
+
+    return new NextResponse(new Uint8Array(log), {
+      status: 200,
+      headers: {
+        'Content-Type': PRIVILEGE_LOG_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="privilege_log.${format}"`,
+        'Content-Length': String(log.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting privilege log:', error);
+    return NextResponse.json(
+      { error: 'Failed to export privilege log', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { buildProductionSet } from '@/lib/production';
+import { downloadProductionItems, loadProducibleDocuments } from '@/lib/productionServer';
+
+export const maxDuration = 300; // 5 minutes for stamping large productions
+
+// POST /api/projects/[id]/production - Build a Bates-stamped production volume (zip)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can export productions');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { legend, documentIds } = body as { legend?: string; documentIds?: string[] };
+
+    if (documentIds !== undefined && (!Array.isArray(documentIds) || documentIds.length === 0)) {
+      return NextResponse.json(
+        { error: 'documentIds must be a non-empty array when provided' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = caller.supabase;
+    const documents = await loadProducibleDocuments(supabase, id, documentIds);
+    const items = await downloadProductionItems(supabase, documents);
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No stored, Bates-numbered documents to produce' },
+        { status: 404 }
+      );
+    }
+
+    const { zip, index } = await buildProductionSet(items, { legend: legend || undefined });
+    const first = index[0].begBates;
+    const last = index[index.length - 1].endBates;
+
+    await recordAudit(caller, request, {
+      action: 'export.production',
+      projectId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(zip),
+      details: { begBates: first, endBates: last, documentIds: items.map(item => item.documentId) },
+    });
+
+    return new NextResponse(new Uint8Array(zip), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="production_${first}-${last}.zip"`,
+        'Content-Length': String(zip.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error building production:', error);
+    return NextResponse.json(
+      { error: 'Failed to build production', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { buildRedactionLog, REDACTION_LOG_CONTENT_TYPES, type RedactionLogFormat } from '@/lib/redactions';
+import { loadRedactionLogEntries } from '@/lib/redactionsServer';
+
+// POST /api/projects/[id]/redaction-log - Export the redaction log (Bates, page, reason) as CSV or XLSX
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can export the redaction log');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { format = 'csv' } = body as { format?: RedactionLogFormat };
+
+    if (!Object.prototype.hasOwnProperty.call(REDACTION_LOG_CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'format must be csv or xlsx' }, { status: 400 });
+    }
+
+    const supabase = caller.supabase;
+    const entries = await loadRedactionLogEntries(supabase, id);
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No Bates-numbered documents have accepted redactions' },
+        { status: 404 }
+      );
+    }
+
+    const { data: project } = await supabase.from('projects').select('name').eq('id', id).maybeSingle();
+    const title = project?.name ? `Redaction Log – ${project.name}` : 'Redaction Log';
+    const log = await buildRedactionLog(entries, format, title);
+
+    await recordAudit(caller, request, {
+      action: 'export.redaction_log',
+      projectId: id,
+      hashBefore: null,
+      hashAfter: sha256Hex(log),
+      details: { format, entryCount: entries.length },
+    });
+
+    return new NextResponse(new Uint8Array(log), {
+      status: 200,
+      headers: {
+        'Content-Type': REDACTION_LOG_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="redaction_log.${format}"`,
+        'Content-Length': String(log.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting redaction log:', error);
+    return NextResponse.json(
+      { error: 'Failed to export redaction log', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { MEMBER_MANAGERS, PROJECT_EDITORS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
 import type { Database } from '@/types/database.types';
 
 // GET /api/projects/[id] - Get project with all documents
@@ -8,8 +11,11 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     // Fetch project
     const { data: project, error: projectError } = await supabase
@@ -35,6 +41,8 @@ export async function GET(
 
     if (docsError) throw docsError;
 
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { documentCount: documents?.length ?? 0 } });
+
     return NextResponse.json({
       project,
       documents: documents || [],
@@ -54,7 +62,15 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, PROJECT_EDITORS)) {
+      return forbidden('Only owners and attorneys can update the project');
+    }
+
     const body = (await request.json()) as {
       name?: string;
       description?: string | null;
@@ -62,7 +78,7 @@ export async function PATCH(
     };
     const { name, description, batesCounter } = body;
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const updates: Partial<Database['public']['Tables']['projects']['Update']> = {};
     if (name !== undefined) updates.name = name;
@@ -78,6 +94,8 @@ export async function PATCH(
 
     if (error) throw error;
 
+    await recordAudit(caller, request, { action: 'project.update', projectId: id, details: { ...updates } });
+
     return NextResponse.json({ project });
   } catch (error: any) {
     console.error('Error updating project:', error);
@@ -94,8 +112,18 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { id } = await params;
-    const supabase = getSupabaseAdmin();
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, MEMBER_MANAGERS)) {
+      return forbidden('Only owners can delete the project');
+    }
+    const supabase = caller.supabase;
+
+    // Recorded first: once the project is gone the caller is no longer a member who can append to its chain
+    await recordAudit(caller, request, { action: 'project.delete', projectId: id });
 
     // Delete will cascade to documents due to foreign key constraint
     const { error } = await supabase
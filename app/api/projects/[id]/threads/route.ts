@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { listEmailThreads, rebuildEmailThreads } from '@/lib/emailThreadsServer';
+
+// GET /api/projects/[id]/threads - List reconstructed email conversations
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const threads = await listEmailThreads(caller.supabase, id);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'threads' } });
+    return NextResponse.json({ threads });
+  } catch (error: unknown) {
+    console.error('Error fetching email threads:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email threads', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/threads - Rebuild threads from the project's email documents
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const supabase = caller.supabase;
+    const result = await rebuildEmailThreads(supabase, id);
+    const threads = await listEmailThreads(supabase, id);
+    await recordAudit(caller, request, { action: 'threads.rebuild', projectId: id, details: { threadCount: threads.length } });
+    return NextResponse.json({ ...result, threads });
+  } catch (error: unknown) {
+    console.error('Error rebuilding email threads:', error);
+    return NextResponse.json(
+      { error: 'Failed to rebuild email threads', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
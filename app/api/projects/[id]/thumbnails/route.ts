@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { DOCUMENT_REVIEWERS, hasProjectRole } from '@/lib/projectAccess';
+import { getProjectRole } from '@/lib/projectMembersServer';
+import { countQueuedThumbnails, loadProjectPosters, queueThumbnails } from '@/lib/thumbnailsServer';
+
+// GET /api/projects/[id]/thumbnails - Poster images for the project's documents, by document id, and how many are still to come
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!role) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const [{ posters, missing }, queuedCount] = await Promise.all([
+      loadProjectPosters(caller.supabase, id),
+      countQueuedThumbnails(caller.supabase, id),
+    ]);
+    await recordAudit(caller, request, { action: 'project.view', projectId: id, details: { view: 'thumbnails' } });
+    return NextResponse.json({ posters, missingCount: missing.length, queuedCount });
+  } catch (error: unknown) {
+    console.error('Error fetching thumbnails:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch thumbnails', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/thumbnails - Queue thumbnails for every video, PDF and image that has none
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { id } = await params;
+    const role = await getProjectRole(caller.supabase, id, caller.userId);
+    if (!hasProjectRole(role, DOCUMENT_REVIEWERS)) {
+      return forbidden('Read-only members cannot queue thumbnails');
+    }
+
+    const { missing } = await loadProjectPosters(caller.supabase, id);
+    const queued = await queueThumbnails(caller.supabase, id, missing);
+    await recordAudit(caller, request, {
+      action: 'job.create',
+      projectId: id,
+      details: { jobCount: queued, jobTypes: ['thumbnail'] },
+    });
+    return NextResponse.json({ queued }, { status: 202 });
+  } catch (error: unknown) {
+    console.error('Error queueing thumbnails:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue thumbnails', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
 import { buildObjectKey, normalizeProjectName } from '@/lib/storageUtils';
 import { createStorageClient, getPresignedUploadUrl, getStorageConfig } from '@/lib/storageServer';
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     const { projectName, files } = body;
 
@@ -29,6 +34,11 @@ export async function POST(request: NextRequest) {
       })
     );
 
+    await recordAudit(caller, request, {
+      action: 'storage.presign',
+      details: { projectName, objectKeys: uploads.map(upload => upload.objectKey) },
+    });
+
     return NextResponse.json({
       uploads,
       projectSlug: normalizeProjectName(projectName),
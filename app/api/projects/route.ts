@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
+import { claimProjectInvitations } from '@/lib/projectMembersServer';
 
-// GET /api/projects - List all projects
+// GET /api/projects - List the projects the caller is a member of
 export async function GET(request: NextRequest) {
   try {
-    const supabase = getSupabaseAdmin();
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
 
+    const supabase = caller.supabase;
+
+    // Invitations sent before the caller first signed in become memberships now
+    await claimProjectInvitations(supabase);
+
+    // RLS limits the list to projects the caller belongs to
     const { data: projects, error } = await supabase
       .from('projects')
       .select('*')
@@ -13,6 +22,8 @@ export async function GET(request: NextRequest) {
 
     if (error) throw error;
 
+    await recordAudit(caller, request, { action: 'project.view', details: { projectCount: projects.length } });
+
     return NextResponse.json({ projects });
   } catch (error: any) {
     console.error('Error fetching projects:', error);
@@ -26,6 +37,9 @@ export async function GET(request: NextRequest) {
 // POST /api/projects - Create a new project
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     const { name, description, batesPrefix = 'DEF' } = body;
 
@@ -36,7 +50,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const { data: project, error } = await supabase
       .from('projects')
@@ -45,12 +59,19 @@ export async function POST(request: NextRequest) {
         description,
         bates_prefix: batesPrefix,
         bates_counter: 1,
+        created_by: caller.userId,
       })
       .select()
       .single();
 
     if (error) throw error;
 
+    await recordAudit(caller, request, {
+      action: 'project.create',
+      projectId: project.id,
+      details: { name: project.name, batesPrefix: project.bates_prefix },
+    });
+
     return NextResponse.json({ project }, { status: 201 });
   } catch (error: any) {
     console.error('Error creating project:', error);
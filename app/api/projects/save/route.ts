@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { recordAudit } from '@/lib/auditLogServer';
 import { createStorageClient, getStorageConfig, saveManifestObject } from '@/lib/storageServer';
 import { normalizeProjectName } from '@/lib/storageUtils';
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const body = await request.json();
     const { projectName, files, casePerspective } = body;
 
@@ -34,6 +39,8 @@ export async function POST(request: NextRequest) {
     const client = createStorageClient(config);
     await saveManifestObject(client, config.bucket, manifestKey, manifest);
 
+    await recordAudit(caller, request, { action: 'storage.manifest', details: { projectName, manifestKey, fileCount: files.length } });
+
     return NextResponse.json({ success: true, manifestKey });
   } catch (error: any) {
     console.error('Save project error:', error);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { toSearchHits } from '@/lib/searchService';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/search?projectId=...&q=...&limit=... - Ranked full-text search over extracted text
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const query = (searchParams.get('q') || '').trim();
+    const requestedLimit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    if (!projectId || !query) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: projectId, q' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = caller.supabase;
+
+    const { data: rows, error } = await supabase.rpc('search_document_chunks', {
+      p_project_id: projectId,
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) {
+      throw new Error(`Search query failed: ${error.message}`);
+    }
+
+    const hits = toSearchHits(rows || [], query);
+
+    await recordAudit(caller, request, {
+      action: 'search',
+      projectId,
+      details: { queryHash: sha256Hex(query), hitCount: hits.length },
+    });
+
+    return NextResponse.json({ query, hits, count: hits.length });
+  } catch (error: unknown) {
+    console.error('Error searching documents:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to search documents', details: message },
+      { status: 500 }
+    );
+  }
+}
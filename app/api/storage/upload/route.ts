@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { getSupabaseAdmin } from '@/lib/supabaseClient';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { buildDocumentKey } from '@/lib/storageUtils';
 
 export const maxDuration = 300; // 5 minutes for large file uploads
 
 // POST /api/storage/upload - Upload a file to Supabase Storage
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const formData = await request.formData();
 
     const file = formData.get('file');
@@ -26,9 +31,10 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await (file as File).arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
+    // Recorded with the upload, so the document row and later downloads can be checked against it
+    const sha256 = sha256Hex(buffer);
     if (checksum) {
-      const hash = crypto.createHash('sha256').update(buffer).digest('hex');
-      if (hash !== checksum) {
+      if (sha256 !== checksum) {
         return NextResponse.json(
           { error: 'Checksum mismatch. Upload aborted.' },
           { status: 409 }
@@ -36,9 +42,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const storagePath = `${projectId}/${batesNumber}_${fileName}`;
+    const storagePath = buildDocumentKey(projectId, batesNumber, fileName);
 
-    const supabase = getSupabaseAdmin();
+    const supabase = caller.supabase;
 
     const { data, error } = await supabase.storage
       .from('discovery-files')
@@ -49,6 +55,15 @@ export async function POST(request: NextRequest) {
 
     if (error) throw error;
 
+    await recordAudit(caller, request, {
+      action: 'document.upload',
+      projectId,
+      batesNumber,
+      hashBefore: null,
+      hashAfter: sha256,
+      details: { storagePath: data.path, fileName, mimeType, size: buffer.length },
+    });
+
     const { data: urlData } = await supabase.storage
       .from('discovery-files')
       .createSignedUrl(storagePath, 60 * 60 * 24 * 365);
@@ -56,6 +71,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       storagePath: data.path,
       signedUrl: urlData?.signedUrl,
+      sha256,
     });
   } catch (error: any) {
     console.error('Storage upload error:', error);
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { transcribeAudioServer } from '@/lib/geminiServer';
+import { getCaller, unauthorized } from '@/lib/auth';
+import { sha256Hex } from '@/lib/auditLog';
+import { recordAudit } from '@/lib/auditLogServer';
+import { transcribeMedia } from '@/lib/transcriptionServer';
+import { formatTranscriptText } from '@/lib/transcripts';
 import { downloadMediaBuffer, getMaxMediaBytes } from '@/lib/mediaTranscoder';
 
 export const maxDuration = 300; // 5 minutes for transcription
@@ -51,6 +55,9 @@ async function parseRequest(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await getCaller(request);
+    if (!caller) return unauthorized();
+
     const { buffer, mimeType, fileName, batesNumber } = await parseRequest(request);
 
     // Validate that this is an audio or video file
@@ -61,14 +68,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const transcription = await transcribeAudioServer({
-      base64Data: buffer.toString('base64'),
-      mimeType,
-      fileName,
+    const transcript = await transcribeMedia({ buffer, mimeType, fileName, batesNumber });
+
+    const mediaHash = sha256Hex(buffer);
+    await recordAudit(caller, request, {
+      action: 'document.transcribe',
       batesNumber,
+      hashBefore: mediaHash,
+      hashAfter: mediaHash,
+      details: { fileName, mimeType, size: buffer.length },
     });
 
-    return NextResponse.json({ transcription });
+    return NextResponse.json({ transcription: formatTranscriptText(transcript), transcript });
   } catch (error: any) {
     console.error('Transcription API error:', error);
     const status = error?.message?.includes('exceeds maximum size') ? 413 : 500;
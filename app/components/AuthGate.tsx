@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AuthUser } from '@/lib/types';
+import { CLIENT_AUTH_PROVIDER, SIGNED_OUT_EVENT, getCurrentUser, signIn, signOut, signUp } from '@/lib/authClient';
+import DiscoveryApp from '@/app/components/DiscoveryApp';
+
+// Everything behind the API needs a signed-in user, so the app only mounts once there is one.
+const AuthGate: React.FC = () => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(setUser)
+      .catch(err => console.error('Failed to restore session:', err))
+      .finally(() => setIsChecking(false));
+
+    const handleSignedOut = () => {
+      setUser(null);
+      setError('Your session has ended. Sign in again to continue.');
+    };
+    window.addEventListener(SIGNED_OUT_EVENT, handleSignedOut);
+    return () => window.removeEventListener(SIGNED_OUT_EVENT, handleSignedOut);
+  }, []);
+
+  const submit = async (mode: 'sign-in' | 'sign-up') => {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      if (mode === 'sign-in') {
+        setUser(await signIn(email.trim(), password));
+      } else {
+        const created = await signUp(email.trim(), password);
+        if (created) setUser(created);
+        else setMessage('Check your email to confirm the account, then sign in.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setUser(null);
+  };
+
+  if (user) {
+    return <DiscoveryApp key={user.id} user={user} onSignOut={handleSignOut} />;
+  }
+
+  if (isChecking) {
+    return <div className="min-h-screen flex items-center justify-center text-slate-400 text-sm">Loading...</div>;
+  }
+
+  const isLocal = CLIENT_AUTH_PROVIDER === 'local';
+  const inputClass = 'mt-1 text-sm border border-slate-300 rounded px-3 py-2 text-slate-700';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100 p-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit('sign-in');
+        }}
+        className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 w-full max-w-sm space-y-3"
+      >
+        <div>
+          <h1 className="text-xl font-serif font-bold text-slate-800">DiscoveryLens</h1>
+          <p className="text-xs text-slate-500">
+            {isLocal ? 'Local sign-in: enter any email. For development only.' : 'Sign in to see the projects you are a member of.'}
+          </p>
+        </div>
+        <label className="flex flex-col text-xs text-slate-500">
+          Email
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required autoComplete="email" className={inputClass} />
+        </label>
+        {!isLocal && (
+          <label className="flex flex-col text-xs text-slate-500">
+            Password
+            <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} required autoComplete="current-password" className={inputClass} />
+          </label>
+        )}
+        <div className="flex items-center gap-2">
+          <button
+            type="submit"
+            disabled={busy}
+            className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            {busy ? 'Signing in...' : 'Sign in'}
+          </button>
+          {!isLocal && (
+            <button
+              type="button"
+              onClick={() => submit('sign-up')}
+              disabled={busy}
+              className="text-sm px-3 py-2 rounded border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              Create account
+            </button>
+          )}
+        </div>
+        {message && <p className="text-xs text-emerald-600">{message}</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </form>
+    </div>
+  );
+};
+
+export default AuthGate;
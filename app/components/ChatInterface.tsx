@@ -28,11 +28,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
 
   // Helper to highlight Bates numbers in text
   const renderMessageContent = (text: string) => {
-    // Regex to find [DEF-XXX] patterns
-    const parts = text.split(/(\[[A-Z]+-\d+\])/g);
+    // Regex to find [DEF-XXX] patterns, optionally with a passage suffix like [DEF-XXX ¶3]
+    // or a transcript page:line span like [DEF-XXX 45:12-46:3]
+    const parts = text.split(/(\[[A-Z]+-\d+(?: ¶\d+| \d+:\d+(?:-\d+(?::\d+)?)?)?\])/g);
 
     return parts.map((part, i) => {
-      if (part.match(/^\[[A-Z]+-\d+\]$/)) {
+      if (part.match(/^\[[A-Z]+-\d+(?: ¶\d+| \d+:\d+(?:-\d+(?::\d+)?)?)?\]$/)) {
         return (
            <span key={i} className="inline-block align-middle mx-1">
              <BatesBadge formatted={part.replace(/[\[\]]/g, '')} size="sm" className="cursor-pointer hover:bg-slate-700" />
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClipOverlays, MediaClip } from '@/lib/types';
+import { clipRangeError, DEFAULT_OVERLAYS, type ClipRange } from '@/lib/mediaClips';
+import { formatTimestamp } from '@/lib/transcripts';
+import { createDocumentClip, getDocumentClips } from '@/lib/discoveryService';
+
+interface ClipMakerProps {
+  documentId: string;
+  isVideo: boolean;
+  currentTimeMs: number;
+  range: ClipRange;
+  onRangeChange: (range: ClipRange) => void;
+  onSeek: (timeMs: number) => void;
+}
+
+const OVERLAY_OPTIONS: Array<{ key: keyof ClipOverlays; label: string }> = [
+  { key: 'bates', label: 'Bates number' },
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'subtitles', label: 'Subtitles' },
+];
+
+const ClipMaker: React.FC<ClipMakerProps> = ({ documentId, isVideo, currentTimeMs, range, onRangeChange, onSeek }) => {
+  const [clips, setClips] = useState<MediaClip[]>([]);
+  const [overlays, setOverlays] = useState<ClipOverlays>(DEFAULT_OVERLAYS);
+  const [description, setDescription] = useState('');
+  const [cutting, setCutting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setClips(await getDocumentClips(documentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load clips');
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    setClips([]);
+    setError(null);
+    load();
+  }, [load]);
+
+  const rangeError = range.startMs !== null && range.endMs !== null ? clipRangeError(range.startMs, range.endMs) : null;
+
+  const cut = async () => {
+    if (range.startMs === null || range.endMs === null) return;
+    setCutting(true);
+    setError(null);
+    try {
+      const clip = await createDocumentClip(documentId, {
+        startMs: range.startMs,
+        endMs: range.endMs,
+        overlays: isVideo ? overlays : { bates: false, timestamp: false, subtitles: false },
+        description: description.trim() || undefined,
+      });
+      setClips(current => [...current, clip].sort((a, b) => a.startMs - b.startMs));
+      setDescription('');
+      onRangeChange({ startMs: null, endMs: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create clip');
+    } finally {
+      setCutting(false);
+    }
+  };
+
+  const renderMark = (label: string, value: number | null, key: keyof ClipRange) => (
+    <div className="flex items-center gap-1">
+      <span className="text-slate-500">{label}</span>
+      <button
+        onClick={() => value !== null && onSeek(value)}
+        disabled={value === null}
+        className="font-mono w-16 text-left text-indigo-700 hover:underline disabled:text-slate-400 disabled:no-underline"
+        title={value !== null ? 'Seek here' : undefined}
+      >
+        {value !== null ? formatTimestamp(value) : '--:--'}
+      </button>
+      <button
+        onClick={() => onRangeChange({ ...range, [key]: currentTimeMs })}
+        className="px-2 py-0.5 rounded border border-slate-300 text-slate-600 bg-white hover:bg-slate-50 transition-colors"
+      >
+        Set
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="border-t border-slate-200 bg-white px-4 py-3 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="font-bold uppercase tracking-wide text-slate-500">Clip</span>
+        {renderMark('In', range.startMs, 'startMs')}
+        {renderMark('Out', range.endMs, 'endMs')}
+        {range.startMs !== null && range.endMs !== null && !rangeError && (
+          <span className="text-slate-500">{formatTimestamp(range.endMs - range.startMs)} long</span>
+        )}
+        {rangeError && <span className="text-amber-700">{rangeError}</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        {isVideo && OVERLAY_OPTIONS.map(option => (
+          <label key={option.key} className="flex items-center gap-1 text-slate-600">
+            <input
+              type="checkbox"
+              checked={overlays[option.key]}
+              onChange={(e) => setOverlays(current => ({ ...current, [option.key]: e.target.checked }))}
+            />
+            {option.label}
+          </label>
+        ))}
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="flex-1 min-w-[10rem] border border-slate-300 rounded px-2 py-1 text-slate-700"
+        />
+        <button
+          onClick={cut}
+          disabled={cutting || range.startMs === null || range.endMs === null || rangeError !== null}
+          className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+        >
+          {cutting ? 'Cutting clip...' : 'Cut clip'}
+        </button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+      {clips.length > 0 && (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded">
+          {clips.map(clip => (
+            <li key={clip.id} className="flex items-center gap-3 px-2 py-1.5">
+              <span className="font-mono text-slate-700">{clip.batesFormatted}</span>
+              <button onClick={() => onSeek(clip.startMs)} className="font-mono text-indigo-700 hover:underline" title="Seek to clip start">
+                {formatTimestamp(clip.startMs)}–{formatTimestamp(clip.endMs)}
+              </button>
+              <span className="flex-1 min-w-0 truncate text-slate-500">{clip.description}</span>
+              {clip.signedUrl && (
+                <a href={clip.signedUrl} download={clip.name} className="text-indigo-700 hover:underline shrink-0">
+                  Download
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ClipMaker;
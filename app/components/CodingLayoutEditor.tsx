@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CodingField, CodingFieldType, CodingLayout } from '@/lib/types';
+import { CODING_FIELD_TYPE_LABELS, codingFieldKey } from '@/lib/coding';
+
+interface CodingLayoutEditorProps {
+  projectId: string | null;
+  layout: CodingLayout;
+  onSave: (layout: { name: string; fields: CodingField[] }) => Promise<void>;
+}
+
+// Options are edited as one comma-separated line per field.
+type DraftField = CodingField & { optionsText: string };
+
+const toDraft = (fields: CodingField[]): DraftField[] =>
+  fields.map(field => ({ ...field, optionsText: (field.options || []).join(', ') }));
+
+const hasOptions = (type: CodingFieldType) => type === 'choice' || type === 'multi';
+
+const CodingLayoutEditor: React.FC<CodingLayoutEditorProps> = ({ projectId, layout, onSave }) => {
+  const [name, setName] = useState(layout.name);
+  const [fields, setFields] = useState<DraftField[]>(toDraft(layout.fields));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(layout.name);
+    setFields(toDraft(layout.fields));
+  }, [layout]);
+
+  const updateField = (index: number, patch: Partial<DraftField>) =>
+    setFields(prev => prev.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+
+  const moveField = (index: number, offset: number) =>
+    setFields(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const addField = () =>
+    setFields(prev => [
+      ...prev,
+      { key: codingFieldKey('New field', prev.map(f => f.key)), label: 'New field', type: 'multi', options: [], optionsText: '' },
+    ]);
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      // New fields take their key from the label they were saved with; saved keys never change
+      const savedKeys = layout.fields.map(f => f.key).filter(key => fields.some(f => f.key === key));
+      const taken = [...savedKeys];
+      await onSave({
+        name: name.trim() || 'Review coding',
+        fields: fields.map(({ optionsText, ...field }) => {
+          const key = savedKeys.includes(field.key) ? field.key : codingFieldKey(field.label, taken);
+          taken.push(key);
+          return {
+            key,
+            label: field.label,
+            type: field.type,
+            ...(hasOptions(field.type) ? { options: optionsText.split(',').map(o => o.trim()).filter(Boolean) } : {}),
+          };
+        }),
+      });
+      setMessage('Layout saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save coding layout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 col-span-full">
+      <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Review Coding Layout</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        The fields reviewers code for every document in this project. Removing a field hides its values but does not delete them.
+        {layout.id === null && ' The project is using the default layout until you save one.'}
+      </p>
+
+      <label className="flex flex-col text-xs text-slate-500 mb-3 max-w-xs">
+        Layout name
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700"
+        />
+      </label>
+
+      <div className="space-y-2">
+        {fields.map((field, index) => (
+          <div key={field.key} className="flex flex-wrap items-center gap-2 border border-slate-200 rounded p-2">
+            <input
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              aria-label="Field label"
+              className="text-sm border border-slate-300 rounded px-2 py-1 w-40"
+            />
+            <select
+              value={field.type}
+              onChange={(e) => updateField(index, { type: e.target.value as CodingFieldType })}
+              aria-label="Field type"
+              className="text-sm border border-slate-300 rounded px-2 py-1 bg-white"
+            >
+              {(Object.keys(CODING_FIELD_TYPE_LABELS) as CodingFieldType[]).map(type => (
+                <option key={type} value={type}>{CODING_FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {hasOptions(field.type) && (
+              <input
+                value={field.optionsText}
+                onChange={(e) => updateField(index, { optionsText: e.target.value })}
+                placeholder="Options, comma separated"
+                aria-label="Field options"
+                className="flex-1 min-w-[200px] text-sm border border-slate-300 rounded px-2 py-1"
+              />
+            )}
+            <div className="flex items-center gap-1 ml-auto">
+              <button onClick={() => moveField(index, -1)} disabled={index === 0} className="text-xs px-2 py-1 rounded border border-slate-300 disabled:opacity-30" title="Move up">↑</button>
+              <button onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} className="text-xs px-2 py-1 rounded border border-slate-300 disabled:opacity-30" title="Move down">↓</button>
+              <button onClick={() => setFields(prev => prev.filter((_, i) => i !== index))} className="text-xs px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50">Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button
+          onClick={addField}
+          className="text-sm px-3 py-2 rounded border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors"
+        >
+          Add field
+        </button>
+        <button
+          onClick={save}
+          disabled={!projectId || saving}
+          className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+        >
+          {saving ? 'Saving...' : 'Save layout'}
+        </button>
+        {message && <span className="text-xs text-emerald-600">{message}</span>}
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default CodingLayoutEditor;
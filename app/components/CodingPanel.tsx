@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CodingField, CodingLayout, CodingValue, CodingValues } from '@/lib/types';
+
+interface CodingPanelProps {
+  layout: CodingLayout;
+  values?: CodingValues;
+  /** Coding is stored on the project document, so unsaved uploads cannot be coded yet. */
+  canSave: boolean;
+  onSave: (values: CodingValues) => Promise<void>;
+  /** Position of the open document in the file list, e.g. "3 of 40". */
+  position?: string;
+  onPrevious?: () => void;
+  onNext?: () => void;
+}
+
+const sameValues = (a: CodingValues, b: CodingValues) => JSON.stringify(a) === JSON.stringify(b);
+
+const CodingPanel: React.FC<CodingPanelProps> = ({ layout, values, canSave, onSave, position, onPrevious, onNext }) => {
+  const [draft, setDraft] = useState<CodingValues>(values ?? {});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(values ?? {});
+    setError(null);
+  }, [values]);
+
+  const dirty = !sameValues(draft, values ?? {});
+
+  const setValue = (key: string, value: CodingValue | undefined) =>
+    setDraft(prev => {
+      const next = { ...prev };
+      if (value === undefined) delete next[key];
+      else next[key] = value;
+      return next;
+    });
+
+  const toggleTag = (field: CodingField, tag: string) => {
+    const current = Array.isArray(draft[field.key]) ? (draft[field.key] as string[]) : [];
+    const next = current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag];
+    setValue(field.key, next.length > 0 ? next : undefined);
+  };
+
+  const save = async (thenNext: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (dirty) await onSave(draft);
+      if (thenNext) onNext?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save coding');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (field: CodingField) => {
+    const value = draft[field.key];
+    switch (field.type) {
+      case 'choice':
+        return (
+          <div className="flex flex-wrap gap-2">
+            {(field.options || []).map(option => (
+              <button
+                key={option}
+                onClick={() => setValue(field.key, value === option ? undefined : option)}
+                className={`text-xs px-3 py-1.5 rounded border transition-colors text-left ${value === option ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      case 'multi':
+        return (field.options || []).length === 0 ? (
+          <p className="text-xs text-slate-400 italic">No tags defined. Add them in the coding layout on the Overview.</p>
+        ) : (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {(field.options || []).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={Array.isArray(value) && value.includes(option)}
+                  onChange={() => toggleTag(field, option)}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case 'flag':
+        return (
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={value === true} onChange={(e) => setValue(field.key, e.target.checked || undefined)} />
+            {field.label}
+          </label>
+        );
+      case 'text':
+        return (
+          <textarea
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setValue(field.key, e.target.value || undefined)}
+            rows={3}
+            className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-200 bg-slate-50 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-bold uppercase text-slate-500">{layout.name}</h3>
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+          <button
+            onClick={onPrevious}
+            disabled={!onPrevious}
+            title="Previous document (K)"
+            className="px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-30"
+          >
+            ‹
+          </button>
+          {position && <span className="px-1 whitespace-nowrap">{position}</span>}
+          <button
+            onClick={onNext}
+            disabled={!onNext}
+            title="Next document (J)"
+            className="px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-30"
+          >
+            ›
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {layout.fields.map(field => (
+          <div key={field.key}>
+            {field.type !== 'flag' && <p className="text-xs font-semibold text-slate-500 mb-1">{field.label}</p>}
+            {renderField(field)}
+          </div>
+        ))}
+        {layout.fields.length === 0 && (
+          <p className="text-sm text-slate-400 italic">This project&apos;s coding layout has no fields.</p>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-slate-200 space-y-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => save(false)}
+            disabled={!canSave || saving || !dirty}
+            className="text-sm px-3 py-2 rounded border border-indigo-600 text-indigo-600 hover:bg-indigo-50 transition-colors disabled:opacity-40"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            onClick={() => save(true)}
+            disabled={!canSave || saving || !onNext}
+            className="flex-1 text-sm px-3 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            Save &amp; next
+          </button>
+        </div>
+        {!canSave && <p className="text-xs text-slate-400">Save the file to a project to code it.</p>}
+        {canSave && dirty && !saving && <p className="text-xs text-amber-600">Unsaved changes</p>}
+        <p className="text-[11px] text-slate-400">J / K move to the next or previous document.</p>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CodingPanel;
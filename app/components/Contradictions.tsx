@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Contradiction,
+  ContradictionReport,
+  ContradictionSeverity,
+  ContradictionStatement,
+  ContradictionStatus,
+  OpenDocumentProps,
+} from '@/lib/types';
+import { formatContradiction } from '@/lib/contradictions';
+import { getContradictionReport, reviewContradiction, runContradictionAnalysis } from '@/lib/discoveryService';
+import BatesBadge from './BatesBadge';
+
+interface ContradictionsProps extends OpenDocumentProps {
+  projectId: string | null;
+}
+
+const SEVERITY_STYLES: Record<ContradictionSeverity, string> = {
+  high: 'bg-red-50 text-red-700',
+  medium: 'bg-amber-50 text-amber-700',
+  low: 'bg-slate-100 text-slate-600',
+};
+
+const STATUS_FILTERS: Array<{ value: ContradictionStatus | ''; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: '', label: 'All' },
+];
+
+// How often to check on a queued analysis
+const POLL_INTERVAL_MS = 5000;
+
+const Contradictions: React.FC<ContradictionsProps> = ({ projectId, openableIds, onOpenDocument }) => {
+  const [report, setReport] = useState<ContradictionReport | null>(null);
+  const [queued, setQueued] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ContradictionStatus | ''>('open');
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getContradictionReport(projectId);
+      setReport(loaded.report);
+      setQueued(loaded.queued);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contradictions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!queued) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [queued, load]);
+
+  const visible = useMemo(
+    () => (report?.contradictions || []).filter(contradiction => !statusFilter || contradiction.status === statusFilter),
+    [report, statusFilter]
+  );
+
+  if (!projectId) {
+    return <div className="p-8 text-center text-slate-400">Save files to a project to compare them for contradictions.</div>;
+  }
+
+  const run = async () => {
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const result = await runContradictionAnalysis(projectId);
+      setStatus(result.queued ? 'Analysis queued; results appear here when the worker finishes' : 'An analysis is already queued');
+      setQueued(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue contradiction analysis');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const review = async (contradiction: Contradiction, next: ContradictionStatus) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const updated = await reviewContradiction(projectId, contradiction.id, next);
+      setReport(current => current && {
+        ...current,
+        contradictions: current.contradictions.map(item => (item.id === updated.id ? updated : item)),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyReport = async () => {
+    const text = visible.map(formatContradiction).join('\n\n');
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus(`Copied ${visible.length} contradictions`);
+    } catch {
+      setError('Could not copy to the clipboard');
+    }
+  };
+
+  const renderStatement = (statement: ContradictionStatement) => (
+    <div className="flex-1 min-w-0 border border-slate-200 rounded p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <BatesBadge formatted={statement.batesNumber} size="sm" />
+        <button
+          onClick={() => onOpenDocument(statement.documentId)}
+          disabled={!openableIds.has(statement.documentId)}
+          className="text-xs text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline disabled:cursor-default"
+        >
+          Open
+        </button>
+        {!statement.verbatim && (
+          <span className="text-[10px] uppercase tracking-wide text-slate-400" title="Not found word for word in the document">
+            Paraphrased
+          </span>
+        )}
+      </div>
+      <p className={`text-sm text-slate-700 ${statement.verbatim ? 'font-serif' : 'italic'}`}>
+        {statement.verbatim ? `“${statement.quote}”` : statement.quote}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Contradictions</h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Compares what different documents say about the same people and events and pairs up the accounts that
+          disagree, quoting each side with its Bates number. Confirmed and dismissed findings stay that way when the
+          analysis is run again.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ContradictionStatus | '')}
+            className="border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+            aria-label="Review status"
+          >
+            {STATUS_FILTERS.map(filter => (
+              <option key={filter.label} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
+          {report && (
+            <span className="text-slate-400">
+              {report.status === 'running' && 'Running… '}
+              {report.status === 'failed' && 'Last run failed. '}
+              {report.status === 'complete' && `${report.topicCount} topics compared across ${report.documentCount} documents. `}
+              Run {new Date(report.createdAt).toLocaleString()}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={copyReport}
+              disabled={visible.length === 0}
+              className="px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              Copy report
+            </button>
+            <button
+              onClick={load}
+              disabled={isLoading}
+              className="px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+            <button
+              onClick={run}
+              disabled={busy || queued}
+              className="px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+            >
+              {queued ? 'Analysis queued…' : 'Run analysis'}
+            </button>
+          </div>
+        </div>
+        {report?.error && <p className="text-xs text-red-600 mt-3">{report.error}</p>}
+        {status && <p className="text-xs text-emerald-600 mt-3">{status}</p>}
+        {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {visible.length === 0 && !isLoading && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 text-center text-slate-400 text-sm">
+          {!report
+            ? 'No analysis yet. Analyze documents, then run the comparison.'
+            : report.contradictions.length === 0 ? 'No contradictions found.' : 'No contradictions with this status.'}
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(contradiction => (
+          <li key={contradiction.id} className="bg-white p-4 rounded-lg shadow-sm border border-slate-200">
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${SEVERITY_STYLES[contradiction.severity]}`}>
+                {contradiction.severity}
+              </span>
+              <h3 className="text-sm font-bold text-slate-800">{contradiction.topic}</h3>
+              {contradiction.status !== 'open' && (
+                <span className="text-[10px] uppercase tracking-wide text-slate-400">{contradiction.status}</span>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                {contradiction.status === 'open' ? (
+                  <>
+                    <button
+                      onClick={() => review(contradiction, 'confirmed')}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => review(contradiction, 'dismissed')}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-500 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => review(contradiction, 'open')}
+                    disabled={busy}
+                    className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-500 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                  >
+                    Reopen
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              {renderStatement(contradiction.statements[0])}
+              {renderStatement(contradiction.statements[1])}
+            </div>
+            {contradiction.explanation && <p className="text-xs text-slate-600 mt-3">{contradiction.explanation}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default Contradictions;
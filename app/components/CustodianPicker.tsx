@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Custodian, CustodianKind } from '@/lib/types';
+import { CUSTODIAN_KINDS, CUSTODIAN_KIND_LABELS } from '@/lib/custodians';
+
+interface CustodianPickerProps {
+  custodians: Custodian[];
+  value: string | null;
+  onChange: (custodianId: string | null) => void;
+  onCreate: (name: string, kind: CustodianKind) => Promise<Custodian>;
+  disabled?: boolean;
+}
+
+const NEW_CUSTODIAN = '__new__';
+
+/** Who or what the next folder is being collected from. Uploads are refused until one is chosen. */
+const CustodianPicker: React.FC<CustodianPickerProps> = ({ custodians, value, onChange, onCreate, disabled = false }) => {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CustodianKind>('person');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const controlClass =
+    'w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+  const add = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const created = await onCreate(name, kind);
+      onChange(created.id);
+      setAdding(false);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add custodian');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <label htmlFor="upload-custodian" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">
+        Custodian / source
+      </label>
+      <select
+        id="upload-custodian"
+        value={adding ? NEW_CUSTODIAN : value ?? ''}
+        onChange={(e) => {
+          setError(null);
+          if (e.target.value === NEW_CUSTODIAN) {
+            setAdding(true);
+          } else {
+            setAdding(false);
+            onChange(e.target.value || null);
+          }
+        }}
+        disabled={disabled || busy}
+        className={controlClass}
+      >
+        <option value="">Choose who the files came from…</option>
+        {custodians.map(custodian => (
+          <option key={custodian.id} value={custodian.id}>
+            {custodian.name}{custodian.kind === 'source' ? ' (source)' : ''}
+          </option>
+        ))}
+        <option value={NEW_CUSTODIAN}>+ New custodian or source…</option>
+      </select>
+
+      {adding && (
+        <div className="mt-2 flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim()) add();
+            }}
+            placeholder="e.g. Smith, Jane or Finance share"
+            className={`${controlClass} flex-1 min-w-0`}
+            autoFocus
+          />
+          <select value={kind} onChange={(e) => setKind(e.target.value as CustodianKind)} className={`${controlClass} w-24`}>
+            {CUSTODIAN_KINDS.map(option => (
+              <option key={option} value={option}>{CUSTODIAN_KIND_LABELS[option]}</option>
+            ))}
+          </select>
+          <button
+            onClick={add}
+            disabled={busy || !name.trim()}
+            className="px-3 py-1.5 text-xs font-bold rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CustodianPicker;
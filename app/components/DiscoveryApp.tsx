@@ -2,15 +2,32 @@
 
 
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { ChatMessage, DiscoveryFile, FileType, ViewMode, AnalysisData, PresignedUpload, ProjectFileDescriptor, Project, CasePerspective } from '@/lib/types';
+import { AuthUser, ChatMessage, DiscoveryFile, FileType, ViewMode, AnalysisData, PresignedUpload, ProjectFileDescriptor, Project, CasePerspective, SearchHit, PrivilegeCoding, CodingField, CodingLayout, CodingValues, Custodian, CustodianKind, ReviewBatch, ReviewBatchDocument } from '@/lib/types';
 import { BATES_PREFIX_DEFAULT } from '@/lib/constants';
+import { countPdfPages, createBatesRange, getNextBatesNumber, reserveFamilyNumbers } from '@/lib/bates';
+import { containerKind } from '@/lib/fileTypes';
+import { authFetch } from '@/lib/authClient';
 import { analyzeFile, chatWithDiscovery } from '@/lib/geminiService';
-import { createProject, saveDocumentToCloud, updateDocumentAnalysis, updateDocumentStatus } from '@/lib/discoveryService';
+import { createCustodian, createProject, getCodingLayout, getCustodians, getProjectCodings, measureDocumentFamily, saveCodingLayout, saveDocumentCoding, saveDocumentToCloud, searchDocuments, updateDocumentAnalysis, updateDocumentPrivilege, updateDocumentStatus } from '@/lib/discoveryService';
+import { DEFAULT_CODING_LAYOUT, codingBadges, codingFilterOptions, matchesCodingFilter, type CodingFilter } from '@/lib/coding';
+import { collectedFileInfo, findCustodianByName, normalizeCustodianName } from '@/lib/custodians';
 import FilePreview from '@/app/components/FilePreview';
 import ChatInterface from '@/app/components/ChatInterface';
 import BatesBadge from '@/app/components/BatesBadge';
 import Timeline from '@/app/components/Timeline';
 import TerminalInterface from '@/app/components/TerminalInterface';
+import HighlightedSnippet from '@/app/components/HighlightedSnippet';
+import ExportPanel from '@/app/components/ExportPanel';
+import LoadFileImport from '@/app/components/LoadFileImport';
+import DuplicateReview from '@/app/components/DuplicateReview';
+import CodingPanel from '@/app/components/CodingPanel';
+import CodingLayoutEditor from '@/app/components/CodingLayoutEditor';
+import ReviewBatches from '@/app/components/ReviewBatches';
+import ProjectMembers from '@/app/components/ProjectMembers';
+import CustodianPicker from '@/app/components/CustodianPicker';
+import EntityIndex from '@/app/components/EntityIndex';
+import Contradictions from '@/app/components/Contradictions';
+import ThumbnailGrid from '@/app/components/ThumbnailGrid';
 
 // --- Helper Functions ---
 const getFileType = (file: File): FileType => {
@@ -20,18 +37,44 @@ const getFileType = (file: File): FileType => {
   return FileType.DOCUMENT;
 };
 
-const formatBates = (num: number): string => {
-  const padded = num.toString().padStart(4, '0');
-  return `${BATES_PREFIX_DEFAULT}-${padded}`;
+// PDFs consume one Bates number per page; everything else is a single page.
+const countBatesPages = async (file: File): Promise<number> => {
+  if (file.type !== 'application/pdf') return 1;
+  try {
+    return await countPdfPages(await file.arrayBuffer());
+  } catch (error) {
+    console.warn(`Could not count pages in ${file.name}, numbering as one page:`, error);
+    return 1;
+  }
 };
 
-export default function App() {
+// Zips, emails and mailboxes hold numbers for their children so the family is consecutive.
+// Containers too large to store are never exploded, so they reserve nothing.
+const countFamilyPages = async (file: File): Promise<number> => {
+  if (!containerKind(file.type, file.name) || file.size >= 50 * 1024 * 1024) return 0;
+  try {
+    return (await measureDocumentFamily(file)).descendantPages;
+  } catch (error) {
+    console.warn(`Could not size the family of ${file.name}; its children will be numbered at the end:`, error);
+    return 0;
+  }
+};
+
+interface AppProps {
+  user: AuthUser;
+  onSignOut: () => void;
+}
+
+export default function App({ user, onSignOut }: AppProps) {
   // --- State ---
   const [files, setFiles] = useState<DiscoveryFile[]>([]);
   const [batesCounter, setBatesCounter] = useState(1);
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.DASHBOARD);
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [focusedHit, setFocusedHit] = useState<SearchHit | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [projectName, setProjectName] = useState('Untitled Project');
   const [activeMobilePanel, setActiveMobilePanel] = useState<'files' | 'content' | 'chat'>('content');
@@ -44,6 +87,17 @@ export default function App() {
   // Cloud Storage State
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [isInitializingProject, setIsInitializingProject] = useState(false);
+
+  // Review coding
+  const [codingLayout, setCodingLayout] = useState<CodingLayout>(DEFAULT_CODING_LAYOUT);
+  const [codingFilter, setCodingFilter] = useState<CodingFilter | null>(null);
+  // Batch being reviewed; next/previous then walk its documents instead of the file list
+  const [activeBatch, setActiveBatch] = useState<{ id: string; name: string; documentIds: string[] } | null>(null);
+
+  // Custodians: every hunt is collected from one, and the file list can be narrowed to one
+  const [custodians, setCustodians] = useState<Custodian[]>([]);
+  const [uploadCustodianId, setUploadCustodianId] = useState<string | null>(null);
+  const [custodianFilter, setCustodianFilter] = useState('');
   
   // Analysis Queue for rate limiting
   const analysisQueueRef = useRef<DiscoveryFile[]>([]);
@@ -89,11 +143,74 @@ export default function App() {
     }
   };
 
+
+  // Load the project's coding layout and any coding already stored for its documents
+  useEffect(() => {
+    if (!currentProject) return;
+    let cancelled = false;
+    Promise.all([getCodingLayout(currentProject.id), getProjectCodings(currentProject.id)])
+      .then(([layout, codings]) => {
+        if (cancelled) return;
+        setCodingLayout(layout);
+        setFiles(prev => prev.map(f => (f.cloudDocumentId && codings[f.cloudDocumentId] ? { ...f, coding: codings[f.cloudDocumentId] } : f)));
+      })
+      .catch(error => console.error('Failed to load review coding:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentProject]);
+
+  const refreshCustodians = useCallback(async () => {
+    if (!currentProject) return;
+    try {
+      setCustodians(await getCustodians(currentProject.id));
+    } catch (error) {
+      console.error('Failed to load custodians:', error);
+    }
+  }, [currentProject]);
+
+  useEffect(() => {
+    refreshCustodians();
+  }, [refreshCustodians]);
+
+  // Full-text search over extracted text stored in the cloud project
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (!currentProject || query.length < 3) {
+      setSearchHits([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const hits = await searchDocuments(currentProject.id, query);
+        if (!cancelled) setSearchHits(hits);
+      } catch (error) {
+        console.error('Full-text search failed:', error);
+        if (!cancelled) setSearchHits([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, currentProject]);
+
   // --- Handlers ---
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const uploadedFiles = event.target.files;
     if (!uploadedFiles) return;
+    if (!uploadCustodianId) {
+      setSaveError('Choose the custodian or source these files came from before scraping a folder.');
+      event.target.value = '';
+      return;
+    }
 
     setIsScanning(true);
     const newFiles: DiscoveryFile[] = [];
@@ -108,37 +225,98 @@ export default function App() {
 
     for (const file of fileArray) {
       const id = crypto.randomUUID();
-      const batesFormatted = formatBates(currentCounter);
-      
+      const batesNumber = reserveFamilyNumbers(
+        createBatesRange(BATES_PREFIX_DEFAULT, currentCounter, await countBatesPages(file)),
+        await countFamilyPages(file)
+      );
+
       const newDiscoveryFile: DiscoveryFile = {
         id,
         file,
         name: file.name,
         type: getFileType(file),
         mimeType: file.type,
-        batesNumber: {
-          prefix: BATES_PREFIX_DEFAULT,
-          number: currentCounter,
-          formatted: batesFormatted
-        },
+        batesNumber,
         previewUrl: URL.createObjectURL(file),
         isProcessing: true,
         analysis: null,
-        analysisError: null
+        analysisError: null,
+        custodianId: uploadCustodianId,
+        ...collectedFileInfo(file),
       };
 
       newFiles.push(newDiscoveryFile);
-      currentCounter++;
+      currentCounter = getNextBatesNumber(batesNumber);
     }
 
     setFiles(prev => [...prev, ...newFiles]);
     setBatesCounter(currentCounter);
     setIsScanning(false);
+    // The same folder can be picked again, e.g. after a failed upload
+    event.target.value = '';
 
     // Queue files for sequential analysis to avoid rate limiting
     newFiles.forEach(f => queueFileForAnalysis(f));
   };
 
+  const cloudDocumentIds = useMemo(
+    () => new Set(files.map(f => f.cloudDocumentId).filter((id): id is string => Boolean(id))),
+    [files]
+  );
+
+  // Children exploded by the worker exist only in the project, so open their stored copy
+  const handleOpenCloudDocument = (documentId: string, signedUrl?: string | null) => {
+    const local = files.find(f => f.cloudDocumentId === documentId);
+    if (local) {
+      handleSelectFile(local.id);
+    } else if (signedUrl) {
+      window.open(signedUrl, '_blank', 'noopener');
+    }
+  };
+
+  const handleUpdatePrivilege = async (fileId: string, coding: Pick<PrivilegeCoding, 'status' | 'bases' | 'description'>) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target?.cloudDocumentId) return;
+    const privilege = await updateDocumentPrivilege(target.cloudDocumentId, coding);
+    setFiles(prev => prev.map(f => (f.id === fileId ? { ...f, privilege } : f)));
+  };
+
+  const handleUpdateCoding = async (fileId: string, values: CodingValues) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target?.cloudDocumentId) return;
+    const coding = await saveDocumentCoding(target.cloudDocumentId, values);
+    setFiles(prev => prev.map(f => (f.id === fileId ? { ...f, coding } : f)));
+  };
+
+  const handleSaveCodingLayout = async (layout: { name: string; fields: CodingField[] }) => {
+    if (!currentProject) return;
+    const saved = await saveCodingLayout(currentProject.id, layout);
+    setCodingLayout(saved);
+    setCodingFilter(prev => (prev && saved.fields.some(f => f.key === prev.key) ? prev : null));
+  };
+
+  const handleStartBatchReview = (batch: ReviewBatch, documents: ReviewBatchDocument[]) => {
+    setActiveBatch({ id: batch.id, name: batch.name, documentIds: documents.map(d => d.documentId) });
+    const loaded = (id: string) => files.find(f => f.cloudDocumentId === id);
+    const first = documents.find(d => !d.coded && loaded(d.documentId)) ?? documents.find(d => loaded(d.documentId));
+    if (first) handleSelectFile(loaded(first.documentId)!.id);
+  };
+
+  // Imported documents are analyzed by the job worker, not the browser queue
+  const handleLoadFileImported = (imported: DiscoveryFile[], nextBatesNumber: number) => {
+    setFiles(prev => [...prev, ...imported]);
+    setBatesCounter(prev => Math.max(prev, nextBatesNumber));
+    // Imports add custodians named in the load file
+    refreshCustodians();
+  };
+
+  const handleCreateCustodian = async (name: string, kind: CustodianKind): Promise<Custodian> => {
+    if (!currentProject) throw new Error('The project is still being created');
+    const custodian = await createCustodian(currentProject.id, { name, kind });
+    setCustodians(prev => [...prev, custodian].sort((a, b) => a.name.localeCompare(b.name)));
+    return custodian;
+  };
+
   const processFileAnalysis = async (file: DiscoveryFile) => {
     let analysisTarget = file;
     console.log('[processFileAnalysis] Starting analysis for:', {
@@ -150,6 +328,9 @@ export default function App() {
       hasSignedUrl: !!file.signedUrl,
     });
     
+    // Exact copies of an analyzed document reuse its analysis instead of another AI call
+    let reusedAnalysis: AnalysisData | null = null;
+
     try {
       // Step 1: Save file to cloud storage first (skip for large files > 50MB)
       const MAX_STORAGE_SIZE = 50 * 1024 * 1024; // 50MB
@@ -158,8 +339,10 @@ export default function App() {
       if (currentProject && fileSize < MAX_STORAGE_SIZE) {
         try {
           console.log('[processFileAnalysis] Saving to cloud storage...');
-          const { documentId, storagePath, signedUrl } = await saveDocumentToCloud(file, currentProject.id);
-          analysisTarget = { ...file, cloudDocumentId: documentId, storagePath, signedUrl };
+          const { documentId, storagePath, signedUrl, duplicateOf } = await saveDocumentToCloud(file, currentProject.id);
+          const duplicateOfBates = duplicateOf?.bates_formatted ?? null;
+          analysisTarget = { ...file, cloudDocumentId: documentId, storagePath, signedUrl, duplicateOfBates };
+          reusedAnalysis = duplicateOf?.analysis ?? null;
 
           console.log('[processFileAnalysis] Cloud save complete:', {
             documentId,
@@ -170,7 +353,7 @@ export default function App() {
           // Update file with cloud storage info
           setFiles(prev => prev.map(f => {
             if (f.id === file.id) {
-              return { ...f, cloudDocumentId: documentId, storagePath, signedUrl, analysisError: null };
+              return { ...f, cloudDocumentId: documentId, storagePath, signedUrl, duplicateOfBates, analysisError: null };
             }
             return f;
           }));
@@ -191,7 +374,10 @@ export default function App() {
         hasFile: !!analysisTarget.file,
       });
       
-      const analysis: AnalysisData = await analyzeFile(analysisTarget, casePerspective);
+      if (reusedAnalysis) {
+        console.log(`[processFileAnalysis] ${file.name} duplicates ${analysisTarget.duplicateOfBates}; reusing its analysis`);
+      }
+      const analysis: AnalysisData = reusedAnalysis ?? await analyzeFile(analysisTarget, casePerspective);
       
       console.log('[processFileAnalysis] Analysis result:', {
         name: file.name,
@@ -287,10 +473,18 @@ export default function App() {
 
   const handleSelectFile = (id: string) => {
     setSelectedFileId(id);
+    setFocusedHit(null);
     setViewMode(ViewMode.EVIDENCE_VIEWER);
     setActiveMobilePanel('content');
   };
 
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    const target = files.find(f => f.cloudDocumentId === hit.documentId);
+    if (!target) return;
+    handleSelectFile(target.id);
+    setFocusedHit(hit);
+  };
+
   const handleSendMessage = async (text: string) => {
     const newMessage: ChatMessage = {
       id: crypto.randomUUID(),
@@ -304,7 +498,7 @@ export default function App() {
 
     try {
       const activeId = viewMode === ViewMode.EVIDENCE_VIEWER ? selectedFileId : null;
-      const responseText = await chatWithDiscovery(text, files, activeId, casePerspective);
+      const responseText = await chatWithDiscovery(text, files, activeId, casePerspective, currentProject?.id);
       const responseMessage: ChatMessage = {
         id: crypto.randomUUID(),
         role: 'model',
@@ -337,7 +531,7 @@ export default function App() {
     setSaveMessage(null);
 
     try {
-      const presignResponse = await fetch('/api/projects/presign', {
+      const presignResponse = await authFetch('/api/projects/presign', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -388,7 +582,7 @@ export default function App() {
         }),
       };
 
-      const saveResponse = await fetch('/api/projects/save', {
+      const saveResponse = await authFetch('/api/projects/save', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(manifestPayload),
@@ -410,20 +604,44 @@ export default function App() {
   }, [files, projectName, casePerspective]);
 
   const triggerHunt = () => {
+    if (!uploadCustodianId) {
+      setSaveError('Choose the custodian or source these files came from before scraping a folder.');
+      return;
+    }
     dirInputRef.current?.click();
   };
 
+  // CLI: `hunt <name>` collects from that custodian, adding them if new; a bare `hunt` uses the one already chosen
+  const huntFromTerminal = async (custodianName?: string): Promise<string> => {
+    let custodian = uploadCustodianId ? custodians.find(c => c.id === uploadCustodianId) : undefined;
+    const name = normalizeCustodianName(custodianName);
+    if (name) {
+      custodian = findCustodianByName(custodians, name) ?? (await handleCreateCustodian(name, 'person'));
+      setUploadCustodianId(custodian.id);
+    }
+    if (!custodian) {
+      throw new Error('No custodian chosen. Usage: hunt <custodian name>');
+    }
+    dirInputRef.current?.click();
+    return custodian.name;
+  };
+
+  const custodianNames = useMemo(() => new Map(custodians.map(c => [c.id, c.name])), [custodians]);
+
   const selectedFile = files.find(f => f.id === selectedFileId);
 
   // --- Filtering & Grouping ---
   
   const filteredFiles = useMemo(() => {
     return files.filter(f => 
-      f.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
+      (f.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
       f.batesNumber.formatted.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (f.analysis?.evidenceType || "").toLowerCase().includes(searchTerm.toLowerCase())
+      (f.analysis?.evidenceType || "").toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (f.originalPath || "").toLowerCase().includes(searchTerm.toLowerCase())) &&
+      (!codingFilter || matchesCodingFilter(codingLayout.fields, f.coding, codingFilter)) &&
+      (!custodianFilter || f.custodianId === custodianFilter)
     );
-  }, [files, searchTerm]);
+  }, [files, searchTerm, codingFilter, codingLayout, custodianFilter]);
 
   const filesByCategory = useMemo(() => {
     const groups: Record<string, DiscoveryFile[]> = {};
@@ -435,6 +653,35 @@ export default function App() {
     return groups;
   }, [filteredFiles]);
 
+  // Next/previous follow the active batch, or else the file list as displayed, category by category.
+  // Only documents loaded in this session can be opened, so batch members uploaded elsewhere are skipped.
+  const reviewOrder = useMemo(() => {
+    if (!activeBatch) return Object.values(filesByCategory).flat();
+    const byCloudId = new Map(files.filter(f => f.cloudDocumentId).map(f => [f.cloudDocumentId!, f]));
+    return activeBatch.documentIds.map(id => byCloudId.get(id)).filter((f): f is DiscoveryFile => Boolean(f));
+  }, [activeBatch, filesByCategory, files]);
+  const reviewIndex = reviewOrder.findIndex(f => f.id === selectedFileId);
+  const previousFile = reviewIndex > 0 ? reviewOrder[reviewIndex - 1] : null;
+  const nextFile = reviewIndex >= 0 && reviewIndex < reviewOrder.length - 1 ? reviewOrder[reviewIndex + 1] : null;
+
+  // J / K step through documents in the viewer, unless the reviewer is typing
+  useEffect(() => {
+    if (viewMode !== ViewMode.EVIDENCE_VIEWER) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      const destination = key === 'j' ? nextFile : key === 'k' ? previousFile : null;
+      if (!destination) return;
+      event.preventDefault();
+      setSelectedFileId(destination.id);
+      setFocusedHit(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [viewMode, nextFile, previousFile]);
+
   // --- Render ---
 
   return (
@@ -482,6 +729,13 @@ export default function App() {
                  Cloud saved
                </span>
              )}
+             <span className="text-[11px] text-slate-300 truncate max-w-[180px]" title={user.email}>{user.email}</span>
+             <button
+               onClick={onSignOut}
+               className="px-2 py-1 rounded text-[11px] border bg-slate-800 border-slate-700 hover:bg-slate-700"
+             >
+               Sign out
+             </button>
            </div>
            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2 w-full">
              <div className="flex items-center gap-2 w-full sm:w-80">
@@ -553,9 +807,21 @@ export default function App() {
         <div className={`md:w-80 w-full bg-white border-b md:border-b-0 md:border-r border-slate-200 flex flex-col shrink-0 ${activeMobilePanel === 'files' ? 'flex' : 'hidden md:flex'}`}>
             {/* Folder Scraper Trigger */}
             <div className="p-4 border-b border-slate-200">
+              <CustodianPicker
+                custodians={custodians}
+                value={uploadCustodianId}
+                onChange={(id) => {
+                  setUploadCustodianId(id);
+                  setSaveError(null);
+                }}
+                onCreate={handleCreateCustodian}
+                disabled={!currentProject}
+              />
               <button 
                 onClick={triggerHunt}
-                className="flex flex-col items-center justify-center w-full h-24 border-2 border-slate-300 border-dashed rounded-lg cursor-pointer bg-slate-50 hover:bg-indigo-50 hover:border-indigo-300 transition-all group"
+                disabled={!uploadCustodianId}
+                title={uploadCustodianId ? undefined : 'Choose a custodian or source first'}
+                className="disabled:opacity-50 disabled:cursor-not-allowed flex flex-col items-center justify-center w-full h-24 border-2 border-slate-300 border-dashed rounded-lg cursor-pointer bg-slate-50 hover:bg-indigo-50 hover:border-indigo-300 transition-all group"
               >
                   <div className="flex flex-col items-center justify-center pt-2">
                       <svg className="w-6 h-6 mb-1 text-slate-400 group-hover:text-indigo-500 transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"></path></svg>
@@ -579,8 +845,63 @@ export default function App() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                  </svg>
                </div>
+               <label className="sr-only" htmlFor="coding-filter">Filter by coding</label>
+               <select
+                 id="coding-filter"
+                 value={codingFilter ? `${codingFilter.key}:${codingFilter.value}` : ''}
+                 onChange={(e) => {
+                   const [key, ...rest] = e.target.value.split(':');
+                   setCodingFilter(key ? { key, value: rest.join(':') } : null);
+                 }}
+                 className="mt-2 w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+               >
+                 <option value="">All coding</option>
+                 {codingLayout.fields.map(field => (
+                   <optgroup key={field.key} label={field.label}>
+                     {codingFilterOptions(field).map(option => (
+                       <option key={option.value} value={`${field.key}:${option.value}`}>{option.label}</option>
+                     ))}
+                   </optgroup>
+                 ))}
+               </select>
+               <label className="sr-only" htmlFor="custodian-filter">Filter by custodian</label>
+               <select
+                 id="custodian-filter"
+                 value={custodianFilter}
+                 onChange={(e) => setCustodianFilter(e.target.value)}
+                 className="mt-2 w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+               >
+                 <option value="">All custodians</option>
+                 {custodians.map(custodian => (
+                   <option key={custodian.id} value={custodian.id}>{custodian.name}</option>
+                 ))}
+               </select>
             </div>
 
+            {/* Full-text hits */}
+            {(isSearching || searchHits.length > 0) && (
+              <div className="border-b border-slate-200 max-h-64 overflow-y-auto custom-scrollbar">
+                <div className="px-4 py-2 bg-yellow-50 text-xs font-bold text-yellow-800 uppercase tracking-wider sticky top-0 border-b border-yellow-100 z-10">
+                  {isSearching ? 'Searching text...' : `Full-text hits (${searchHits.length})`}
+                </div>
+                {searchHits.map(hit => (
+                  <div
+                    key={`${hit.documentId}-${hit.chunkIndex}`}
+                    onClick={() => handleSelectSearchHit(hit)}
+                    className="px-4 py-2 border-b border-slate-100 cursor-pointer hover:bg-yellow-50 transition-colors"
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <BatesBadge formatted={hit.batesNumber} size="sm" />
+                      <span className="text-[10px] text-slate-400 font-mono">chunk {hit.chunkIndex + 1} · @{hit.charStart}</span>
+                    </div>
+                    <p className="text-xs text-slate-600 line-clamp-3">
+                      <HighlightedSnippet text={hit.snippet} highlights={hit.highlights} />
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* File List Grouped by Category */}
             <div className="flex-1 overflow-y-auto custom-scrollbar">
               {Object.keys(filesByCategory).length === 0 ? (
@@ -606,9 +927,26 @@ export default function App() {
                               <div className="w-4 h-4 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
                             ) : null}
                           </div>
-                          <p className="text-sm font-medium text-slate-700 truncate mb-0.5">{file.name}</p>
+                          <p className="text-sm font-medium text-slate-700 truncate mb-0.5" title={file.originalPath || file.name}>{file.name}</p>
+                          {file.custodianId && custodianNames.has(file.custodianId) && (
+                            <p className="text-[10px] text-slate-400 truncate mb-0.5">{custodianNames.get(file.custodianId)}</p>
+                          )}
                           <div className="flex items-center space-x-2">
                              <span className="text-[10px] text-slate-400 uppercase">{file.type}</span>
+                             {file.privilege?.status === 'privileged' || file.privilege?.status === 'partial' ? (
+                                <span className="text-[10px] px-1 rounded bg-purple-100 text-purple-700" title="Coded privileged">
+                                  {file.privilege.status === 'partial' ? 'Priv · Redact' : 'Privileged'}
+                                </span>
+                             ) : !file.privilege?.status && file.analysis?.privilegeScreen?.likelyPrivileged ? (
+                                <span className="text-[10px] px-1 rounded bg-amber-100 text-amber-700" title="Flagged by the privilege screen; not yet coded">
+                                  Priv?
+                                </span>
+                             ) : null}
+                             {codingBadges(codingLayout.fields, file.coding).map(badge => (
+                                <span key={badge} className="text-[10px] px-1 rounded bg-indigo-100 text-indigo-700 truncate max-w-[96px]" title="Reviewer coding">
+                                  {badge}
+                                </span>
+                             ))}
                              {file.analysis?.sentiment && (
                                 <span className={`text-[10px] px-1 rounded ${
                                   file.analysis.sentiment === 'Hostile' ? 'bg-red-100 text-red-600' : 
@@ -652,6 +990,30 @@ export default function App() {
                >
                  Chronology
                </button>
+               <button
+                 onClick={() => setViewMode(ViewMode.DUPLICATES)}
+                 className={`text-sm font-medium h-full border-b-2 px-1 transition-all ${viewMode === ViewMode.DUPLICATES ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                 Duplicates
+               </button>
+               <button
+                 onClick={() => setViewMode(ViewMode.REVIEW_BATCHES)}
+                 className={`text-sm font-medium h-full border-b-2 px-1 transition-all whitespace-nowrap ${viewMode === ViewMode.REVIEW_BATCHES ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                 Review Batches
+               </button>
+               <button
+                 onClick={() => setViewMode(ViewMode.ENTITIES)}
+                 className={`text-sm font-medium h-full border-b-2 px-1 transition-all ${viewMode === ViewMode.ENTITIES ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                 Entities
+               </button>
+               <button
+                 onClick={() => setViewMode(ViewMode.CONTRADICTIONS)}
+                 className={`text-sm font-medium h-full border-b-2 px-1 transition-all ${viewMode === ViewMode.CONTRADICTIONS ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                 Contradictions
+               </button>
             </div>
           )}
 
@@ -663,7 +1025,7 @@ export default function App() {
                  onSelectFile={handleSelectFile} 
                  onAskAI={handleSendMessage}
                  onSetViewMode={setViewMode}
-                 onTriggerHunt={triggerHunt}
+                 onTriggerHunt={huntFromTerminal}
                  isScanning={isScanning}
                />
              )}
@@ -687,6 +1049,33 @@ export default function App() {
                           </div>
                        </div>
                     </div>
+
+                    <ThumbnailGrid
+                      projectId={currentProject?.id ?? null}
+                      files={files}
+                      onSelectFile={handleSelectFile}
+                    />
+
+                    <ExportPanel
+                      projectId={currentProject?.id ?? null}
+                      documentCount={files.filter(f => f.cloudDocumentId).length}
+                    />
+
+                    <LoadFileImport
+                      projectId={currentProject?.id ?? null}
+                      onImported={handleLoadFileImported}
+                    />
+
+                    <CodingLayoutEditor
+                      projectId={currentProject?.id ?? null}
+                      layout={codingLayout}
+                      onSave={handleSaveCodingLayout}
+                    />
+
+                    <ProjectMembers
+                      projectId={currentProject?.id ?? null}
+                      currentUserId={user.id}
+                    />
                     
                     {files.filter(f => f.analysis).slice(-12).reverse().map(file => (
                        <div key={file.id} className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 hover:shadow-md transition-shadow cursor-pointer flex flex-col h-48" onClick={() => handleSelectFile(file.id)}>
@@ -706,7 +1095,8 @@ export default function App() {
              )}
 
              {viewMode === ViewMode.EVIDENCE_VIEWER && selectedFile && (
-               <div className="h-full bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+               <div className="h-full flex flex-col lg:flex-row gap-4">
+               <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden flex flex-col">
                   {selectedFile.analysisError && (
                     <div className="bg-red-50 border-b border-red-100 px-4 py-3 flex items-start justify-between gap-3">
                       <div>
@@ -730,13 +1120,67 @@ export default function App() {
                       </div>
                     </div>
                   )}
-                  <FilePreview file={selectedFile} />
+                  <FilePreview
+                    file={selectedFile}
+                    searchHit={focusedHit && focusedHit.documentId === selectedFile.cloudDocumentId ? focusedHit : null}
+                    onOpenDocument={handleOpenCloudDocument}
+                    onUpdatePrivilege={(coding) => handleUpdatePrivilege(selectedFile.id, coding)}
+                  />
+               </div>
+               <div className="lg:w-72 shrink-0 bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+                  <CodingPanel
+                    key={selectedFile.id}
+                    layout={codingLayout}
+                    values={selectedFile.coding}
+                    canSave={!!selectedFile.cloudDocumentId}
+                    onSave={(values) => handleUpdateCoding(selectedFile.id, values)}
+                    position={reviewIndex >= 0 ? `${activeBatch ? `${activeBatch.name} · ` : ''}${reviewIndex + 1} of ${reviewOrder.length}` : undefined}
+                    onPrevious={previousFile ? () => handleSelectFile(previousFile.id) : undefined}
+                    onNext={nextFile ? () => handleSelectFile(nextFile.id) : undefined}
+                  />
+               </div>
                </div>
              )}
              
              {viewMode === ViewMode.TIMELINE && (
                  <Timeline files={files} onSelectFile={handleSelectFile} />
              )}
+
+             {viewMode === ViewMode.DUPLICATES && (
+                 <DuplicateReview
+                   projectId={currentProject?.id ?? null}
+                   openableIds={cloudDocumentIds}
+                   onOpenDocument={handleOpenCloudDocument}
+                 />
+             )}
+
+             {viewMode === ViewMode.REVIEW_BATCHES && (
+                 <ReviewBatches
+                   projectId={currentProject?.id ?? null}
+                   reviewer={user.email}
+                   activeBatchId={activeBatch?.id ?? null}
+                   onStartReview={handleStartBatchReview}
+                   onStopReview={() => setActiveBatch(null)}
+                   openableIds={cloudDocumentIds}
+                   onOpenDocument={handleOpenCloudDocument}
+                 />
+             )}
+
+             {viewMode === ViewMode.ENTITIES && (
+                 <EntityIndex
+                   projectId={currentProject?.id ?? null}
+                   openableIds={cloudDocumentIds}
+                   onOpenDocument={handleOpenCloudDocument}
+                 />
+             )}
+
+             {viewMode === ViewMode.CONTRADICTIONS && (
+                 <Contradictions
+                   projectId={currentProject?.id ?? null}
+                   openableIds={cloudDocumentIds}
+                   onOpenDocument={handleOpenCloudDocument}
+                 />
+             )}
           </div>
 
         </div>
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { DuplicateGroup, OpenDocumentProps } from '@/lib/types';
+import { dismissDuplicateGroup, getDuplicateGroups, resolveDuplicateGroup } from '@/lib/discoveryService';
+import BatesBadge from './BatesBadge';
+
+interface DuplicateReviewProps extends OpenDocumentProps {
+  projectId: string | null;
+}
+
+const formatSimilarity = (similarity: number | null) =>
+  similarity === null ? '—' : `${Math.round(similarity * 100)}%`;
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ projectId, openableIds, onOpenDocument }) => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [masters, setMasters] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<'pending' | 'all'>('pending');
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyGroupId, setBusyGroupId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getDuplicateGroups(projectId);
+      setGroups(loaded);
+      setMasters(Object.fromEntries(loaded.map(g => [g.id, g.masterDocumentId || g.members[0].id])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (groupId: string, action: () => Promise<unknown>) => {
+    setBusyGroupId(groupId);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setBusyGroupId(null);
+    }
+  };
+
+  if (!projectId) {
+    return <div className="p-8 text-center text-slate-400">Save files to a project to detect duplicates.</div>;
+  }
+
+  const visible = filter === 'pending' ? groups.filter(g => !g.reviewedAt) : groups;
+  const suppressedCount = groups.reduce((sum, g) => sum + g.members.filter(m => m.suppressed).length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Duplicate Review</h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Exact copies share a content hash; near-duplicates overlap heavily in their extracted text. Pick the master
+          copy for each group. The others are not analyzed or embedded.
+        </p>
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          <div>
+            <span className="block text-slate-400">Groups</span>
+            <span className="text-2xl font-bold text-slate-800">{groups.length}</span>
+          </div>
+          <div>
+            <span className="block text-slate-400">Awaiting review</span>
+            <span className="text-2xl font-bold text-amber-600">{groups.filter(g => !g.reviewedAt).length}</span>
+          </div>
+          <div>
+            <span className="block text-slate-400">Suppressed copies</span>
+            <span className="text-2xl font-bold text-slate-600">{suppressedCount}</span>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as 'pending' | 'all')}
+              className="text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+            >
+              <option value="pending">Awaiting review</option>
+              <option value="all">All groups</option>
+            </select>
+            <button
+              onClick={load}
+              disabled={isLoading}
+              className="text-sm px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+        {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {visible.length === 0 && !isLoading && (
+        <div className="p-8 text-center text-slate-400 text-sm">No duplicate groups {filter === 'pending' ? 'awaiting review' : 'found'}.</div>
+      )}
+
+      {visible.map(group => {
+        const master = masters[group.id];
+        const busy = busyGroupId === group.id;
+        return (
+          <div key={group.id} className="bg-white rounded-lg shadow-sm border border-slate-200">
+            <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${group.kind === 'exact' ? 'bg-slate-100 text-slate-600' : 'bg-amber-50 text-amber-700'}`}>
+                  {group.kind === 'exact' ? 'Exact' : 'Near'}
+                </span>
+                <span className="text-slate-600">{group.members.length} documents</span>
+                {group.reviewedAt && <span className="text-xs text-emerald-600">Reviewed</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => runAction(group.id, () => resolveDuplicateGroup(projectId, group.id, master, true))}
+                  disabled={busy}
+                  className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                >
+                  Keep master, suppress others
+                </button>
+                <button
+                  onClick={() => runAction(group.id, () => resolveDuplicateGroup(projectId, group.id, master, false))}
+                  disabled={busy}
+                  className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                >
+                  Analyze all
+                </button>
+                <button
+                  onClick={() => runAction(group.id, () => dismissDuplicateGroup(projectId, group.id))}
+                  disabled={busy}
+                  className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-500 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                >
+                  Not duplicates
+                </button>
+              </div>
+            </div>
+            <ul className="divide-y divide-slate-100">
+              {group.members.map(member => (
+                <li key={member.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name={`master-${group.id}`}
+                    checked={master === member.id}
+                    onChange={() => setMasters(prev => ({ ...prev, [group.id]: member.id }))}
+                    title="Use as master copy"
+                  />
+                  {member.batesFormatted && <BatesBadge formatted={member.batesFormatted} size="sm" />}
+                  <button
+                    onClick={() => onOpenDocument(member.id)}
+                    disabled={!openableIds.has(member.id)}
+                    className="truncate flex-1 text-left text-slate-700 hover:text-indigo-600 disabled:hover:text-slate-700 disabled:cursor-default"
+                  >
+                    {member.name}
+                  </button>
+                  <span className="text-xs text-slate-400 font-mono w-12 text-right">{formatSimilarity(member.similarity)}</span>
+                  <span className={`text-[10px] uppercase tracking-wide w-20 text-right ${member.suppressed ? 'text-slate-400' : 'text-emerald-600'}`}>
+                    {member.suppressed ? 'Suppressed' : member.analyzed ? 'Analyzed' : 'Pending'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { CaseEntity, EntityDetail, EntityMergeSuggestion, EntityType, OpenDocumentProps } from '@/lib/types';
+import { ENTITY_TYPES, ENTITY_TYPE_LABELS } from '@/lib/entities';
+import { dismissEntityMerge, getEntities, getEntity, mergeEntities, reindexEntities, updateEntity } from '@/lib/discoveryService';
+import BatesBadge from './BatesBadge';
+
+interface EntityIndexProps extends OpenDocumentProps {
+  projectId: string | null;
+}
+
+const CONFIDENCE_STYLES: Record<EntityMergeSuggestion['confidence'], string> = {
+  high: 'bg-emerald-50 text-emerald-700',
+  medium: 'bg-amber-50 text-amber-700',
+  low: 'bg-slate-100 text-slate-600',
+};
+
+const EntityIndex: React.FC<EntityIndexProps> = ({ projectId, openableIds, onOpenDocument }) => {
+  const [entities, setEntities] = useState<CaseEntity[]>([]);
+  const [suggestions, setSuggestions] = useState<EntityMergeSuggestion[]>([]);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<EntityType | ''>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<EntityDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getEntities(projectId);
+      setEntities(loaded.entities);
+      setSuggestions(loaded.suggestions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load entities');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!projectId || !selectedId) {
+      setDetail(null);
+      return;
+    }
+    let cancelled = false;
+    getEntity(projectId, selectedId)
+      .then(loaded => { if (!cancelled) setDetail(loaded); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load entity'); });
+    return () => { cancelled = true; };
+  }, [projectId, selectedId, entities]);
+
+  const byId = useMemo(() => new Map(entities.map(entity => [entity.id, entity])), [entities]);
+
+  const visible = useMemo(() => {
+    const wanted = query.trim().toLowerCase();
+    return entities.filter(entity =>
+      (!typeFilter || entity.type === typeFilter) &&
+      (!wanted || [entity.name, ...entity.aliases].some(name => name.toLowerCase().includes(wanted)))
+    );
+  }, [entities, query, typeFilter]);
+
+  const runAction = async (action: () => Promise<unknown>, after?: () => void) => {
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      await action();
+      after?.();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!projectId) {
+    return <div className="p-8 text-center text-slate-400">Save files to a project to build the entity index.</div>;
+  }
+
+  const merge = (targetId: string, sourceId: string) =>
+    runAction(() => mergeEntities(projectId, targetId, [sourceId]), () => {
+      if (selectedId === sourceId) setSelectedId(targetId);
+    });
+
+  const rename = (entity: CaseEntity) => {
+    const name = window.prompt('Rename entity (the current name is kept as an alias)', entity.name);
+    if (name && name.trim() && name.trim() !== entity.name) {
+      runAction(() => updateEntity(projectId, entity.id, { name: name.trim() }));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">People &amp; Organizations</h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Everyone and everything the analyses name, resolved across documents. Confirm a suggested merge and the other
+          name becomes an alias; later documents using it resolve to the same entity.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names and aliases"
+            className="border border-slate-300 rounded px-2 py-1.5 text-slate-700 w-56"
+          />
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as EntityType | '')}
+            className="border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+          >
+            <option value="">All types</option>
+            {ENTITY_TYPES.map(type => (
+              <option key={type} value={type}>{ENTITY_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <span className="text-slate-400">{visible.length} of {entities.length}</span>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => runAction(async () => {
+                const result = await reindexEntities(projectId);
+                setStatus(`Indexed ${result.mentions} mentions in ${result.documents} documents`);
+              })}
+              disabled={busy}
+              className="px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              Rebuild index
+            </button>
+            <button
+              onClick={load}
+              disabled={isLoading}
+              className="px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+        {status && <p className="text-xs text-emerald-600 mt-3">{status}</p>}
+        {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200">
+          <div className="px-4 py-3 border-b border-slate-100 text-sm font-bold text-slate-700">
+            Possible duplicates <span className="font-normal text-slate-400">({suggestions.length})</span>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {suggestions.map(suggestion => {
+              const [a, b] = [byId.get(suggestion.entityId), byId.get(suggestion.otherEntityId)];
+              if (!a || !b) return null;
+              return (
+                <li key={`${a.id}:${b.id}`} className="px-4 py-2 flex flex-wrap items-center gap-3 text-sm">
+                  <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[suggestion.confidence]}`}>
+                    {suggestion.confidence}
+                  </span>
+                  <span className="text-slate-700">
+                    <strong>{a.name}</strong> and <strong>{b.name}</strong>
+                  </span>
+                  <span className="text-xs text-slate-400">{suggestion.reason}</span>
+                  <div className="ml-auto flex items-center gap-2">
+                    <button
+                      onClick={() => merge(a.id, b.id)}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                    >
+                      Keep “{a.name}”
+                    </button>
+                    <button
+                      onClick={() => merge(b.id, a.id)}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                    >
+                      Keep “{b.name}”
+                    </button>
+                    <button
+                      onClick={() => runAction(() => dismissEntityMerge(projectId, a.id, b.id))}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-500 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                    >
+                      Different
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 lg:col-span-1 max-h-[70vh] overflow-y-auto">
+          {visible.length === 0 && !isLoading && (
+            <div className="p-6 text-center text-slate-400 text-sm">
+              {entities.length === 0 ? 'No entities yet. Analyze documents or rebuild the index.' : 'No entities match.'}
+            </div>
+          )}
+          <ul className="divide-y divide-slate-100">
+            {visible.map(entity => (
+              <li key={entity.id}>
+                <button
+                  onClick={() => setSelectedId(entity.id)}
+                  className={`w-full px-4 py-2 text-left text-sm flex items-center gap-2 hover:bg-slate-50 ${selectedId === entity.id ? 'bg-indigo-50' : ''}`}
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate text-slate-800">{entity.name}</span>
+                    <span className="block text-[10px] uppercase tracking-wide text-slate-400">{ENTITY_TYPE_LABELS[entity.type]}</span>
+                  </span>
+                  <span className="text-xs text-slate-500" title="Documents">{entity.documentCount}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 lg:col-span-2">
+          {!detail ? (
+            <p className="text-sm text-slate-400">Choose an entity to see every document and fact that references it.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                <div>
+                  <h3 className="text-xl font-serif font-bold text-slate-800">{detail.entity.name}</h3>
+                  {detail.entity.aliases.length > 0 && (
+                    <p className="text-xs text-slate-500 mt-1">Also: {detail.entity.aliases.join(' · ')}</p>
+                  )}
+                  <p className="text-xs text-slate-400 mt-1">
+                    {detail.entity.mentionCount} mentions in {detail.entity.documentCount} documents
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <select
+                    value={detail.entity.type}
+                    onChange={(e) => runAction(() => updateEntity(projectId, detail.entity.id, { type: e.target.value as EntityType }))}
+                    disabled={busy}
+                    className="border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+                    aria-label="Entity type"
+                  >
+                    {ENTITY_TYPES.map(type => (
+                      <option key={type} value={type}>{ENTITY_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => rename(detail.entity)}
+                    disabled={busy}
+                    className="px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+                  >
+                    Rename
+                  </button>
+                </div>
+              </div>
+
+              <ul className="space-y-3">
+                {detail.documents.map(doc => (
+                  <li key={doc.documentId} className="border border-slate-200 rounded p-3">
+                    <div className="flex items-center gap-2 text-sm mb-1">
+                      {doc.batesNumber && <BatesBadge formatted={doc.batesNumber} size="sm" />}
+                      <button
+                        onClick={() => onOpenDocument(doc.documentId)}
+                        disabled={!openableIds.has(doc.documentId)}
+                        className="truncate flex-1 text-left text-slate-700 hover:text-indigo-600 disabled:hover:text-slate-700 disabled:cursor-default"
+                      >
+                        {doc.name}
+                      </button>
+                      <span className="text-xs text-slate-400 truncate">as {doc.mentions.join(', ')}</span>
+                    </div>
+                    {doc.facts.length > 0 && (
+                      <ul className="list-disc list-inside text-xs text-slate-600 space-y-0.5">
+                        {doc.facts.map(fact => <li key={fact}>{fact}</li>)}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntityIndex;
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CONFIDENTIALITY_LEGENDS } from '@/lib/constants';
+import { exportCustodyReport, exportExhibitClips, exportLoadFile, exportPrivilegeLog, exportProduction, exportRedactionLog } from '@/lib/discoveryService';
+import { downloadBlob } from '@/lib/download';
+import type { CustodyReportFormat } from '@/lib/auditLog';
+import type { PrivilegeLogFormat } from '@/lib/privilegeLog';
+import type { RedactionLogFormat } from '@/lib/redactions';
+
+interface ExportPanelProps {
+  projectId: string | null;
+  documentCount: number;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ projectId, documentCount }) => {
+  const [legend, setLegend] = useState<string>('');
+  const [volume, setVolume] = useState('VOL001');
+  const [includeImages, setIncludeImages] = useState(true);
+  const [logFormat, setLogFormat] = useState<PrivilegeLogFormat>('xlsx');
+  const [redactionLogFormat, setRedactionLogFormat] = useState<RedactionLogFormat>('xlsx');
+  const [custodyBates, setCustodyBates] = useState('');
+  const [custodyFormat, setCustodyFormat] = useState<CustodyReportFormat>('docx');
+  const [exhibitPrefix, setExhibitPrefix] = useState('EX');
+  const [activeExport, setActiveExport] = useState<'production' | 'loadfile' | 'privilegelog' | 'redactionlog' | 'custody' | 'exhibits' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = async (kind: 'production' | 'loadfile' | 'privilegelog' | 'redactionlog' | 'custody' | 'exhibits') => {
+    if (!projectId) return;
+    setActiveExport(kind);
+    setError(null);
+    try {
+      const { blob, fileName } = kind === 'production'
+        ? await exportProduction(projectId, { legend: legend || undefined })
+        : kind === 'loadfile'
+          ? await exportLoadFile(projectId, { volume, includeImages, legend: legend || undefined })
+          : kind === 'privilegelog'
+            ? await exportPrivilegeLog(projectId, logFormat)
+            : kind === 'redactionlog'
+              ? await exportRedactionLog(projectId, redactionLogFormat)
+              : kind === 'custody'
+                ? await exportCustodyReport(projectId, custodyBates.trim(), custodyFormat)
+                : await exportExhibitClips(projectId, { prefix: exhibitPrefix });
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      console.error(`Export (${kind}) failed:`, err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setActiveExport(null);
+    }
+  };
+
+  const disabled = !projectId || documentCount === 0 || activeExport !== null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 col-span-full">
+      <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Production Export</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Stamps every page with its Bates number and packages images, natives and an index into a zip,
+        exports Concordance DAT / Opticon OPT load files for review platforms, or writes the privilege and redaction logs.
+      </p>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-xs text-slate-500">
+          Confidentiality legend
+          <select
+            value={legend}
+            onChange={(e) => setLegend(e.target.value)}
+            className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+          >
+            <option value="">None</option>
+            {CONFIDENTIALITY_LEGENDS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => runExport('production')}
+          disabled={disabled}
+          className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'production' ? 'Building production...' : 'Export production (.zip)'}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-slate-100">
+        <label className="flex flex-col text-xs text-slate-500">
+          Volume
+          <input
+            value={volume}
+            onChange={(e) => setVolume(e.target.value.toUpperCase())}
+            className="mt-1 w-28 text-sm border border-slate-300 rounded px-2 py-1.5 font-mono text-slate-700"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-600 pb-2">
+          <input type="checkbox" checked={includeImages} onChange={(e) => setIncludeImages(e.target.checked)} />
+          Include stamped images
+        </label>
+        <button
+          onClick={() => runExport('loadfile')}
+          disabled={disabled || !volume}
+          className="text-sm px-4 py-2 rounded border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'loadfile' ? 'Writing load files...' : 'Export load file (DAT/OPT)'}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-slate-100">
+        <label className="flex flex-col text-xs text-slate-500">
+          Privilege log
+          <select
+            value={logFormat}
+            onChange={(e) => setLogFormat(e.target.value as PrivilegeLogFormat)}
+            className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+          >
+            <option value="xlsx">Excel (.xlsx)</option>
+            <option value="docx">Word (.docx)</option>
+            <option value="csv">CSV</option>
+          </select>
+        </label>
+        <button
+          onClick={() => runExport('privilegelog')}
+          disabled={disabled}
+          className="text-sm px-4 py-2 rounded border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'privilegelog' ? 'Building log...' : 'Export privilege log'}
+        </button>
+        <span className="text-xs text-slate-400 pb-2">Documents coded privileged are withheld from productions.</span>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-slate-100">
+        <label className="flex flex-col text-xs text-slate-500">
+          Redaction log
+          <select
+            value={redactionLogFormat}
+            onChange={(e) => setRedactionLogFormat(e.target.value as RedactionLogFormat)}
+            className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+          >
+            <option value="xlsx">Excel (.xlsx)</option>
+            <option value="csv">CSV</option>
+          </select>
+        </label>
+        <button
+          onClick={() => runExport('redactionlog')}
+          disabled={disabled}
+          className="text-sm px-4 py-2 rounded border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'redactionlog' ? 'Building log...' : 'Export redaction log'}
+        </button>
+        <span className="text-xs text-slate-400 pb-2">Accepted redactions are burned into produced images, and their text is removed.</span>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-slate-100">
+        <label className="flex flex-col text-xs text-slate-500">
+          Chain of custody for
+          <input
+            value={custodyBates}
+            onChange={(e) => setCustodyBates(e.target.value.toUpperCase())}
+            placeholder="DEF-0001"
+            className="mt-1 w-32 text-sm border border-slate-300 rounded px-2 py-1.5 font-mono text-slate-700"
+          />
+        </label>
+        <select
+          value={custodyFormat}
+          onChange={(e) => setCustodyFormat(e.target.value as CustodyReportFormat)}
+          aria-label="Chain of custody format"
+          className="text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+        >
+          <option value="docx">Word (.docx)</option>
+          <option value="csv">CSV</option>
+        </select>
+        <button
+          onClick={() => runExport('custody')}
+          disabled={!projectId || activeExport !== null || !custodyBates.trim()}
+          className="text-sm px-4 py-2 rounded border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'custody' ? 'Building report...' : 'Export chain of custody'}
+        </button>
+        <span className="text-xs text-slate-400 pb-2">Every upload, view, analysis, download and deletion, with hashes and a check of the audit chain.</span>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mt-4 pt-4 border-t border-slate-100">
+        <label className="flex flex-col text-xs text-slate-500">
+          Exhibit prefix
+          <input
+            value={exhibitPrefix}
+            onChange={(e) => setExhibitPrefix(e.target.value.toUpperCase())}
+            className="mt-1 w-20 text-sm border border-slate-300 rounded px-2 py-1.5 font-mono text-slate-700"
+          />
+        </label>
+        <button
+          onClick={() => runExport('exhibits')}
+          disabled={disabled || !exhibitPrefix}
+          className="text-sm px-4 py-2 rounded border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-40"
+        >
+          {activeExport === 'exhibits' ? 'Packaging clips...' : 'Export exhibit clips (.zip)'}
+        </button>
+        <span className="text-xs text-slate-400 pb-2">Every clip cut from recordings in the project, numbered as exhibits, with subtitles and an index.</span>
+      </div>
+      {!projectId && (
+        <p className="text-xs text-slate-400 mt-3">Documents must be saved to a cloud project before they can be produced.</p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
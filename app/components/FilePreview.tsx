@@ -1,15 +1,153 @@
 'use client';
 
-import React, { useState } from 'react';
-import { DiscoveryFile, FileType } from '@/lib/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DiscoveryFile, EmailThreadSummary, FamilyMember, FileType, PrivilegeCoding, SearchHit, ThreadMessage, TranscriptSegment } from '@/lib/types';
+import { formatBatesRange } from '@/lib/bates';
+import { getDocumentFamily, getDocumentThread } from '@/lib/discoveryService';
+import { containerKind } from '@/lib/fileTypes';
+import { formatTimestamp } from '@/lib/transcripts';
+import type { ClipRange } from '@/lib/mediaClips';
 import BatesBadge from './BatesBadge';
+import ClipMaker from './ClipMaker';
+import Filmstrip from './Filmstrip';
+import HighlightedSnippet from './HighlightedSnippet';
+import PrivilegeCodingPanel from './PrivilegeCodingPanel';
+import RedactionEditor from './RedactionEditor';
+import TestimonyView from './TestimonyView';
+import TranscriptPane from './TranscriptPane';
 
 interface FilePreviewProps {
   file: DiscoveryFile;
+  searchHit?: SearchHit | null;
+  /** Open another project document; documents not loaded locally fall back to their signed URL. */
+  onOpenDocument?: (documentId: string, signedUrl: string | null) => void;
+  onUpdatePrivilege?: (coding: Pick<PrivilegeCoding, 'status' | 'bases' | 'description'>) => Promise<void>;
 }
 
-const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
-  const [activeTab, setActiveTab] = useState<'preview' | 'analysis' | 'transcription'>('preview');
+const FilePreview: React.FC<FilePreviewProps> = ({ file, searchHit, onOpenDocument, onUpdatePrivilege }) => {
+  const [activeTab, setActiveTab] = useState<'preview' | 'analysis' | 'transcription' | 'family' | 'thread' | 'testimony' | 'redact'>('preview');
+  const [family, setFamily] = useState<FamilyMember[] | null>(null);
+  const [familyError, setFamilyError] = useState<string | null>(null);
+  const [thread, setThread] = useState<{ thread: EmailThreadSummary | null; messages: ThreadMessage[] } | null>(null);
+  const [threadError, setThreadError] = useState<string | null>(null);
+  const isEmail = containerKind(file.mimeType, file.name) === 'email';
+  const isTestimony = !!file.cloudDocumentId && file.analysis?.evidenceType === 'Deposition/Testimony';
+  const isMedia = file.type === FileType.AUDIO || file.type === FileType.VIDEO;
+  // Audio and video cannot be redacted by box or text span.
+  const canRedact = !!file.cloudDocumentId && !isMedia;
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  // Set when a visual log time is picked on another tab; the player seeks there once it loads
+  const pendingSeekRef = useRef<number | null>(null);
+  const [playbackMs, setPlaybackMs] = useState(0);
+  const [clipRange, setClipRange] = useState<ClipRange>({ startMs: null, endMs: null });
+
+  useEffect(() => {
+    if (activeTab === 'thread' && !isEmail) setActiveTab('preview');
+    if (activeTab === 'testimony' && !isTestimony) setActiveTab('preview');
+    if (activeTab === 'redact' && !canRedact) setActiveTab('preview');
+  }, [activeTab, isEmail, isTestimony, canRedact]);
+
+  useEffect(() => {
+    setPlaybackMs(0);
+    setClipRange({ startMs: null, endMs: null });
+  }, [file.id]);
+
+  useEffect(() => {
+    setFamily(null);
+    setFamilyError(null);
+    if (activeTab !== 'family' || !file.cloudDocumentId) return;
+
+    let cancelled = false;
+    getDocumentFamily(file.cloudDocumentId)
+      .then(result => {
+        if (!cancelled) setFamily(result.members);
+      })
+      .catch(error => {
+        if (!cancelled) setFamilyError(error instanceof Error ? error.message : 'Failed to load family');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, file.cloudDocumentId]);
+
+  useEffect(() => {
+    setThread(null);
+    setThreadError(null);
+    if (activeTab !== 'thread' || !file.cloudDocumentId) return;
+
+    let cancelled = false;
+    getDocumentThread(file.cloudDocumentId)
+      .then(result => {
+        if (!cancelled) setThread(result);
+      })
+      .catch(error => {
+        if (!cancelled) setThreadError(error instanceof Error ? error.message : 'Failed to load thread');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, file.cloudDocumentId]);
+
+  const trackPlayback = (event: React.SyntheticEvent<HTMLMediaElement>) => {
+    setPlaybackMs(Math.round(event.currentTarget.currentTime * 1000));
+  };
+
+  const seekMedia = (timeMs: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = timeMs / 1000;
+    setPlaybackMs(timeMs);
+    media.play().catch(() => undefined);
+  };
+
+  const showInPlayer = (timeMs: number) => {
+    pendingSeekRef.current = timeMs;
+    setActiveTab('preview');
+  };
+
+  const applyPendingSeek = (event: React.SyntheticEvent<HTMLMediaElement>) => {
+    const timeMs = pendingSeekRef.current;
+    if (timeMs === null) return;
+    pendingSeekRef.current = null;
+    event.currentTarget.currentTime = timeMs / 1000;
+    setPlaybackMs(timeMs);
+  };
+
+  // A transcript line marks a clip; with shift held it stretches the marked clip to take the line in
+  const clipLine = (segment: TranscriptSegment, extend: boolean) => {
+    setClipRange(current =>
+      extend && current.startMs !== null
+        ? { startMs: Math.min(current.startMs, segment.startMs), endMs: Math.max(current.endMs ?? segment.endMs, segment.endMs) }
+        : { startMs: segment.startMs, endMs: segment.endMs }
+    );
+  };
+
+  // Saved audio and video play beside their transcript, which follows along and seeks on click; video
+  // also gets a filmstrip of its keyframes
+  const renderWithTranscript = (player: React.ReactNode) => {
+    if (!file.cloudDocumentId) return player;
+    return (
+      <div className="flex flex-col lg:flex-row h-full">
+        <div className="flex-1 min-h-0 min-w-0 flex flex-col">
+          <div className="flex-1 min-h-0">{player}</div>
+          {file.type === FileType.VIDEO && (
+            <Filmstrip documentId={file.cloudDocumentId} currentTimeMs={playbackMs} onSeek={seekMedia} />
+          )}
+          <ClipMaker
+            documentId={file.cloudDocumentId}
+            isVideo={file.type === FileType.VIDEO}
+            currentTimeMs={playbackMs}
+            range={clipRange}
+            onRangeChange={setClipRange}
+            onSeek={seekMedia}
+          />
+        </div>
+        <div className="h-72 lg:h-full lg:w-96 shrink-0 border-t lg:border-t-0 lg:border-l border-slate-200">
+          <TranscriptPane documentId={file.cloudDocumentId} currentTimeMs={playbackMs} onSeek={seekMedia} onClipLine={clipLine} />
+        </div>
+      </div>
+    );
+  };
 
   const renderPreviewContent = () => {
     switch (file.type) {
@@ -20,20 +158,35 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
           </div>
         );
       case FileType.VIDEO:
-        return (
+        return renderWithTranscript(
           <div className="flex justify-center items-center h-full bg-slate-900">
-            <video src={file.previewUrl} controls className="max-h-full max-w-full" />
+            <video
+              ref={element => { mediaRef.current = element; }}
+              src={file.previewUrl}
+              controls
+              onLoadedMetadata={applyPendingSeek}
+              onTimeUpdate={trackPlayback}
+              onSeeked={trackPlayback}
+              className="max-h-full max-w-full"
+            />
           </div>
         );
       case FileType.AUDIO:
-        return (
+        return renderWithTranscript(
           <div className="flex flex-col justify-center items-center h-full bg-slate-100 p-8">
             <div className="w-24 h-24 bg-indigo-100 rounded-full flex items-center justify-center mb-6 text-indigo-600">
                <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
               </svg>
             </div>
-            <audio src={file.previewUrl} controls className="w-full max-w-md" />
+            <audio
+              ref={element => { mediaRef.current = element; }}
+              src={file.previewUrl}
+              controls
+              onTimeUpdate={trackPlayback}
+              onSeeked={trackPlayback}
+              className="w-full max-w-md"
+            />
             <p className="mt-4 text-slate-500 text-sm font-mono">{file.name}</p>
           </div>
         );
@@ -60,11 +213,30 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
     }
   };
 
+  const renderPrivilegePanel = () =>
+    onUpdatePrivilege && (
+      <PrivilegeCodingPanel
+        screen={file.analysis?.privilegeScreen}
+        coding={file.privilege}
+        canSave={!!file.cloudDocumentId}
+        onSave={onUpdatePrivilege}
+      />
+    );
+
   const renderAnalysisContent = () => {
-    if (!file.analysis) return <div className="p-8 text-center text-slate-400">Analysis pending...</div>;
+    if (!file.analysis) {
+      return (
+        <div className="p-6 max-w-3xl mx-auto space-y-6">
+          <div className="p-8 text-center text-slate-400">Analysis pending...</div>
+          {renderPrivilegePanel()}
+        </div>
+      );
+    }
 
     return (
       <div className="p-6 max-w-3xl mx-auto space-y-6">
+        {renderPrivilegePanel()}
+
         <div>
            <h3 className="text-sm font-bold uppercase text-slate-500 mb-2">Executive Summary</h3>
            <p className="text-slate-800 leading-relaxed bg-white p-4 rounded-lg border border-slate-200 shadow-sm">{file.analysis.summary}</p>
@@ -95,6 +267,30 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
               {file.analysis.relevantFacts.map((f, i) => <li key={i}>{f}</li>)}
            </ul>
         </div>
+
+        {file.analysis.visualLog && file.analysis.visualLog.length > 0 && (
+          <div>
+             <h3 className="text-sm font-bold uppercase text-slate-500 mb-2">Visual Log</h3>
+             <ul className="bg-white rounded-lg border border-slate-200 shadow-sm divide-y divide-slate-100">
+                {file.analysis.visualLog.map((entry, i) => (
+                  <li key={i} className="px-4 py-2 text-sm flex items-start gap-3">
+                    <button
+                      onClick={() => showInPlayer(entry.timeMs)}
+                      className="font-mono text-indigo-700 hover:underline shrink-0"
+                      title="Show in player"
+                    >
+                      {formatTimestamp(entry.timeMs)}
+                    </button>
+                    <span className="text-[10px] uppercase font-bold tracking-wide text-slate-500 bg-slate-100 rounded px-1.5 py-0.5 shrink-0">{entry.category}</span>
+                    <span className="flex-1 text-slate-700">
+                      {entry.description}
+                      {entry.onScreenText && <span className="block text-xs text-slate-400 font-mono">On screen: {entry.onScreenText}</span>}
+                    </span>
+                  </li>
+                ))}
+             </ul>
+          </div>
+        )}
       </div>
     );
   };
@@ -125,18 +321,136 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
     );
   };
 
+  const renderFamilyContent = () => {
+    if (!file.cloudDocumentId) {
+      return <div className="p-8 text-center text-slate-400">Families are available once the file is saved to the project.</div>;
+    }
+    if (familyError) return <div className="p-8 text-center text-red-500 text-sm">{familyError}</div>;
+    if (!family) return <div className="p-8 text-center text-slate-400">Loading family...</div>;
+    if (family.length <= 1) {
+      return <div className="p-8 text-center text-slate-400">This document has no parent or attachments.</div>;
+    }
+
+    return (
+      <div className="p-6 max-w-3xl mx-auto">
+        <h3 className="text-sm font-bold uppercase text-slate-500 mb-2">Document Family · {family.length} documents</h3>
+        <ul className="bg-white rounded-lg border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {family.map(member => {
+            const isCurrent = member.id === file.cloudDocumentId;
+            return (
+              <li key={member.id}>
+                <button
+                  onClick={() => !isCurrent && onOpenDocument?.(member.id, member.signedUrl)}
+                  disabled={isCurrent}
+                  className={`w-full flex items-center gap-3 py-2 pr-4 text-left text-sm transition-colors ${isCurrent ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-700 hover:bg-slate-50'}`}
+                  style={{ paddingLeft: `${1 + member.depth * 1.5}rem` }}
+                >
+                  <span className="font-mono text-xs text-slate-500 shrink-0">
+                    {member.batesFormatted}
+                    {member.batesEndFormatted && member.batesEndFormatted !== member.batesFormatted && ` – ${member.batesEndFormatted}`}
+                  </span>
+                  <span className="truncate flex-1">{member.name}</span>
+                  {member.status && member.status !== 'complete' && (
+                    <span className="text-[10px] uppercase tracking-wide text-slate-400 shrink-0">{member.status}</span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderThreadContent = () => {
+    if (!file.cloudDocumentId) {
+      return <div className="p-8 text-center text-slate-400">Threads are available once the file is saved to the project.</div>;
+    }
+    if (threadError) return <div className="p-8 text-center text-red-500 text-sm">{threadError}</div>;
+    if (!thread) return <div className="p-8 text-center text-slate-400">Loading thread...</div>;
+    if (!thread.thread) {
+      return <div className="p-8 text-center text-slate-400">No other messages in this conversation have been found.</div>;
+    }
+
+    return (
+      <div className="p-6 max-w-3xl mx-auto">
+        <h3 className="text-sm font-bold uppercase text-slate-500 mb-1">
+          Conversation · {thread.thread.messageCount} messages · {thread.thread.inclusiveCount} inclusive
+        </h3>
+        <p className="text-xs text-slate-500 mb-3">
+          Inclusive messages contain every other message in their branch; reviewing them covers the whole thread.
+        </p>
+        <ul className="bg-white rounded-lg border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {thread.messages.map(message => {
+            const isCurrent = message.id === file.cloudDocumentId;
+            return (
+              <li key={message.id}>
+                <button
+                  onClick={() => !isCurrent && onOpenDocument?.(message.id, message.signedUrl)}
+                  disabled={isCurrent}
+                  className={`w-full flex items-center gap-3 py-2 pr-4 text-left text-sm transition-colors ${isCurrent ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-700 hover:bg-slate-50'}`}
+                  style={{ paddingLeft: `${1 + message.depth * 1.5}rem` }}
+                >
+                  <span className="font-mono text-xs text-slate-500 shrink-0">{message.batesFormatted}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate">{message.subject || message.name}</span>
+                    <span className="block text-xs text-slate-400 truncate">
+                      {message.from}
+                      {message.date && ` · ${new Date(message.date).toLocaleString()}`}
+                    </span>
+                  </span>
+                  {message.isInclusive && (
+                    <span className="text-[10px] uppercase tracking-wide font-bold text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full shrink-0">
+                      Inclusive
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-50">
       {/* Header */}
       <div className="h-16 border-b border-slate-200 px-6 flex items-center justify-between bg-white shrink-0 shadow-sm z-10">
         <div className="flex items-center space-x-4 overflow-hidden">
-            <BatesBadge formatted={file.batesNumber.formatted} size="lg" />
+            <BatesBadge formatted={formatBatesRange(file.batesNumber)} size="lg" />
             <div className="flex flex-col min-w-0">
                <span className="font-bold text-slate-800 truncate text-lg" title={file.name}>{file.name}</span>
                <div className="flex items-center space-x-2 text-xs text-slate-500">
                   <span className="uppercase">{file.type}</span>
                   <span>•</span>
                   <span>{(file.file.size / 1024 / 1024).toFixed(2)} MB</span>
+                  {file.producingBates && (
+                     <>
+                       <span>•</span>
+                       <span title="Producing party's Bates range">
+                         Produced{file.producingBates.party ? ` by ${file.producingBates.party}` : ''} as{' '}
+                         <span className="font-mono">
+                           {file.producingBates.begin}
+                           {file.producingBates.end !== file.producingBates.begin && ` – ${file.producingBates.end}`}
+                         </span>
+                       </span>
+                     </>
+                  )}
+                  {file.duplicateOfBates && (
+                     <>
+                       <span>•</span>
+                       <span className="text-amber-600" title="Identical content is already in the project">
+                         Duplicate of <span className="font-mono">{file.duplicateOfBates}</span>
+                       </span>
+                     </>
+                  )}
+                  {file.batesNumber.pageCount && file.batesNumber.pageCount > 1 && (
+                     <>
+                       <span>•</span>
+                       <span>{file.batesNumber.pageCount} pages</span>
+                     </>
+                  )}
                   {file.analysis?.evidenceType && (
                      <>
                        <span>•</span>
@@ -148,6 +462,20 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
         </div>
       </div>
 
+      {/* Search hit passage */}
+      {searchHit && (
+        <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-100 shrink-0">
+          <p className="text-[11px] font-bold text-yellow-800 uppercase tracking-wide mb-1">
+            Search hit · chunk {searchHit.chunkIndex + 1} · characters {searchHit.charStart}–{searchHit.charEnd}
+          </p>
+          <p className="text-sm text-slate-700 leading-relaxed">
+            {searchHit.snippetStart > searchHit.charStart && '… '}
+            <HighlightedSnippet text={searchHit.snippet} highlights={searchHit.highlights} />
+            {' …'}
+          </p>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b border-slate-200 bg-white px-6 space-x-6 shrink-0">
          <button
@@ -168,6 +496,36 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
          >
            Transcription
          </button>
+         <button
+           onClick={() => setActiveTab('family')}
+           className={`py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'family' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+         >
+           Family
+         </button>
+         {isEmail && (
+           <button
+             onClick={() => setActiveTab('thread')}
+             className={`py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'thread' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+           >
+             Thread
+           </button>
+         )}
+         {isTestimony && (
+           <button
+             onClick={() => setActiveTab('testimony')}
+             className={`py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'testimony' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+           >
+             Testimony
+           </button>
+         )}
+         {canRedact && (
+           <button
+             onClick={() => setActiveTab('redact')}
+             className={`py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'redact' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+           >
+             Redact
+           </button>
+         )}
       </div>
 
       {/* Content */}
@@ -175,6 +533,12 @@ const FilePreview: React.FC<FilePreviewProps> = ({ file }) => {
         {activeTab === 'preview' && renderPreviewContent()}
         {activeTab === 'analysis' && renderAnalysisContent()}
         {activeTab === 'transcription' && renderTranscriptionContent()}
+        {activeTab === 'family' && renderFamilyContent()}
+        {activeTab === 'thread' && renderThreadContent()}
+        {activeTab === 'testimony' && file.cloudDocumentId && <TestimonyView documentId={file.cloudDocumentId} />}
+        {activeTab === 'redact' && file.cloudDocumentId && (
+          <RedactionEditor documentId={file.cloudDocumentId} mimeType={file.mimeType} previewUrl={file.previewUrl} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ThumbnailSet } from '@/lib/types';
+import { keyframeIndexAt } from '@/lib/thumbnails';
+import { formatTimestamp } from '@/lib/transcripts';
+import { getDocumentThumbnails, requestThumbnails } from '@/lib/discoveryService';
+
+interface FilmstripProps {
+  documentId: string;
+  currentTimeMs: number;
+  onSeek: (timeMs: number) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const Filmstrip: React.FC<FilmstripProps> = ({ documentId, currentTimeMs, onSeek }) => {
+  const [thumbnails, setThumbnails] = useState<ThumbnailSet | null>(null);
+  const [queued, setQueued] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getDocumentThumbnails(documentId);
+      setThumbnails(result.thumbnails);
+      setQueued(result.queued);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load keyframes');
+    } finally {
+      setLoaded(true);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    setThumbnails(null);
+    setQueued(false);
+    setLoaded(false);
+    setError(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!queued) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [queued, load]);
+
+  const frames = thumbnails?.frames ?? [];
+  const activeIndex = keyframeIndexAt(frames, currentTimeMs);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeIndex]);
+
+  const generate = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      const result = await requestThumbnails(documentId);
+      setQueued(current => current || result.queued);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue keyframes');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  return (
+    <div className="border-t border-slate-200 bg-slate-50 px-4 py-2 text-xs">
+      {frames.length > 0 ? (
+        <div className="flex gap-1.5 overflow-x-auto pb-1">
+          {frames.map((frame, index) => (
+            <button
+              key={frame.url}
+              ref={index === activeIndex ? activeRef : undefined}
+              onClick={() => onSeek(frame.timeMs)}
+              className={`shrink-0 rounded overflow-hidden border-2 transition-colors ${
+                index === activeIndex ? 'border-indigo-500' : 'border-transparent hover:border-slate-300'
+              }`}
+              title={`Seek to ${formatTimestamp(frame.timeMs)}`}
+            >
+              <img src={frame.url} alt={`Keyframe at ${formatTimestamp(frame.timeMs)}`} className="h-16 w-auto block bg-slate-900" />
+              <span className="block font-mono text-[10px] text-slate-600 bg-white text-center">{formatTimestamp(frame.timeMs)}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-slate-500">
+          <span className="font-bold uppercase tracking-wide">Keyframes</span>
+          {queued ? (
+            <span>Pulling keyframes from the video...</span>
+          ) : (
+            <button
+              onClick={generate}
+              disabled={requesting}
+              className="px-2 py-0.5 rounded border border-slate-300 text-slate-600 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              {requesting ? 'Queueing...' : 'Generate keyframes'}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default Filmstrip;
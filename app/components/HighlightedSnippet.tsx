@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { SearchHitMatch } from '@/lib/types';
+
+interface HighlightedSnippetProps {
+  text: string;
+  highlights: SearchHitMatch[];
+  className?: string;
+}
+
+const HighlightedSnippet: React.FC<HighlightedSnippetProps> = ({ text, highlights, className = '' }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach((h, i) => {
+      if (h.start < cursor) return;
+      if (h.start > cursor) parts.push(text.slice(cursor, h.start));
+      parts.push(
+        <mark key={i} className="bg-yellow-200 text-slate-900 rounded-sm px-0.5">
+          {text.slice(h.start, h.end)}
+        </mark>
+      );
+      cursor = h.end;
+    });
+
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <span className={className}>{parts}</span>;
+};
+
+export default HighlightedSnippet;
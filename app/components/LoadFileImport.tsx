@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { DiscoveryFile, FileType } from '@/lib/types';
+import { importLoadFileRecord } from '@/lib/discoveryService';
+import {
+  buildImportRecords,
+  createFileResolver,
+  decodeLoadFileBytes,
+  parseLoadFile,
+  parseOpt,
+  type LoadFileImportPlan,
+} from '@/lib/loadFileImport';
+
+interface LoadFileImportProps {
+  projectId: string | null;
+  onImported: (files: DiscoveryFile[], nextBatesNumber: number) => void;
+}
+
+interface PreparedImport {
+  plan: LoadFileImportPlan;
+  resolve: (path: string | null | undefined) => File | null;
+  loadFileName: string;
+}
+
+const relativePath = (file: File) => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+const getFileType = (file: File): FileType => {
+  if (file.type.startsWith('image/')) return FileType.IMAGE;
+  if (file.type.startsWith('video/')) return FileType.VIDEO;
+  if (file.type.startsWith('audio/')) return FileType.AUDIO;
+  return FileType.DOCUMENT;
+};
+
+const LoadFileImport: React.FC<LoadFileImportProps> = ({ projectId, onImported }) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [producingParty, setProducingParty] = useState('');
+  const [prepared, setPrepared] = useState<PreparedImport | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleFolderSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files || []);
+    event.target.value = '';
+    setErrors([]);
+    setPrepared(null);
+    if (picked.length === 0) return;
+
+    const dataFile = picked.find(f => /\.(dat|csv)$/i.test(f.name));
+    const optFile = picked.find(f => /\.opt$/i.test(f.name));
+    if (!dataFile && !optFile) {
+      setErrors(['No .dat, .csv or .opt load file found in the selected folder']);
+      return;
+    }
+
+    const loadFile = dataFile ? parseLoadFile(dataFile.name, decodeLoadFileBytes(await dataFile.arrayBuffer())) : null;
+    const optDocuments = optFile ? parseOpt(decodeLoadFileBytes(await optFile.arrayBuffer())) : [];
+    const plan = buildImportRecords(loadFile, optDocuments);
+
+    setPrepared({
+      plan,
+      resolve: createFileResolver(picked.map(file => ({ path: relativePath(file), file }))),
+      loadFileName: (dataFile || optFile)!.name,
+    });
+    setErrors(plan.skipped.map(s => (s.row ? `Row ${s.row}: ${s.reason}` : s.reason)));
+  };
+
+  const handleImport = async () => {
+    if (!projectId || !prepared) return;
+    const { plan, resolve } = prepared;
+    const imported: DiscoveryFile[] = [];
+    const failures: string[] = [];
+    let nextBatesNumber = 0;
+
+    setProgress({ done: 0, total: plan.records.length });
+    for (const record of plan.records) {
+      const native = resolve(record.nativePath);
+      const images = record.imagePaths.map(path => resolve(path)).filter((f): f is File => f !== null);
+      const text = resolve(record.textPath);
+      const display = native || images[0] || text;
+
+      try {
+        if (!display) throw new Error('none of the referenced files were found in the folder');
+        const result = await importLoadFileRecord(projectId, record, { native, images, text }, producingParty || undefined);
+        nextBatesNumber = Math.max(nextBatesNumber, result.nextBatesNumber);
+        imported.push({
+          id: crypto.randomUUID(),
+          file: display,
+          name: record.fileName,
+          type: getFileType(display),
+          mimeType: display.type,
+          batesNumber: result.batesNumber,
+          previewUrl: URL.createObjectURL(display),
+          isProcessing: false,
+          analysis: null,
+          analysisError: null,
+          cloudDocumentId: result.document.id,
+          storagePath: result.document.storage_path,
+          custodianId: result.document.custodian_id,
+          producingBates: { begin: record.producingBegBates, end: record.producingEndBates, party: producingParty || null },
+        });
+      } catch (error) {
+        failures.push(`${record.producingBegBates}: ${error instanceof Error ? error.message : 'import failed'}`);
+      }
+      setProgress(prev => (prev ? { ...prev, done: prev.done + 1 } : prev));
+    }
+
+    if (imported.length > 0) onImported(imported, nextBatesNumber);
+    setErrors(failures);
+    setPrepared(null);
+    setProgress(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 col-span-full">
+      <input
+        type="file"
+        ref={folderInputRef}
+        className="hidden"
+        onChange={handleFolderSelected}
+        {...({ webkitdirectory: '', directory: '', multiple: true } as any)}
+      />
+      <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Import Production</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Select a production volume folder containing a DAT, CSV or OPT load file. The producing party&apos;s Bates numbers are kept alongside ours.
+        Each document&apos;s custodian comes from the load file&apos;s CUSTODIAN column, or else is the producing party.
+      </p>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-xs text-slate-500">
+          Producing party
+          <input
+            value={producingParty}
+            onChange={(e) => setProducingParty(e.target.value)}
+            placeholder="e.g. Plaintiff"
+            className="mt-1 w-48 text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700"
+          />
+        </label>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={!projectId || progress !== null}
+          className="text-sm px-4 py-2 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+        >
+          Choose volume folder
+        </button>
+        {prepared && (
+          <button
+            onClick={handleImport}
+            disabled={progress !== null || prepared.plan.records.length === 0}
+            className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            Import {prepared.plan.records.length} documents from {prepared.loadFileName}
+          </button>
+        )}
+      </div>
+      {progress && (
+        <p className="text-xs text-slate-500 mt-3">Imported {progress.done} of {progress.total}...</p>
+      )}
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 mt-3 space-y-0.5 max-h-24 overflow-auto">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LoadFileImport;
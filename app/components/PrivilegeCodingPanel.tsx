@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { PrivilegeBasis, PrivilegeCoding, PrivilegeScreen, PrivilegeStatus } from '@/lib/types';
+import { PRIVILEGE_BASES, PRIVILEGE_BASIS_LABELS, PRIVILEGE_STATUSES, PRIVILEGE_STATUS_LABELS } from '@/lib/privilege';
+
+interface PrivilegeCodingPanelProps {
+  screen?: PrivilegeScreen;
+  coding?: PrivilegeCoding;
+  /** Coding is stored on the project document, so unsaved uploads cannot be coded yet. */
+  canSave: boolean;
+  onSave: (coding: Pick<PrivilegeCoding, 'status' | 'bases' | 'description'>) => Promise<void>;
+}
+
+const PrivilegeCodingPanel: React.FC<PrivilegeCodingPanelProps> = ({ screen, coding, canSave, onSave }) => {
+  const [status, setStatus] = useState<PrivilegeStatus | null>(coding?.status ?? null);
+  const [bases, setBases] = useState<PrivilegeBasis[]>(coding?.bases ?? []);
+  const [description, setDescription] = useState(coding?.description ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStatus(coding?.status ?? null);
+    setBases(coding?.bases ?? []);
+    setDescription(coding?.description ?? '');
+    setError(null);
+  }, [coding]);
+
+  const claimsPrivilege = status === 'privileged' || status === 'partial';
+
+  const selectStatus = (next: PrivilegeStatus) => {
+    setStatus(next);
+    // Pre-fill the bases the screen suggested when a reviewer first claims privilege
+    if ((next === 'privileged' || next === 'partial') && bases.length === 0 && screen?.bases.length) {
+      setBases(screen.bases);
+    }
+  };
+
+  const toggleBasis = (basis: PrivilegeBasis) =>
+    setBases(prev => (prev.includes(basis) ? prev.filter(b => b !== basis) : [...prev, basis]));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ status, bases: claimsPrivilege ? bases : [], description: claimsPrivilege ? description || null : null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save privilege coding');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase text-slate-500 mb-2">Privilege Review</h3>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4 space-y-4">
+        {screen?.likelyPrivileged && (
+          <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <p className="font-semibold mb-1">
+              Possibly privileged{screen.bases.length > 0 && ` · ${screen.bases.map(b => PRIVILEGE_BASIS_LABELS[b]).join(', ')}`}
+            </p>
+            <ul className="list-disc list-inside space-y-0.5 text-xs">
+              {screen.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {PRIVILEGE_STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => selectStatus(option)}
+              className={`text-xs px-3 py-1.5 rounded border transition-colors ${status === option ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+            >
+              {PRIVILEGE_STATUS_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {claimsPrivilege && (
+          <>
+            <div className="flex flex-wrap gap-4">
+              {PRIVILEGE_BASES.map(basis => (
+                <label key={basis} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="checkbox" checked={bases.includes(basis)} onChange={() => toggleBasis(basis)} />
+                  {PRIVILEGE_BASIS_LABELS[basis]}
+                </label>
+              ))}
+            </div>
+            <label className="flex flex-col text-xs text-slate-500">
+              Privilege log description
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="Leave blank to generate from the document's metadata"
+                className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700"
+              />
+            </label>
+          </>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={save}
+            disabled={!canSave || saving || (claimsPrivilege && bases.length === 0)}
+            className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            {saving ? 'Saving...' : 'Save coding'}
+          </button>
+          {coding?.reviewedAt && (
+            <span className="text-xs text-slate-400">Coded {new Date(coding.reviewedAt).toLocaleString()}</span>
+          )}
+          {!canSave && <span className="text-xs text-slate-400">Save the file to a project to code it.</span>}
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PrivilegeCodingPanel;
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ProjectMember, ProjectRole } from '@/lib/types';
+import { addProjectMember, getProjectMembers, removeProjectMember, updateProjectMemberRole } from '@/lib/discoveryService';
+import { PROJECT_ROLES, PROJECT_ROLE_LABELS } from '@/lib/projectAccess';
+
+interface ProjectMembersProps {
+  projectId: string | null;
+  currentUserId: string;
+}
+
+const ProjectMembers: React.FC<ProjectMembersProps> = ({ projectId, currentUserId }) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<ProjectRole>('reviewer');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const result = await getProjectMembers(projectId);
+      setMembers(result.members);
+      setRole(result.role);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load project members');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update project members');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = () =>
+    run(async () => {
+      if (!projectId) return;
+      await addProjectMember(projectId, email, newRole);
+      setEmail('');
+    });
+
+  const canManage = role === 'owner';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 col-span-full">
+      <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Project Members</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Owners manage members; attorneys load documents and set up review; reviewers code; read-only members can only look.
+        Invited people join the project the next time they sign in.
+        {role && ` Your role: ${PROJECT_ROLE_LABELS[role]}.`}
+      </p>
+
+      <div className="divide-y divide-slate-100 border border-slate-200 rounded">
+        {members.map(member => (
+          <div key={member.id} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+            <span className="text-slate-700 flex-1 min-w-[180px] truncate">
+              {member.email}
+              {member.userId === currentUserId && <span className="text-slate-400"> (you)</span>}
+              {!member.userId && <span className="ml-2 text-[10px] uppercase font-bold text-amber-600">Invited</span>}
+            </span>
+            {canManage ? (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => run(() => updateProjectMemberRole(projectId!, member.id, e.target.value as ProjectRole))}
+                  disabled={busy}
+                  aria-label={`Role for ${member.email}`}
+                  className="text-sm border border-slate-300 rounded px-2 py-1 bg-white"
+                >
+                  {PROJECT_ROLES.map(option => (
+                    <option key={option} value={option}>{PROJECT_ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => run(() => removeProjectMember(projectId!, member.id))}
+                  disabled={busy}
+                  className="text-xs px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </>
+            ) : (
+              <span className="text-xs text-slate-500">{PROJECT_ROLE_LABELS[member.role]}</span>
+            )}
+          </div>
+        ))}
+        {members.length === 0 && <p className="px-3 py-2 text-sm text-slate-400">No members loaded.</p>}
+      </div>
+
+      {canManage && (
+        <div className="flex flex-wrap items-end gap-3 mt-4">
+          <label className="flex flex-col text-xs text-slate-500">
+            Email
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@firm.com"
+              className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700 w-56"
+            />
+          </label>
+          <label className="flex flex-col text-xs text-slate-500">
+            Role
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as ProjectRole)}
+              className="mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+            >
+              {PROJECT_ROLES.map(option => (
+                <option key={option} value={option}>{PROJECT_ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={invite}
+            disabled={!projectId || busy || !email.trim()}
+            className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            Invite
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default ProjectMembers;
@@ -0,0 +1,373 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Redaction, RedactionBox, RedactionReason } from '@/lib/types';
+import { REDACTION_REASON_CODES, REDACTION_REASONS } from '@/lib/redactions';
+import {
+  createRedaction,
+  deleteRedaction,
+  downloadRedactedDocument,
+  getDocumentPage,
+  getRedactions,
+  suggestRedactions,
+  updateRedaction,
+} from '@/lib/discoveryService';
+import { downloadBlob } from '@/lib/download';
+
+interface RedactionEditorProps {
+  documentId: string;
+  mimeType: string;
+  /** Local preview of the file; images are redacted over it directly. */
+  previewUrl: string;
+}
+
+// Boxes smaller than this (as a fraction of the page) are treated as stray clicks.
+const MIN_BOX_SIZE = 0.005;
+
+type Mode = 'pages' | 'image' | 'text';
+
+const modeFor = (mimeType: string): Mode =>
+  mimeType === 'application/pdf' ? 'pages' : mimeType.startsWith('image/') ? 'image' : 'text';
+
+const boxStyle = (box: RedactionBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ documentId, mimeType, previewUrl }) => {
+  const mode = modeFor(mimeType);
+  const [redactions, setRedactions] = useState<Redaction[]>([]);
+  const [extractedText, setExtractedText] = useState<string | null>(null);
+  const [reason, setReason] = useState<RedactionReason>('pii_ssn');
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ originX: number; originY: number; box: RedactionBox } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRedactions(documentId)
+      .then(result => {
+        if (cancelled) return;
+        setRedactions(result.redactions);
+        setExtractedText(result.extractedText);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load redactions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    if (mode !== 'pages') return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setPageUrl(null);
+    getDocumentPage(documentId, page)
+      .then(result => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(result.image);
+        setPageUrl(objectUrl);
+        setPageCount(result.pageCount);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render page');
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [documentId, mode, page]);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Redaction update failed');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const replace = (updated: Redaction) => setRedactions(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+
+  const setStatus = (redaction: Redaction, status: Redaction['status']) =>
+    run(async () => replace(await updateRedaction(documentId, redaction.id, { status })));
+
+  const setRedactionReason = (redaction: Redaction, next: RedactionReason) =>
+    run(async () => replace(await updateRedaction(documentId, redaction.id, { reason: next })));
+
+  const remove = (redaction: Redaction) =>
+    run(async () => {
+      await deleteRedaction(documentId, redaction.id);
+      setRedactions(prev => prev.filter(r => r.id !== redaction.id));
+    });
+
+  const rerunSuggestions = () =>
+    run(async () => {
+      const result = await suggestRedactions(documentId);
+      setRedactions(result.redactions);
+    });
+
+  const downloadRedacted = () =>
+    run(async () => {
+      const { blob, fileName } = await downloadRedactedDocument(documentId);
+      downloadBlob(blob, fileName);
+    });
+
+  // Drawing: pointer positions are converted to fractions of the rendered page.
+  const pointAt = (event: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const startDraw = (event: React.PointerEvent) => {
+    if (busy) return;
+    const { x, y } = pointAt(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ originX: x, originY: y, box: { x, y, width: 0, height: 0 } });
+  };
+
+  const moveDraw = (event: React.PointerEvent) => {
+    if (!draft) return;
+    const { x, y } = pointAt(event);
+    setDraft({
+      ...draft,
+      box: {
+        x: Math.min(x, draft.originX),
+        y: Math.min(y, draft.originY),
+        width: Math.abs(x - draft.originX),
+        height: Math.abs(y - draft.originY),
+      },
+    });
+  };
+
+  const endDraw = () => {
+    if (!draft) return;
+    const { box } = draft;
+    setDraft(null);
+    if (box.width < MIN_BOX_SIZE || box.height < MIN_BOX_SIZE) return;
+    run(async () => {
+      const created = await createRedaction(documentId, { page, box, textStart: null, textEnd: null, reason });
+      setRedactions(prev => [...prev, created]);
+    });
+  };
+
+  const redactSelection = () => {
+    const selection = window.getSelection();
+    const container = textRef.current;
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed || !container) return;
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    // The <pre> renders the extracted text verbatim, so character counts map straight to offsets.
+    const before = document.createRange();
+    before.selectNodeContents(container);
+    before.setEnd(range.startContainer, range.startOffset);
+    const textStart = before.toString().length;
+    const textEnd = textStart + range.toString().length;
+    selection.removeAllRanges();
+
+    run(async () => {
+      const created = await createRedaction(documentId, { page: null, box: null, textStart, textEnd, reason });
+      setRedactions(prev => [...prev, created]);
+    });
+  };
+
+  const visible = redactions.filter(r => r.status !== 'rejected');
+  const suggestions = redactions.filter(r => r.status === 'suggested');
+  const pageBoxes = visible.filter(r => r.box && (mode === 'image' ? (r.page ?? 1) === 1 : r.page === page));
+
+  const renderSurface = (src: string | null) => (
+    <div
+      ref={surfaceRef}
+      className="relative inline-block select-none cursor-crosshair touch-none shadow border border-slate-300 bg-white"
+      onPointerDown={startDraw}
+      onPointerMove={moveDraw}
+      onPointerUp={endDraw}
+    >
+      {src ? (
+        <img src={src} alt={`Page ${page}`} draggable={false} className="block max-w-full" />
+      ) : (
+        <div className="w-[612px] h-[792px] max-w-full flex items-center justify-center text-sm text-slate-400">Rendering page…</div>
+      )}
+      {pageBoxes.map(r => (
+        <div
+          key={r.id}
+          style={boxStyle(r.box!)}
+          title={`${REDACTION_REASONS[r.reason].label}${r.status === 'suggested' ? ' (suggested)' : ''}`}
+          className={`absolute ${r.status === 'accepted' ? 'bg-black/85' : 'bg-amber-300/30 border-2 border-dashed border-amber-500'}`}
+        />
+      ))}
+      {draft && <div style={boxStyle(draft.box)} className="absolute bg-black/50 border border-black" />}
+    </div>
+  );
+
+  const renderText = () => {
+    if (!extractedText) {
+      return <p className="text-sm text-slate-500">No extracted text to redact yet.</p>;
+    }
+    const spans = visible
+      .filter(r => r.textStart !== null && r.textEnd !== null)
+      .sort((a, b) => a.textStart! - b.textStart!);
+    const segments: React.ReactNode[] = [];
+    let cursor = 0;
+    spans.forEach(r => {
+      if (r.textStart! < cursor) return;
+      segments.push(extractedText.slice(cursor, r.textStart!));
+      segments.push(
+        <mark
+          key={r.id}
+          title={REDACTION_REASONS[r.reason].label}
+          className={r.status === 'accepted' ? 'bg-black text-black' : 'bg-amber-200 text-slate-900'}
+        >
+          {extractedText.slice(r.textStart!, r.textEnd!)}
+        </mark>
+      );
+      cursor = r.textEnd!;
+    });
+    segments.push(extractedText.slice(cursor));
+
+    return (
+      <pre ref={textRef} className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-slate-700 bg-white border border-slate-200 rounded p-4">
+        {segments}
+      </pre>
+    );
+  };
+
+  return (
+    <div className="flex h-full">
+      <div className="flex-1 overflow-auto p-6">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="text-xs text-slate-500 flex items-center gap-2">
+            Reason
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as RedactionReason)}
+              className="text-sm border border-slate-300 rounded px-2 py-1 text-slate-700"
+            >
+              {REDACTION_REASON_CODES.map(code => (
+                <option key={code} value={code}>{REDACTION_REASONS[code].label}</option>
+              ))}
+            </select>
+          </label>
+          {mode === 'text' ? (
+            <button
+              onClick={redactSelection}
+              disabled={busy}
+              className="text-sm px-3 py-1.5 rounded bg-slate-900 text-white hover:bg-black disabled:opacity-40"
+            >
+              Redact selection
+            </button>
+          ) : (
+            <span className="text-xs text-slate-400">Drag over the page to draw a redaction.</span>
+          )}
+          {mode === 'pages' && (
+            <div className="flex items-center gap-2 text-sm text-slate-600 ml-auto">
+              <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page <= 1} className="px-2 py-1 rounded border border-slate-300 disabled:opacity-40">‹</button>
+              <span>Page {page} of {pageCount}</span>
+              <button onClick={() => setPage(p => Math.min(pageCount, p + 1))} disabled={page >= pageCount} className="px-2 py-1 rounded border border-slate-300 disabled:opacity-40">›</button>
+            </div>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+        {mode === 'pages' && renderSurface(pageUrl)}
+        {mode === 'image' && renderSurface(previewUrl)}
+        {mode === 'text' && renderText()}
+      </div>
+
+      <aside className="w-80 shrink-0 border-l border-slate-200 bg-white overflow-auto p-4 space-y-4">
+        <div className="flex gap-2">
+          <button
+            onClick={rerunSuggestions}
+            disabled={busy}
+            className="flex-1 text-xs px-3 py-2 rounded border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            Detect PII
+          </button>
+          <button
+            onClick={downloadRedacted}
+            disabled={busy || !redactions.some(r => r.status === 'accepted')}
+            className="flex-1 text-xs px-3 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40"
+          >
+            Download redacted
+          </button>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase text-slate-500">{suggestions.length} PII suggestions</h3>
+            <button
+              onClick={() => run(async () => {
+                for (const s of suggestions) replace(await updateRedaction(documentId, s.id, { status: 'accepted' }));
+              })}
+              disabled={busy}
+              className="text-xs text-indigo-600 hover:underline disabled:opacity-40"
+            >
+              Accept all
+            </button>
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {redactions.map(r => (
+            <li
+              key={r.id}
+              className={`rounded border p-2 text-xs ${r.status === 'suggested' ? 'border-amber-300 bg-amber-50' : r.status === 'rejected' ? 'border-slate-200 opacity-60' : 'border-slate-200'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => r.page && setPage(r.page)}
+                  className="font-medium text-slate-700 hover:underline text-left"
+                >
+                  {r.page ? `Page ${r.page}` : 'Text'}
+                  {r.textStart !== null && extractedText && (
+                    <span className="font-normal text-slate-400"> · chars {r.textStart}–{r.textEnd}</span>
+                  )}
+                </button>
+                <span className="uppercase tracking-wide text-[10px] text-slate-400">{r.status}</span>
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <select
+                  value={r.reason}
+                  onChange={(e) => setRedactionReason(r, e.target.value as RedactionReason)}
+                  disabled={busy}
+                  className="flex-1 border border-slate-300 rounded px-1 py-0.5"
+                >
+                  {REDACTION_REASON_CODES.map(code => (
+                    <option key={code} value={code}>{REDACTION_REASONS[code].label}</option>
+                  ))}
+                </select>
+                {r.status !== 'accepted' && (
+                  <button onClick={() => setStatus(r, 'accepted')} disabled={busy} className="text-emerald-700 hover:underline">Accept</button>
+                )}
+                {r.status === 'suggested' && (
+                  <button onClick={() => setStatus(r, 'rejected')} disabled={busy} className="text-slate-500 hover:underline">Reject</button>
+                )}
+                {r.source === 'manual' && (
+                  <button onClick={() => remove(r)} disabled={busy} className="text-red-600 hover:underline">Delete</button>
+                )}
+              </div>
+            </li>
+          ))}
+          {redactions.length === 0 && <li className="text-xs text-slate-400">No redactions yet.</li>}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default RedactionEditor;
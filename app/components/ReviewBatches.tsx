@@ -0,0 +1,392 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Custodian, OpenDocumentProps, ReviewBatch, ReviewBatchCriteria, ReviewBatchDocument } from '@/lib/types';
+import {
+  assignReviewBatch,
+  checkInReviewBatch,
+  checkOutReviewBatch,
+  createReviewBatches,
+  deleteReviewBatch,
+  getCustodians,
+  getReviewBatch,
+  getReviewBatches,
+} from '@/lib/discoveryService';
+import { DEFAULT_BATCH_SIZE, describeBatchCriteria, isCheckedOutBy } from '@/lib/reviewBatches';
+import BatesBadge from './BatesBadge';
+
+interface ReviewBatchesProps extends OpenDocumentProps {
+  projectId: string | null;
+  /** Signed-in user's email; batches are checked out and assigned by email. */
+  reviewer: string;
+  activeBatchId: string | null;
+  onStartReview: (batch: ReviewBatch, documents: ReviewBatchDocument[]) => void;
+  onStopReview: () => void;
+}
+
+type CriteriaType = ReviewBatchCriteria['type'];
+
+const STATUS_STYLES: Record<ReviewBatch['status'], string> = {
+  open: 'bg-slate-100 text-slate-600',
+  checked_out: 'bg-amber-50 text-amber-700',
+  complete: 'bg-emerald-50 text-emerald-700',
+};
+
+const STATUS_LABELS: Record<ReviewBatch['status'], string> = {
+  open: 'Open',
+  checked_out: 'Checked out',
+  complete: 'Complete',
+};
+
+const percent = (done: number, total: number) => (total === 0 ? 0 : Math.round((done / total) * 100));
+
+const ReviewBatches: React.FC<ReviewBatchesProps> = ({
+  projectId,
+  reviewer,
+  activeBatchId,
+  onStartReview,
+  onStopReview,
+  openableIds,
+  onOpenDocument,
+}) => {
+  const [batches, setBatches] = useState<ReviewBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyBatchId, setBusyBatchId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [criteriaType, setCriteriaType] = useState<CriteriaType>('bates');
+  const [batesFrom, setBatesFrom] = useState('');
+  const [batesTo, setBatesTo] = useState('');
+  const [custodian, setCustodian] = useState('');
+  const [custodians, setCustodians] = useState<Custodian[]>([]);
+  const [query, setQuery] = useState('');
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [batchName, setBatchName] = useState('Batch');
+  const [assignee, setAssignee] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const [expanded, setExpanded] = useState<{ batchId: string; documents: ReviewBatchDocument[] } | null>(null);
+  const [assigneeDrafts, setAssigneeDrafts] = useState<Record<string, string>>({});
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getReviewBatches(projectId);
+      setBatches(loaded);
+      setAssigneeDrafts(Object.fromEntries(loaded.map(b => [b.id, b.assignee || ''])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review batches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    getCustodians(projectId)
+      .then(setCustodians)
+      .catch(err => console.error('Failed to load custodians:', err));
+  }, [projectId]);
+
+  const runAction = async (batchId: string, action: () => Promise<unknown>) => {
+    setBusyBatchId(batchId);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      await load();
+      if (expanded?.batchId === batchId && projectId) {
+        setExpanded({ batchId, documents: (await getReviewBatch(projectId, batchId)).documents });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const criteria = (): ReviewBatchCriteria =>
+    criteriaType === 'bates'
+      ? { type: 'bates', from: batesFrom.trim(), to: batesTo.trim() }
+      : criteriaType === 'custodian'
+        ? { type: 'custodian', custodian: custodian.trim() }
+        : { type: 'search', query: query.trim() };
+
+  const create = async () => {
+    if (!projectId) return;
+    setIsCreating(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const created = await createReviewBatches(projectId, {
+        criteria: criteria(),
+        batchSize,
+        name: batchName.trim() || undefined,
+        assignee: assignee.trim() || null,
+      });
+      const documentCount = created.reduce((sum, b) => sum + b.documentCount, 0);
+      setMessage(created.length === 0
+        ? 'No unbatched documents match.'
+        : `Created ${created.length} batch${created.length === 1 ? '' : 'es'} covering ${documentCount} documents.`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create review batches');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggleExpanded = async (batchId: string) => {
+    if (expanded?.batchId === batchId || !projectId) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      setExpanded({ batchId, documents: (await getReviewBatch(projectId, batchId)).documents });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review batch');
+    }
+  };
+
+  const startReview = (batch: ReviewBatch) =>
+    runAction(batch.id, async () => {
+      if (!projectId) return;
+      const checkedOut = isCheckedOutBy(batch, reviewer) ? batch : await checkOutReviewBatch(projectId, batch.id);
+      const { documents } = await getReviewBatch(projectId, batch.id);
+      onStartReview(checkedOut, documents);
+    });
+
+  if (!projectId) {
+    return <div className="p-8 text-center text-slate-400">Save files to a project to batch them for review.</div>;
+  }
+
+  const totalDocuments = batches.reduce((sum, b) => sum + b.documentCount, 0);
+  const totalCoded = batches.reduce((sum, b) => sum + b.codedCount, 0);
+  const inputClass = 'mt-1 text-sm border border-slate-300 rounded px-2 py-1.5 text-slate-700';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <h2 className="text-lg font-serif font-bold text-slate-800 mb-1">Review Batches</h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Split the production into batches and assign them to reviewers. Check a batch out before coding it; while it is
+          checked out, nobody else can code its documents.
+        </p>
+        <div className="flex flex-wrap items-end gap-6 text-sm">
+          <div>
+            <span className="block text-slate-400">Batches</span>
+            <span className="text-2xl font-bold text-slate-800">{batches.length}</span>
+          </div>
+          <div>
+            <span className="block text-slate-400">Coded</span>
+            <span className="text-2xl font-bold text-indigo-600">{totalCoded} / {totalDocuments}</span>
+          </div>
+          <div>
+            <span className="block text-slate-400">Complete</span>
+            <span className="text-2xl font-bold text-emerald-600">{batches.filter(b => b.status === 'complete').length}</span>
+          </div>
+          <div className="ml-auto text-xs">
+            <span className="block text-slate-400">Reviewing as</span>
+            <span className="text-sm font-medium text-slate-700">{reviewer}</span>
+          </div>
+          <button
+            onClick={load}
+            disabled={isLoading}
+            className="text-sm px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-40"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <h3 className="text-sm font-bold uppercase text-slate-500 mb-2">New batches</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-xs text-slate-500">
+            Documents
+            <select value={criteriaType} onChange={(e) => setCriteriaType(e.target.value as CriteriaType)} className={`${inputClass} bg-white`}>
+              <option value="bates">Bates range</option>
+              <option value="custodian">Custodian</option>
+              <option value="search">Search hits</option>
+            </select>
+          </label>
+          {criteriaType === 'bates' && (
+            <>
+              <label className="flex flex-col text-xs text-slate-500">
+                From
+                <input value={batesFrom} onChange={(e) => setBatesFrom(e.target.value)} placeholder="DEF-0001" className={`${inputClass} w-28 font-mono`} />
+              </label>
+              <label className="flex flex-col text-xs text-slate-500">
+                To
+                <input value={batesTo} onChange={(e) => setBatesTo(e.target.value)} placeholder="DEF-0500" className={`${inputClass} w-28 font-mono`} />
+              </label>
+            </>
+          )}
+          {criteriaType === 'custodian' && (
+            <label className="flex flex-col text-xs text-slate-500">
+              Custodian
+              <input value={custodian} onChange={(e) => setCustodian(e.target.value)} list="batch-custodians" className={inputClass} />
+              <datalist id="batch-custodians">
+                {custodians.map(c => (
+                  <option key={c.id} value={c.name}>{`${c.documentCount} documents`}</option>
+                ))}
+              </datalist>
+            </label>
+          )}
+          {criteriaType === 'search' && (
+            <label className="flex flex-col text-xs text-slate-500">
+              Search terms
+              <input value={query} onChange={(e) => setQuery(e.target.value)} className={inputClass} />
+            </label>
+          )}
+          <label className="flex flex-col text-xs text-slate-500">
+            Per batch
+            <input
+              type="number"
+              min={1}
+              value={batchSize}
+              onChange={(e) => setBatchSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-slate-500">
+            Name
+            <input value={batchName} onChange={(e) => setBatchName(e.target.value)} className={`${inputClass} w-32`} />
+          </label>
+          <label className="flex flex-col text-xs text-slate-500">
+            Assign to
+            <input value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="reviewer@firm.com" className={`${inputClass} w-44`} />
+          </label>
+          <button
+            onClick={create}
+            disabled={isCreating}
+            className="text-sm px-4 py-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            {isCreating ? 'Creating...' : 'Create batches'}
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-400 mt-2">Documents already in a batch and suppressed duplicate copies are skipped.</p>
+        {message && <p className="text-xs text-emerald-600 mt-2">{message}</p>}
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {batches.length === 0 && !isLoading && (
+        <div className="p-8 text-center text-slate-400 text-sm">No review batches yet.</div>
+      )}
+
+      {batches.map(batch => {
+        const busy = busyBatchId === batch.id;
+        const mine = isCheckedOutBy(batch, reviewer);
+        const progress = percent(batch.codedCount, batch.documentCount);
+        return (
+          <div key={batch.id} className={`bg-white rounded-lg shadow-sm border ${activeBatchId === batch.id ? 'border-indigo-300' : 'border-slate-200'}`}>
+            <div className="px-4 py-3 flex flex-wrap items-center gap-3">
+              <button onClick={() => toggleExpanded(batch.id)} className="text-left min-w-[160px]">
+                <p className="text-sm font-semibold text-slate-800">{batch.name}</p>
+                <p className="text-[11px] text-slate-400">{describeBatchCriteria(batch.criteria)}</p>
+              </button>
+              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[batch.status]}`}>
+                {STATUS_LABELS[batch.status]}{batch.checkedOutBy && ` · ${batch.checkedOutBy}`}
+              </span>
+              <div className="flex-1 min-w-[140px]">
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-[11px] text-slate-500 mt-1">{batch.codedCount} of {batch.documentCount} coded ({progress}%)</p>
+              </div>
+              <input
+                value={assigneeDrafts[batch.id] ?? ''}
+                onChange={(e) => setAssigneeDrafts(prev => ({ ...prev, [batch.id]: e.target.value }))}
+                onBlur={() => {
+                  const next = (assigneeDrafts[batch.id] || '').trim();
+                  if (next !== (batch.assignee || '')) runAction(batch.id, () => assignReviewBatch(projectId, batch.id, next || null));
+                }}
+                placeholder="Unassigned"
+                aria-label={`Assignee email for ${batch.name}`}
+                className="text-sm border border-slate-300 rounded px-2 py-1 w-44"
+              />
+              <div className="flex items-center gap-2">
+                {activeBatchId === batch.id ? (
+                  <button onClick={onStopReview} className="text-xs px-3 py-1.5 rounded border border-indigo-300 text-indigo-700 bg-indigo-50 hover:bg-indigo-100">
+                    Stop reviewing
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => startReview(batch)}
+                    disabled={busy || (!!batch.checkedOutBy && !mine)}
+                    className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+                  >
+                    {mine ? 'Resume review' : 'Check out & review'}
+                  </button>
+                )}
+                {mine && (
+                  <>
+                    <button
+                      onClick={() => runAction(batch.id, async () => {
+                        await checkInReviewBatch(projectId, batch.id, false);
+                        if (activeBatchId === batch.id) onStopReview();
+                      })}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      Check in
+                    </button>
+                    <button
+                      onClick={() => runAction(batch.id, async () => {
+                        await checkInReviewBatch(projectId, batch.id, true);
+                        if (activeBatchId === batch.id) onStopReview();
+                      })}
+                      disabled={busy}
+                      className="text-xs px-3 py-1.5 rounded border border-emerald-300 text-emerald-700 bg-white hover:bg-emerald-50 disabled:opacity-40"
+                    >
+                      Mark complete
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Dissolve ${batch.name}? Its coding is kept.`)) runAction(batch.id, () => deleteReviewBatch(projectId, batch.id));
+                  }}
+                  disabled={busy || !!batch.checkedOutBy}
+                  className="text-xs px-3 py-1.5 rounded border border-slate-300 text-slate-500 bg-white hover:bg-slate-50 disabled:opacity-40"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {expanded?.batchId === batch.id && (
+              <ul className="divide-y divide-slate-100 border-t border-slate-100 max-h-80 overflow-y-auto custom-scrollbar">
+                {expanded.documents.map(doc => (
+                  <li key={doc.documentId} className="px-4 py-2 flex items-center gap-3 text-sm">
+                    <span className="text-xs text-slate-400 font-mono w-8 text-right">{doc.position + 1}</span>
+                    {doc.batesFormatted && <BatesBadge formatted={doc.batesFormatted} size="sm" />}
+                    <button
+                      onClick={() => onOpenDocument(doc.documentId)}
+                      disabled={!openableIds.has(doc.documentId)}
+                      className="truncate flex-1 text-left text-slate-700 hover:text-indigo-600 disabled:hover:text-slate-700 disabled:cursor-default"
+                    >
+                      {doc.name}
+                    </button>
+                    <span className={`text-[10px] uppercase tracking-wide w-28 text-right ${doc.coded ? 'text-emerald-600' : 'text-slate-400'}`}>
+                      {doc.coded ? `Coded${doc.codedBy ? ` · ${doc.codedBy}` : ''}` : 'Not coded'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReviewBatches;
@@ -8,7 +8,8 @@ interface TerminalInterfaceProps {
   onSelectFile: (id: string) => void;
   onAskAI: (query: string) => void;
   onSetViewMode: (mode: ViewMode) => void;
-  onTriggerHunt: () => void;
+  /** Opens the folder picker for the named custodian (or the one already chosen); resolves with the custodian's name. */
+  onTriggerHunt: (custodian?: string) => Promise<string>;
   isScanning?: boolean;
 }
 
@@ -28,7 +29,7 @@ const TerminalInterface: React.FC<TerminalInterfaceProps> = ({
   const [input, setInput] = useState('');
   const [history, setHistory] = useState<LogEntry[]>([
     { type: 'success', content: 'DiscoveryLens CLI v1.1.0 [Ready]' },
-    { type: 'system', content: 'SYSTEM: Waiting for target directory. Type "hunt" to begin ingestion.' }
+    { type: 'system', content: 'SYSTEM: Waiting for target directory. Type "hunt <custodian>" to begin ingestion.' }
   ]);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -60,7 +61,7 @@ const TerminalInterface: React.FC<TerminalInterfaceProps> = ({
         addLog('output', (
           <div className="space-y-1 my-2 border-l-2 border-indigo-900 pl-4">
             <p className="text-indigo-400 font-bold">CORE COMMANDS:</p>
-            <p><span className="text-emerald-400 w-24 inline-block">hunt</span> - Select a folder to set the scraper loose</p>
+            <p><span className="text-emerald-400 w-24 inline-block">hunt [C]</span> - Select a folder collected from custodian [C]</p>
             <p><span className="text-emerald-400 w-24 inline-block">ls</span> - List all currently indexed discovery items</p>
             <p><span className="text-emerald-400 w-24 inline-block">status</span> - Show ingestion and processing progress</p>
             <p><span className="text-emerald-400 w-24 inline-block">inspect [B]</span> - Print AI analysis for Bates [B]</p>
@@ -72,8 +73,9 @@ const TerminalInterface: React.FC<TerminalInterfaceProps> = ({
         break;
 
       case 'hunt':
-        addLog('system', 'HUNT: Requesting directory permissions from OS...');
-        onTriggerHunt();
+        onTriggerHunt(args || undefined)
+          .then(custodian => addLog('system', `HUNT: Collecting from "${custodian}". Requesting directory permissions from OS...`))
+          .catch((error: unknown) => addLog('error', `ERR: ${error instanceof Error ? error.message : 'Hunt failed'}`));
         break;
 
       case 'status':
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DepositionTestimony, PageLine } from '@/lib/types';
+import { formatDepositionCite, formatPageLineRange } from '@/lib/deposition';
+import type { DepositionDigestFormat } from '@/lib/depositionDigest';
+import { exportDepositionDigest, getDepositionTestimony } from '@/lib/discoveryService';
+import { downloadBlob } from '@/lib/download';
+
+interface TestimonyViewProps {
+  documentId: string;
+}
+
+const comesBefore = (a: PageLine, b: PageLine) => a.page < b.page || (a.page === b.page && a.line < b.line);
+
+const TestimonyView: React.FC<TestimonyViewProps> = ({ documentId }) => {
+  const [testimony, setTestimony] = useState<DepositionTestimony | null>(null);
+  const [digestFormat, setDigestFormat] = useState<DepositionDigestFormat>('docx');
+  const [exporting, setExporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTestimony(null);
+    setError(null);
+
+    let cancelled = false;
+    getDepositionTestimony(documentId)
+      .then(result => {
+        if (!cancelled) setTestimony(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load transcript');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  if (error) return <div className="p-8 text-center text-red-500 text-sm">{error}</div>;
+  if (!testimony) return <div className="p-8 text-center text-slate-400">Loading transcript...</div>;
+
+  const exportDigest = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const { blob, fileName } = await exportDepositionDigest(documentId, digestFormat);
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const copyCite = async (start: PageLine, end: PageLine) => {
+    const cite = formatDepositionCite(testimony.batesNumber, start, end);
+    try {
+      await navigator.clipboard.writeText(cite);
+      setStatus(`Copied ${cite}`);
+    } catch {
+      setStatus(null);
+    }
+  };
+
+  // Examination headings go before the first turn at or after where each examination starts
+  let nextExamination = 0;
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-bold uppercase text-slate-500">
+            Testimony of {testimony.witness || 'the witness'}
+          </h3>
+          <p className="text-xs text-slate-500">
+            Pages {testimony.firstPage}–{testimony.lastPage}. Click a page:line cite to copy it.
+          </p>
+        </div>
+        <select
+          value={digestFormat}
+          onChange={(e) => setDigestFormat(e.target.value as DepositionDigestFormat)}
+          className="text-sm border border-slate-300 rounded px-2 py-1.5 bg-white text-slate-700"
+          aria-label="Digest format"
+        >
+          <option value="docx">Word (.docx)</option>
+          <option value="txt">Page-line text (.txt)</option>
+          <option value="csv">CSV</option>
+        </select>
+        <button
+          onClick={exportDigest}
+          disabled={exporting}
+          className="text-sm px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+        >
+          {exporting ? 'Exporting...' : 'Export digest'}
+        </button>
+      </div>
+      {status && <p className="text-xs text-emerald-600 mb-3">{status}</p>}
+
+      {testimony.turns.length === 0 && (
+        <div className="p-8 text-center text-slate-400">No questions and answers were found in this transcript.</div>
+      )}
+
+      <ol className="bg-white rounded-lg border border-slate-200 shadow-sm divide-y divide-slate-100">
+        {testimony.turns.map((turn, index) => {
+          const headings = [];
+          while (nextExamination < testimony.examinations.length && !comesBefore(turn.start, testimony.examinations[nextExamination].start)) {
+            headings.push(testimony.examinations[nextExamination]);
+            nextExamination += 1;
+          }
+          return (
+            <li key={index}>
+              {headings.map(examination => (
+                <div key={formatPageLineRange(examination.start)} className="px-4 py-2 bg-slate-50 text-xs font-bold uppercase tracking-wide text-slate-600">
+                  {examination.heading ? `${examination.heading} · ` : ''}By {examination.attorney}
+                </div>
+              ))}
+              <div className="flex gap-3 px-4 py-2 text-sm">
+                <button
+                  onClick={() => copyCite(turn.start, turn.end)}
+                  className="font-mono text-xs text-indigo-600 hover:underline shrink-0 w-20 text-left pt-0.5"
+                  title="Copy cite"
+                >
+                  {formatPageLineRange(turn.start, turn.end)}
+                </button>
+                {turn.kind === 'colloquy' ? (
+                  <p className="flex-1 min-w-0 italic text-slate-500">
+                    <span className="not-italic font-semibold text-slate-600">{turn.speaker}:</span> {turn.text}
+                  </p>
+                ) : (
+                  <p className={`flex-1 min-w-0 ${turn.kind === 'question' ? 'text-slate-800' : 'text-slate-600 pl-4'}`}>
+                    <span className="font-bold mr-2">{turn.kind === 'question' ? 'Q' : 'A'}</span>
+                    {turn.text}
+                  </p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default TestimonyView;
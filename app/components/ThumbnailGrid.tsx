@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { DiscoveryFile, FileType } from '@/lib/types';
+import { getProjectThumbnails, requestProjectThumbnails } from '@/lib/discoveryService';
+import BatesBadge from './BatesBadge';
+
+interface ThumbnailGridProps {
+  projectId: string | null;
+  files: DiscoveryFile[];
+  onSelectFile: (fileId: string) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const TYPE_FILTERS: Array<{ value: FileType | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: FileType.VIDEO, label: 'Video' },
+  { value: FileType.DOCUMENT, label: 'Documents' },
+  { value: FileType.IMAGE, label: 'Images' },
+  { value: FileType.AUDIO, label: 'Audio' },
+];
+
+const ThumbnailGrid: React.FC<ThumbnailGridProps> = ({ projectId, files, onSelectFile }) => {
+  const [posters, setPosters] = useState<Record<string, string>>({});
+  const [missingCount, setMissingCount] = useState(0);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [typeFilter, setTypeFilter] = useState<FileType | 'all'>('all');
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const result = await getProjectThumbnails(projectId);
+      setPosters(result.posters);
+      setMissingCount(result.missingCount);
+      setQueuedCount(result.queuedCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load thumbnails');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    setPosters({});
+    setMissingCount(0);
+    setQueuedCount(0);
+    setError(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (queuedCount === 0) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [queuedCount, load]);
+
+  const generate = async () => {
+    if (!projectId) return;
+    setRequesting(true);
+    setError(null);
+    try {
+      const result = await requestProjectThumbnails(projectId);
+      setQueuedCount(current => current + result.queued);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue thumbnails');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const saved = files.filter(file => file.cloudDocumentId);
+  const shown = saved.filter(file => typeFilter === 'all' || file.type === typeFilter);
+
+  if (!projectId || saved.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 col-span-full">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h2 className="text-lg font-serif font-bold text-slate-800 flex-1">Evidence Grid</h2>
+        <div className="flex rounded border border-slate-300 overflow-hidden text-xs">
+          {TYPE_FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTypeFilter(option.value)}
+              className={`px-2.5 py-1 transition-colors ${
+                typeFilter === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {queuedCount > 0 ? (
+          <span className="text-xs text-slate-500">Generating {queuedCount} thumbnail{queuedCount === 1 ? '' : 's'}...</span>
+        ) : missingCount > 0 && (
+          <button
+            onClick={generate}
+            disabled={requesting}
+            className="text-xs px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            {requesting ? 'Queueing...' : `Generate missing thumbnails (${missingCount})`}
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 max-h-[32rem] overflow-y-auto">
+        {shown.map(file => {
+          const poster = posters[file.cloudDocumentId!];
+          return (
+            <button
+              key={file.id}
+              onClick={() => onSelectFile(file.id)}
+              className="text-left rounded border border-slate-200 overflow-hidden hover:shadow-md hover:border-indigo-300 transition-all"
+              title={file.name}
+            >
+              <div className="aspect-video bg-slate-900 flex items-center justify-center">
+                {poster ? (
+                  <img src={poster} alt={file.name} loading="lazy" className="max-h-full max-w-full object-contain" />
+                ) : (
+                  <span className="text-[10px] uppercase font-bold tracking-wide text-slate-500">{file.type}</span>
+                )}
+              </div>
+              <div className="px-2 py-1.5 space-y-1">
+                <BatesBadge formatted={file.batesNumber.formatted} size="sm" />
+                <p className="text-xs text-slate-700 truncate">{file.name}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ThumbnailGrid;
@@ -1,7 +1,18 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { DiscoveryFile } from '@/lib/types';
+import {
+  buildChronology,
+  chronologyEntities,
+  ChronologyDay,
+  ChronologyEvent,
+  filterChronologyByEntity,
+  findConflictingAccounts,
+  groupChronologyByDay,
+} from '@/lib/chronology';
+import { formatDayHeading, formatNormalizedDate } from '@/lib/dates';
+import { formatTimestamp } from '@/lib/transcripts';
 import BatesBadge from './BatesBadge';
 
 interface TimelineProps {
@@ -9,30 +20,32 @@ interface TimelineProps {
   onSelectFile: (id: string) => void;
 }
 
+const dayHeading = (day: ChronologyDay) => {
+  if (day.key === 'undated') return 'Undated';
+  if (day.precision === 'day') return formatDayHeading(day.key);
+  const label = formatNormalizedDate({ date: day.key, precision: day.precision!, timezone: null, approximate: false });
+  return `${label} (${day.precision} only)`;
+};
+
+const eventDate = (event: ChronologyEvent) => {
+  if (!event.date || !event.precision) return event.dateText || 'Date unresolved';
+  if (event.precision !== 'minute' && !event.approximate) return null;
+  return formatNormalizedDate({ date: event.date, precision: event.precision, timezone: event.timezone, approximate: event.approximate });
+};
+
 const Timeline: React.FC<TimelineProps> = ({ files, onSelectFile }) => {
-  // Aggregate all dates from analyses
-  const events = React.useMemo(() => {
-    const allEvents: Array<{ date: string; description: string; file: DiscoveryFile }> = [];
+  const [entity, setEntity] = useState('');
+  const [conflictsOnly, setConflictsOnly] = useState(false);
 
-    files.forEach(f => {
-      if (f.analysis?.dates) {
-        f.analysis.dates.forEach(d => {
-            // Very basic heuristic to check if it looks like a date/time
-            if (d.length > 4) {
-                allEvents.push({
-                    date: d,
-                    description: `Reference in ${f.name}`,
-                    file: f
-                });
-            }
-        });
-      }
-    });
+  const events = useMemo(() => buildChronology(files), [files]);
+  const entities = useMemo(() => chronologyEntities(events.filter(event => !event.fromDateList)), [events]);
+  const conflicts = useMemo(() => findConflictingAccounts(events), [events]);
 
-    // Simple sort (lexicographical works roughly for ISO dates, but these are raw strings)
-    // In a real app, we'd parse these dates strictly.
-    return allEvents.sort((a, b) => a.date.localeCompare(b.date));
-  }, [files]);
+  const days = useMemo(() => {
+    const visible = filterChronologyByEntity(events, entity || null)
+      .filter(event => !conflictsOnly || conflicts.has(event.id));
+    return groupChronologyByDay(visible);
+  }, [events, entity, conflictsOnly, conflicts]);
 
   if (files.length === 0) {
     return (
@@ -47,29 +60,103 @@ const Timeline: React.FC<TimelineProps> = ({ files, onSelectFile }) => {
 
   return (
     <div className="p-6 max-w-4xl mx-auto">
-      <h2 className="text-2xl font-serif font-bold text-slate-800 mb-8 border-b pb-2">Fact Chronology</h2>
-      <div className="relative border-l-2 border-slate-200 ml-3 space-y-8">
-        {events.map((event, idx) => (
-          <div key={`${event.file.id}-${idx}`} className="mb-8 ml-6 relative">
-            <span className="absolute -left-[31px] top-1 flex h-4 w-4 items-center justify-center rounded-full bg-indigo-600 ring-4 ring-white"></span>
-            <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm hover:shadow-md transition-shadow cursor-pointer" onClick={() => onSelectFile(event.file.id)}>
-              <div className="flex justify-between items-start mb-2">
-                <span className="text-sm font-semibold text-indigo-600 uppercase tracking-wide">{event.date}</span>
-                <BatesBadge formatted={event.file.batesNumber.formatted} size="sm" />
-              </div>
-              <p className="text-slate-700">{event.description}</p>
-              {event.file.analysis?.summary && (
-                <p className="text-xs text-slate-500 mt-2 line-clamp-2 italic">
-                  "{event.file.analysis.summary}"
-                </p>
-              )}
-            </div>
-          </div>
-        ))}
-        {events.length === 0 && (
-            <div className="ml-6 text-slate-500 italic">No specific dates extracted yet. Try analyzing more files.</div>
-        )}
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-8 border-b pb-2">
+        <h2 className="text-2xl font-serif font-bold text-slate-800">Fact Chronology</h2>
+        <div className="flex items-center gap-3 text-sm">
+          {entities.length > 0 && (
+            <select
+              value={entity}
+              onChange={(e) => setEntity(e.target.value)}
+              className="border border-slate-300 rounded-md px-2 py-1 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              aria-label="Filter by entity"
+            >
+              <option value="">All people &amp; entities</option>
+              {entities.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-1.5 text-slate-600">
+            <input type="checkbox" checked={conflictsOnly} onChange={(e) => setConflictsOnly(e.target.checked)} />
+            Conflicts only{conflicts.size > 0 && ` (${conflicts.size})`}
+          </label>
+        </div>
       </div>
+
+      {days.map(day => (
+        <section key={day.key} className="mb-8">
+          <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">{dayHeading(day)}</h3>
+          <div className="relative border-l-2 border-slate-200 ml-3 space-y-4">
+            {day.events.map(event => {
+              const conflicting = conflicts.get(event.id);
+              const dateLabel = eventDate(event);
+              return (
+                <div key={event.id} className="ml-6 relative">
+                  <span
+                    className={`absolute -left-[31px] top-1 flex h-4 w-4 items-center justify-center rounded-full ring-4 ring-white ${
+                      conflicting ? 'bg-amber-500' : 'bg-indigo-600'
+                    }`}
+                  ></span>
+                  <div
+                    className={`bg-white p-4 rounded-lg border shadow-sm hover:shadow-md transition-shadow cursor-pointer ${
+                      conflicting ? 'border-amber-300' : 'border-slate-200'
+                    }`}
+                    onClick={() => onSelectFile(event.fileId)}
+                  >
+                    <div className="flex justify-between items-start gap-3 mb-2">
+                      <div>
+                        {dateLabel && (
+                          <span className="text-sm font-semibold text-indigo-600 uppercase tracking-wide">{dateLabel}</span>
+                        )}
+                        {event.dateText && event.dateText !== dateLabel && (
+                          <span className="block text-xs text-slate-400">as written: “{event.dateText}”</span>
+                        )}
+                      </div>
+                      <BatesBadge formatted={event.sourceBates} size="sm" />
+                    </div>
+                    <p className="text-slate-700">{event.description}</p>
+                    {event.date && event.mediaTimeMs !== undefined && (
+                      <p className="text-xs text-slate-400 mt-1">Seen at {formatTimestamp(event.mediaTimeMs)} in the recording</p>
+                    )}
+                    {event.quote && (
+                      <p className="text-xs text-slate-500 mt-2 line-clamp-3 italic">&ldquo;{event.quote}&rdquo;</p>
+                    )}
+                    {!event.fromDateList && event.entities.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {event.entities.map(name => (
+                          <span key={name} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{name}</span>
+                        ))}
+                      </div>
+                    )}
+                    {conflicting && (
+                      <div className="mt-3 p-2 rounded bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                        <span className="font-bold">Conflicting account:</span>
+                        {conflicting.map(other => (
+                          <span key={other.id} className="block">
+                            {other.sourceBates} places this on{' '}
+                            {formatNormalizedDate({
+                              date: other.date!,
+                              precision: other.precision!,
+                              timezone: other.timezone,
+                              approximate: other.approximate,
+                            })}
+                            {' '}— “{other.description}”
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+      {days.length === 0 && (
+        <div className="ml-6 text-slate-500 italic">
+          {events.length === 0 ? 'No specific dates extracted yet. Try analyzing more files.' : 'No events match the current filter.'}
+        </div>
+      )}
     </div>
   );
 };
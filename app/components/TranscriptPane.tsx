@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { MediaTranscript, TranscriptSegment, TranscriptSpeaker } from '@/lib/types';
+import { formatTimestamp, formatTranscriptText, segmentIndexAt, speakerName, wordIndexAt } from '@/lib/transcripts';
+import { getDocumentTranscript, identifyTranscriptSpeaker, requestTranscription } from '@/lib/discoveryService';
+import TranscriptSpeakers from './TranscriptSpeakers';
+
+interface TranscriptPaneProps {
+  documentId: string;
+  // Playback position of the media element the transcript belongs to
+  currentTimeMs: number;
+  onSeek: (timeMs: number) => void;
+  // Mark a line as a clip, or stretch the marked clip over it
+  onClipLine?: (segment: TranscriptSegment, extend: boolean) => void;
+}
+
+// How often to check on a queued transcription
+const POLL_INTERVAL_MS = 5000;
+// Words the transcriber was less sure of than this are marked
+const LOW_CONFIDENCE = 0.5;
+
+const TranscriptPane: React.FC<TranscriptPaneProps> = ({ documentId, currentTimeMs, onSeek, onClipLine }) => {
+  const [transcript, setTranscript] = useState<MediaTranscript | null>(null);
+  const [speakers, setSpeakers] = useState<TranscriptSpeaker[]>([]);
+  const [people, setPeople] = useState<Array<{ id: string; name: string }>>([]);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [queued, setQueued] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLOListElement | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await getDocumentTranscript(documentId);
+      setTranscript(loaded.transcript);
+      setSpeakers(loaded.speakers);
+      setPeople(loaded.people);
+      setQueued(loaded.queued);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    setTranscript(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!queued) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [queued, load]);
+
+  const segments = transcript?.segments ?? [];
+  const activeIndex = segmentIndexAt(segments, currentTimeMs);
+  const names = Object.fromEntries(speakers.flatMap(speaker => (speaker.name ? [[speaker.label, speaker.name]] : [])));
+
+  // Keep the line being spoken in view
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    const line = listRef.current?.querySelector<HTMLElement>(`[data-segment="${activeIndex}"]`);
+    line?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const identify = async (label: string, person: { entityId: string | null; name: string | null }) => {
+    setError(null);
+    try {
+      setSpeakers(await identifyTranscriptSpeaker(documentId, label, person));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to identify speaker');
+    }
+  };
+
+  const transcribe = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await requestTranscription(documentId);
+      setQueued(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue transcription');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center gap-2">
+        <span className="text-xs font-bold uppercase tracking-wide text-slate-500">Transcript</span>
+        {transcript && (
+          <span className="text-[10px] uppercase tracking-wide text-slate-400">
+            {transcript.source === 'assemblyai' ? 'Word timings' : 'Line timings'}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {speakers.length > 0 && (
+            <button
+              onClick={() => setShowSpeakers(current => !current)}
+              className={`text-xs px-2 py-1 rounded border transition-colors ${showSpeakers ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-300 text-slate-600 bg-white hover:bg-slate-50'}`}
+            >
+              Speakers ({speakers.length})
+            </button>
+          )}
+          {transcript && (
+            <button
+              onClick={() => navigator.clipboard.writeText(formatTranscriptText(transcript, names))}
+              className="text-xs px-2 py-1 rounded border border-slate-300 text-slate-600 bg-white hover:bg-slate-50 transition-colors"
+            >
+              Copy
+            </button>
+          )}
+          <button
+            onClick={transcribe}
+            disabled={busy || queued}
+            className="text-xs px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            {queued ? 'Transcribing…' : transcript ? 'Re-transcribe' : 'Transcribe'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+      {showSpeakers && <TranscriptSpeakers speakers={speakers} people={people} onIdentify={identify} />}
+
+      {segments.length === 0 ? (
+        <div className="flex-1 p-6 text-center text-sm text-slate-400">
+          {isLoading && !transcript
+            ? 'Loading transcript...'
+            : queued
+              ? 'Transcription is queued; lines appear here when the worker finishes.'
+              : 'No timed transcript yet.'}
+        </div>
+      ) : (
+        <ol ref={listRef} className="flex-1 overflow-auto divide-y divide-slate-100">
+          {segments.map((segment, index) => {
+            const isActive = index === activeIndex;
+            const activeWord = isActive ? wordIndexAt(segment, currentTimeMs) : -1;
+            return (
+              <li key={`${segment.startMs}-${index}`} data-segment={index} className="group relative">
+                <button
+                  onClick={() => onSeek(segment.startMs)}
+                  className={`w-full flex gap-3 px-4 py-2 text-left text-sm transition-colors ${isActive ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                >
+                  <span className={`font-mono text-xs shrink-0 pt-0.5 ${isActive ? 'text-indigo-600' : 'text-slate-400'}`}>
+                    {formatTimestamp(segment.startMs)}
+                  </span>
+                  <span className="flex-1 min-w-0 text-slate-700">
+                    {segment.speaker && (
+                      <span className="font-semibold text-slate-800 mr-1">{speakerName(segment.speaker, names)}:</span>
+                    )}
+                    {segment.words.length > 0
+                      ? segment.words.map((word, wordIndex) => (
+                          <span
+                            key={wordIndex}
+                            title={word.confidence !== null ? `${Math.round(word.confidence * 100)}% confidence` : undefined}
+                            className={`${wordIndex === activeWord ? 'bg-indigo-200 rounded-sm' : ''} ${word.confidence !== null && word.confidence < LOW_CONFIDENCE ? 'text-amber-700 underline decoration-dotted' : ''}`}
+                          >
+                            {word.text}{' '}
+                          </span>
+                        ))
+                      : segment.text}
+                  </span>
+                </button>
+                {onClipLine && (
+                  <button
+                    onClick={(e) => onClipLine(segment, e.shiftKey)}
+                    className="absolute right-2 top-1.5 hidden group-hover:block text-[10px] px-1.5 py-0.5 rounded border border-slate-300 text-slate-600 bg-white hover:bg-slate-50"
+                    title="Mark this line as a clip; shift-click to add it to the marked clip"
+                  >
+                    Clip
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPane;
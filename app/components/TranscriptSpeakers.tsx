@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { TranscriptSpeaker } from '@/lib/types';
+import { formatTimestamp, speakerLabel } from '@/lib/transcripts';
+
+interface TranscriptSpeakersProps {
+  speakers: TranscriptSpeaker[];
+  // Person entities in the project, offered as names
+  people: Array<{ id: string; name: string }>;
+  onIdentify: (label: string, person: { entityId: string | null; name: string | null }) => Promise<void>;
+}
+
+const TranscriptSpeakers: React.FC<TranscriptSpeakersProps> = ({ speakers, people, onIdentify }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(speakers.map(speaker => [speaker.label, speaker.name ?? ''])));
+  }, [speakers]);
+
+  const commit = async (speaker: TranscriptSpeaker) => {
+    const draft = (drafts[speaker.label] ?? '').trim();
+    if (draft === (speaker.name ?? '')) return;
+    const entity = people.find(person => person.name.toLowerCase() === draft.toLowerCase());
+    setSaving(speaker.label);
+    try {
+      await onIdentify(speaker.label, { entityId: entity?.id ?? null, name: draft || null });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-200 bg-slate-50 space-y-2">
+      <datalist id="transcript-speaker-people">
+        {people.map(person => (
+          <option key={person.id} value={person.name} />
+        ))}
+      </datalist>
+      {speakers.map(speaker => (
+        <div key={speaker.label} className="text-xs">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-slate-500 w-20 shrink-0 truncate" title={speaker.label}>
+              {speakerLabel(speaker.label)}
+            </span>
+            <input
+              value={drafts[speaker.label] ?? ''}
+              onChange={(e) => setDrafts(current => ({ ...current, [speaker.label]: e.target.value }))}
+              onBlur={() => commit(speaker)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              list="transcript-speaker-people"
+              placeholder="Who is this?"
+              disabled={saving === speaker.label}
+              className="flex-1 min-w-0 border border-slate-300 rounded px-2 py-1 bg-white text-slate-700 disabled:opacity-50"
+              aria-label={`Name for ${speakerLabel(speaker.label)}`}
+            />
+            {speaker.entityId && (
+              <span className="text-[10px] uppercase tracking-wide text-emerald-700" title="Linked to a person entity">
+                Entity
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 mt-1 pl-[5.5rem]">
+            <div className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500" style={{ width: `${Math.round(speaker.share * 100)}%` }} />
+            </div>
+            <span className="text-slate-500 shrink-0">
+              {formatTimestamp(speaker.talkMs)} · {Math.round(speaker.share * 100)}% · {speaker.wordCount} words
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptSpeakers;
@@ -1,5 +1,5 @@
-import DiscoveryApp from './components/DiscoveryApp';
+import AuthGate from './components/AuthGate';
 
 export default function HomePage() {
-  return <DiscoveryApp />;
+  return <AuthGate />;
 }
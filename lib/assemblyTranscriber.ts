@@ -1,5 +1,7 @@
 import { AssemblyAI, TranscribeParams } from 'assemblyai';
 import { transcodeToMonoWav } from './mediaTranscoder';
+import { fromAssemblyTranscript } from './transcripts';
+import type { MediaTranscript } from './types';
 
 export interface AssemblyTranscribeInput {
   input: Buffer | string;
@@ -17,7 +19,7 @@ export async function transcribeWithAssembly({
   fileName,
   batesNumber,
   isBase64 = true,
-}: AssemblyTranscribeInput): Promise<string> {
+}: AssemblyTranscribeInput): Promise<MediaTranscript> {
   const apiKey = process.env.ASSEMBLYAI_API_KEY;
   if (!apiKey) {
     throw new Error('Missing ASSEMBLYAI_API_KEY environment variable');
@@ -41,5 +43,5 @@ export async function transcribeWithAssembly({
     throw new Error(`AssemblyAI transcription failed: ${details}`);
   }
 
-  return transcript.text;
+  return fromAssemblyTranscript(transcript);
 }
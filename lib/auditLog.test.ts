@@ -0,0 +1,164 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import {
+  auditEntryConcerns,
+  buildCustodyReport,
+  buildCustodyReportCsv,
+  canonicalJson,
+  clientIpAddress,
+  computeEntryHash,
+  GENESIS_HASH,
+  recordHash,
+  toCustodyReport,
+  verifyAuditChain,
+  type CustodyReportSubject,
+} from './auditLog';
+import type { AuditEntry } from './types';
+
+const HASH_A = 'a'.repeat(64);
+
+const chain = (...events: Array<Partial<AuditEntry>>): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  events.forEach((event, index) => {
+    const entry: AuditEntry = {
+      id: `entry-${index + 1}`,
+      sequence: index + 1,
+      projectId: 'project-1',
+      actorId: 'user-1',
+      actorEmail: 'pat@firm.com',
+      action: 'document.view',
+      documentId: 'doc-1',
+      batesNumber: 'DEF-0001',
+      hashBefore: HASH_A,
+      hashAfter: HASH_A,
+      ipAddress: '203.0.113.7',
+      details: {},
+      createdAt: `2024-03-14T10:0${index}:00.000Z`,
+      previousHash: entries.length > 0 ? entries[entries.length - 1].entryHash : GENESIS_HASH,
+      entryHash: '',
+      ...event,
+    };
+    entry.entryHash = computeEntryHash(entry);
+    entries.push(entry);
+  });
+  return entries;
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined members', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, undefined], c: null }, e: undefined })).toBe('{"a":{"c":null,"d":[2,null]},"b":1}');
+  });
+
+  it('escapes strings as Postgres prints them in jsonb', () => {
+    expect(canonicalJson({ note: 'say "hi"\n\u0001 café' })).toBe('{"note":"say \\"hi\\"\\n\\u0001 café"}');
+  });
+
+  it('gives the same record hash regardless of key order', () => {
+    expect(recordHash({ responsive: true, issues: ['recall'] })).toBe(recordHash({ issues: ['recall'], responsive: true }));
+  });
+});
+
+describe('computeEntryHash', () => {
+  it('hashes the instant rather than the timestamp text Postgres returns', () => {
+    const [entry] = chain({ action: 'document.upload' });
+    expect(computeEntryHash({ ...entry, createdAt: '2024-03-14 10:00:00+00' })).toBe(entry.entryHash);
+  });
+});
+
+describe('verifyAuditChain', () => {
+  it('accepts an intact chain and reports its head', () => {
+    const entries = chain({ action: 'document.upload', hashBefore: null }, { action: 'document.view' }, { action: 'document.download' });
+    expect(verifyAuditChain(entries)).toEqual({ valid: true, entryCount: 3, headHash: entries[2].entryHash });
+    expect(verifyAuditChain([])).toEqual({ valid: true, entryCount: 0, headHash: null });
+  });
+
+  it('detects an altered entry', () => {
+    const entries = chain({ action: 'document.upload' }, { action: 'document.view' }, { action: 'document.delete' });
+    entries[1] = { ...entries[1], actorEmail: 'someone-else@firm.com' };
+    expect(verifyAuditChain(entries)).toMatchObject({ valid: false, brokenAt: 2, reason: 'Entry 2 has been altered' });
+  });
+
+  it('detects an entry rewritten with a fresh hash, because the next one no longer follows it', () => {
+    const entries = chain({ action: 'document.upload' }, { action: 'document.view' }, { action: 'document.delete' });
+    const forged = { ...entries[1], ipAddress: '198.51.100.1' };
+    entries[1] = { ...forged, entryHash: computeEntryHash(forged) };
+    expect(verifyAuditChain(entries)).toMatchObject({ valid: false, brokenAt: 3, reason: 'Entry 3 does not follow entry 2' });
+  });
+
+  it('detects a removed entry', () => {
+    const entries = chain({ action: 'document.upload' }, { action: 'document.view' }, { action: 'document.delete' });
+    expect(verifyAuditChain([entries[0], entries[2]])).toMatchObject({ valid: false, brokenAt: 2, reason: 'Entry 2 is missing' });
+  });
+});
+
+describe('auditEntryConcerns', () => {
+  it('matches direct document entries and bulk entries listing the document', () => {
+    const [view, production, other] = chain(
+      { action: 'document.view' },
+      { action: 'export.production', documentId: null, details: { documentIds: ['doc-9', 'doc-1'] } },
+      { action: 'export.production', documentId: null, details: { documentIds: ['doc-9'] } }
+    );
+    expect(auditEntryConcerns(view, 'doc-1')).toBe(true);
+    expect(auditEntryConcerns(production, 'doc-1')).toBe(true);
+    expect(auditEntryConcerns(other, 'doc-1')).toBe(false);
+  });
+});
+
+describe('clientIpAddress', () => {
+  it('takes the first forwarded address, then x-real-ip', () => {
+    expect(clientIpAddress(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+    expect(clientIpAddress(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(clientIpAddress(new Headers())).toBeNull();
+  });
+});
+
+describe('chain of custody report', () => {
+  const subject: CustodyReportSubject = {
+    batesNumber: 'DEF-0001',
+    documentName: 'contract.pdf',
+    documentId: 'doc-1',
+    currentHash: HASH_A,
+    projectName: 'Acme v. Widget',
+  };
+  const entries = chain(
+    { action: 'document.upload', hashBefore: null, details: { storagePath: 'project-1/DEF-0001_contract.pdf', size: 1024 } },
+    { action: 'document.download', hashAfter: 'b'.repeat(64), details: { variant: 'redacted' } }
+  );
+
+  it('lists every entry with its hashes and states the chain verification', () => {
+    const report = toCustodyReport(subject, entries, verifyAuditChain(entries), new Date('2024-03-15T09:00:00Z'));
+    expect(report.rows[0]).toEqual([
+      1,
+      '2024-03-14 10:00:00Z',
+      'File uploaded (storagePath: project-1/DEF-0001_contract.pdf; size: 1024)',
+      'pat@firm.com',
+      '203.0.113.7',
+      '',
+      HASH_A,
+      entries[0].entryHash,
+    ]);
+    expect(report.rows[1][2]).toBe('Document downloaded (variant: redacted)');
+    expect(report.notes).toContain(`Audit chain verified: 2 entries, head ${entries[1].entryHash}.`);
+  });
+
+  it('flags a broken chain in the report', () => {
+    const tampered = [entries[0], { ...entries[1], actorEmail: 'x@firm.com' }];
+    const report = toCustodyReport(subject, tampered, verifyAuditChain(tampered));
+    expect(report.notes).toContain('AUDIT CHAIN BROKEN at entry 2: Entry 2 has been altered.');
+  });
+
+  it('writes CSV with the notes as comment lines ahead of the table', () => {
+    const csv = buildCustodyReportCsv(toCustodyReport(subject, entries, verifyAuditChain(entries)));
+    const lines = csv.trimEnd().split('\n');
+    expect(lines[0]).toBe('# Project: Acme v. Widget');
+    expect(lines).toContain('#,Date/time (UTC),Action,By,IP address,SHA-256 before,SHA-256 after,Entry hash');
+    expect(lines[lines.length - 1]).toMatch(/^2,2024-03-14 10:01:00Z,Document downloaded \(variant: redacted\),pat@firm.com,/);
+  });
+
+  it('writes a Word document', async () => {
+    const docx = await buildCustodyReport(toCustodyReport(subject, entries, verifyAuditChain(entries)), 'docx');
+    const xml = await (await JSZip.loadAsync(docx)).file('word/document.xml')!.async('string');
+    expect(xml).toContain('Chain of Custody – DEF-0001');
+    expect(xml).toContain('pat@firm.com');
+  });
+});
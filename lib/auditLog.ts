@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { csvEscape } from './csv';
+import { buildDocx, DOCX_MIME_TYPE, type TableReport } from './ooxml';
+import type { AuditAction, AuditEntry, AuditChainStatus } from './types';
+
+/** previous_hash of the first entry in every chain. */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'auth.sign_in': 'Signed in',
+  'project.create': 'Project created',
+  'project.view': 'Project viewed',
+  'project.update': 'Project updated',
+  'project.delete': 'Project deleted',
+  'member.add': 'Member invited',
+  'member.update': 'Member role changed',
+  'member.remove': 'Member removed',
+  'custodian.create': 'Custodian added',
+  'entity.index': 'Entity index rebuilt',
+  'entity.update': 'Entity edited',
+  'entity.merge': 'Entities merged',
+  'entity.dismiss': 'Entity merge suggestion dismissed',
+  'storage.presign': 'Upload prepared',
+  'storage.manifest': 'Manifest saved',
+  'document.upload': 'File uploaded',
+  'document.create': 'Document recorded',
+  'document.import': 'Documents imported',
+  'document.view': 'Document viewed',
+  'document.update': 'Document updated',
+  'document.analyze': 'Document analyzed',
+  'document.transcribe': 'Media transcribed',
+  'document.code': 'Document coded',
+  'document.privilege': 'Privilege coded',
+  'document.redact': 'Redactions changed',
+  'document.download': 'Document downloaded',
+  'document.delete': 'Document deleted',
+  'document.speakers': 'Transcript speaker identified',
+  'document.clip': 'Media clip created',
+  'layout.update': 'Coding layout changed',
+  'batch.create': 'Review batches created',
+  'batch.assign': 'Review batch assigned',
+  'batch.delete': 'Review batch deleted',
+  'batch.check_out': 'Review batch checked out',
+  'batch.check_in': 'Review batch checked in',
+  'duplicates.resolve': 'Duplicate group resolved',
+  'duplicates.dismiss': 'Duplicate group dismissed',
+  'threads.rebuild': 'Email threads rebuilt',
+  'contradictions.run': 'Contradiction analysis queued',
+  'contradictions.review': 'Contradiction reviewed',
+  'job.create': 'Processing queued',
+  'job.view': 'Processing status viewed',
+  'job.update': 'Processing job changed',
+  'job.delete': 'Processing job cancelled',
+  'search': 'Search run',
+  'chat': 'AI question asked',
+  'export.production': 'Production exported',
+  'export.loadfile': 'Load file exported',
+  'export.privilege_log': 'Privilege log exported',
+  'export.redaction_log': 'Redaction log exported',
+  'export.custody_report': 'Chain of custody report exported',
+  'export.deposition_digest': 'Deposition digest exported',
+  'export.exhibits': 'Exhibit clips exported',
+  'audit.view': 'Audit log viewed',
+};
+
+/**
+ * JSON with object keys sorted at every level, so the same entry always hashes
+ * the same. audit_canonical_json in the audit log migration writes the same
+ * text when the database appends an entry.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+};
+
+export const sha256Hex = (input: string | Uint8Array): string =>
+  crypto.createHash('sha256').update(input).digest('hex');
+
+/** Hash of a record's contents, for hash_before / hash_after on metadata changes. */
+export const recordHash = (record: unknown): string => sha256Hex(canonicalJson(record));
+
+type HashedFields = Omit<AuditEntry, 'id' | 'entryHash'>;
+
+export const computeEntryHash = (entry: HashedFields): string =>
+  sha256Hex(
+    `${entry.previousHash}\n` +
+      canonicalJson({
+        sequence: entry.sequence,
+        projectId: entry.projectId,
+        actorId: entry.actorId,
+        actorEmail: entry.actorEmail,
+        action: entry.action,
+        documentId: entry.documentId,
+        batesNumber: entry.batesNumber,
+        hashBefore: entry.hashBefore,
+        hashAfter: entry.hashAfter,
+        ipAddress: entry.ipAddress,
+        details: entry.details,
+        // Postgres returns its own timestamp format; hash the instant, not the text
+        createdAt: new Date(entry.createdAt).toISOString(),
+      })
+  );
+
+/**
+ * Check a whole chain, in sequence order. Any edited, removed, reordered or
+ * inserted entry shows up as the first position where the chain breaks.
+ */
+export const verifyAuditChain = (entries: AuditEntry[]): AuditChainStatus => {
+  let previousHash = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.sequence !== i + 1) {
+      return { valid: false, entryCount: entries.length, brokenAt: i + 1, reason: `Entry ${i + 1} is missing` };
+    }
+    if (entry.previousHash !== previousHash) {
+      return { valid: false, entryCount: entries.length, brokenAt: entry.sequence, reason: `Entry ${entry.sequence} does not follow entry ${i}` };
+    }
+    if (computeEntryHash(entry) !== entry.entryHash) {
+      return { valid: false, entryCount: entries.length, brokenAt: entry.sequence, reason: `Entry ${entry.sequence} has been altered` };
+    }
+    previousHash = entry.entryHash;
+  }
+  return { valid: true, entryCount: entries.length, headHash: entries.length > 0 ? previousHash : null };
+};
+
+/** Whether an entry is about a document, directly or as part of a bulk action such as a production. */
+export const auditEntryConcerns = (entry: AuditEntry, documentId: string): boolean =>
+  entry.documentId === documentId ||
+  (Array.isArray(entry.details.documentIds) && entry.details.documentIds.includes(documentId));
+
+/** The client address as reported by the proxy in front of the app, if any. */
+export const clientIpAddress = (headers: Headers): string | null => {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || headers.get('x-real-ip')?.trim() || null;
+};
+
+// --- Chain of custody report ---
+
+export type CustodyReportFormat = 'csv' | 'docx';
+
+export const CUSTODY_REPORT_CONTENT_TYPES: Record<CustodyReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  docx: DOCX_MIME_TYPE,
+};
+
+export interface CustodyReportSubject {
+  batesNumber: string;
+  documentName: string | null;
+  documentId: string | null;
+  currentHash: string | null;
+  projectName: string;
+}
+
+const CUSTODY_COLUMNS = ['#', 'Date/time (UTC)', 'Action', 'By', 'IP address', 'SHA-256 before', 'SHA-256 after', 'Entry hash'];
+
+const describeDetails = (details: AuditEntry['details']): string =>
+  Object.entries(details)
+    .filter(([, value]) => value !== null && value !== undefined && typeof value !== 'object')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('; ');
+
+export const toCustodyReport = (
+  subject: CustodyReportSubject,
+  entries: AuditEntry[],
+  chain: AuditChainStatus,
+  generatedAt = new Date()
+): TableReport => ({
+  title: `Chain of Custody – ${subject.batesNumber}`,
+  columns: CUSTODY_COLUMNS,
+  rows: entries.map(entry => {
+    const details = describeDetails(entry.details);
+    return [
+      entry.sequence,
+      new Date(entry.createdAt).toISOString().replace('T', ' ').replace(/\.\d+Z$/, 'Z'),
+      details ? `${AUDIT_ACTION_LABELS[entry.action] ?? entry.action} (${details})` : AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+      entry.actorEmail,
+      entry.ipAddress ?? '',
+      entry.hashBefore ?? '',
+      entry.hashAfter ?? '',
+      entry.entryHash,
+    ];
+  }),
+  notes: [
+    `Project: ${subject.projectName}`,
+    `Document: ${subject.documentName ?? '(no longer in the project)'}${subject.documentId ? ` [${subject.documentId}]` : ''}`,
+    `Current SHA-256: ${subject.currentHash ?? 'unknown'}`,
+    chain.valid
+      ? `Audit chain verified: ${chain.entryCount} entries, head ${chain.headHash ?? 'n/a'}.`
+      : `AUDIT CHAIN BROKEN at entry ${chain.brokenAt}: ${chain.reason}.`,
+    `Generated ${generatedAt.toISOString()}. # is the entry's position in the project's audit chain; each entry hash covers the previous entry's hash.`,
+  ],
+});
+
+export const buildCustodyReportCsv = (report: TableReport): string => {
+  const lines = [report.columns, ...report.rows].map(row => row.map(cell => csvEscape(cell)).join(','));
+  const notes = (report.notes || []).map(note => csvEscape(`# ${note}`));
+  return [...notes, ...lines].join('\n') + '\n';
+};
+
+export async function buildCustodyReport(report: TableReport, format: CustodyReportFormat): Promise<Uint8Array> {
+  if (format === 'docx') return buildDocx(report);
+  return new TextEncoder().encode(buildCustodyReportCsv(report));
+}
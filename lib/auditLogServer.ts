@@ -0,0 +1,166 @@
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Caller } from './auth';
+import type { Database, Json } from './database.types';
+import { auditEntryConcerns, clientIpAddress, verifyAuditChain, type CustodyReportSubject } from './auditLog';
+import { inBatesRange } from './reviewBatches';
+import type { AuditAction, AuditChainStatus, AuditEntry } from './types';
+
+type AuditRow = Database['public']['Tables']['audit_log']['Row'];
+
+const PAGE_SIZE = 1000;
+
+export interface AuditEvent {
+  action: AuditAction;
+  projectId?: string | null;
+  documentId?: string | null;
+  batesNumber?: string | null;
+  /** Default to the document's current content hash when a document is given. */
+  hashBefore?: string | null;
+  hashAfter?: string | null;
+  details?: Record<string, unknown>;
+}
+
+const toAuditEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  sequence: row.sequence,
+  projectId: row.project_id,
+  actorId: row.actor_id,
+  actorEmail: row.actor_email,
+  action: row.action as AuditAction,
+  documentId: row.document_id,
+  batesNumber: row.bates_number,
+  hashBefore: row.hash_before,
+  hashAfter: row.hash_after,
+  ipAddress: row.ip_address,
+  details: row.details && typeof row.details === 'object' && !Array.isArray(row.details) ? row.details : {},
+  createdAt: row.created_at,
+  previousHash: row.previous_hash,
+  entryHash: row.entry_hash,
+});
+
+/**
+ * Append the caller's action to its project's audit chain. Document events
+ * pick up the project, Bates number and content hash from the document. Throws
+ * when the entry cannot be written, so a route fails instead of acting unrecorded.
+ */
+export async function recordAudit(caller: Caller, request: NextRequest, event: AuditEvent): Promise<AuditEntry> {
+  const { supabase } = caller;
+  let projectId = event.projectId ?? null;
+  let batesNumber = event.batesNumber ?? null;
+  let contentHash: string | null = null;
+
+  if (event.documentId) {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('project_id, bates_formatted, content_hash')
+      .eq('id', event.documentId)
+      .maybeSingle();
+    if (error) throw error;
+    if (document) {
+      projectId = projectId ?? document.project_id;
+      batesNumber = batesNumber ?? document.bates_formatted;
+      contentHash = document.content_hash;
+    }
+  }
+
+  // The database takes the actor from the session and works out the entry's position and hashes
+  const { data, error } = await supabase.rpc('append_audit_entry', {
+    p_project_id: projectId,
+    p_action: event.action,
+    p_document_id: event.documentId ?? null,
+    p_bates_number: batesNumber,
+    p_hash_before: event.hashBefore === undefined ? contentHash : event.hashBefore,
+    p_hash_after: event.hashAfter === undefined ? contentHash : event.hashAfter,
+    p_ip_address: clientIpAddress(request.headers),
+    p_details: (event.details ?? {}) as Json,
+  });
+  if (error) throw error;
+  return toAuditEntry(data);
+}
+
+/** A project's whole audit chain in order. */
+export async function loadAuditChain(supabase: SupabaseClient<Database>, projectId: string): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('sequence', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    entries.push(...(data || []).map(toAuditEntry));
+    if (!data || data.length < PAGE_SIZE) return entries;
+  }
+}
+
+/** The SHA-256 recorded when a file was uploaded to this storage path, if any. */
+export async function findUploadedHash(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  storagePath: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('hash_after')
+    .eq('project_id', projectId)
+    .eq('action', 'document.upload')
+    .eq('details->>storagePath', storagePath)
+    .order('sequence', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0]?.hash_after ?? null;
+}
+
+/**
+ * Everything that happened to the document holding `batesNumber` (a first
+ * number or any page inside its range), including its upload, the productions
+ * it went out in and, once it is deleted, the entries that still carry its number. Null when the Bates
+ * number never appeared in the project.
+ */
+export async function loadCustodyTrail(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batesNumber: string
+): Promise<{ subject: CustodyReportSubject; entries: AuditEntry[]; chain: AuditChainStatus } | null> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('name')
+    .eq('id', projectId)
+    .maybeSingle();
+  if (projectError) throw projectError;
+  if (!project) return null;
+
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('id, name, bates_formatted, bates_end_formatted, storage_path, content_hash')
+    .eq('project_id', projectId)
+    .not('bates_formatted', 'is', null);
+  if (documentsError) throw documentsError;
+
+  const label = batesNumber.trim();
+  const document =
+    (documents || []).find(doc => doc.bates_formatted === label) ||
+    (documents || []).find(doc => inBatesRange(label, doc.bates_formatted!, doc.bates_end_formatted || doc.bates_formatted!));
+
+  const chain = await loadAuditChain(supabase, projectId);
+  const entries = chain.filter(entry =>
+    entry.batesNumber === (document?.bates_formatted ?? label) ||
+    (document && auditEntryConcerns(entry, document.id)) ||
+    (document?.storage_path && entry.action === 'document.upload' && entry.details.storagePath === document.storage_path)
+  );
+  if (!document && entries.length === 0) return null;
+
+  return {
+    subject: {
+      batesNumber: document?.bates_formatted ?? label,
+      documentName: document?.name ?? null,
+      documentId: document?.id ?? null,
+      currentHash: document?.content_hash ?? null,
+      projectName: project.name,
+    },
+    entries,
+    chain: verifyAuditChain(chain),
+  };
+}
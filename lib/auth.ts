@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { verifyLocalToken } from './localAuth';
+import { createCallerClient } from './supabaseClient';
+
+export type AuthProvider = 'supabase' | 'local';
+
+/**
+ * AUTH_PROVIDER=local swaps Supabase Auth for the passwordless stand-in in
+ * lib/localAuth.ts. A production build refuses it rather than falling back,
+ * so a leftover setting fails every request instead of letting anyone sign
+ * in as anyone.
+ */
+export const getAuthProvider = (): AuthProvider => {
+  if (process.env.AUTH_PROVIDER?.toLowerCase() !== 'local') return 'supabase';
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_PROVIDER=local cannot be used in production: it lets anyone sign in with any email');
+  }
+  return 'local';
+};
+
+export function getLocalJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('Missing SUPABASE_JWT_SECRET environment variable (required when AUTH_PROVIDER=local)');
+  }
+  return secret;
+}
+
+export interface Caller {
+  userId: string;
+  email: string;
+  /** Acts as the caller, so every query is subject to RLS. */
+  supabase: SupabaseClient<Database>;
+}
+
+const bearerToken = (request: NextRequest): string | null => {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+/** The signed-in user making the request, or null when it carries no valid session. */
+export async function getCaller(request: NextRequest): Promise<Caller | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const supabase = createCallerClient(token);
+
+  if (getAuthProvider() === 'local') {
+    const claims = verifyLocalToken(token, getLocalJwtSecret());
+    return claims ? { userId: claims.sub, email: claims.email, supabase } : null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user?.email) return null;
+  return { userId: data.user.id, email: data.user.email.toLowerCase(), supabase };
+}
+
+export const unauthorized = () =>
+  NextResponse.json({ error: 'Sign in to continue' }, { status: 401 });
+
+export const forbidden = (message: string) =>
+  NextResponse.json({ error: message }, { status: 403 });
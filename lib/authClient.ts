@@ -0,0 +1,103 @@
+import { getSupabaseClient } from './supabaseClient';
+import type { AuthUser } from './types';
+
+/**
+ * Browser side of authentication. NEXT_PUBLIC_AUTH_PROVIDER must match the
+ * server's AUTH_PROVIDER: "supabase" (default) signs in with Supabase Auth,
+ * "local" asks /api/auth/local for a token and keeps it in localStorage.
+ */
+export type ClientAuthProvider = 'supabase' | 'local';
+
+export const CLIENT_AUTH_PROVIDER: ClientAuthProvider =
+  process.env.NEXT_PUBLIC_AUTH_PROVIDER?.toLowerCase() === 'local' ? 'local' : 'supabase';
+
+/** Dispatched on window when the API rejects the session, so the app can ask the user to sign in again. */
+export const SIGNED_OUT_EVENT = 'discoverylens:signed-out';
+
+const LOCAL_SESSION_KEY = 'discoverylens.session';
+
+interface LocalSession {
+  accessToken: string;
+  expiresAt: number;
+  user: AuthUser;
+}
+
+const readLocalSession = (): LocalSession | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const session = JSON.parse(window.localStorage.getItem(LOCAL_SESSION_KEY) || 'null') as LocalSession | null;
+    if (session && session.expiresAt > Date.now()) return session;
+  } catch {
+    // Unreadable sessions are treated as signed out
+  }
+  window.localStorage.removeItem(LOCAL_SESSION_KEY);
+  return null;
+};
+
+export async function getAccessToken(): Promise<string | null> {
+  if (CLIENT_AUTH_PROVIDER === 'local') return readLocalSession()?.accessToken ?? null;
+  const { data } = await getSupabaseClient().auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  if (CLIENT_AUTH_PROVIDER === 'local') return readLocalSession()?.user ?? null;
+  const { data } = await getSupabaseClient().auth.getSession();
+  const user = data.session?.user;
+  return user?.email ? { id: user.id, email: user.email.toLowerCase() } : null;
+}
+
+/** Sign in; the local provider ignores the password. */
+export async function signIn(email: string, password: string): Promise<AuthUser> {
+  if (CLIENT_AUTH_PROVIDER === 'local') {
+    const response = await fetch('/api/auth/local', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.details || error.error || 'Failed to sign in');
+    }
+
+    const { accessToken, expiresIn, user } = (await response.json()) as { accessToken: string; expiresIn: number; user: AuthUser };
+    const session: LocalSession = { accessToken, expiresAt: Date.now() + expiresIn * 1000, user };
+    window.localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+    return user;
+  }
+
+  const { data, error } = await getSupabaseClient().auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+  return { id: data.user.id, email: (data.user.email || email).toLowerCase() };
+}
+
+/** Create a Supabase Auth account. Returns null when the address must be confirmed before signing in. */
+export async function signUp(email: string, password: string): Promise<AuthUser | null> {
+  if (CLIENT_AUTH_PROVIDER === 'local') return signIn(email, password);
+
+  const { data, error } = await getSupabaseClient().auth.signUp({ email, password });
+  if (error) throw new Error(error.message);
+  return data.session && data.user ? { id: data.user.id, email: (data.user.email || email).toLowerCase() } : null;
+}
+
+export async function signOut(): Promise<void> {
+  if (CLIENT_AUTH_PROVIDER === 'local') {
+    window.localStorage.removeItem(LOCAL_SESSION_KEY);
+    return;
+  }
+  await getSupabaseClient().auth.signOut();
+}
+
+/** fetch() for API routes: sends the signed-in user's token so the route acts as them. */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const token = await getAccessToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(SIGNED_OUT_EVENT));
+  }
+  return response;
+}
@@ -1,5 +1,6 @@
 import { DocumentAnalysisClient, AnalyzeResult } from '@azure/ai-form-recognizer';
 import { DefaultAzureCredential } from '@azure/identity';
+import type { GeometryWord, PageGeometry } from './types';
 
 const AZURE_DOC_INTELLIGENCE_ENDPOINT = process.env.AZURE_DOC_INTELLIGENCE_ENDPOINT;
 const AZURE_DOC_INTELLIGENCE_KEY = process.env.AZURE_DOC_INTELLIGENCE_KEY;
@@ -37,6 +38,8 @@ export interface AzureOCRResult {
     width: number;
     height: number;
     unit: string;
+    /** Word boxes as fractions of the page, origin top-left. */
+    words: GeometryWord[];
   }[];
   tables: {
     rowCount: number;
@@ -101,12 +104,31 @@ function processAzureResult(result: AnalyzeResult): AzureOCRResult {
         allText += lines + '\n\n';
       }
 
+      const width = page.width || 0;
+      const height = page.height || 0;
+      const words: GeometryWord[] = [];
+      if (width > 0 && height > 0) {
+        for (const word of page.words || []) {
+          if (!word.polygon?.length) continue;
+          const xs = word.polygon.map(point => point.x);
+          const ys = word.polygon.map(point => point.y);
+          words.push({
+            text: word.content,
+            x: Math.min(...xs) / width,
+            y: Math.min(...ys) / height,
+            width: (Math.max(...xs) - Math.min(...xs)) / width,
+            height: (Math.max(...ys) - Math.min(...ys)) / height,
+          });
+        }
+      }
+
       pages.push({
         pageNumber: page.pageNumber || 1,
         text: pageText,
-        width: page.width || 0,
-        height: page.height || 0,
+        width,
+        height,
         unit: page.unit || 'pixel',
+        words,
       });
     }
   }
@@ -152,6 +174,10 @@ function processAzureResult(result: AnalyzeResult): AzureOCRResult {
   };
 }
 
+/** Word geometry of an OCR result, in the shape stored on the document. */
+export const ocrPageGeometry = (result: AzureOCRResult): PageGeometry[] =>
+  result.pages.map(page => ({ pageNumber: page.pageNumber, words: page.words }));
+
 export async function extractTablesFromDocument(
   fileBuffer: Buffer,
   mimeType: string
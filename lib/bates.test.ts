@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  countPdfPages,
+  createBatesRange,
+  formatBatesRange,
+  getNextBatesNumber,
+  pageBatesLabel,
+  parseBatesLabel,
+  reserveFamilyNumbers,
+} from './bates';
+
+describe('createBatesRange', () => {
+  it('spans one number per page', () => {
+    const range = createBatesRange('DEF', 1, 12);
+    expect(range.formatted).toBe('DEF-0001');
+    expect(range.endFormatted).toBe('DEF-0012');
+    expect(getNextBatesNumber(range)).toBe(13);
+    expect(formatBatesRange(range)).toBe('DEF-0001 – DEF-0012');
+  });
+
+  it('treats missing or invalid page counts as a single page', () => {
+    const range = createBatesRange('DEF', 5, 0);
+    expect(range.pageCount).toBe(1);
+    expect(formatBatesRange(range)).toBe('DEF-0005');
+    expect(getNextBatesNumber({ prefix: 'DEF', number: 5, formatted: 'DEF-0005' })).toBe(6);
+  });
+
+  it('skips numbers reserved for a family', () => {
+    const parent = reserveFamilyNumbers(createBatesRange('DEF', 10, 2), 5);
+    expect(parent.endFormatted).toBe('DEF-0011');
+    expect(parent.familyEndNumber).toBe(16);
+    expect(getNextBatesNumber(parent)).toBe(17);
+    expect(reserveFamilyNumbers(createBatesRange('DEF', 10), 0).familyEndNumber).toBeUndefined();
+  });
+});
+
+describe('Bates labels', () => {
+  it('labels pages relative to the document start', () => {
+    expect(pageBatesLabel('DEF', 10, 2)).toBe('DEF-0012');
+    expect(pageBatesLabel('ABC', 1, 0, 6)).toBe('ABC-000001');
+  });
+
+  it('parses labels with and without separators', () => {
+    expect(parseBatesLabel('DEF-0042')).toEqual({ prefix: 'DEF', number: 42, padding: 4 });
+    expect(parseBatesLabel('PLTF000123')).toEqual({ prefix: 'PLTF', number: 123, padding: 6 });
+    expect(parseBatesLabel('no number')).toBeNull();
+  });
+});
+
+describe('countPdfPages', () => {
+  it('counts pages in a PDF', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    pdf.addPage();
+    pdf.addPage();
+    expect(await countPdfPages(await pdf.save())).toBe(3);
+  });
+});
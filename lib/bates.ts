@@ -0,0 +1,76 @@
+import type { BatesNumber } from './types';
+
+export const BATES_PADDING = 4;
+
+export const formatBatesNumber = (prefix: string, num: number, padding: number = BATES_PADDING): string => {
+  const padded = num.toString().padStart(padding, '0');
+  return `${prefix}-${padded}`;
+};
+
+/**
+ * Assign a page-level Bates range starting at `start`. A 12-page PDF starting at
+ * DEF-0001 spans DEF-0001 through DEF-0012 and the next document begins at DEF-0013.
+ */
+export const createBatesRange = (
+  prefix: string,
+  start: number,
+  pageCount: number = 1,
+  padding: number = BATES_PADDING
+): BatesNumber => {
+  const pages = Math.max(1, Math.floor(pageCount));
+  const endNumber = start + pages - 1;
+  return {
+    prefix,
+    number: start,
+    formatted: formatBatesNumber(prefix, start, padding),
+    endNumber,
+    endFormatted: formatBatesNumber(prefix, endNumber, padding),
+    pageCount: pages,
+  };
+};
+
+export const getBatesEndNumber = (bates: BatesNumber): number => bates.endNumber ?? bates.number;
+
+export const getNextBatesNumber = (bates: BatesNumber): number =>
+  Math.max(getBatesEndNumber(bates), bates.familyEndNumber ?? 0) + 1;
+
+/**
+ * Hold the numbers directly after a container's own range for its children, so
+ * a zip or email and its contents are produced as one consecutive family.
+ */
+export const reserveFamilyNumbers = (bates: BatesNumber, descendantPages: number): BatesNumber =>
+  descendantPages > 0 ? { ...bates, familyEndNumber: getBatesEndNumber(bates) + descendantPages } : bates;
+
+/** "DEF-0001" for single pages, "DEF-0001 – DEF-0012" for ranges. */
+export const formatBatesRange = (bates: BatesNumber): string => {
+  if (!bates.endFormatted || bates.endFormatted === bates.formatted) return bates.formatted;
+  return `${bates.formatted} – ${bates.endFormatted}`;
+};
+
+/** Label stamped on a zero-based page of a document. */
+export const pageBatesLabel = (
+  prefix: string,
+  start: number,
+  pageIndex: number,
+  padding: number = BATES_PADDING
+): string => formatBatesNumber(prefix, start + pageIndex, padding);
+
+/**
+ * Parse "DEF-0042" back into prefix and number. Returns null when the label does
+ * not end in a numeric segment.
+ */
+export const parseBatesLabel = (label: string): { prefix: string; number: number; padding: number } | null => {
+  const match = label.trim().match(/^(.*?)[-_ ]?(\d+)$/);
+  if (!match) return null;
+  return { prefix: match[1], number: parseInt(match[2], 10), padding: match[2].length };
+};
+
+/**
+ * Count pages in a PDF so Bates ranges can be assigned at ingestion. pdf-lib is
+ * loaded lazily so the browser bundle only pays for it when PDFs are uploaded.
+ */
+export const countPdfPages = async (data: ArrayBuffer | Uint8Array): Promise<number> => {
+  const { PDFDocument } = await import('pdf-lib');
+  const pdf = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  return pdf.getPageCount();
+};
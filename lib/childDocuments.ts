@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { BATES_PREFIX_DEFAULT } from './constants';
+import { createBatesRange, getBatesEndNumber, parseBatesLabel } from './bates';
+import { fileTypeFromMime } from './fileTypes';
+import { buildDocumentKey } from './storageUtils';
+import type { FamilyMember } from './types';
+import { childPageCount, measureFamily, type ExtractedChild } from './documentFamilies';
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+
+export type ParentDocument = Pick<
+  DocumentRow,
+  | 'id'
+  | 'project_id'
+  | 'bates_prefix'
+  | 'bates_number'
+  | 'bates_formatted'
+  | 'bates_end_number'
+  | 'bates_family_end_number'
+  | 'custodian_id'
+>;
+
+const parentPrefix = (parent: ParentDocument) =>
+  parent.bates_prefix || (parent.bates_formatted && parseBatesLabel(parent.bates_formatted)?.prefix) || BATES_PREFIX_DEFAULT;
+
+const parentEndNumber = (parent: ParentDocument): number | null => {
+  if (parent.bates_end_number != null) return parent.bates_end_number;
+  const start = parent.bates_number ? parseInt(parent.bates_number, 10) : NaN;
+  return Number.isFinite(start) ? start : null;
+};
+
+/**
+ * First Bates number for a family's children. Children use the block the parent
+ * reserved right after its own range; if there is no reservation or it is too
+ * small (the parent predates family numbering, or nesting ran deeper than was
+ * measured), a fresh block is taken from the project counter instead.
+ */
+const familyStartNumber = async (
+  supabase: SupabaseClient<Database>,
+  parent: ParentDocument,
+  projectId: string,
+  pagesNeeded: number
+): Promise<number> => {
+  const parentEnd = parentEndNumber(parent);
+  if (parentEnd !== null && parent.bates_family_end_number != null && parent.bates_family_end_number - parentEnd >= pagesNeeded) {
+    return parentEnd + 1;
+  }
+
+  const { data: start, error } = await supabase.rpc('allocate_bates_numbers', {
+    p_project_id: projectId,
+    p_count: pagesNeeded,
+  });
+  if (error) throw new Error(`Failed to allocate Bates numbers: ${error.message}`);
+  return start;
+};
+
+/**
+ * Store embedded files as documents of their own: each child gets its own Bates
+ * range, a copy in storage and a parent_document_id pointing at the container,
+ * and was collected from the same custodian as the container.
+ * Children are numbered consecutively, each followed by the block its own
+ * descendants will need. Returns the ids of the created documents so callers
+ * can queue processing.
+ */
+export async function createChildDocuments(
+  supabase: SupabaseClient<Database>,
+  parent: ParentDocument,
+  children: ExtractedChild[],
+  source: string
+): Promise<string[]> {
+  if (!parent.project_id) {
+    throw new Error(`Document ${parent.id} has no project; cannot number child documents`);
+  }
+
+  const sizes: { pageCount: number; descendantPages: number }[] = [];
+  for (const child of children) {
+    const { descendantPages } = await measureFamily(child.content, child.mimeType, child.fileName, 1);
+    sizes.push({ pageCount: await childPageCount(child), descendantPages });
+  }
+  const pagesNeeded = sizes.reduce((sum, size) => sum + size.pageCount + size.descendantPages, 0);
+  let cursor = await familyStartNumber(supabase, parent, parent.project_id, pagesNeeded);
+
+  const createdIds: string[] = [];
+  for (const [index, child] of children.entries()) {
+    const { pageCount, descendantPages } = sizes[index];
+    const bates = createBatesRange(parentPrefix(parent), cursor, pageCount);
+    const familyEnd = getBatesEndNumber(bates) + descendantPages;
+    cursor = familyEnd + 1;
+    const storagePath = buildDocumentKey(parent.project_id, bates.formatted, child.fileName);
+
+    const { error: uploadError } = await supabase.storage
+      .from('discovery-files')
+      .upload(storagePath, child.content, { contentType: child.mimeType, upsert: true });
+    if (uploadError) throw new Error(`Failed to store ${child.fileName}: ${uploadError.message}`);
+
+    const { data: document, error: insertError } = await supabase
+      .from('documents')
+      .insert({
+        project_id: parent.project_id,
+        parent_document_id: parent.id,
+        custodian_id: parent.custodian_id,
+        name: child.fileName,
+        file_type: fileTypeFromMime(child.mimeType),
+        mime_type: child.mimeType,
+        file_size: child.content.length,
+        bates_prefix: bates.prefix,
+        bates_number: String(bates.number),
+        bates_formatted: bates.formatted,
+        bates_end_number: bates.endNumber,
+        bates_end_formatted: bates.endFormatted,
+        bates_family_end_number: descendantPages > 0 ? familyEnd : null,
+        page_count: pageCount,
+        storage_path: storagePath,
+        file_url: storagePath,
+        content_hash: crypto.createHash('sha256').update(child.content).digest('hex'),
+        metadata: { source, parentBates: parent.bates_formatted, ...child.metadata } as Json,
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+    if (insertError) throw new Error(`Failed to create child document ${child.fileName}: ${insertError.message}`);
+
+    createdIds.push(document.id);
+  }
+
+  return createdIds;
+}
+
+/** One-hour signed URLs keyed by storage path, for opening documents that are not loaded locally. */
+export async function signStoragePaths(
+  supabase: SupabaseClient<Database>,
+  paths: (string | null)[]
+): Promise<Map<string, string>> {
+  const storagePaths = paths.filter((path): path is string => Boolean(path));
+  const signedUrls = new Map<string, string>();
+  if (storagePaths.length === 0) return signedUrls;
+
+  const { data: signed } = await supabase.storage.from('discovery-files').createSignedUrls(storagePaths, 60 * 60);
+  (signed || []).forEach(entry => {
+    if (entry.path && entry.signedUrl) signedUrls.set(entry.path, entry.signedUrl);
+  });
+  return signedUrls;
+}
+
+const FAMILY_COLUMNS = 'id, parent_document_id, name, mime_type, bates_number, bates_formatted, bates_end_formatted, status, storage_path';
+const MAX_FAMILY_WALK = 50;
+
+type FamilyRow = Pick<
+  DocumentRow,
+  'id' | 'parent_document_id' | 'name' | 'mime_type' | 'bates_number' | 'bates_formatted' | 'bates_end_formatted' | 'status' | 'storage_path'
+>;
+
+const batesOrder = (row: FamilyRow) => {
+  const start = row.bates_number ? parseInt(row.bates_number, 10) : NaN;
+  if (Number.isFinite(start)) return start;
+  const label = row.bates_formatted ? parseBatesLabel(row.bates_formatted) : null;
+  return label ? label.number : Number.MAX_SAFE_INTEGER;
+};
+
+/**
+ * The whole family a document belongs to: its top-level parent and every
+ * descendant, in production order (each parent followed by its children).
+ * Returns null when the document does not exist.
+ */
+export async function loadDocumentFamily(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<{ rootId: string; members: FamilyMember[] } | null> {
+  const fetchRow = async (id: string) => {
+    const { data, error } = await supabase.from('documents').select(FAMILY_COLUMNS).eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data as FamilyRow | null;
+  };
+
+  let root = await fetchRow(documentId);
+  if (!root) return null;
+  for (let hops = 0; root.parent_document_id && hops < MAX_FAMILY_WALK; hops++) {
+    const parent = await fetchRow(root.parent_document_id);
+    if (!parent) break;
+    root = parent;
+  }
+
+  const childrenOf = new Map<string, FamilyRow[]>();
+  let frontier = [root.id];
+  for (let level = 0; frontier.length > 0 && level < MAX_FAMILY_WALK; level++) {
+    const { data, error } = await supabase.from('documents').select(FAMILY_COLUMNS).in('parent_document_id', frontier);
+    if (error) throw error;
+    const rows = (data || []) as FamilyRow[];
+    rows.forEach(row => {
+      const siblings = childrenOf.get(row.parent_document_id!) || [];
+      siblings.push(row);
+      childrenOf.set(row.parent_document_id!, siblings);
+    });
+    frontier = rows.map(row => row.id);
+  }
+
+  const ordered: { row: FamilyRow; depth: number }[] = [];
+  const visit = (row: FamilyRow, depth: number) => {
+    ordered.push({ row, depth });
+    (childrenOf.get(row.id) || []).sort((a, b) => batesOrder(a) - batesOrder(b)).forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+
+  const signedUrls = await signStoragePaths(supabase, ordered.map(({ row }) => row.storage_path));
+
+  return {
+    rootId: root.id,
+    members: ordered.map(({ row, depth }) => ({
+      id: row.id,
+      parentId: row.parent_document_id,
+      name: row.name,
+      mimeType: row.mime_type,
+      batesFormatted: row.bates_formatted,
+      batesEndFormatted: row.bates_end_formatted,
+      status: row.status,
+      depth,
+      signedUrl: row.storage_path ? signedUrls.get(row.storage_path) ?? null : null,
+    })),
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildChronology,
+  chronologyEntities,
+  documentReferenceDate,
+  filterChronologyByEntity,
+  findConflictingAccounts,
+  groupChronologyByDay,
+  normalizeAnalysisEvents,
+  type ChronologySource,
+} from './chronology';
+import type { AnalysisData, TimelineEvent } from './types';
+
+const event = (overrides: Partial<TimelineEvent>): TimelineEvent => ({
+  date: '2023-03-07',
+  precision: 'day',
+  timezone: null,
+  approximate: false,
+  dateText: 'March 7, 2023',
+  description: 'Event',
+  entities: [],
+  sourceBates: 'ABC-0001',
+  quote: null,
+  ...overrides,
+});
+
+const analysis = (overrides: Partial<AnalysisData>): AnalysisData => ({
+  summary: '',
+  evidenceType: 'Email',
+  entities: [],
+  dates: [],
+  relevantFacts: [],
+  ...overrides,
+});
+
+const file = (id: string, bates: string, data: Partial<AnalysisData>, fileModifiedAt: string | null = null): ChronologySource => ({
+  id,
+  name: `${id}.pdf`,
+  batesNumber: { prefix: 'ABC', number: 1, formatted: bates },
+  analysis: analysis(data),
+  fileModifiedAt,
+});
+
+describe('documentReferenceDate', () => {
+  it('prefers the email Date header over the file time', () => {
+    const email = { date: 'Wed, 1 Mar 2023 09:00:00 -0500' };
+    expect(documentReferenceDate({ email, fileModifiedAt: '2023-04-01T00:00:00.000Z' })).toBe(email.date);
+    expect(documentReferenceDate({ fileModifiedAt: '2023-04-01T00:00:00.000Z' })).toBe('2023-04-01T00:00:00.000Z');
+    expect(documentReferenceDate(null)).toBeNull();
+  });
+});
+
+describe('normalizeAnalysisEvents', () => {
+  it('resolves the wording against the document date rather than the model arithmetic', () => {
+    const events = normalizeAnalysisEvents(
+      [
+        { dateText: 'the following Tuesday', date: '2023-03-08', description: ' Met the vendor ', entities: ['Acme', 'Acme', ''], quote: 'we met' },
+        { dateText: 'that fateful day', date: '2023-02-14', description: 'Contract signed' },
+        { dateText: 'at some point', description: 'Boxes moved' },
+        { dateText: 'March 1, 2023' },
+        'junk',
+      ],
+      { sourceBates: 'ABC-0001', reference: '2023-03-01' }
+    );
+    expect(events).toEqual([
+      event({ date: '2023-03-07', dateText: 'the following Tuesday', description: 'Met the vendor', entities: ['Acme'], quote: 'we met' }),
+      event({ date: '2023-02-14', dateText: 'that fateful day', description: 'Contract signed' }),
+      event({ date: null, precision: null, dateText: 'at some point', description: 'Boxes moved' }),
+    ]);
+  });
+
+  it('keeps a stated zone for events with a time', () => {
+    const [timed] = normalizeAnalysisEvents(
+      [{ dateText: 'March 2, 2023', time: '14:30', timezone: 'EST', description: 'Call' }],
+      { sourceBates: 'ABC-0001' }
+    );
+    expect(timed).toMatchObject({ date: '2023-03-02', precision: 'day', timezone: '-05:00' });
+  });
+});
+
+describe('buildChronology', () => {
+  const files = [
+    file('b', 'ABC-0002', { events: [event({ date: null, precision: null, description: 'Undated', sourceBates: 'ABC-0002' }), event({ date: '2023-03-02', description: 'Later', sourceBates: 'ABC-0002' })] }),
+    file('a', 'ABC-0001', { events: [event({ date: '2023-03', precision: 'month', description: 'Sometime in March', entities: ['Jane Roe'] })] }),
+    file('c', 'ABC-0003', { dates: ['March 1, 2023', 'not a date'], entities: ['Acme'] }),
+  ];
+
+  it('sorts every event by date with undated events last', () => {
+    expect(buildChronology(files).map(e => e.description)).toEqual(['Sometime in March', 'Referenced in c.pdf', 'Later', 'Undated']);
+  });
+
+  it('falls back to the plain date list for older analyses', () => {
+    const legacy = buildChronology(files).find(e => e.fileId === 'c');
+    expect(legacy).toMatchObject({ date: '2023-03-01', sourceBates: 'ABC-0003', fromDateList: true, entities: ['Acme'] });
+  });
+
+  it('groups by day, with month-only events ahead of the month’s days', () => {
+    const groups = groupChronologyByDay(buildChronology(files));
+    expect(groups.map(group => [group.key, group.events.length])).toEqual([
+      ['2023-03', 1],
+      ['2023-03-01', 1],
+      ['2023-03-02', 1],
+      ['undated', 1],
+    ]);
+  });
+
+  it('filters by entity tag or mention', () => {
+    const events = buildChronology(files);
+    expect(chronologyEntities(events)).toEqual(['Acme', 'Jane Roe']);
+    expect(filterChronologyByEntity(events, 'jane roe').map(e => e.description)).toEqual(['Sometime in March']);
+    expect(filterChronologyByEntity(events, 'later').map(e => e.description)).toEqual(['Later']);
+    expect(filterChronologyByEntity(events, null)).toHaveLength(4);
+  });
+});
+
+describe('findConflictingAccounts', () => {
+  const chronology = (events: TimelineEvent[]) =>
+    buildChronology(events.map((e, index) => file(`f${index}`, e.sourceBates, { events: [e] })));
+
+  it('flags the same event placed on different days by different documents', () => {
+    const events = chronology([
+      event({ description: 'Smith signed the supply contract', entities: ['Smith'] }),
+      event({ date: '2023-03-09', description: 'Smith signed supply contract with Acme', sourceBates: 'ABC-0002' }),
+      event({ date: '2023-03-09', description: 'Warehouse inspection', sourceBates: 'ABC-0003' }),
+    ]);
+    const conflicts = findConflictingAccounts(events);
+    const [first, second] = events.filter(e => e.description.includes('Smith'));
+    expect(conflicts.get(first.id)?.map(e => e.sourceBates)).toEqual(['ABC-0002']);
+    expect(conflicts.get(second.id)?.map(e => e.sourceBates)).toEqual(['ABC-0001']);
+    expect(conflicts.size).toBe(2);
+  });
+
+  it('compares times on the same day, allowing a little slack', () => {
+    const shots = (time: string, sourceBates: string) =>
+      event({ date: `2023-03-07T${time}`, precision: 'minute', description: 'Shots fired at the warehouse', sourceBates });
+    expect(findConflictingAccounts(chronology([shots('22:10', 'ABC-0001'), shots('23:30', 'ABC-0002')])).size).toBe(2);
+    expect(findConflictingAccounts(chronology([shots('22:10', 'ABC-0001'), shots('22:25', 'ABC-0002')])).size).toBe(0);
+  });
+
+  it('ignores agreement within a vaguer date and accounts from the same document', () => {
+    expect(findConflictingAccounts(chronology([
+      event({ description: 'Smith signed the supply contract' }),
+      event({ date: '2023-03', precision: 'month', description: 'Smith signed the supply contract', sourceBates: 'ABC-0002' }),
+      event({ date: '2023-03-20', approximate: true, description: 'Smith signed the supply contract', sourceBates: 'ABC-0003' }),
+    ])).size).toBe(0);
+    expect(findConflictingAccounts(chronology([
+      event({ description: 'Smith signed the supply contract' }),
+      event({ date: '2023-03-09', description: 'Smith signed the supply contract' }),
+    ])).size).toBe(0);
+  });
+});
@@ -0,0 +1,257 @@
+import {
+  coarserPrecision,
+  compareNormalizedDates,
+  normalizeDate,
+  normalizeTimezone,
+  normalizedDateValue,
+  truncateDate,
+  type NormalizedDate,
+} from './dates';
+import type { DatePrecision, DiscoveryFile, TimelineEvent } from './types';
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * The date a document speaks from: an email's Date header, else the file's
+ * modification time when it was collected. Relative dates inside the document
+ * ("the following Tuesday") are counted from here.
+ */
+export const documentReferenceDate = (metadata: unknown): string | null => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+  const fields = metadata as Record<string, unknown>;
+  const email = fields.email;
+  if (email && typeof email === 'object' && !Array.isArray(email)) {
+    const sent = asString((email as Record<string, unknown>).date);
+    if (sent) return sent;
+  }
+  return asString(fields.fileModifiedAt) || null;
+};
+
+/**
+ * Cleans the events the model returned and resolves their dates. The model's
+ * wording is normalized here, against the document's date, rather than
+ * trusting its arithmetic; its own ISO date is used only when the wording
+ * cannot be placed.
+ */
+export const normalizeAnalysisEvents = (
+  value: unknown,
+  { sourceBates, reference }: { sourceBates: string; reference?: string | null }
+): TimelineEvent[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw): TimelineEvent[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const item = raw as Record<string, unknown>;
+    const description = asString(item.description);
+    if (!description) return [];
+
+    const dateText = asString(item.dateText) || asString(item.date);
+    const timezone = normalizeTimezone(item.timezone);
+    const modelDate = [asString(item.date), asString(item.time)].filter(Boolean).join(' ');
+    const resolved = normalizeDate(dateText, { reference, timezone }) ?? normalizeDate(modelDate, { reference, timezone });
+    const entities = Array.isArray(item.entities)
+      ? Array.from(new Set(item.entities.map(asString).filter(Boolean)))
+      : [];
+
+    return [{
+      date: resolved?.date ?? null,
+      precision: resolved?.precision ?? null,
+      timezone: resolved?.timezone ?? null,
+      approximate: resolved?.approximate ?? false,
+      dateText,
+      description,
+      entities,
+      sourceBates,
+      quote: asString(item.quote) || null,
+    }];
+  });
+};
+
+// --- Chronology ---
+
+export type ChronologySource = Pick<DiscoveryFile, 'id' | 'name' | 'batesNumber' | 'analysis' | 'fileModifiedAt'>;
+
+export interface ChronologyEvent extends TimelineEvent {
+  id: string;
+  fileId: string;
+  fileName: string;
+  // True for dates from analyses that predate structured events; these carry
+  // no description of their own and are left out of conflict checks
+  fromDateList: boolean;
+}
+
+export interface ChronologyDay {
+  key: string; // "2023-04-05", or "2023-04" / "2023" for vaguer dates, or "undated"
+  precision: DatePrecision | null;
+  events: ChronologyEvent[];
+}
+
+const toNormalized = (event: TimelineEvent): NormalizedDate | null =>
+  event.date && event.precision
+    ? { date: event.date, precision: event.precision, timezone: event.timezone, approximate: event.approximate }
+    : null;
+
+/** Every event across the files, in date order with undated events last. */
+export const buildChronology = (files: ChronologySource[]): ChronologyEvent[] => {
+  const events: ChronologyEvent[] = [];
+  files.forEach(file => {
+    const analysis = file.analysis;
+    if (!analysis) return;
+    const bates = file.batesNumber.formatted;
+
+    if (analysis.events?.length) {
+      analysis.events.forEach((event, index) => {
+        events.push({ ...event, id: `${file.id}:${index}`, fileId: file.id, fileName: file.name, fromDateList: false });
+      });
+      return;
+    }
+
+    (analysis.dates || []).forEach((text, index) => {
+      const resolved = normalizeDate(text, { reference: file.fileModifiedAt });
+      if (!resolved) return;
+      events.push({
+        ...resolved,
+        dateText: text,
+        description: `Referenced in ${file.name}`,
+        entities: analysis.entities || [],
+        sourceBates: bates,
+        quote: null,
+        id: `${file.id}:date:${index}`,
+        fileId: file.id,
+        fileName: file.name,
+        fromDateList: true,
+      });
+    });
+  });
+
+  return events.sort((a, b) => {
+    const [left, right] = [toNormalized(a), toNormalized(b)];
+    if (!left || !right) return left ? -1 : right ? 1 : 0;
+    return compareNormalizedDates(left, right) || a.sourceBates.localeCompare(b.sourceBates);
+  });
+};
+
+/** The entities named across the events, alphabetically, ignoring case when merging. */
+export const chronologyEntities = (events: TimelineEvent[]): string[] => {
+  const byKey = new Map<string, string>();
+  events.forEach(event => event.entities.forEach(entity => {
+    const key = entity.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, entity);
+  }));
+  return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+};
+
+/** Events involving the entity: tagged with it, or naming it in their description. */
+export const filterChronologyByEntity = <T extends TimelineEvent>(events: T[], entity: string | null): T[] => {
+  const wanted = entity?.trim().toLowerCase();
+  if (!wanted) return events;
+  return events.filter(event =>
+    event.entities.some(name => name.toLowerCase() === wanted) || event.description.toLowerCase().includes(wanted)
+  );
+};
+
+/**
+ * Sorted events grouped by the day they fall on. Events known only to the
+ * month or year get a group of their own, placed ahead of that period's days.
+ */
+export const groupChronologyByDay = (events: ChronologyEvent[]): ChronologyDay[] => {
+  const groups: ChronologyDay[] = [];
+  const byKey = new Map<string, ChronologyDay>();
+  events.forEach(event => {
+    const precision = event.date && event.precision ? coarserPrecision(event.precision, 'day') : null;
+    const key = event.date && precision ? truncateDate(event.date, precision) : 'undated';
+    let group = byKey.get(key);
+    if (!group) {
+      group = { key, precision, events: [] };
+      byKey.set(key, group);
+      groups.push(group);
+    }
+    group.events.push(event);
+  });
+  return groups;
+};
+
+// --- Conflicting accounts ---
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'was', 'were', 'has', 'had', 'have', 'his', 'her',
+  'their', 'they', 'them', 'its', 'into', 'onto', 'about', 'after', 'before', 'over', 'under', 'then',
+  'than', 'which', 'who', 'whom', 'what', 'when', 'where', 'while', 'are', 'been', 'being', 'not', 'but',
+]);
+
+// Same-day times further apart than this are different accounts, not rounding
+const TIME_TOLERANCE_MS = 30 * 60_000;
+
+const contentWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      .map(word => word.replace(/(?:ing|ed|es|s)$/, ''))
+      .filter(word => word.length > 2)
+  );
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared += 1; });
+  const union = a.size + b.size - shared;
+  return { shared, score: union ? shared / union : 0 };
+};
+
+const sharesEntity = (a: TimelineEvent, b: TimelineEvent) => {
+  const names = new Set(a.entities.map(entity => entity.toLowerCase()));
+  return b.entities.some(entity => names.has(entity.toLowerCase()));
+};
+
+/** Whether two accounts place the event at different times, allowing for how precisely each is dated. */
+const datesDisagree = (a: NormalizedDate, b: NormalizedDate): boolean => {
+  // A hedged date only commits to its month
+  const precision = a.approximate || b.approximate
+    ? coarserPrecision(coarserPrecision(a.precision, b.precision), 'month')
+    : coarserPrecision(a.precision, b.precision);
+  if (precision === 'minute') return Math.abs(normalizedDateValue(a) - normalizedDateValue(b)) > TIME_TOLERANCE_MS;
+  return truncateDate(a.date, precision) !== truncateDate(b.date, precision);
+};
+
+/**
+ * Pairs up accounts from different documents that seem to describe the same
+ * happening — closely worded, or sharing an entity and most of their wording —
+ * but put it on different dates or times. Returned by event id, each with the
+ * events that contradict it.
+ */
+export const findConflictingAccounts = (events: ChronologyEvent[]): Map<string, ChronologyEvent[]> => {
+  const candidates = events
+    .filter(event => !event.fromDateList && toNormalized(event))
+    .map(event => ({ event, date: toNormalized(event)!, words: contentWords(event.description) }));
+
+  // Only compare events sharing a distinctive word; very common words would pair everything
+  const byWord = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => candidate.words.forEach(word => {
+    const list = byWord.get(word) ?? [];
+    list.push(index);
+    byWord.set(word, list);
+  }));
+
+  const conflicts = new Map<string, ChronologyEvent[]>();
+  const addConflict = (a: ChronologyEvent, b: ChronologyEvent) => {
+    conflicts.set(a.id, [...(conflicts.get(a.id) ?? []), b]);
+    conflicts.set(b.id, [...(conflicts.get(b.id) ?? []), a]);
+  };
+
+  const compared = new Set<string>();
+  byWord.forEach(indexes => {
+    if (indexes.length > 50) return;
+    indexes.forEach((i, position) => indexes.slice(position + 1).forEach(j => {
+      const pairKey = `${i}:${j}`;
+      if (compared.has(pairKey)) return;
+      compared.add(pairKey);
+
+      const [a, b] = [candidates[i], candidates[j]];
+      if (a.event.sourceBates === b.event.sourceBates) return;
+      const { shared, score } = similarity(a.words, b.words);
+      const sameEvent = shared >= 2 && (score >= 0.5 || (score >= 0.3 && sharesEntity(a.event, b.event)));
+      if (sameEvent && datesDisagree(a.date, b.date)) addConflict(a.event, b.event);
+    }));
+  });
+  return conflicts;
+};
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { BATES_PREFIX_DEFAULT } from './constants';
+import { createBatesRange, parseBatesLabel } from './bates';
+import { signStoragePaths } from './childDocuments';
+import { fileTypeFromMime } from './fileTypes';
+import { buildSubtitles, clipFileName, sliceTranscript, type ExhibitItem } from './mediaClips';
+import { cutMediaClip } from './mediaTranscoder';
+import { canThumbnail } from './thumbnails';
+import { queueThumbnails } from './thumbnailsServer';
+import { loadSpeakerNames, queueTranscription, saveTranscriptText } from './transcriptionServer';
+import { parseStoredTranscript } from './transcripts';
+import type { ClipOverlays, MediaClip, MediaTranscript } from './types';
+
+type ClipRow = Database['public']['Tables']['media_clips']['Row'];
+
+const CLIP_COLUMNS =
+  'id, project_id, source_document_id, document_id, start_ms, end_ms, burn_bates, burn_timestamp, burn_subtitles, description, created_at';
+
+export interface ClipSource {
+  id: string;
+  projectId: string | null;
+  name: string;
+  mimeType: string | null;
+  batesPrefix: string | null;
+  batesFormatted: string | null;
+  custodianId: string | null;
+  storagePath: string | null;
+  transcript: MediaTranscript | null;
+}
+
+/** A recording to cut clips from, without its content. Null when it does not exist. */
+export async function loadClipSource(supabase: SupabaseClient<Database>, documentId: string): Promise<ClipSource | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, project_id, name, mime_type, bates_prefix, bates_formatted, custodian_id, storage_path, transcript')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) return null;
+  return {
+    id: document.id,
+    projectId: document.project_id,
+    name: document.name,
+    mimeType: document.mime_type,
+    batesPrefix: document.bates_prefix,
+    batesFormatted: document.bates_formatted,
+    custodianId: document.custodian_id,
+    storagePath: document.storage_path,
+    transcript: parseStoredTranscript(document.transcript),
+  };
+}
+
+const namesRecord = (names: Map<string, { name: string }>) =>
+  Object.fromEntries(Array.from(names, ([label, speaker]) => [label, speaker.name]));
+
+/**
+ * Cuts a clip from the source recording and stores it as a document of its
+ * own: the next Bates number in the source's prefix, the same custodian, and
+ * the slice of the source transcript (speakers named as in the source), which
+ * is then embedded and analyzed like any transcript. The Bates number is taken
+ * only once the cut has worked, and burned into video clips in a second pass.
+ * A source without a transcript has its clip queued for transcription
+ * instead. Video clips get keyframes of their own.
+ */
+export async function createMediaClip(
+  supabase: SupabaseClient<Database>,
+  source: ClipSource & { projectId: string; storagePath: string; mimeType: string },
+  clip: { startMs: number; endMs: number; overlays: ClipOverlays; description: string | null }
+): Promise<MediaClip> {
+  const { data: blob, error: storageError } = await supabase.storage.from('discovery-files').download(source.storagePath);
+  if (storageError || !blob) {
+    throw new Error(`Failed to download ${source.storagePath}: ${storageError?.message || 'empty file'}`);
+  }
+
+  const transcript = source.transcript ? sliceTranscript(source.transcript, clip.startMs, clip.endMs) : null;
+  const speakerNames = await loadSpeakerNames(supabase, source.id);
+  const subtitles = clip.overlays.subtitles && transcript && transcript.segments.length > 0
+    ? buildSubtitles(transcript, namesRecord(speakerNames))
+    : null;
+
+  // Cut before taking a Bates number, so a recording that cannot be cut leaves no gap
+  const cut = await cutMediaClip({
+    inputBuffer: Buffer.from(await blob.arrayBuffer()),
+    mimeType: source.mimeType,
+    startMs: clip.startMs,
+    endMs: clip.endMs,
+    batesLabel: null,
+    timestamp: clip.overlays.timestamp,
+    subtitles,
+  });
+
+  const { data: start, error: allocateError } = await supabase.rpc('allocate_bates_numbers', {
+    p_project_id: source.projectId,
+    p_count: 1,
+  });
+  if (allocateError) throw new Error(`Failed to allocate Bates numbers: ${allocateError.message}`);
+  const prefix = source.batesPrefix || (source.batesFormatted && parseBatesLabel(source.batesFormatted)?.prefix) || BATES_PREFIX_DEFAULT;
+  const bates = createBatesRange(prefix, start, 1);
+
+  // The number is burned into the cut clip once it is known
+  const { clipBuffer, clipMimeType } = clip.overlays.bates && cut.clipMimeType.startsWith('video/')
+    ? await cutMediaClip({
+      inputBuffer: cut.clipBuffer,
+      mimeType: cut.clipMimeType,
+      startMs: 0,
+      endMs: clip.endMs - clip.startMs,
+      batesLabel: bates.formatted,
+      timestamp: false,
+      subtitles: null,
+    })
+    : cut;
+
+  const name = clipFileName(source.batesFormatted || source.name, clip.startMs, clip.endMs, clipMimeType.startsWith('video/'));
+  const storagePath = `${source.projectId}/${bates.formatted}_${name}`;
+  const { error: uploadError } = await supabase.storage
+    .from('discovery-files')
+    .upload(storagePath, clipBuffer, { contentType: clipMimeType, upsert: true });
+  if (uploadError) throw new Error(`Failed to store ${name}: ${uploadError.message}`);
+
+  const { data: document, error: insertError } = await supabase
+    .from('documents')
+    .insert({
+      project_id: source.projectId,
+      custodian_id: source.custodianId,
+      name,
+      file_type: fileTypeFromMime(clipMimeType),
+      mime_type: clipMimeType,
+      file_size: clipBuffer.length,
+      bates_prefix: bates.prefix,
+      bates_number: String(bates.number),
+      bates_formatted: bates.formatted,
+      bates_end_number: bates.endNumber,
+      bates_end_formatted: bates.endFormatted,
+      page_count: 1,
+      storage_path: storagePath,
+      file_url: storagePath,
+      content_hash: crypto.createHash('sha256').update(clipBuffer).digest('hex'),
+      metadata: {
+        source: 'media_clip',
+        sourceBates: source.batesFormatted,
+        sourceDocumentId: source.id,
+        clipStartMs: clip.startMs,
+        clipEndMs: clip.endMs,
+      } as Json,
+      transcript: transcript as unknown as Json,
+      status: 'complete',
+    })
+    .select('id, created_at')
+    .single();
+  if (insertError) throw new Error(`Failed to create clip document ${name}: ${insertError.message}`);
+
+  const { data: row, error: clipError } = await supabase
+    .from('media_clips')
+    .insert({
+      project_id: source.projectId,
+      source_document_id: source.id,
+      document_id: document.id,
+      start_ms: clip.startMs,
+      end_ms: clip.endMs,
+      burn_bates: clip.overlays.bates,
+      burn_timestamp: clip.overlays.timestamp,
+      burn_subtitles: subtitles !== null,
+      description: clip.description,
+    })
+    .select(CLIP_COLUMNS)
+    .single();
+  if (clipError) throw new Error(`Failed to record clip: ${clipError.message}`);
+
+  if (transcript) {
+    const labels = new Set(transcript.segments.flatMap(segment => (segment.speaker ? [segment.speaker] : [])));
+    const speakers = Array.from(speakerNames)
+      .filter(([label]) => labels.has(label))
+      .map(([label, speaker]) => ({
+        project_id: source.projectId,
+        document_id: document.id,
+        label,
+        entity_id: speaker.entityId,
+        name: speaker.name,
+      }));
+    if (speakers.length > 0) {
+      const { error } = await supabase.from('transcript_speakers').insert(speakers);
+      if (error) throw new Error(`Failed to copy speaker names: ${error.message}`);
+    }
+    await saveTranscriptText(supabase, { id: document.id, projectId: source.projectId }, transcript);
+  } else {
+    await queueTranscription(supabase, source.projectId, document.id);
+  }
+  if (canThumbnail(clipMimeType)) await queueThumbnails(supabase, source.projectId, [document.id]);
+
+  const signedUrls = await signStoragePaths(supabase, [storagePath]);
+  return toMediaClip(row as ClipRow, {
+    name,
+    batesFormatted: bates.formatted,
+    sourceBates: source.batesFormatted,
+    signedUrl: signedUrls.get(storagePath) ?? null,
+  });
+}
+
+const toMediaClip = (
+  row: ClipRow,
+  document: { name: string; batesFormatted: string | null; sourceBates: string | null; signedUrl: string | null }
+): MediaClip => ({
+  id: row.id,
+  documentId: row.document_id,
+  sourceDocumentId: row.source_document_id,
+  sourceBates: document.sourceBates,
+  batesFormatted: document.batesFormatted,
+  name: document.name,
+  description: row.description,
+  startMs: row.start_ms,
+  endMs: row.end_ms,
+  overlays: { bates: row.burn_bates, timestamp: row.burn_timestamp, subtitles: row.burn_subtitles },
+  createdAt: row.created_at,
+  signedUrl: document.signedUrl,
+});
+
+/**
+ * Clips cut from one recording, in the order they appear in it, or all of a
+ * project's clips in the order they were made. Clips whose document has been
+ * deleted are left out.
+ */
+export async function listMediaClips(
+  supabase: SupabaseClient<Database>,
+  filter: { projectId: string; clipIds?: string[] } | { sourceDocumentId: string }
+): Promise<MediaClip[]> {
+  let query = supabase.from('media_clips').select(CLIP_COLUMNS);
+  if ('sourceDocumentId' in filter) {
+    query = query.eq('source_document_id', filter.sourceDocumentId).order('start_ms').order('created_at');
+  } else {
+    query = query.eq('project_id', filter.projectId).order('created_at');
+    if (filter.clipIds) query = query.in('id', filter.clipIds);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  const rows = (data || []) as ClipRow[];
+  if (rows.length === 0) return [];
+
+  const documentIds = Array.from(new Set(rows.flatMap(row => [row.document_id, row.source_document_id])));
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('id, name, bates_formatted, storage_path')
+    .in('id', documentIds);
+  if (documentsError) throw documentsError;
+  const byId = new Map((documents || []).map(document => [document.id, document]));
+  const signedUrls = await signStoragePaths(supabase, rows.map(row => byId.get(row.document_id)?.storage_path ?? null));
+
+  return rows.flatMap(row => {
+    const document = byId.get(row.document_id);
+    if (!document) return [];
+    return [toMediaClip(row, {
+      name: document.name,
+      batesFormatted: document.bates_formatted,
+      sourceBates: byId.get(row.source_document_id)?.bates_formatted ?? null,
+      signedUrl: document.storage_path ? signedUrls.get(document.storage_path) ?? null : null,
+    })];
+  });
+}
+
+/** Each clip's file and its transcript as subtitles, for an exhibit set. */
+export async function downloadExhibitItems(supabase: SupabaseClient<Database>, clips: MediaClip[]): Promise<ExhibitItem[]> {
+  const items: ExhibitItem[] = [];
+  for (const clip of clips) {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('storage_path, transcript')
+      .eq('id', clip.documentId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!document?.storage_path) continue;
+
+    const { data: blob, error: storageError } = await supabase.storage.from('discovery-files').download(document.storage_path);
+    if (storageError || !blob) {
+      throw new Error(`Failed to download ${document.storage_path}: ${storageError?.message || 'empty file'}`);
+    }
+
+    const transcript = parseStoredTranscript(document.transcript);
+    const subtitles = transcript && transcript.segments.length > 0
+      ? buildSubtitles(transcript, namesRecord(await loadSpeakerNames(supabase, clip.documentId)))
+      : null;
+    items.push({ clip, content: Buffer.from(await blob.arrayBuffer()), subtitles });
+  }
+  return items;
+}
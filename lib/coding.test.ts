@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CODING_LAYOUT,
+  UNCODED_FILTER_VALUE,
+  codingBadges,
+  codingFieldKey,
+  matchesCodingFilter,
+  parseCodingFields,
+  parseCodingValues,
+} from './coding';
+
+const { fields } = DEFAULT_CODING_LAYOUT;
+const withIssues = fields.map(field => (field.key === 'issues' ? { ...field, options: ['Damages', 'Notice'] } : field));
+
+describe('parseCodingFields', () => {
+  it('cleans options and rejects malformed layouts', () => {
+    expect(parseCodingFields([{ key: 'issues', label: ' Issues ', type: 'multi', options: ['Notice', ' Notice ', ''] }])).toEqual({
+      fields: [{ key: 'issues', label: 'Issues', type: 'multi', options: ['Notice'] }],
+    });
+    expect(parseCodingFields([{ key: 'Hot!', label: 'Hot', type: 'flag' }])).toHaveProperty('error');
+    expect(parseCodingFields([{ key: 'tier', label: 'Tier', type: 'choice', options: [] }])).toEqual({
+      error: 'Choice field tier needs at least one option',
+    });
+    expect(parseCodingFields([{ key: 'a', label: 'A', type: 'flag' }, { key: 'a', label: 'B', type: 'text' }])).toEqual({
+      error: 'Duplicate field key: a',
+    });
+  });
+
+  it('derives unique keys from labels', () => {
+    expect(codingFieldKey('Key Witness?')).toBe('key_witness');
+    expect(codingFieldKey('Hot', ['hot'])).toBe('hot_2');
+  });
+});
+
+describe('parseCodingValues', () => {
+  it('keeps valid values and drops empty ones', () => {
+    expect(parseCodingValues(withIssues, {
+      responsiveness: 'Responsive',
+      hot: false,
+      confidentiality: '',
+      issues: ['Notice', 'Notice'],
+      notes: '  call witness  ',
+    })).toEqual({ values: { responsiveness: 'Responsive', issues: ['Notice'], notes: 'call witness' } });
+  });
+
+  it('rejects values outside the layout', () => {
+    expect(parseCodingValues(withIssues, { responsiveness: 'Maybe' })).toHaveProperty('error');
+    expect(parseCodingValues(withIssues, { issues: ['Fraud'] })).toHaveProperty('error');
+    expect(parseCodingValues(withIssues, { reviewer: 'JD' })).toEqual({ error: 'Unknown coding field: reviewer' });
+  });
+});
+
+describe('matchesCodingFilter', () => {
+  const coded = { responsiveness: 'Responsive', hot: true, issues: ['Damages'] };
+
+  it('matches choices, tags, flags and uncoded documents', () => {
+    expect(matchesCodingFilter(withIssues, coded, { key: 'responsiveness', value: 'Responsive' })).toBe(true);
+    expect(matchesCodingFilter(withIssues, coded, { key: 'issues', value: 'Notice' })).toBe(false);
+    expect(matchesCodingFilter(withIssues, coded, { key: 'hot', value: 'true' })).toBe(true);
+    expect(matchesCodingFilter(withIssues, undefined, { key: 'hot', value: 'false' })).toBe(true);
+    expect(matchesCodingFilter(withIssues, undefined, { key: 'responsiveness', value: UNCODED_FILTER_VALUE })).toBe(true);
+    expect(matchesCodingFilter(withIssues, coded, { key: 'notes', value: 'true' })).toBe(false);
+  });
+
+  it('summarizes flags and the first choice for the file list', () => {
+    expect(codingBadges(withIssues, coded)).toEqual(['Hot', 'Responsive']);
+  });
+});
@@ -0,0 +1,193 @@
+import { CONFIDENTIALITY_LEGENDS } from './constants';
+import type { CodingField, CodingFieldType, CodingLayout, CodingValue, CodingValues } from './types';
+
+export const CODING_FIELD_TYPE_LABELS: Record<CodingFieldType, string> = {
+  choice: 'Single choice',
+  multi: 'Tags (multiple)',
+  flag: 'Flag',
+  text: 'Free text',
+};
+
+const CODING_FIELD_TYPES = Object.keys(CODING_FIELD_TYPE_LABELS) as CodingFieldType[];
+
+export const isCodingFieldType = (value: unknown): value is CodingFieldType =>
+  typeof value === 'string' && (CODING_FIELD_TYPES as string[]).includes(value);
+
+/** Used until a project saves a layout of its own. */
+export const DEFAULT_CODING_LAYOUT: CodingLayout = {
+  id: null,
+  name: 'Review coding',
+  fields: [
+    { key: 'responsiveness', label: 'Responsiveness', type: 'choice', options: ['Responsive', 'Non-responsive', 'Needs further review'] },
+    { key: 'hot', label: 'Hot', type: 'flag' },
+    { key: 'confidentiality', label: 'Confidentiality', type: 'choice', options: ['Not confidential', ...CONFIDENTIALITY_LEGENDS] },
+    { key: 'issues', label: 'Issues', type: 'multi', options: [] },
+    { key: 'notes', label: 'Notes', type: 'text' },
+  ],
+};
+
+const MAX_FIELDS = 40;
+const MAX_OPTIONS = 100;
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+/** A stable field key from its label: "Key Witness?" → "key_witness". */
+export const codingFieldKey = (label: string, taken: string[] = []): string => {
+  const base = (label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'field').slice(0, 36);
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+};
+
+/**
+ * Validate layout fields sent by a client. Returns the cleaned fields, or an
+ * error message describing the first problem found.
+ */
+export const parseCodingFields = (value: unknown): { fields: CodingField[] } | { error: string } => {
+  if (!Array.isArray(value)) return { error: 'fields must be an array' };
+  if (value.length > MAX_FIELDS) return { error: `A layout may have at most ${MAX_FIELDS} fields` };
+
+  const fields: CodingField[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    if (!item || typeof item !== 'object') return { error: 'Each field must be an object' };
+    const { key, label, type, options } = item;
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      return { error: 'Field keys must be lowercase letters, digits and underscores, starting with a letter' };
+    }
+    if (fields.some(field => field.key === key)) return { error: `Duplicate field key: ${key}` };
+    if (typeof label !== 'string' || !label.trim()) return { error: `Field ${key} needs a label` };
+    if (!isCodingFieldType(type)) return { error: `Field ${key} has an unknown type` };
+
+    if (type === 'choice' || type === 'multi') {
+      if (!Array.isArray(options) || !options.every(option => typeof option === 'string')) {
+        return { error: `Field ${key} needs a list of options` };
+      }
+      const cleaned = Array.from(new Set((options as string[]).map(option => option.trim()).filter(Boolean)));
+      if (cleaned.length > MAX_OPTIONS) return { error: `Field ${key} may have at most ${MAX_OPTIONS} options` };
+      if (type === 'choice' && cleaned.length === 0) return { error: `Choice field ${key} needs at least one option` };
+      fields.push({ key, label: label.trim(), type, options: cleaned });
+    } else {
+      fields.push({ key, label: label.trim(), type });
+    }
+  }
+  return { fields };
+};
+
+const isEmptyValue = (value: CodingValue | undefined) =>
+  value === undefined || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check submitted values against a layout. Empty values (unset choices,
+ * cleared flags, blank notes) are dropped so an uncoded field is simply absent.
+ */
+export const parseCodingValues = (
+  fields: CodingField[],
+  value: unknown
+): { values: CodingValues } | { error: string } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'values must be an object' };
+
+  const values: CodingValues = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    const field = fields.find(f => f.key === key);
+    if (!field) return { error: `Unknown coding field: ${key}` };
+    if (raw === null || raw === undefined) continue;
+
+    switch (field.type) {
+      case 'choice':
+        if (typeof raw !== 'string' || (raw !== '' && !field.options?.includes(raw))) {
+          return { error: `${field.label} must be one of: ${(field.options || []).join(', ')}` };
+        }
+        if (raw) values[key] = raw;
+        break;
+      case 'multi': {
+        if (!Array.isArray(raw) || !raw.every(tag => typeof tag === 'string' && field.options?.includes(tag))) {
+          return { error: `${field.label} may only contain its defined tags` };
+        }
+        const tags = Array.from(new Set(raw as string[]));
+        if (tags.length > 0) values[key] = tags;
+        break;
+      }
+      case 'flag':
+        if (typeof raw !== 'boolean') return { error: `${field.label} must be true or false` };
+        if (raw) values[key] = true;
+        break;
+      case 'text':
+        if (typeof raw !== 'string') return { error: `${field.label} must be text` };
+        if (raw.trim()) values[key] = raw.trim();
+        break;
+    }
+  }
+  return { values };
+};
+
+/** Stored values, tolerating rows written before a field changed type. */
+export const readCodingValues = (value: unknown): CodingValues => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const values: CodingValues = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, raw]) => {
+    if (typeof raw === 'string' || typeof raw === 'boolean') values[key] = raw;
+    else if (Array.isArray(raw)) values[key] = raw.filter((tag): tag is string => typeof tag === 'string');
+  });
+  return values;
+};
+
+export const isCoded = (fields: CodingField[], values: CodingValues | undefined): boolean =>
+  Boolean(values) && fields.some(field => !isEmptyValue(values![field.key]));
+
+export const UNCODED_FILTER_VALUE = '__uncoded';
+
+export interface CodingFilter {
+  key: string;
+  value: string;
+}
+
+/** The values a field can be filtered on, in the order they are offered. */
+export const codingFilterOptions = (field: CodingField): { value: string; label: string }[] => {
+  switch (field.type) {
+    case 'choice':
+    case 'multi':
+      return [
+        ...(field.options || []).map(option => ({ value: option, label: option })),
+        { value: UNCODED_FILTER_VALUE, label: field.type === 'multi' ? 'No tags' : 'Not coded' },
+      ];
+    case 'flag':
+      return [
+        { value: 'true', label: field.label },
+        { value: 'false', label: `Not ${field.label.toLowerCase()}` },
+      ];
+    case 'text':
+      return [
+        { value: 'true', label: `Has ${field.label.toLowerCase()}` },
+        { value: 'false', label: `No ${field.label.toLowerCase()}` },
+      ];
+  }
+};
+
+export const matchesCodingFilter = (
+  fields: CodingField[],
+  values: CodingValues | undefined,
+  filter: CodingFilter
+): boolean => {
+  const field = fields.find(f => f.key === filter.key);
+  if (!field) return true;
+  const value = values?.[field.key];
+
+  switch (field.type) {
+    case 'choice':
+      return filter.value === UNCODED_FILTER_VALUE ? isEmptyValue(value) : value === filter.value;
+    case 'multi':
+      return filter.value === UNCODED_FILTER_VALUE
+        ? isEmptyValue(value)
+        : Array.isArray(value) && value.includes(filter.value);
+    case 'flag':
+    case 'text':
+      return isEmptyValue(value) === (filter.value === 'false');
+  }
+};
+
+/** Short labels for the file list: set flags by name, then the first choice made. */
+export const codingBadges = (fields: CodingField[], values: CodingValues | undefined): string[] => {
+  if (!values) return [];
+  const flags = fields.filter(field => field.type === 'flag' && values[field.key] === true).map(field => field.label);
+  const choice = fields.find(field => field.type === 'choice' && typeof values[field.key] === 'string');
+  return choice ? [...flags, values[choice.key] as string] : flags;
+};
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { DEFAULT_CODING_LAYOUT, parseCodingFields, readCodingValues } from './coding';
+import type { CodingField, CodingLayout, CodingValues } from './types';
+
+type LayoutRow = Database['public']['Tables']['coding_layouts']['Row'];
+
+const toCodingLayout = (row: LayoutRow): CodingLayout => {
+  const parsed = parseCodingFields(row.fields);
+  return { id: row.id, name: row.name, fields: 'fields' in parsed ? parsed.fields : [] };
+};
+
+/** The project's coding layout, or the default layout when none has been saved. */
+export async function getCodingLayout(supabase: SupabaseClient<Database>, projectId: string): Promise<CodingLayout> {
+  const { data, error } = await supabase
+    .from('coding_layouts')
+    .select('*')
+    .eq('project_id', projectId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toCodingLayout(data) : DEFAULT_CODING_LAYOUT;
+}
+
+export async function saveCodingLayout(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  layout: { name: string; fields: CodingField[] }
+): Promise<CodingLayout> {
+  const { data, error } = await supabase
+    .from('coding_layouts')
+    .upsert(
+      {
+        project_id: projectId,
+        name: layout.name,
+        fields: layout.fields as unknown as Json,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'project_id' }
+    )
+    .select('*')
+    .single();
+  if (error) throw error;
+  return toCodingLayout(data);
+}
+
+/** Every coded document in the project, keyed by document id. */
+export async function listDocumentCodings(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<Record<string, CodingValues>> {
+  const { data, error } = await supabase
+    .from('document_codings')
+    .select('document_id, values')
+    .eq('project_id', projectId);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.document_id, readCodingValues(row.values)]));
+}
+
+export async function getDocumentCoding(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<{ values: CodingValues; codedAt: string | null }> {
+  const { data, error } = await supabase
+    .from('document_codings')
+    .select('values, coded_at')
+    .eq('document_id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { values: readCodingValues(data.values), codedAt: data.coded_at } : { values: {}, codedAt: null };
+}
+
+/** Replace a document's coding. Values must already be checked against the project's layout. */
+export async function saveDocumentCoding(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; project_id: string },
+  values: CodingValues,
+  codedBy: string | null = null
+): Promise<{ values: CodingValues; codedAt: string | null }> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('document_codings')
+    .upsert(
+      {
+        project_id: document.project_id,
+        document_id: document.id,
+        values: values as Json,
+        coded_at: now,
+        coded_by: codedBy,
+        updated_at: now,
+      },
+      { onConflict: 'document_id' }
+    )
+    .select('values, coded_at')
+    .single();
+  if (error) throw error;
+  return { values: readCodingValues(data.values), codedAt: data.coded_at };
+}
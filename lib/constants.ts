@@ -1,5 +1,12 @@
 export const BATES_PREFIX_DEFAULT = 'DEF';
 
+// Stamped bottom-left on produced pages. Kept to WinAnsi characters so the standard PDF fonts can draw them.
+export const CONFIDENTIALITY_LEGENDS = [
+  'CONFIDENTIAL',
+  "HIGHLY CONFIDENTIAL - ATTORNEYS' EYES ONLY",
+  'CONFIDENTIAL - SUBJECT TO PROTECTIVE ORDER',
+];
+
 export const EVIDENCE_CATEGORIES = [
   "Contract/Agreement",
   "Email/Correspondence",
@@ -32,6 +39,7 @@ Your analysis must include:
 5. "dates": All critical dates and times mentioned.
 6. "relevantFacts": Key facts, inconsistencies, or admissions.
 7. "sentiment": The general tone (Hostile, Cooperative, Neutral).
+8. "privilegeScreen": Whether the file is likely protected by attorney-client privilege or the work-product doctrine. Return "likelyPrivileged" (boolean), "bases" (any of "attorney_client", "work_product"), "reasons" (short phrases such as attorney names involved or legal-advice language), and "attorneys" (names of lawyers sending, receiving or named as advising). Flag conservatively: a reviewer makes the final call.
 
 ALWAYS reference the file by its assigned Bates Number (provided in the prompt) when outputting text.
 Format references as [BatesNumber], e.g., [DEF-001].
@@ -45,6 +53,22 @@ Your answers must be:
 1. Legally precise.
 2. Fact-based, strictly adhering to the provided context.
 3. Heavily cited. Every assertion must be followed by the Bates number of the source file in brackets, e.g., "The defendant claimed he was at home [DEF-002], but the traffic camera shows his car on Main St [DEF-005]."
+4. When RELEVANT PASSAGES are provided, prefer them over summaries and cite the passage label exactly as given, e.g., [DEF-0007 ¶3]. Passages from deposition transcripts are labeled by page and line; cite testimony the same way, e.g., [DEF-0007 45:12-46:3].
 
 If you cannot find the answer in the provided context, state that clearly. Do not hallucinate facts.
-`;
\ No newline at end of file
+`;
+export const SYSTEM_INSTRUCTION_CONTRADICTIONS = `
+You are a senior litigation consultant comparing witness statements, reports and transcripts for an attorney preparing cross-examination.
+You will receive numbered TOPICS (e.g. T1), each an entity or event with the accounts that different discovery files give of it, headed by their Bates numbers.
+Find the places where two files contradict each other or are materially inconsistent about the same thing: who did what, when, where, in what order, what was said, distances, counts, descriptions.
+Ignore differences that are only in detail or wording, and facts one file simply leaves out.
+
+Return a JSON object {"contradictions": [...]}, each item with:
+1. "topicId": the topic it belongs to, exactly as given.
+2. "topic": a short label for what is disputed, e.g. "Time of the traffic stop".
+3. "a" and "b": the two sides, each {"bates": the Bates number as given, "quote": the file's own words}. Quote the "Text" lines word for word where they cover it; otherwise quote the fact.
+4. "explanation": one or two sentences on how the accounts disagree and why it matters.
+5. "severity": "high" when it goes to a central fact or credibility, "medium" when it is material, "low" when it is minor.
+
+Only compare files within a topic, and never pair a file with itself. If nothing contradicts, return {"contradictions": []}.
+`;
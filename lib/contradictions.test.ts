@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildComparisonTopics,
+  contradictionKey,
+  describeComparisonTopics,
+  formatContradiction,
+  normalizeContradictions,
+  textExcerpts,
+  type ContradictionSource,
+} from './contradictions';
+import type { Contradiction, TimelineEvent } from './types';
+
+const event = (overrides: Partial<TimelineEvent>): TimelineEvent => ({
+  date: '2023-03-07T14:30',
+  precision: 'minute',
+  timezone: null,
+  approximate: false,
+  dateText: 'March 7, 2023 at 2:30 PM',
+  description: 'Ofc. Smith stopped the white pickup truck on Oak Street',
+  entities: ['Ofc. Smith'],
+  sourceBates: '',
+  quote: null,
+  ...overrides,
+});
+
+const policeReport: ContradictionSource = {
+  documentId: 'doc-3',
+  name: 'Police report.pdf',
+  batesNumber: 'DEF-0003',
+  analysis: {
+    entities: ['Officer J. Smith', 'John Doe'],
+    relevantFacts: ['Officer J. Smith saw John Doe reach toward the glove box', 'The weather was clear'],
+    events: [event({})],
+  },
+  text: 'At 1430 hours I initiated a stop. Officer J. Smith observed the driver reach toward the glove box.\nNo injuries.',
+};
+
+const bodyCam: ContradictionSource = {
+  documentId: 'doc-11',
+  name: 'Body cam.mp4',
+  batesNumber: 'DEF-0011',
+  analysis: {
+    entities: ['Ofc. Smith', 'John Doe'],
+    relevantFacts: ['John Doe kept both hands on the steering wheel while Ofc. Smith approached'],
+    events: [event({ date: '2023-03-07T15:45', dateText: '3:45 PM', description: 'Ofc. Smith stopped the white pickup on Oak Street' })],
+  },
+  text: 'SMITH: Keep your hands on the wheel. DOE: They are on the wheel, officer.',
+};
+
+const unrelated: ContradictionSource = {
+  documentId: 'doc-20',
+  name: 'Invoice.pdf',
+  batesNumber: 'DEF-0020',
+  analysis: { entities: ['Acme Corp.'], relevantFacts: ['Acme Corp. billed $400'], events: [] },
+  text: null,
+};
+
+const entities = [
+  { id: 'smith', name: 'Officer J. Smith', aliases: ['Ofc. Smith'] },
+  { id: 'doe', name: 'John Doe', aliases: [] },
+  { id: 'acme', name: 'Acme Corp.', aliases: [] },
+];
+
+describe('textExcerpts', () => {
+  it('keeps sentences naming the entity, up to the limit', () => {
+    expect(textExcerpts(policeReport.text, ['Officer J. Smith'])).toEqual([
+      'Officer J. Smith observed the driver reach toward the glove box.',
+    ]);
+    expect(textExcerpts('Doe ran. Doe hid. Doe left.', ['doe'], 2)).toEqual(['Doe ran.', 'Doe hid.']);
+    expect(textExcerpts(null, ['Doe'])).toEqual([]);
+  });
+});
+
+describe('buildComparisonTopics', () => {
+  const topics = buildComparisonTopics([policeReport, bodyCam, unrelated], entities);
+
+  it('puts differently dated accounts of one event first, then entities two documents describe', () => {
+    expect(topics.map(topic => [topic.id, topic.entityId])).toEqual([
+      ['T1', null],
+      ['T2', 'doe'],
+      ['T3', 'smith'],
+    ]);
+    expect(topics[0].statements.map(statement => statement.batesNumber).sort()).toEqual(['DEF-0003', 'DEF-0011']);
+  });
+
+  it('collects each document’s facts through the entity’s aliases', () => {
+    const smith = topics.find(topic => topic.entityId === 'smith')!;
+    expect(smith.statements.map(statement => statement.batesNumber)).toEqual(['DEF-0003', 'DEF-0011']);
+    expect(smith.statements[1].facts).toContain('John Doe kept both hands on the steering wheel while Ofc. Smith approached');
+    expect(smith.statements[0].excerpts).toEqual(['Officer J. Smith observed the driver reach toward the glove box.']);
+  });
+
+  it('heads each account with its Bates cite in the prompt', () => {
+    const text = describeComparisonTopics(topics.slice(2));
+    expect(text).toContain('=== T3: Officer J. Smith ===');
+    expect(text).toContain('[DEF-0011]\n- John Doe kept both hands');
+    expect(text).toContain('  "Officer J. Smith observed the driver reach toward the glove box."');
+  });
+});
+
+describe('normalizeContradictions', () => {
+  const topics = buildComparisonTopics([policeReport, bodyCam], entities);
+  const smith = topics.find(topic => topic.entityId === 'smith')!;
+  const finding = {
+    topicId: smith.id,
+    topic: 'Driver’s hands during approach',
+    a: { bates: '[DEF-0011]', quote: '“They are on the wheel, officer.”' },
+    b: { bates: 'DEF-0003', quote: 'Officer J. Smith   observed the driver reach toward the glove box.' },
+    explanation: 'The report says the driver reached for the glove box; the video has his hands on the wheel.',
+    severity: 'high',
+  };
+
+  it('orders the pair by Bates number and marks quotes found in the document as verbatim', () => {
+    const [contradiction] = normalizeContradictions({ contradictions: [finding] }, topics, [policeReport, bodyCam]);
+    expect(contradiction.entityId).toBe('smith');
+    expect(contradiction.severity).toBe('high');
+    expect(contradiction.statements).toEqual([
+      { documentId: 'doc-3', batesNumber: 'DEF-0003', quote: 'Officer J. Smith observed the driver reach toward the glove box.', verbatim: true },
+      { documentId: 'doc-11', batesNumber: 'DEF-0011', quote: 'They are on the wheel, officer.', verbatim: true },
+    ]);
+  });
+
+  it('drops findings that do not hold together and de-duplicates the rest', () => {
+    const results = normalizeContradictions({
+      contradictions: [
+        finding,
+        { ...finding, severity: 'critical', a: finding.b, b: finding.a },
+        { ...finding, topicId: 'T99' },
+        { ...finding, b: { bates: 'DEF-0011', quote: 'Keep your hands on the wheel.' } },
+        { ...finding, b: { bates: 'DEF-0020', quote: 'Acme Corp. billed $400' } },
+        { ...finding, a: { bates: 'DEF-0011', quote: '  ' } },
+        'nonsense',
+      ],
+    }, topics, [policeReport, bodyCam]);
+    expect(results).toHaveLength(1);
+    expect(normalizeContradictions(null, topics, [])).toEqual([]);
+  });
+
+  it('keeps paraphrases but does not call them verbatim, and falls back to medium severity', () => {
+    const [contradiction] = normalizeContradictions({
+      contradictions: [{ ...finding, severity: undefined, b: { bates: 'DEF-0003', quote: 'Smith said Doe reached for a gun' } }],
+    }, topics, [policeReport, bodyCam]);
+    expect(contradiction.severity).toBe('medium');
+    expect(contradiction.statements[0].verbatim).toBe(false);
+  });
+});
+
+describe('contradiction output', () => {
+  const contradiction: Pick<Contradiction, 'topic' | 'explanation' | 'statements'> = {
+    topic: 'Time of the stop',
+    explanation: 'The report and the video are over an hour apart.',
+    statements: [
+      { documentId: 'doc-3', batesNumber: 'DEF-0003', quote: 'At 1430 hours I initiated a stop.', verbatim: true },
+      { documentId: 'doc-11', batesNumber: 'DEF-0011', quote: 'The stop began at 3:45 PM', verbatim: false },
+    ],
+  };
+
+  it('cites both sides and flags paraphrases', () => {
+    expect(formatContradiction(contradiction)).toBe(
+      'Time of the stop\n"At 1430 hours I initiated a stop." [DEF-0003]\nbut\n(paraphrased) The stop began at 3:45 PM [DEF-0011]\nThe report and the video are over an hour apart.'
+    );
+  });
+
+  it('keys a pair the same whichever way round it is reported', () => {
+    const [a, b] = contradiction.statements;
+    expect(contradictionKey({ statements: [a, b] })).toBe(contradictionKey({ statements: [b, { ...a, quote: 'AT 1430 hours  I initiated a stop.' }] }));
+  });
+});
@@ -0,0 +1,237 @@
+import { findConflictingAccounts, type ChronologyEvent } from './chronology';
+import { entityFacts } from './entities';
+import type { AnalysisData, CaseEntity, Contradiction, ContradictionSeverity, ContradictionStatement } from './types';
+
+export const CONTRADICTION_SEVERITIES: ContradictionSeverity[] = ['high', 'medium', 'low'];
+
+const MAX_TOPICS = 40;
+const MAX_STATEMENTS_PER_DOCUMENT = 6;
+const MAX_EXCERPTS_PER_DOCUMENT = 3;
+const MAX_EXCERPT_CHARS = 300;
+const MAX_QUOTE_CHARS = 500;
+
+/** An analyzed document as the contradiction finder sees it. */
+export interface ContradictionSource {
+  documentId: string;
+  name: string;
+  batesNumber: string;
+  analysis: Pick<AnalysisData, 'entities' | 'relevantFacts' | 'events'> | null;
+  text: string | null; // Extracted text or transcript, for excerpts and checking quotes
+}
+
+/** What one document says about a topic: facts from its analysis and sentences from its text. */
+export interface ComparisonStatement {
+  documentId: string;
+  batesNumber: string;
+  facts: string[];
+  excerpts: string[];
+}
+
+/** An entity or event that two or more documents give an account of. */
+export interface ComparisonTopic {
+  id: string; // "T1", "T2"... as the model refers to it
+  entityId: string | null;
+  topic: string;
+  statements: ComparisonStatement[];
+}
+
+export type NewContradiction = Omit<Contradiction, 'id' | 'status'>;
+
+export const isContradictionSeverity = (value: unknown): value is ContradictionSeverity =>
+  typeof value === 'string' && (CONTRADICTION_SEVERITIES as string[]).includes(value);
+
+/** A Bates cite as the analyses write it, e.g. [DEF-0003]. */
+export const formatBatesCite = (batesNumber: string): string => `[${batesNumber}]`;
+
+const SENTENCE_END = /[.!?](?=\s)|\n/g;
+
+/**
+ * The sentences of the text that name any of the names, in order and
+ * shortened to fit a prompt. Sentences are grown outwards from each mention,
+ * so periods inside a name ("Ofc. J. Smith") do not cut it short.
+ */
+export const textExcerpts = (text: string | null, names: string[], limit = MAX_EXCERPTS_PER_DOCUMENT): string[] => {
+  const wanted = names.map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (!text || wanted.length === 0) return [];
+  const haystack = text.toLowerCase();
+
+  const ends = Array.from(text.matchAll(SENTENCE_END), match => match.index! + 1);
+  const mentions = wanted.flatMap(name => {
+    const found: Array<{ start: number; end: number }> = [];
+    for (let index = haystack.indexOf(name); index !== -1; index = haystack.indexOf(name, index + name.length)) {
+      found.push({ start: index, end: index + name.length });
+    }
+    return found;
+  }).sort((a, b) => a.start - b.start);
+
+  const excerpts: string[] = [];
+  let covered = -1;
+  for (const mention of mentions) {
+    if (mention.start < covered) continue;
+    const sentenceStart = ends.filter(end => end <= mention.start).pop() ?? 0;
+    const sentenceEnd = ends.find(end => end >= mention.end) ?? text.length;
+    covered = sentenceEnd;
+    const sentence = text.slice(sentenceStart, sentenceEnd).trim().replace(/\s+/g, ' ');
+    excerpts.push(sentence.length > MAX_EXCERPT_CHARS ? `${sentence.slice(0, MAX_EXCERPT_CHARS)}…` : sentence);
+    if (excerpts.length >= limit) break;
+  }
+  return excerpts;
+};
+
+const sourceEvents = (sources: ContradictionSource[]): ChronologyEvent[] =>
+  sources.flatMap(source => (source.analysis?.events || []).map((event, index) => ({
+    ...event,
+    sourceBates: source.batesNumber,
+    id: `${source.documentId}:${index}`,
+    fileId: source.documentId,
+    fileName: source.name,
+    fromDateList: false,
+  })));
+
+const eventStatement = (event: ChronologyEvent): ComparisonStatement => ({
+  documentId: event.fileId,
+  batesNumber: event.sourceBates,
+  facts: [event.dateText ? `${event.dateText}: ${event.description}` : event.description],
+  excerpts: event.quote ? [event.quote] : [],
+});
+
+/**
+ * The topics worth comparing across documents: accounts of one event that
+ * already disagree on when it happened, then each entity two or more
+ * documents say something about, most widely covered first.
+ */
+export const buildComparisonTopics = (
+  sources: ContradictionSource[],
+  entities: Pick<CaseEntity, 'id' | 'name' | 'aliases'>[],
+  maxTopics = MAX_TOPICS
+): ComparisonTopic[] => {
+  const topics: Omit<ComparisonTopic, 'id'>[] = [];
+
+  const events = sourceEvents(sources);
+  const byId = new Map(events.map(event => [event.id, event]));
+  const paired = new Set<string>();
+  findConflictingAccounts(events).forEach((others, id) => others.forEach(other => {
+    const key = [id, other.id].sort().join('|');
+    if (paired.has(key)) return;
+    paired.add(key);
+    const event = byId.get(id)!;
+    topics.push({ entityId: null, topic: event.description, statements: [eventStatement(event), eventStatement(other)] });
+  }));
+
+  const entityTopics = entities.flatMap(entity => {
+    const names = [entity.name, ...entity.aliases];
+    const statements = sources.flatMap(source => {
+      const facts = entityFacts(names, source.analysis).slice(0, MAX_STATEMENTS_PER_DOCUMENT);
+      if (facts.length === 0) return [];
+      return [{ documentId: source.documentId, batesNumber: source.batesNumber, facts, excerpts: textExcerpts(source.text, names) }];
+    });
+    return statements.length >= 2 ? [{ entityId: entity.id, topic: entity.name, statements }] : [];
+  });
+  entityTopics.sort((a, b) => b.statements.length - a.statements.length || a.topic.localeCompare(b.topic));
+  topics.push(...entityTopics);
+
+  return topics.slice(0, maxTopics).map((topic, index) => ({ ...topic, id: `T${index + 1}` }));
+};
+
+/** The topics as a prompt section, each document's account headed by its Bates cite. */
+export const describeComparisonTopics = (topics: ComparisonTopic[]): string =>
+  topics.map(topic => {
+    const accounts = topic.statements.map(statement => {
+      const lines = [`${formatBatesCite(statement.batesNumber)}`, ...statement.facts.map(fact => `- ${fact}`)];
+      if (statement.excerpts.length > 0) {
+        lines.push('  Text:', ...statement.excerpts.map(excerpt => `  "${excerpt}"`));
+      }
+      return lines.join('\n');
+    });
+    return `=== ${topic.id}: ${topic.topic} ===\n${accounts.join('\n')}`;
+  }).join('\n\n');
+
+const comparable = (text: string) =>
+  text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+const asQuote = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const quote = value.trim().replace(/^["“]+|["”]+$/g, '').replace(/\s+/g, ' ').trim();
+  return quote ? quote.slice(0, MAX_QUOTE_CHARS) : null;
+};
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/** Most severe first, then in Bates order. */
+export const compareContradictions = (
+  a: Pick<Contradiction, 'severity' | 'statements'>,
+  b: Pick<Contradiction, 'severity' | 'statements'>
+): number =>
+  CONTRADICTION_SEVERITIES.indexOf(a.severity) - CONTRADICTION_SEVERITIES.indexOf(b.severity) ||
+  a.statements[0].batesNumber.localeCompare(b.statements[0].batesNumber);
+
+/** A key for one contradiction that survives re-runs, so reviewers' decisions carry over. */
+export const contradictionKey = (contradiction: Pick<Contradiction, 'statements'>): string =>
+  contradiction.statements
+    .map(statement => `${statement.batesNumber}|${comparable(statement.quote)}`)
+    .sort()
+    .join('||');
+
+/**
+ * Keeps the contradictions the model reports that hold together: a known
+ * topic, two different documents that gave an account of it, and a quote
+ * from each. Quotes found word for word in the document's text are marked
+ * verbatim; the rest are the model's paraphrase and shown as such.
+ */
+export const normalizeContradictions = (
+  value: unknown,
+  topics: ComparisonTopic[],
+  sources: ContradictionSource[]
+): NewContradiction[] => {
+  const items = value && typeof value === 'object' && Array.isArray((value as { contradictions?: unknown }).contradictions)
+    ? (value as { contradictions: unknown[] }).contradictions
+    : [];
+  const topicsById = new Map(topics.map(topic => [topic.id, topic]));
+  const texts = new Map(sources.map(source => [source.batesNumber, source.text ? comparable(source.text) : null]));
+
+  const found = new Map<string, NewContradiction>();
+  items.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Record<string, unknown>;
+    const topic = topicsById.get(asText(raw.topicId));
+    if (!topic) return;
+
+    const side = (value: unknown): ContradictionStatement | null => {
+      if (!value || typeof value !== 'object') return null;
+      const { bates, quote } = value as { bates?: unknown; quote?: unknown };
+      const batesNumber = asText(bates).replace(/^\[|\]$/g, '');
+      const statement = topic.statements.find(candidate => candidate.batesNumber === batesNumber);
+      const text = asQuote(quote);
+      if (!statement || !text) return null;
+      return {
+        documentId: statement.documentId,
+        batesNumber,
+        quote: text,
+        verbatim: Boolean(texts.get(batesNumber)?.includes(comparable(text))),
+      };
+    };
+    const [a, b] = [side(raw.a), side(raw.b)];
+    if (!a || !b || a.documentId === b.documentId) return;
+
+    const contradiction: NewContradiction = {
+      entityId: topic.entityId,
+      topic: asText(raw.topic) || topic.topic,
+      explanation: asText(raw.explanation),
+      severity: isContradictionSeverity(raw.severity) ? raw.severity : 'medium',
+      statements: a.batesNumber <= b.batesNumber ? [a, b] : [b, a],
+    };
+    const key = contradictionKey(contradiction);
+    if (!found.has(key)) found.set(key, contradiction);
+  });
+
+  return Array.from(found.values()).sort(compareContradictions);
+};
+
+/** One contradiction as a paragraph for a memo, quotes cited by Bates number. */
+export const formatContradiction = (contradiction: Pick<Contradiction, 'topic' | 'explanation' | 'statements'>): string => {
+  const [a, b] = contradiction.statements;
+  const quoted = (statement: ContradictionStatement) =>
+    `${statement.verbatim ? `"${statement.quote}"` : `(paraphrased) ${statement.quote}`} ${formatBatesCite(statement.batesNumber)}`;
+  const explanation = contradiction.explanation ? `\n${contradiction.explanation}` : '';
+  return `${contradiction.topic}\n${quoted(a)}\nbut\n${quoted(b)}${explanation}`;
+};
@@ -0,0 +1,255 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import {
+  buildComparisonTopics,
+  compareContradictions,
+  contradictionKey,
+  describeComparisonTopics,
+  isContradictionSeverity,
+  normalizeContradictions,
+  type ContradictionSource,
+  type NewContradiction,
+} from './contradictions';
+import { findContradictionsServer } from './openAIService';
+import type { AnalysisData, Contradiction, ContradictionReport, ContradictionReportStatus, ContradictionStatus } from './types';
+
+type ReportRow = Database['public']['Tables']['contradiction_reports']['Row'];
+type ContradictionRow = Database['public']['Tables']['contradictions']['Row'];
+
+// Topics sent to the model per request, to keep each prompt a manageable size
+const TOPICS_PER_REQUEST = 8;
+
+const CONTRADICTION_STATUSES: ContradictionStatus[] = ['open', 'confirmed', 'dismissed'];
+
+export const isContradictionStatus = (value: unknown): value is ContradictionStatus =>
+  typeof value === 'string' && (CONTRADICTION_STATUSES as string[]).includes(value);
+
+const toContradiction = (row: ContradictionRow): Contradiction => ({
+  id: row.id,
+  entityId: row.entity_id,
+  topic: row.topic,
+  explanation: row.explanation,
+  severity: isContradictionSeverity(row.severity) ? row.severity : 'medium',
+  status: isContradictionStatus(row.status) ? row.status : 'open',
+  statements: [
+    { documentId: row.document_a_id, batesNumber: row.bates_a, quote: row.quote_a, verbatim: row.quote_a_verbatim },
+    { documentId: row.document_b_id, batesNumber: row.bates_b, quote: row.quote_b, verbatim: row.quote_b_verbatim },
+  ],
+});
+
+const toReport = (row: ReportRow, contradictions: Contradiction[]): ContradictionReport => ({
+  id: row.id,
+  status: row.status as ContradictionReportStatus,
+  documentCount: row.document_count,
+  topicCount: row.topic_count,
+  error: row.error,
+  createdAt: row.created_at,
+  completedAt: row.completed_at,
+  contradictions,
+});
+
+const asAnalysis = (value: Json | null): AnalysisData | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as AnalysisData) : null;
+
+/** Queue a contradiction analysis for the project unless one is already waiting. */
+export async function queueContradictionAnalysis(supabase: SupabaseClient<Database>, projectId: string): Promise<boolean> {
+  const { data: pending, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('job_type', 'contradictions')
+    .eq('status', 'pending')
+    .limit(1);
+  if (error) throw new Error(`Failed to check contradiction jobs: ${error.message}`);
+  if (pending && pending.length > 0) return false;
+
+  const { error: insertError } = await supabase.from('job_queue').insert({
+    project_id: projectId,
+    document_id: null,
+    job_type: 'contradictions',
+    priority: 0,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 3,
+  });
+  if (insertError) throw new Error(`Failed to queue contradiction job: ${insertError.message}`);
+  return true;
+}
+
+/** Whether a contradiction analysis is waiting or running for the project. */
+export async function isContradictionAnalysisQueued(supabase: SupabaseClient<Database>, projectId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('job_type', 'contradictions')
+    .in('status', ['pending', 'processing'])
+    .limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Reviewer decisions from the last completed report, by contradiction key. */
+const previousDecisions = async (supabase: SupabaseClient<Database>, projectId: string): Promise<Map<string, ContradictionStatus>> => {
+  const { data: reports, error } = await supabase
+    .from('contradiction_reports')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('status', 'complete')
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  if (!reports?.[0]) return new Map();
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('contradictions')
+    .select('*')
+    .eq('report_id', reports[0].id)
+    .neq('status', 'open');
+  if (rowsError) throw rowsError;
+  return new Map((rows || []).map(row => {
+    const contradiction = toContradiction(row);
+    return [contradictionKey(contradiction), contradiction.status];
+  }));
+};
+
+/**
+ * Compares what the project's analyzed documents say about each shared entity
+ * and event, and records the contradictions the model finds as a new report.
+ * Decisions reviewers made on the previous report carry over. A failure is
+ * recorded on the report before it is rethrown.
+ */
+export async function runContradictionAnalysis(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  options: { jobId?: string; casePerspective?: string; onProgress?: (progress: number, message: string) => void } = {}
+): Promise<{ reportId: string; topics: number; contradictions: number }> {
+  const { data: report, error: reportError } = await supabase
+    .from('contradiction_reports')
+    .insert({ project_id: projectId, job_id: options.jobId ?? null, status: 'running' })
+    .select('id')
+    .single();
+  if (reportError) throw new Error(`Failed to create contradiction report: ${reportError.message}`);
+
+  try {
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('id, name, bates_formatted, analysis, extracted_text')
+      .eq('project_id', projectId)
+      .not('analysis', 'is', null);
+    if (documentsError) throw documentsError;
+
+    const sources: ContradictionSource[] = (documents || []).map(doc => {
+      const analysis = asAnalysis(doc.analysis);
+      return {
+        documentId: doc.id,
+        name: doc.name,
+        batesNumber: doc.bates_formatted || doc.name,
+        analysis,
+        text: doc.extracted_text || analysis?.transcription || null,
+      };
+    });
+
+    const { data: entities, error: entitiesError } = await supabase
+      .from('entities')
+      .select('id, name, aliases')
+      .eq('project_id', projectId);
+    if (entitiesError) throw entitiesError;
+
+    const topics = buildComparisonTopics(sources, (entities || []).map(entity => ({ ...entity, aliases: entity.aliases || [] })));
+    options.onProgress?.(10, `Comparing ${topics.length} topics across ${sources.length} documents`);
+
+    const found: NewContradiction[] = [];
+    for (let start = 0; start < topics.length; start += TOPICS_PER_REQUEST) {
+      const batch = topics.slice(start, start + TOPICS_PER_REQUEST);
+      const response = await findContradictionsServer(describeComparisonTopics(batch), options.casePerspective);
+      found.push(...normalizeContradictions(response, batch, sources));
+      options.onProgress?.(10 + Math.round(((start + batch.length) / topics.length) * 80), `Compared ${start + batch.length} of ${topics.length} topics`);
+    }
+
+    const decisions = await previousDecisions(supabase, projectId);
+    if (found.length > 0) {
+      const { error: insertError } = await supabase.from('contradictions').insert(found.map(contradiction => {
+        const [a, b] = contradiction.statements;
+        return {
+          report_id: report.id,
+          project_id: projectId,
+          entity_id: contradiction.entityId,
+          topic: contradiction.topic,
+          explanation: contradiction.explanation,
+          severity: contradiction.severity,
+          status: decisions.get(contradictionKey(contradiction)) ?? 'open',
+          document_a_id: a.documentId,
+          bates_a: a.batesNumber,
+          quote_a: a.quote,
+          quote_a_verbatim: a.verbatim,
+          document_b_id: b.documentId,
+          bates_b: b.batesNumber,
+          quote_b: b.quote,
+          quote_b_verbatim: b.verbatim,
+        };
+      }));
+      if (insertError) throw insertError;
+    }
+
+    const { error: completeError } = await supabase
+      .from('contradiction_reports')
+      .update({ status: 'complete', document_count: sources.length, topic_count: topics.length, completed_at: new Date().toISOString() })
+      .eq('id', report.id);
+    if (completeError) throw completeError;
+
+    return { reportId: report.id, topics: topics.length, contradictions: found.length };
+  } catch (error) {
+    await supabase
+      .from('contradiction_reports')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : String(error), completed_at: new Date().toISOString() })
+      .eq('id', report.id);
+    throw error;
+  }
+}
+
+/** The project's most recent report with its findings, or null if it has never been run. */
+export async function getLatestContradictionReport(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<ContradictionReport | null> {
+  const { data: reports, error } = await supabase
+    .from('contradiction_reports')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  const report = reports?.[0];
+  if (!report) return null;
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('contradictions')
+    .select('*')
+    .eq('report_id', report.id);
+  if (rowsError) throw rowsError;
+  return toReport(report, (rows || []).map(toContradiction).sort(compareContradictions));
+}
+
+/** Records a reviewer's decision on a finding. Null when it is not in the project. */
+export async function reviewContradiction(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  contradictionId: string,
+  status: ContradictionStatus,
+  reviewerId: string
+): Promise<Contradiction | null> {
+  const { data, error } = await supabase
+    .from('contradictions')
+    .update({
+      status,
+      reviewed_by: status === 'open' ? null : reviewerId,
+      reviewed_at: status === 'open' ? null : new Date().toISOString(),
+    })
+    .eq('project_id', projectId)
+    .eq('id', contradictionId)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toContradiction(data) : null;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { csvEscape } from './csv';
+
+describe('csvEscape', () => {
+  it('quotes fields with quotes, commas and line breaks', () => {
+    expect(csvEscape('plain')).toBe('plain');
+    expect(csvEscape('Smith, Pat')).toBe('"Smith, Pat"');
+    expect(csvEscape('say "hi"')).toBe('"say ""hi"""');
+    expect(csvEscape('one\r\ntwo')).toBe('"one\r\ntwo"');
+    expect(csvEscape(null)).toBe('');
+    expect(csvEscape(12)).toBe('12');
+  });
+
+  it('opens text that looks like a formula as text', () => {
+    expect(csvEscape('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(csvEscape('+1 555 0100')).toBe("'+1 555 0100");
+    expect(csvEscape('-2+3')).toBe("'-2+3");
+    expect(csvEscape('@cmd')).toBe("'@cmd");
+    expect(csvEscape('=HYPERLINK("x","y")')).toBe(`"'=HYPERLINK(""x"",""y"")"`);
+  });
+});
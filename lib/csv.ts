@@ -0,0 +1,16 @@
+import type { CellValue } from './ooxml';
+
+// Spreadsheet apps run a cell that starts with one of these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV field. Text that a spreadsheet would take for a formula is prefixed
+ * with an apostrophe so it opens as text, and fields holding quotes, commas or
+ * line breaks are quoted. Numbers are written as they are.
+ */
+export const csvEscape = (value: CellValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
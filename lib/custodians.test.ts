@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectedFileInfo,
+  documentCollectionInfo,
+  findCustodianByName,
+  isCustodianKind,
+  loadFileCustodian,
+  normalizeCustodianName,
+} from './custodians';
+
+describe('normalizeCustodianName', () => {
+  it('trims and collapses whitespace, and rejects blanks', () => {
+    expect(normalizeCustodianName('  Smith,   Jane ')).toBe('Smith, Jane');
+    expect(normalizeCustodianName('   ')).toBeNull();
+    expect(normalizeCustodianName(42)).toBeNull();
+  });
+
+  it('accepts only known kinds', () => {
+    expect(isCustodianKind('source')).toBe(true);
+    expect(isCustodianKind('department')).toBe(false);
+  });
+});
+
+describe('findCustodianByName', () => {
+  it('matches names ignoring case and spacing', () => {
+    const custodians = [{ id: 'c1', name: 'Smith, Jane' }, { id: 'c2', name: 'Finance share' }];
+    expect(findCustodianByName(custodians, 'smith,  jane')?.id).toBe('c1');
+    expect(findCustodianByName(custodians, 'Jones')).toBeUndefined();
+  });
+});
+
+describe('loadFileCustodian', () => {
+  it('reads a CUSTODIAN column in any capitalization', () => {
+    expect(loadFileCustodian({ BEGDOC: 'ABC-0001', Custodian: ' Smith, Jane ' })).toBe('Smith, Jane');
+    expect(loadFileCustodian({ CUSTODIAN: '' })).toBeNull();
+    expect(loadFileCustodian({ Author: 'Smith' })).toBeNull();
+  });
+});
+
+describe('collectedFileInfo', () => {
+  it('keeps the path inside the chosen folder and the modified time', () => {
+    const modified = Date.UTC(2019, 4, 2, 13, 45);
+    expect(collectedFileInfo({ name: 'memo.pdf', webkitRelativePath: 'Inbox\\2019/memo.pdf', lastModified: modified })).toEqual({
+      originalPath: 'Inbox/2019/memo.pdf',
+      fileModifiedAt: '2019-05-02T13:45:00.000Z',
+    });
+  });
+
+  it('has no path for files picked on their own', () => {
+    expect(collectedFileInfo({ name: 'memo.pdf', webkitRelativePath: '', lastModified: 0 })).toEqual({
+      originalPath: null,
+      fileModifiedAt: null,
+    });
+  });
+
+  it('reads the stored values back from document metadata', () => {
+    expect(documentCollectionInfo({ originalPath: 'Inbox/memo.pdf', fileModifiedAt: '2019-05-02T13:45:00.000Z', source: 'upload' })).toEqual({
+      originalPath: 'Inbox/memo.pdf',
+      fileModifiedAt: '2019-05-02T13:45:00.000Z',
+    });
+    expect(documentCollectionInfo(null)).toEqual({ originalPath: null, fileModifiedAt: null });
+  });
+});
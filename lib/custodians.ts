@@ -0,0 +1,63 @@
+import type { Json } from './database.types';
+import type { Custodian, CustodianKind } from './types';
+
+export const CUSTODIAN_KINDS: CustodianKind[] = ['person', 'source'];
+
+export const CUSTODIAN_KIND_LABELS: Record<CustodianKind, string> = {
+  person: 'Person',
+  source: 'Source',
+};
+
+export const MAX_CUSTODIAN_NAME_LENGTH = 200;
+
+export const isCustodianKind = (value: unknown): value is CustodianKind =>
+  typeof value === 'string' && (CUSTODIAN_KINDS as string[]).includes(value);
+
+/** Custodian names are trimmed with inner whitespace collapsed; the database compares them case-insensitively. */
+export const normalizeCustodianName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name ? name.slice(0, MAX_CUSTODIAN_NAME_LENGTH) : null;
+};
+
+/** The custodian whose name matches, ignoring case. */
+export const findCustodianByName = <T extends Pick<Custodian, 'name'>>(custodians: T[], name: string): T | undefined => {
+  const wanted = normalizeCustodianName(name)?.toLowerCase();
+  return wanted ? custodians.find(custodian => custodian.name.toLowerCase() === wanted) : undefined;
+};
+
+/** The CUSTODIAN column of an imported load file (any capitalization), if present. */
+export const loadFileCustodian = (fields: Record<string, unknown>): string | null => {
+  const entry = Object.entries(fields).find(([key, value]) => /^custodian$/i.test(key) && normalizeCustodianName(value));
+  return entry ? normalizeCustodianName(entry[1]) : null;
+};
+
+// --- Collection metadata ---
+
+export interface CollectedFileInfo {
+  originalPath: string | null;
+  fileModifiedAt: string | null;
+}
+
+/**
+ * Where a file sat in the folder it was collected from and when it was last
+ * modified there. Browsers give the path relative to the chosen folder
+ * (webkitRelativePath) only for folder uploads; single files have none.
+ */
+export const collectedFileInfo = (file: { name: string; webkitRelativePath?: string; lastModified?: number }): CollectedFileInfo => {
+  const path = file.webkitRelativePath?.replace(/\\/g, '/').replace(/^\/+/, '');
+  const modified = file.lastModified ? new Date(file.lastModified) : null;
+  return {
+    originalPath: path || null,
+    fileModifiedAt: modified && !isNaN(modified.getTime()) ? modified.toISOString() : null,
+  };
+};
+
+/** Collection metadata stored on a document at upload. */
+export const documentCollectionInfo = (metadata: Json | null): CollectedFileInfo => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return { originalPath: null, fileModifiedAt: null };
+  return {
+    originalPath: typeof metadata.originalPath === 'string' ? metadata.originalPath : null,
+    fileModifiedAt: typeof metadata.fileModifiedAt === 'string' ? metadata.fileModifiedAt : null,
+  };
+};
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import type { Custodian, CustodianKind } from './types';
+
+type CustodianRow = Database['public']['Tables']['custodians']['Row'];
+
+export interface NewCustodian {
+  name: string;
+  kind: CustodianKind;
+  email?: string | null;
+  description?: string | null;
+}
+
+const toCustodian = (row: CustodianRow, documentCount = 0): Custodian => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind as CustodianKind,
+  email: row.email,
+  description: row.description,
+  documentCount,
+  createdAt: row.created_at,
+});
+
+/** The project's custodians by name, each with the number of documents collected from them. */
+export async function listCustodians(supabase: SupabaseClient<Database>, projectId: string): Promise<Custodian[]> {
+  const { data: rows, error } = await supabase
+    .from('custodians')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('custodian_id')
+    .eq('project_id', projectId)
+    .not('custodian_id', 'is', null);
+  if (documentsError) throw documentsError;
+
+  const counts = new Map<string, number>();
+  (documents || []).forEach(doc => counts.set(doc.custodian_id!, (counts.get(doc.custodian_id!) ?? 0) + 1));
+  return (rows || []).map(row => toCustodian(row, counts.get(row.id) ?? 0));
+}
+
+/** Custodian names by id, for labelling documents by their custodian_id. */
+export async function loadCustodianNames(supabase: SupabaseClient<Database>, projectId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('custodians')
+    .select('id, name')
+    .eq('project_id', projectId);
+  if (error) throw error;
+  return new Map((data || []).map(custodian => [custodian.id, custodian.name]));
+}
+
+/** A custodian of this project, or null when the id belongs to none. */
+export async function getCustodian(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  custodianId: string
+): Promise<Custodian | null> {
+  const { data, error } = await supabase
+    .from('custodians')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('id', custodianId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toCustodian(data) : null;
+}
+
+export async function createCustodian(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  custodian: NewCustodian
+): Promise<{ custodian: Custodian } | { conflict: string }> {
+  const { data, error } = await supabase
+    .from('custodians')
+    .insert({
+      project_id: projectId,
+      name: custodian.name,
+      kind: custodian.kind,
+      email: custodian.email ?? null,
+      description: custodian.description ?? null,
+    })
+    .select('*')
+    .single();
+  if (error) {
+    if (error.code === '23505') return { conflict: `A custodian named ${custodian.name} already exists` };
+    throw error;
+  }
+  return { custodian: toCustodian(data) };
+}
+
+/**
+ * The custodian with this name (ignoring case), created when the project has
+ * none yet. `created` tells callers whether to record the addition.
+ */
+export async function findOrCreateCustodian(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  name: string,
+  kind: CustodianKind = 'person'
+): Promise<{ custodian: Custodian; created: boolean }> {
+  const existing = await findCustodianNamed(supabase, projectId, name);
+  if (existing) return { custodian: existing, created: false };
+
+  const result = await createCustodian(supabase, projectId, { name, kind });
+  if ('custodian' in result) return { custodian: result.custodian, created: true };
+
+  // Someone else added it between the lookup and the insert
+  const raced = await findCustodianNamed(supabase, projectId, name);
+  if (!raced) throw new Error(result.conflict);
+  return { custodian: raced, created: false };
+}
+
+async function findCustodianNamed(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  name: string
+): Promise<Custodian | null> {
+  // ilike with wildcards escaped is a case-insensitive equality test
+  const { data, error } = await supabase
+    .from('custodians')
+    .select('*')
+    .eq('project_id', projectId)
+    .ilike('name', name.replace(/[\\%_]/g, match => `\\${match}`))
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ? toCustodian(data[0]) : null;
+}
@@ -29,6 +29,31 @@ export type Database = {
           bates_number: string | null;
           bates_prefix: string | null;
           bates_formatted: string | null;
+          bates_end_number: number | null;
+          bates_family_end_number: number | null;
+          bates_end_formatted: string | null;
+          page_count: number | null;
+          producing_party: string | null;
+          producing_bates_begin: string | null;
+          producing_bates_end: string | null;
+          metadata: Json | null;
+          parent_document_id: string | null;
+          duplicate_group_id: string | null;
+          duplicate_similarity: number | null;
+          minhash_signature: number[] | null;
+          minhash_bands: string[] | null;
+          analysis_suppressed: boolean;
+          email_thread_id: string | null;
+          thread_parent_id: string | null;
+          is_inclusive: boolean | null;
+          privilege_status: string | null;
+          privilege_bases: string[];
+          privilege_description: string | null;
+          privilege_reviewed_at: string | null;
+          page_geometry: Json | null;
+          deposition: Json | null;
+          transcript: Json | null;
+          thumbnails: Json | null;
           mime_type: string | null;
           storage_path: string | null;
           summary: string | null;
@@ -42,8 +67,10 @@ export type Database = {
           text_chunks: Json | null;
           processing_progress: number;
           content_hash: string | null;
+          custodian_id: string | null;
           analysis: Json | null;
           error_message: string | null;
+          search_vector: unknown | null;
           created_at: string;
           updated_at: string;
         };
@@ -59,6 +86,31 @@ export type Database = {
           bates_number?: string | null;
           bates_prefix?: string | null;
           bates_formatted?: string | null;
+          bates_end_number?: number | null;
+          bates_family_end_number?: number | null;
+          bates_end_formatted?: string | null;
+          page_count?: number | null;
+          producing_party?: string | null;
+          producing_bates_begin?: string | null;
+          producing_bates_end?: string | null;
+          metadata?: Json | null;
+          parent_document_id?: string | null;
+          duplicate_group_id?: string | null;
+          duplicate_similarity?: number | null;
+          minhash_signature?: number[] | null;
+          minhash_bands?: string[] | null;
+          analysis_suppressed?: boolean;
+          email_thread_id?: string | null;
+          thread_parent_id?: string | null;
+          is_inclusive?: boolean | null;
+          privilege_status?: string | null;
+          privilege_bases?: string[];
+          privilege_description?: string | null;
+          privilege_reviewed_at?: string | null;
+          page_geometry?: Json | null;
+          deposition?: Json | null;
+          transcript?: Json | null;
+          thumbnails?: Json | null;
           mime_type?: string | null;
           storage_path?: string | null;
           summary?: string | null;
@@ -72,6 +124,7 @@ export type Database = {
           text_chunks?: Json | null;
           processing_progress?: number;
           content_hash?: string | null;
+          custodian_id?: string | null;
           analysis?: Json | null;
           error_message?: string | null;
           created_at?: string;
@@ -89,6 +142,31 @@ export type Database = {
           bates_number?: string | null;
           bates_prefix?: string | null;
           bates_formatted?: string | null;
+          bates_end_number?: number | null;
+          bates_family_end_number?: number | null;
+          bates_end_formatted?: string | null;
+          page_count?: number | null;
+          producing_party?: string | null;
+          producing_bates_begin?: string | null;
+          producing_bates_end?: string | null;
+          metadata?: Json | null;
+          parent_document_id?: string | null;
+          duplicate_group_id?: string | null;
+          duplicate_similarity?: number | null;
+          minhash_signature?: number[] | null;
+          minhash_bands?: string[] | null;
+          analysis_suppressed?: boolean;
+          email_thread_id?: string | null;
+          thread_parent_id?: string | null;
+          is_inclusive?: boolean | null;
+          privilege_status?: string | null;
+          privilege_bases?: string[];
+          privilege_description?: string | null;
+          privilege_reviewed_at?: string | null;
+          page_geometry?: Json | null;
+          deposition?: Json | null;
+          transcript?: Json | null;
+          thumbnails?: Json | null;
           mime_type?: string | null;
           storage_path?: string | null;
           summary?: string | null;
@@ -102,12 +180,41 @@ export type Database = {
           text_chunks?: Json | null;
           processing_progress?: number;
           content_hash?: string | null;
+          custodian_id?: string | null;
           analysis?: Json | null;
           error_message?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
+          {
+            columns: ['parent_document_id'];
+            foreignKeyName: 'documents_parent_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['duplicate_group_id'];
+            foreignKeyName: 'documents_duplicate_group_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'duplicate_groups';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['email_thread_id'];
+            foreignKeyName: 'documents_email_thread_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'email_threads';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['custodian_id'];
+            foreignKeyName: 'documents_custodian_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'custodians';
+            relationType: 'many-to-one';
+          },
           {
             columns: ['case_id'];
             foreignKeyName: 'documents_case_id_fkey';
@@ -184,6 +291,792 @@ export type Database = {
           }
         ];
       };
+      document_embeddings: {
+        Row: {
+          id: string;
+          project_id: string | null;
+          document_id: string;
+          chunk_index: number;
+          char_start: number | null;
+          char_end: number | null;
+          content: string;
+          model: string;
+          embedding: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id?: string | null;
+          document_id: string;
+          chunk_index: number;
+          char_start?: number | null;
+          char_end?: number | null;
+          content: string;
+          model: string;
+          embedding: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string | null;
+          document_id?: string;
+          chunk_index?: number;
+          char_start?: number | null;
+          char_end?: number | null;
+          content?: string;
+          model?: string;
+          embedding?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'document_embeddings_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      duplicate_groups: {
+        Row: {
+          id: string;
+          project_id: string;
+          kind: 'exact' | 'near';
+          master_document_id: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          kind: 'exact' | 'near';
+          master_document_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          kind?: 'exact' | 'near';
+          master_document_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['master_document_id'];
+            foreignKeyName: 'duplicate_groups_master_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      email_threads: {
+        Row: {
+          id: string;
+          project_id: string;
+          thread_key: string;
+          subject: string | null;
+          root_document_id: string | null;
+          message_count: number;
+          inclusive_count: number;
+          first_date: string | null;
+          last_date: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          thread_key: string;
+          subject?: string | null;
+          root_document_id?: string | null;
+          message_count?: number;
+          inclusive_count?: number;
+          first_date?: string | null;
+          last_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          thread_key?: string;
+          subject?: string | null;
+          root_document_id?: string | null;
+          message_count?: number;
+          inclusive_count?: number;
+          first_date?: string | null;
+          last_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['root_document_id'];
+            foreignKeyName: 'email_threads_root_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      redactions: {
+        Row: {
+          id: string;
+          project_id: string;
+          document_id: string;
+          page: number | null;
+          x: number | null;
+          y: number | null;
+          width: number | null;
+          height: number | null;
+          text_start: number | null;
+          text_end: number | null;
+          reason_code: string;
+          source: string;
+          status: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          document_id: string;
+          page?: number | null;
+          x?: number | null;
+          y?: number | null;
+          width?: number | null;
+          height?: number | null;
+          text_start?: number | null;
+          text_end?: number | null;
+          reason_code: string;
+          source?: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          document_id?: string;
+          page?: number | null;
+          x?: number | null;
+          y?: number | null;
+          width?: number | null;
+          height?: number | null;
+          text_start?: number | null;
+          text_end?: number | null;
+          reason_code?: string;
+          source?: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'redactions_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      coding_layouts: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          fields: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name?: string;
+          fields?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          fields?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'coding_layouts_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'one-to-one';
+          }
+        ];
+      };
+      document_codings: {
+        Row: {
+          id: string;
+          project_id: string;
+          document_id: string;
+          values: Json;
+          coded_at: string;
+          coded_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          document_id: string;
+          values?: Json;
+          coded_at?: string;
+          coded_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          document_id?: string;
+          values?: Json;
+          coded_at?: string;
+          coded_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'document_codings_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'one-to-one';
+          }
+        ];
+      };
+      custodians: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          kind: string;
+          email: string | null;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          kind?: string;
+          email?: string | null;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          kind?: string;
+          email?: string | null;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'custodians_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      entities: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          entity_type: string;
+          aliases: string[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          entity_type?: string;
+          aliases?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          entity_type?: string;
+          aliases?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'entities_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      entity_mentions: {
+        Row: {
+          id: string;
+          project_id: string;
+          entity_id: string;
+          document_id: string;
+          mention: string;
+          context: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          entity_id: string;
+          document_id: string;
+          mention: string;
+          context?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          entity_id?: string;
+          document_id?: string;
+          mention?: string;
+          context?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'entity_mentions_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['entity_id'];
+            foreignKeyName: 'entity_mentions_entity_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'entities';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'entity_mentions_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      entity_merge_dismissals: {
+        Row: {
+          project_id: string;
+          entity_id: string;
+          other_entity_id: string;
+          dismissed_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          project_id: string;
+          entity_id: string;
+          other_entity_id: string;
+          dismissed_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          entity_id?: string;
+          other_entity_id?: string;
+          dismissed_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'entity_merge_dismissals_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      contradiction_reports: {
+        Row: {
+          id: string;
+          project_id: string;
+          job_id: string | null;
+          status: string;
+          document_count: number;
+          topic_count: number;
+          error: string | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          job_id?: string | null;
+          status?: string;
+          document_count?: number;
+          topic_count?: number;
+          error?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          job_id?: string | null;
+          status?: string;
+          document_count?: number;
+          topic_count?: number;
+          error?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'contradiction_reports_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      contradictions: {
+        Row: {
+          id: string;
+          report_id: string;
+          project_id: string;
+          entity_id: string | null;
+          topic: string;
+          explanation: string;
+          severity: string;
+          status: string;
+          document_a_id: string;
+          bates_a: string;
+          quote_a: string;
+          quote_a_verbatim: boolean;
+          document_b_id: string;
+          bates_b: string;
+          quote_b: string;
+          quote_b_verbatim: boolean;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          report_id: string;
+          project_id: string;
+          entity_id?: string | null;
+          topic: string;
+          explanation?: string;
+          severity?: string;
+          status?: string;
+          document_a_id: string;
+          bates_a: string;
+          quote_a: string;
+          quote_a_verbatim?: boolean;
+          document_b_id: string;
+          bates_b: string;
+          quote_b: string;
+          quote_b_verbatim?: boolean;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          report_id?: string;
+          project_id?: string;
+          entity_id?: string | null;
+          topic?: string;
+          explanation?: string;
+          severity?: string;
+          status?: string;
+          document_a_id?: string;
+          bates_a?: string;
+          quote_a?: string;
+          quote_a_verbatim?: boolean;
+          document_b_id?: string;
+          bates_b?: string;
+          quote_b?: string;
+          quote_b_verbatim?: boolean;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['report_id'];
+            foreignKeyName: 'contradictions_report_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'contradiction_reports';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      transcript_speakers: {
+        Row: {
+          id: string;
+          project_id: string;
+          document_id: string;
+          label: string;
+          entity_id: string | null;
+          name: string;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          document_id: string;
+          label: string;
+          entity_id?: string | null;
+          name: string;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          document_id?: string;
+          label?: string;
+          entity_id?: string | null;
+          name?: string;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'transcript_speakers_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      media_clips: {
+        Row: {
+          id: string;
+          project_id: string;
+          source_document_id: string;
+          document_id: string;
+          start_ms: number;
+          end_ms: number;
+          burn_bates: boolean;
+          burn_timestamp: boolean;
+          burn_subtitles: boolean;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          source_document_id: string;
+          document_id: string;
+          start_ms: number;
+          end_ms: number;
+          burn_bates?: boolean;
+          burn_timestamp?: boolean;
+          burn_subtitles?: boolean;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          source_document_id?: string;
+          document_id?: string;
+          start_ms?: number;
+          end_ms?: number;
+          burn_bates?: boolean;
+          burn_timestamp?: boolean;
+          burn_subtitles?: boolean;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['source_document_id'];
+            foreignKeyName: 'media_clips_source_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'media_clips_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      review_batches: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          criteria: Json;
+          assignee: string | null;
+          checked_out_by: string | null;
+          checked_out_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          criteria?: Json;
+          assignee?: string | null;
+          checked_out_by?: string | null;
+          checked_out_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          criteria?: Json;
+          assignee?: string | null;
+          checked_out_by?: string | null;
+          checked_out_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'review_batches_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
+      review_batch_documents: {
+        Row: {
+          batch_id: string;
+          document_id: string;
+          position: number;
+        };
+        Insert: {
+          batch_id: string;
+          document_id: string;
+          position: number;
+        };
+        Update: {
+          batch_id?: string;
+          document_id?: string;
+          position?: number;
+        };
+        Relationships: [
+          {
+            columns: ['batch_id'];
+            foreignKeyName: 'review_batch_documents_batch_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'review_batches';
+            relationType: 'many-to-one';
+          },
+          {
+            columns: ['document_id'];
+            foreignKeyName: 'review_batch_documents_document_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'documents';
+            relationType: 'one-to-one';
+          }
+        ];
+      };
+      audit_log: {
+        Row: {
+          id: string;
+          project_id: string | null;
+          sequence: number;
+          actor_id: string;
+          actor_email: string;
+          action: string;
+          document_id: string | null;
+          bates_number: string | null;
+          hash_before: string | null;
+          hash_after: string | null;
+          ip_address: string | null;
+          details: Json;
+          created_at: string;
+          previous_hash: string;
+          entry_hash: string;
+        };
+        Insert: {
+          id?: string;
+          project_id?: string | null;
+          sequence: number;
+          actor_id: string;
+          actor_email: string;
+          action: string;
+          document_id?: string | null;
+          bates_number?: string | null;
+          hash_before?: string | null;
+          hash_after?: string | null;
+          ip_address?: string | null;
+          details?: Json;
+          created_at?: string;
+          previous_hash: string;
+          entry_hash: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string | null;
+          sequence?: number;
+          actor_id?: string;
+          actor_email?: string;
+          action?: string;
+          document_id?: string | null;
+          bates_number?: string | null;
+          hash_before?: string | null;
+          hash_after?: string | null;
+          ip_address?: string | null;
+          details?: Json;
+          created_at?: string;
+          previous_hash?: string;
+          entry_hash?: string;
+        };
+        Relationships: [];
+      };
       projects: {
         Row: {
           id: string;
@@ -191,6 +1084,7 @@ export type Database = {
           description: string | null;
           bates_prefix: string;
           bates_counter: number;
+          created_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -200,6 +1094,7 @@ export type Database = {
           description?: string | null;
           bates_prefix?: string;
           bates_counter?: number;
+          created_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -209,11 +1104,50 @@ export type Database = {
           description?: string | null;
           bates_prefix?: string;
           bates_counter?: number;
+          created_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [];
       };
+      project_members: {
+        Row: {
+          id: string;
+          project_id: string;
+          user_id: string | null;
+          email: string;
+          role: 'owner' | 'attorney' | 'reviewer' | 'read_only';
+          invited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          user_id?: string | null;
+          email: string;
+          role?: 'owner' | 'attorney' | 'reviewer' | 'read_only';
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          user_id?: string | null;
+          email?: string;
+          role?: 'owner' | 'attorney' | 'reviewer' | 'read_only';
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            columns: ['project_id'];
+            foreignKeyName: 'project_members_project_id_fkey';
+            referencedColumns: ['id'];
+            referencedRelation: 'projects';
+            relationType: 'many-to-one';
+          }
+        ];
+      };
       cases: {
         Row: {
           id: string;
@@ -270,12 +1204,100 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      adopt_unowned_projects: {
+        Args: {
+          p_email: string;
+        };
+        Returns: number;
+      };
+      append_audit_entry: {
+        Args: {
+          p_project_id: string | null;
+          p_action: string;
+          p_document_id?: string | null;
+          p_bates_number?: string | null;
+          p_hash_before?: string | null;
+          p_hash_after?: string | null;
+          p_ip_address?: string | null;
+          p_details?: Json;
+        };
+        Returns: {
+          id: string;
+          project_id: string | null;
+          sequence: number;
+          actor_id: string;
+          actor_email: string;
+          action: string;
+          document_id: string | null;
+          bates_number: string | null;
+          hash_before: string | null;
+          hash_after: string | null;
+          ip_address: string | null;
+          details: Json;
+          created_at: string;
+          previous_hash: string;
+          entry_hash: string;
+        };
+      };
+      allocate_bates_numbers: {
+        Args: {
+          p_project_id: string;
+          p_count: number;
+        };
+        Returns: number;
+      };
+      claim_project_invitations: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
       cleanup_old_jobs: {
         Args: {
           days_to_keep?: number;
         };
         Returns: void;
       };
+      is_project_member: {
+        Args: {
+          p_project_id: string;
+          p_roles?: string[];
+        };
+        Returns: boolean;
+      };
+      match_document_chunks: {
+        Args: {
+          p_project_id: string;
+          p_query_embedding: string;
+          p_model: string;
+          p_match_count?: number;
+        };
+        Returns: {
+          document_id: string;
+          name: string;
+          bates_formatted: string | null;
+          chunk_index: number;
+          char_start: number | null;
+          char_end: number | null;
+          content: string;
+          similarity: number;
+        }[];
+      };
+      search_document_chunks: {
+        Args: {
+          p_project_id: string;
+          p_query: string;
+          p_limit?: number;
+        };
+        Returns: {
+          document_id: string;
+          name: string;
+          bates_formatted: string | null;
+          chunk_index: number;
+          char_start: number | null;
+          char_end: number | null;
+          chunk_text: string;
+          rank: number;
+        }[];
+      };
     };
     Enums: {
       case_status: 'active' | 'discovery' | 'pending' | 'review' | 'closed' | 'archived';
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareNormalizedDates,
+  formatDayHeading,
+  formatNormalizedDate,
+  normalizeDate,
+  normalizeTimezone,
+  normalizedDateValue,
+} from './dates';
+
+// Wednesday
+const reference = '2023-03-01';
+
+const dateOf = (text: string, ref: string | null = reference) => normalizeDate(text, { reference: ref })?.date ?? null;
+
+describe('normalizeDate', () => {
+  it('reads absolute dates in the common written forms', () => {
+    expect(normalizeDate('March 2, 2023')).toEqual({ date: '2023-03-02', precision: 'day', timezone: null, approximate: false });
+    expect(dateOf('Thursday, Mar. 2nd 2023', null)).toBe('2023-03-02');
+    expect(dateOf('2 May 2019', null)).toBe('2019-05-02');
+    expect(dateOf('3/2/23', null)).toBe('2023-03-02');
+    expect(dateOf('25/12/2022', null)).toBe('2022-12-25');
+    expect(dateOf('2023-03-02', null)).toBe('2023-03-02');
+  });
+
+  it('keeps the precision the document gave', () => {
+    expect(normalizeDate('March 2023')).toMatchObject({ date: '2023-03', precision: 'month', approximate: false });
+    expect(normalizeDate('mid-March 2023')).toMatchObject({ date: '2023-03', precision: 'month', approximate: true });
+    expect(normalizeDate('in 2021')).toMatchObject({ date: '2021', precision: 'year' });
+    expect(normalizeDate('on or about June 1, 2021')).toMatchObject({ date: '2021-06-01', approximate: true });
+  });
+
+  it('reads times and the zones they were stated in', () => {
+    expect(normalizeDate('2023-03-02T14:30:00Z')).toEqual({ date: '2023-03-02T14:30', precision: 'minute', timezone: '+00:00', approximate: false });
+    expect(normalizeDate('March 2, 2023 at 2:30 p.m. EST')).toMatchObject({ date: '2023-03-02T14:30', timezone: '-05:00' });
+    expect(normalizeDate('Tue, 2 May 2019 09:15:00 -0400')).toMatchObject({ date: '2019-05-02T09:15', timezone: '-04:00' });
+    expect(normalizeDate('3/2/2023 at noon', { timezone: 'America/Chicago' })).toMatchObject({
+      date: '2023-03-02T12:00',
+      timezone: 'America/Chicago',
+    });
+  });
+
+  it('counts relative weekdays from the document date', () => {
+    expect(dateOf('the following Tuesday')).toBe('2023-03-07');
+    expect(dateOf('next Wednesday')).toBe('2023-03-08');
+    expect(dateOf('last Friday')).toBe('2023-02-24');
+    expect(normalizeDate('on Tuesday', { reference })).toMatchObject({ date: '2023-02-28', approximate: true });
+    expect(normalizeDate('the following Tuesday at 9 am PT', { reference })).toMatchObject({
+      date: '2023-03-07T09:00',
+      timezone: 'America/Los_Angeles',
+    });
+  });
+
+  it('counts day and period offsets from the document date', () => {
+    expect(dateOf('yesterday')).toBe('2023-02-28');
+    expect(dateOf('the next day')).toBe('2023-03-02');
+    expect(dateOf('two days later')).toBe('2023-03-03');
+    expect(dateOf('a week later')).toBe('2023-03-08');
+    expect(dateOf('three weeks ago')).toBe('2023-02-08');
+    expect(normalizeDate('the following month', { reference })).toMatchObject({ date: '2023-04', precision: 'month' });
+    expect(dateOf('yesterday', 'Tue, 2 May 2019 09:15:00 -0400')).toBe('2019-05-01');
+  });
+
+  it('places dates without a year nearest the document date', () => {
+    expect(dateOf('April 5')).toBe('2023-04-05');
+    expect(dateOf('December 30', '2023-01-02')).toBe('2022-12-30');
+  });
+
+  it('returns null when the text cannot be placed', () => {
+    expect(dateOf('the following Tuesday', null)).toBeNull();
+    expect(dateOf('April 5', null)).toBeNull();
+    expect(normalizeDate('shortly thereafter', { reference })).toBeNull();
+    expect(normalizeDate('')).toBeNull();
+    expect(normalizeDate(42)).toBeNull();
+  });
+});
+
+describe('normalizeTimezone', () => {
+  it('turns abbreviations and offsets into one form and rejects the unknown', () => {
+    expect(normalizeTimezone('PDT')).toBe('-07:00');
+    expect(normalizeTimezone('GMT+5:30')).toBe('+05:30');
+    expect(normalizeTimezone('utc')).toBe('+00:00');
+    expect(normalizeTimezone('Europe/London')).toBe('Europe/London');
+    expect(normalizeTimezone('Mars/Olympus')).toBeNull();
+    expect(normalizeTimezone('sometime')).toBeNull();
+  });
+});
+
+describe('ordering and display', () => {
+  it('converts zoned times to UTC for sorting', () => {
+    expect(normalizedDateValue({ date: '2023-03-02T14:30', timezone: '-05:00' })).toBe(Date.UTC(2023, 2, 2, 19, 30));
+    expect(normalizedDateValue({ date: '2023-07-01T12:00', timezone: 'America/New_York' })).toBe(Date.UTC(2023, 6, 1, 16, 0));
+    expect(normalizedDateValue({ date: '2023-03', timezone: null })).toBe(Date.UTC(2023, 2, 1));
+  });
+
+  it('puts a vaguer date ahead of the days it covers', () => {
+    const month = normalizeDate('April 2023')!;
+    const day = normalizeDate('April 1, 2023')!;
+    expect([day, month].sort(compareNormalizedDates)).toEqual([month, day]);
+  });
+
+  it('formats dates to their precision', () => {
+    expect(formatNormalizedDate(normalizeDate('March 2, 2023 at 2:30 pm EST')!)).toBe('March 2, 2023, 2:30 PM UTC-05:00');
+    expect(formatNormalizedDate(normalizeDate('late March 2023')!)).toBe('c. March 2023');
+    expect(formatDayHeading('2023-03-01')).toBe('Wednesday, March 1, 2023');
+  });
+});
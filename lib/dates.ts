@@ -0,0 +1,409 @@
+import type { DatePrecision } from './types';
+
+/**
+ * A date expression resolved to the calendar. `date` is ISO 8601 cut to its
+ * precision ("2023", "2023-04", "2023-04-05" or "2023-04-05T14:30") and is the
+ * wall-clock time as stated; `timezone` says where that clock hung, if known.
+ */
+export interface NormalizedDate {
+  date: string;
+  precision: DatePrecision;
+  timezone: string | null;
+  approximate: boolean;
+}
+
+interface DateParts {
+  year: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  timezone: string | null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\b\\.?';
+const WEEKDAY = `(${WEEKDAYS.join('|')})`;
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const COUNT = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+// "On or about" has to be tried before "about"
+const HEDGE = /\b(?:on or about|approximately|approx\.?|around|about|circa|ca\.|c\.|roughly|sometime(?: in| around)?)(?=\s|$)/g;
+
+const ISO_DATE_TIME = /\b(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(z|[+-]\d{2}:?\d{2})?)?(?![\d:])/;
+const ISO_MONTH = /\b(\d{4})-(\d{2})\b(?!-)/;
+const ZONE = '(?:\\s*\\(?\\s*((?:utc|gmt)(?:\\s*[+-]\\d{1,2}(?::?\\d{2})?)?|z|[ecmp][sd]?t|[+-]\\d{2}:?\\d{2})\\)?(?![a-z\\d]))?';
+const TIME = new RegExp(
+  `\\b(\\d{1,2})(?::(\\d{2}))?(?::\\d{2})?\\s*([ap])\\.?\\s?m\\b\\.?${ZONE}|\\b(\\d{1,2}):(\\d{2})(?::\\d{2})?${ZONE}|\\b(noon|midnight)\\b${ZONE}`
+);
+
+const MONTH_DAY_YEAR = new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s*(\\d{4})\\b)?`);
+const DAY_MONTH_YEAR = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s*(\\d{4})\\b)?`);
+const NUMERIC_DATE = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/;
+const PART_OF_MONTH = new RegExp(`\\b(?:early|mid|middle of|late|end of|beginning of|start of)[\\s-]+${MONTH},?\\s+(\\d{4})\\b`);
+const MONTH_YEAR = new RegExp(`\\b${MONTH},?\\s+(?:of\\s+)?(\\d{4})\\b`);
+const PART_OF_YEAR = /\b(?:early|mid|late|end of|beginning of|start of|spring|summer|fall|autumn|winter)[\s-]+(?:of\s+)?(1[89]\d{2}|2\d{3})\b/;
+const YEAR = /\b(1[89]\d{2}|2\d{3})\b/;
+
+const SAME_DAY = /\b(?:today|tonight|this (?:morning|afternoon|evening)|that (?:day|morning|afternoon|evening|night)|(?:the )?same day)\b/;
+const DAY_BEFORE = /\b(?:yesterday|the (?:day before|previous day|prior day|preceding day))\b/;
+const DAY_AFTER = /\b(?:tomorrow|the (?:next|following) (?:day|morning|evening)|the day after)\b/;
+const OFFSET_AFTER = new RegExp(`\\b${COUNT}\\s+(day|week|month|year)s?\\s+(?:later|after(?:wards?)?|on)\\b|\\bin\\s+${COUNT}\\s+(day|week|month|year)s?\\b`);
+const OFFSET_BEFORE = new RegExp(`\\b${COUNT}\\s+(day|week|month|year)s?\\s+(?:earlier|before|prior|ago|previously)\\b`);
+const RELATIVE_WEEKDAY = new RegExp(`\\b(?:(next|the following|the next|following|last|the previous|the prior|the preceding|previous|prior|this|that|on)\\s+)?${WEEKDAY}\\b`);
+const RELATIVE_PERIOD = /\b(next|the following|the next|following|last|the previous|the prior|previous|prior|this|that)\s+(week|month|year)\b/;
+
+// US zones written without daylight saving information follow their city's rules
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  est: '-05:00', edt: '-04:00', cst: '-06:00', cdt: '-05:00',
+  mst: '-07:00', mdt: '-06:00', pst: '-08:00', pdt: '-07:00',
+  et: 'America/New_York', ct: 'America/Chicago', mt: 'America/Denver', pt: 'America/Los_Angeles',
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isValidDay = (year: number, month: number, day: number) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3)) + 1;
+
+const countValue = (value: string) => NUMBER_WORDS[value] ?? parseInt(value, 10);
+
+const fullYear = (value: string) => {
+  const year = parseInt(value, 10);
+  if (value.length === 4) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+};
+
+/**
+ * A stated time zone as a UTC offset ("-05:00") or IANA zone name. US
+ * abbreviations are understood; anything unrecognized yields null.
+ */
+export const normalizeTimezone = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const zone = value.trim();
+  if (!zone) return null;
+  const lower = zone.toLowerCase();
+  if (lower === 'z' || lower === 'utc' || lower === 'gmt') return '+00:00';
+  if (ZONE_ABBREVIATIONS[lower]) return ZONE_ABBREVIATIONS[lower];
+
+  const offset = lower.match(/^(?:utc|gmt)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/);
+  if (offset) {
+    const hours = parseInt(offset[2], 10);
+    const minutes = offset[3] ? parseInt(offset[3], 10) : 0;
+    if (hours > 14 || minutes > 59) return null;
+    return `${offset[1]}${pad(hours)}:${pad(minutes)}`;
+  }
+
+  if (/^[A-Za-z_]+(?:\/[A-Za-z0-9_+-]+)+$/.test(zone)) {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone: zone }).resolvedOptions().timeZone;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+const buildDate = (parts: DateParts, timezone: string | null, approximate: boolean): NormalizedDate => {
+  const { year, month, day, hour, minute } = parts;
+  if (month === undefined) return { date: pad(year, 4), precision: 'year', timezone: null, approximate };
+  if (day === undefined) return { date: `${pad(year, 4)}-${pad(month)}`, precision: 'month', timezone: null, approximate };
+  const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  if (hour === undefined) return { date, precision: 'day', timezone, approximate };
+  return { date: `${date}T${pad(hour)}:${pad(minute ?? 0)}`, precision: 'minute', timezone, approximate };
+};
+
+const extractTime = (text: string): { time: TimeOfDay; rest: string } | null => {
+  const match = text.match(TIME);
+  if (!match) return null;
+
+  let hour: number;
+  let minute: number;
+  let zone: string | undefined;
+  if (match[3]) {
+    hour = parseInt(match[1], 10);
+    minute = match[2] ? parseInt(match[2], 10) : 0;
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (match[3] === 'p' ? 12 : 0);
+    zone = match[4];
+  } else if (match[5]) {
+    hour = parseInt(match[5], 10);
+    minute = parseInt(match[6], 10);
+    zone = match[7];
+  } else {
+    hour = match[8] === 'noon' ? 12 : 0;
+    minute = 0;
+    zone = match[9];
+  }
+  if (hour > 23 || minute > 59) return null;
+
+  return {
+    time: { hour, minute, timezone: zone ? normalizeTimezone(zone) : null },
+    rest: `${text.slice(0, match.index)} ${text.slice((match.index ?? 0) + match[0].length)}`,
+  };
+};
+
+/** Calendar dates written out in full, in any of the common forms. */
+const parseAbsolute = (text: string, reference: DateParts | null): { parts: DateParts; approximate: boolean } | null => {
+  let match = text.match(MONTH_DAY_YEAR);
+  let month: number | undefined;
+  let day: number | undefined;
+  let yearText: string | undefined;
+  if (match) {
+    [month, day, yearText] = [monthNumber(match[1]), parseInt(match[2], 10), match[3]];
+  } else if ((match = text.match(DAY_MONTH_YEAR))) {
+    [month, day, yearText] = [monthNumber(match[2]), parseInt(match[1], 10), match[3]];
+  }
+  if (month !== undefined && day !== undefined) {
+    const year = yearText ? parseInt(yearText, 10) : reference ? nearestYear(reference, month, day) : undefined;
+    if (year !== undefined && isValidDay(year, month, day)) return { parts: { year, month, day }, approximate: false };
+  }
+
+  // Numeric dates are read month first, as US productions write them
+  if ((match = text.match(NUMERIC_DATE))) {
+    const [first, second, year] = [parseInt(match[1], 10), parseInt(match[2], 10), fullYear(match[3])];
+    if (isValidDay(year, first, second)) return { parts: { year, month: first, day: second }, approximate: false };
+    if (isValidDay(year, second, first)) return { parts: { year, month: second, day: first }, approximate: false };
+  }
+
+  if ((match = text.match(PART_OF_MONTH))) {
+    return { parts: { year: parseInt(match[2], 10), month: monthNumber(match[1]) }, approximate: true };
+  }
+  if ((match = text.match(MONTH_YEAR))) {
+    return { parts: { year: parseInt(match[2], 10), month: monthNumber(match[1]) }, approximate: false };
+  }
+  if ((match = text.match(ISO_MONTH))) {
+    const [year, monthValue] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+    if (monthValue >= 1 && monthValue <= 12) return { parts: { year, month: monthValue }, approximate: false };
+  }
+  if ((match = text.match(PART_OF_YEAR))) {
+    return { parts: { year: parseInt(match[1], 10) }, approximate: true };
+  }
+  if ((match = text.match(YEAR))) {
+    return { parts: { year: parseInt(match[1], 10) }, approximate: false };
+  }
+  return null;
+};
+
+/** "April 5" with no year is taken as the April 5 closest to the document's own date. */
+const nearestYear = (reference: DateParts, month: number, day: number) => {
+  const referenceTime = Date.UTC(reference.year, (reference.month ?? 1) - 1, reference.day ?? 1);
+  return [reference.year - 1, reference.year, reference.year + 1].reduce((best, year) =>
+    Math.abs(Date.UTC(year, month - 1, day) - referenceTime) < Math.abs(Date.UTC(best, month - 1, day) - referenceTime) ? year : best
+  );
+};
+
+const shiftDays = (parts: DateParts, days: number): DateParts => {
+  const date = new Date(Date.UTC(parts.year, (parts.month ?? 1) - 1, (parts.day ?? 1) + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const shiftMonths = (parts: DateParts, months: number): DateParts => {
+  const index = parts.year * 12 + (parts.month ?? 1) - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(parts.day ?? 1, daysInMonth(year, month)) };
+};
+
+const shift = (parts: DateParts, count: number, unit: string): DateParts => {
+  if (unit === 'day') return shiftDays(parts, count);
+  if (unit === 'week') return shiftDays(parts, count * 7);
+  if (unit === 'month') return shiftMonths(parts, count);
+  return shiftMonths(parts, count * 12);
+};
+
+const FORWARD = new Set(['next', 'the following', 'the next', 'following']);
+const BACKWARD = new Set(['last', 'the previous', 'the prior', 'the preceding', 'previous', 'prior']);
+
+/** Phrases like "the following Tuesday" or "two days later", counted from the document's date. */
+const parseRelative = (text: string, reference: DateParts): { parts: DateParts; approximate: boolean } | null => {
+  if (SAME_DAY.test(text)) return { parts: reference, approximate: false };
+  if (DAY_BEFORE.test(text)) return { parts: shiftDays(reference, -1), approximate: false };
+  if (DAY_AFTER.test(text)) return { parts: shiftDays(reference, 1), approximate: false };
+
+  let match = text.match(OFFSET_AFTER);
+  if (match) {
+    const [count, unit] = match[1] ? [match[1], match[2]] : [match[3], match[4]];
+    return { parts: shift(reference, countValue(count), unit), approximate: false };
+  }
+  if ((match = text.match(OFFSET_BEFORE))) {
+    return { parts: shift(reference, -countValue(match[1]), match[2]), approximate: false };
+  }
+
+  if ((match = text.match(RELATIVE_WEEKDAY))) {
+    const modifier = match[1];
+    const referenceWeekday = new Date(Date.UTC(reference.year, (reference.month ?? 1) - 1, reference.day ?? 1)).getUTCDay();
+    const target = WEEKDAYS.indexOf(match[2]);
+    const ahead = (target - referenceWeekday + 7) % 7;
+    const behind = (referenceWeekday - target + 7) % 7;
+    if (modifier && FORWARD.has(modifier)) return { parts: shiftDays(reference, ahead || 7), approximate: false };
+    if (modifier && BACKWARD.has(modifier)) return { parts: shiftDays(reference, -(behind || 7)), approximate: false };
+    // A bare "Tuesday" is whichever is nearer, the past one on a tie
+    return { parts: shiftDays(reference, ahead < behind ? ahead : -behind), approximate: true };
+  }
+
+  if ((match = text.match(RELATIVE_PERIOD))) {
+    const direction = FORWARD.has(match[1]) ? 1 : BACKWARD.has(match[1]) ? -1 : 0;
+    if (match[2] === 'week') return { parts: shiftDays(reference, direction * 7), approximate: true };
+    if (match[2] === 'month') {
+      const { year, month } = shiftMonths(reference, direction);
+      return { parts: { year, month }, approximate: false };
+    }
+    return { parts: { year: reference.year + direction }, approximate: false };
+  }
+  return null;
+};
+
+export interface NormalizeDateOptions {
+  /** The document's own date, which relative phrases are counted from. */
+  reference?: string | null;
+  /** Zone to assume when the text states none. */
+  timezone?: string | null;
+}
+
+/**
+ * Resolves a date as a document words it. Absolute dates ("March 2, 2023",
+ * "3/2/23", "2023-03-02T14:30Z", "mid-March 2023") need nothing else;
+ * relative ones ("the following Tuesday", "two weeks later", "yesterday")
+ * and dates without a year need `reference`. Returns null when the text
+ * cannot be placed on the calendar.
+ */
+export const normalizeDate = (text: unknown, options: NormalizeDateOptions = {}): NormalizedDate | null => {
+  if (typeof text !== 'string') return null;
+  let rest = text.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!rest) return null;
+
+  const approximate = rest.search(HEDGE) !== -1;
+  rest = rest.replace(HEDGE, ' ');
+  const fallbackZone = normalizeTimezone(options.timezone);
+
+  const iso = rest.match(ISO_DATE_TIME);
+  if (iso) {
+    const [year, month, day] = [parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10)];
+    if (isValidDay(year, month, day)) {
+      if (iso[4] === undefined) {
+        const time = extractTime(rest.replace(iso[0], ' '));
+        return time
+          ? buildDate({ year, month, day, ...time.time }, time.time.timezone ?? fallbackZone, approximate)
+          : buildDate({ year, month, day }, fallbackZone, approximate);
+      }
+      const [hour, minute] = [parseInt(iso[4], 10), parseInt(iso[5], 10)];
+      if (hour <= 23 && minute <= 59) {
+        const zone = iso[6] ? normalizeTimezone(iso[6]) : fallbackZone;
+        return buildDate({ year, month, day, hour, minute }, zone, approximate);
+      }
+    }
+  }
+
+  const extracted = extractTime(rest);
+  if (extracted) rest = extracted.rest;
+  const reference = referenceParts(options.reference);
+
+  const resolved = parseAbsolute(rest, reference) ?? (reference ? parseRelative(rest, reference) : null);
+  if (!resolved) return null;
+
+  const parts = resolved.parts.day !== undefined && extracted
+    ? { ...resolved.parts, hour: extracted.time.hour, minute: extracted.time.minute }
+    : resolved.parts;
+  return buildDate(parts, extracted?.time.timezone ?? fallbackZone, approximate || resolved.approximate);
+};
+
+/** The calendar day of a document date, or null unless it is at least day-precise. */
+const referenceParts = (reference: string | null | undefined): DateParts | null => {
+  if (!reference) return null;
+  const normalized = normalizeDate(reference);
+  if (!normalized || (normalized.precision !== 'day' && normalized.precision !== 'minute')) return null;
+  return parseNormalized(normalized.date);
+};
+
+const parseNormalized = (date: string): DateParts => {
+  const [datePart, timePart] = date.split('T');
+  const [year, month, day] = datePart.split('-').map(value => parseInt(value, 10));
+  const [hour, minute] = timePart ? timePart.split(':').map(value => parseInt(value, 10)) : [];
+  return { year, month, day, hour, minute };
+};
+
+/** Minutes east of UTC for an offset or IANA zone at the given instant. */
+const zoneOffsetMinutes = (zone: string, at: number): number => {
+  const offset = zone.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (offset) return (offset[1] === '-' ? -1 : 1) * (parseInt(offset[2], 10) * 60 + parseInt(offset[3], 10));
+  try {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'longOffset' })
+      .formatToParts(at)
+      .find(part => part.type === 'timeZoneName')?.value;
+    const gmt = name?.match(/^GMT([+-])(\d{2}):(\d{2})$/);
+    return gmt ? (gmt[1] === '-' ? -1 : 1) * (parseInt(gmt[2], 10) * 60 + parseInt(gmt[3], 10)) : 0;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Milliseconds since the epoch at the start of the date, for sorting. Times
+ * with a zone are converted to UTC; times without one are read as UTC.
+ */
+export const normalizedDateValue = (date: Pick<NormalizedDate, 'date' | 'timezone'>): number => {
+  const { year, month, day, hour, minute } = parseNormalized(date.date);
+  const wallClock = Date.UTC(year, (month ?? 1) - 1, day ?? 1, hour ?? 0, minute ?? 0);
+  if (hour === undefined || !date.timezone) return wallClock;
+  return wallClock - zoneOffsetMinutes(date.timezone, wallClock) * 60_000;
+};
+
+/** The date cut to a coarser precision, e.g. "2023-04-05T14:30" at 'month' is "2023-04". */
+export const truncateDate = (date: string, precision: DatePrecision): string => {
+  const length = { year: 4, month: 7, day: 10, minute: 16 }[precision];
+  return date.slice(0, length);
+};
+
+const PRECISION_RANK: Record<DatePrecision, number> = { year: 0, month: 1, day: 2, minute: 3 };
+
+export const coarserPrecision = (a: DatePrecision, b: DatePrecision): DatePrecision =>
+  PRECISION_RANK[a] <= PRECISION_RANK[b] ? a : b;
+
+/** Earlier dates first; at the same instant the vaguer date leads, so "April 2023" heads its days. */
+export const compareNormalizedDates = (a: NormalizedDate, b: NormalizedDate): number =>
+  normalizedDateValue(a) - normalizedDateValue(b) || PRECISION_RANK[a.precision] - PRECISION_RANK[b.precision];
+
+const formatTimezone = (zone: string) => (/^[+-]/.test(zone) ? (zone === '+00:00' ? 'UTC' : `UTC${zone}`) : zone);
+
+/** "April 5, 2023, 2:30 PM UTC-05:00", "April 2023" or "2023", with "c." when approximate. */
+export const formatNormalizedDate = (date: NormalizedDate): string => {
+  const { year, month, day, hour, minute } = parseNormalized(date.date);
+  let text: string;
+  if (date.precision === 'year') {
+    text = String(year);
+  } else if (date.precision === 'month') {
+    text = `${MONTH_NAMES[month! - 1]} ${year}`;
+  } else {
+    text = `${MONTH_NAMES[month! - 1]} ${day}, ${year}`;
+    if (date.precision === 'minute') {
+      const clock = `${(hour! % 12) || 12}:${pad(minute!)} ${hour! < 12 ? 'AM' : 'PM'}`;
+      text += `, ${clock}${date.timezone ? ` ${formatTimezone(date.timezone)}` : ''}`;
+    }
+  }
+  return date.approximate ? `c. ${text}` : text;
+};
+
+/** Day heading for a chronology, e.g. "Wednesday, April 5, 2023". */
+export const formatDayHeading = (day: string): string => {
+  const { year, month, day: dayOfMonth } = parseNormalized(day);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month! - 1, dayOfMonth!)).getUTCDay()];
+  return `${weekday[0].toUpperCase()}${weekday.slice(1)}, ${MONTH_NAMES[month! - 1]} ${dayOfMonth}, ${year}`;
+};
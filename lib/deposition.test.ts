@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatDepositionCite,
+  formatDepositionText,
+  formatPageLineRange,
+  pageLinesForRange,
+  parseDepositionTranscript,
+  parseStoredDeposition,
+  turnText,
+} from './deposition';
+import { buildDepositionDigest, buildDepositionDigestText } from './depositionDigest';
+import type { Json } from './database.types';
+
+// Lays out numbered pages the way reporters do: a page number, then 25 numbered lines
+const transcriptPages = (pages: Array<{ number: number; lines: string[] }>, header: (page: number) => string = page => `${page}`) =>
+  pages.map(({ number, lines }) => {
+    const padded = [...lines, ...Array(25 - lines.length).fill('')];
+    return [header(number), ...padded.map((line, i) => `${String(i + 1).padStart(2)}    ${line}`.trimEnd())].join('\n');
+  }).join('\n\f');
+
+const text = transcriptPages([
+  {
+    number: 44,
+    lines: [
+      'DEPOSITION OF JOHN DOE, taken on behalf of the Plaintiff',
+      'CROSS-EXAMINATION',
+      'BY MR. JONES:',
+      'Q.  Where were you on the evening of March 7?',
+      'A.  At home with my wife.',
+      'Q.  All evening?',
+      'A.  Yes. I never left the house',
+      '    that night.',
+      'MR. SMITH: Objection, asked and answered.',
+      'Q.  Did you see Officer Smith that night?',
+      'A.  No.',
+    ],
+  },
+  {
+    number: 45,
+    lines: [
+      'Q.  Do you own a white pickup truck?',
+      'A.  I did. I sold it in',
+      '    February.',
+      'BY MS. LEE:',
+      'Q.  Who did you sell it to?',
+      'A.  My cousin.',
+    ],
+  },
+]);
+
+describe('formatting cites', () => {
+  it('writes page:line ranges the short way within a page', () => {
+    expect(formatPageLineRange({ page: 45, line: 12 })).toBe('45:12');
+    expect(formatPageLineRange({ page: 45, line: 12 }, { page: 45, line: 18 })).toBe('45:12-18');
+    expect(formatDepositionCite('DEF-0007', { page: 45, line: 12 }, { page: 46, line: 3 })).toBe('[DEF-0007 45:12-46:3]');
+  });
+});
+
+describe('parseDepositionTranscript', () => {
+  const transcript = parseDepositionTranscript(text)!;
+
+  it('numbers pages from their headers and keeps each line’s place in the text', () => {
+    expect(transcript).not.toBeNull();
+    expect([transcript.firstPage, transcript.lastPage]).toEqual([44, 45]);
+    expect(transcript.lines).toHaveLength(50);
+    const line = transcript.lines.find(l => l.page === 45 && l.line === 1)!;
+    expect(text.slice(line.charStart, line.charEnd)).toBe('Q.  Do you own a white pickup truck?');
+    expect(transcript.witness).toBe('JOHN DOE');
+  });
+
+  it('follows the questioning attorney and joins wrapped answers', () => {
+    expect(transcript.examinations).toEqual([
+      { attorney: 'MR. JONES', heading: 'CROSS-EXAMINATION', start: { page: 44, line: 3 } },
+      { attorney: 'MS. LEE', heading: null, start: { page: 45, line: 4 } },
+    ]);
+    const kinds = transcript.turns.map(turn => [turn.kind, turn.speaker]);
+    expect(kinds.slice(0, 5)).toEqual([
+      ['question', 'MR. JONES'], ['answer', 'JOHN DOE'], ['question', 'MR. JONES'], ['answer', 'JOHN DOE'], ['colloquy', 'MR. SMITH'],
+    ]);
+    const wrapped = transcript.turns[3];
+    expect([wrapped.start, wrapped.end]).toEqual([{ page: 44, line: 7 }, { page: 44, line: 8 }]);
+    expect(turnText(transcript, text, wrapped)).toBe('Yes. I never left the house that night.');
+    expect(turnText(transcript, text, transcript.turns[4])).toBe('Objection, asked and answered.');
+    expect(transcript.turns[transcript.turns.length - 2].speaker).toBe('MS. LEE');
+  });
+
+  it('numbers pages in order when there are no headers, and reads "Page N" headers', () => {
+    const unheaded = transcriptPages([
+      { number: 1, lines: ['Q.  One?', 'A.  Yes.', 'Q.  Two?', 'A.  Yes.'] },
+      { number: 2, lines: ['Q.  Three?', 'A.  Yes.'] },
+    ], () => '');
+    expect(parseDepositionTranscript(unheaded)?.lastPage).toBe(2);
+    const paged = transcriptPages([
+      { number: 12, lines: ['Q.  One?', 'A.  Yes.', 'Q.  Two?'] },
+      { number: 13, lines: ['Q.  Three?'] },
+    ], page => `Page ${page}`);
+    expect(parseDepositionTranscript(paged)?.lastPage).toBe(13);
+  });
+
+  it('ignores text that is not a numbered transcript', () => {
+    expect(parseDepositionTranscript('1. Buy milk\n2. Call Bob\n3. Done')).toBeNull();
+    expect(parseDepositionTranscript(transcriptPages([
+      { number: 1, lines: ['The parties agree as follows.'] },
+      { number: 2, lines: ['Signed.'] },
+    ]))).toBeNull();
+  });
+
+  it('maps character ranges back to page:line spans', () => {
+    const start = text.indexOf('Do you own');
+    expect(pageLinesForRange(transcript, start, text.indexOf('February') + 1)).toEqual({
+      start: { page: 45, line: 1 },
+      end: { page: 45, line: 3 },
+    });
+    expect(pageLinesForRange(transcript, text.length + 10, text.length + 20)).toBeNull();
+    expect(formatDepositionText(transcript, text).split('\n')[4]).toBe('44:5 A.  At home with my wife.');
+  });
+
+  it('round-trips through the stored JSON and rejects anything else', () => {
+    expect(parseStoredDeposition(JSON.parse(JSON.stringify(transcript)) as Json)).toEqual(transcript);
+    expect(parseStoredDeposition({ lines: 'nope' })).toBeNull();
+    expect(parseStoredDeposition(null)).toBeNull();
+  });
+});
+
+describe('deposition digest', () => {
+  const transcript = parseDepositionTranscript(text)!;
+  const entries = buildDepositionDigest(transcript, text);
+
+  it('pairs each question with what followed it', () => {
+    expect(entries).toHaveLength(5);
+    expect(entries[1]).toEqual({
+      start: { page: 44, line: 6 },
+      end: { page: 44, line: 9 },
+      examiner: 'MR. JONES',
+      question: 'All evening?',
+      answer: 'Yes. I never left the house that night. [MR. SMITH: Objection, asked and answered.]',
+    });
+  });
+
+  it('lays the digest out by page:line under each examining attorney', () => {
+    const digest = buildDepositionDigestText(entries, { witness: transcript.witness, batesNumber: 'DEF-0007' });
+    expect(digest).toContain('Witness: JOHN DOE\nDocument: DEF-0007\n\nEXAMINATION BY MR. JONES\n\n44:4-5        Q  Where were you on the evening of March 7?\n              A  At home with my wife.');
+    expect(digest).toContain('              A  Yes. I never left the house that night. [MR. SMITH:\n                 Objection, asked and answered.]');
+    expect(digest).toContain('February.\n\nEXAMINATION BY MS. LEE\n\n45:5-6        Q  Who did you sell it to?');
+  });
+});
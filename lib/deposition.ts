@@ -0,0 +1,263 @@
+import type { Json } from './database.types';
+import type { DepositionExamination, DepositionLine, DepositionTranscript, DepositionTurn, DepositionTurnKind, PageLine } from './types';
+
+// Transcripts run 25 lines a page; some reporters use a few more
+const MAX_LINES_PER_PAGE = 28;
+const MIN_PAGES = 2;
+const MIN_NUMBERED_LINES = 40;
+const MIN_NUMBERED_SHARE = 0.6;
+const MIN_QUESTIONS = 3;
+
+const NUMBERED_LINE = /^[ \t]*(\d{1,2})(?:[ \t]+(\S.*?))?[ \t]*$/;
+const PAGE_HEADER = /^\s*page\s+(\d{1,4})\b/i;
+const NUMBER_ONLY = /^\s*(\d{1,4})\s*$/;
+// pdf-parse separates pages with "-- 3 of 10 --"
+const PDF_PAGE_BREAK = /^\s*--\s*\d+\s+of\s+\d+\s*--\s*$/;
+
+// "Q." / "A:" or a bare Q or A set off by a tab or two spaces; a single space would catch "A car..."
+const QA_MARKER = /^(Q|A)(?:[.:]\s*|\t\s*| {2,}|$)/;
+const BY_ATTORNEY = /^BY\s+((?:MR|MS|MRS|MISS|DR)\.?\s+[A-Z][A-Za-z'’-]+(?:\s+[A-Z][A-Za-z'’-]+)?)\s*:?\s*$/;
+const EXAMINATION_HEADING = /^(?:(?:DIRECT|CROSS|REDIRECT|RECROSS|FURTHER(?:\s+(?:DIRECT|CROSS|REDIRECT|RECROSS))?)[- ]?)?EXAMINATION\b.*$/;
+const COLLOQUY = /^((?:MR|MS|MRS|MISS|DR)\.?\s+[A-Z][A-Z'’-]+|THE\s+[A-Z][A-Z ]{2,30}?):\s*(.*)$/;
+const WITNESS_CAPTION = /DEPOSITION\s+OF\s+([A-Z][A-Za-z.'’ -]{2,60}?)\s*(?:,|$|\n|\s{2,}|taken|TAKEN|VOLUME|Volume)/;
+const WITNESS_SWORN = /\b([A-Z][A-Z.'’ -]{2,60}?),?\s+(?:having\s+been|being)\s+(?:first\s+)?duly\s+sworn/;
+
+export const formatPageLine = (at: PageLine): string => `${at.page}:${at.line}`;
+
+/** "45:12", "45:12-18" within a page, "45:12-46:3" across pages. */
+export const formatPageLineRange = (start: PageLine, end: PageLine = start): string => {
+  if (start.page === end.page) return start.line === end.line ? formatPageLine(start) : `${formatPageLine(start)}-${end.line}`;
+  return `${formatPageLine(start)}-${formatPageLine(end)}`;
+};
+
+/** A testimony cite, e.g. [DEF-0007 45:12-46:3]. */
+export const formatDepositionCite = (batesNumber: string, start: PageLine, end: PageLine = start): string =>
+  `[${batesNumber} ${formatPageLineRange(start, end)}]`;
+
+interface RawLine {
+  text: string;
+  start: number;
+}
+
+const splitLines = (text: string): RawLine[] => {
+  const lines: RawLine[] = [];
+  let start = 0;
+  text.split(/\n|\f/).forEach(line => {
+    lines.push({ text: line, start });
+    start += line.length + 1;
+  });
+  return lines;
+};
+
+const numberedLine = (raw: string) => {
+  const match = raw.match(NUMBERED_LINE);
+  if (!match) return null;
+  const line = Number(match[1]);
+  return line >= 1 && line <= MAX_LINES_PER_PAGE ? { line, content: match[2] ?? '' } : null;
+};
+
+/**
+ * Reads the page and line numbering of a transcript. Lines whose number starts
+ * over at 1 begin a new page, numbered from the nearest page header ("Page 45",
+ * or a bare number just before line 1) or else one past the previous page.
+ */
+const readNumberedLines = (text: string): { lines: DepositionLine[]; unnumbered: number } => {
+  const raw = splitLines(text);
+  const lines: DepositionLine[] = [];
+  let unnumbered = 0;
+  let page = 0;
+  let lastLine = Infinity;
+  let header: number | null = null;
+
+  const nextStartsPage = (index: number) => {
+    for (let next = index + 1; next < raw.length; next++) {
+      if (!raw[next].text.trim()) continue;
+      return numberedLine(raw[next].text)?.line === 1;
+    }
+    return false;
+  };
+
+  raw.forEach((entry, index) => {
+    if (!entry.text.trim() || PDF_PAGE_BREAK.test(entry.text)) return;
+
+    const numbered = numberedLine(entry.text);
+    const bare = entry.text.match(NUMBER_ONLY);
+    // A bare number is a page header unless it is the next line, left blank
+    if (bare && (!numbered || (numbered.line !== lastLine + 1 && nextStartsPage(index)))) {
+      header = Number(bare[1]);
+      return;
+    }
+    if (!numbered) {
+      const pageHeader = entry.text.length < 60 ? entry.text.match(PAGE_HEADER) : null;
+      if (pageHeader) header = Number(pageHeader[1]);
+      else unnumbered += 1;
+      return;
+    }
+
+    if (numbered.line <= lastLine) {
+      page = header ?? page + 1;
+      header = null;
+    }
+    lastLine = numbered.line;
+    const charStart = entry.start + entry.text.match(/^[ \t]*\d{1,2}[ \t]*/)![0].length;
+    lines.push({ page, line: numbered.line, charStart, charEnd: charStart + numbered.content.length });
+  });
+  return { lines, unnumbered };
+};
+
+const detectWitness = (text: string): string | null => {
+  const opening = text.slice(0, 8000);
+  const match = opening.match(WITNESS_CAPTION) ?? opening.match(WITNESS_SWORN);
+  return match ? match[1].replace(/\s+/g, ' ').trim() : null;
+};
+
+/**
+ * Recognizes a deposition or trial transcript and maps its page:line
+ * numbering onto the text, with its question-and-answer turns and who was
+ * examining. Offsets point into the text as given. Null when the text is not
+ * laid out as a numbered transcript.
+ */
+export const parseDepositionTranscript = (text: string): DepositionTranscript | null => {
+  if (!text) return null;
+  const { lines, unnumbered } = readNumberedLines(text);
+  const pages = new Set(lines.map(line => line.page));
+  if (pages.size < MIN_PAGES || lines.length < MIN_NUMBERED_LINES || lines.length / (lines.length + unnumbered) < MIN_NUMBERED_SHARE) {
+    return null;
+  }
+
+  const witness = detectWitness(text);
+  const examinations: DepositionExamination[] = [];
+  const turns: DepositionTurn[] = [];
+  let heading: string | null = null;
+  let attorney: string | null = null;
+  let current: DepositionTurn | null = null;
+
+  const startTurn = (kind: DepositionTurnKind, speaker: string | null, index: number) => {
+    const at = { page: lines[index].page, line: lines[index].line };
+    current = { kind, speaker, start: at, end: at, firstLine: index, lastLine: index };
+    turns.push(current);
+  };
+
+  lines.forEach((line, index) => {
+    const content = text.slice(line.charStart, line.charEnd).trim();
+    if (!content) return;
+
+    const by = content.match(BY_ATTORNEY);
+    if (by) {
+      attorney = by[1].replace(/\s+/g, ' ');
+      examinations.push({ attorney, heading, start: { page: line.page, line: line.line } });
+      heading = null;
+      current = null;
+      return;
+    }
+    if (EXAMINATION_HEADING.test(content)) {
+      heading = content.replace(/\s+/g, ' ');
+      current = null;
+      return;
+    }
+
+    const qa = content.match(QA_MARKER);
+    if (qa) {
+      startTurn(qa[1] === 'Q' ? 'question' : 'answer', qa[1] === 'Q' ? attorney : witness, index);
+      return;
+    }
+    const colloquy = content.match(COLLOQUY);
+    if (colloquy) {
+      startTurn('colloquy', colloquy[1].replace(/\s+/g, ' '), index);
+      return;
+    }
+
+    const open = current as DepositionTurn | null;
+    if (open) {
+      open.end = { page: line.page, line: line.line };
+      open.lastLine = index;
+    }
+  });
+
+  if (turns.filter(turn => turn.kind === 'question').length < MIN_QUESTIONS) return null;
+
+  return {
+    witness,
+    firstPage: lines[0].page,
+    lastPage: lines[lines.length - 1].page,
+    lines,
+    examinations,
+    turns,
+  };
+};
+
+/** What was said in a turn, as one paragraph without its Q/A marker or speaker label. */
+export const turnText = (transcript: Pick<DepositionTranscript, 'lines'>, text: string, turn: DepositionTurn): string => {
+  const said = transcript.lines
+    .slice(turn.firstLine, turn.lastLine + 1)
+    .map(line => text.slice(line.charStart, line.charEnd).trim())
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ');
+  if (turn.kind === 'colloquy') return said.replace(COLLOQUY, '$2').trim();
+  return said.replace(QA_MARKER, '').trim();
+};
+
+/** The page:line span of the transcript lines overlapping a character range, e.g. a retrieved passage. */
+export const pageLinesForRange = (
+  transcript: Pick<DepositionTranscript, 'lines'>,
+  charStart: number,
+  charEnd: number
+): { start: PageLine; end: PageLine } | null => {
+  const overlapping = transcript.lines.filter(line => line.charEnd >= charStart && line.charStart < charEnd);
+  if (overlapping.length === 0) return null;
+  const [first, last] = [overlapping[0], overlapping[overlapping.length - 1]];
+  return { start: { page: first.page, line: first.line }, end: { page: last.page, line: last.line } };
+};
+
+/**
+ * The transcript as the analyzer reads it: each line labeled with its page and
+ * line, so facts and quotes can be cited to the line.
+ */
+export const formatDepositionText = (transcript: DepositionTranscript, text: string): string =>
+  transcript.lines
+    .map(line => `${formatPageLine(line)} ${text.slice(line.charStart, line.charEnd).trim()}`.trimEnd())
+    .join('\n');
+
+/**
+ * The analyzer's view of a transcript: every line labeled with its page:line,
+ * plus an instruction to cite testimony that way. Null when the text is not a
+ * transcript, so callers fall back to the plain text.
+ */
+export const describeTranscriptForAnalysis = (
+  batesNumber: string,
+  text: string
+): { content: string; instruction: string } | null => {
+  const transcript = parseDepositionTranscript(text);
+  if (!transcript) return null;
+  const examiners = Array.from(new Set(transcript.examinations.map(examination => examination.attorney)));
+  const heading = [
+    `Witness: ${transcript.witness || 'not stated'}`,
+    examiners.length > 0 ? `Examined by: ${examiners.join(', ')}` : null,
+    `Pages ${transcript.firstPage}-${transcript.lastPage}`,
+  ].filter(Boolean).join('. ');
+  return {
+    content: `DEPOSITION TRANSCRIPT (each line begins with its page:line). ${heading}.\n${formatDepositionText(transcript, text)}`,
+    instruction: `- This is sworn testimony. End each fact and quote with its page:line cite, e.g. "${formatDepositionCite(batesNumber, { page: transcript.firstPage, line: 4 }, { page: transcript.firstPage, line: 9 })}", and note who was examining when it matters`,
+  };
+};
+
+const isPageLine = (value: unknown): value is PageLine =>
+  Boolean(value) && typeof value === 'object' &&
+  typeof (value as PageLine).page === 'number' && typeof (value as PageLine).line === 'number';
+
+/** Reads documents.deposition back, or null when it is absent or not a transcript map. */
+export const parseStoredDeposition = (value: Json | null | undefined): DepositionTranscript | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const stored = value as unknown as DepositionTranscript;
+  if (!Array.isArray(stored.lines) || !Array.isArray(stored.turns) || !Array.isArray(stored.examinations)) return null;
+  if (!stored.lines.every(line => isPageLine(line) && typeof line.charStart === 'number' && typeof line.charEnd === 'number')) return null;
+  return {
+    witness: typeof stored.witness === 'string' ? stored.witness : null,
+    firstPage: stored.firstPage,
+    lastPage: stored.lastPage,
+    lines: stored.lines,
+    examinations: stored.examinations.filter(examination => isPageLine(examination?.start)),
+    turns: stored.turns.filter(turn => isPageLine(turn?.start) && isPageLine(turn?.end)),
+  };
+};
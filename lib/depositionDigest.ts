@@ -0,0 +1,105 @@
+import { csvEscape } from './csv';
+import { formatPageLineRange, turnText } from './deposition';
+import { buildDocx, DOCX_MIME_TYPE, type TableReport } from './ooxml';
+import type { DepositionTranscript, PageLine } from './types';
+
+/** One question with the answers, objections and remarks that followed it. */
+export interface DepositionDigestEntry {
+  start: PageLine;
+  end: PageLine;
+  examiner: string | null;
+  question: string;
+  answer: string;
+}
+
+export type DepositionDigestFormat = 'txt' | 'csv' | 'docx';
+
+export const DEPOSITION_DIGEST_CONTENT_TYPES: Record<DepositionDigestFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  docx: DOCX_MIME_TYPE,
+};
+
+const DIGEST_WIDTH = 78;
+const CITE_WIDTH = 14;
+
+/**
+ * The testimony as question-and-answer exchanges in transcript order. What
+ * counsel say on the record between a question and its answer is kept with
+ * the answer in brackets; remarks before the first question are left out.
+ */
+export const buildDepositionDigest = (transcript: DepositionTranscript, text: string): DepositionDigestEntry[] => {
+  const entries: DepositionDigestEntry[] = [];
+  transcript.turns.forEach(turn => {
+    const said = turnText(transcript, text, turn);
+    if (turn.kind === 'question') {
+      entries.push({ start: turn.start, end: turn.end, examiner: turn.speaker, question: said, answer: '' });
+      return;
+    }
+    const entry = entries[entries.length - 1];
+    if (!entry) return;
+    const part = turn.kind === 'colloquy' ? `[${turn.speaker}: ${said}]` : said;
+    entry.answer = entry.answer ? `${entry.answer} ${part}` : part;
+    entry.end = turn.end;
+  });
+  return entries;
+};
+
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+};
+
+const indentBlock = (label: string, text: string, first: string): string[] => {
+  const width = DIGEST_WIDTH - CITE_WIDTH - 3;
+  return wrap(text, width).map((line, index) =>
+    `${(index === 0 ? first : '').padEnd(CITE_WIDTH)}${index === 0 ? `${label}  ` : '   '}${line}`
+  );
+};
+
+/** The traditional page-line digest: each exchange under its cite, grouped by examining attorney. */
+export const buildDepositionDigestText = (
+  entries: DepositionDigestEntry[],
+  heading: { witness: string | null; batesNumber: string }
+): string => {
+  const lines = ['DEPOSITION DIGEST', `Witness: ${heading.witness || 'Unknown'}`, `Document: ${heading.batesNumber}`];
+  let examiner: string | null | undefined;
+  entries.forEach(entry => {
+    if (entry.examiner !== examiner) {
+      examiner = entry.examiner;
+      lines.push('', examiner ? `EXAMINATION BY ${examiner}` : 'EXAMINATION');
+    }
+    lines.push('', ...indentBlock('Q', entry.question, formatPageLineRange(entry.start, entry.end)));
+    if (entry.answer) lines.push(...indentBlock('A', entry.answer, ''));
+  });
+  return lines.join('\n') + '\n';
+};
+
+const toReport = (entries: DepositionDigestEntry[], heading: { witness: string | null; batesNumber: string }): TableReport => ({
+  title: `Deposition Digest – ${heading.witness || heading.batesNumber}`,
+  columns: ['Page:Line', 'Examining Attorney', 'Question', 'Answer'],
+  rows: entries.map(entry => [formatPageLineRange(entry.start, entry.end), entry.examiner || '', entry.question, entry.answer]),
+  notes: [`Transcript ${heading.batesNumber}. Cite as [${heading.batesNumber} page:line].`],
+});
+
+export async function buildDepositionDigestFile(
+  entries: DepositionDigestEntry[],
+  format: DepositionDigestFormat,
+  heading: { witness: string | null; batesNumber: string }
+): Promise<Uint8Array> {
+  if (format === 'txt') return new TextEncoder().encode(buildDepositionDigestText(entries, heading));
+  const report = toReport(entries, heading);
+  if (format === 'docx') return buildDocx(report);
+  const rows = [report.columns, ...report.rows].map(row => row.map(cell => csvEscape(cell)).join(','));
+  return new TextEncoder().encode(rows.join('\n') + '\n');
+}
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { parseDepositionTranscript, parseStoredDeposition, turnText } from './deposition';
+import type { DepositionTestimony, DepositionTranscript } from './types';
+
+export interface DepositionSource {
+  documentId: string;
+  name: string;
+  batesNumber: string;
+  text: string;
+  // Null when the document is not laid out as a numbered transcript
+  transcript: DepositionTranscript | null;
+}
+
+/**
+ * A document's text with its transcript map. Documents extracted before
+ * transcripts were recognized have no stored map, so their text is read here.
+ * Null when the document does not exist or is not visible to the caller.
+ */
+export async function loadDepositionSource(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<DepositionSource | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, name, bates_formatted, extracted_text, deposition')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) return null;
+
+  const text = document.extracted_text || '';
+  return {
+    documentId: document.id,
+    name: document.name,
+    batesNumber: document.bates_formatted || 'UNKNOWN',
+    text,
+    transcript: parseStoredDeposition(document.deposition) ?? parseDepositionTranscript(text),
+  };
+}
+
+export const toDepositionTestimony = (
+  source: DepositionSource & { transcript: DepositionTranscript }
+): DepositionTestimony => ({
+  documentId: source.documentId,
+  batesNumber: source.batesNumber,
+  witness: source.transcript.witness,
+  firstPage: source.transcript.firstPage,
+  lastPage: source.transcript.lastPage,
+  examinations: source.transcript.examinations,
+  turns: source.transcript.turns.map(turn => ({
+    kind: turn.kind,
+    speaker: turn.speaker,
+    start: turn.start,
+    end: turn.end,
+    text: turnText(source.transcript, source.text, turn),
+  })),
+});
@@ -1,5 +1,11 @@
-import { DiscoveryFile } from './types';
+import { AnalysisData, AuditChainStatus, AuditEntry, BatesNumber, CaseEntity, ClipOverlays, CodingField, CodingLayout, CodingValues, Contradiction, ContradictionReport, ContradictionStatus, Custodian, CustodianKind, DepositionTestimony, DiscoveryFile, DuplicateGroup, EntityDetail, EntityMergeSuggestion, EntityType, EmailThreadSummary, FamilyMember, MediaClip, MediaTranscript, PrivilegeCoding, ProjectMember, ProjectRole, Redaction, ReviewBatch, ReviewBatchCriteria, ReviewBatchDocument, SearchHit, ThreadMessage, ThumbnailSet, TranscriptSpeaker } from './types';
+import type { PrivilegeLogFormat } from './privilegeLog';
+import type { DepositionDigestFormat } from './depositionDigest';
+import type { CustodyReportFormat } from './auditLog';
+import type { RedactionDraft, RedactionLogFormat } from './redactions';
+import { authFetch } from './authClient';
 import { sha256FromFile } from './checksum';
+import type { LoadFileImportRecord } from './loadFileImport';
 
 /**
  * Service layer for discovery operations with cloud storage
@@ -7,7 +13,7 @@ import { sha256FromFile } from './checksum';
 
 // Project Operations
 export async function createProject(name: string, description?: string, batesPrefix: string = 'DEF') {
-  const response = await fetch('/api/projects', {
+  const response = await authFetch('/api/projects', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ name, description, batesPrefix }),
@@ -26,7 +32,7 @@ export async function createProject(name: string, description?: string, batesPre
 }
 
 export async function getProject(projectId: string) {
-  const response = await fetch(`/api/projects/${projectId}`);
+  const response = await authFetch(`/api/projects/${projectId}`);
 
   if (!response.ok) {
     const error = await response.json();
@@ -37,7 +43,7 @@ export async function getProject(projectId: string) {
 }
 
 export async function updateProject(projectId: string, updates: { name?: string; description?: string; batesCounter?: number }) {
-  const response = await fetch(`/api/projects/${projectId}`, {
+  const response = await authFetch(`/api/projects/${projectId}`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(updates),
@@ -52,7 +58,7 @@ export async function updateProject(projectId: string, updates: { name?: string;
 }
 
 export async function listProjects() {
-  const response = await fetch('/api/projects');
+  const response = await authFetch('/api/projects');
 
   if (!response.ok) {
     const error = await response.json();
@@ -62,6 +68,213 @@ export async function listProjects() {
   return response.json();
 }
 
+// Member Operations
+export async function getProjectMembers(projectId: string): Promise<{ members: ProjectMember[]; role: ProjectRole }> {
+  const response = await authFetch(`/api/projects/${projectId}/members`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load project members');
+  }
+
+  return response.json();
+}
+
+export async function addProjectMember(projectId: string, email: string, role: ProjectRole): Promise<ProjectMember> {
+  const response = await authFetch(`/api/projects/${projectId}/members`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, role }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to add project member');
+  }
+
+  const { member } = await response.json();
+  return member;
+}
+
+export async function updateProjectMemberRole(projectId: string, memberId: string, role: ProjectRole): Promise<ProjectMember> {
+  const response = await authFetch(`/api/projects/${projectId}/members/${memberId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ role }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to update project member');
+  }
+
+  const { member } = await response.json();
+  return member;
+}
+
+export async function removeProjectMember(projectId: string, memberId: string): Promise<void> {
+  const response = await authFetch(`/api/projects/${projectId}/members/${memberId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to remove project member');
+  }
+}
+
+// Custodian Operations
+export async function getCustodians(projectId: string): Promise<Custodian[]> {
+  const response = await authFetch(`/api/projects/${projectId}/custodians`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load custodians');
+  }
+
+  const { custodians } = await response.json();
+  return custodians;
+}
+
+export async function createCustodian(
+  projectId: string,
+  custodian: { name: string; kind: CustodianKind; email?: string; description?: string }
+): Promise<Custodian> {
+  const response = await authFetch(`/api/projects/${projectId}/custodians`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(custodian),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to add custodian');
+  }
+
+  const { custodian: created } = await response.json();
+  return created;
+}
+
+// Entity Operations
+export async function getEntities(projectId: string): Promise<{ entities: CaseEntity[]; suggestions: EntityMergeSuggestion[] }> {
+  const response = await authFetch(`/api/projects/${projectId}/entities`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load entities');
+  }
+
+  return response.json();
+}
+
+export async function reindexEntities(projectId: string): Promise<{ documents: number; mentions: number }> {
+  const response = await authFetch(`/api/projects/${projectId}/entities`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to index entities');
+  }
+
+  return response.json();
+}
+
+export async function getEntity(projectId: string, entityId: string): Promise<EntityDetail> {
+  const response = await authFetch(`/api/projects/${projectId}/entities/${entityId}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load entity');
+  }
+
+  return response.json();
+}
+
+export async function updateEntity(
+  projectId: string,
+  entityId: string,
+  changes: { name?: string; type?: EntityType }
+): Promise<CaseEntity> {
+  const response = await authFetch(`/api/projects/${projectId}/entities/${entityId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to update entity');
+  }
+
+  const { entity } = await response.json();
+  return entity;
+}
+
+export async function mergeEntities(projectId: string, targetId: string, sourceIds: string[]): Promise<CaseEntity> {
+  const response = await authFetch(`/api/projects/${projectId}/entities/merge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ targetId, sourceIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to merge entities');
+  }
+
+  const { entity } = await response.json();
+  return entity;
+}
+
+export async function dismissEntityMerge(projectId: string, entityId: string, otherEntityId: string): Promise<void> {
+  const response = await authFetch(`/api/projects/${projectId}/entities/dismissals`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ entityId, otherEntityId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to dismiss merge suggestion');
+  }
+}
+
+// Contradiction Operations
+export async function getContradictionReport(projectId: string): Promise<{ report: ContradictionReport | null; queued: boolean }> {
+  const response = await authFetch(`/api/projects/${projectId}/contradictions`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load contradictions');
+  }
+
+  return response.json();
+}
+
+export async function runContradictionAnalysis(projectId: string): Promise<{ queued: boolean }> {
+  const response = await authFetch(`/api/projects/${projectId}/contradictions`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to queue contradiction analysis');
+  }
+
+  return response.json();
+}
+
+export async function reviewContradiction(projectId: string, contradictionId: string, status: ContradictionStatus): Promise<Contradiction> {
+  const response = await authFetch(`/api/projects/${projectId}/contradictions/${contradictionId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to review contradiction');
+  }
+
+  const { contradiction } = await response.json();
+  return contradiction;
+}
+
 // Document Operations
 export async function saveDocumentToCloud(discoveryFile: DiscoveryFile, projectId: string) {
   try {
@@ -74,7 +287,7 @@ export async function saveDocumentToCloud(discoveryFile: DiscoveryFile, projectI
     formData.append('batesNumber', discoveryFile.batesNumber.formatted);
     formData.append('checksum', checksum);
 
-    const storageResponse = await fetch('/api/storage/upload', {
+    const storageResponse = await authFetch('/api/storage/upload', {
       method: 'POST',
       body: formData,
     });
@@ -88,7 +301,7 @@ export async function saveDocumentToCloud(discoveryFile: DiscoveryFile, projectI
     const { storagePath, signedUrl } = await storageResponse.json();
 
     // Step 2: Create document record in database
-    const docResponse = await fetch('/api/documents', {
+    const docResponse = await authFetch('/api/documents', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -100,22 +313,32 @@ export async function saveDocumentToCloud(discoveryFile: DiscoveryFile, projectI
         batesPrefix: discoveryFile.batesNumber.prefix,
         batesNumber: discoveryFile.batesNumber.number,
         batesFormatted: discoveryFile.batesNumber.formatted,
+        batesEndNumber: discoveryFile.batesNumber.endNumber,
+        batesEndFormatted: discoveryFile.batesNumber.endFormatted,
+        batesFamilyEndNumber: discoveryFile.batesNumber.familyEndNumber,
+        pageCount: discoveryFile.batesNumber.pageCount,
+        contentHash: checksum,
         storagePath,
+        custodianId: discoveryFile.custodianId,
+        originalPath: discoveryFile.originalPath,
+        fileModifiedAt: discoveryFile.fileModifiedAt,
         analysis: discoveryFile.analysis,
         status: discoveryFile.isProcessing ? 'processing' : 'complete',
       }),
     });
 
     if (!docResponse.ok) {
-      throw new Error('Failed to create document record');
+      const error = await docResponse.json().catch(() => ({}));
+      throw new Error(error.details || error.error || 'Failed to create document record');
     }
 
-    const { document } = await docResponse.json();
+    const { document, duplicateOf } = await docResponse.json();
 
     return {
       documentId: document.id,
       storagePath,
       signedUrl,
+      duplicateOf: (duplicateOf ?? null) as { id: string; bates_formatted: string | null; analysis: AnalysisData | null } | null,
     };
   } catch (error) {
     console.error('Error saving document to cloud:', error);
@@ -124,7 +347,7 @@ export async function saveDocumentToCloud(discoveryFile: DiscoveryFile, projectI
 }
 
 export async function updateDocumentAnalysis(documentId: string, analysis: any) {
-  const response = await fetch(`/api/documents/${documentId}`, {
+  const response = await authFetch(`/api/documents/${documentId}`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -142,7 +365,7 @@ export async function updateDocumentAnalysis(documentId: string, analysis: any)
 }
 
 export async function updateDocumentStatus(documentId: string, status: 'processing' | 'complete' | 'failed', errorMessage?: string) {
-  const response = await fetch(`/api/documents/${documentId}`, {
+  const response = await authFetch(`/api/documents/${documentId}`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -160,7 +383,7 @@ export async function updateDocumentStatus(documentId: string, status: 'processi
 }
 
 export async function deleteDocument(documentId: string) {
-  const response = await fetch(`/api/documents/${documentId}`, {
+  const response = await authFetch(`/api/documents/${documentId}`, {
     method: 'DELETE',
   });
 
@@ -171,3 +394,671 @@ export async function deleteDocument(documentId: string) {
 
   return response.json();
 }
+
+// Family Operations
+export async function measureDocumentFamily(file: File): Promise<{ childCount: number; descendantPages: number }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('fileName', file.name);
+  formData.append('mimeType', file.type);
+
+  const response = await authFetch('/api/documents/family-size', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || `Failed to measure ${file.name}`);
+  }
+
+  return response.json();
+}
+
+export async function getDocumentFamily(documentId: string): Promise<{ rootId: string; members: FamilyMember[] }> {
+  const response = await authFetch(`/api/documents/${documentId}/family`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load document family');
+  }
+
+  return response.json();
+}
+
+export async function updateDocumentPrivilege(
+  documentId: string,
+  coding: Pick<PrivilegeCoding, 'status' | 'bases' | 'description'>
+): Promise<PrivilegeCoding> {
+  const response = await authFetch(`/api/documents/${documentId}/privilege`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(coding),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to save privilege coding');
+  }
+
+  const { privilege } = await response.json();
+  return privilege;
+}
+
+// Review Coding Operations
+export async function getCodingLayout(projectId: string): Promise<CodingLayout> {
+  const response = await authFetch(`/api/projects/${projectId}/coding-layout`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load coding layout');
+  }
+
+  const { layout } = await response.json();
+  return layout;
+}
+
+export async function saveCodingLayout(
+  projectId: string,
+  layout: { name: string; fields: CodingField[] }
+): Promise<CodingLayout> {
+  const response = await authFetch(`/api/projects/${projectId}/coding-layout`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(layout),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to save coding layout');
+  }
+
+  const { layout: saved } = await response.json();
+  return saved;
+}
+
+export async function getProjectCodings(projectId: string): Promise<Record<string, CodingValues>> {
+  const response = await authFetch(`/api/projects/${projectId}/codings`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load document coding');
+  }
+
+  const { codings } = await response.json();
+  return codings;
+}
+
+export async function saveDocumentCoding(documentId: string, values: CodingValues): Promise<CodingValues> {
+  const response = await authFetch(`/api/documents/${documentId}/coding`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ values }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to save document coding');
+  }
+
+  const { coding } = await response.json();
+  return coding.values;
+}
+
+// Review Batch Operations
+export async function getReviewBatches(projectId: string): Promise<ReviewBatch[]> {
+  const response = await authFetch(`/api/projects/${projectId}/batches`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load review batches');
+  }
+
+  const { batches } = await response.json();
+  return batches;
+}
+
+export async function createReviewBatches(
+  projectId: string,
+  options: { criteria: ReviewBatchCriteria; batchSize: number; name?: string; assignee?: string | null }
+): Promise<ReviewBatch[]> {
+  const response = await authFetch(`/api/projects/${projectId}/batches`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to create review batches');
+  }
+
+  const { batches } = await response.json();
+  return batches;
+}
+
+export async function getReviewBatch(
+  projectId: string,
+  batchId: string
+): Promise<{ batch: ReviewBatch; documents: ReviewBatchDocument[] }> {
+  const response = await authFetch(`/api/projects/${projectId}/batches/${batchId}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load review batch');
+  }
+
+  return response.json();
+}
+
+export async function assignReviewBatch(projectId: string, batchId: string, assignee: string | null): Promise<ReviewBatch> {
+  const response = await authFetch(`/api/projects/${projectId}/batches/${batchId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ assignee }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to assign review batch');
+  }
+
+  const { batch } = await response.json();
+  return batch;
+}
+
+export async function deleteReviewBatch(projectId: string, batchId: string): Promise<void> {
+  const response = await authFetch(`/api/projects/${projectId}/batches/${batchId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to delete review batch');
+  }
+}
+
+export async function checkOutReviewBatch(projectId: string, batchId: string): Promise<ReviewBatch> {
+  const response = await authFetch(`/api/projects/${projectId}/batches/${batchId}/checkout`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to check out review batch');
+  }
+
+  const { batch } = await response.json();
+  return batch;
+}
+
+export async function checkInReviewBatch(
+  projectId: string,
+  batchId: string,
+  complete: boolean
+): Promise<ReviewBatch> {
+  const response = await authFetch(`/api/projects/${projectId}/batches/${batchId}/checkin`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ complete }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to check in review batch');
+  }
+
+  const { batch } = await response.json();
+  return batch;
+}
+
+// Duplicate Operations
+export async function getDuplicateGroups(projectId: string): Promise<DuplicateGroup[]> {
+  const response = await authFetch(`/api/projects/${projectId}/duplicates`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load duplicate groups');
+  }
+
+  const { groups } = await response.json();
+  return groups;
+}
+
+export async function resolveDuplicateGroup(
+  projectId: string,
+  groupId: string,
+  masterDocumentId: string,
+  suppressDuplicates: boolean
+): Promise<{ requeued: string[] }> {
+  const response = await authFetch(`/api/projects/${projectId}/duplicates`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ groupId, masterDocumentId, suppressDuplicates }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to update duplicate group');
+  }
+
+  return response.json();
+}
+
+export async function dismissDuplicateGroup(projectId: string, groupId: string): Promise<{ requeued: string[] }> {
+  const response = await authFetch(`/api/projects/${projectId}/duplicates?groupId=${encodeURIComponent(groupId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to dismiss duplicate group');
+  }
+
+  return response.json();
+}
+
+// Email Thread Operations
+export async function getEmailThreads(projectId: string): Promise<EmailThreadSummary[]> {
+  const response = await authFetch(`/api/projects/${projectId}/threads`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load email threads');
+  }
+
+  const { threads } = await response.json();
+  return threads;
+}
+
+export async function rebuildEmailThreads(
+  projectId: string
+): Promise<{ threads: EmailThreadSummary[]; messages: number; requeued: number }> {
+  const response = await authFetch(`/api/projects/${projectId}/threads`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to rebuild email threads');
+  }
+
+  return response.json();
+}
+
+export async function getDocumentThread(
+  documentId: string
+): Promise<{ thread: EmailThreadSummary | null; messages: ThreadMessage[] }> {
+  const response = await authFetch(`/api/documents/${documentId}/thread`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load email thread');
+  }
+
+  return response.json();
+}
+
+export async function getDepositionTestimony(documentId: string): Promise<DepositionTestimony> {
+  const response = await authFetch(`/api/documents/${documentId}/deposition`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load transcript');
+  }
+
+  return response.json();
+}
+
+export async function getDocumentTranscript(documentId: string): Promise<{
+  transcript: MediaTranscript | null;
+  queued: boolean;
+  speakers: TranscriptSpeaker[];
+  people: Array<{ id: string; name: string }>;
+}> {
+  const response = await authFetch(`/api/documents/${documentId}/transcript`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load transcript');
+  }
+
+  return response.json();
+}
+
+export async function requestTranscription(documentId: string): Promise<{ queued: boolean }> {
+  const response = await authFetch(`/api/documents/${documentId}/transcript`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to queue transcription');
+  }
+
+  return response.json();
+}
+
+export async function identifyTranscriptSpeaker(
+  documentId: string,
+  label: string,
+  person: { entityId?: string | null; name?: string | null }
+): Promise<TranscriptSpeaker[]> {
+  const response = await authFetch(`/api/documents/${documentId}/transcript/speakers`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ label, ...person }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to identify speaker');
+  }
+
+  const result = await response.json();
+  return result.speakers;
+}
+
+// Media Clip Operations
+export async function getDocumentClips(documentId: string): Promise<MediaClip[]> {
+  const response = await authFetch(`/api/documents/${documentId}/clips`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load clips');
+  }
+
+  const result = await response.json();
+  return result.clips;
+}
+
+export async function createDocumentClip(
+  documentId: string,
+  clip: { startMs: number; endMs: number; overlays: ClipOverlays; description?: string }
+): Promise<MediaClip> {
+  const response = await authFetch(`/api/documents/${documentId}/clips`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(clip),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to create clip');
+  }
+
+  const result = await response.json();
+  return result.clip;
+}
+
+// Thumbnail Operations
+export async function getDocumentThumbnails(documentId: string): Promise<{ thumbnails: ThumbnailSet | null; queued: boolean }> {
+  const response = await authFetch(`/api/documents/${documentId}/thumbnails`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load thumbnails');
+  }
+
+  return response.json();
+}
+
+export async function requestThumbnails(documentId: string): Promise<{ queued: boolean }> {
+  const response = await authFetch(`/api/documents/${documentId}/thumbnails`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to queue thumbnails');
+  }
+
+  return response.json();
+}
+
+export async function getProjectThumbnails(projectId: string): Promise<{ posters: Record<string, string>; missingCount: number; queuedCount: number }> {
+  const response = await authFetch(`/api/projects/${projectId}/thumbnails`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load thumbnails');
+  }
+
+  return response.json();
+}
+
+export async function requestProjectThumbnails(projectId: string): Promise<{ queued: number }> {
+  const response = await authFetch(`/api/projects/${projectId}/thumbnails`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to queue thumbnails');
+  }
+
+  return response.json();
+}
+
+// Redaction Operations
+export async function getRedactions(documentId: string): Promise<{ redactions: Redaction[]; extractedText: string | null }> {
+  const response = await authFetch(`/api/documents/${documentId}/redactions`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load redactions');
+  }
+
+  return response.json();
+}
+
+export async function createRedaction(documentId: string, draft: RedactionDraft): Promise<Redaction> {
+  const response = await authFetch(`/api/documents/${documentId}/redactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to add redaction');
+  }
+
+  const { redaction } = await response.json();
+  return redaction;
+}
+
+export async function updateRedaction(
+  documentId: string,
+  redactionId: string,
+  patch: Partial<Pick<Redaction, 'status' | 'reason' | 'box'>>
+): Promise<Redaction> {
+  const response = await authFetch(`/api/documents/${documentId}/redactions/${redactionId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to update redaction');
+  }
+
+  const { redaction } = await response.json();
+  return redaction;
+}
+
+export async function deleteRedaction(documentId: string, redactionId: string): Promise<void> {
+  const response = await authFetch(`/api/documents/${documentId}/redactions/${redactionId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete redaction');
+  }
+}
+
+export async function suggestRedactions(documentId: string): Promise<{ suggested: number; redactions: Redaction[] }> {
+  const response = await authFetch(`/api/documents/${documentId}/redactions/suggest`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to suggest redactions');
+  }
+
+  return response.json();
+}
+
+/** A rendered PDF page for the redaction editor, with the document's page count. */
+export async function getDocumentPage(documentId: string, page: number): Promise<{ image: Blob; pageCount: number }> {
+  const response = await authFetch(`/api/documents/${documentId}/pages/${page}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to render page');
+  }
+
+  return {
+    image: await response.blob(),
+    pageCount: parseInt(response.headers.get('X-Page-Count') || '1', 10),
+  };
+}
+
+// Search Operations
+export async function searchDocuments(projectId: string, query: string, limit?: number): Promise<SearchHit[]> {
+  const params = new URLSearchParams({ projectId, q: query });
+  if (limit !== undefined) params.set('limit', String(limit));
+
+  const response = await authFetch(`/api/search?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to search documents');
+  }
+
+  const { hits } = await response.json();
+  return hits;
+}
+
+const filenameFromDisposition = (header: string | null, fallback: string): string => {
+  const match = header?.match(/filename="?([^";]+)"?/);
+  return match ? match[1] : fallback;
+};
+
+const requestExport = async (
+  url: string,
+  body: Record<string, unknown>,
+  fallbackName: string,
+  failureMessage: string
+): Promise<{ blob: Blob; fileName: string }> => {
+  const response = await authFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || failureMessage);
+  }
+
+  return {
+    blob: await response.blob(),
+    fileName: filenameFromDisposition(response.headers.get('Content-Disposition'), fallbackName),
+  };
+};
+
+export async function exportProduction(
+  projectId: string,
+  options: { legend?: string; documentIds?: string[] } = {}
+): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/production`, options, 'production.zip', 'Failed to export production');
+}
+
+export async function exportLoadFile(
+  projectId: string,
+  options: { volume?: string; includeImages?: boolean; legend?: string; documentIds?: string[] } = {}
+): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/loadfile`, options, 'loadfile.zip', 'Failed to export load file');
+}
+
+export async function exportPrivilegeLog(projectId: string, format: PrivilegeLogFormat): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/privilege-log`, { format }, `privilege_log.${format}`, 'Failed to export privilege log');
+}
+
+export async function exportRedactionLog(projectId: string, format: RedactionLogFormat): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/redaction-log`, { format }, `redaction_log.${format}`, 'Failed to export redaction log');
+}
+
+export async function exportCustodyReport(
+  projectId: string,
+  batesNumber: string,
+  format: CustodyReportFormat
+): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/custody-report`, { batesNumber, format }, `custody.${format}`, 'Failed to export chain of custody');
+}
+
+export async function exportExhibitClips(
+  projectId: string,
+  options: { prefix: string; clipIds?: string[] }
+): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/projects/${projectId}/exhibits`, options, 'exhibits.zip', 'Failed to export exhibit clips');
+}
+
+export async function exportDepositionDigest(
+  documentId: string,
+  format: DepositionDigestFormat
+): Promise<{ blob: Blob; fileName: string }> {
+  return requestExport(`/api/documents/${documentId}/deposition/digest`, { format }, `digest.${format}`, 'Failed to export deposition digest');
+}
+
+export async function getAuditLog(
+  projectId: string,
+  options: { documentId?: string; limit?: number } = {}
+): Promise<{ entries: AuditEntry[]; chain: AuditChainStatus }> {
+  const params = new URLSearchParams();
+  if (options.documentId) params.set('documentId', options.documentId);
+  if (options.limit) params.set('limit', String(options.limit));
+
+  const response = await authFetch(`/api/projects/${projectId}/audit?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to fetch audit log');
+  }
+
+  return response.json();
+}
+
+export async function downloadRedactedDocument(documentId: string): Promise<{ blob: Blob; fileName: string }> {
+  const response = await authFetch(`/api/documents/${documentId}/redacted`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to produce redacted document');
+  }
+
+  return {
+    blob: await response.blob(),
+    fileName: filenameFromDisposition(response.headers.get('Content-Disposition'), 'redacted.pdf'),
+  };
+}
+
+export async function importLoadFileRecord(
+  projectId: string,
+  record: LoadFileImportRecord,
+  files: { native?: File | null; images?: File[]; text?: File | null },
+  producingParty?: string
+): Promise<{ document: { id: string; storage_path: string; custodian_id: string | null }; batesNumber: BatesNumber; nextBatesNumber: number }> {
+  const formData = new FormData();
+  formData.append('record', JSON.stringify({
+    producingBegBates: record.producingBegBates,
+    producingEndBates: record.producingEndBates,
+    pageCount: record.pageCount,
+    fileName: record.fileName,
+    fields: record.fields,
+  }));
+  if (producingParty) formData.append('producingParty', producingParty);
+  if (files.native) formData.append('native', files.native);
+  (files.images || []).forEach(image => formData.append('images', image));
+  if (files.text) formData.append('text', files.text);
+
+  const response = await authFetch(`/api/projects/${projectId}/import`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || `Failed to import ${record.producingBegBates}`);
+  }
+
+  return response.json();
+}
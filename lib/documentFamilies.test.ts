@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { MAX_FAMILY_DEPTH, measureFamily, zipChildren } from './documentFamilies';
+import { containerKind } from './fileTypes';
+
+const pdfWithPages = async (pages: number) => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) pdf.addPage();
+  return Buffer.from(await pdf.save());
+};
+
+const EMAIL_WITH_ATTACHMENT = [
+  'From: a@example.com',
+  'Subject: Contract',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain',
+  '',
+  'See attached.',
+  '--b1',
+  'Content-Type: text/plain; name="terms.txt"',
+  'Content-Disposition: attachment; filename="terms.txt"',
+  '',
+  'Terms',
+  '--b1--',
+  '',
+].join('\r\n');
+
+describe('containerKind', () => {
+  it('recognizes archives and mail by MIME type or extension', () => {
+    expect(containerKind('application/zip')).toBe('zip');
+    expect(containerKind('application/x-zip-compressed')).toBe('zip');
+    expect(containerKind('application/gzip')).toBeNull();
+    expect(containerKind('', 'inbox.mbox')).toBe('mbox');
+    expect(containerKind('application/octet-stream', 'note.eml')).toBe('email');
+    expect(containerKind('application/pdf', 'bundle.zip')).toBeNull();
+  });
+});
+
+describe('zipChildren', () => {
+  it('skips folders and OS clutter and orders entries by path', async () => {
+    const zip = new JSZip();
+    zip.file('b/report.pdf', 'pdf');
+    zip.file('a.txt', 'a');
+    zip.file('.DS_Store', 'junk');
+    zip.file('b/Thumbs.db', 'junk');
+    zip.folder('empty');
+
+    const children = await zipChildren(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    expect(children.map(c => c.metadata.archive)).toEqual([
+      { index: 0, path: 'a.txt' },
+      { index: 1, path: 'b/report.pdf' },
+    ]);
+    expect(children[1]).toMatchObject({ fileName: 'report.pdf', mimeType: 'application/pdf' });
+  });
+});
+
+describe('measureFamily', () => {
+  it('counts pages for every descendant, including nested containers', async () => {
+    const inner = new JSZip();
+    inner.file('one.txt', '1');
+    inner.file('two.pdf', await pdfWithPages(2));
+
+    const zip = new JSZip();
+    zip.file('scan.pdf', await pdfWithPages(3));
+    zip.file('notes.txt', 'notes');
+    zip.file('inner.zip', await inner.generateAsync({ type: 'nodebuffer' }));
+    zip.file('mail.eml', EMAIL_WITH_ATTACHMENT);
+
+    const size = await measureFamily(await zip.generateAsync({ type: 'nodebuffer' }), 'application/zip', 'bundle.zip');
+
+    // scan 3 + notes 1 + (inner 1 + 1 + 2) + (mail 1 + terms 1)
+    expect(size).toEqual({ childCount: 4, descendantPages: 10 });
+  });
+
+  it('reserves nothing for plain files, unreadable containers or past the depth limit', async () => {
+    expect(await measureFamily(Buffer.from('text'), 'text/plain', 'a.txt')).toEqual({ childCount: 0, descendantPages: 0 });
+    expect(await measureFamily(Buffer.from('not a zip'), 'application/zip', 'a.zip')).toEqual({ childCount: 0, descendantPages: 0 });
+    expect(await measureFamily(Buffer.from(EMAIL_WITH_ATTACHMENT), 'message/rfc822', 'a.eml', MAX_FAMILY_DEPTH)).toEqual({
+      childCount: 0,
+      descendantPages: 0,
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import JSZip from 'jszip';
+import { countPdfPages } from './bates';
+import { parseEmail, splitMbox, type ParsedEmail } from './emailParser';
+import { containerKind, mimeTypeFromName, type ContainerKind } from './fileTypes';
+
+/** A file found inside a container (archive entry, attachment, mbox message). */
+export interface ExtractedChild {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  metadata: Record<string, unknown>;
+}
+
+export interface FamilySize {
+  childCount: number;
+  /** Bates pages needed by every descendant, not counting the container itself. */
+  descendantPages: number;
+}
+
+// Nested containers beyond this depth are numbered from the project counter instead.
+export const MAX_FAMILY_DEPTH = 5;
+
+const ARCHIVE_JUNK = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+
+const baseName = (path: string) => path.split('/').filter(Boolean).pop() || path;
+
+export const emailAttachmentChildren = (email: ParsedEmail): ExtractedChild[] =>
+  email.attachments.map((attachment, index) => ({
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    content: attachment.content,
+    metadata: { attachment: { index, contentId: attachment.contentId, inline: attachment.inline } },
+  }));
+
+export const mboxMessageChild = (raw: Buffer, email: ParsedEmail, index: number): ExtractedChild => {
+  const subject = email.headers.subject.replace(/[\\/]/g, '_').trim().slice(0, 80);
+  return {
+    fileName: `${String(index + 1).padStart(4, '0')} ${subject || 'message'}.eml`,
+    mimeType: 'message/rfc822',
+    content: raw,
+    metadata: { mbox: { index } },
+  };
+};
+
+/** Every file in a zip, in path order so Bates numbers follow the archive layout. */
+export const zipChildren = async (buffer: Buffer): Promise<ExtractedChild[]> => {
+  const archive = await new JSZip().loadAsync(buffer);
+  const paths = Object.keys(archive.files)
+    .filter(path => !archive.files[path].dir && !ARCHIVE_JUNK.test(path))
+    .sort((a, b) => a.localeCompare(b));
+
+  const children: ExtractedChild[] = [];
+  for (const [index, path] of paths.entries()) {
+    const fileName = baseName(path);
+    children.push({
+      fileName,
+      mimeType: mimeTypeFromName(fileName),
+      content: await archive.files[path].async('nodebuffer'),
+      metadata: { archive: { index, path } },
+    });
+  }
+  return children;
+};
+
+export const listContainerChildren = async (buffer: Buffer, kind: ContainerKind): Promise<ExtractedChild[]> => {
+  switch (kind) {
+    case 'zip':
+      return zipChildren(buffer);
+    case 'email':
+      return emailAttachmentChildren(parseEmail(buffer));
+    case 'mbox':
+      return splitMbox(buffer).map((raw, index) => mboxMessageChild(raw, parseEmail(raw), index));
+  }
+};
+
+/** PDFs take one Bates number per page; everything else is a single page. */
+export const childPageCount = async (child: Pick<ExtractedChild, 'mimeType' | 'content'>): Promise<number> => {
+  if (child.mimeType !== 'application/pdf') return 1;
+  try {
+    return await countPdfPages(child.content);
+  } catch {
+    return 1;
+  }
+};
+
+/**
+ * How many Bates pages a container's descendants will take once exploded, so
+ * the container can reserve them directly after its own range.
+ */
+export const measureFamily = async (
+  buffer: Buffer,
+  mimeType: string | null | undefined,
+  fileName = '',
+  depth = 0
+): Promise<FamilySize> => {
+  const kind = containerKind(mimeType, fileName);
+  if (!kind || depth >= MAX_FAMILY_DEPTH) return { childCount: 0, descendantPages: 0 };
+
+  let children: ExtractedChild[];
+  try {
+    children = await listContainerChildren(buffer, kind);
+  } catch {
+    // Unreadable containers are produced as a single document.
+    return { childCount: 0, descendantPages: 0 };
+  }
+
+  let descendantPages = 0;
+  for (const child of children) {
+    descendantPages += await familyPageCount(child, depth + 1);
+  }
+  return { childCount: children.length, descendantPages };
+};
+
+/** Pages for a child plus everything nested inside it. */
+export const familyPageCount = async (child: ExtractedChild, depth = 1): Promise<number> => {
+  const nested = await measureFamily(child.content, child.mimeType, child.fileName, depth);
+  return (await childPageCount(child)) + nested.descendantPages;
+};
@@ -0,0 +1,291 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { estimateSimilarity, fingerprintText, NEAR_DUPLICATE_THRESHOLD } from './nearDuplicates';
+import type { DuplicateGroup, DuplicateGroupKind } from './types';
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+type JobType = Database['public']['Tables']['job_queue']['Row']['job_type'];
+
+export type DuplicateCandidate = Pick<
+  DocumentRow,
+  'id' | 'project_id' | 'content_hash' | 'extracted_text' | 'duplicate_group_id'
+>;
+
+export interface DuplicateMatch {
+  groupId: string;
+  kind: DuplicateGroupKind;
+  masterDocumentId: string | null;
+  similarity: number;
+  suppressed: boolean;
+}
+
+// Near-duplicate candidates per document; LSH keeps this small in practice.
+const MAX_NEAR_CANDIDATES = 200;
+
+const findExactMatch = async (supabase: SupabaseClient<Database>, document: DuplicateCandidate) => {
+  if (!document.content_hash) return null;
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, duplicate_group_id')
+    .eq('project_id', document.project_id!)
+    .eq('content_hash', document.content_hash)
+    .neq('id', document.id)
+    .order('created_at', { ascending: true })
+    .limit(20);
+  if (error) throw new Error(`Failed to look up exact duplicates: ${error.message}`);
+  if (!data || data.length === 0) return null;
+  return data.find(doc => doc.duplicate_group_id) || data[0];
+};
+
+const findNearMatch = async (
+  supabase: SupabaseClient<Database>,
+  document: DuplicateCandidate,
+  fingerprint: NonNullable<ReturnType<typeof fingerprintText>>
+) => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, duplicate_group_id, minhash_signature')
+    .eq('project_id', document.project_id!)
+    .neq('id', document.id)
+    .overlaps('minhash_bands', fingerprint.bands)
+    .limit(MAX_NEAR_CANDIDATES);
+  if (error) throw new Error(`Failed to look up near duplicates: ${error.message}`);
+
+  let best: { id: string; duplicate_group_id: string | null; similarity: number } | null = null;
+  for (const candidate of data || []) {
+    const similarity = estimateSimilarity(fingerprint.signature, candidate.minhash_signature || []);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { id: candidate.id, duplicate_group_id: candidate.duplicate_group_id, similarity };
+    }
+  }
+  return best;
+};
+
+/**
+ * Fingerprint a freshly extracted document and place it in a duplicate group.
+ * Identical content hashes win over MinHash similarity. A new group's master is
+ * the earlier document; exact copies of a master are suppressed straight away,
+ * near-duplicates wait for a reviewer. Safe to re-run: a document already in a
+ * group keeps it.
+ */
+export async function detectDuplicates(
+  supabase: SupabaseClient<Database>,
+  document: DuplicateCandidate
+): Promise<DuplicateMatch | null> {
+  if (!document.project_id) return null;
+
+  const fingerprint = fingerprintText(document.extracted_text);
+  const { error: fingerprintError } = await supabase
+    .from('documents')
+    .update({ minhash_signature: fingerprint?.signature ?? null, minhash_bands: fingerprint?.bands ?? null })
+    .eq('id', document.id);
+  if (fingerprintError) throw new Error(`Failed to store MinHash signature: ${fingerprintError.message}`);
+
+  if (document.duplicate_group_id) return null;
+
+  const exact = await findExactMatch(supabase, document);
+  const match = exact
+    ? { ...exact, similarity: 1 }
+    : fingerprint
+      ? await findNearMatch(supabase, document, fingerprint)
+      : null;
+  if (!match) return null;
+
+  const kind: DuplicateGroupKind = exact ? 'exact' : 'near';
+  let groupId = match.duplicate_group_id;
+  let masterDocumentId: string | null = match.id;
+  let groupKind = kind;
+
+  if (groupId) {
+    const { data: group, error } = await supabase
+      .from('duplicate_groups')
+      .select('kind, master_document_id')
+      .eq('id', groupId)
+      .single();
+    if (error) throw new Error(`Failed to load duplicate group: ${error.message}`);
+    masterDocumentId = group.master_document_id;
+    groupKind = group.kind === 'near' || kind === 'near' ? 'near' : 'exact';
+    if (groupKind !== group.kind) {
+      await supabase.from('duplicate_groups').update({ kind: groupKind, updated_at: new Date().toISOString() }).eq('id', groupId);
+    }
+  } else {
+    const { data: group, error } = await supabase
+      .from('duplicate_groups')
+      .insert({ project_id: document.project_id, kind, master_document_id: match.id })
+      .select('id')
+      .single();
+    if (error) throw new Error(`Failed to create duplicate group: ${error.message}`);
+    groupId = group.id;
+
+    const { error: masterError } = await supabase
+      .from('documents')
+      .update({ duplicate_group_id: groupId, duplicate_similarity: null })
+      .eq('id', match.id);
+    if (masterError) throw new Error(`Failed to assign duplicate group master: ${masterError.message}`);
+  }
+
+  let suppressed = false;
+  if (exact && masterDocumentId) {
+    const { data: master } = await supabase.from('documents').select('content_hash').eq('id', masterDocumentId).maybeSingle();
+    suppressed = master?.content_hash === document.content_hash;
+  }
+
+  const { error: updateError } = await supabase
+    .from('documents')
+    .update({ duplicate_group_id: groupId, duplicate_similarity: match.similarity, analysis_suppressed: suppressed })
+    .eq('id', document.id);
+  if (updateError) throw new Error(`Failed to record duplicate: ${updateError.message}`);
+
+  return { groupId, kind: groupKind, masterDocumentId, similarity: match.similarity, suppressed };
+}
+
+/**
+ * The document an upload duplicates exactly, if any: the master of its group,
+ * otherwise the earliest copy. Lets callers reuse an existing analysis.
+ */
+export async function findExactDuplicateMaster(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  contentHash: string,
+  excludeId: string
+): Promise<Pick<DocumentRow, 'id' | 'bates_formatted' | 'analysis'> | null> {
+  const exact = await findExactMatch(supabase, { id: excludeId, project_id: projectId, content_hash: contentHash, extracted_text: null, duplicate_group_id: null });
+  if (!exact) return null;
+
+  let masterId = exact.id;
+  if (exact.duplicate_group_id) {
+    const { data: group } = await supabase.from('duplicate_groups').select('master_document_id').eq('id', exact.duplicate_group_id).maybeSingle();
+    masterId = group?.master_document_id || exact.id;
+  }
+
+  const { data: master, error } = await supabase.from('documents').select('id, bates_formatted, analysis').eq('id', masterId).maybeSingle();
+  if (error) throw error;
+  return master;
+}
+
+export async function loadDuplicateGroups(supabase: SupabaseClient<Database>, projectId: string): Promise<DuplicateGroup[]> {
+  const { data: groups, error } = await supabase
+    .from('duplicate_groups')
+    .select('id, kind, master_document_id, reviewed_at, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  if (!groups || groups.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('documents')
+    .select('id, name, bates_formatted, duplicate_group_id, duplicate_similarity, analysis_suppressed, analysis, status, content_hash, created_at')
+    .in('duplicate_group_id', groups.map(g => g.id));
+  if (membersError) throw membersError;
+
+  return groups
+    .map(group => ({
+      id: group.id,
+      kind: group.kind,
+      masterDocumentId: group.master_document_id,
+      reviewedAt: group.reviewed_at,
+      members: (members || [])
+        .filter(member => member.duplicate_group_id === group.id)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(member => ({
+          id: member.id,
+          name: member.name,
+          batesFormatted: member.bates_formatted,
+          similarity: member.id === group.master_document_id ? 1 : member.duplicate_similarity,
+          suppressed: member.analysis_suppressed,
+          analyzed: member.analysis !== null,
+          status: member.status,
+          contentHash: member.content_hash,
+        })),
+    }))
+    .filter(group => group.members.length > 1);
+}
+
+const enqueueJobs = async (supabase: SupabaseClient<Database>, projectId: string, documentIds: string[], jobTypes: JobType[]) => {
+  if (documentIds.length === 0) return;
+  const { error } = await supabase.from('job_queue').insert(
+    documentIds.flatMap(documentId =>
+      jobTypes.map(jobType => ({ project_id: projectId, document_id: documentId, job_type: jobType, priority: 0, status: 'pending' as const, attempts: 0, max_attempts: 3 }))
+    )
+  );
+  if (error) throw new Error(`Failed to queue jobs: ${error.message}`);
+};
+
+const loadGroupMembers = async (supabase: SupabaseClient<Database>, projectId: string, groupId: string) => {
+  const { data: group, error } = await supabase
+    .from('duplicate_groups')
+    .select('id')
+    .eq('id', groupId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!group) return null;
+
+  const { data: members, error: membersError } = await supabase
+    .from('documents')
+    .select('id, analysis_suppressed, analysis')
+    .eq('duplicate_group_id', groupId);
+  if (membersError) throw membersError;
+  return members || [];
+};
+
+/**
+ * Record a reviewer's decision. The master is always analyzed; the rest are
+ * suppressed or released. Documents that were suppressed and come back get
+ * their analysis and embedding jobs queued. Returns null for an unknown group.
+ */
+export async function resolveDuplicateGroup(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  groupId: string,
+  masterDocumentId: string,
+  suppressDuplicates: boolean
+): Promise<{ requeued: string[] } | null> {
+  const members = await loadGroupMembers(supabase, projectId, groupId);
+  if (!members) return null;
+  if (!members.some(member => member.id === masterDocumentId)) {
+    throw new Error('Master document is not a member of this duplicate group');
+  }
+
+  const now = new Date().toISOString();
+  const { error: groupError } = await supabase
+    .from('duplicate_groups')
+    .update({ master_document_id: masterDocumentId, reviewed_at: now, updated_at: now })
+    .eq('id', groupId);
+  if (groupError) throw groupError;
+
+  const requeued: string[] = [];
+  for (const member of members) {
+    const suppressed = member.id !== masterDocumentId && suppressDuplicates;
+    if (member.analysis_suppressed === suppressed) continue;
+    const { error } = await supabase.from('documents').update({ analysis_suppressed: suppressed, updated_at: now }).eq('id', member.id);
+    if (error) throw error;
+    if (!suppressed && member.analysis === null) requeued.push(member.id);
+  }
+
+  await enqueueJobs(supabase, projectId, requeued, ['analyze', 'embed']);
+  return { requeued };
+}
+
+/** "Not duplicates": release every member and drop the group. */
+export async function dismissDuplicateGroup(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  groupId: string
+): Promise<{ requeued: string[] } | null> {
+  const members = await loadGroupMembers(supabase, projectId, groupId);
+  if (!members) return null;
+
+  const { error: releaseError } = await supabase
+    .from('documents')
+    .update({ duplicate_group_id: null, duplicate_similarity: null, analysis_suppressed: false, updated_at: new Date().toISOString() })
+    .eq('duplicate_group_id', groupId);
+  if (releaseError) throw releaseError;
+
+  const { error: deleteError } = await supabase.from('duplicate_groups').delete().eq('id', groupId);
+  if (deleteError) throw deleteError;
+
+  const requeued = members.filter(member => member.analysis_suppressed && member.analysis === null).map(member => member.id);
+  await enqueueJobs(supabase, projectId, requeued, ['analyze', 'embed']);
+  return { requeued };
+}
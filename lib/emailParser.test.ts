@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeEncodedWords,
+  decodeQuotedPrintable,
+  formatEmailText,
+  parseAddressList,
+  parseEmail,
+  parseHeaderValue,
+  splitMbox,
+} from './emailParser';
+
+const MULTIPART_EMAIL = [
+  'From: "Doe, Jane" <Jane.Doe@example.com>',
+  'To: Bob Smith <bob@example.com>, carol@example.com',
+  'Cc: =?UTF-8?B?Sm9zw6kgR2FyY8OtYQ==?= <jose@example.com>',
+  'Date: Tue, 14 Mar 2023 09:30:00 -0500',
+  'Subject: =?iso-8859-1?Q?Re:_Caf=E9_invoice?=',
+  'Message-ID: <msg-2@example.com>',
+  'In-Reply-To: <msg-1@example.com>',
+  'References: <msg-0@example.com>',
+  '  <msg-1@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="alt"',
+  '',
+  '--alt',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'The invoice is =E2=82=AC500 and due Friday. This line is a soft=',
+  ' break.',
+  '--alt',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>The invoice is &euro;500</p>',
+  '--alt--',
+  '--outer',
+  'Content-Type: application/pdf; name="invoice.pdf"',
+  'Content-Disposition: attachment; filename="invoice.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('%PDF-1.4 fake').toString('base64'),
+  '--outer',
+  'Content-Type: text/plain',
+  "Content-Disposition: attachment; filename*=UTF-8''notas%20de%20reuni%C3%B3n.txt",
+  '',
+  'meeting notes',
+  '--outer--',
+  '',
+].join('\r\n');
+
+describe('header decoding', () => {
+  it('decodes RFC 2047 encoded words', () => {
+    expect(decodeEncodedWords('=?UTF-8?B?Sm9zw6k=?= =?UTF-8?Q?_Garc=C3=ADa?=')).toBe('José García');
+    expect(decodeEncodedWords('plain subject')).toBe('plain subject');
+  });
+
+  it('parses RFC 2231 parameters', () => {
+    expect(parseHeaderValue("attachment; filename*0*=UTF-8''r%C3%A9; filename*1*=sum%C3%A9.pdf").params.filename).toBe('résumé.pdf');
+    expect(parseHeaderValue('text/plain; charset="iso-8859-1"; format=flowed')).toEqual({
+      value: 'text/plain',
+      params: { charset: 'iso-8859-1', format: 'flowed' },
+    });
+  });
+
+  it('splits address lists outside quotes', () => {
+    expect(parseAddressList('"Doe, Jane" <JANE@example.com>, bob@example.com (Bob)')).toEqual([
+      { name: 'Doe, Jane', address: 'jane@example.com' },
+      { name: 'Bob', address: 'bob@example.com' },
+    ]);
+  });
+
+  it('decodes quoted-printable bytes and soft breaks', () => {
+    expect(decodeQuotedPrintable('caf=C3=A9 au=\r\n lait').toString('utf-8')).toBe('café au lait');
+  });
+});
+
+describe('parseEmail', () => {
+  const email = parseEmail(Buffer.from(MULTIPART_EMAIL, 'utf-8'));
+
+  it('extracts structured headers', () => {
+    expect(email.headers).toEqual({
+      from: [{ name: 'Doe, Jane', address: 'jane.doe@example.com' }],
+      to: [
+        { name: 'Bob Smith', address: 'bob@example.com' },
+        { name: null, address: 'carol@example.com' },
+      ],
+      cc: [{ name: 'José García', address: 'jose@example.com' }],
+      bcc: [],
+      date: '2023-03-14T14:30:00.000Z',
+      subject: 'Re: Café invoice',
+      messageId: 'msg-2@example.com',
+      inReplyTo: 'msg-1@example.com',
+      references: ['msg-0@example.com', 'msg-1@example.com'],
+    });
+  });
+
+  it('prefers the decoded plain-text alternative', () => {
+    expect(email.text).toBe('The invoice is €500 and due Friday. This line is a soft break.');
+    expect(email.html).toContain('&euro;500');
+  });
+
+  it('splits attachments out of the body', () => {
+    expect(email.attachments.map(a => [a.fileName, a.mimeType])).toEqual([
+      ['invoice.pdf', 'application/pdf'],
+      ['notas de reunión.txt', 'text/plain'],
+    ]);
+    expect(email.attachments[0].content.toString('latin1')).toBe('%PDF-1.4 fake');
+  });
+
+  it('falls back to HTML when there is no plain body', () => {
+    const htmlOnly = parseEmail('Subject: hi\nContent-Type: text/html\n\n<div>Line one<br>Line two</div><style>p{}</style>');
+    expect(htmlOnly.text).toBe('Line one\nLine two');
+  });
+
+  it('renders a header block for extracted text', () => {
+    const text = formatEmailText(email);
+    expect(text).toContain('From: Doe, Jane <jane.doe@example.com>');
+    expect(text).toContain('Subject: Re: Café invoice');
+    expect(text).toContain('Attachments: invoice.pdf, notas de reunión.txt');
+  });
+});
+
+describe('splitMbox', () => {
+  it('splits on From_ lines and unescapes quoted From', () => {
+    const mbox = [
+      'From alice@example.com Mon Jan  2 10:00:00 2023',
+      'Subject: first',
+      '',
+      '>From the desk of Alice',
+      '',
+      'From bob@example.com Tue Jan  3 10:00:00 2023',
+      'Subject: second',
+      '',
+      'Body two',
+      '',
+    ].join('\n');
+
+    const messages = splitMbox(mbox);
+    expect(messages).toHaveLength(2);
+    expect(parseEmail(messages[0]).text).toBe('From the desk of Alice');
+    expect(parseEmail(messages[1]).headers.subject).toBe('second');
+  });
+});
@@ -0,0 +1,432 @@
+import sanitizeHtml from 'sanitize-html';
+
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+export interface EmailHeaders {
+  from: EmailAddress[];
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  /** ISO timestamp, or null when the Date header is missing or unparseable. */
+  date: string | null;
+  subject: string;
+  /** Message identifiers are stored without angle brackets. */
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+}
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  contentId: string | null;
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  headers: EmailHeaders;
+  text: string;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimeEntity {
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Raw messages are handled as latin1 strings so every byte maps to one char and
+// base64/quoted-printable payloads survive until they are decoded.
+const toBinaryString = (input: Buffer | string) => (typeof input === 'string' ? input : input.toString('latin1'));
+
+const decodeBytes = (bytes: Buffer, charset?: string | null): string => {
+  const label = (charset || 'utf-8').trim().toLowerCase().replace(/^"|"$/g, '');
+  try {
+    return new TextDecoder(label === 'us-ascii' ? 'utf-8' : label).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+/** Header text that was not RFC 2047 encoded is often raw UTF-8. */
+const decodeRawHeader = (value: string): string => {
+  const bytes = Buffer.from(value, 'latin1');
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return value;
+  }
+};
+
+export const decodeQuotedPrintable = (input: string): Buffer => {
+  const text = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/** Decode RFC 2047 encoded-words such as =?UTF-8?B?...?= and =?iso-8859-1?Q?...?=. */
+export const decodeEncodedWords = (value: string): string => {
+  const pattern = /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g;
+  if (!pattern.test(value)) return decodeRawHeader(value);
+
+  // Whitespace between adjacent encoded-words is not part of the text.
+  const joined = value.replace(/(\?=)\s+(=\?)/g, '$1$2');
+  let result = '';
+  let lastIndex = 0;
+  for (const match of joined.matchAll(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g)) {
+    result += decodeRawHeader(joined.slice(lastIndex, match.index));
+    const [, charset, encoding, payload] = match;
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(payload, 'base64')
+      : decodeQuotedPrintable(payload.replace(/_/g, ' '));
+    result += decodeBytes(bytes, charset.split('*')[0]);
+    lastIndex = match.index! + match[0].length;
+  }
+  return result + decodeRawHeader(joined.slice(lastIndex));
+};
+
+const parseHeaderBlock = (block: string): Map<string, string[]> => {
+  const headers = new Map<string, string[]>();
+  const unfolded = block.replace(/\r?\n[ \t]+/g, ' ');
+  unfolded.split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers.set(name, [...(headers.get(name) || []), value]);
+  });
+  return headers;
+};
+
+const parseEntity = (raw: string): MimeEntity => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaderBlock(raw), body: '' };
+  }
+  return {
+    headers: parseHeaderBlock(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+};
+
+const header = (entity: MimeEntity, name: string) => entity.headers.get(name)?.[0] || '';
+
+/**
+ * Split a structured header such as Content-Type into its value and parameters,
+ * including RFC 2231 extended (filename*=) and continued (filename*0=) forms.
+ */
+export const parseHeaderValue = (input: string): HeaderValue => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of input) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const [value = '', ...rawParams] = parts.map(p => p.trim());
+  const simple: Record<string, string> = {};
+  const continued: Record<string, { index: number; value: string; encoded: boolean }[]> = {};
+
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq <= 0) return;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    let paramValue = param.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const extended = key.match(/^([^*]+)\*(\d+)?(\*)?$/);
+    if (extended) {
+      const [, name, index, star] = extended;
+      const encoded = Boolean(star) || index === undefined;
+      (continued[name] ||= []).push({ index: index ? parseInt(index, 10) : 0, value: paramValue, encoded });
+    } else {
+      simple[key] = paramValue;
+    }
+  });
+
+  Object.entries(continued).forEach(([name, segments]) => {
+    segments.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: Buffer[] = segments.map((segment, i) => {
+      let text = segment.value;
+      if (segment.encoded && i === 0) {
+        const pieces = text.split("'");
+        if (pieces.length >= 3) {
+          charset = pieces[0] || charset;
+          text = pieces.slice(2).join("'");
+        }
+      }
+      return segment.encoded
+        ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+        : Buffer.from(text, 'latin1');
+    });
+    simple[name] = decodeBytes(Buffer.concat(bytes), charset);
+  });
+
+  return { value: value.toLowerCase(), params: simple };
+};
+
+/** Split an address list on commas that are outside quotes and angle brackets. */
+export const parseAddressList = (input: string): EmailAddress[] => {
+  const decoded = decodeEncodedWords(input);
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let depth = 0;
+  for (const char of decoded) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === '<') depth++;
+    else if (!inQuotes && char === '>') depth = Math.max(0, depth - 1);
+    if ((char === ',' || char === ';') && !inQuotes && depth === 0) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const angle = entry.match(/^(.*)<([^>]+)>\s*$/);
+      if (angle) {
+        const name = angle[1].trim().replace(/^"|"$/g, '').trim();
+        return { name: name || null, address: angle[2].trim().toLowerCase() };
+      }
+      const paren = entry.match(/^([^\s(]+)\s*\(([^)]*)\)$/);
+      if (paren) return { name: paren[2].trim() || null, address: paren[1].toLowerCase() };
+      return { name: null, address: entry.toLowerCase() };
+    });
+};
+
+const parseMessageIds = (input: string): string[] => {
+  const ids = input.match(/<[^>]+>/g);
+  if (ids) return ids.map(id => id.slice(1, -1).trim());
+  return input.split(/\s+/).filter(Boolean);
+};
+
+const parseDate = (input: string): string | null => {
+  if (!input) return null;
+  const parsed = new Date(input.replace(/\s*\([^)]*\)\s*$/, ''));
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const decodeBody = (entity: MimeEntity): Buffer => {
+  const encoding = header(entity, 'content-transfer-encoding').toLowerCase();
+  if (encoding === 'base64') return Buffer.from(entity.body.replace(/\s+/g, ''), 'base64');
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(entity.body);
+  return Buffer.from(entity.body, 'latin1');
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\n'));
+      if (line.trim() === `${delimiter}--`) return parts;
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current && current.length > 0) parts.push(current.join('\n'));
+  return parts;
+};
+
+const sanitizeFileName = (name: string) => name.replace(/[\\/]/g, '_').replace(/[\u0000-\u001f]/g, '').trim();
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'text/plain': '.txt',
+  'text/html': '.html',
+  'text/calendar': '.ics',
+  'message/rfc822': '.eml',
+};
+
+export const htmlToText = (html: string): string =>
+  sanitizeHtml(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n'),
+    { allowedTags: [], allowedAttributes: {}, textFilter: (text: string) => text }
+  )
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+interface CollectedParts {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+const collectParts = (entity: MimeEntity, collected: CollectedParts, depth = 0) => {
+  const contentType = parseHeaderValue(header(entity, 'content-type') || 'text/plain');
+  const disposition = parseHeaderValue(header(entity, 'content-disposition'));
+  const mimeType = contentType.value || 'text/plain';
+  const fileName = disposition.params.filename || contentType.params.name;
+
+  if (mimeType.startsWith('multipart/') && contentType.params.boundary && depth < 20) {
+    const parts = splitMultipart(entity.body, contentType.params.boundary).map(parseEntity);
+    if (mimeType === 'multipart/alternative') {
+      // Alternatives carry the same content; keep the richest one we can read as text.
+      const plain = parts.find(p => parseHeaderValue(header(p, 'content-type')).value === 'text/plain');
+      const preferred = plain || parts[parts.length - 1];
+      parts.forEach(part => {
+        if (part === preferred || parseHeaderValue(header(part, 'content-type')).value.startsWith('multipart/')) {
+          collectParts(part, collected, depth + 1);
+        } else if (parseHeaderValue(header(part, 'content-type')).value === 'text/html') {
+          collected.html.push(decodeBytes(decodeBody(part), parseHeaderValue(header(part, 'content-type')).params.charset));
+        }
+      });
+    } else {
+      parts.forEach(part => collectParts(part, collected, depth + 1));
+    }
+    return;
+  }
+
+  const isAttachment = disposition.value === 'attachment' || Boolean(fileName) || mimeType === 'message/rfc822';
+  const isBodyText = (mimeType === 'text/plain' || mimeType === 'text/html') && !isAttachment;
+
+  if (isBodyText) {
+    const text = decodeBytes(decodeBody(entity), contentType.params.charset);
+    (mimeType === 'text/plain' ? collected.plain : collected.html).push(text);
+    return;
+  }
+
+  if (!isAttachment) return;
+
+  const content = decodeBody(entity);
+  let name = fileName ? sanitizeFileName(decodeEncodedWords(fileName)) : '';
+  if (!name && mimeType === 'message/rfc822') {
+    const subject = decodeEncodedWords(header(parseEntity(content.toString('latin1')), 'subject'));
+    name = `${sanitizeFileName(subject) || 'message'}.eml`;
+  }
+  if (!name) {
+    name = `attachment-${collected.attachments.length + 1}${EXTENSION_BY_MIME[mimeType] || '.bin'}`;
+  }
+
+  collected.attachments.push({
+    fileName: name,
+    mimeType,
+    content,
+    contentId: header(entity, 'content-id').replace(/^<|>$/g, '') || null,
+    inline: disposition.value === 'inline',
+  });
+};
+
+export const parseEmail = (input: Buffer | string): ParsedEmail => {
+  const entity = parseEntity(toBinaryString(input));
+  const collected: CollectedParts = { plain: [], html: [], attachments: [] };
+  collectParts(entity, collected);
+
+  const html = collected.html.length > 0 ? collected.html.join('\n') : null;
+  const text = collected.plain.length > 0 ? collected.plain.join('\n\n') : html ? htmlToText(html) : '';
+
+  return {
+    headers: {
+      from: parseAddressList(header(entity, 'from')),
+      to: parseAddressList(header(entity, 'to')),
+      cc: parseAddressList(header(entity, 'cc')),
+      bcc: parseAddressList(header(entity, 'bcc')),
+      date: parseDate(header(entity, 'date')),
+      subject: decodeEncodedWords(header(entity, 'subject')),
+      messageId: parseMessageIds(header(entity, 'message-id'))[0] || null,
+      inReplyTo: parseMessageIds(header(entity, 'in-reply-to'))[0] || null,
+      references: parseMessageIds(header(entity, 'references')),
+    },
+    text: text.replace(/\r\n?/g, '\n').trim(),
+    html,
+    attachments: collected.attachments,
+  };
+};
+
+/**
+ * Split an mbox into raw messages. Messages start at "From " lines at the top of
+ * the file or after a blank line; ">From " quoting inside bodies is undone.
+ */
+export const splitMbox = (input: Buffer | string): Buffer[] => {
+  const lines = toBinaryString(input).split(/\r?\n/);
+  const messages: string[][] = [];
+  let current: string[] | null = null;
+
+  lines.forEach((line, i) => {
+    const startsMessage = line.startsWith('From ') && (i === 0 || lines[i - 1] === '');
+    if (startsMessage) {
+      if (current) messages.push(current);
+      current = [];
+      return;
+    }
+    current?.push(line.replace(/^>(>*From )/, '$1'));
+  });
+  if (current) messages.push(current);
+
+  return messages
+    .map(message => message.join('\n').replace(/\n+$/, '\n'))
+    .filter(message => message.trim().length > 0)
+    .map(message => Buffer.from(message, 'latin1'));
+};
+
+export const formatAddresses = (addresses: EmailAddress[]): string =>
+  addresses.map(a => (a.name ? `${a.name} <${a.address}>` : a.address)).join(', ');
+
+/** Plain-text rendering stored as extracted_text: header block, body, attachment list. */
+export const formatEmailText = (email: ParsedEmail): string => {
+  const { headers } = email;
+  const lines = [
+    `From: ${formatAddresses(headers.from)}`,
+    `To: ${formatAddresses(headers.to)}`,
+  ];
+  if (headers.cc.length) lines.push(`Cc: ${formatAddresses(headers.cc)}`);
+  if (headers.bcc.length) lines.push(`Bcc: ${formatAddresses(headers.bcc)}`);
+  if (headers.date) lines.push(`Date: ${headers.date}`);
+  lines.push(`Subject: ${headers.subject}`);
+
+  let text = `${lines.join('\n')}\n\n${email.text}`;
+  if (email.attachments.length) {
+    text += `\n\nAttachments: ${email.attachments.map(a => a.fileName).join(', ')}`;
+  }
+  return text;
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  authoredText,
+  buildEmailThreads,
+  emailBodyFromText,
+  normalizeSubject,
+  type ThreadableMessage,
+} from './emailThreading';
+
+const message = (overrides: Partial<ThreadableMessage> & Pick<ThreadableMessage, 'id'>): ThreadableMessage => ({
+  messageId: null,
+  inReplyTo: null,
+  references: [],
+  subject: 'Pricing',
+  date: null,
+  body: '',
+  attachments: [],
+  ...overrides,
+});
+
+const ORIGINAL = message({
+  id: 'doc-1',
+  messageId: 'a@example.com',
+  date: '2023-01-02T10:00:00.000Z',
+  body: 'Can you confirm the revised unit price before Friday?',
+  attachments: ['quote.pdf'],
+});
+
+const REPLY = message({
+  id: 'doc-2',
+  messageId: 'b@example.com',
+  inReplyTo: 'a@example.com',
+  references: ['a@example.com'],
+  subject: 'RE: Pricing',
+  date: '2023-01-02T11:00:00.000Z',
+  body: 'Confirmed at $4.10.\n\nOn Mon, Jan 2, 2023, Ann wrote:\n> Can you confirm the revised unit\n> price before Friday?',
+});
+
+const SECOND_REPLY = message({
+  id: 'doc-3',
+  messageId: 'c@example.com',
+  inReplyTo: 'b@example.com',
+  references: ['a@example.com', 'b@example.com'],
+  subject: 'RE: RE: Pricing',
+  date: '2023-01-02T12:00:00.000Z',
+  body: 'Thanks, booking it.\n\n-----Original Message-----\nFrom: Bob\nSent: Monday\n\nConfirmed at $4.10.\n\nOn Mon, Jan 2, 2023, Ann wrote:\n> Can you confirm the revised unit price before Friday?',
+});
+
+describe('normalizeSubject', () => {
+  it('strips stacked reply, forward and tag prefixes', () => {
+    expect(normalizeSubject('RE: [EXTERNAL] Fwd: FW:  Pricing   update')).toBe('pricing update');
+    expect(normalizeSubject('AW: Re[2]: Pricing')).toBe('pricing');
+  });
+});
+
+describe('authoredText', () => {
+  it('stops at quoted history in the common client styles', () => {
+    expect(authoredText('Yes.\n\nOn Tue, Bob wrote:\n> earlier')).toBe('Yes.');
+    expect(authoredText('Yes.\n-----Original Message-----\nFrom: Bob')).toBe('Yes.');
+    expect(authoredText('Yes.\nFrom: Bob <b@x.com>\nSent: Tuesday\nTo: Ann')).toBe('Yes.');
+  });
+});
+
+describe('emailBodyFromText', () => {
+  it('drops the header block and reads the attachment list', () => {
+    const text = 'From: a@example.com\nSubject: Hi\n\nBody line\n\nAttachments: a.pdf, b.xlsx';
+    expect(emailBodyFromText(text)).toEqual({ body: 'Body line', attachments: ['a.pdf', 'b.xlsx'] });
+  });
+});
+
+describe('buildEmailThreads', () => {
+  it('links replies by headers and flags the last message as inclusive', () => {
+    const [thread] = buildEmailThreads([SECOND_REPLY, ORIGINAL, REPLY]);
+
+    expect(thread.threadKey).toBe('a@example.com');
+    expect(thread.messages.map(m => [m.id, m.parentId, m.depth])).toEqual([
+      ['doc-1', null, 0],
+      ['doc-2', 'doc-1', 1],
+      ['doc-3', 'doc-2', 2],
+    ]);
+    // The original carries an attachment that the replies dropped, so it stays inclusive too.
+    expect(thread.inclusiveIds).toEqual(['doc-1', 'doc-3']);
+    expect(thread.firstDate).toBe(ORIGINAL.date);
+    expect(thread.lastDate).toBe(SECOND_REPLY.date);
+  });
+
+  it('threads messages without headers by quoted text', () => {
+    const stripped = [ORIGINAL, REPLY, SECOND_REPLY].map(m => ({ ...m, messageId: null, inReplyTo: null, references: [], attachments: [] }));
+    const [thread] = buildEmailThreads(stripped);
+
+    expect(thread.messages.map(m => m.parentId)).toEqual([null, 'doc-1', 'doc-2']);
+    expect(thread.inclusiveIds).toEqual(['doc-3']);
+    expect(thread.threadKey).toBe('document:doc-1');
+  });
+
+  it('keeps branches inclusive and leaves unrelated messages unthreaded', () => {
+    const branch = message({
+      id: 'doc-4',
+      inReplyTo: 'a@example.com',
+      subject: 'RE: Pricing',
+      date: '2023-01-02T13:00:00.000Z',
+      body: 'Copying legal on this.\n\n> Can you confirm the revised unit price before Friday?',
+      attachments: ['quote.pdf'],
+    });
+    const unrelated = message({ id: 'doc-9', subject: 'Lunch', body: 'Noon?' });
+
+    const threads = buildEmailThreads([ORIGINAL, REPLY, branch, unrelated]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].messages.map(m => m.id)).toEqual(['doc-1', 'doc-2', 'doc-4']);
+    expect(threads[0].inclusiveIds).toEqual(['doc-2', 'doc-4']);
+  });
+
+  it('keeps one inclusive copy of identical messages', () => {
+    const copy = { ...REPLY, id: 'doc-2b', messageId: 'b-copy@example.com' };
+    const [thread] = buildEmailThreads([ORIGINAL, REPLY, copy]);
+    expect(thread.inclusiveIds.filter(id => id.startsWith('doc-2'))).toEqual(['doc-2']);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Conversation threading for email documents. Messages are linked by
+ * Message-ID / In-Reply-To / References first; messages that lost their
+ * headers (forwards, exports, printouts) are attached by quoted-text
+ * containment within the same normalized subject, then by subject alone.
+ * Within each thread the "inclusive" messages are those whose text and
+ * attachments are not wholly contained in another message: reviewing only
+ * those covers the entire conversation.
+ */
+
+export interface ThreadableMessage {
+  id: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  subject: string;
+  /** ISO timestamp or null. */
+  date: string | null;
+  /** Message body including any quoted history. */
+  body: string;
+  attachments: string[];
+}
+
+export interface ThreadedMessage {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  isInclusive: boolean;
+}
+
+export interface EmailThread {
+  /** Stable identifier: the root's Message-ID, or its document id when it has none. */
+  threadKey: string;
+  subject: string;
+  rootId: string;
+  /** Messages in tree order: each parent before its replies, siblings by date. */
+  messages: ThreadedMessage[];
+  inclusiveIds: string[];
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fw|fwd|aw|wg|sv|antw|tr|r)\s*(?:\[\d+\])?\s*:|\[[^\]]*\])\s*/i;
+const REPLY_PREFIX = /^\s*(?:re|fw|fwd|aw|wg|sv|antw|tr|r)\s*(?:\[\d+\])?\s*:/i;
+
+/** "RE: [EXT] Fwd: Contract" -> "contract". */
+export const normalizeSubject = (subject: string): string => {
+  let value = subject;
+  let previous: string;
+  do {
+    previous = value;
+    value = value.replace(SUBJECT_PREFIX, '');
+  } while (value !== previous);
+  return value.replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+export const normalizeMessageId = (id: string | null | undefined): string | null => {
+  const value = id?.trim().replace(/^<|>$/g, '').toLowerCase();
+  return value || null;
+};
+
+const QUOTE_BOUNDARIES = [
+  /^-{2,}\s*(original message|forwarded message|begin forwarded message)\s*-{0,}/i,
+  /^begin forwarded message:/i,
+  /^on .+wrote:\s*$/i,
+  /^_{10,}\s*$/,
+];
+
+/** The part of a body written by its sender: everything before the first quoted block. */
+export const authoredText = (body: string): string => {
+  const lines = body.split(/\r?\n/);
+  const authored: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (trimmed.startsWith('>')) break;
+    if (QUOTE_BOUNDARIES.some(pattern => pattern.test(trimmed))) break;
+    // Outlook reply headers: a From: line followed shortly by Sent:/Date:
+    if (/^from:\s/i.test(trimmed) && lines.slice(i + 1, i + 5).some(next => /^(sent|date):\s/i.test(next.trim()))) break;
+    authored.push(line);
+  }
+  return authored.join('\n').trim();
+};
+
+/** Comparison form: quote markers dropped, whitespace collapsed, case folded. */
+export const normalizeForContainment = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^[\s>]+/, ''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Split stored email text (see formatEmailText) back into its body and
+ * attachment names. The header block ends at the first blank line.
+ */
+export const emailBodyFromText = (text: string): { body: string; attachments: string[] } => {
+  const headerEnd = text.indexOf('\n\n');
+  let body = headerEnd >= 0 ? text.slice(headerEnd + 2) : text;
+  let attachments: string[] = [];
+  const match = body.match(/\n*Attachments: ([^\n]*)\s*$/);
+  if (match) {
+    attachments = match[1].split(', ').map(name => name.trim()).filter(Boolean);
+    body = body.slice(0, match.index);
+  }
+  return { body, attachments };
+};
+
+const timeOf = (message: ThreadableMessage) => {
+  const time = message.date ? Date.parse(message.date) : NaN;
+  return Number.isFinite(time) ? time : Number.MAX_SAFE_INTEGER;
+};
+
+const byDate = (a: ThreadableMessage, b: ThreadableMessage) => timeOf(a) - timeOf(b) || a.id.localeCompare(b.id);
+
+interface Prepared extends ThreadableMessage {
+  normalizedBody: string;
+  normalizedAuthored: string;
+  subjectKey: string;
+}
+
+/** Whether `inner` adds nothing that `outer` does not already show. */
+const isContainedIn = (inner: Prepared, outer: Prepared): boolean => {
+  if (!inner.normalizedAuthored || !outer.normalizedBody.includes(inner.normalizedAuthored)) return false;
+  const outerAttachments = new Set(outer.attachments.map(name => name.toLowerCase()));
+  if (!inner.attachments.every(name => outerAttachments.has(name.toLowerCase()))) return false;
+  // Identical copies contain each other; keep the earliest as the inclusive one.
+  if (inner.normalizedBody === outer.normalizedBody && inner.attachments.length === outer.attachments.length) {
+    return byDate(outer, inner) < 0;
+  }
+  return true;
+};
+
+export const buildEmailThreads = (input: ThreadableMessage[]): EmailThread[] => {
+  const messages: Prepared[] = [...input].sort(byDate).map(message => {
+    const authored = authoredText(message.body);
+    return {
+      ...message,
+      normalizedBody: normalizeForContainment(message.body),
+      normalizedAuthored: normalizeForContainment(authored || message.body),
+      subjectKey: normalizeSubject(message.subject),
+    };
+  });
+
+  const byMessageId = new Map<string, Prepared>();
+  messages.forEach(message => {
+    const key = normalizeMessageId(message.messageId);
+    if (key && !byMessageId.has(key)) byMessageId.set(key, message);
+  });
+
+  const parentOf = new Map<string, string>();
+  const isAncestor = (candidate: string, of: string) => {
+    for (let current: string | undefined = of; current; current = parentOf.get(current)) {
+      if (current === candidate) return true;
+    }
+    return false;
+  };
+  const link = (child: Prepared, parent: Prepared) => {
+    if (child.id === parent.id || parentOf.has(child.id) || isAncestor(child.id, parent.id)) return false;
+    parentOf.set(child.id, parent.id);
+    return true;
+  };
+
+  // 1. Explicit reply headers; the nearest known ancestor wins.
+  messages.forEach(message => {
+    const candidates = [message.inReplyTo, ...[...message.references].reverse()];
+    for (const candidate of candidates) {
+      const parent = byMessageId.get(normalizeMessageId(candidate) ?? '');
+      if (parent && link(message, parent)) break;
+    }
+  });
+
+  const bySubject = new Map<string, Prepared[]>();
+  messages.forEach(message => {
+    if (!message.subjectKey) return;
+    bySubject.set(message.subjectKey, [...(bySubject.get(message.subjectKey) || []), message]);
+  });
+
+  // 2. Quoted history: the latest earlier message whose text this one contains.
+  // 3. Replies and forwards with nothing else to go on join the subject's first message.
+  messages.forEach(message => {
+    if (parentOf.has(message.id)) return;
+    const sameSubject = bySubject.get(message.subjectKey) || [];
+    const earlier = sameSubject.filter(other => other.id !== message.id && byDate(other, message) < 0);
+    const quoted = [...earlier].reverse().find(other => other.normalizedAuthored && message.normalizedBody.includes(other.normalizedAuthored));
+    if (quoted && link(message, quoted)) return;
+    if (REPLY_PREFIX.test(message.subject) && earlier.length > 0) link(message, earlier[0]);
+  });
+
+  const childrenOf = new Map<string, Prepared[]>();
+  messages.forEach(message => {
+    const parentId = parentOf.get(message.id);
+    if (parentId) childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), message]);
+  });
+
+  const threads: EmailThread[] = [];
+  messages
+    .filter(message => !parentOf.has(message.id))
+    .forEach(root => {
+      const members: { message: Prepared; depth: number }[] = [];
+      const visit = (message: Prepared, depth: number) => {
+        members.push({ message, depth });
+        (childrenOf.get(message.id) || []).sort(byDate).forEach(child => visit(child, depth + 1));
+      };
+      visit(root, 0);
+      if (members.length < 2) return;
+
+      const inclusive = new Set(
+        members
+          .filter(({ message }) => !members.some(other => other.message.id !== message.id && isContainedIn(message, other.message)))
+          .map(({ message }) => message.id)
+      );
+      const dated = members.map(m => m.message).filter(m => timeOf(m) !== Number.MAX_SAFE_INTEGER).sort(byDate);
+
+      threads.push({
+        threadKey: normalizeMessageId(root.messageId) ?? `document:${root.id}`,
+        subject: root.subject,
+        rootId: root.id,
+        messages: members.map(({ message, depth }) => ({
+          id: message.id,
+          parentId: parentOf.get(message.id) ?? null,
+          depth,
+          isInclusive: inclusive.has(message.id),
+        })),
+        inclusiveIds: members.map(m => m.message.id).filter(id => inclusive.has(id)),
+        firstDate: dated[0]?.date ?? null,
+        lastDate: dated[dated.length - 1]?.date ?? null,
+      });
+    });
+
+  return threads;
+};
@@ -0,0 +1,263 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { signStoragePaths } from './childDocuments';
+import { buildEmailThreads, emailBodyFromText, type ThreadableMessage } from './emailThreading';
+import type { EmailThreadSummary, ThreadMessage } from './types';
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+type ThreadRow = Database['public']['Tables']['email_threads']['Row'];
+
+type EmailDocument = Pick<
+  DocumentRow,
+  'id' | 'name' | 'extracted_text' | 'metadata' | 'email_thread_id' | 'thread_parent_id' | 'is_inclusive'
+>;
+
+interface StoredEmailHeaders {
+  from?: { name: string | null; address: string }[];
+  subject?: string;
+  date?: string | null;
+  messageId?: string | null;
+  inReplyTo?: string | null;
+  references?: string[];
+}
+
+const EMAIL_PAGE_SIZE = 1000;
+
+const emailHeadersOf = (metadata: Json | null): StoredEmailHeaders | null => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+  const email = metadata.email;
+  return email && typeof email === 'object' && !Array.isArray(email) ? (email as StoredEmailHeaders) : null;
+};
+
+const toThreadable = (doc: EmailDocument): ThreadableMessage | null => {
+  const headers = emailHeadersOf(doc.metadata);
+  if (!headers) return null;
+  const { body, attachments } = emailBodyFromText(doc.extracted_text || '');
+  return {
+    id: doc.id,
+    messageId: headers.messageId ?? null,
+    inReplyTo: headers.inReplyTo ?? null,
+    references: headers.references ?? [],
+    subject: headers.subject ?? doc.name,
+    date: headers.date ?? null,
+    body,
+    attachments,
+  };
+};
+
+const loadEmailDocuments = async (supabase: SupabaseClient<Database>, projectId: string): Promise<EmailDocument[]> => {
+  const documents: EmailDocument[] = [];
+  for (let from = 0; ; from += EMAIL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, name, extracted_text, metadata, email_thread_id, thread_parent_id, is_inclusive')
+      .eq('project_id', projectId)
+      .not('metadata->email', 'is', null)
+      .order('id')
+      .range(from, from + EMAIL_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load email documents: ${error.message}`);
+    documents.push(...((data || []) as EmailDocument[]));
+    if (!data || data.length < EMAIL_PAGE_SIZE) return documents;
+  }
+};
+
+/**
+ * Queue a project-wide rebuild unless one is already waiting. Threading has to
+ * see every message at once, so ingesting a mailbox triggers one rebuild
+ * rather than one per message.
+ */
+export async function queueThreadRebuild(supabase: SupabaseClient<Database>, projectId: string): Promise<boolean> {
+  const { data: pending, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('job_type', 'thread')
+    .eq('status', 'pending')
+    .limit(1);
+  if (error) throw new Error(`Failed to check thread jobs: ${error.message}`);
+  if (pending && pending.length > 0) return false;
+
+  const { error: insertError } = await supabase.from('job_queue').insert({
+    project_id: projectId,
+    document_id: null,
+    job_type: 'thread',
+    priority: 1,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 3,
+  });
+  if (insertError) throw new Error(`Failed to queue thread job: ${insertError.message}`);
+  return true;
+}
+
+/**
+ * Recompute every thread in a project from its email documents. Threads are
+ * keyed by their root message so ids survive rebuilds; documents are only
+ * written when their placement changed, and threads left empty are removed.
+ * Messages that stop being redundant and were never analyzed are requeued.
+ */
+export async function rebuildEmailThreads(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<{ threads: number; messages: number; requeued: number }> {
+  const documents = await loadEmailDocuments(supabase, projectId);
+  const messages = documents.map(toThreadable).filter((m): m is ThreadableMessage => m !== null);
+  const threads = buildEmailThreads(messages);
+
+  const threadIds = new Map<string, string>();
+  if (threads.length > 0) {
+    const now = new Date().toISOString();
+    const { data: saved, error } = await supabase
+      .from('email_threads')
+      .upsert(
+        threads.map(thread => ({
+          project_id: projectId,
+          thread_key: thread.threadKey,
+          subject: thread.subject,
+          root_document_id: thread.rootId,
+          message_count: thread.messages.length,
+          inclusive_count: thread.inclusiveIds.length,
+          first_date: thread.firstDate,
+          last_date: thread.lastDate,
+          updated_at: now,
+        })),
+        { onConflict: 'project_id,thread_key' }
+      )
+      .select('id, thread_key');
+    if (error) throw new Error(`Failed to save email threads: ${error.message}`);
+    (saved || []).forEach(row => threadIds.set(row.thread_key, row.id));
+  }
+
+  const placement = new Map<string, Pick<DocumentRow, 'email_thread_id' | 'thread_parent_id' | 'is_inclusive'>>();
+  threads.forEach(thread => {
+    const threadId = threadIds.get(thread.threadKey) ?? null;
+    thread.messages.forEach(message => {
+      placement.set(message.id, { email_thread_id: threadId, thread_parent_id: message.parentId, is_inclusive: message.isInclusive });
+    });
+  });
+
+  const promoted: string[] = [];
+  for (const doc of documents) {
+    const next = placement.get(doc.id) ?? { email_thread_id: null, thread_parent_id: null, is_inclusive: null };
+    if (
+      doc.email_thread_id === next.email_thread_id &&
+      doc.thread_parent_id === next.thread_parent_id &&
+      doc.is_inclusive === next.is_inclusive
+    ) {
+      continue;
+    }
+    const { error } = await supabase.from('documents').update(next).eq('id', doc.id);
+    if (error) throw new Error(`Failed to update thread for document ${doc.id}: ${error.message}`);
+    if (doc.is_inclusive === false && next.is_inclusive !== false) promoted.push(doc.id);
+  }
+
+  const requeued = await requeueUnanalyzed(supabase, projectId, promoted);
+
+  let staleThreads = supabase.from('email_threads').delete().eq('project_id', projectId);
+  if (threadIds.size > 0) {
+    staleThreads = staleThreads.not('id', 'in', `(${Array.from(threadIds.values()).join(',')})`);
+  }
+  const { error: deleteError } = await staleThreads;
+  if (deleteError) throw new Error(`Failed to remove stale threads: ${deleteError.message}`);
+
+  return { threads: threads.length, messages: placement.size, requeued };
+}
+
+const requeueUnanalyzed = async (supabase: SupabaseClient<Database>, projectId: string, documentIds: string[]) => {
+  if (documentIds.length === 0) return 0;
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id')
+    .in('id', documentIds)
+    .is('analysis', null)
+    .eq('analysis_suppressed', false);
+  if (error) throw new Error(`Failed to check analysis state: ${error.message}`);
+  const ids = (data || []).map(row => row.id);
+  if (ids.length === 0) return 0;
+
+  const { error: insertError } = await supabase.from('job_queue').insert(
+    ids.map(documentId => ({ project_id: projectId, document_id: documentId, job_type: 'analyze', priority: 0, status: 'pending', attempts: 0, max_attempts: 3 }))
+  );
+  if (insertError) throw new Error(`Failed to queue analysis: ${insertError.message}`);
+  return ids.length;
+};
+
+const toSummary = (row: ThreadRow): EmailThreadSummary => ({
+  id: row.id,
+  subject: row.subject,
+  rootDocumentId: row.root_document_id,
+  messageCount: row.message_count,
+  inclusiveCount: row.inclusive_count,
+  firstDate: row.first_date,
+  lastDate: row.last_date,
+});
+
+export async function listEmailThreads(supabase: SupabaseClient<Database>, projectId: string): Promise<EmailThreadSummary[]> {
+  const { data, error } = await supabase
+    .from('email_threads')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('last_date', { ascending: false, nullsFirst: false });
+  if (error) throw error;
+  return (data || []).map(toSummary);
+}
+
+/**
+ * The thread a document belongs to, as a tree-ordered message list. Returns
+ * null when the document does not exist and an empty thread when it is not
+ * part of one.
+ */
+export async function loadDocumentThread(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<{ thread: EmailThreadSummary | null; messages: ThreadMessage[] } | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, email_thread_id')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) return null;
+  if (!document.email_thread_id) return { thread: null, messages: [] };
+
+  const [{ data: thread, error: threadError }, { data: rows, error: rowsError }] = await Promise.all([
+    supabase.from('email_threads').select('*').eq('id', document.email_thread_id).single(),
+    supabase
+      .from('documents')
+      .select('id, name, bates_formatted, metadata, storage_path, thread_parent_id, is_inclusive')
+      .eq('email_thread_id', document.email_thread_id),
+  ]);
+  if (threadError) throw threadError;
+  if (rowsError) throw rowsError;
+
+  const members = rows || [];
+  const signedUrls = await signStoragePaths(supabase, members.map(row => row.storage_path));
+  const dateOf = (row: (typeof members)[number]) => emailHeadersOf(row.metadata)?.date ?? '';
+
+  const ordered: ThreadMessage[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    members
+      .filter(row => (row.thread_parent_id ?? null) === parentId)
+      .sort((a, b) => dateOf(a).localeCompare(dateOf(b)) || a.id.localeCompare(b.id))
+      .forEach(row => {
+        const headers = emailHeadersOf(row.metadata);
+        const sender = headers?.from?.[0];
+        ordered.push({
+          id: row.id,
+          parentId: row.thread_parent_id,
+          depth,
+          isInclusive: row.is_inclusive === true,
+          name: row.name,
+          batesFormatted: row.bates_formatted,
+          subject: headers?.subject ?? null,
+          from: sender ? sender.name || sender.address : null,
+          date: headers?.date ?? null,
+          signedUrl: row.storage_path ? signedUrls.get(row.storage_path) ?? null : null,
+        });
+        visit(row.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return { thread: toSummary(thread), messages: ordered };
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  EMBEDDING_DIMENSIONS,
+  LocalHashEmbeddingProvider,
+  cosineSimilarity,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  toPgVector,
+} from './embeddings';
+import { buildPassageContext, formatPassageCitation } from './retrieval';
+import { parseStoredChunks } from './textChunks';
+
+const ORIGINAL_ENV = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+  setEmbeddingProvider(null);
+});
+
+describe('LocalHashEmbeddingProvider', () => {
+  const provider = new LocalHashEmbeddingProvider();
+
+  it('is deterministic and unit length', async () => {
+    const [a] = await provider.embed(['Officer Ramirez stopped the vehicle on Main Street']);
+    const [b] = await provider.embed(['Officer Ramirez stopped the vehicle on Main Street']);
+
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 6);
+  });
+
+  it('ranks texts sharing vocabulary above unrelated ones', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'where was the vehicle stopped',
+      'The deponent testified the vehicle was stopped near the intersection.',
+      'Invoice for quarterly janitorial services and supplies.',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('returns a zero vector for empty text', () => {
+    expect(provider.embedText('').every(v => v === 0)).toBe(true);
+  });
+});
+
+describe('getEmbeddingProvider', () => {
+  it('falls back to the local provider without an OpenAI key', () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+    expect(getEmbeddingProvider().model).toBe('local:hash-v1');
+  });
+
+  it('honours EMBEDDING_PROVIDER=local even when a key exists', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.EMBEDDING_PROVIDER = 'local';
+    expect(getEmbeddingProvider().model).toBe('local:hash-v1');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('rejects mismatched dimensions', () => {
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow('dimension mismatch');
+  });
+});
+
+describe('retrieval helpers', () => {
+  it('formats vectors for pgvector', () => {
+    expect(toPgVector([0.5, -1, 0])).toBe('[0.5,-1,0]');
+  });
+
+  it('labels passages with Bates number and chunk', () => {
+    expect(formatPassageCitation({ batesNumber: 'DEF-0007', chunkIndex: 2 })).toBe('DEF-0007 ¶3');
+    expect(formatPassageCitation({ batesNumber: 'DEF-0007', chunkIndex: 2, pageLines: '45:12-46:3' })).toBe('DEF-0007 45:12-46:3');
+
+    const context = buildPassageContext([
+      {
+        documentId: 'doc-7',
+        batesNumber: 'DEF-0007',
+        name: 'deposition.pdf',
+        chunkIndex: 2,
+        charStart: 16000,
+        charEnd: 24000,
+        text: 'Q. Where were you? A. At home.',
+        similarity: 0.82,
+      },
+    ]);
+    expect(context).toContain('[DEF-0007 ¶3] (deposition.pdf, chars 16000-24000)');
+    expect(context).toContain('A. At home.');
+  });
+
+  it('returns no context when nothing was retrieved', () => {
+    expect(buildPassageContext([])).toBe('');
+  });
+});
+
+describe('parseStoredChunks', () => {
+  it('reads chunk objects as stored by the extract job', () => {
+    expect(parseStoredChunks([{ index: 0, charStart: 0, charEnd: 5, sentenceCount: 1, text: 'Hello' }])).toEqual([
+      { index: 0, charStart: 0, charEnd: 5, text: 'Hello' },
+    ]);
+  });
+
+  it('reconstructs offsets for legacy string chunks', () => {
+    expect(parseStoredChunks(['abc', 'defg'])).toEqual([
+      { index: 0, text: 'abc', charStart: 0, charEnd: 3 },
+      { index: 1, text: 'defg', charStart: 3, charEnd: 7 },
+    ]);
+  });
+
+  it('ignores non-array values', () => {
+    expect(parseStoredChunks(null)).toEqual([]);
+    expect(parseStoredChunks({ text: 'x' })).toEqual([]);
+  });
+});
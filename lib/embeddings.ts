@@ -0,0 +1,152 @@
+import OpenAI from 'openai';
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const EMBEDDING_BATCH_SIZE = 64;
+const OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+export interface EmbeddingProvider {
+  /** Stored alongside every vector; only vectors from the same model are compared. */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const fnv1a = (input: string, seed = FNV_OFFSET): number => {
+  let hash = seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return vector;
+  return vector.map(v => v / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Deterministic, offline stand-in for a real embedding model. Unigrams and bigrams
+ * are feature-hashed into a fixed-size signed vector, so texts sharing vocabulary
+ * land close together. Good enough for tests and air-gapped deployments.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'local:hash-v1';
+  readonly dimensions: number;
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    const counts = new Map<string, number>();
+    features.forEach(f => counts.set(f, (counts.get(f) || 0) + 1));
+
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      const sign = fnv1a(feature, hash) & 1 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    });
+
+    return normalizeVector(vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions = EMBEDDING_DIMENSIONS;
+  private client: OpenAI | null = null;
+  private modelName: string;
+
+  constructor(modelName: string = OPENAI_EMBEDDING_MODEL) {
+    this.modelName = modelName;
+    this.model = `openai:${modelName}`;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is not set. Set EMBEDDING_PROVIDER=local to embed offline.');
+      }
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const response = await this.getClient().embeddings.create({
+        model: this.modelName,
+        input: batch,
+        dimensions: this.dimensions,
+      });
+      response.data
+        .sort((a, b) => a.index - b.index)
+        .forEach(item => vectors.push(item.embedding));
+    }
+    return vectors;
+  }
+}
+
+let _provider: EmbeddingProvider | null = null;
+
+/**
+ * Resolve the configured provider. EMBEDDING_PROVIDER=local forces the offline
+ * provider; otherwise OpenAI is used when a key is present.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!_provider) {
+    const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+    if (configured === 'local' || (!configured && !process.env.OPENAI_API_KEY)) {
+      _provider = new LocalHashEmbeddingProvider();
+    } else {
+      _provider = new OpenAIEmbeddingProvider();
+    }
+  }
+  return _provider;
+}
+
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  _provider = provider;
+}
+
+/** pgvector accepts the JSON array text form on insert and in RPC arguments. */
+export const toPgVector = (vector: number[]): string => `[${vector.join(',')}]`;
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyEntity,
+  collectDocumentMentions,
+  entityFacts,
+  entityKey,
+  mergedAliases,
+  mergePairKey,
+  parsePersonName,
+  suggestEntityMerges,
+} from './entities';
+import type { AnalysisData, EntityType, TimelineEvent } from './types';
+
+const entity = (id: string, name: string, type: EntityType, aliases: string[] = []) => ({ id, name, type, aliases });
+
+describe('classifyEntity', () => {
+  it('types names from their wording', () => {
+    expect(classifyEntity('Officer J. Smith')).toBe('person');
+    expect(classifyEntity('Ofc. Smith #4471')).toBe('person');
+    expect(classifyEntity('John Smith')).toBe('person');
+    expect(classifyEntity('Badge 4471')).toBe('badge_number');
+    expect(classifyEntity('#4471')).toBe('badge_number');
+    expect(classifyEntity('Springfield Police Department')).toBe('organization');
+    expect(classifyEntity('Acme Corp.')).toBe('organization');
+    expect(classifyEntity('FBI')).toBe('organization');
+    expect(classifyEntity('1200 Oak Street')).toBe('location');
+    expect(classifyEntity('Springfield, IL')).toBe('location');
+    expect(classifyEntity('White Ford F-150')).toBe('vehicle');
+    expect(classifyEntity('the incident')).toBe('other');
+  });
+});
+
+describe('parsePersonName', () => {
+  it('sets aside titles, suffixes and badge numbers', () => {
+    expect(parsePersonName('Ofc. Smith #4471')).toEqual({ first: null, last: 'smith', badge: '4471' });
+    expect(parsePersonName('Det. John Q. Smith Jr.')).toEqual({ first: 'john', last: 'smith', badge: null });
+    expect(parsePersonName('Smith, John')).toEqual({ first: 'john', last: 'smith', badge: null });
+    expect(parsePersonName('Officer')).toBeNull();
+  });
+});
+
+describe('suggestEntityMerges', () => {
+  const entities = [
+    entity('a', 'John Smith', 'person'),
+    entity('b', 'Officer J. Smith', 'person'),
+    entity('c', 'Ofc. Smith #4471', 'person'),
+    entity('d', 'Badge 4471', 'badge_number'),
+    entity('e', 'Jane Doe', 'person'),
+    entity('f', 'Acme Corp.', 'organization'),
+    entity('g', 'Acme', 'organization'),
+    entity('h', 'Springfield Police Department', 'organization'),
+    entity('i', 'SPD', 'organization'),
+    entity('j', 'Mary Smith', 'person'),
+  ];
+
+  it('suggests aliases of one person or organization, strongest first', () => {
+    const suggestions = suggestEntityMerges(entities);
+    const pairs = suggestions.map(s => [s.entityId, s.otherEntityId, s.confidence]);
+    expect(pairs).toEqual(expect.arrayContaining([
+      ['a', 'b', 'medium'],
+      ['a', 'c', 'low'],
+      ['c', 'd', 'high'],
+      ['f', 'g', 'high'],
+      ['h', 'i', 'medium'],
+    ]));
+    expect(pairs.some(([x, y]) => (x === 'a' && y === 'j') || (x === 'e' || y === 'e'))).toBe(false);
+    expect(suggestions[0].confidence).toBe('high');
+  });
+
+  it('does not pair people with different badge numbers', () => {
+    expect(suggestEntityMerges([entity('a', 'Ofc. Smith #4471', 'person'), entity('b', 'Sgt. Smith #1200', 'person')])).toEqual([]);
+  });
+
+  it('matches through aliases and leaves out dismissed pairs', () => {
+    const aliased = [entity('a', 'John Smith', 'person', ['Badge 4471']), entity('d', 'Badge 4471', 'badge_number')];
+    expect(suggestEntityMerges(aliased)).toHaveLength(1);
+    expect(suggestEntityMerges(entities, new Set([mergePairKey('b', 'a')])).some(s => s.entityId === 'a' && s.otherEntityId === 'b')).toBe(false);
+  });
+});
+
+describe('mergedAliases', () => {
+  it('absorbs the sources’ names and aliases once each, without the target’s own name', () => {
+    expect(mergedAliases(
+      { name: 'John Smith', aliases: ['J. Smith'] },
+      [{ name: 'Officer J. Smith', aliases: ['J Smith', 'john smith'] }, { name: 'Ofc. Smith #4471', aliases: [] }]
+    )).toEqual(['J. Smith', 'Officer J. Smith', 'Ofc. Smith #4471']);
+    expect(entityKey(' J.  Smith ')).toBe('j smith');
+  });
+});
+
+describe('document mentions', () => {
+  const event: TimelineEvent = {
+    date: '2023-03-07',
+    precision: 'day',
+    timezone: null,
+    approximate: false,
+    dateText: 'March 7, 2023',
+    description: 'Traffic stop on Oak Street',
+    entities: ['Ofc. Smith #4471'],
+    sourceBates: 'ABC-0001',
+    quote: null,
+  };
+  const analysis: Pick<AnalysisData, 'entities' | 'relevantFacts' | 'events'> = {
+    entities: ['Officer J. Smith', 'officer j smith', 'Acme Corp.', ' '],
+    relevantFacts: ['Officer J. Smith approached the vehicle', 'Nothing else of note'],
+    events: [event],
+  };
+
+  it('collects each name once with the first fact that names it', () => {
+    expect(collectDocumentMentions(analysis)).toEqual([
+      { mention: 'Officer J. Smith', context: 'Officer J. Smith approached the vehicle' },
+      { mention: 'Acme Corp.', context: null },
+      { mention: 'Ofc. Smith #4471', context: 'March 7, 2023: Traffic stop on Oak Street' },
+    ]);
+    expect(collectDocumentMentions(null)).toEqual([]);
+  });
+
+  it('finds facts and events naming any of an entity’s names', () => {
+    expect(entityFacts(['John Smith', 'Officer J. Smith', 'Ofc. Smith #4471'], analysis)).toEqual([
+      'Officer J. Smith approached the vehicle',
+      'March 7, 2023: Traffic stop on Oak Street',
+    ]);
+  });
+});
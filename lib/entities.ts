@@ -0,0 +1,262 @@
+import type { AnalysisData, CaseEntity, EntityMergeConfidence, EntityMergeSuggestion, EntityType } from './types';
+
+export const ENTITY_TYPES: EntityType[] = ['person', 'organization', 'location', 'vehicle', 'badge_number', 'other'];
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'Person',
+  organization: 'Organization',
+  location: 'Location',
+  vehicle: 'Vehicle',
+  badge_number: 'Badge number',
+  other: 'Other',
+};
+
+export const MAX_ENTITY_NAME_LENGTH = 200;
+
+export const isEntityType = (value: unknown): value is EntityType =>
+  typeof value === 'string' && (ENTITY_TYPES as string[]).includes(value);
+
+/** Entity names are trimmed with inner whitespace collapsed. */
+export const normalizeEntityName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return name ? name.slice(0, MAX_ENTITY_NAME_LENGTH) : null;
+};
+
+/** Names that differ only in case, periods, commas or quotes resolve to the same entity. */
+export const entityKey = (name: string): string =>
+  name.toLowerCase().replace(/[.,'’"“”]/g, '').replace(/\s+/g, ' ').trim();
+
+// --- Typing ---
+
+const TITLES = new Set([
+  'officer', 'ofc', 'off', 'patrolman', 'trooper', 'deputy', 'dep', 'det', 'detective', 'sgt', 'sergeant',
+  'cpl', 'corporal', 'lt', 'lieutenant', 'capt', 'captain', 'cmdr', 'commander', 'chief', 'agent', 'sa',
+  'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'judge', 'hon', 'justice', 'atty', 'attorney', 'counsel',
+]);
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'esq', 'md', 'phd']);
+
+const BADGE_ONLY = /^(?:(?:badge|shield|star)\s*(?:no\.?|number|#)?\s*#?\s*|#\s*)(\d{2,})$/i;
+const BADGE_IN_NAME = /(?:\b(?:badge|shield|star)\s*(?:no\.?|number|#)?\s*#?\s*|#\s*)(\d{2,})\b/i;
+const VEHICLE = /\b(?:vehicle|car|truck|van|suv|sedan|coupe|pickup|motorcycle|license plate|plate|tag|vin|ford|chevrolet|chevy|toyota|honda|nissan|dodge|jeep|bmw|mercedes|tesla|hyundai|kia|subaru|volkswagen|gmc|ram|buick|cadillac|lexus|mazda)\b|\b[A-HJ-NPR-Z0-9]{17}\b/i;
+const ORGANIZATION = /\b(?:inc|llc|l\.l\.c|corp|corporation|co|company|ltd|llp|lp|pllc|plc|group|bank|university|college|school|hospital|clinic|department|dept|police|sheriff'?s?|agency|bureau|county|city of|state of|court|board|association|foundation|church|district|authority|commission|services|partners|holdings|pd|fbi|dea|atf)\b/i;
+const LOCATION = /\b(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|way|highway|hwy|route|interstate|park|plaza|building|bldg|apartment|apt|suite|room|lot|intersection|block|mall|station|airport)\b\.?/i;
+const CITY_STATE = /^[A-Z][a-z]+(?: [A-Z][a-z]+)*, [A-Z]{2}$/;
+const ACRONYM = /^[A-Z]{2,6}$/;
+const CAPITALIZED_WORDS = /^(?:[A-Z][a-z'’-]+|[A-Z]\.?)(?: (?:[A-Z][a-z'’-]+|[A-Z]\.?)){1,3}$/;
+
+const words = (name: string) => name.split(/\s+/).map(word => word.toLowerCase().replace(/[.,]/g, '')).filter(Boolean);
+
+/** The badge or shield number in a name like "Ofc. Smith #4471", if any. */
+export const badgeNumber = (name: string): string | null => name.match(BADGE_IN_NAME)?.[1] ?? null;
+
+/**
+ * A best guess at what kind of thing a name refers to, from its wording.
+ * Reviewers correct it on the entity page; the guess only seeds new entities.
+ */
+export const classifyEntity = (name: string): EntityType => {
+  const trimmed = name.trim();
+  if (BADGE_ONLY.test(trimmed)) return 'badge_number';
+  const nameWords = words(trimmed);
+  if (nameWords.length > 1 && TITLES.has(nameWords[0])) return 'person';
+  if (VEHICLE.test(trimmed)) return 'vehicle';
+  if (ORGANIZATION.test(trimmed) || ACRONYM.test(trimmed)) return 'organization';
+  if (CITY_STATE.test(trimmed) || /^\d+\s+\S+/.test(trimmed) || LOCATION.test(trimmed)) return 'location';
+  if (badgeNumber(trimmed) || CAPITALIZED_WORDS.test(trimmed.replace(/,/g, ''))) return 'person';
+  return 'other';
+};
+
+interface PersonName {
+  first: string | null;
+  last: string;
+  badge: string | null;
+}
+
+/** First and last name with titles, suffixes and badge numbers set aside; "Smith, John" reads as John Smith. */
+export const parsePersonName = (name: string): PersonName | null => {
+  const badge = badgeNumber(name);
+  let text = name.replace(BADGE_IN_NAME, ' ').trim();
+  const [before, after, ...rest] = text.split(',').map(part => part.trim());
+  if (after && rest.length === 0 && !SUFFIXES.has(words(after)[0] ?? '')) {
+    text = `${after} ${before}`;
+  }
+  const tokens = words(text).filter(word => !TITLES.has(word) && !SUFFIXES.has(word));
+  if (tokens.length === 0) return null;
+  return { first: tokens.length > 1 ? tokens[0] : null, last: tokens[tokens.length - 1], badge };
+};
+
+// Corporate forms and filler dropped when comparing organization names
+const ORGANIZATION_FILLER = new Set(['the', 'inc', 'llc', 'corp', 'corporation', 'co', 'company', 'ltd', 'llp', 'lp', 'pllc', 'plc']);
+const ACRONYM_FILLER = new Set(['of', 'the', 'and', 'for', '&']);
+
+const organizationKey = (name: string) =>
+  words(name.replace(/&/g, ' and ')).filter(word => !ORGANIZATION_FILLER.has(word)).join(' ');
+
+const acronymOf = (name: string): string | null => {
+  if (ACRONYM.test(name.trim())) return name.trim().toLowerCase();
+  const significant = words(name).filter(word => !ACRONYM_FILLER.has(word) && !ORGANIZATION_FILLER.has(word));
+  return significant.length >= 2 ? significant.map(word => word[0]).join('') : null;
+};
+
+// --- Merge suggestions ---
+
+type SuggestionEntity = Pick<CaseEntity, 'id' | 'name' | 'type' | 'aliases'>;
+
+interface Match {
+  reason: string;
+  confidence: EntityMergeConfidence;
+}
+
+const CONFIDENCE_RANK: Record<EntityMergeConfidence, number> = { high: 0, medium: 1, low: 2 };
+
+/** Dismissals are stored once per pair, smaller id first. */
+export const mergePairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const compareNames = (a: { name: string; type: EntityType }, b: { name: string; type: EntityType }): Match | null => {
+  if (a.type === b.type && entityKey(a.name) === entityKey(b.name)) {
+    return { reason: 'Same name apart from punctuation', confidence: 'high' };
+  }
+
+  if (a.type === 'person' && b.type === 'person') {
+    const [left, right] = [parsePersonName(a.name), parsePersonName(b.name)];
+    if (!left || !right) return null;
+    if (left.badge && right.badge) {
+      return left.badge === right.badge ? { reason: `Same badge number #${left.badge}`, confidence: 'high' } : null;
+    }
+    if (left.last !== right.last || left.last.length < 2) return null;
+    if (!left.first || !right.first) return { reason: 'Same surname; one gives no first name', confidence: 'low' };
+    if (left.first === right.first) return { reason: 'Same name apart from titles', confidence: 'high' };
+    if ((left.first.length === 1 && right.first.startsWith(left.first)) || (right.first.length === 1 && left.first.startsWith(right.first))) {
+      return { reason: 'Same surname and first initial', confidence: 'medium' };
+    }
+    return null;
+  }
+
+  if ((a.type === 'person' && b.type === 'badge_number') || (a.type === 'badge_number' && b.type === 'person')) {
+    const [left, right] = [badgeNumber(a.name), badgeNumber(b.name)];
+    return left && left === right ? { reason: `Carries badge number #${left}`, confidence: 'high' } : null;
+  }
+
+  if (a.type === 'organization' && b.type === 'organization') {
+    const [left, right] = [organizationKey(a.name), organizationKey(b.name)];
+    if (left && left === right) return { reason: 'Same name apart from corporate form', confidence: 'high' };
+    const acronymA = ACRONYM.test(a.name.trim()) ? a.name.trim().toLowerCase() : null;
+    const acronymB = ACRONYM.test(b.name.trim()) ? b.name.trim().toLowerCase() : null;
+    if ((acronymA && acronymA === acronymOf(b.name)) || (acronymB && acronymB === acronymOf(a.name))) {
+      return { reason: 'One is the other’s acronym', confidence: 'medium' };
+    }
+  }
+  return null;
+};
+
+/** The strongest match between any name of one entity and any name of the other. */
+const bestMatch = (a: SuggestionEntity, b: SuggestionEntity): Match | null => {
+  let best: Match | null = null;
+  for (const nameA of [a.name, ...a.aliases]) {
+    for (const nameB of [b.name, ...b.aliases]) {
+      const match = compareNames({ name: nameA, type: a.type }, { name: nameB, type: b.type });
+      if (match && (!best || CONFIDENCE_RANK[match.confidence] < CONFIDENCE_RANK[best.confidence])) best = match;
+    }
+  }
+  return best;
+};
+
+/** Keys under which two names could match; only entities sharing a key are compared. */
+const blockingKeys = (name: string, type: EntityType): string[] => {
+  const keys = [`k:${entityKey(name)}`];
+  const badge = badgeNumber(name);
+  if (badge) keys.push(`b:${badge}`);
+  if (type === 'person') {
+    const person = parsePersonName(name);
+    if (person) keys.push(`p:${person.last}`);
+  }
+  if (type === 'organization') {
+    keys.push(`o:${organizationKey(name)}`);
+    const acronym = acronymOf(name);
+    if (acronym) keys.push(`a:${acronym}`);
+  }
+  return keys;
+};
+
+/**
+ * Pairs of entities that look like the same person or organization under
+ * different names: "Officer J. Smith" and "John Smith", "Ofc. Smith #4471"
+ * and "Badge 4471", "Acme Corp." and "Acme". Aliases count as names. Pairs a
+ * reviewer has dismissed are left out; the strongest suggestions come first.
+ */
+export const suggestEntityMerges = (entities: SuggestionEntity[], dismissed: Set<string> = new Set()): EntityMergeSuggestion[] => {
+  const blocks = new Map<string, Set<number>>();
+  entities.forEach((entity, index) => {
+    [entity.name, ...entity.aliases].forEach(name => blockingKeys(name, entity.type).forEach(key => {
+      const block = blocks.get(key) ?? new Set<number>();
+      block.add(index);
+      blocks.set(key, block);
+    }));
+  });
+
+  const suggestions = new Map<string, EntityMergeSuggestion>();
+  blocks.forEach(block => {
+    const members = Array.from(block);
+    members.forEach((i, position) => members.slice(position + 1).forEach(j => {
+      const [a, b] = [entities[i], entities[j]];
+      const key = mergePairKey(a.id, b.id);
+      if (dismissed.has(key) || suggestions.has(key)) return;
+
+      const best = bestMatch(a, b);
+      if (best) suggestions.set(key, { entityId: a.id, otherEntityId: b.id, ...best });
+    }));
+  });
+
+  return Array.from(suggestions.values()).sort((x, y) => CONFIDENCE_RANK[x.confidence] - CONFIDENCE_RANK[y.confidence]);
+};
+
+/** The target's aliases after absorbing other entities: their names and aliases, less the target's own name. */
+export const mergedAliases = (target: Pick<CaseEntity, 'name' | 'aliases'>, sources: Pick<CaseEntity, 'name' | 'aliases'>[]): string[] => {
+  const byKey = new Map<string, string>();
+  [...target.aliases, ...sources.flatMap(source => [source.name, ...source.aliases])].forEach(name => {
+    const key = entityKey(name);
+    if (key !== entityKey(target.name) && !byKey.has(key)) byKey.set(key, name);
+  });
+  return Array.from(byKey.values());
+};
+
+// --- Mentions ---
+
+type EntitySourceAnalysis = Pick<AnalysisData, 'entities' | 'relevantFacts' | 'events'>;
+
+export interface DocumentMention {
+  mention: string;
+  context: string | null;
+}
+
+const mentions = (text: string | null | undefined, names: string[]) => {
+  const haystack = text?.toLowerCase();
+  return Boolean(haystack) && names.some(name => haystack!.includes(name.toLowerCase()));
+};
+
+/** Facts and events in an analysis that name any of the given names. */
+export const entityFacts = (names: string[], analysis: EntitySourceAnalysis | null): string[] => {
+  if (!analysis) return [];
+  const keys = new Set(names.map(entityKey));
+  const facts = (analysis.relevantFacts || []).filter(fact => mentions(fact, names));
+  (analysis.events || []).forEach(event => {
+    if (event.entities.some(entity => keys.has(entityKey(entity))) || mentions(event.description, names) || mentions(event.quote, names)) {
+      facts.push(event.dateText ? `${event.dateText}: ${event.description}` : event.description);
+    }
+  });
+  return Array.from(new Set(facts));
+};
+
+/**
+ * The names an analysis mentions, once each, with the first fact or event
+ * that names them as context.
+ */
+export const collectDocumentMentions = (analysis: EntitySourceAnalysis | null): DocumentMention[] => {
+  if (!analysis) return [];
+  const byKey = new Map<string, string>();
+  [...(analysis.entities || []), ...(analysis.events || []).flatMap(event => event.entities)].forEach(value => {
+    const name = normalizeEntityName(value);
+    if (name && !byKey.has(entityKey(name))) byKey.set(entityKey(name), name);
+  });
+  return Array.from(byKey.values()).map(mention => ({ mention, context: entityFacts([mention], analysis)[0] ?? null }));
+};
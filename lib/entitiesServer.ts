@@ -0,0 +1,321 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import {
+  classifyEntity,
+  collectDocumentMentions,
+  entityFacts,
+  entityKey,
+  isEntityType,
+  mergedAliases,
+  mergePairKey,
+  suggestEntityMerges,
+} from './entities';
+import type { AnalysisData, CaseEntity, EntityDetail, EntityMergeSuggestion, EntityType } from './types';
+
+type EntityRow = Database['public']['Tables']['entities']['Row'];
+
+const toEntity = (row: EntityRow, counts?: { documents: Set<string>; mentions: number }): CaseEntity => ({
+  id: row.id,
+  name: row.name,
+  type: isEntityType(row.entity_type) ? row.entity_type : 'other',
+  aliases: row.aliases || [],
+  documentCount: counts?.documents.size ?? 0,
+  mentionCount: counts?.mentions ?? 0,
+});
+
+const asAnalysis = (value: Json | null): AnalysisData | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as unknown as AnalysisData) : null;
+
+/** The project's entities, most mentioned first, with how many documents name each. */
+export async function listEntities(supabase: SupabaseClient<Database>, projectId: string): Promise<CaseEntity[]> {
+  const { data: rows, error } = await supabase
+    .from('entities')
+    .select('*')
+    .eq('project_id', projectId);
+  if (error) throw error;
+
+  const { data: mentions, error: mentionsError } = await supabase
+    .from('entity_mentions')
+    .select('entity_id, document_id')
+    .eq('project_id', projectId);
+  if (mentionsError) throw mentionsError;
+
+  const counts = new Map<string, { documents: Set<string>; mentions: number }>();
+  (mentions || []).forEach(mention => {
+    const count = counts.get(mention.entity_id) ?? { documents: new Set<string>(), mentions: 0 };
+    count.documents.add(mention.document_id);
+    count.mentions += 1;
+    counts.set(mention.entity_id, count);
+  });
+
+  return (rows || [])
+    .map(row => toEntity(row, counts.get(row.id)))
+    .sort((a, b) => b.documentCount - a.documentCount || a.name.localeCompare(b.name));
+}
+
+/** Possible duplicates among the entities, less the pairs reviewers have said are different. */
+export async function listEntityMergeSuggestions(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  entities: CaseEntity[]
+): Promise<EntityMergeSuggestion[]> {
+  const { data, error } = await supabase
+    .from('entity_merge_dismissals')
+    .select('entity_id, other_entity_id')
+    .eq('project_id', projectId);
+  if (error) throw error;
+  const dismissed = new Set((data || []).map(row => mergePairKey(row.entity_id, row.other_entity_id)));
+  return suggestEntityMerges(entities, dismissed);
+}
+
+/** Entity ids by the key of every name and alias, so mentions resolve through confirmed merges. */
+const loadEntityKeys = async (supabase: SupabaseClient<Database>, projectId: string): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('entities')
+    .select('id, name, aliases')
+    .eq('project_id', projectId);
+  if (error) throw error;
+  const keys = new Map<string, string>();
+  (data || []).forEach(entity => [entity.name, ...(entity.aliases || [])].forEach(name => {
+    if (!keys.has(entityKey(name))) keys.set(entityKey(name), entity.id);
+  }));
+  return keys;
+};
+
+const createEntity = async (supabase: SupabaseClient<Database>, projectId: string, name: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('entities')
+    .insert({ project_id: projectId, name, entity_type: classifyEntity(name) })
+    .select('id')
+    .single();
+  if (!error) return data.id;
+  if (error.code !== '23505') throw error;
+
+  // Created by another indexer between the lookup and the insert
+  const { data: existing, error: lookupError } = await supabase
+    .from('entities')
+    .select('id')
+    .eq('project_id', projectId)
+    .ilike('name', name.replace(/[\\%_]/g, match => `\\${match}`))
+    .limit(1);
+  if (lookupError) throw lookupError;
+  if (!existing?.[0]) throw error;
+  return existing[0].id;
+};
+
+/**
+ * Rebuilds a document's mentions from its analysis. Each name resolves to the
+ * entity holding it as name or alias; new names become new entities typed
+ * from their wording. Returns the number of mentions recorded.
+ */
+export async function indexDocumentEntities(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; project_id: string; analysis: Json | null }
+): Promise<number> {
+  const found = collectDocumentMentions(asAnalysis(document.analysis));
+  const keys = await loadEntityKeys(supabase, document.project_id);
+
+  const rows: Database['public']['Tables']['entity_mentions']['Insert'][] = [];
+  for (const { mention, context } of found) {
+    let entityId = keys.get(entityKey(mention));
+    if (!entityId) {
+      entityId = await createEntity(supabase, document.project_id, mention);
+      keys.set(entityKey(mention), entityId);
+    }
+    rows.push({ project_id: document.project_id, entity_id: entityId, document_id: document.id, mention, context });
+  }
+
+  const { error: deleteError } = await supabase.from('entity_mentions').delete().eq('document_id', document.id);
+  if (deleteError) throw deleteError;
+  if (rows.length === 0) return 0;
+
+  // Two spellings that resolve to one entity can still be distinct mentions
+  const { error } = await supabase
+    .from('entity_mentions')
+    .upsert(rows, { onConflict: 'entity_id,document_id,mention', ignoreDuplicates: true });
+  if (error) throw error;
+  return rows.length;
+}
+
+/** Indexes every analyzed document in the project, for analyses saved before entity resolution. */
+export async function reindexProjectEntities(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<{ documents: number; mentions: number }> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, project_id, analysis')
+    .eq('project_id', projectId)
+    .not('analysis', 'is', null);
+  if (error) throw error;
+
+  let mentions = 0;
+  for (const document of data || []) {
+    mentions += await indexDocumentEntities(supabase, { id: document.id, project_id: projectId, analysis: document.analysis });
+  }
+  return { documents: (data || []).length, mentions };
+}
+
+const getEntityRow = async (supabase: SupabaseClient<Database>, projectId: string, entityId: string) => {
+  const { data, error } = await supabase
+    .from('entities')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('id', entityId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/** An entity with every document that names it and the facts there that involve it, in Bates order. */
+export async function getEntityDetail(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  entityId: string
+): Promise<EntityDetail | null> {
+  const row = await getEntityRow(supabase, projectId, entityId);
+  if (!row) return null;
+
+  const { data: mentions, error } = await supabase
+    .from('entity_mentions')
+    .select('document_id, mention, context')
+    .eq('entity_id', entityId);
+  if (error) throw error;
+
+  const documentIds = Array.from(new Set((mentions || []).map(mention => mention.document_id)));
+  const { data: documents, error: documentsError } = documentIds.length
+    ? await supabase.from('documents').select('id, name, bates_formatted, analysis').in('id', documentIds)
+    : { data: [], error: null };
+  if (documentsError) throw documentsError;
+
+  const names = [row.name, ...(row.aliases || [])];
+  const references = (documents || []).map(doc => {
+    const own = (mentions || []).filter(mention => mention.document_id === doc.id);
+    const spelled = own.map(mention => mention.mention);
+    const contexts = own.map(mention => mention.context).filter((context): context is string => Boolean(context));
+    return {
+      documentId: doc.id,
+      name: doc.name,
+      batesNumber: doc.bates_formatted,
+      mentions: spelled,
+      facts: Array.from(new Set([...contexts, ...entityFacts([...names, ...spelled], asAnalysis(doc.analysis))])),
+    };
+  });
+  references.sort((a, b) => (a.batesNumber ?? '').localeCompare(b.batesNumber ?? '') || a.name.localeCompare(b.name));
+
+  return {
+    entity: toEntity(row, { documents: new Set(documentIds), mentions: (mentions || []).length }),
+    documents: references,
+  };
+}
+
+/**
+ * Renames or retypes an entity. A rename keeps the old name as an alias so
+ * documents that use it still resolve here.
+ */
+export async function updateEntity(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  entityId: string,
+  changes: { name?: string; type?: EntityType }
+): Promise<{ entity: CaseEntity } | { conflict: string } | null> {
+  const row = await getEntityRow(supabase, projectId, entityId);
+  if (!row) return null;
+
+  const updates: Database['public']['Tables']['entities']['Update'] = { updated_at: new Date().toISOString() };
+  if (changes.type) updates.entity_type = changes.type;
+  if (changes.name && changes.name !== row.name) {
+    updates.name = changes.name;
+    updates.aliases = mergedAliases({ name: changes.name, aliases: row.aliases || [] }, [{ name: row.name, aliases: [] }]);
+  }
+
+  const { data, error } = await supabase
+    .from('entities')
+    .update(updates)
+    .eq('id', entityId)
+    .select('*')
+    .single();
+  if (error) {
+    if (error.code === '23505') return { conflict: `An entity named ${changes.name} already exists; merge them instead` };
+    throw error;
+  }
+  return { entity: toEntity(data) };
+}
+
+/**
+ * Folds the source entities into the target: their mentions move over, their
+ * names become its aliases, and they are deleted. Null when any of them is
+ * not an entity of this project.
+ */
+export async function mergeEntities(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  targetId: string,
+  sourceIds: string[]
+): Promise<CaseEntity | null> {
+  const ids = Array.from(new Set(sourceIds.filter(id => id !== targetId)));
+  const { data: rows, error } = await supabase
+    .from('entities')
+    .select('*')
+    .eq('project_id', projectId)
+    .in('id', [targetId, ...ids]);
+  if (error) throw error;
+
+  const target = (rows || []).find(row => row.id === targetId);
+  const sources = (rows || []).filter(row => row.id !== targetId);
+  if (!target || sources.length !== ids.length || ids.length === 0) return null;
+
+  const { data: mentions, error: mentionsError } = await supabase
+    .from('entity_mentions')
+    .select('project_id, document_id, mention, context')
+    .in('entity_id', ids);
+  if (mentionsError) throw mentionsError;
+  if (mentions && mentions.length > 0) {
+    const { error: moveError } = await supabase
+      .from('entity_mentions')
+      .upsert(
+        mentions.map(mention => ({ ...mention, entity_id: targetId })),
+        { onConflict: 'entity_id,document_id,mention', ignoreDuplicates: true }
+      );
+    if (moveError) throw moveError;
+  }
+
+  const aliases = mergedAliases(
+    { name: target.name, aliases: target.aliases || [] },
+    sources.map(source => ({ name: source.name, aliases: source.aliases || [] }))
+  );
+  const { error: updateError } = await supabase
+    .from('entities')
+    .update({ aliases, updated_at: new Date().toISOString() })
+    .eq('id', targetId);
+  if (updateError) throw updateError;
+
+  // Their mentions and dismissals go with them
+  const { error: deleteError } = await supabase.from('entities').delete().in('id', ids);
+  if (deleteError) throw deleteError;
+
+  return (await getEntityDetail(supabase, projectId, targetId))?.entity ?? null;
+}
+
+/** Records that two entities are different, so the pair is not suggested again. False when either is not in the project. */
+export async function dismissEntityMerge(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  entityId: string,
+  otherEntityId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('entities')
+    .select('id')
+    .eq('project_id', projectId)
+    .in('id', [entityId, otherEntityId]);
+  if (error) throw error;
+  if ((data || []).length !== 2) return false;
+
+  const [first, second] = [entityId, otherEntityId].sort();
+  const { error: insertError } = await supabase
+    .from('entity_merge_dismissals')
+    .upsert({ project_id: projectId, entity_id: first, other_entity_id: second }, { onConflict: 'entity_id,other_entity_id', ignoreDuplicates: true });
+  if (insertError) throw insertError;
+  return true;
+}
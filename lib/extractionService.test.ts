@@ -110,6 +110,43 @@ describe('extractionService', () => {
     expect(result.text).toContain('nested');
   });
 
+  it('parses email headers and splits attachments into children', async () => {
+    const eml = [
+      'From: Jane <jane@example.com>',
+      'To: bob@example.com',
+      'Subject: Contract',
+      'Message-ID: <abc@example.com>',
+      'Content-Type: multipart/mixed; boundary=b1',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See attached.',
+      '--b1',
+      'Content-Type: text/plain; name=terms.txt',
+      'Content-Disposition: attachment; filename=terms.txt',
+      'Content-Transfer-Encoding: base64',
+      '',
+      toBase64('Net 30 terms'),
+      '--b1--',
+    ].join('\r\n');
+
+    const result = await extractTextFromBase64(toBase64(eml), 'message/rfc822', 'contract.eml');
+    expect(result.text).toContain('Subject: Contract');
+    expect(result.text).toContain('See attached.');
+    expect(result.text).not.toContain('TmV0IDMw');
+    expect(result.metadata.email).toMatchObject({ messageId: 'abc@example.com' });
+    expect(result.children?.map(c => [c.fileName, c.content.toString()])).toEqual([['terms.txt', 'Net 30 terms']]);
+  });
+
+  it('splits mbox files into message children', async () => {
+    const mbox = 'From a@example.com Mon Jan  2 10:00:00 2023\nSubject: One\n\nFirst\n\nFrom b@example.com Mon Jan  2 11:00:00 2023\nSubject: Two\n\nSecond\n';
+    const result = await extractTextFromBase64(toBase64(mbox), undefined, 'archive.mbox');
+    expect(result.metadata.mboxMessageCount).toBe(2);
+    expect(result.children?.map(c => c.fileName)).toEqual(['0001 One.eml', '0002 Two.eml']);
+    expect(result.text).toContain('Subject: Two');
+  });
+
   it('chunks long text deterministically', () => {
     const text = 'a'.repeat(10000);
     const chunks = chunkText(text, 4000);
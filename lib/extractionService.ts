@@ -1,11 +1,18 @@
 import 'pdf-parse/worker';
 import { fileTypeFromBuffer } from 'file-type';
-import JSZip from 'jszip';
 import mammoth from 'mammoth';
 import sanitizeHtml from 'sanitize-html';
 import { lookup as mimeLookup } from 'mime-types';
 import { PDFParse } from 'pdf-parse';
-import { extractTextWithAzureOCR, isAzureOCRConfigured } from './azureOCR';
+import { extractTextWithAzureOCR, isAzureOCRConfigured, ocrPageGeometry } from './azureOCR';
+import { formatEmailText, parseEmail, splitMbox, type EmailHeaders } from './emailParser';
+import { emailAttachmentChildren, mboxMessageChild, zipChildren, type ExtractedChild } from './documentFamilies';
+import { containerKind } from './fileTypes';
+import { parseDepositionTranscript } from './deposition';
+import { extractPdfGeometry } from './pageGeometry';
+import type { DepositionTranscript, PageGeometry } from './types';
+
+export type { ExtractedChild } from './documentFamilies';
 
 export interface ExtractionResult {
   text: string;
@@ -14,6 +21,12 @@ export interface ExtractionResult {
   chunks: string[];
   isScanned?: boolean;
   chunkMetadata?: ChunkMetadata[];
+  /** Embedded files (archive entries, email attachments, mbox messages) to ingest as child documents. */
+  children?: ExtractedChild[];
+  /** Word positions per page (PDFs only), used to place redaction suggestions. */
+  pageGeometry?: PageGeometry[];
+  /** Page:line map of a deposition or hearing transcript, with offsets into `text`. */
+  deposition?: DepositionTranscript;
 }
 
 export interface ChunkMetadata {
@@ -132,7 +145,7 @@ const detectMimeType = async (buffer: Buffer, provided?: string, fileName?: stri
 const extractFromPdf = async (
   buffer: Buffer,
   onProgress?: ProgressCallback
-): Promise<{ text: string; isScanned: boolean }> => {
+): Promise<{ text: string; isScanned: boolean; pageGeometry?: PageGeometry[] }> => {
   if (onProgress) onProgress(0, 'Starting PDF extraction');
   
   try {
@@ -162,7 +175,8 @@ const extractFromPdf = async (
         await parser.destroy();
         return { 
           text: ocrResult.text, 
-          isScanned: true 
+          isScanned: true,
+          pageGeometry: ocrPageGeometry(ocrResult),
         };
       } catch (ocrError) {
         console.warn('Azure OCR failed, falling back to extracted text:', ocrError);
@@ -172,10 +186,21 @@ const extractFromPdf = async (
     if (onProgress) onProgress(100, 'Extraction complete');
     
     await parser.destroy();
+
+    // Geometry only helps place redactions; a PDF pdf.js cannot lay out still extracts.
+    let pageGeometry: PageGeometry[] | undefined;
+    if (!isScanned) {
+      try {
+        pageGeometry = await extractPdfGeometry(buffer);
+      } catch (geometryError) {
+        console.warn('PDF word geometry unavailable:', geometryError);
+      }
+    }
     
     return { 
       text: normalizedText, 
-      isScanned 
+      isScanned,
+      pageGeometry,
     };
   } catch (error) {
     console.error('PDF extraction error:', error);
@@ -242,35 +267,53 @@ const extractFromRtf = (buffer: Buffer) => {
 };
 
 const extractFromEmail = (buffer: Buffer) => {
-  const decoded = buffer.toString('utf-8');
-  return normalizeText(decoded);
-};
+  const email = parseEmail(buffer);
+  const children = emailAttachmentChildren(email);
 
-const extractFromZip = async (buffer: Buffer) => {
-  const zip = new JSZip();
-  const archive = await zip.loadAsync(buffer);
-  const textEntries: string[] = [];
-  const entryNames: string[] = [];
+  return {
+    text: normalizeText(formatEmailText(email)),
+    metadata: {
+      email: email.headers,
+      attachmentNames: email.attachments.map(a => a.fileName),
+    },
+    children,
+  };
+};
 
-  const textLikeExtensions = ['txt', 'csv', 'tsv', 'json', 'xml', 'html', 'md', 'rtf', 'yaml', 'yml'];
+const extractFromMbox = (buffer: Buffer) => {
+  const messages = splitMbox(buffer);
+  const headers: EmailHeaders[] = [];
+  const sections: string[] = [];
+  const children: ExtractedChild[] = messages.map((raw, index) => {
+    const email = parseEmail(raw);
+    headers.push(email.headers);
+    sections.push(`--- Message ${index + 1} of ${messages.length} ---\n${formatEmailText(email)}`);
+    return mboxMessageChild(raw, email, index);
+  });
 
-  for (const [path, entry] of Object.entries(archive.files)) {
-    if (entry.dir) continue;
-    const ext = path.split('.').pop()?.toLowerCase() || '';
-    if (!textLikeExtensions.includes(ext)) continue;
+  return {
+    text: normalizeText(sections.join('\n\n')),
+    metadata: {
+      mboxMessageCount: messages.length,
+      mboxSubjects: headers.map(h => h.subject),
+    },
+    children,
+  };
+};
 
-    const content = await entry.async('string');
-    textEntries.push(`--- ${path} ---\n${content}`);
-    entryNames.push(path);
-  }
+// The archive's own text is an inventory; each entry is extracted as a child document.
+const extractFromZip = async (buffer: Buffer) => {
+  const children = await zipChildren(buffer);
+  const paths = children.map(child => (child.metadata.archive as { path: string }).path);
+  const inventory = children.map((child, i) => `${paths[i]} (${child.content.length} bytes)`);
 
-  const combined = textEntries.join('\n\n');
   return {
-    text: normalizeText(combined),
+    text: normalizeText(`Archive contents (${children.length} files):\n${inventory.join('\n')}`),
     metadata: {
-      archiveEntries: textEntries.length,
-      archiveFileNames: entryNames,
+      archiveEntries: children.length,
+      archiveFileNames: paths,
     },
+    children,
   };
 };
 
@@ -286,12 +329,16 @@ export const extractTextFromBase64 = async (
   let text = '';
   let isScanned = false;
   let metadata: Record<string, unknown> = {};
+  let children: ExtractedChild[] | undefined;
+  let pageGeometry: PageGeometry[] | undefined;
+  const container = containerKind(mimeType, fileName);
 
   if (mimeType.includes('pdf')) {
     if (onProgress) onProgress(0, 'Starting PDF extraction');
     const pdfResult = await extractFromPdf(buffer, onProgress);
     text = pdfResult.text;
     isScanned = pdfResult.isScanned;
+    pageGeometry = pdfResult.pageGeometry;
     if (isScanned) {
       metadata.isScannedPdf = true;
     }
@@ -309,12 +356,23 @@ export const extractTextFromBase64 = async (
     text = extractFromStructuredText(buffer);
   } else if (mimeType.includes('rtf')) {
     text = extractFromRtf(buffer);
-  } else if (mimeType.includes('rfc822')) {
-    text = extractFromEmail(buffer);
-  } else if (mimeType.includes('zip')) {
+  } else if (container === 'mbox') {
+    if (onProgress) onProgress(10, 'Splitting mailbox');
+    const mboxResult = extractFromMbox(buffer);
+    text = mboxResult.text;
+    metadata = { ...metadata, ...mboxResult.metadata };
+    children = mboxResult.children;
+  } else if (container === 'email') {
+    const emailResult = extractFromEmail(buffer);
+    text = emailResult.text;
+    metadata = { ...metadata, ...emailResult.metadata };
+    children = emailResult.children;
+  } else if (container === 'zip') {
+    if (onProgress) onProgress(10, 'Listing archive entries');
     const zipResult = await extractFromZip(buffer);
     text = zipResult.text;
     metadata = { ...metadata, ...zipResult.metadata };
+    children = zipResult.children;
   } else if (isProbablyText(mimeType)) {
     text = extractFromStructuredText(buffer);
   } else {
@@ -323,6 +381,11 @@ export const extractTextFromBase64 = async (
 
   const normalized = normalizeText(text);
   const { chunks, metadata: chunkMetadata } = chunkTextSentenceAware(normalized);
+  const deposition = container ? null : parseDepositionTranscript(normalized);
+  if (deposition) {
+    metadata.transcriptPages = `${deposition.firstPage}-${deposition.lastPage}`;
+    if (deposition.witness) metadata.witness = deposition.witness;
+  }
 
   if (onProgress) onProgress(100, 'Extraction complete');
 
@@ -340,5 +403,8 @@ export const extractTextFromBase64 = async (
     chunks,
     isScanned,
     chunkMetadata,
+    children,
+    pageGeometry,
+    deposition: deposition ?? undefined,
   };
 };
\ No newline at end of file
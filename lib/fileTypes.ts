@@ -0,0 +1,52 @@
+import { FileType } from './types';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.eml': 'message/rfc822',
+  '.mbox': 'application/mbox',
+  '.msg': 'application/vnd.ms-outlook',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.zip': 'application/zip',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+};
+
+/** Best-effort MIME type from a file name, for sources that do not supply one. */
+export const mimeTypeFromName = (fileName: string, fallback = 'application/octet-stream'): string => {
+  const dot = fileName.lastIndexOf('.');
+  return (dot > 0 && MIME_BY_EXTENSION[fileName.slice(dot).toLowerCase()]) || fallback;
+};
+
+export const fileTypeFromMime = (mimeType: string): FileType => {
+  if (mimeType.startsWith('image/')) return FileType.IMAGE;
+  if (mimeType.startsWith('video/')) return FileType.VIDEO;
+  if (mimeType.startsWith('audio/')) return FileType.AUDIO;
+  return FileType.DOCUMENT;
+};
+
+export type ContainerKind = 'zip' | 'email' | 'mbox';
+
+/**
+ * Files whose contents become child documents. Browsers often report archives
+ * and mail exports as octet-stream, so the extension decides in that case.
+ */
+export const containerKind = (mimeType: string | null | undefined, fileName = ''): ContainerKind | null => {
+  const mime = !mimeType || mimeType === 'application/octet-stream' ? mimeTypeFromName(fileName, '') : mimeType;
+  if (mime.includes('mbox')) return 'mbox';
+  if (mime.includes('rfc822')) return 'email';
+  if (/(^|[/-])zip/.test(mime)) return 'zip';
+  return null;
+};
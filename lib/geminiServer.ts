@@ -3,6 +3,11 @@ import { SYSTEM_INSTRUCTION_ANALYZER, SYSTEM_INSTRUCTION_CHAT, EVIDENCE_CATEGORI
 import { transcodeToMonoWav } from './mediaTranscoder';
 import { withRateLimit, estimateTokensForRequest } from './rateLimiter';
 import { analysisCache, LRUCache } from './cache';
+import { buildPassageContext } from './retrieval';
+import { findPrivilegeIndicators, normalizePrivilegeScreen } from './privilege';
+import { documentReferenceDate, normalizeAnalysisEvents } from './chronology';
+import { describeTranscriptForAnalysis } from './deposition';
+import type { RetrievedPassage } from './types';
 
 const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
 
@@ -89,8 +94,8 @@ export async function transcribeAudioServer({
 
     INSTRUCTIONS:
     - Provide a COMPLETE, ACCURATE, VERBATIM transcription of all spoken content
-    - Include speaker labels if multiple speakers are detected (e.g., "Speaker 1:", "Speaker 2:")
-    - Include timestamps in format [MM:SS] at regular intervals
+    - Start a new line whenever the speaker changes or a speaker pauses, at most every 20 seconds
+    - Begin EVERY line with the time it starts as [MM:SS] ([H:MM:SS] past the first hour), then the speaker label if multiple speakers are detected (e.g., "[01:05] Speaker 1: ...")
     - Note any significant non-verbal sounds in brackets [door slam], [phone rings], etc.
     - Do NOT summarize or paraphrase - transcribe every word spoken
     - If audio is unclear, mark as [inaudible]
@@ -162,6 +167,7 @@ export async function analyzeFileServer({
   textChunks,
   metadata,
   contentHash,
+  documentDate,
 }: {
   base64Data?: string;
   mimeType?: string;
@@ -173,6 +179,7 @@ export async function analyzeFileServer({
   textChunks?: string[];
   metadata?: Record<string, unknown>;
   contentHash?: string;
+  documentDate?: string | null; // Relative dates in the document are counted from this
 }) {
   const hashForCache = contentHash || LRUCache.hashContent(
     textContent || textChunks?.join('') || base64Data || batesNumber + fileName
@@ -216,11 +223,19 @@ export async function analyzeFileServer({
     contentParts.push({ text: `File metadata: ${JSON.stringify(metadata)}` });
   }
 
+  const referenceDate = documentDate ?? documentReferenceDate(metadata);
+  if (referenceDate) {
+    contentParts.push({ text: `Document date: ${referenceDate}. Read relative dates ("the following Tuesday") from this date.` });
+  }
+
   if (transcription) {
     contentParts.push({ text: `TRANSCRIPTION:\n${transcription}` });
   }
 
-  if (textChunks && textChunks.length > 0) {
+  const transcript = textContent ? describeTranscriptForAnalysis(batesNumber, textContent) : null;
+  if (transcript) {
+    contentParts.push({ text: transcript.content });
+  } else if (textChunks && textChunks.length > 0) {
     textChunks.forEach((chunk, idx) => {
       contentParts.push({ text: `[Document Chunk ${idx + 1}]\n${chunk}` });
     });
@@ -231,9 +246,13 @@ export async function analyzeFileServer({
   }
 
   contentParts.push({
-    text: 'INSTRUCTIONS:\n- Extract key facts, entities, dates, and relevant legal information\n- Classify the "evidenceType" accurately from the provided list\n- Provide a concise summary of the content\n- Identify sentiment/tone if applicable',
+    text: 'INSTRUCTIONS:\n- Extract key facts, entities, dates, and relevant legal information\n- List each dated happening as an event: the date exactly as worded ("dateText"), your ISO 8601 reading of it, any stated time and time zone, a one-line description, the people and organizations involved, and a verbatim supporting quote\n- Classify the "evidenceType" accurately from the provided list\n- Provide a concise summary of the content\n- Identify sentiment/tone if applicable',
   });
 
+  if (transcript) {
+    contentParts.push({ text: transcript.instruction });
+  }
+
   if (!transcription && (fileType === 'AUDIO' || fileType === 'VIDEO')) {
     contentParts.push({ text: '- For audio/video without transcription, describe observable details.' });
   }
@@ -245,9 +264,35 @@ export async function analyzeFileServer({
       evidenceType: { type: Type.STRING, enum: EVIDENCE_CATEGORIES },
       entities: { type: Type.ARRAY, items: { type: Type.STRING } },
       dates: { type: Type.ARRAY, items: { type: Type.STRING } },
+      events: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            dateText: { type: Type.STRING },
+            date: { type: Type.STRING },
+            time: { type: Type.STRING },
+            timezone: { type: Type.STRING },
+            description: { type: Type.STRING },
+            entities: { type: Type.ARRAY, items: { type: Type.STRING } },
+            quote: { type: Type.STRING },
+          },
+          required: ['dateText', 'description'],
+        },
+      },
       relevantFacts: { type: Type.ARRAY, items: { type: Type.STRING } },
       transcription: { type: Type.STRING },
       sentiment: { type: Type.STRING, enum: ['Hostile', 'Cooperative', 'Neutral'] },
+      privilegeScreen: {
+        type: Type.OBJECT,
+        properties: {
+          likelyPrivileged: { type: Type.BOOLEAN },
+          bases: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['attorney_client', 'work_product'] } },
+          reasons: { type: Type.ARRAY, items: { type: Type.STRING } },
+          attorneys: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['likelyPrivileged'],
+      },
     },
     required: ['summary', 'evidenceType', 'entities', 'relevantFacts'],
   };
@@ -284,6 +329,11 @@ export async function analyzeFileServer({
   if (transcription && !analysisResult.transcription) {
     analysisResult.transcription = transcription;
   }
+  analysisResult.privilegeScreen = normalizePrivilegeScreen(
+    analysisResult.privilegeScreen,
+    findPrivilegeIndicators(textContent || textChunks?.join('\n') || transcription)
+  );
+  analysisResult.events = normalizeAnalysisEvents(analysisResult.events, { sourceBates: batesNumber, reference: referenceDate });
 
   if (ENABLE_CACHING) {
     analysisCache.cacheAnalysis(cacheKey, analysisResult, CACHE_TTL_MS);
@@ -296,7 +346,8 @@ export async function chatWithDiscoveryServer(
   query: string,
   filesContext: ChatFileContext[],
   activeFile?: ActiveFileContext,
-  casePerspective?: string
+  casePerspective?: string,
+  retrievedPassages: RetrievedPassage[] = []
 ) {
   let contextString = 'Here is the summary of the discovery files available:\n';
   filesContext.forEach(f => {
@@ -306,6 +357,10 @@ export async function chatWithDiscoveryServer(
     contextString += `Key Facts: ${f.relevantFacts.join('; ')}\n`;
   });
 
+  if (retrievedPassages.length > 0) {
+    contextString += `\n${buildPassageContext(retrievedPassages)}\n`;
+  }
+
   const filesHash = LRUCache.hashContent(contextString);
   const cacheKey = createChatCacheKey(query, filesHash, casePerspective);
 
@@ -1,4 +1,5 @@
 import { CasePerspective, DiscoveryFile } from './types';
+import { authFetch } from './authClient';
 
 const extractClientText = async (file: File, mimeType: string): Promise<string | undefined> => {
   const textualMime = mimeType.startsWith('text/') || mimeType.includes('json') || mimeType.includes('xml') || mimeType.includes('html');
@@ -80,7 +81,7 @@ export const analyzeFile = async (
 ): Promise<any> => {
   const payload = await buildAnalyzePayload(discoveryFile, casePerspective);
 
-  const response = await fetch('/api/analyze', {
+  const response = await authFetch('/api/analyze', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(payload),
@@ -99,7 +100,8 @@ export const chatWithDiscovery = async (
   query: string,
   allFiles: DiscoveryFile[],
   activeFileId: string | null,
-  casePerspective: CasePerspective
+  casePerspective: CasePerspective,
+  projectId?: string
 ): Promise<string> => {
   const filesContext = allFiles
     .filter(f => f.analysis)
@@ -122,7 +124,7 @@ export const chatWithDiscovery = async (
     }
   }
 
-  const response = await fetch('/api/chat', {
+  const response = await authFetch('/api/chat', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -130,6 +132,7 @@ export const chatWithDiscovery = async (
       filesContext,
       activeFile,
       casePerspective,
+      projectId,
     }),
   });
 
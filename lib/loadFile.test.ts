@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { DAT_DELIMITERS, addLoadFiles, buildDat, buildOpt, type LoadFileRecord } from './loadFile';
+import { toLoadFileRecord, type ProducibleDocument } from './productionServer';
+
+const record = (overrides: Partial<LoadFileRecord> = {}): LoadFileRecord => ({
+  begBates: 'DEF-0001',
+  endBates: 'DEF-0003',
+  pageCount: 3,
+  fileName: 'contract.pdf',
+  mimeType: 'application/pdf',
+  contentHash: 'abc123',
+  evidenceType: 'Contract/Agreement',
+  dates: ['2023-01-05', '2023-02-10'],
+  custodian: 'Doe, Jane',
+  originalPath: 'Contracts/2023/contract.pdf',
+  fileModifiedAt: '2023-02-11T09:30:00.000Z',
+  text: 'Line one\nLine two',
+  imagePath: 'IMAGES/DEF-0001.pdf',
+  nativePath: null,
+  ...overrides,
+});
+
+const { column: C, quote: Q } = DAT_DELIMITERS;
+
+describe('buildDat', () => {
+  it('writes a BOM, header and þ-quoted rows with CRLF endings', () => {
+    const dat = buildDat([record()]);
+    const [header, row, trailing] = dat.slice(1).split('\r\n');
+
+    expect(dat.charCodeAt(0)).toBe(0xfeff);
+    expect(header.split(C)[0]).toBe(`${Q}BEGBATES${Q}`);
+    expect(row.split(C)).toEqual([
+      `${Q}DEF-0001${Q}`,
+      `${Q}DEF-0003${Q}`,
+      `${Q}3${Q}`,
+      `${Q}contract.pdf${Q}`,
+      `${Q}application/pdf${Q}`,
+      `${Q}abc123${Q}`,
+      `${Q}Contract/Agreement${Q}`,
+      `${Q}2023-01-05;2023-02-10${Q}`,
+      `${Q}Doe, Jane${Q}`,
+      `${Q}Contracts/2023/contract.pdf${Q}`,
+      `${Q}2023-02-11T09:30:00.000Z${Q}`,
+      `${Q}TEXT\\DEF-0001.txt${Q}`,
+      `${Q}${Q}`,
+    ]);
+    expect(trailing).toBe('');
+  });
+
+  it('replaces newlines and strips delimiter characters inside values', () => {
+    const row = buildDat([record({ fileName: `memo${C}þ\nfinal.pdf` })]).split('\r\n')[1];
+    expect(row.split(C)[3]).toBe(`${Q}memo®final.pdf${Q}`);
+  });
+});
+
+describe('buildOpt', () => {
+  it('writes one document-break line per imaged document', () => {
+    const opt = buildOpt([record(), record({ begBates: 'DEF-0004', imagePath: null })], 'VOL001');
+    expect(opt).toBe('DEF-0001,VOL001,IMAGES\\DEF-0001.pdf,Y,,,3\r\n');
+  });
+});
+
+describe('addLoadFiles', () => {
+  it('adds DATA and TEXT entries', async () => {
+    const zip = new JSZip();
+    addLoadFiles(zip, [record(), record({ begBates: 'DEF-0004', text: null })], 'VOL002');
+
+    expect(Object.keys(zip.files).filter(name => !name.endsWith('/')).sort()).toEqual([
+      'DATA/VOL002.dat',
+      'DATA/VOL002.opt',
+      'TEXT/DEF-0001.txt',
+    ]);
+    expect(await zip.file('TEXT/DEF-0001.txt')!.async('string')).toBe('Line one\nLine two');
+  });
+});
+
+describe('toLoadFileRecord', () => {
+  const doc: ProducibleDocument = {
+    id: 'doc-1',
+    name: 'bodycam.mp4',
+    mime_type: 'video/mp4',
+    storage_path: 'p/DEF-0009_bodycam.mp4',
+    bates_prefix: 'DEF',
+    bates_number: '9',
+    bates_formatted: 'DEF-0009',
+    bates_end_formatted: null,
+    page_count: null,
+    content_hash: null,
+    analysis: { evidenceType: 'Body Cam Footage', dates: ['2023-03-01'], transcription: 'Stop the car.' },
+    extracted_text: null,
+    metadata: { originalPath: 'Officer Lee/bodycam.mp4', fileModifiedAt: '2023-03-01T22:15:00.000Z' },
+    custodian_id: 'custodian-1',
+    prefix: 'DEF',
+    startNumber: 9,
+    padding: 4,
+    custodian: 'Officer Lee',
+  };
+
+  it('falls back to stored fields and the analysis transcription', () => {
+    expect(toLoadFileRecord(doc)).toMatchObject({
+      begBates: 'DEF-0009',
+      endBates: 'DEF-0009',
+      pageCount: 1,
+      evidenceType: 'Body Cam Footage',
+      dates: ['2023-03-01'],
+      custodian: 'Officer Lee',
+      originalPath: 'Officer Lee/bodycam.mp4',
+      fileModifiedAt: '2023-03-01T22:15:00.000Z',
+      text: 'Stop the car.',
+      imagePath: null,
+      nativePath: null,
+    });
+  });
+
+  it('uses produced paths when images were stamped', () => {
+    const produced = { endBates: 'DEF-0009', pageCount: 1, imagePath: 'IMAGES/DEF-0009.pdf', nativePath: 'NATIVES/DEF-0009.mp4' };
+    expect(toLoadFileRecord(doc, produced).nativePath).toBe('NATIVES/DEF-0009.mp4');
+  });
+
+  it('lists no image in the OPT when none was produced', () => {
+    expect(buildOpt([toLoadFileRecord(doc)], 'VOL001')).toBe('');
+  });
+});
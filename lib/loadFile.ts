@@ -0,0 +1,121 @@
+import type JSZip from 'jszip';
+
+/**
+ * Concordance defaults. The column delimiter is ASCII 20 (DC4), which Concordance
+ * and Relativity display as ¶; þ quotes every field and ® stands in for newlines
+ * inside a value.
+ */
+export const DAT_DELIMITERS = {
+  column: '\u0014',
+  quote: 'þ',
+  newline: '®',
+  multiValue: ';',
+} as const;
+
+export const DAT_FIELDS = [
+  'BEGBATES',
+  'ENDBATES',
+  'PAGECOUNT',
+  'FILENAME',
+  'MIMETYPE',
+  'SHA256',
+  'DOCTYPE',
+  'DOCDATES',
+  'CUSTODIAN',
+  'ORIGINALPATH',
+  'DATEMODIFIED',
+  'TEXTPATH',
+  'NATIVEPATH',
+] as const;
+
+export type DatField = (typeof DAT_FIELDS)[number];
+
+export interface LoadFileRecord {
+  begBates: string;
+  endBates: string;
+  pageCount: number;
+  fileName: string;
+  mimeType: string | null;
+  contentHash: string | null;
+  evidenceType: string | null;
+  dates: string[];
+  custodian: string | null;
+  /** Path within the folder the file was collected from. */
+  originalPath: string | null;
+  /** File system modification time at collection, ISO 8601. */
+  fileModifiedAt: string | null;
+  text: string | null;
+  imagePath: string | null;
+  nativePath: string | null;
+}
+
+const UTF8_BOM = '\uFEFF';
+const CRLF = '\r\n';
+
+/** Load files reference volume-relative Windows paths. */
+export const toLoadFilePath = (zipPath: string | null): string => (zipPath ? zipPath.replace(/\//g, '\\') : '');
+
+export const textPathFor = (begBates: string) => `TEXT/${begBates}.txt`;
+
+const sanitizeDatValue = (value: string): string =>
+  value
+    .split(DAT_DELIMITERS.column).join('')
+    .split(DAT_DELIMITERS.quote).join('')
+    .replace(/\r\n|\r|\n/g, DAT_DELIMITERS.newline);
+
+const recordValues = (record: LoadFileRecord): Record<DatField, string> => ({
+  BEGBATES: record.begBates,
+  ENDBATES: record.endBates,
+  PAGECOUNT: String(record.pageCount),
+  FILENAME: record.fileName,
+  MIMETYPE: record.mimeType || '',
+  SHA256: record.contentHash || '',
+  DOCTYPE: record.evidenceType || '',
+  DOCDATES: record.dates.join(DAT_DELIMITERS.multiValue),
+  CUSTODIAN: record.custodian || '',
+  ORIGINALPATH: record.originalPath || '',
+  DATEMODIFIED: record.fileModifiedAt || '',
+  TEXTPATH: record.text ? toLoadFilePath(textPathFor(record.begBates)) : '',
+  NATIVEPATH: toLoadFilePath(record.nativePath),
+});
+
+const datLine = (values: string[]): string => {
+  const { column, quote } = DAT_DELIMITERS;
+  return values.map(value => `${quote}${sanitizeDatValue(value)}${quote}`).join(column);
+};
+
+/** Concordance DAT: UTF-8 with BOM, header row, one þ-quoted row per document. */
+export const buildDat = (records: LoadFileRecord[]): string => {
+  const lines = [datLine([...DAT_FIELDS])];
+  records.forEach(record => {
+    const values = recordValues(record);
+    lines.push(datLine(DAT_FIELDS.map(field => values[field])));
+  });
+  return UTF8_BOM + lines.join(CRLF) + CRLF;
+};
+
+/**
+ * Opticon OPT: ImageKey,Volume,ImagePath,DocBreak,Box,Folder,PageCount.
+ * Images are multi-page PDFs, so each document is a single line carrying its
+ * page count rather than one line per single-page TIFF.
+ */
+export const buildOpt = (records: LoadFileRecord[], volume: string): string => {
+  const lines = records
+    .filter(record => record.imagePath)
+    .map(record => [record.begBates, volume, toLoadFilePath(record.imagePath), 'Y', '', '', String(record.pageCount)].join(','));
+  return lines.join(CRLF) + (lines.length ? CRLF : '');
+};
+
+/**
+ * Add DATA/<volume>.dat, DATA/<volume>.opt and a TEXT folder with one .txt per
+ * document that has text.
+ */
+export const addLoadFiles = (zip: JSZip, records: LoadFileRecord[], volume: string) => {
+  records.forEach(record => {
+    if (record.text) {
+      zip.file(textPathFor(record.begBates), record.text);
+    }
+  });
+  zip.file(`DATA/${volume}.dat`, buildDat(records));
+  zip.file(`DATA/${volume}.opt`, buildOpt(records, volume));
+};
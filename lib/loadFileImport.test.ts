@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { buildDat, type LoadFileRecord } from './loadFile';
+import {
+  buildImportRecords,
+  createFileResolver,
+  decodeLoadFileBytes,
+  pagesInBatesRange,
+  parseCsv,
+  parseDat,
+  parseOpt,
+} from './loadFileImport';
+
+const C = '\u0014';
+
+describe('parseDat', () => {
+  it('reads Concordance delimiters and restores newlines', () => {
+    const dat = `þBEGBATESþ${C}þENDBATESþ${C}þNOTESþ\r\nþPLTF000123þ${C}þPLTF000125þ${C}þline one®line twoþ\r\n`;
+    expect(parseDat(dat)).toEqual({
+      headers: ['BEGBATES', 'ENDBATES', 'NOTES'],
+      rows: [{ BEGBATES: 'PLTF000123', ENDBATES: 'PLTF000125', NOTES: 'line one\nline two' }],
+    });
+  });
+
+  it('accepts a literal pilcrow as the column delimiter', () => {
+    expect(parseDat('þBEGDOCþ¶þCUSTODIANþ\nþABC-0001þ¶þSmith, Janeþ').rows).toEqual([
+      { BEGDOC: 'ABC-0001', CUSTODIAN: 'Smith, Jane' },
+    ]);
+  });
+
+  it('round-trips our own DAT export', () => {
+    const record: LoadFileRecord = {
+      begBates: 'DEF-0001',
+      endBates: 'DEF-0002',
+      pageCount: 2,
+      fileName: 'memo.pdf',
+      mimeType: 'application/pdf',
+      contentHash: null,
+      evidenceType: null,
+      dates: [],
+      custodian: 'Doe, Jane',
+      originalPath: 'Inbox/memo.pdf',
+      fileModifiedAt: null,
+      text: null,
+      imagePath: null,
+      nativePath: 'NATIVES/DEF-0001.pdf',
+    };
+    expect(parseDat(buildDat([record])).rows[0]).toMatchObject({
+      BEGBATES: 'DEF-0001',
+      NATIVEPATH: 'NATIVES\\DEF-0001.pdf',
+      CUSTODIAN: 'Doe, Jane',
+      ORIGINALPATH: 'Inbox/memo.pdf',
+    });
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas and doubled quotes', () => {
+    expect(parseCsv('BegBates,Title\r\nX-1,"Memo, ""final"""\r\n').rows).toEqual([{ BegBates: 'X-1', Title: 'Memo, "final"' }]);
+  });
+});
+
+describe('parseOpt', () => {
+  it('groups pages on document breaks', () => {
+    const opt = [
+      'PLTF000123,VOL001,IMAGES\\001\\PLTF000123.tif,Y,,,3',
+      'PLTF000124,VOL001,IMAGES\\001\\PLTF000124.tif,,,,',
+      'PLTF000125,VOL001,IMAGES\\001\\PLTF000125.tif,,,,',
+      'PLTF000126,VOL001,IMAGES\\001\\PLTF000126.pdf,Y,,,4',
+    ].join('\r\n');
+
+    expect(parseOpt(opt)).toEqual([
+      {
+        begBates: 'PLTF000123',
+        volume: 'VOL001',
+        imagePaths: ['IMAGES\\001\\PLTF000123.tif', 'IMAGES\\001\\PLTF000124.tif', 'IMAGES\\001\\PLTF000125.tif'],
+        pageCount: 3,
+      },
+      { begBates: 'PLTF000126', volume: 'VOL001', imagePaths: ['IMAGES\\001\\PLTF000126.pdf'], pageCount: 4 },
+    ]);
+  });
+
+  it('counts a document without images or a page count as one page', () => {
+    expect(parseOpt('PLTF000200,VOL001,,Y,,,\r\n')[0].pageCount).toBe(1);
+  });
+});
+
+describe('buildImportRecords', () => {
+  it('maps aliased columns and joins OPT images', () => {
+    const loadFile = parseCsv('Beg Doc,End Doc,Native Link,Text Link,Custodian\nPLTF000123,PLTF000125,,TEXT\\PLTF000123.txt,Smith\nPLTF000126,PLTF000126,NATIVES\\budget.xlsx,,Jones\n,,,,\n');
+    const opt = parseOpt('PLTF000123,VOL001,IMAGES\\PLTF000123.tif,Y,,,3\n');
+
+    const { records, skipped } = buildImportRecords(loadFile, opt);
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      producingBegBates: 'PLTF000123',
+      producingEndBates: 'PLTF000125',
+      pageCount: 3,
+      fileName: 'PLTF000123.tif',
+      textPath: 'TEXT\\PLTF000123.txt',
+      imagePaths: ['IMAGES\\PLTF000123.tif'],
+      fields: expect.objectContaining({ Custodian: 'Smith' }),
+    });
+    expect(records[1]).toMatchObject({ fileName: 'budget.xlsx', nativePath: 'NATIVES\\budget.xlsx', pageCount: 1 });
+    expect(skipped).toEqual([{ row: 4, reason: 'Missing beginning Bates number' }]);
+  });
+
+  it('builds records from an OPT alone', () => {
+    const { records } = buildImportRecords(null, parseOpt('ABC00010,V1,IMAGES\\ABC00010.pdf,Y,,,5'));
+    expect(records[0]).toMatchObject({ producingBegBates: 'ABC00010', producingEndBates: 'ABC00014', pageCount: 5 });
+  });
+
+  it('reports a missing Bates column', () => {
+    expect(buildImportRecords(parseCsv('Title\nMemo\n')).skipped[0].reason).toMatch(/No beginning Bates column/);
+  });
+});
+
+describe('helpers', () => {
+  it('derives page counts from Bates ranges', () => {
+    expect(pagesInBatesRange('PLTF000123', 'PLTF000130')).toBe(8);
+    expect(pagesInBatesRange('PLTF000123', 'OTHER000130')).toBe(1);
+  });
+
+  it('resolves Windows load-file paths against picked folder paths', () => {
+    const resolve = createFileResolver([
+      { path: 'VOL001/NATIVES/budget.xlsx', file: 'native' },
+      { path: 'VOL001/TEXT/PLTF000123.txt', file: 'text' },
+    ]);
+    expect(resolve('.\\NATIVES\\budget.xlsx')).toBe('native');
+    expect(resolve('D:\\export\\TEXT\\PLTF000123.txt')).toBe('text');
+    expect(resolve('IMAGES\\missing.tif')).toBeNull();
+  });
+
+  it('decodes Windows-1252 load files', () => {
+    expect(decodeLoadFileBytes(new Uint8Array([0xfe, 0x41, 0xfe]))).toBe('þAþ');
+    expect(decodeLoadFileBytes(new TextEncoder().encode('þAþ'))).toBe('þAþ');
+  });
+});
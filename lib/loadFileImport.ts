@@ -0,0 +1,309 @@
+import { parseBatesLabel } from './bates';
+import { DAT_DELIMITERS } from './loadFile';
+
+export interface ParsedLoadFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface OptDocument {
+  begBates: string;
+  volume: string;
+  imagePaths: string[];
+  pageCount: number;
+}
+
+/** One document described by a third-party production's load files. */
+export interface LoadFileImportRecord {
+  producingBegBates: string;
+  producingEndBates: string;
+  pageCount: number;
+  fileName: string;
+  nativePath: string | null;
+  textPath: string | null;
+  imagePaths: string[];
+  /** Every column from the DAT/CSV row, keyed by its original header. */
+  fields: Record<string, string>;
+}
+
+export interface LoadFileImportPlan {
+  records: LoadFileImportRecord[];
+  skipped: { row: number; reason: string }[];
+}
+
+const FIELD_ALIASES = {
+  begBates: ['BEGBATES', 'BEGDOC', 'BEGNO', 'BEGBATESNUMBER', 'BEGINBATES', 'BATESBEGIN', 'BATESBEG', 'PRODBEG', 'PRODBEGBATES', 'CONTROLNUMBER', 'DOCID'],
+  endBates: ['ENDBATES', 'ENDDOC', 'ENDNO', 'ENDBATESNUMBER', 'BATESEND', 'PRODEND', 'PRODENDBATES'],
+  nativePath: ['NATIVEPATH', 'NATIVELINK', 'NATIVEFILE', 'NATIVEFILEPATH', 'NATIVE', 'FILEPATH'],
+  textPath: ['TEXTPATH', 'TEXTLINK', 'TEXTFILE', 'TEXTFILEPATH', 'EXTRACTEDTEXT', 'OCRPATH'],
+  fileName: ['FILENAME', 'ORIGINALFILENAME', 'ORIGFILENAME', 'NATIVEFILENAME'],
+} as const;
+
+type MappedField = keyof typeof FIELD_ALIASES;
+
+const normalizeHeader = (header: string) => header.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Split delimited text into rows. Quoted values may contain the column delimiter,
+ * real newlines and doubled quote characters.
+ */
+export const parseDelimited = (text: string, column: string, quote: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const endValue = () => {
+    row.push(value);
+    value = '';
+  };
+  const endRow = () => {
+    endValue();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          value += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        value += char;
+      }
+    } else if (char === quote) {
+      inQuotes = true;
+    } else if (char === column) {
+      endValue();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const toParsedLoadFile = (rows: string[][], mapValue: (value: string) => string = v => v): ParsedLoadFile => {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(h => h.trim());
+  return {
+    headers,
+    rows: dataRows.map(values => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        record[header] = mapValue((values[i] ?? '').trim());
+      });
+      return record;
+    }),
+  };
+};
+
+const stripBom = (text: string) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+/**
+ * Concordance DAT. Producers disagree on the column delimiter: ASCII 20 is the
+ * standard, but a literal ¶ or a comma also turns up.
+ */
+export const parseDat = (text: string): ParsedLoadFile => {
+  const body = stripBom(text);
+  const firstLine = body.split(/\r?\n/, 1)[0];
+  const column = firstLine.includes(DAT_DELIMITERS.column)
+    ? DAT_DELIMITERS.column
+    : firstLine.includes('¶')
+      ? '¶'
+      : ',';
+  const quote = firstLine.includes(DAT_DELIMITERS.quote) ? DAT_DELIMITERS.quote : '"';
+  return toParsedLoadFile(parseDelimited(body, column, quote), value => value.split(DAT_DELIMITERS.newline).join('\n'));
+};
+
+export const parseCsv = (text: string): ParsedLoadFile => toParsedLoadFile(parseDelimited(stripBom(text), ',', '"'));
+
+/** Opticon OPT: ImageKey,Volume,ImagePath,DocBreak,Box,Folder,PageCount. */
+export const parseOpt = (text: string): OptDocument[] => {
+  const documents: OptDocument[] = [];
+  let current: (OptDocument & { declaredPages: number }) | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const { declaredPages, ...doc } = current;
+    documents.push({ ...doc, pageCount: Math.max(1, doc.imagePaths.length, declaredPages) });
+  };
+
+  stripBom(text)
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(line => {
+      const [imageKey = '', volume = '', imagePath = '', docBreak = '', , , pages = ''] = line.split(',');
+      if (docBreak.trim().toUpperCase() === 'Y' || !current) {
+        finish();
+        current = {
+          begBates: imageKey.trim(),
+          volume: volume.trim(),
+          imagePaths: [],
+          pageCount: 0,
+          declaredPages: parseInt(pages, 10) || 0,
+        };
+      }
+      if (imagePath.trim()) current.imagePaths.push(imagePath.trim());
+    });
+  finish();
+
+  return documents;
+};
+
+/** Parse a DAT, CSV or OPT file by extension. OPT returns null here; use parseOpt. */
+export const parseLoadFile = (fileName: string, text: string): ParsedLoadFile | null => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return parseCsv(text);
+  if (lower.endsWith('.dat') || lower.endsWith('.txt')) return parseDat(text);
+  return null;
+};
+
+const findField = (headers: string[], field: MappedField): string | null => {
+  const aliases = FIELD_ALIASES[field] as readonly string[];
+  for (const alias of aliases) {
+    const header = headers.find(h => normalizeHeader(h) === alias);
+    if (header) return header;
+  }
+  return null;
+};
+
+/** Canonical form for comparing load-file paths with uploaded relative paths. */
+export const normalizeLoadFilePath = (path: string): string =>
+  path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/|\/)+/, '')
+    .replace(/\/{2,}/g, '/')
+    .toLowerCase();
+
+const baseName = (path: string) => path.replace(/\\/g, '/').split('/').pop() || path;
+
+const extensionOf = (path: string | null | undefined) => {
+  if (!path) return '';
+  const name = baseName(path);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+/** Pages implied by a Bates range when both ends share a prefix. */
+export const pagesInBatesRange = (begin: string, end: string): number => {
+  const start = parseBatesLabel(begin);
+  const finish = parseBatesLabel(end);
+  if (!start || !finish || start.prefix !== finish.prefix) return 1;
+  return Math.max(1, finish.number - start.number + 1);
+};
+
+const offsetBates = (label: string, offset: number): string => {
+  const parsed = parseBatesLabel(label);
+  if (!parsed) return label;
+  const digits = String(parsed.number + offset).padStart(parsed.padding, '0');
+  return `${label.slice(0, label.length - parsed.padding)}${digits}`;
+};
+
+/**
+ * Combine a DAT/CSV and/or an OPT into one record per produced document. OPT
+ * image lists are joined on the beginning Bates number; without a DAT, the OPT
+ * alone defines the documents.
+ */
+export const buildImportRecords = (loadFile: ParsedLoadFile | null, optDocuments: OptDocument[] = []): LoadFileImportPlan => {
+  const optByBates = new Map(optDocuments.map(doc => [doc.begBates.toUpperCase(), doc]));
+  const records: LoadFileImportRecord[] = [];
+  const skipped: LoadFileImportPlan['skipped'] = [];
+
+  if (!loadFile) {
+    optDocuments.forEach(doc => {
+      records.push({
+        producingBegBates: doc.begBates,
+        producingEndBates: doc.pageCount > 1 ? offsetBates(doc.begBates, doc.pageCount - 1) : doc.begBates,
+        pageCount: doc.pageCount,
+        fileName: `${doc.begBates}${extensionOf(doc.imagePaths[0])}`,
+        nativePath: null,
+        textPath: null,
+        imagePaths: doc.imagePaths,
+        fields: {},
+      });
+    });
+    return { records, skipped };
+  }
+
+  const columns = Object.fromEntries(
+    (Object.keys(FIELD_ALIASES) as MappedField[]).map(field => [field, findField(loadFile.headers, field)])
+  ) as Record<MappedField, string | null>;
+
+  if (!columns.begBates) {
+    return { records, skipped: [{ row: 0, reason: 'No beginning Bates column (e.g. BEGBATES) in load file header' }] };
+  }
+
+  loadFile.rows.forEach((row, i) => {
+    const begBates = row[columns.begBates!];
+    if (!begBates) {
+      skipped.push({ row: i + 2, reason: 'Missing beginning Bates number' });
+      return;
+    }
+
+    const endBates = (columns.endBates && row[columns.endBates]) || begBates;
+    const opt = optByBates.get(begBates.toUpperCase());
+    const nativePath = (columns.nativePath && row[columns.nativePath]) || null;
+    const textPath = (columns.textPath && row[columns.textPath]) || null;
+    const imagePaths = opt?.imagePaths || [];
+
+    records.push({
+      producingBegBates: begBates,
+      producingEndBates: endBates,
+      pageCount: opt?.pageCount || pagesInBatesRange(begBates, endBates),
+      fileName:
+        (columns.fileName && row[columns.fileName]) ||
+        (nativePath ? baseName(nativePath) : `${begBates}${extensionOf(imagePaths[0] || textPath)}`),
+      nativePath,
+      textPath,
+      imagePaths,
+      fields: row,
+    });
+  });
+
+  return { records, skipped };
+};
+
+/**
+ * Resolve load-file paths against uploaded files. Matches on the trailing path
+ * segments first (so VOL001\NATIVES\0001.msg finds natives/0001.msg in a picked
+ * folder), then falls back to the bare file name.
+ */
+export const createFileResolver = <T>(entries: { path: string; file: T }[]) => {
+  const normalized = entries.map(entry => ({ path: normalizeLoadFilePath(entry.path), file: entry.file }));
+  const byName = new Map<string, T>();
+  normalized.forEach(entry => {
+    const name = baseName(entry.path);
+    if (!byName.has(name)) byName.set(name, entry.file);
+  });
+
+  return (loadPath: string | null | undefined): T | null => {
+    if (!loadPath) return null;
+    const target = normalizeLoadFilePath(loadPath);
+    const exact = normalized.find(entry => entry.path === target || entry.path.endsWith(`/${target}`) || target.endsWith(`/${entry.path}`));
+    return exact ? exact.file : byName.get(baseName(target)) ?? null;
+  };
+};
+
+/**
+ * Load files from older tools are Windows-1252 rather than UTF-8 (þ is the single
+ * byte 0xFE). Decode as UTF-8 when valid, otherwise fall back.
+ */
+export const decodeLoadFileBytes = (bytes: ArrayBuffer | Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAuthProvider } from './auth';
+import { LOCAL_TOKEN_TTL_SECONDS, localUserId, signLocalToken, verifyLocalToken } from './localAuth';
+
+describe('local auth tokens', () => {
+  const secret = 'test-secret-with-at-least-32-characters';
+  const now = Date.UTC(2024, 2, 13);
+
+  it('round-trips claims PostgREST understands', () => {
+    const claims = verifyLocalToken(signLocalToken('Ann@Firm.com', secret, now), secret, now);
+    expect(claims).toMatchObject({ email: 'ann@firm.com', role: 'authenticated', aud: 'authenticated', sub: localUserId('ann@firm.com') });
+    expect(claims?.sub).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  it('rejects tampered, foreign and expired tokens', () => {
+    const token = signLocalToken('ann@firm.com', secret, now);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: localUserId('bob@firm.com'), email: 'bob@firm.com', role: 'authenticated', exp: now / 1000 + 60 })).toString('base64url');
+    expect(verifyLocalToken(`${header}.${forged}.${signature}`, secret, now)).toBeNull();
+    expect(verifyLocalToken(token, 'another-secret', now)).toBeNull();
+    expect(verifyLocalToken(token, secret, now + LOCAL_TOKEN_TTL_SECONDS * 1000)).toBeNull();
+    expect(verifyLocalToken('not-a-token', secret, now)).toBeNull();
+  });
+});
+
+describe('auth provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the local provider only outside production', () => {
+    vi.stubEnv('AUTH_PROVIDER', 'local');
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(getAuthProvider()).toBe('local');
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getAuthProvider()).toThrow(/cannot be used in production/);
+
+    vi.stubEnv('AUTH_PROVIDER', '');
+    expect(getAuthProvider()).toBe('supabase');
+  });
+});
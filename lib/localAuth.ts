@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+
+/**
+ * Local stand-in for Supabase Auth (AUTH_PROVIDER=local). Tokens are HS256
+ * JWTs signed with the project's JWT secret and shaped like the ones Supabase
+ * Auth issues, so PostgREST accepts them and auth.uid() / auth.jwt() work in
+ * RLS policies. There is no password: whoever can reach the sign-in route can
+ * claim any email, so only use it for local development and offline demos;
+ * production builds refuse it (see getAuthProvider).
+ */
+export const LOCAL_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+export interface LocalTokenClaims {
+  sub: string;
+  email: string;
+  role: 'authenticated';
+  aud: 'authenticated';
+  iat: number;
+  exp: number;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(`${HEADER}.${payload}`).digest('base64url');
+
+/** A stable user id for an email, formatted as a name-based (v5-style) UUID. */
+export const localUserId = (email: string): string => {
+  const hex = crypto.createHash('sha256').update(`discoverylens:${email.toLowerCase()}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+export const signLocalToken = (email: string, secret: string, now = Date.now()): string => {
+  const iat = Math.floor(now / 1000);
+  const claims: LocalTokenClaims = {
+    sub: localUserId(email),
+    email: email.toLowerCase(),
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat,
+    exp: iat + LOCAL_TOKEN_TTL_SECONDS,
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${HEADER}.${payload}.${sign(payload, secret)}`;
+};
+
+/** The token's claims when it was signed with `secret` and has not expired, otherwise null. */
+export const verifyLocalToken = (token: string, secret: string, now = Date.now()): LocalTokenClaims | null => {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (header !== HEADER || !payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Partial<LocalTokenClaims>;
+    if (claims.role !== 'authenticated' || typeof claims.sub !== 'string' || typeof claims.email !== 'string') return null;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+    return claims as LocalTokenClaims;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildClipArgs,
+  buildExhibitSet,
+  buildSubtitles,
+  clipFileName,
+  clipRangeError,
+  formatSrtTime,
+  sliceTranscript,
+} from './mediaClips';
+import { fromAssemblyTranscript, parseTimestampedTranscript, type TimedWord } from './transcripts';
+import type { MediaClip } from './types';
+
+const words = (speaker: string, start: number, text: string): TimedWord[] =>
+  text.split(' ').map((word, i) => ({ text: word, start: start + i * 500, end: start + i * 500 + 400, confidence: 0.9, speaker }));
+
+const transcript = fromAssemblyTranscript({
+  utterances: [
+    { speaker: 'A', words: words('A', 1000, 'step out of the car') },
+    { speaker: 'B', words: words('B', 6000, 'what did I do') },
+  ],
+});
+
+describe('clipRangeError', () => {
+  it('accepts a range inside the recording and explains what is wrong otherwise', () => {
+    expect(clipRangeError(1000, 5000, 60_000)).toBeNull();
+    expect(clipRangeError(5000, 5000)).toMatch(/end after/);
+    expect(clipRangeError(-1, 5000)).toMatch(/before/);
+    expect(clipRangeError(0, 11 * 60_000)).toMatch(/at most 10 minutes/);
+    expect(clipRangeError(70_000, 80_000, 60_000)).toMatch(/after the recording ends/);
+  });
+});
+
+describe('sliceTranscript', () => {
+  it('keeps the words inside the clip, timed from its start', () => {
+    const sliced = sliceTranscript(transcript, 2000, 7000);
+    expect(sliced.durationMs).toBe(5000);
+    expect(sliced.segments.map(segment => segment.text)).toEqual(['of the car', 'what did']);
+    expect(sliced.segments[0]).toMatchObject({ startMs: 0, endMs: 1400, speaker: 'A' });
+    expect(sliced.segments[1].words[0]).toMatchObject({ startMs: 4000, endMs: 4400 });
+  });
+
+  it('runs an untimed last line to the end of the clip', () => {
+    const untimed = parseTimestampedTranscript('[00:01] Stop.\n[00:04] Hands up.');
+    expect(sliceTranscript(untimed, 3000, 9000).segments).toEqual([
+      expect.objectContaining({ text: 'Stop.', startMs: 0, endMs: 1000 }),
+      expect.objectContaining({ text: 'Hands up.', startMs: 1000, endMs: 6000 }),
+    ]);
+  });
+});
+
+describe('subtitles', () => {
+  it('formats SubRip times and names identified speakers', () => {
+    expect(formatSrtTime(3_723_045)).toBe('01:02:03,045');
+    expect(buildSubtitles(sliceTranscript(transcript, 1000, 10_000), { B: 'Officer Ramirez' })).toBe(
+      '1\n00:00:00,000 --> 00:00:02,400\nSpeaker A: step out of the car\n\n' +
+        '2\n00:00:05,000 --> 00:00:06,900\nOfficer Ramirez: what did I do\n'
+    );
+  });
+});
+
+describe('buildClipArgs', () => {
+  it('seeks, trims and burns the requested overlays into video', () => {
+    const args = buildClipArgs({
+      inputPath: '/tmp/clip/source',
+      outputPath: '/tmp/clip/clip.mp4',
+      startMs: 65_000,
+      endMs: 92_500,
+      isVideo: true,
+      batesLabel: 'DEF-0042',
+      timestamp: true,
+      subtitlesPath: '/tmp/clip/clip.srt',
+    });
+    expect(args.slice(0, 6)).toEqual(['-ss', '65.000', '-i', '/tmp/clip/source', '-t', '27.500']);
+    const filters = args[args.indexOf('-vf') + 1];
+    expect(filters).toBe(
+      "subtitles=/tmp/clip/clip.srt," +
+        "drawtext=text='DEF-0042':x=w-tw-16:y=16:fontsize=24:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=6," +
+        "drawtext=text='%{pts\\:hms\\:65.000}':x=16:y=h-th-16:fontsize=24:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=6"
+    );
+    expect(args[args.length - 1]).toBe('/tmp/clip/clip.mp4');
+  });
+
+  it('drops the picture from audio clips', () => {
+    const args = buildClipArgs({ inputPath: 'in', outputPath: 'out.m4a', startMs: 0, endMs: 1000, isVideo: false, batesLabel: 'DEF-0042' });
+    expect(args).toContain('-vn');
+    expect(args).not.toContain('-vf');
+  });
+});
+
+describe('exhibit sets', () => {
+  it('names clips after their source and where they were cut', () => {
+    expect(clipFileName('DEF-0007', 65_000, 92_000, true)).toBe('DEF-0007_01.05-01.32.mp4');
+    expect(clipFileName('interview 3.wav', 0, 4000, false)).toBe('interview_3_00.00-00.04.m4a');
+  });
+
+  it('numbers clips as exhibits and indexes them', async () => {
+    const clip: MediaClip = {
+      id: 'clip-1',
+      documentId: 'doc-2',
+      sourceDocumentId: 'doc-1',
+      sourceBates: 'DEF-0007',
+      batesFormatted: 'DEF-0042',
+      name: 'DEF-0007_01.05-01.32.mp4',
+      description: 'Stop, "hands up"',
+      startMs: 65_000,
+      endMs: 92_000,
+      overlays: { bates: true, timestamp: true, subtitles: false },
+      createdAt: '2024-03-21T00:00:00Z',
+      signedUrl: null,
+    };
+    const { zip, index } = await buildExhibitSet([{ clip, content: Buffer.from('video'), subtitles: '1\n' }], 'PX');
+    expect(index[0]).toMatchObject({ exhibit: 'PX-001', fileName: 'PX-001_DEF-0042.mp4', subtitlesFileName: 'PX-001_DEF-0042.srt', duration: '00:27' });
+
+    const archive = await JSZip.loadAsync(zip);
+    expect(Object.keys(archive.files).sort()).toEqual(['PX-001_DEF-0042.mp4', 'PX-001_DEF-0042.srt', 'exhibit_index.csv']);
+    expect(await archive.file('exhibit_index.csv')!.async('string')).toBe(
+      'Exhibit,BatesNumber,SourceBates,Start,End,Duration,Description,FileName,Subtitles\n' +
+        'PX-001,DEF-0042,DEF-0007,01:05,01:32,00:27,"Stop, ""hands up""",PX-001_DEF-0042.mp4,PX-001_DEF-0042.srt\n'
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import JSZip from 'jszip';
+import { csvEscape } from './csv';
+import type { ClipOverlays, MediaClip, MediaTranscript, TranscriptSegment } from './types';
+import { formatTimestamp, speakerName } from './transcripts';
+
+// Longer excerpts belong in a production, not an exhibit clip
+export const MAX_CLIP_MS = 10 * 60 * 1000;
+
+const OVERLAY_STYLE = 'fontsize=24:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=6';
+
+/** In and out points being marked in the player; either may not be set yet. */
+export interface ClipRange {
+  startMs: number | null;
+  endMs: number | null;
+}
+
+/** Why a clip range cannot be cut, or null when it can. */
+export const clipRangeError = (startMs: number, endMs: number, durationMs: number | null = null): string | null => {
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) return 'Clip start and end must be numbers';
+  if (startMs < 0) return 'Clip cannot start before the recording';
+  if (endMs <= startMs) return 'Clip must end after it starts';
+  if (endMs - startMs > MAX_CLIP_MS) return `Clips can be at most ${MAX_CLIP_MS / 60000} minutes long`;
+  if (durationMs !== null && startMs >= durationMs) return 'Clip starts after the recording ends';
+  return null;
+};
+
+/**
+ * The part of a transcript that falls within a clip, with times counted from
+ * the clip's start. Lines that run over either edge are cut to fit.
+ */
+export const sliceTranscript = (transcript: MediaTranscript, startMs: number, endMs: number): MediaTranscript => {
+  const shift = (ms: number) => Math.min(endMs, Math.max(startMs, ms)) - startMs;
+  const segments: TranscriptSegment[] = transcript.segments
+    .filter(segment => segment.startMs < endMs && (segment.endMs > startMs || (segment.endMs <= segment.startMs && segment.startMs >= startMs)))
+    .map(segment => {
+      const words = segment.words.filter(word => word.startMs < endMs && word.endMs > startMs);
+      return {
+        ...segment,
+        startMs: shift(segment.startMs),
+        endMs: segment.endMs > segment.startMs ? shift(segment.endMs) : endMs - startMs,
+        text: words.length > 0 && words.length < segment.words.length ? words.map(word => word.text).join(' ') : segment.text,
+        words: words.map(word => ({ ...word, startMs: shift(word.startMs), endMs: shift(word.endMs) })),
+      };
+    });
+  return {
+    source: transcript.source,
+    language: transcript.language,
+    durationMs: endMs - startMs,
+    text: segments.map(segment => segment.text).join(' '),
+    segments,
+  };
+};
+
+/** "00:01:02,500", the SubRip time format. */
+export const formatSrtTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const [hours, minutes, seconds, millis] = [
+    Math.floor(total / 3600000),
+    Math.floor(total / 60000) % 60,
+    Math.floor(total / 1000) % 60,
+    total % 1000,
+  ];
+  return `${[hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':')},${String(millis).padStart(3, '0')}`;
+};
+
+/** SubRip subtitles for a (sliced) transcript, one cue per line, speakers named where identified. */
+export const buildSubtitles = (transcript: MediaTranscript, names: Record<string, string> = {}): string =>
+  transcript.segments
+    .filter(segment => segment.text.trim())
+    .map((segment, index) => {
+      const endMs = segment.endMs > segment.startMs ? segment.endMs : transcript.durationMs ?? segment.startMs + 3000;
+      const text = segment.speaker ? `${speakerName(segment.speaker, names)}: ${segment.text}` : segment.text;
+      return `${index + 1}\n${formatSrtTime(segment.startMs)} --> ${formatSrtTime(endMs)}\n${text}\n`;
+    })
+    .join('\n');
+
+// drawtext reads its text through two levels of escaping: the option value and the filter graph
+const escapeDrawtext = (text: string) => text.replace(/[\\':%]/g, character => `\\${character}`);
+
+export interface ClipCut {
+  inputPath: string;
+  outputPath: string;
+  startMs: number;
+  endMs: number;
+  isVideo: boolean;
+  batesLabel?: string | null;
+  timestamp?: boolean;
+  subtitlesPath?: string | null;
+}
+
+/**
+ * ffmpeg arguments that cut [startMs, endMs) from the input and re-encode it,
+ * so the cut is frame accurate, with the requested overlays burned into video.
+ * The burned-in timestamp shows time in the source recording, not the clip.
+ */
+export const buildClipArgs = ({ inputPath, outputPath, startMs, endMs, isVideo, batesLabel, timestamp, subtitlesPath }: ClipCut): string[] => {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const filters = [
+    subtitlesPath ? `subtitles=${subtitlesPath.replace(/[\\':]/g, character => `\\${character}`)}` : null,
+    batesLabel ? `drawtext=text='${escapeDrawtext(batesLabel)}':x=w-tw-16:y=16:${OVERLAY_STYLE}` : null,
+    timestamp ? `drawtext=text='%{pts\\:hms\\:${seconds(startMs)}}':x=16:y=h-th-16:${OVERLAY_STYLE}` : null,
+  ].filter((filter): filter is string => filter !== null);
+
+  const video = isVideo
+    ? [...(filters.length > 0 ? ['-vf', filters.join(',')] : []), '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p']
+    : ['-vn'];
+  return [
+    '-ss', seconds(startMs),
+    '-i', inputPath,
+    '-t', seconds(endMs - startMs),
+    ...video,
+    '-c:a', 'aac', '-b:a', '128k',
+    '-movflags', '+faststart',
+    '-y', outputPath,
+  ];
+};
+
+/** "DEF-0007_01.05-01.32.mp4": the source's Bates number and where in it the clip was cut. */
+export const clipFileName = (sourceLabel: string, startMs: number, endMs: number, isVideo: boolean): string => {
+  const stamp = (ms: number) => formatTimestamp(ms).replace(/:/g, '.');
+  const base = sourceLabel.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+  return `${base}_${stamp(startMs)}-${stamp(endMs)}.${isVideo ? 'mp4' : 'm4a'}`;
+};
+
+export const DEFAULT_OVERLAYS: ClipOverlays = { bates: true, timestamp: true, subtitles: false };
+
+export interface ExhibitItem {
+  clip: MediaClip;
+  content: Buffer;
+  subtitles: string | null;
+}
+
+export interface ExhibitIndexEntry {
+  exhibit: string;
+  batesNumber: string;
+  sourceBates: string;
+  start: string;
+  end: string;
+  duration: string;
+  description: string;
+  fileName: string;
+  subtitlesFileName: string | null;
+}
+
+/** "PX-001". */
+export const exhibitLabel = (prefix: string, number: number): string => `${prefix}-${String(number).padStart(3, '0')}`;
+
+export const buildExhibitIndexCsv = (entries: ExhibitIndexEntry[]): string => {
+  const header = ['Exhibit', 'BatesNumber', 'SourceBates', 'Start', 'End', 'Duration', 'Description', 'FileName', 'Subtitles'];
+  const rows = entries.map(entry =>
+    [
+      entry.exhibit,
+      entry.batesNumber,
+      entry.sourceBates,
+      entry.start,
+      entry.end,
+      entry.duration,
+      entry.description,
+      entry.fileName,
+      entry.subtitlesFileName ?? '',
+    ].map(csvEscape).join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Numbers the clips as exhibits in the order given and packages them:
+ *   <EXHIBIT>_<BATES>.mp4   the clip
+ *   <EXHIBIT>_<BATES>.srt   its transcript as subtitles, when it has one
+ *   exhibit_index.csv       what each exhibit is and where it came from
+ */
+export async function buildExhibitSet(items: ExhibitItem[], prefix: string): Promise<{ zip: Buffer; index: ExhibitIndexEntry[] }> {
+  const zip = new JSZip();
+  const index = items.map(({ clip, content, subtitles }, i) => {
+    const exhibit = exhibitLabel(prefix, i + 1);
+    const base = `${exhibit}_${(clip.batesFormatted || clip.id).replace(/[^\w.-]+/g, '_')}`;
+    const extension = clip.name.match(/\.[^.]+$/)?.[0] ?? '.mp4';
+    const fileName = `${base}${extension}`;
+    const subtitlesFileName = subtitles ? `${base}.srt` : null;
+    zip.file(fileName, content);
+    if (subtitles && subtitlesFileName) zip.file(subtitlesFileName, subtitles);
+    return {
+      exhibit,
+      batesNumber: clip.batesFormatted ?? '',
+      sourceBates: clip.sourceBates ?? '',
+      start: formatTimestamp(clip.startMs),
+      end: formatTimestamp(clip.endMs),
+      duration: formatTimestamp(clip.endMs - clip.startMs),
+      description: clip.description ?? '',
+      fileName,
+      subtitlesFileName,
+    };
+  });
+  zip.file('exhibit_index.csv', buildExhibitIndexCsv(index));
+  // The clips are already compressed; deflating them again only costs time
+  return { zip: await zip.generateAsync({ type: 'nodebuffer', compression: 'STORE' }), index };
+}
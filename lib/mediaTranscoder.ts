@@ -1,8 +1,14 @@
 import { spawn } from 'child_process';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import { PassThrough } from 'stream';
+import { buildClipArgs } from './mediaClips';
+import { buildKeyframeArgs, keyframeIntervalMs, parseFrameTimes } from './thumbnails';
 
 const MAX_MEDIA_BYTES = 25 * 1024 * 1024; // 25MB raw input limit
 const MAX_AUDIO_BYTES = 10 * 1024 * 1024; // 10MB after downsampling
+const MAX_SOURCE_MEDIA_BYTES = 500 * 1024 * 1024; // 500MB recording to cut clips or take keyframes from
 
 export interface MediaBufferResult {
   audioBuffer: Buffer;
@@ -127,3 +133,118 @@ export async function transcodeToMonoWav({ inputBuffer, mimeType, sizeLimit = MA
     ffmpeg.stdin.end();
   });
 }
+
+/** Runs ffmpeg or ffprobe to completion and returns what it wrote to stdout and stderr. */
+function runTool(command: 'ffmpeg' | 'ffprobe', args: string[], missingMessage: string): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const tool = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    tool.stdout.on('data', chunk => stdoutChunks.push(chunk as Buffer));
+    tool.stderr.on('data', chunk => stderrChunks.push(chunk as Buffer));
+    tool.on('error', err => {
+      const error = err as NodeJS.ErrnoException;
+      reject(error.code === 'ENOENT' ? new Error(missingMessage) : error);
+    });
+    tool.on('close', code => {
+      const stderr = Buffer.concat(stderrChunks).toString();
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `${command} exited with code ${code}`));
+        return;
+      }
+      resolve({ stdout: Buffer.concat(stdoutChunks).toString(), stderr });
+    });
+  });
+}
+
+export interface CutClipInput {
+  inputBuffer: Buffer;
+  mimeType: string;
+  startMs: number;
+  endMs: number;
+  batesLabel?: string | null;
+  timestamp?: boolean;
+  subtitles?: string | null; // SubRip text, burned in
+}
+
+/**
+ * Cuts a clip out of audio or video with ffmpeg. Video comes back as H.264
+ * MP4 with any overlays burned in; audio as AAC in an M4A. ffmpeg needs a
+ * seekable input to cut from the middle, so the source goes through a temp
+ * directory rather than a pipe.
+ */
+export async function cutMediaClip({ inputBuffer, mimeType, startMs, endMs, batesLabel, timestamp, subtitles }: CutClipInput): Promise<{ clipBuffer: Buffer; clipMimeType: string }> {
+  validateMediaSize(inputBuffer.byteLength, MAX_SOURCE_MEDIA_BYTES, 'Source media');
+
+  if (!mimeType.startsWith('audio/') && !mimeType.startsWith('video/')) {
+    throw new Error('Invalid file type. Only audio and video files can be clipped.');
+  }
+  const isVideo = mimeType.startsWith('video/');
+
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'clip-'));
+  try {
+    const inputPath = path.join(workDir, 'source');
+    const outputPath = path.join(workDir, isVideo ? 'clip.mp4' : 'clip.m4a');
+    const subtitlesPath = isVideo && subtitles ? path.join(workDir, 'clip.srt') : null;
+    await writeFile(inputPath, inputBuffer);
+    if (subtitlesPath) await writeFile(subtitlesPath, subtitles!);
+
+    const args = buildClipArgs({
+      inputPath,
+      outputPath,
+      startMs,
+      endMs,
+      isVideo,
+      batesLabel: isVideo ? batesLabel : null,
+      timestamp: isVideo && timestamp,
+      subtitlesPath,
+    });
+
+    await runTool('ffmpeg', ['-hide_banner', '-loglevel', 'error', ...args], 'FFmpeg is required to cut media clips.');
+
+    return { clipBuffer: await readFile(outputPath), clipMimeType: isVideo ? 'video/mp4' : 'audio/mp4' };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Pulls scaled JPEG keyframes from a video: the first frame, one at each
+ * interval (longer for long videos, see keyframeIntervalMs), and one at each
+ * scene change. Each comes back with its time in the video.
+ */
+export async function extractKeyframes({ inputBuffer, mimeType }: { inputBuffer: Buffer; mimeType: string }): Promise<Array<{ timeMs: number; image: Buffer }>> {
+  validateMediaSize(inputBuffer.byteLength, MAX_SOURCE_MEDIA_BYTES, 'Source media');
+
+  if (!mimeType.startsWith('video/')) {
+    throw new Error('Invalid file type. Keyframes can only be taken from video.');
+  }
+
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'keyframes-'));
+  try {
+    const inputPath = path.join(workDir, 'source');
+    await writeFile(inputPath, inputBuffer);
+
+    const missing = 'FFmpeg is required to take keyframes from video.';
+    const probe = await runTool('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', inputPath], missing);
+    const seconds = parseFloat(probe.stdout);
+    const durationMs = Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+
+    const outputPattern = path.join(workDir, 'frame_%04d.jpg');
+    const { stderr } = await runTool(
+      'ffmpeg',
+      ['-hide_banner', ...buildKeyframeArgs({ inputPath, outputPattern, intervalMs: keyframeIntervalMs(durationMs) })],
+      missing
+    );
+
+    const times = parseFrameTimes(stderr);
+    const files = (await readdir(workDir)).filter(name => /^frame_\d+\.jpg$/.test(name)).sort();
+    const frames: Array<{ timeMs: number; image: Buffer }> = [];
+    for (const [index, name] of files.entries()) {
+      frames.push({ timeMs: times[index] ?? (frames[frames.length - 1]?.timeMs ?? 0), image: await readFile(path.join(workDir, name)) });
+    }
+    return frames;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
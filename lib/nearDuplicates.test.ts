@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  estimateSimilarity,
+  fingerprintText,
+  lshBands,
+  MINHASH_BANDS,
+  MINHASH_PERMUTATIONS,
+  minhashSignature,
+  NEAR_DUPLICATE_THRESHOLD,
+  shingleText,
+} from './nearDuplicates';
+
+const MEMO = `Please be advised that the shipment scheduled for March 3 was delayed at the port because the
+customs paperwork listed the wrong consignee. The warehouse manager confirmed the pallets were
+inspected on arrival and no damage was found. Accounting will hold the invoice until the corrected
+bill of lading is received from the carrier, and legal has been copied on this message for the file.
+Any questions about the revised delivery window should go to the logistics coordinator directly.`;
+
+describe('shingleText', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(shingleText('The  Quick, brown fox jumps!')).toEqual(shingleText('the quick brown FOX jumps'));
+  });
+
+  it('treats texts shorter than a shingle as a single shingle', () => {
+    expect(shingleText('two words').size).toBe(1);
+    expect(shingleText('one two three four').size).toBe(2);
+    expect(shingleText('').size).toBe(0);
+  });
+});
+
+describe('minhash signatures', () => {
+  it('are deterministic and sized for the configured bands', () => {
+    const signature = minhashSignature(shingleText(MEMO));
+    expect(signature).toHaveLength(MINHASH_PERMUTATIONS);
+    expect(minhashSignature(shingleText(MEMO))).toEqual(signature);
+    expect(signature.every(value => Number.isInteger(value) && value >= -(2 ** 31) && value < 2 ** 31)).toBe(true);
+    expect(lshBands(signature)).toHaveLength(MINHASH_BANDS);
+  });
+
+  it('scores a lightly edited copy above the threshold and shares bands with it', () => {
+    const edited = MEMO.replace('March 3', 'March 4').replace('legal has been copied', 'counsel was copied');
+    const a = fingerprintText(MEMO)!;
+    const b = fingerprintText(edited)!;
+
+    expect(estimateSimilarity(a.signature, b.signature)).toBeGreaterThanOrEqual(NEAR_DUPLICATE_THRESHOLD);
+    expect(a.bands.some(band => b.bands.includes(band))).toBe(true);
+  });
+
+  it('scores unrelated text near zero', () => {
+    const other = fingerprintText(
+      'The deposition of the plant supervisor is rescheduled to the afternoon session because the court reporter is unavailable in the morning and opposing counsel requested additional time to review exhibits.'
+    )!;
+    expect(estimateSimilarity(fingerprintText(MEMO)!.signature, other.signature)).toBeLessThan(0.1);
+  });
+
+  it('does not fingerprint text too short to compare reliably', () => {
+    expect(fingerprintText('Thanks, see you Monday.')).toBeNull();
+    expect(fingerprintText(null)).toBeNull();
+  });
+});
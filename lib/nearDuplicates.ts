@@ -0,0 +1,109 @@
+/**
+ * MinHash fingerprints for near-duplicate detection. Documents are compared as
+ * sets of word shingles; the fraction of matching signature slots estimates
+ * their Jaccard similarity. Signatures are split into LSH bands so candidates
+ * can be found with an array-overlap query instead of comparing every pair.
+ */
+
+export const SHINGLE_SIZE = 3;
+export const MINHASH_PERMUTATIONS = 128;
+export const MINHASH_BANDS = 32;
+/** Estimated Jaccard similarity at which two documents are grouped as near-duplicates. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+// Below this many shingles a few edits swing the estimate wildly; short texts only match exactly.
+const MIN_SHINGLES = 8;
+
+export interface TextFingerprint {
+  signature: number[];
+  bands: string[];
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const fnv1a = (input: string): number => {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+};
+
+// murmur3 finalizer: spreads a 32-bit value so each seed acts as an independent permutation.
+const mix = (value: number): number => {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+// Fixed seeds so signatures stay comparable across processes and deploys.
+const SEEDS = (() => {
+  const seeds: number[] = [];
+  let state = 0x9e3779b9;
+  for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    seeds.push(state >>> 0);
+  }
+  return seeds;
+})();
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+/** Hashed word k-shingles. Case, punctuation and whitespace differences are ignored. */
+export const shingleText = (text: string, size: number = SHINGLE_SIZE): Set<number> => {
+  const words = tokenize(text);
+  const shingles = new Set<number>();
+  if (words.length === 0) return shingles;
+  if (words.length <= size) {
+    shingles.add(fnv1a(words.join(' ')));
+    return shingles;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(fnv1a(words.slice(i, i + size).join(' ')));
+  }
+  return shingles;
+};
+
+/** Signed 32-bit values, so signatures fit a Postgres int[] column as-is. */
+export const minhashSignature = (shingles: Set<number>): number[] =>
+  SEEDS.map(seed => {
+    let min = 0xffffffff;
+    shingles.forEach(shingle => {
+      const value = mix(shingle ^ seed);
+      if (value < min) min = value;
+    });
+    return min | 0;
+  });
+
+export const estimateSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+};
+
+/** One key per band; documents sharing any key are near-duplicate candidates. */
+export const lshBands = (signature: number[], bands: number = MINHASH_BANDS): string[] => {
+  const rows = Math.floor(signature.length / bands);
+  return Array.from({ length: bands }, (_, band) =>
+    `${band}:${fnv1a(signature.slice(band * rows, (band + 1) * rows).join(',')).toString(16)}`
+  );
+};
+
+/** Null when the text is too short to fingerprint reliably. */
+export const fingerprintText = (text: string | null | undefined): TextFingerprint | null => {
+  if (!text) return null;
+  const shingles = shingleText(text);
+  if (shingles.size < MIN_SHINGLES) return null;
+  const signature = minhashSignature(shingles);
+  return { signature, bands: lshBands(signature) };
+};
@@ -0,0 +1,159 @@
+import JSZip from 'jszip';
+
+/**
+ * Minimal Office Open XML writers for tabular reports (logs, indexes). They
+ * produce one-sheet workbooks and one-table Word documents that Excel, Word
+ * and LibreOffice open without repair; nothing beyond that is supported.
+ */
+
+export type CellValue = string | number | null;
+
+export interface TableReport {
+  title: string;
+  columns: string[];
+  rows: CellValue[][];
+  /** Paragraphs printed under the table in Word output (legends, notes). */
+  notes?: string[];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const escapeXml = (value: string): string =>
+  value
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Zero-based column index to a spreadsheet column name: 0 -> A, 26 -> AA. */
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const relationships = (entries: { id: string; type: string; target: string }[]) =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries
+    .map(e => `<Relationship Id="${e.id}" Type="${e.type}" Target="${e.target}"/>`)
+    .join('')}</Relationships>`;
+
+const OFFICE_DOCUMENT_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument';
+
+const sheetCell = (value: CellValue, ref: string, style: number): string => {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null || value === '') return `<c r="${ref}"${styleAttr}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+export async function buildXlsx(report: TableReport): Promise<Uint8Array> {
+  const zip = new JSZip();
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheetName = escapeXml(report.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  const lastColumn = columnName(Math.max(report.columns.length - 1, 0));
+
+  const rows = [report.columns, ...report.rows].map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => sheetCell(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 2)).join('')}</row>`
+  );
+  const widths = report.columns.map((column, c) => {
+    const longest = Math.max(column.length, ...report.rows.map(row => String(row[c] ?? '').length));
+    return `<col min="${c + 1}" max="${c + 1}" width="${Math.min(Math.max(longest + 2, 10), 60)}" customWidth="1"/>`;
+  });
+
+  zip.file(
+    '[Content_Types].xml',
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+  );
+  zip.file('_rels/.rels', relationships([{ id: 'rId1', type: OFFICE_DOCUMENT_REL, target: 'xl/workbook.xml' }]));
+  zip.file(
+    'xl/workbook.xml',
+    `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    relationships([
+      { id: 'rId1', type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet', target: 'worksheets/sheet1.xml' },
+      { id: 'rId2', type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles', target: 'styles.xml' },
+    ])
+  );
+  // Style 1: bold header; style 2: wrapped, top-aligned body text.
+  zip.file(
+    'xl/styles.xml',
+    `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf></cellXfs>' +
+      '</styleSheet>'
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<cols>${widths.join('')}</cols>` +
+      `<sheetData>${rows.join('')}</sheetData>` +
+      `<autoFilter ref="A1:${lastColumn}${report.rows.length + 1}"/>` +
+      '</worksheet>'
+  );
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+const paragraph = (text: string, { bold = false, size }: { bold?: boolean; size?: number } = {}) => {
+  const props = [bold ? '<w:b/>' : '', size ? `<w:sz w:val="${size}"/>` : ''].join('');
+  const runs = text.split('\n').map((line, i) =>
+    `${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t>`
+  );
+  return `<w:p><w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${runs.join('')}</w:r></w:p>`;
+};
+
+const tableCell = (value: CellValue, header: boolean) =>
+  `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(value === null ? '' : String(value), { bold: header, size: 18 })}</w:tc>`;
+
+/** Landscape US Letter with the table repeating its header row on every page. */
+export async function buildDocx(report: TableReport): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${report.columns.map(column => tableCell(column, true)).join('')}</w:tr>`;
+  const body = report.rows.map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map(value => tableCell(value, false)).join('')}</w:tr>`);
+
+  zip.file(
+    '[Content_Types].xml',
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>'
+  );
+  zip.file('_rels/.rels', relationships([{ id: 'rId1', type: OFFICE_DOCUMENT_REL, target: 'word/document.xml' }]));
+  zip.file(
+    'word/document.xml',
+    `${XML_HEADER}<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>` +
+      paragraph(report.title, { bold: true, size: 28 }) +
+      `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>` +
+      `${header}${body.join('')}</w:tbl>` +
+      // Word expects the body to end in a paragraph, not a table.
+      ((report.notes || []).map(note => paragraph(note, { size: 18 })).join('') || '<w:p/>') +
+      '<w:sectPr><w:pgSz w:w="15840" w:h="12240" w:orient="landscape"/><w:pgMar w:top="720" w:right="720" w:bottom="720" w:left="720" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+      '</w:body></w:document>'
+  );
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -1,6 +1,12 @@
 import OpenAI from 'openai';
-import { SYSTEM_INSTRUCTION_ANALYZER, SYSTEM_INSTRUCTION_CHAT, EVIDENCE_CATEGORIES } from './constants';
+import { SYSTEM_INSTRUCTION_ANALYZER, SYSTEM_INSTRUCTION_CHAT, SYSTEM_INSTRUCTION_CONTRADICTIONS, EVIDENCE_CATEGORIES } from './constants';
 import { analysisCache, LRUCache } from './cache';
+import { buildPassageContext } from './retrieval';
+import { findPrivilegeIndicators, normalizePrivilegeScreen } from './privilege';
+import { documentReferenceDate, normalizeAnalysisEvents } from './chronology';
+import { describeTranscriptForAnalysis } from './deposition';
+import { describeFramesForAnalysis, frameLabel, normalizeVisualLog, recordingEndMs, visualLogEvents } from './visualLog';
+import type { RetrievedPassage } from './types';
 
 let _openai: OpenAI | null = null;
 
@@ -97,6 +103,9 @@ export async function analyzeFileServer({
   textChunks,
   metadata,
   contentHash,
+  documentDate,
+  keyframes,
+  durationMs,
 }: {
   base64Data?: string;
   mimeType?: string;
@@ -108,6 +117,9 @@ export async function analyzeFileServer({
   textChunks?: string[];
   metadata?: Record<string, unknown>;
   contentHash?: string;
+  documentDate?: string | null; // Relative dates in the document are counted from this
+  keyframes?: Array<{ timeMs: number; base64Data: string }>; // Video: sampled frames, JPEG, in time order
+  durationMs?: number | null; // Video: length of the recording, when its transcript gives it
 }) {
   console.log('[analyzeFileServer] Starting analysis:', {
     fileName,
@@ -120,13 +132,16 @@ export async function analyzeFileServer({
     chunkCount: textChunks?.length || 0,
     hasBase64Data: !!base64Data,
     base64DataLength: base64Data?.length || 0,
+    keyframeCount: keyframes?.length || 0,
     casePerspective,
   });
 
+  const frames = keyframes ?? [];
   const hashForCache = contentHash || LRUCache.hashContent(
     textContent || textChunks?.join('') || base64Data || batesNumber + fileName
   );
-  const cacheKey = createAnalysisCacheKey(batesNumber, hashForCache, casePerspective);
+  // An analysis that saw the keyframes is not interchangeable with one that did not
+  const cacheKey = createAnalysisCacheKey(batesNumber, frames.length > 0 ? `${hashForCache}:frames` : hashForCache, casePerspective);
 
   if (ENABLE_CACHING) {
     const cached = await analysisCache.getCachedAnalysis<Record<string, unknown>>(cacheKey);
@@ -141,7 +156,7 @@ export async function analyzeFileServer({
   const isImage = mimeType?.startsWith('image/');
   const hasBinaryData = base64Data && base64Data.length > 0;
 
-  if (!hasTextContent && !isImage && !hasBinaryData) {
+  if (!hasTextContent && !isImage && !hasBinaryData && frames.length === 0) {
     console.warn('[analyzeFileServer] No content available for analysis:', {
       fileName,
       batesNumber,
@@ -153,6 +168,7 @@ export async function analyzeFileServer({
       evidenceType: 'Uncategorized',
       entities: [],
       dates: [],
+      events: [],
       relevantFacts: ['Document content could not be extracted for analysis.'],
       sentiment: 'Neutral' as const,
     };
@@ -173,21 +189,35 @@ export async function analyzeFileServer({
     contentParts.push(`File metadata: ${JSON.stringify(metadata)}`);
   }
 
-  if (textChunks && textChunks.length > 0) {
+  const referenceDate = documentDate ?? documentReferenceDate(metadata);
+  if (referenceDate) {
+    contentParts.push(`Document date: ${referenceDate}. Read relative dates ("the following Tuesday") from this date.`);
+  }
+
+  const transcript = textContent ? describeTranscriptForAnalysis(batesNumber, textContent) : null;
+  if (transcript) {
+    contentParts.push(transcript.content);
+  } else if (textChunks && textChunks.length > 0) {
     textChunks.forEach((chunk, idx) => {
       contentParts.push(`[Document Chunk ${idx + 1}]\n${chunk}`);
     });
   } else if (textContent) {
     contentParts.push(`DOCUMENT CONTENT:\n${textContent}`);
-  } else if (!isImage) {
+  } else if (!isImage && frames.length === 0) {
     contentParts.push('Note: No text content could be extracted. Provide a general analysis based on file metadata.');
   }
 
   contentParts.push(
-    'INSTRUCTIONS:\n- Extract key facts, entities, dates, and relevant legal information\n- Classify the "evidenceType" accurately from the provided list\n- Provide a concise summary of the content\n- Identify sentiment/tone if applicable'
+    'INSTRUCTIONS:\n- Extract key facts, entities, dates, and relevant legal information\n- List each dated happening as an event: the date exactly as worded ("dateText"), your ISO 8601 reading of it, any stated time and time zone, a one-line description, the people and organizations involved, and a verbatim supporting quote\n- Classify the "evidenceType" accurately from the provided list\n- Provide a concise summary of the content\n- Identify sentiment/tone if applicable'
   );
 
-  if (fileType === 'AUDIO' || fileType === 'VIDEO') {
+  if (transcript) {
+    contentParts.push(transcript.instruction);
+  }
+
+  if (frames.length > 0) {
+    contentParts.push(describeFramesForAnalysis(frames.length));
+  } else if (fileType === 'AUDIO' || fileType === 'VIDEO') {
     contentParts.push('- For audio/video without transcription, describe observable details.');
   }
 
@@ -196,7 +226,7 @@ export async function analyzeFileServer({
   const messages: OpenAI.ChatCompletionMessageParam[] = [
     {
       role: 'system',
-      content: `${SYSTEM_INSTRUCTION_ANALYZER}\n\nValid evidence types: ${evidenceCategoriesList}\n\nRespond with a JSON object containing: summary (string), evidenceType (one of the valid types), entities (string array), dates (string array), relevantFacts (string array), sentiment (one of: Hostile, Cooperative, Neutral).`,
+      content: `${SYSTEM_INSTRUCTION_ANALYZER}\n\nValid evidence types: ${evidenceCategoriesList}\n\nRespond with a JSON object containing: summary (string), evidenceType (one of the valid types), entities (string array), dates (string array), events (array of objects with dateText, date, time, timezone, description, entities string array, quote), relevantFacts (string array), sentiment (one of: Hostile, Cooperative, Neutral), privilegeScreen (object with likelyPrivileged boolean, bases array of attorney_client/work_product, reasons string array, attorneys string array).`,
     },
     {
       role: 'user',
@@ -214,6 +244,20 @@ export async function analyzeFileServer({
     };
   }
 
+  // Each keyframe follows its label, so the model can say when in the recording it saw something
+  if (frames.length > 0) {
+    messages[1] = {
+      role: 'user',
+      content: [
+        { type: 'text', text: contentParts.join('\n\n') },
+        ...frames.flatMap((frame): OpenAI.ChatCompletionContentPart[] => [
+          { type: 'text', text: frameLabel(frame.timeMs) },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${frame.base64Data}`, detail: 'low' } },
+        ]),
+      ],
+    };
+  }
+
   console.log('[analyzeFileServer] Sending request to OpenAI, message count:', messages.length);
   
   const response = await retryWithBackoff(() => getOpenAIClient().chat.completions.create({
@@ -227,10 +271,22 @@ export async function analyzeFileServer({
   console.log('[analyzeFileServer] Received response, length:', responseText.length);
   
   const analysisResult = JSON.parse(responseText);
+  analysisResult.privilegeScreen = normalizePrivilegeScreen(
+    analysisResult.privilegeScreen,
+    findPrivilegeIndicators(textContent || textChunks?.join('\n') || '')
+  );
+  analysisResult.events = normalizeAnalysisEvents(analysisResult.events, { sourceBates: batesNumber, reference: referenceDate });
+  if (frames.length > 0) {
+    analysisResult.visualLog = normalizeVisualLog(analysisResult.visualLog, recordingEndMs(frames, durationMs ?? null));
+    analysisResult.events = [...analysisResult.events, ...visualLogEvents(analysisResult.visualLog, { sourceBates: batesNumber })];
+  } else {
+    delete analysisResult.visualLog;
+  }
   console.log('[analyzeFileServer] Parsed result:', {
     hasSummary: !!analysisResult.summary,
     evidenceType: analysisResult.evidenceType,
     entityCount: analysisResult.entities?.length || 0,
+    visualLogCount: analysisResult.visualLog?.length || 0,
   });
 
   if (ENABLE_CACHING) {
@@ -244,7 +300,8 @@ export async function chatWithDiscoveryServer(
   query: string,
   filesContext: ChatFileContext[],
   activeFile?: ActiveFileContext,
-  casePerspective?: string
+  casePerspective?: string,
+  retrievedPassages: RetrievedPassage[] = []
 ) {
   let contextString = 'Here is the summary of the discovery files available:\n';
   filesContext.forEach(f => {
@@ -254,6 +311,10 @@ export async function chatWithDiscoveryServer(
     contextString += `Key Facts: ${f.relevantFacts.join('; ')}\n`;
   });
 
+  if (retrievedPassages.length > 0) {
+    contextString += `\n${buildPassageContext(retrievedPassages)}\n`;
+  }
+
   const filesHash = LRUCache.hashContent(contextString);
   const cacheKey = createChatCacheKey(query, filesHash, casePerspective);
 
@@ -330,6 +391,38 @@ export async function chatWithDiscoveryServer(
   return result;
 }
 
+/**
+ * Asks the model which of the accounts in the topics contradict each other.
+ * Returns the parsed JSON as is; normalizeContradictions checks it against
+ * the topics it was given.
+ */
+export async function findContradictionsServer(topicsText: string, casePerspective?: string): Promise<unknown> {
+  const cacheKey = LRUCache.createKey('contradictions', LRUCache.hashContent(topicsText), casePerspective || 'default');
+  if (ENABLE_CACHING) {
+    const cached = await analysisCache.getCachedAnalysis<unknown>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+  }
+
+  const perspective = casePerspective ? `CASE PERSPECTIVE: ${casePerspective}\n\n` : '';
+  const response = await retryWithBackoff(() => getOpenAIClient().chat.completions.create({
+    model: ANALYSIS_MODEL,
+    messages: [
+      { role: 'system', content: SYSTEM_INSTRUCTION_CONTRADICTIONS },
+      { role: 'user', content: `${perspective}TOPICS:\n\n${topicsText}` },
+    ],
+    max_tokens: 4096,
+    response_format: { type: 'json_object' },
+  }), 5, 3000);
+
+  const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+  if (ENABLE_CACHING) {
+    analysisCache.cacheAnalysis(cacheKey, result, CACHE_TTL_MS);
+  }
+  return result;
+}
+
 export function isOpenAIConfigured(): boolean {
   return Boolean(process.env.OPENAI_API_KEY);
 }
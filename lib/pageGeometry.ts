@@ -0,0 +1,61 @@
+import { getDocument, Util } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import type { GeometryWord, PageGeometry } from './types';
+
+const isTextItem = (item: TextItem | TextMarkedContent): item is TextItem => 'str' in item;
+
+/**
+ * Split a text run into words. pdf.js reports one width per run, so each
+ * character is given an equal share; close enough to place a redaction box.
+ */
+const runWords = (item: TextItem, left: number, top: number, width: number, height: number): GeometryWord[] => {
+  const charWidth = item.str.length > 0 ? width / item.str.length : 0;
+  return Array.from(item.str.matchAll(/\S+/g)).map(match => ({
+    text: match[0],
+    x: left + match.index! * charWidth,
+    y: top,
+    width: match[0].length * charWidth,
+    height,
+  }));
+};
+
+/**
+ * Word boxes for every page of a PDF with a text layer, as fractions of the
+ * page with the origin top-left. Scanned pages come back with no words; their
+ * geometry comes from OCR instead.
+ */
+export async function extractPdfGeometry(buffer: Uint8Array): Promise<PageGeometry[]> {
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy.
+  const pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, verbosity: 0 }).promise;
+  try {
+    const pages: PageGeometry[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const words: GeometryWord[] = [];
+
+      content.items.filter(isTextItem).forEach(item => {
+        if (!item.str.trim()) return;
+        const [, , c, d, e, f] = Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(c, d);
+        words.push(
+          ...runWords(
+            item,
+            e / viewport.width,
+            (f - fontHeight) / viewport.height,
+            item.width / viewport.width,
+            // Descenders sit below the baseline; cover them too.
+            (fontHeight * 1.2) / viewport.height
+          )
+        );
+      });
+
+      pages.push({ pageNumber, words });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { findPrivilegeIndicators, normalizePrivilegeScreen } from './privilege';
+
+describe('findPrivilegeIndicators', () => {
+  it('spots privilege legends, legal-advice language and counsel', () => {
+    const text = 'PRIVILEGED & CONFIDENTIAL\nPlease send me your legal advice on the recall.\n\nJane Roe, Esq.\nPrepared in anticipation of litigation.';
+    const indicators = findPrivilegeIndicators(text);
+
+    expect(indicators.bases).toEqual(['attorney_client', 'work_product']);
+    expect(indicators.attorneys).toEqual(['Jane Roe']);
+    expect(indicators.reasons).toContain('Requests or conveys legal advice');
+    expect(indicators.reasons).toContain('Names counsel: Jane Roe');
+  });
+
+  it('finds nothing in ordinary business correspondence', () => {
+    expect(findPrivilegeIndicators('The pallets shipped Tuesday; invoice attached.')).toEqual({ bases: [], reasons: [], attorneys: [] });
+  });
+});
+
+describe('normalizePrivilegeScreen', () => {
+  const none = { bases: [], reasons: [], attorneys: [] };
+
+  it('keeps valid model output and drops unknown bases', () => {
+    const screen = normalizePrivilegeScreen(
+      { likelyPrivileged: true, bases: ['Attorney-Client', 'joint defense'], reasons: ['Email to outside counsel', 42], attorneys: ['Sam Lee'] },
+      none
+    );
+    expect(screen).toEqual({ likelyPrivileged: true, bases: ['attorney_client'], reasons: ['Email to outside counsel'], attorneys: ['Sam Lee'] });
+  });
+
+  it('flags explicit markings even when the model did not', () => {
+    const screen = normalizePrivilegeScreen(
+      { likelyPrivileged: false, attorneys: ['jane roe'] },
+      { bases: ['work_product'], reasons: ['Marked as attorney work product'], attorneys: ['Jane Roe'] }
+    );
+    expect(screen.likelyPrivileged).toBe(true);
+    expect(screen.bases).toEqual(['work_product']);
+    expect(screen.attorneys).toEqual(['jane roe']);
+  });
+
+  it('treats a missing screen as not privileged', () => {
+    expect(normalizePrivilegeScreen(undefined, none)).toEqual({ likelyPrivileged: false, bases: [], reasons: [], attorneys: [] });
+  });
+});
@@ -0,0 +1,102 @@
+import type { PrivilegeBasis, PrivilegeScreen, PrivilegeStatus } from './types';
+
+export const PRIVILEGE_STATUS_LABELS: Record<PrivilegeStatus, string> = {
+  not_privileged: 'Not privileged',
+  privileged: 'Privileged – withhold',
+  partial: 'Partially privileged – redact',
+};
+
+export const PRIVILEGE_BASIS_LABELS: Record<PrivilegeBasis, string> = {
+  attorney_client: 'Attorney-Client Privilege',
+  work_product: 'Attorney Work Product',
+};
+
+export const PRIVILEGE_BASES = Object.keys(PRIVILEGE_BASIS_LABELS) as PrivilegeBasis[];
+export const PRIVILEGE_STATUSES = Object.keys(PRIVILEGE_STATUS_LABELS) as PrivilegeStatus[];
+
+export const isPrivilegeStatus = (value: unknown): value is PrivilegeStatus =>
+  typeof value === 'string' && (PRIVILEGE_STATUSES as string[]).includes(value);
+
+export const isPrivilegeBasis = (value: unknown): value is PrivilegeBasis =>
+  typeof value === 'string' && (PRIVILEGE_BASES as string[]).includes(value);
+
+interface Indicator {
+  pattern: RegExp;
+  basis: PrivilegeBasis;
+  reason: string;
+}
+
+// Language that commonly marks or characterizes privileged material. Hits are
+// hints for the reviewer and the model, not conclusions.
+const INDICATORS: Indicator[] = [
+  { pattern: /attorney[\s-]+client\s+(privilege|communication)/i, basis: 'attorney_client', reason: 'Marked as an attorney-client communication' },
+  { pattern: /privileged\s*(&|and)\s*confidential/i, basis: 'attorney_client', reason: 'Bears a "privileged & confidential" legend' },
+  { pattern: /\blegal\s+(advice|opinion)\b/i, basis: 'attorney_client', reason: 'Requests or conveys legal advice' },
+  { pattern: /\b(advice|guidance)\s+of\s+counsel\b/i, basis: 'attorney_client', reason: 'Refers to advice of counsel' },
+  { pattern: /\battorney\s+work\s+product\b|\bwork[\s-]+product\b/i, basis: 'work_product', reason: 'Marked as attorney work product' },
+  { pattern: /in\s+anticipation\s+of\s+litigation/i, basis: 'work_product', reason: 'Prepared in anticipation of litigation' },
+  { pattern: /(at|under)\s+the\s+direction\s+of\s+counsel/i, basis: 'work_product', reason: 'Prepared at the direction of counsel' },
+];
+
+// "Jane Roe, Esq.", "John Doe, General Counsel", "Mary Major, Attorney at Law"
+const ATTORNEY_PATTERNS = [
+  /\b([A-Z][a-z]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-z'-]+){1,2}),?\s+Esq\.?/g,
+  /\b([A-Z][a-z]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-z'-]+){1,2}),?\s+(?:Associate\s+|Deputy\s+|Assistant\s+)?(?:General\s+Counsel|Attorney\s+at\s+Law|Legal\s+Counsel|Counsel)\b/g,
+];
+
+/**
+ * Keyword pre-screen run alongside the model. It also backstops the model:
+ * when the response omits a privilege screen, these hits still surface.
+ */
+export const findPrivilegeIndicators = (text: string): Omit<PrivilegeScreen, 'likelyPrivileged'> => {
+  const bases = new Set<PrivilegeBasis>();
+  const reasons: string[] = [];
+  INDICATORS.forEach(indicator => {
+    if (indicator.pattern.test(text) && !reasons.includes(indicator.reason)) {
+      bases.add(indicator.basis);
+      reasons.push(indicator.reason);
+    }
+  });
+
+  const attorneys = new Set<string>();
+  ATTORNEY_PATTERNS.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) attorneys.add(match[1].trim());
+  });
+  if (attorneys.size > 0) {
+    bases.add('attorney_client');
+    reasons.push(`Names counsel: ${Array.from(attorneys).join(', ')}`);
+  }
+
+  return { bases: PRIVILEGE_BASES.filter(basis => bases.has(basis)), reasons, attorneys: Array.from(attorneys) };
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
+const mergeUnique = (a: string[], b: string[]) => {
+  const seen = new Set(a.map(item => item.toLowerCase()));
+  return [...a, ...b.filter(item => !seen.has(item.toLowerCase()))];
+};
+
+/**
+ * Coerce the model's privilege screen into a PrivilegeScreen and fold in the
+ * keyword indicators. Unknown bases are dropped; a model that flags nothing
+ * still yields likelyPrivileged when explicit markings were found.
+ */
+export const normalizePrivilegeScreen = (
+  raw: unknown,
+  indicators: Omit<PrivilegeScreen, 'likelyPrivileged'>
+): PrivilegeScreen => {
+  const model = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const modelBases = stringList(model.bases)
+    .map(basis => basis.toLowerCase().replace(/[\s-]+/g, '_'))
+    .filter(isPrivilegeBasis);
+  const bases = new Set<PrivilegeBasis>([...modelBases, ...indicators.bases]);
+
+  return {
+    likelyPrivileged: model.likelyPrivileged === true || indicators.reasons.length > 0,
+    bases: PRIVILEGE_BASES.filter(basis => bases.has(basis)),
+    reasons: mergeUnique(stringList(model.reasons), indicators.reasons),
+    attorneys: mergeUnique(stringList(model.attorneys), indicators.attorneys),
+  };
+};
@@ -0,0 +1,112 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { buildPrivilegeLog, buildPrivilegeLogCsv, toPrivilegeLogEntry, type PrivilegeLogSource } from './privilegeLog';
+
+const EMAIL: PrivilegeLogSource = {
+  begBates: 'DEF-000012',
+  endBates: 'DEF-000013',
+  fileName: 'recall.eml',
+  custodian: 'Smith, Pat',
+  evidenceType: 'Email',
+  status: 'privileged',
+  bases: ['attorney_client'],
+  description: null,
+  email: {
+    from: [{ name: 'Pat Smith', address: 'pat@acme.com' }],
+    to: [{ name: 'Jane Roe', address: 'jroe@lawfirm.com' }],
+    cc: [{ name: null, address: 'ops@acme.com' }],
+    date: '2023-04-05T14:30:00.000Z',
+    subject: 'Recall exposure',
+  },
+  dates: [],
+  attorneys: ['Jane Roe'],
+};
+
+const MEMO: PrivilegeLogSource = {
+  begBates: 'DEF-000020',
+  endBates: 'DEF-000024',
+  fileName: 'memo.pdf',
+  custodian: null,
+  evidenceType: 'Internal Memo',
+  status: 'partial',
+  bases: ['work_product'],
+  description: null,
+  email: null,
+  dates: ['March 2, 2023'],
+  attorneys: [],
+};
+
+describe('toPrivilegeLogEntry', () => {
+  it('builds an email row with counsel marked and a content-neutral description', () => {
+    expect(toPrivilegeLogEntry(EMAIL)).toEqual({
+      begBates: 'DEF-000012',
+      endBates: 'DEF-000013',
+      date: '2023-04-05',
+      docType: 'Email',
+      custodian: 'Smith, Pat',
+      author: 'Pat Smith',
+      recipients: 'Jane Roe*',
+      copyees: 'ops@acme.com',
+      basis: 'Attorney-Client Privilege',
+      treatment: 'Withheld',
+      description: 'Confidential email requesting legal advice.',
+    });
+  });
+
+  it('describes redacted work product and falls back to analysis dates', () => {
+    const entry = toPrivilegeLogEntry(MEMO);
+    expect(entry.date).toBe('March 2, 2023');
+    expect(entry.treatment).toBe('Redacted');
+    expect(entry.description).toBe(
+      'Internal Memo prepared by or at the direction of counsel in anticipation of litigation. Produced with privileged portions redacted.'
+    );
+  });
+
+  it('marks counsel by whole name or email address only', () => {
+    const entry = (attorneys: string[]) => toPrivilegeLogEntry({ ...EMAIL, attorneys });
+    expect(entry(['Roe, Jane']).recipients).toBe('Jane Roe*');
+    expect(entry(['JROE@lawfirm.com']).recipients).toBe('Jane Roe*');
+    expect(entry(['Jane']).recipients).toBe('Jane Roe');
+    expect(entry(['Jane Roe Esq. of Counsel']).recipients).toBe('Jane Roe');
+    expect(entry(['Pat']).author).toBe('Pat Smith');
+  });
+
+  it('prefers the reviewer description', () => {
+    expect(toPrivilegeLogEntry({ ...EMAIL, description: '  Email seeking advice on recall notice. ' }).description).toBe(
+      'Email seeking advice on recall notice.'
+    );
+  });
+});
+
+describe('buildPrivilegeLog', () => {
+  const entries = [EMAIL, MEMO].map(toPrivilegeLogEntry);
+
+  it('writes CSV with a header row and quoted values', () => {
+    const lines = buildPrivilegeLogCsv(entries).trim().split('\n');
+    expect(lines[0]).toBe('Beg Bates,End Bates,Date,Document Type,Custodian,Author,Recipients,CC,Privilege Basis,Treatment,Description');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('keeps spreadsheet formulas and stray carriage returns out of CSV cells', () => {
+    const [, row] = buildPrivilegeLogCsv([{ ...entries[0], author: '=HYPERLINK("http://x")', description: 'Line one\rline two' }])
+      .trim()
+      .split('\n');
+    expect(row).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(row).toContain('"Line one\rline two"');
+  });
+
+  it('writes a workbook with one row per entry', async () => {
+    const zip = await JSZip.loadAsync(await buildPrivilegeLog(entries, 'xlsx', 'Privilege Log – Acme'));
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+    expect(sheet.match(/<row /g)).toHaveLength(3);
+    expect(sheet).toContain('Jane Roe*');
+    expect(await zip.file('xl/workbook.xml')!.async('string')).toContain('name="Privilege Log – Acme"');
+  });
+
+  it('writes a Word table with the attorney legend', async () => {
+    const zip = await JSZip.loadAsync(await buildPrivilegeLog(entries, 'docx'));
+    const document = await zip.file('word/document.xml')!.async('string');
+    expect(document.match(/<w:tr>/g)).toHaveLength(3);
+    expect(document).toContain('* denotes an attorney.');
+  });
+});
@@ -0,0 +1,148 @@
+import { csvEscape } from './csv';
+import type { EmailAddress, EmailHeaders } from './emailParser';
+import { buildDocx, buildXlsx, DOCX_MIME_TYPE, XLSX_MIME_TYPE, type TableReport } from './ooxml';
+import { PRIVILEGE_BASIS_LABELS } from './privilege';
+import type { PrivilegeBasis, PrivilegeStatus } from './types';
+
+/** What the log needs to know about a withheld or redacted document. */
+export interface PrivilegeLogSource {
+  begBates: string;
+  endBates: string;
+  fileName: string;
+  custodian: string | null;
+  evidenceType: string | null;
+  status: Extract<PrivilegeStatus, 'privileged' | 'partial'>;
+  bases: PrivilegeBasis[];
+  /** Reviewer-written description; generated from metadata when null. */
+  description: string | null;
+  email: Pick<EmailHeaders, 'from' | 'to' | 'cc' | 'date' | 'subject'> | null;
+  /** Dates found by analysis, used when the document has no email header. */
+  dates: string[];
+  /** Names the privilege screen or reviewer identified as counsel. */
+  attorneys: string[];
+}
+
+export interface PrivilegeLogEntry {
+  begBates: string;
+  endBates: string;
+  date: string;
+  docType: string;
+  custodian: string;
+  author: string;
+  recipients: string;
+  copyees: string;
+  basis: string;
+  treatment: string;
+  description: string;
+}
+
+export type PrivilegeLogFormat = 'csv' | 'xlsx' | 'docx';
+
+export const PRIVILEGE_LOG_COLUMNS: { key: keyof PrivilegeLogEntry; label: string }[] = [
+  { key: 'begBates', label: 'Beg Bates' },
+  { key: 'endBates', label: 'End Bates' },
+  { key: 'date', label: 'Date' },
+  { key: 'docType', label: 'Document Type' },
+  { key: 'custodian', label: 'Custodian' },
+  { key: 'author', label: 'Author' },
+  { key: 'recipients', label: 'Recipients' },
+  { key: 'copyees', label: 'CC' },
+  { key: 'basis', label: 'Privilege Basis' },
+  { key: 'treatment', label: 'Treatment' },
+  { key: 'description', label: 'Description' },
+];
+
+export const ATTORNEY_LEGEND = '* denotes an attorney.';
+
+/** ISO timestamps become YYYY-MM-DD; anything else is kept as written. */
+export const logDate = (value: string | null | undefined): string => {
+  if (!value) return '';
+  const iso = value.match(/^(\d{4}-\d{2}-\d{2})T/);
+  if (iso) return iso[1];
+  return value.trim();
+};
+
+// "Roe, Jane" and "jane roe" are the same name; "Jan" and "Jane Roe" are not
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}\s]+/gu, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+
+/** Whether the address is one of the attorneys, matched by whole name or by email address. */
+const isAttorney = (address: EmailAddress, attorneys: string[]) => {
+  const name = address.name ? normalizeName(address.name) : '';
+  const email = address.address.toLowerCase();
+  return attorneys.some(attorney =>
+    attorney.trim().toLowerCase() === email || (name !== '' && normalizeName(attorney) === name)
+  );
+};
+
+const formatParticipants = (addresses: EmailAddress[], attorneys: string[]) =>
+  addresses.map(a => `${a.name || a.address}${isAttorney(a, attorneys) ? '*' : ''}`).join('; ');
+
+const describeDocument = (source: PrivilegeLogSource): string => {
+  const kind = source.email ? 'Email' : source.evidenceType && source.evidenceType !== 'Uncategorized' ? source.evidenceType : 'Document';
+  const parts: string[] = [];
+
+  if (source.bases.includes('attorney_client')) {
+    const fromCounsel = source.email?.from.some(a => isAttorney(a, source.attorneys)) ?? false;
+    const toCounsel = source.email ? [...source.email.to, ...source.email.cc].some(a => isAttorney(a, source.attorneys)) : false;
+    const action = fromCounsel ? 'providing legal advice' : toCounsel ? 'requesting legal advice' : 'reflecting legal advice of counsel';
+    parts.push(`Confidential ${kind.toLowerCase()} ${action}`);
+  }
+  if (source.bases.includes('work_product')) {
+    parts.push(parts.length > 0 ? 'prepared in anticipation of litigation' : `${kind} prepared by or at the direction of counsel in anticipation of litigation`);
+  }
+  if (parts.length === 0) parts.push(`Confidential ${kind.toLowerCase()} withheld as privileged`);
+
+  let description = parts.join(', and ');
+  description = description.charAt(0).toUpperCase() + description.slice(1) + '.';
+  if (source.status === 'partial') description += ' Produced with privileged portions redacted.';
+  return description;
+};
+
+/**
+ * One log row per document. Descriptions deliberately avoid the document's
+ * content: they identify the communication and the privilege claimed, which
+ * is what the rules require without waiving what is being withheld.
+ */
+export const toPrivilegeLogEntry = (source: PrivilegeLogSource): PrivilegeLogEntry => ({
+  begBates: source.begBates,
+  endBates: source.endBates,
+  date: logDate(source.email?.date ?? source.dates[0]),
+  docType: source.email ? 'Email' : source.evidenceType || 'Document',
+  custodian: source.custodian || '',
+  author: source.email ? formatParticipants(source.email.from, source.attorneys) : '',
+  recipients: source.email ? formatParticipants(source.email.to, source.attorneys) : '',
+  copyees: source.email ? formatParticipants(source.email.cc, source.attorneys) : '',
+  basis: source.bases.map(basis => PRIVILEGE_BASIS_LABELS[basis]).join('; '),
+  treatment: source.status === 'partial' ? 'Redacted' : 'Withheld',
+  description: source.description?.trim() || describeDocument(source),
+});
+
+export const buildPrivilegeLogCsv = (entries: PrivilegeLogEntry[]): string => {
+  const header = PRIVILEGE_LOG_COLUMNS.map(column => column.label).join(',');
+  const rows = entries.map(entry => PRIVILEGE_LOG_COLUMNS.map(column => csvEscape(entry[column.key])).join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+const toReport = (entries: PrivilegeLogEntry[], title: string): TableReport => ({
+  title,
+  columns: PRIVILEGE_LOG_COLUMNS.map(column => column.label),
+  rows: entries.map(entry => PRIVILEGE_LOG_COLUMNS.map(column => entry[column.key])),
+  notes: [ATTORNEY_LEGEND],
+});
+
+export const PRIVILEGE_LOG_CONTENT_TYPES: Record<PrivilegeLogFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_MIME_TYPE,
+  docx: DOCX_MIME_TYPE,
+};
+
+export async function buildPrivilegeLog(
+  entries: PrivilegeLogEntry[],
+  format: PrivilegeLogFormat,
+  title = 'Privilege Log'
+): Promise<Uint8Array> {
+  if (format === 'xlsx') return buildXlsx(toReport(entries, title));
+  if (format === 'docx') return buildDocx(toReport(entries, title));
+  return new TextEncoder().encode(buildPrivilegeLogCsv(entries));
+}
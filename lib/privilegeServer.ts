@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { parseBatesLabel } from './bates';
+import { loadCustodianNames } from './custodiansServer';
+import type { EmailHeaders } from './emailParser';
+import { isPrivilegeBasis, isPrivilegeStatus } from './privilege';
+import type { PrivilegeLogSource } from './privilegeLog';
+import type { PrivilegeCoding } from './types';
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+
+const LOG_COLUMNS =
+  'id, name, bates_formatted, bates_end_formatted, metadata, analysis, privilege_status, privilege_bases, privilege_description, custodian_id';
+
+type LogDocument = Pick<
+  DocumentRow,
+  | 'id'
+  | 'name'
+  | 'bates_formatted'
+  | 'bates_end_formatted'
+  | 'metadata'
+  | 'analysis'
+  | 'privilege_status'
+  | 'privilege_bases'
+  | 'privilege_description'
+  | 'custodian_id'
+>;
+
+const objectField = (value: Json | null, key: string): Json | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+
+const stringArray = (value: Json | undefined): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export const toPrivilegeCoding = (
+  row: Pick<DocumentRow, 'privilege_status' | 'privilege_bases' | 'privilege_description' | 'privilege_reviewed_at'>
+): PrivilegeCoding => ({
+  status: isPrivilegeStatus(row.privilege_status) ? row.privilege_status : null,
+  bases: (row.privilege_bases || []).filter(isPrivilegeBasis),
+  description: row.privilege_description,
+  reviewedAt: row.privilege_reviewed_at,
+});
+
+const toLogSource = (doc: LogDocument, custodianNames: Map<string, string>): PrivilegeLogSource | null => {
+  if (!doc.bates_formatted || (doc.privilege_status !== 'privileged' && doc.privilege_status !== 'partial')) return null;
+  const email = objectField(doc.metadata, 'email') as unknown as EmailHeaders | undefined;
+  const evidenceType = objectField(doc.analysis, 'evidenceType');
+  const screen = objectField(doc.analysis, 'privilegeScreen');
+
+  return {
+    begBates: doc.bates_formatted,
+    endBates: doc.bates_end_formatted || doc.bates_formatted,
+    fileName: doc.name,
+    custodian: doc.custodian_id ? custodianNames.get(doc.custodian_id) ?? null : null,
+    evidenceType: typeof evidenceType === 'string' ? evidenceType : null,
+    status: doc.privilege_status,
+    bases: (doc.privilege_bases || []).filter(isPrivilegeBasis),
+    description: doc.privilege_description,
+    email: email && Array.isArray(email.from)
+      ? { from: email.from, to: email.to || [], cc: email.cc || [], date: email.date ?? null, subject: email.subject || '' }
+      : null,
+    dates: stringArray(objectField(doc.analysis, 'dates')),
+    attorneys: stringArray(objectField(screen ?? null, 'attorneys')),
+  };
+};
+
+/** Withheld and redacted documents in Bates order, ready for the privilege log. */
+export async function loadPrivilegeLogSources(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<PrivilegeLogSource[]> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select(LOG_COLUMNS)
+    .eq('project_id', projectId)
+    .in('privilege_status', ['privileged', 'partial']);
+  if (error) throw error;
+  const custodianNames = await loadCustodianNames(supabase, projectId);
+
+  const sortKey = (source: PrivilegeLogSource) => {
+    const label = parseBatesLabel(source.begBates);
+    return label ? [label.prefix, label.number] as const : [source.begBates, 0] as const;
+  };
+
+  return ((data || []) as LogDocument[])
+    .map(doc => toLogSource(doc, custodianNames))
+    .filter((source): source is PrivilegeLogSource => source !== null)
+    .sort((a, b) => {
+      const [prefixA, numberA] = sortKey(a);
+      const [prefixB, numberB] = sortKey(b);
+      return prefixA.localeCompare(prefixB) || numberA - numberB;
+    });
+}
+
+export async function updatePrivilegeCoding(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  coding: Pick<PrivilegeCoding, 'status' | 'bases' | 'description'>
+): Promise<PrivilegeCoding | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({
+      privilege_status: coding.status,
+      privilege_bases: coding.status === 'not_privileged' || coding.status === null ? [] : coding.bases,
+      privilege_description: coding.description?.trim() || null,
+      privilege_reviewed_at: coding.status === null ? null : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', documentId)
+    .select('privilege_status, privilege_bases, privilege_description, privilege_reviewed_at')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toPrivilegeCoding(data) : null;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { buildProductionIndexCsv, buildProductionSet, combinePagesToPdf, stampPdf } from './production';
+
+const makePdf = async (pages: number) => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) pdf.addPage([300, 400]);
+  return Buffer.from(await pdf.save());
+};
+
+describe('stampPdf', () => {
+  it('keeps every page and reports the page count', async () => {
+    const { bytes, pageCount } = await stampPdf(await makePdf(3), { prefix: 'DEF', startNumber: 7, legend: 'CONFIDENTIAL' });
+    expect(pageCount).toBe(3);
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(3);
+  });
+});
+
+describe('buildProductionSet', () => {
+  it('packages stamped images, natives and an index', async () => {
+    const { zip, index } = await buildProductionSet([
+      { documentId: 'a', name: 'contract.pdf', mimeType: 'application/pdf', prefix: 'DEF', startNumber: 1, content: await makePdf(4) },
+      { documentId: 'b', name: 'bodycam.mp4', mimeType: 'video/mp4', prefix: 'DEF', startNumber: 5, content: Buffer.from('video-bytes') },
+    ], { legend: 'CONFIDENTIAL' });
+
+    expect(index).toEqual([
+      expect.objectContaining({ begBates: 'DEF-0001', endBates: 'DEF-0004', pageCount: 4, nativePath: null }),
+      expect.objectContaining({ begBates: 'DEF-0005', endBates: 'DEF-0005', pageCount: 1, nativePath: 'NATIVES/DEF-0005.mp4' }),
+    ]);
+
+    const archive = await JSZip.loadAsync(zip);
+    expect(Object.keys(archive.files).sort()).toEqual([
+      'IMAGES/',
+      'IMAGES/DEF-0001.pdf',
+      'IMAGES/DEF-0005.pdf',
+      'NATIVES/',
+      'NATIVES/DEF-0005.mp4',
+      'production_index.csv',
+    ]);
+    expect(await archive.file('NATIVES/DEF-0005.mp4')!.async('string')).toBe('video-bytes');
+    const slipSheet = await PDFDocument.load(await archive.file('IMAGES/DEF-0005.pdf')!.async('uint8array'));
+    expect(slipSheet.getPageCount()).toBe(1);
+  });
+
+  it('puts a slip sheet in place of a withheld item and leaves out its native', async () => {
+    const { zip, index } = await buildProductionSet([
+      { documentId: 'a', name: 'call.mp3', mimeType: 'audio/mpeg', prefix: 'DEF', startNumber: 3, content: Buffer.alloc(0), withheld: true },
+    ]);
+
+    expect(index).toEqual([expect.objectContaining({ begBates: 'DEF-0003', pageCount: 1, nativePath: null })]);
+    const archive = await JSZip.loadAsync(zip);
+    expect(Object.keys(archive.files).sort()).toEqual(['IMAGES/', 'IMAGES/DEF-0003.pdf', 'production_index.csv']);
+  });
+});
+
+describe('buildProductionIndexCsv', () => {
+  it('quotes fields containing commas', () => {
+    const csv = buildProductionIndexCsv([
+      { documentId: 'a', begBates: 'DEF-0001', endBates: 'DEF-0002', pageCount: 2, fileName: 'Smith, J.pdf', custodian: 'Doe, Jane', imagePath: 'IMAGES/DEF-0001.pdf', nativePath: null },
+    ]);
+    expect(csv).toBe('BegBates,EndBates,PageCount,FileName,Custodian,ImagePath,NativePath\nDEF-0001,DEF-0002,2,"Smith, J.pdf","Doe, Jane",IMAGES/DEF-0001.pdf,\n');
+  });
+});
+
+describe('combinePagesToPdf', () => {
+  it('merges PDF pages and refuses formats it cannot embed', async () => {
+    const merged = await combinePagesToPdf([
+      { bytes: new Uint8Array(await makePdf(1)), mimeType: 'application/pdf' },
+      { bytes: new Uint8Array(await makePdf(2)), mimeType: 'application/pdf' },
+    ]);
+    expect((await PDFDocument.load(merged!)).getPageCount()).toBe(3);
+    expect(await combinePagesToPdf([{ bytes: new Uint8Array([0x49, 0x49]), mimeType: 'image/tiff' }])).toBeNull();
+  });
+});
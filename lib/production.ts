@@ -0,0 +1,243 @@
+import JSZip from 'jszip';
+import { PDFDocument, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { BATES_PADDING, pageBatesLabel } from './bates';
+import { csvEscape } from './csv';
+
+const STAMP_FONT_SIZE = 9;
+const STAMP_MARGIN = 18;
+const STAMP_PADDING = 3;
+const SLIP_SHEET_SIZE: [number, number] = [612, 792]; // US Letter
+
+export interface StampOptions {
+  prefix: string;
+  startNumber: number;
+  padding?: number;
+  legend?: string;
+}
+
+export interface ProductionItem {
+  documentId: string;
+  name: string;
+  mimeType: string;
+  prefix: string;
+  startNumber: number;
+  padding?: number;
+  custodian?: string | null;
+  content: Buffer;
+  /** Accepted redactions could not be applied; a slip sheet stands in and no file is produced. */
+  withheld?: boolean;
+}
+
+export interface ProductionIndexEntry {
+  documentId: string;
+  begBates: string;
+  endBates: string;
+  pageCount: number;
+  fileName: string;
+  custodian: string | null;
+  imagePath: string;
+  nativePath: string | null;
+}
+
+export interface ProductionSet {
+  zip: Buffer;
+  index: ProductionIndexEntry[];
+}
+
+const isStampableImage = (mimeType: string) => mimeType === 'image/png' || mimeType === 'image/jpeg' || mimeType === 'image/jpg';
+
+const drawLabel = async (
+  pdf: PDFDocument,
+  page: PDFPage,
+  text: string,
+  corner: 'left' | 'right'
+) => {
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const { width } = page.getSize();
+  const textWidth = font.widthOfTextAtSize(text, STAMP_FONT_SIZE);
+  const x = corner === 'right' ? width - STAMP_MARGIN - textWidth : STAMP_MARGIN;
+  const y = STAMP_MARGIN;
+
+  // Opaque backing box keeps the label legible over dark scans.
+  page.drawRectangle({
+    x: x - STAMP_PADDING,
+    y: y - STAMP_PADDING,
+    width: textWidth + STAMP_PADDING * 2,
+    height: STAMP_FONT_SIZE + STAMP_PADDING * 2,
+    color: rgb(1, 1, 1),
+  });
+  page.drawText(text, { x, y, size: STAMP_FONT_SIZE, font, color: rgb(0, 0, 0) });
+};
+
+const stampPages = async (pdf: PDFDocument, options: StampOptions) => {
+  const padding = options.padding ?? BATES_PADDING;
+  const pages = pdf.getPages();
+  for (let i = 0; i < pages.length; i++) {
+    await drawLabel(pdf, pages[i], pageBatesLabel(options.prefix, options.startNumber, i, padding), 'right');
+    if (options.legend) {
+      await drawLabel(pdf, pages[i], options.legend, 'left');
+    }
+  }
+  return pages.length;
+};
+
+/**
+ * Burn a page-level Bates number (bottom right) and optional confidentiality
+ * legend (bottom left) onto every page of a PDF.
+ */
+export async function stampPdf(pdfBytes: Uint8Array, options: StampOptions): Promise<{ bytes: Uint8Array; pageCount: number }> {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const pageCount = await stampPages(pdf, options);
+  return { bytes: await pdf.save(), pageCount };
+}
+
+/** Place a PNG/JPEG on a single page sized to the image and stamp it. */
+export async function stampImageAsPdf(imageBytes: Uint8Array, mimeType: string, options: StampOptions): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const image = mimeType === 'image/png' ? await pdf.embedPng(imageBytes) : await pdf.embedJpg(imageBytes);
+  const page = pdf.addPage([image.width, image.height]);
+  page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  await stampPages(pdf, options);
+  return pdf.save();
+}
+
+/**
+ * Placeholder page for items produced natively (audio, video, spreadsheets) or
+ * withheld. It carries the Bates number so the item can be cited from the image set.
+ */
+export async function createSlipSheet(
+  fileName: string,
+  options: StampOptions,
+  heading = 'DOCUMENT PRODUCED IN NATIVE FORMAT'
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage(SLIP_SHEET_SIZE);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const [width, height] = SLIP_SHEET_SIZE;
+
+  page.drawText(heading, {
+    x: (width - bold.widthOfTextAtSize(heading, 16)) / 2,
+    y: height / 2 + 20,
+    size: 16,
+    font: bold,
+  });
+
+  // Standard fonts only cover WinAnsi; replace anything else so odd file names cannot break the export.
+  const safeName = fileName.replace(/[^\x20-\x7E]/g, '?');
+  page.drawText(safeName, {
+    x: Math.max(STAMP_MARGIN, (width - font.widthOfTextAtSize(safeName, 11)) / 2),
+    y: height / 2 - 10,
+    size: 11,
+    font,
+  });
+
+  await stampPages(pdf, options);
+  return pdf.save();
+}
+
+const fileExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+export const buildProductionIndexCsv = (entries: ProductionIndexEntry[]): string => {
+  const header = ['BegBates', 'EndBates', 'PageCount', 'FileName', 'Custodian', 'ImagePath', 'NativePath'];
+  const rows = entries.map(e =>
+    [e.begBates, e.endBates, e.pageCount, e.fileName, e.custodian, e.imagePath, e.nativePath].map(csvEscape).join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Write stamped images (and natives where needed) for each item into `zip`:
+ *   IMAGES/<BEGBATES>.pdf   stamped PDF for every item (slip sheet for natives and withheld items)
+ *   NATIVES/<BEGBATES>.ext  original file for items that cannot be imaged
+ */
+export async function addProductionFiles(
+  zip: JSZip,
+  items: ProductionItem[],
+  options: { legend?: string } = {}
+): Promise<ProductionIndexEntry[]> {
+  const index: ProductionIndexEntry[] = [];
+
+  for (const item of items) {
+    const padding = item.padding ?? BATES_PADDING;
+    const stampOptions: StampOptions = {
+      prefix: item.prefix,
+      startNumber: item.startNumber,
+      padding,
+      legend: options.legend,
+    };
+    const begBates = pageBatesLabel(item.prefix, item.startNumber, 0, padding);
+    const imagePath = `IMAGES/${begBates}.pdf`;
+    let nativePath: string | null = null;
+    let pdfBytes: Uint8Array;
+    let pageCount = 1;
+
+    if (item.withheld) {
+      pdfBytes = await createSlipSheet(item.name, stampOptions, 'DOCUMENT WITHHELD PENDING REDACTION');
+    } else if (item.mimeType === 'application/pdf') {
+      const stamped = await stampPdf(new Uint8Array(item.content), stampOptions);
+      pdfBytes = stamped.bytes;
+      pageCount = stamped.pageCount;
+    } else if (isStampableImage(item.mimeType)) {
+      pdfBytes = await stampImageAsPdf(new Uint8Array(item.content), item.mimeType, stampOptions);
+    } else {
+      pdfBytes = await createSlipSheet(item.name, stampOptions);
+      nativePath = `NATIVES/${begBates}${fileExtension(item.name)}`;
+      zip.file(nativePath, item.content);
+    }
+
+    zip.file(imagePath, pdfBytes);
+    index.push({
+      documentId: item.documentId,
+      begBates,
+      endBates: pageBatesLabel(item.prefix, item.startNumber, pageCount - 1, padding),
+      pageCount,
+      fileName: item.name,
+      custodian: item.custodian ?? null,
+      imagePath,
+      nativePath,
+    });
+  }
+
+  return index;
+}
+
+/** Assemble a production volume: stamped images, natives and production_index.csv. */
+export async function buildProductionSet(
+  items: ProductionItem[],
+  options: { legend?: string } = {}
+): Promise<ProductionSet> {
+  const zip = new JSZip();
+  const index = await addProductionFiles(zip, items, options);
+  zip.file('production_index.csv', buildProductionIndexCsv(index));
+
+  return {
+    zip: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    index,
+  };
+}
+
+/**
+ * Merge single-page images (PDF, PNG, JPEG) into one PDF, e.g. the per-page
+ * images an OPT lists for a third-party document. Returns null when a page is
+ * in a format pdf-lib cannot embed (TIFF).
+ */
+export async function combinePagesToPdf(pages: { bytes: Uint8Array; mimeType: string }[]): Promise<Uint8Array | null> {
+  const pdf = await PDFDocument.create();
+  for (const page of pages) {
+    if (page.mimeType === 'application/pdf') {
+      const source = await PDFDocument.load(page.bytes, { ignoreEncryption: true });
+      const copied = await pdf.copyPages(source, source.getPageIndices());
+      copied.forEach(p => pdf.addPage(p));
+    } else if (isStampableImage(page.mimeType)) {
+      const image = page.mimeType === 'image/png' ? await pdf.embedPng(page.bytes) : await pdf.embedJpg(page.bytes);
+      pdf.addPage([image.width, image.height]).drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+    } else {
+      return null;
+    }
+  }
+  return pdf.save();
+}
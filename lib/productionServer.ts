@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { parseBatesLabel } from './bates';
+import type { ProductionItem } from './production';
+import type { LoadFileRecord } from './loadFile';
+import { documentCollectionInfo } from './custodians';
+import { loadCustodianNames } from './custodiansServer';
+import { applyRedactions } from './redactionBurn';
+import { redactPageText, redactText, textSpansOf } from './redactions';
+import { loadAcceptedRedactions, parsePageGeometry } from './redactionsServer';
+import type { PageGeometry, Redaction } from './types';
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+
+export type ProducibleDocument = Pick<
+  DocumentRow,
+  | 'id'
+  | 'name'
+  | 'mime_type'
+  | 'storage_path'
+  | 'bates_prefix'
+  | 'bates_number'
+  | 'bates_formatted'
+  | 'bates_end_formatted'
+  | 'page_count'
+  | 'content_hash'
+  | 'analysis'
+  | 'extracted_text'
+  | 'metadata'
+  | 'custodian_id'
+> & {
+  prefix: string;
+  startNumber: number;
+  padding: number;
+  /** Name of the custodian the document was collected from. */
+  custodian: string | null;
+  /** Accepted redactions, burned into the produced image and text. */
+  redactions?: Redaction[];
+  /** Produced text when redactions apply; replaces extracted_text in the load file. */
+  redactedText?: string | null;
+  /** Word boxes, loaded when redactions need them to place text spans or rebuild the text. */
+  pageGeometry?: PageGeometry[];
+};
+
+const PRODUCIBLE_COLUMNS =
+  'id, name, mime_type, storage_path, bates_prefix, bates_number, bates_formatted, bates_end_formatted, page_count, content_hash, analysis, extracted_text, metadata, custodian_id';
+
+/**
+ * Fetch a project's Bates-numbered documents in Bates order. `bates_number` is
+ * stored as text, so ordering happens here rather than in SQL. Documents coded
+ * privileged are withheld; they appear on the privilege log instead.
+ */
+export async function loadProducibleDocuments(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  documentIds?: string[]
+): Promise<ProducibleDocument[]> {
+  let query = supabase
+    .from('documents')
+    .select(PRODUCIBLE_COLUMNS)
+    .eq('project_id', projectId)
+    .or('privilege_status.is.null,privilege_status.neq.privileged');
+  if (documentIds) {
+    query = query.in('id', documentIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const custodianNames = await loadCustodianNames(supabase, projectId);
+
+  const documents: ProducibleDocument[] = [];
+  for (const doc of (data || []) as Omit<ProducibleDocument, 'prefix' | 'startNumber' | 'padding' | 'custodian'>[]) {
+    if (!doc.bates_formatted) continue;
+    const label = parseBatesLabel(doc.bates_formatted);
+    if (!label) continue;
+    const startNumber = doc.bates_number ? parseInt(doc.bates_number, 10) : label.number;
+    if (!Number.isFinite(startNumber)) continue;
+    documents.push({
+      ...doc,
+      prefix: doc.bates_prefix || label.prefix,
+      startNumber,
+      padding: label.padding,
+      custodian: doc.custodian_id ? custodianNames.get(doc.custodian_id) ?? null : null,
+    });
+  }
+
+  await attachRedactions(supabase, documents);
+  return documents.sort((a, b) => a.startNumber - b.startNumber);
+}
+
+/**
+ * Attach accepted redactions and the redacted text to be produced. Box-only
+ * redactions have no span of extracted_text to remove, so those documents'
+ * text is rebuilt from word geometry with the covered words taken out.
+ */
+async function attachRedactions(supabase: SupabaseClient<Database>, documents: ProducibleDocument[]): Promise<void> {
+  const redactions = await loadAcceptedRedactions(supabase, documents.map(doc => doc.id));
+  for (const doc of documents) {
+    const applied = redactions.get(doc.id);
+    if (!applied?.length) continue;
+    doc.redactions = applied;
+
+    if (applied.some(r => !r.box || r.textStart === null)) {
+      const { data, error } = await supabase.from('documents').select('page_geometry').eq('id', doc.id).single();
+      if (error) throw error;
+      doc.pageGeometry = parsePageGeometry(data.page_geometry);
+    }
+
+    if (applied.some(r => r.box && r.textStart === null)) {
+      const geometry = doc.pageGeometry ?? [];
+      // Without geometry there is no way to tell which words were covered; produce no text rather than leak it.
+      doc.redactedText = geometry.length > 0 ? redactPageText(geometry, applied) : null;
+    } else {
+      doc.redactedText = doc.extracted_text ? redactText(doc.extracted_text, textSpansOf(applied)) : null;
+    }
+  }
+}
+
+/**
+ * Download originals from storage for stamping, with accepted redactions
+ * burned in. Documents whose redactions cannot be burned in (media, natives
+ * without text to typeset) are withheld rather than produced unredacted.
+ * Documents without a stored file are skipped.
+ */
+export async function downloadProductionItems(
+  supabase: SupabaseClient<Database>,
+  documents: ProducibleDocument[]
+): Promise<ProductionItem[]> {
+  const items: ProductionItem[] = [];
+  for (const doc of documents) {
+    if (!doc.storage_path) continue;
+
+    const { data: blob, error } = await supabase.storage.from('discovery-files').download(doc.storage_path);
+    if (error || !blob) {
+      throw new Error(`Failed to download ${doc.bates_formatted}: ${error?.message || 'empty file'}`);
+    }
+
+    const redactions = doc.redactions || [];
+    const { mimeType, content, redacted } = await applyRedactions(
+      new Uint8Array(await blob.arrayBuffer()),
+      doc.mime_type || blob.type || 'application/octet-stream',
+      redactions,
+      doc.extracted_text,
+      doc.pageGeometry
+    );
+    const withheld = redactions.length > 0 && !redacted;
+    items.push({
+      documentId: doc.id,
+      name: doc.name,
+      mimeType,
+      prefix: doc.prefix,
+      startNumber: doc.startNumber,
+      padding: doc.padding,
+      custodian: doc.custodian,
+      content: withheld ? Buffer.alloc(0) : Buffer.from(content),
+      withheld,
+    });
+  }
+  return items;
+}
+
+const analysisField = (analysis: Json | null, key: string): Json | undefined =>
+  analysis && typeof analysis === 'object' && !Array.isArray(analysis) ? analysis[key] : undefined;
+
+/**
+ * Map a stored document onto a load-file row. Image and native paths follow the
+ * production volume layout so the DAT/OPT line up with IMAGES/ and NATIVES/;
+ * without `produced` no image was written, so neither path is set.
+ */
+export const toLoadFileRecord = (
+  doc: ProducibleDocument,
+  produced?: { endBates: string; pageCount: number; imagePath: string; nativePath: string | null }
+): LoadFileRecord => {
+  const evidenceType = analysisField(doc.analysis, 'evidenceType');
+  const dates = analysisField(doc.analysis, 'dates');
+  const transcription = analysisField(doc.analysis, 'transcription');
+  const { originalPath, fileModifiedAt } = documentCollectionInfo(doc.metadata);
+
+  return {
+    begBates: doc.bates_formatted!,
+    endBates: produced?.endBates || doc.bates_end_formatted || doc.bates_formatted!,
+    pageCount: produced?.pageCount || doc.page_count || 1,
+    fileName: doc.name,
+    mimeType: doc.mime_type,
+    contentHash: doc.content_hash,
+    evidenceType: typeof evidenceType === 'string' ? evidenceType : null,
+    dates: Array.isArray(dates) ? dates.filter((d): d is string => typeof d === 'string') : [],
+    custodian: doc.custodian,
+    originalPath,
+    fileModifiedAt,
+    text: doc.redactedText !== undefined
+      ? doc.redactedText
+      : doc.extracted_text || (typeof transcription === 'string' ? transcription : null),
+    imagePath: produced ? produced.imagePath : null,
+    nativePath: produced ? produced.nativePath : null,
+  };
+};
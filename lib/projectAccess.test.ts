@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_EDITORS, hasProjectRole, isProjectRole, lastOwnerConflict, normalizeEmail } from './projectAccess';
+
+describe('project roles', () => {
+  it('recognises the four roles', () => {
+    expect(isProjectRole('read_only')).toBe(true);
+    expect(isProjectRole('admin')).toBe(false);
+    expect(hasProjectRole('attorney', PROJECT_EDITORS)).toBe(true);
+    expect(hasProjectRole('reviewer', PROJECT_EDITORS)).toBe(false);
+    expect(hasProjectRole(null, PROJECT_EDITORS)).toBe(false);
+  });
+
+  it('normalizes invitation emails', () => {
+    expect(normalizeEmail('  Ann.Lee@Firm.COM ')).toBe('ann.lee@firm.com');
+    expect(normalizeEmail('ann')).toBeNull();
+    expect(normalizeEmail(42)).toBeNull();
+  });
+
+  it('keeps at least one signed-in owner', () => {
+    const members = [
+      { id: 'a', role: 'owner' as const, userId: 'u1' },
+      { id: 'b', role: 'owner' as const, userId: null },
+      { id: 'c', role: 'reviewer' as const, userId: 'u3' },
+    ];
+    expect(lastOwnerConflict(members, 'a', 'attorney')).toBe('A project needs at least one owner');
+    expect(lastOwnerConflict(members, 'a', null)).toBe('A project needs at least one owner');
+    expect(lastOwnerConflict(members, 'b', null)).toBeNull();
+    expect(lastOwnerConflict(members, 'c', 'owner')).toBeNull();
+    expect(lastOwnerConflict([...members, { id: 'd', role: 'owner', userId: 'u4' }], 'a', null)).toBeNull();
+  });
+});
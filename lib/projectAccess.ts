@@ -0,0 +1,45 @@
+import type { ProjectMember, ProjectRole } from './types';
+
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'attorney', 'reviewer', 'read_only'];
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  attorney: 'Attorney',
+  reviewer: 'Reviewer',
+  read_only: 'Read-only',
+};
+
+// Who may do what. These mirror the RLS policies in the access control
+// migration; the API checks them up front to answer 403 instead of failing
+// inside the database.
+export const MEMBER_MANAGERS: ProjectRole[] = ['owner'];
+export const PROJECT_EDITORS: ProjectRole[] = ['owner', 'attorney'];
+export const DOCUMENT_REVIEWERS: ProjectRole[] = ['owner', 'attorney', 'reviewer'];
+
+export const isProjectRole = (value: unknown): value is ProjectRole =>
+  typeof value === 'string' && (PROJECT_ROLES as string[]).includes(value);
+
+export const hasProjectRole = (role: ProjectRole | null, allowed: ProjectRole[]): boolean =>
+  role !== null && allowed.includes(role);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Members are keyed by lower-cased email so invitations match however the address is typed. */
+export const normalizeEmail = (value: unknown): string | null =>
+  typeof value === 'string' && EMAIL_PATTERN.test(value.trim()) ? value.trim().toLowerCase() : null;
+
+/**
+ * Why changing a member's role (or removing them, when `nextRole` is null)
+ * would leave the project without an owner who can sign in, or null when it
+ * would not. Pending invitations do not count as owners.
+ */
+export const lastOwnerConflict = (
+  members: Pick<ProjectMember, 'id' | 'role' | 'userId'>[],
+  memberId: string,
+  nextRole: ProjectRole | null
+): string | null => {
+  const target = members.find(member => member.id === memberId);
+  if (!target || target.role !== 'owner' || nextRole === 'owner') return null;
+  const otherOwners = members.filter(member => member.id !== memberId && member.role === 'owner' && member.userId);
+  return otherOwners.length > 0 ? null : 'A project needs at least one owner';
+};
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { lastOwnerConflict } from './projectAccess';
+import type { ProjectMember, ProjectRole } from './types';
+
+type MemberRow = Database['public']['Tables']['project_members']['Row'];
+
+const toProjectMember = (row: MemberRow): ProjectMember => ({
+  id: row.id,
+  email: row.email,
+  userId: row.user_id,
+  role: row.role,
+  createdAt: row.created_at,
+});
+
+/** The caller's role on the project, or null when they are not a member. */
+export async function getProjectRole(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  userId: string
+): Promise<ProjectRole | null> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.role ?? null;
+}
+
+/** Attach invitations sent to the caller's email before they had signed in. */
+export async function claimProjectInvitations(supabase: SupabaseClient<Database>): Promise<number> {
+  const { data, error } = await supabase.rpc('claim_project_invitations');
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function listProjectMembers(supabase: SupabaseClient<Database>, projectId: string): Promise<ProjectMember[]> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(toProjectMember);
+}
+
+export async function addProjectMember(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  member: { email: string; role: ProjectRole },
+  invitedBy: string
+): Promise<{ member: ProjectMember } | { conflict: string }> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .insert({ project_id: projectId, email: member.email, role: member.role, invited_by: invitedBy })
+    .select('*')
+    .single();
+  if (error) {
+    if (error.code === '23505') return { conflict: `${member.email} is already a member` };
+    throw error;
+  }
+  return { member: toProjectMember(data) };
+}
+
+export async function updateProjectMemberRole(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  memberId: string,
+  role: ProjectRole
+): Promise<{ member: ProjectMember } | { conflict: string } | null> {
+  const members = await listProjectMembers(supabase, projectId);
+  if (!members.some(member => member.id === memberId)) return null;
+  const conflict = lastOwnerConflict(members, memberId, role);
+  if (conflict) return { conflict };
+
+  const { data, error } = await supabase
+    .from('project_members')
+    .update({ role })
+    .eq('project_id', projectId)
+    .eq('id', memberId)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { member: toProjectMember(data) } : null;
+}
+
+/**
+ * `beforeRemove` runs once the removal is allowed and before it happens, while
+ * a member removing themselves can still write to the project.
+ */
+export async function removeProjectMember(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  memberId: string,
+  beforeRemove?: (member: ProjectMember) => Promise<unknown>
+): Promise<{ removed: true } | { conflict: string } | null> {
+  const members = await listProjectMembers(supabase, projectId);
+  const target = members.find(member => member.id === memberId);
+  if (!target) return null;
+  const conflict = lastOwnerConflict(members, memberId, null);
+  if (conflict) return { conflict };
+  if (beforeRemove) await beforeRemove(target);
+
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('id', memberId);
+  if (error) throw error;
+  return { removed: true };
+}
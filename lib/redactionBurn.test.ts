@@ -0,0 +1,90 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { PDFParse } from 'pdf-parse';
+import { describe, expect, it } from 'vitest';
+import { extractPdfGeometry } from './pageGeometry';
+import { applyRedactions, burnPdfRedactions, renderPdfPages, renderRedactedTextPdf } from './redactionBurn';
+import { spanBoxes } from './redactions';
+import type { Redaction } from './types';
+
+const pdfText = async (bytes: Uint8Array) => {
+  const parser = new PDFParse({ data: new Uint8Array(bytes) });
+  try {
+    const result = await parser.getText();
+    return { text: result.text, pages: result.total };
+  } finally {
+    await parser.destroy();
+  }
+};
+
+describe('burnPdfRedactions', () => {
+  it('rebuilds every page as an image so no text survives', async () => {
+    const source = await PDFDocument.create();
+    const font = await source.embedFont(StandardFonts.Helvetica);
+    source.addPage([612, 792]).drawText('SSN 123-45-6789', { x: 72, y: 700, size: 12, font });
+    source.addPage([792, 612]).drawText('Unredacted page', { x: 72, y: 500, size: 12, font });
+
+    const burned = await burnPdfRedactions(await source.save(), [
+      { page: 1, box: { x: 0.15, y: 0.1, width: 0.15, height: 0.03 }, reason: 'pii_ssn' },
+    ]);
+
+    const { text, pages } = await pdfText(burned);
+    expect(pages).toBe(2);
+    expect(text).not.toMatch(/6789|Unredacted/);
+
+    const sizes = (await PDFDocument.load(burned)).getPages().map(page => page.getSize());
+    expect(sizes).toEqual([{ width: 612, height: 792 }, { width: 792, height: 612 }]);
+  });
+});
+
+describe('applyRedactions', () => {
+  const ssnPdf = async () => {
+    const source = await PDFDocument.create();
+    const font = await source.embedFont(StandardFonts.Helvetica);
+    source.addPage([612, 792]).drawText('Employee SSN 123-45-6789 on file', { x: 72, y: 700, size: 24, font });
+    return source.save();
+  };
+  const text = 'Employee SSN 123-45-6789 on file';
+  const start = text.indexOf('123');
+  const spanOnly: Pick<Redaction, 'page' | 'box' | 'textStart' | 'textEnd' | 'reason'> = {
+    page: null,
+    box: null,
+    textStart: start,
+    textEnd: start + 11,
+    reason: 'pii_ssn',
+  };
+
+  it('burns a span-only redaction into the PDF at the words it covers', async () => {
+    const pdf = await ssnPdf();
+    const geometry = await extractPdfGeometry(pdf);
+    const [placed] = spanBoxes(text, geometry, { start, end: start + 11 })!;
+
+    const result = await applyRedactions(pdf, 'application/pdf', [spanOnly], text, geometry);
+    expect(result.redacted).toBe(true);
+
+    const [page] = await renderPdfPages(result.content, { scale: 1 });
+    const image = await loadImage(page.png);
+    const context = createCanvas(image.width, image.height).getContext('2d');
+    context.drawImage(image, 0, 0);
+    const pixel = (x: number, y: number) => Array.from(context.getImageData(Math.round(x * image.width), Math.round(y * image.height), 1, 1).data.slice(0, 3));
+
+    // Left edge of the box, clear of the white reason label in its middle
+    expect(pixel(placed.box.x + placed.box.width * 0.05, placed.box.y + placed.box.height / 2)).toEqual([0, 0, 0]);
+    expect(pixel(0.05, 0.5)).toEqual([255, 255, 255]);
+  });
+
+  it('refuses to produce the PDF when a span cannot be placed on the page', async () => {
+    await expect(applyRedactions(await ssnPdf(), 'application/pdf', [spanOnly], text, [])).rejects.toThrow(/could not be placed/);
+  });
+});
+
+describe('renderRedactedTextPdf', () => {
+  it('leaves redacted characters out of the text layer', async () => {
+    const source = 'From: pat@acme.com\nMy SSN is 123-45-6789, call me.';
+    const start = source.indexOf('123');
+    const { text } = await pdfText(await renderRedactedTextPdf(source, [{ start, end: start + 11 }]));
+
+    expect(text).toContain('call me.');
+    expect(text).not.toContain('6789');
+  });
+});
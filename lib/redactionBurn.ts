@@ -0,0 +1,179 @@
+import 'pdf-parse/worker';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { PDFParse } from 'pdf-parse';
+import { placeTextRedactions, REDACTION_REASONS, textSpansOf } from './redactions';
+import type { PageGeometry, Redaction } from './types';
+
+/**
+ * Burning redactions in. A black box drawn over a PDF page leaves the text
+ * underneath selectable, so redacted pages are re-rendered as images with the
+ * boxes painted into the pixels and rebuilt into a PDF with no text layer.
+ */
+
+// Rendered at 144 dpi: legible when printed, small enough for large productions.
+const RENDER_SCALE = 2;
+
+type PageRedaction = Pick<Redaction, 'page' | 'box' | 'reason'>;
+type AppliedRedaction = PageRedaction & Pick<Redaction, 'textStart' | 'textEnd'>;
+
+const TEXT_PAGE_SIZE: [number, number] = [612, 792]; // US Letter
+const TEXT_MARGIN = 54;
+const TEXT_FONT_SIZE = 9;
+const TEXT_LINE_HEIGHT = 11;
+
+/** Paint black boxes, labelled with their reason code, over a page image. */
+async function paintRedactions(image: Uint8Array, redactions: PageRedaction[]): Promise<Uint8Array> {
+  const source = await loadImage(image);
+  const canvas = createCanvas(source.width, source.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(source, 0, 0);
+
+  redactions.forEach(({ box, reason }) => {
+    if (!box) return;
+    const x = box.x * source.width;
+    const y = box.y * source.height;
+    const width = box.width * source.width;
+    const height = box.height * source.height;
+    context.fillStyle = '#000000';
+    context.fillRect(x, y, width, height);
+
+    const label = REDACTION_REASONS[reason].code;
+    const fontSize = Math.min(height * 0.7, 24 * RENDER_SCALE);
+    context.font = `bold ${fontSize}px sans-serif`;
+    if (fontSize >= 6 && context.measureText(label).width < width - 4) {
+      context.fillStyle = '#ffffff';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(label, x + width / 2, y + height / 2);
+    }
+  });
+
+  return new Uint8Array(canvas.toBuffer('image/png'));
+}
+
+/** Render pages of a PDF to PNG. `pages` limits which pages are rendered. */
+export async function renderPdfPages(
+  pdfBytes: Uint8Array,
+  options: { scale?: number; pages?: number[] } = {}
+): Promise<{ pageNumber: number; png: Uint8Array; width: number; height: number }[]> {
+  const scale = options.scale ?? RENDER_SCALE;
+  const parser = new PDFParse({ data: new Uint8Array(pdfBytes) });
+  try {
+    const result = await parser.getScreenshot({ scale, partial: options.pages, imageBuffer: true, imageDataUrl: false });
+    // Width and height are in rendered pixels; dividing by the scale gives PDF points.
+    return result.pages.map(page => ({
+      pageNumber: page.pageNumber,
+      png: page.data,
+      width: page.width / scale,
+      height: page.height / scale,
+    }));
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Produce an image-only copy of a PDF with `redactions` burned in. Every page
+ * is rasterized, not just redacted ones, so no text layer survives anywhere.
+ */
+export async function burnPdfRedactions(pdfBytes: Uint8Array, redactions: PageRedaction[]): Promise<Uint8Array> {
+  const pages = await renderPdfPages(pdfBytes);
+  const pdf = await PDFDocument.create();
+  for (const page of pages) {
+    const png = await paintRedactions(page.png, redactions.filter(r => r.page === page.pageNumber));
+    const image = await pdf.embedPng(png);
+    pdf.addPage([page.width, page.height]).drawImage(image, { x: 0, y: 0, width: page.width, height: page.height });
+  }
+  return pdf.save();
+}
+
+/** Burn redactions into a PNG/JPEG; the result is always a PNG. */
+export async function burnImageRedactions(imageBytes: Uint8Array, redactions: PageRedaction[]): Promise<Uint8Array> {
+  return paintRedactions(imageBytes, redactions.filter(r => (r.page ?? 1) === 1));
+}
+
+/**
+ * Typeset text with redacted spans blacked out, for documents produced from
+ * their extracted text (email, word processing, plain text). Courier keeps the
+ * geometry predictable, and redacted characters are never written to the PDF.
+ */
+export async function renderRedactedTextPdf(text: string, spans: { start: number; end: number }[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Courier);
+  const [pageWidth, pageHeight] = TEXT_PAGE_SIZE;
+  const charWidth = font.widthOfTextAtSize('M', TEXT_FONT_SIZE);
+  const lineLength = Math.floor((pageWidth - TEXT_MARGIN * 2) / charWidth);
+  const linesPerPage = Math.floor((pageHeight - TEXT_MARGIN * 2) / TEXT_LINE_HEIGHT);
+  const redacted = (offset: number) => spans.some(span => offset >= span.start && offset < span.end);
+
+  // Hard-wrap each source line, remembering where every output line starts in `text`.
+  const lines: { start: number; content: string }[] = [];
+  let offset = 0;
+  text.split('\n').forEach(line => {
+    for (let i = 0; i === 0 || i < line.length; i += lineLength) {
+      lines.push({ start: offset + i, content: line.slice(i, i + lineLength) });
+    }
+    offset += line.length + 1;
+  });
+
+  for (let first = 0; first < lines.length; first += linesPerPage) {
+    const page = pdf.addPage(TEXT_PAGE_SIZE);
+    lines.slice(first, first + linesPerPage).forEach((line, row) => {
+      const y = pageHeight - TEXT_MARGIN - (row + 1) * TEXT_LINE_HEIGHT;
+      // Standard fonts only cover WinAnsi; substitute anything else one-for-one to keep columns aligned.
+      const chars = line.content.split('').map((char, i) => (redacted(line.start + i) ? ' ' : /[\x20-\x7E]/.test(char) ? char : '?'));
+      page.drawText(chars.join(''), { x: TEXT_MARGIN, y, size: TEXT_FONT_SIZE, font });
+
+      for (let i = 0; i < chars.length; i++) {
+        if (!redacted(line.start + i)) continue;
+        let end = i;
+        while (end < chars.length && redacted(line.start + end)) end++;
+        page.drawRectangle({
+          x: TEXT_MARGIN + i * charWidth,
+          y: y - 2,
+          width: (end - i) * charWidth,
+          height: TEXT_LINE_HEIGHT,
+          color: rgb(0, 0, 0),
+        });
+        i = end;
+      }
+    });
+  }
+
+  return pdf.save();
+}
+
+const isMedia = (mimeType: string) => mimeType.startsWith('audio/') || mimeType.startsWith('video/');
+
+/**
+ * A document's content with `redactions` applied. PDFs and images are
+ * rasterized with the boxes burned in, text spans included: those are placed
+ * on the page through `geometry`, and a span that cannot be placed throws
+ * rather than leaving it visible. Other documents with text redactions
+ * become a typeset PDF of their extracted text in place of the native file.
+ * Content that cannot be redacted this way (media) is returned unchanged.
+ */
+export async function applyRedactions(
+  content: Uint8Array,
+  mimeType: string,
+  redactions: AppliedRedaction[],
+  extractedText: string | null,
+  geometry: PageGeometry[] = []
+): Promise<{ mimeType: string; content: Uint8Array; redacted: boolean }> {
+  if (redactions.length === 0) return { mimeType, content, redacted: false };
+
+  if (mimeType === 'application/pdf') {
+    const placed = placeTextRedactions(redactions, extractedText, geometry);
+    return { mimeType, content: await burnPdfRedactions(content, placed), redacted: true };
+  }
+  if (mimeType === 'image/png' || mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+    const placed = placeTextRedactions(redactions, extractedText, geometry);
+    return { mimeType: 'image/png', content: await burnImageRedactions(content, placed), redacted: true };
+  }
+  const spans = textSpansOf(redactions);
+  if (!isMedia(mimeType) && spans.length > 0 && extractedText) {
+    return { mimeType: 'application/pdf', content: await renderRedactedTextPdf(extractedText, spans), redacted: true };
+  }
+  return { mimeType, content, redacted: false };
+}
@@ -0,0 +1,156 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import {
+  buildRedactionLog,
+  buildRedactionLogCsv,
+  buildRedactionLogEntries,
+  findPiiMatches,
+  redactPageText,
+  redactText,
+  spanBoxes,
+  suggestRedactions,
+} from './redactions';
+import type { PageGeometry } from './types';
+
+const found = (text: string) => findPiiMatches(text).map(m => [m.reason, text.slice(m.start, m.end)]);
+
+describe('findPiiMatches', () => {
+  it('finds SSNs, dates of birth, accounts and phone numbers', () => {
+    const text = [
+      'Employee SSN: 123-45-6789, DOB: 04/12/1980.',
+      'Wire to account no. 00123456789 or card 4111 1111 1111 1111.',
+      'Call (555) 867-5309 or 555.123.4567.',
+    ].join('\n');
+
+    expect(found(text)).toEqual([
+      ['pii_ssn', '123-45-6789'],
+      ['pii_dob', '04/12/1980'],
+      ['pii_account', '00123456789'],
+      ['pii_account', '4111 1111 1111 1111'],
+      ['pii_phone', '(555) 867-5309'],
+      ['pii_phone', '555.123.4567'],
+    ]);
+  });
+
+  it('only redacts a birth date, not every date', () => {
+    expect(found('Signed 04/12/2021. Date of birth March 3, 1975')).toEqual([['pii_dob', 'March 3, 1975']]);
+  });
+
+  it('ignores numbers that only look like PII', () => {
+    expect(found('Invoice 000-12-3456, order 1234 5678 9012 3456, ref 123456789')).toEqual([]);
+  });
+});
+
+describe('suggestRedactions', () => {
+  const word = (text: string, x: number, y: number, width: number) => ({ text, x, y, width, height: 0.02 });
+  const geometry: PageGeometry[] = [
+    { pageNumber: 1, words: [word('Intro', 0.1, 0.1, 0.1)] },
+    { pageNumber: 2, words: [word('Call', 0.1, 0.5, 0.05), word('555-867-5309', 0.16, 0.5, 0.12), word('today', 0.3, 0.5, 0.06)] },
+  ];
+
+  it('pairs page boxes with the matching text span', () => {
+    const text = 'Intro\n\nCall 555-867-5309 today';
+    const [draft, ...rest] = suggestRedactions(text, geometry);
+
+    expect(rest).toEqual([]);
+    expect(draft.page).toBe(2);
+    expect(draft.reason).toBe('pii_phone');
+    expect(text.slice(draft.textStart!, draft.textEnd!)).toBe('555-867-5309');
+    expect(draft.box!.x).toBeCloseTo(0.158, 3);
+    expect(draft.box!.width).toBeCloseTo(0.124, 3);
+  });
+
+  it('splits a match that wraps onto a new line into one box per line', () => {
+    const wrapped: PageGeometry[] = [
+      { pageNumber: 1, words: [word('Call', 0.7, 0.1, 0.05), word('(555)', 0.8, 0.1, 0.06), word('867-5309', 0.1, 0.13, 0.1)] },
+    ];
+    const drafts = suggestRedactions('Call (555)\n867-5309', wrapped);
+
+    expect(drafts.map(d => [d.page, d.box!.y.toFixed(3), d.textStart, d.textEnd])).toEqual([
+      [1, '0.098', 5, 19],
+      [1, '0.128', 5, 19],
+    ]);
+  });
+
+  it('falls back to text spans when there is no page geometry', () => {
+    expect(suggestRedactions('Home: 555-867-5309')).toEqual([
+      { page: null, box: null, textStart: 6, textEnd: 18, reason: 'pii_phone' },
+    ]);
+  });
+});
+
+describe('spanBoxes', () => {
+  const word = (text: string, x: number, y: number) => ({ text, x, y, width: 0.1, height: 0.02 });
+  const geometry: PageGeometry[] = [
+    { pageNumber: 1, words: [word('Acct', 0.1, 0.1), word('4417', 0.3, 0.1)] },
+    { pageNumber: 2, words: [word('Again', 0.1, 0.2), word('4417', 0.3, 0.2)] },
+  ];
+
+  it('places a span on the occurrence in the same position', () => {
+    const text = 'Acct 4417\n\nAgain 4417';
+    expect(spanBoxes(text, geometry, { start: text.lastIndexOf('4417'), end: text.length })!.map(p => p.page)).toEqual([2]);
+  });
+
+  it('covers every occurrence when the pages and the text disagree', () => {
+    const text = 'Acct 4417';
+    expect(spanBoxes(text, geometry, { start: 5, end: 9 })!.map(p => p.page)).toEqual([1, 2]);
+  });
+
+  it('gives null when the text is not on any page', () => {
+    expect(spanBoxes('Acct 9999', geometry, { start: 5, end: 9 })).toBeNull();
+  });
+});
+
+describe('redactText', () => {
+  it('replaces spans and merges overlapping ones', () => {
+    expect(redactText('SSN 123-45-6789 and phone 555-867-5309', [
+      { start: 4, end: 15 },
+      { start: 10, end: 15 },
+      { start: 26, end: 38 },
+    ])).toBe('SSN [REDACTED] and phone [REDACTED]');
+  });
+});
+
+describe('redactPageText', () => {
+  it('rebuilds page text without the words under a box', () => {
+    const word = (text: string, x: number, y: number) => ({ text, x, y, width: 0.05, height: 0.02 });
+    const geometry: PageGeometry[] = [
+      { pageNumber: 1, words: [word('Account', 0.1, 0.1), word('00123', 0.2, 0.1), word('4567', 0.26, 0.1), word('closed', 0.1, 0.15)] },
+    ];
+
+    expect(redactPageText(geometry, [{ page: 1, box: { x: 0.19, y: 0.09, width: 0.13, height: 0.04 } }]))
+      .toBe('Account [REDACTED]\nclosed');
+  });
+});
+
+describe('redaction log', () => {
+  const entries = buildRedactionLogEntries([
+    {
+      begBates: 'DEF-000001',
+      endBates: 'DEF-000003',
+      fileName: 'hr, file.pdf',
+      redactions: [
+        { page: 2, reason: 'pii_ssn' },
+        { page: 1, reason: 'privilege_ac' },
+        { page: 2, reason: 'pii_ssn' },
+      ],
+    },
+  ]);
+
+  it('counts redactions per page and reason', () => {
+    expect(entries.map(e => [e.page, e.reason, e.count])).toEqual([
+      [1, 'privilege_ac', 1],
+      [2, 'pii_ssn', 2],
+    ]);
+  });
+
+  it('writes CSV and XLSX', async () => {
+    expect(buildRedactionLogCsv(entries)).toBe(
+      'Beg Bates,End Bates,File Name,Page,Reason Code,Reason,Redactions\n' +
+        'DEF-000001,DEF-000003,"hr, file.pdf",1,AC,Attorney-client privilege,1\n' +
+        'DEF-000001,DEF-000003,"hr, file.pdf",2,PII,Social Security number,2\n'
+    );
+    const zip = await JSZip.loadAsync(await buildRedactionLog(entries, 'xlsx'));
+    expect(await zip.file('xl/worksheets/sheet1.xml')!.async('string')).toContain('Social Security number');
+  });
+});
@@ -0,0 +1,379 @@
+import { csvEscape } from './csv';
+import { buildXlsx, XLSX_MIME_TYPE } from './ooxml';
+import type { GeometryWord, PageGeometry, Redaction, RedactionBox, RedactionReason } from './types';
+
+/**
+ * Redaction reasons, PII detection and the redaction log. Detection runs over
+ * both the document's extracted text (for text spans) and its page geometry
+ * (for boxes), so a suggestion covers the image and the text produced with it.
+ */
+
+export const REDACTION_REASONS: Record<RedactionReason, { label: string; code: string }> = {
+  pii_ssn: { label: 'Social Security number', code: 'PII' },
+  pii_dob: { label: 'Date of birth', code: 'PII' },
+  pii_account: { label: 'Financial account number', code: 'PII' },
+  pii_phone: { label: 'Phone number', code: 'PII' },
+  pii_minor: { label: "Minor's name", code: 'MINOR' },
+  privilege_ac: { label: 'Attorney-client privilege', code: 'AC' },
+  privilege_wp: { label: 'Attorney work product', code: 'WP' },
+  confidential: { label: 'Confidential business information', code: 'CONF' },
+  other: { label: 'Other', code: 'REDACTED' },
+};
+
+export const REDACTION_REASON_CODES = Object.keys(REDACTION_REASONS) as RedactionReason[];
+
+export const isRedactionReason = (value: unknown): value is RedactionReason =>
+  typeof value === 'string' && value in REDACTION_REASONS;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+/** A box that lies on the page and has an area. */
+export const isRedactionBox = (value: unknown): value is RedactionBox => {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  return isFraction(x) && isFraction(y) && isFraction(width) && isFraction(height)
+    && width > 0 && height > 0 && x + width <= 1.0001 && y + height <= 1.0001;
+};
+
+export interface PiiMatch {
+  reason: RedactionReason;
+  start: number;
+  end: number;
+}
+
+const DATE = String.raw`(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+\d{4})`;
+
+interface Detector {
+  reason: RedactionReason;
+  pattern: RegExp;
+  /** Capture group holding the value when the pattern also matches a label. */
+  group?: number;
+  accept?: (value: string) => boolean;
+}
+
+const luhnValid = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+};
+
+// Order matters: earlier detectors win overlapping matches.
+const DETECTORS: Detector[] = [
+  { reason: 'pii_ssn', pattern: /(?<!\d)(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}(?!\d)/g },
+  { reason: 'pii_ssn', pattern: /\b(?:SSN|SS#|social security(?: number| no\.?)?)\s*[:#]?\s*(\d{9})(?!\d)/gi, group: 1 },
+  { reason: 'pii_dob', pattern: new RegExp(String.raw`\b(?:DOB|D\.O\.B\.?|date of birth|born(?: on)?)\s*[:-]?\s*(${DATE})`, 'gi'), group: 1 },
+  {
+    reason: 'pii_account',
+    pattern: /\b(?:account|acct|a\/c|routing|card|iban)\.?\s*(?:no\.?|number|#)?\s*[:#]?\s*((?:\d[ -]?){5,21}\d)(?!\d)/gi,
+    group: 1,
+  },
+  { reason: 'pii_account', pattern: /(?<!\d)\d{4}(?:[ -]?\d{4}){2}[ -]?\d{1,7}(?!\d)/g, accept: luhnValid },
+  { reason: 'pii_phone', pattern: /(?<![\d-])(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\d-])/g },
+];
+
+/** PII found in `text`, sorted by position, with overlapping matches removed. */
+export const findPiiMatches = (text: string): PiiMatch[] => {
+  const matches: PiiMatch[] = [];
+  DETECTORS.forEach(detector => {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = detector.group ? match[detector.group] : match[0];
+      if (!value || (detector.accept && !detector.accept(value))) continue;
+      const start = match.index! + (detector.group ? match[0].lastIndexOf(value) : 0);
+      const end = start + value.length;
+      if (matches.some(m => start < m.end && end > m.start)) continue;
+      matches.push({ reason: detector.reason, start, end });
+    }
+  });
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+export interface RedactionDraft {
+  page: number | null;
+  box: RedactionBox | null;
+  textStart: number | null;
+  textEnd: number | null;
+  reason: RedactionReason;
+}
+
+const unionBox = (boxes: RedactionBox[]): RedactionBox => {
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// A little padding so anti-aliased glyph edges are covered too.
+const padBox = (box: RedactionBox, pad = 0.002): RedactionBox => {
+  const x = Math.max(0, box.x - pad);
+  const y = Math.max(0, box.y - pad);
+  return { x, y, width: Math.min(1, box.x + box.width + pad) - x, height: Math.min(1, box.y + box.height + pad) - y };
+};
+
+/** Part of a word's box covering characters [from, to) of it, assuming even glyph widths. */
+const sliceWord = (word: GeometryWord, from: number, to: number): RedactionBox => {
+  const length = Math.max(word.text.length, 1);
+  return {
+    x: word.x + (word.width * from) / length,
+    y: word.y,
+    width: (word.width * (to - from)) / length,
+    height: word.height,
+  };
+};
+
+/** One box per line covered by the match. */
+const matchBoxes = (words: GeometryWord[], offsets: number[], match: { start: number; end: number }): RedactionBox[] => {
+  const pieces: RedactionBox[] = [];
+  words.forEach((word, i) => {
+    const start = offsets[i];
+    const end = start + word.text.length;
+    if (end <= match.start || start >= match.end) return;
+    pieces.push(sliceWord(word, Math.max(match.start - start, 0), Math.min(match.end, end) - start));
+  });
+
+  const lines: RedactionBox[][] = [];
+  pieces.forEach(piece => {
+    const line = lines.find(l => Math.abs(l[0].y - piece.y) < Math.min(l[0].height, piece.height) / 2);
+    if (line) line.push(piece);
+    else lines.push([piece]);
+  });
+  return lines.map(line => padBox(unionBox(line)));
+};
+
+const comparable = (value: string) => value.replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+
+/** Page text as suggestRedactions reads it: the words joined by spaces, with where each word starts. */
+const pageTextOf = (page: PageGeometry) => {
+  const offsets: number[] = [];
+  let text = '';
+  page.words.forEach(word => {
+    offsets.push(text.length);
+    text += `${word.text} `;
+  });
+  return { text, offsets };
+};
+
+/**
+ * PII suggestions for a document. Page matches become boxes and are paired,
+ * in reading order, with the equal text spans in `text`; spans with no page
+ * match (text-only documents) are suggested on their own.
+ */
+export const suggestRedactions = (text: string, geometry: PageGeometry[] = []): RedactionDraft[] => {
+  const spans = findPiiMatches(text).map(match => ({ ...match, key: comparable(text.slice(match.start, match.end)), used: false }));
+  const drafts: RedactionDraft[] = [];
+
+  geometry.forEach(page => {
+    const { text: pageText, offsets } = pageTextOf(page);
+
+    findPiiMatches(pageText).forEach(match => {
+      const key = comparable(pageText.slice(match.start, match.end));
+      const span = spans.find(s => !s.used && s.key === key);
+      if (span) span.used = true;
+      matchBoxes(page.words, offsets, match).forEach(box => {
+        drafts.push({ page: page.pageNumber, box, textStart: span?.start ?? null, textEnd: span?.end ?? null, reason: match.reason });
+      });
+    });
+  });
+
+  spans
+    .filter(span => !span.used)
+    .forEach(span => drafts.push({ page: null, box: null, textStart: span.start, textEnd: span.end, reason: span.reason }));
+
+  return drafts;
+};
+
+/** Where `key` occurs in `text`, compared as comparable() does, as ranges of `text`. */
+const comparableOccurrences = (text: string, key: string): { start: number; end: number }[] => {
+  let folded = '';
+  const origin: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const kept = comparable(char);
+    folded += kept;
+    for (let i = 0; i < kept.length; i++) origin.push(offset);
+    return offset + char.length;
+  }, 0);
+
+  const found: { start: number; end: number }[] = [];
+  for (let at = folded.indexOf(key); at !== -1; at = folded.indexOf(key, at + key.length)) {
+    found.push({ start: origin[at], end: origin[at + key.length - 1] + 1 });
+  }
+  return found;
+};
+
+/**
+ * Boxes covering a span of the extracted text on the page images, found by
+ * looking for the span's text in the page geometry. The span is matched to the
+ * occurrence in the same position among equal occurrences, as suggestions pair
+ * them; when the pages and the text disagree on how many there are, every
+ * occurrence is covered. Null when the text cannot be found on any page.
+ */
+export const spanBoxes = (
+  text: string,
+  geometry: PageGeometry[],
+  span: { start: number; end: number }
+): { page: number; box: RedactionBox }[] | null => {
+  const key = comparable(text.slice(span.start, span.end));
+  // Nothing legible (whitespace, punctuation) shows on the page to cover
+  if (!key) return [];
+
+  const inText = comparableOccurrences(text, key);
+  const ordinal = inText.findIndex(occurrence => occurrence.end > span.start && occurrence.start < span.end);
+  const onPages = geometry.flatMap(page => {
+    const { text: pageText, offsets } = pageTextOf(page);
+    return comparableOccurrences(pageText, key).map(occurrence => ({ page, offsets, occurrence }));
+  });
+  if (onPages.length === 0) return null;
+
+  const chosen = onPages.length === inText.length && ordinal >= 0 ? [onPages[ordinal]] : onPages;
+  return chosen.flatMap(({ page, offsets, occurrence }) =>
+    matchBoxes(page.words, offsets, occurrence).map(box => ({ page: page.pageNumber, box }))
+  );
+};
+
+/**
+ * Redactions with every text span that has no box of its own placed on the
+ * page images, for burning into a PDF or image. Throws when a span cannot be
+ * placed: producing the page anyway would show what the span hides.
+ */
+export const placeTextRedactions = <T extends Pick<Redaction, 'page' | 'box' | 'textStart' | 'textEnd' | 'reason'>>(
+  redactions: T[],
+  text: string | null,
+  geometry: PageGeometry[]
+): Array<Pick<Redaction, 'page' | 'box' | 'reason'>> =>
+  redactions.flatMap((redaction): Array<Pick<Redaction, 'page' | 'box' | 'reason'>> => {
+    if (redaction.box || redaction.textStart === null || redaction.textEnd === null) return [redaction];
+    const placed = text ? spanBoxes(text, geometry, { start: redaction.textStart, end: redaction.textEnd }) : null;
+    if (!placed) {
+      throw new Error(
+        `Text redaction at characters ${redaction.textStart}-${redaction.textEnd} could not be placed on the page; ` +
+          'draw a box over it before producing this document'
+      );
+    }
+    return placed.map(({ page, box }) => ({ page, box, reason: redaction.reason }));
+  });
+
+export const REDACTED_TEXT = '[REDACTED]';
+
+/** Replace redacted spans of `text`; overlapping and adjacent spans collapse into one marker. */
+export const redactText = (text: string, spans: { start: number; end: number }[]): string => {
+  const merged: { start: number; end: number }[] = [];
+  spans
+    .map(s => ({ start: Math.max(0, s.start), end: Math.min(text.length, s.end) }))
+    .filter(s => s.end > s.start)
+    .sort((a, b) => a.start - b.start)
+    .forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+      else merged.push(span);
+    });
+
+  let result = '';
+  let cursor = 0;
+  merged.forEach(span => {
+    result += text.slice(cursor, span.start) + REDACTED_TEXT;
+    cursor = span.end;
+  });
+  return result + text.slice(cursor);
+};
+
+/** Redactions that are applied to produced output. */
+export const appliedRedactions = <T extends Pick<Redaction, 'status'>>(redactions: T[]): T[] =>
+  redactions.filter(r => r.status === 'accepted');
+
+export const textSpansOf = (redactions: Pick<Redaction, 'textStart' | 'textEnd'>[]) =>
+  redactions
+    .filter(r => r.textStart !== null && r.textEnd !== null)
+    .map(r => ({ start: r.textStart!, end: r.textEnd! }));
+
+export interface RedactionLogEntry {
+  begBates: string;
+  endBates: string;
+  fileName: string;
+  page: number | null;
+  reason: RedactionReason;
+  count: number;
+}
+
+const REDACTION_LOG_COLUMNS = ['Beg Bates', 'End Bates', 'File Name', 'Page', 'Reason Code', 'Reason', 'Redactions'];
+
+/** One row per document, page and reason, in the order given. */
+export const buildRedactionLogEntries = (
+  documents: { begBates: string; endBates: string; fileName: string; redactions: Pick<Redaction, 'page' | 'reason'>[] }[]
+): RedactionLogEntry[] =>
+  documents.flatMap(doc => {
+    const rows = new Map<string, RedactionLogEntry>();
+    doc.redactions.forEach(r => {
+      const key = `${r.page ?? ''}:${r.reason}`;
+      const row = rows.get(key) ?? { begBates: doc.begBates, endBates: doc.endBates, fileName: doc.fileName, page: r.page, reason: r.reason, count: 0 };
+      row.count += 1;
+      rows.set(key, row);
+    });
+    return Array.from(rows.values()).sort((a, b) => (a.page ?? 0) - (b.page ?? 0) || a.reason.localeCompare(b.reason));
+  });
+
+const logRow = (entry: RedactionLogEntry) => [
+  entry.begBates,
+  entry.endBates,
+  entry.fileName,
+  entry.page,
+  REDACTION_REASONS[entry.reason].code,
+  REDACTION_REASONS[entry.reason].label,
+  entry.count,
+];
+
+export type RedactionLogFormat = 'csv' | 'xlsx';
+
+export const REDACTION_LOG_CONTENT_TYPES: Record<RedactionLogFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_MIME_TYPE,
+};
+
+export const buildRedactionLogCsv = (entries: RedactionLogEntry[]): string =>
+  [REDACTION_LOG_COLUMNS.join(','), ...entries.map(entry => logRow(entry).map(csvEscape).join(','))].join('\n') + '\n';
+
+export async function buildRedactionLog(
+  entries: RedactionLogEntry[],
+  format: RedactionLogFormat,
+  title = 'Redaction Log'
+): Promise<Uint8Array> {
+  if (format === 'xlsx') return buildXlsx({ title, columns: REDACTION_LOG_COLUMNS, rows: entries.map(logRow) });
+  return new TextEncoder().encode(buildRedactionLogCsv(entries));
+}
+
+const insideBox = (word: RedactionBox, box: RedactionBox) => {
+  const cx = word.x + word.width / 2;
+  const cy = word.y + word.height / 2;
+  return cx >= box.x && cx <= box.x + box.width && cy >= box.y && cy <= box.y + box.height;
+};
+
+/**
+ * Page text rebuilt from word geometry with every word under a redaction box
+ * replaced. Used for the produced text of documents redacted by box alone,
+ * where there is no span of the extracted text to remove.
+ */
+export const redactPageText = (geometry: PageGeometry[], redactions: Pick<Redaction, 'page' | 'box'>[]): string =>
+  geometry
+    .map(page => {
+      const boxes = redactions.filter(r => r.page === page.pageNumber && r.box).map(r => r.box!);
+      let text = '';
+      let previous: GeometryWord | null = null;
+      let wasRedacted = false;
+      page.words.forEach(word => {
+        const redacted = boxes.some(box => insideBox(word, box));
+        if (redacted && wasRedacted) return;
+        if (previous) text += Math.abs(word.y - previous.y) > previous.height / 2 ? '\n' : ' ';
+        text += redacted ? REDACTED_TEXT : word.text;
+        previous = word;
+        wasRedacted = redacted;
+      });
+      return text;
+    })
+    .join('\n\n');
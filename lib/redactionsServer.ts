@@ -0,0 +1,267 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { parseBatesLabel } from './bates';
+import { buildRedactionLogEntries, isRedactionReason, suggestRedactions, type RedactionDraft, type RedactionLogEntry } from './redactions';
+import type { PageGeometry, Redaction, RedactionBox, RedactionStatus } from './types';
+
+type RedactionRow = Database['public']['Tables']['redactions']['Row'];
+type RedactionInsert = Database['public']['Tables']['redactions']['Insert'];
+
+const REDACTION_STATUSES: RedactionStatus[] = ['suggested', 'accepted', 'rejected'];
+
+export const isRedactionStatus = (value: unknown): value is RedactionStatus =>
+  typeof value === 'string' && (REDACTION_STATUSES as string[]).includes(value);
+
+export const toRedaction = (row: RedactionRow): Redaction => ({
+  id: row.id,
+  documentId: row.document_id,
+  page: row.page,
+  box: row.x !== null && row.y !== null && row.width !== null && row.height !== null
+    ? { x: row.x, y: row.y, width: row.width, height: row.height }
+    : null,
+  textStart: row.text_start,
+  textEnd: row.text_end,
+  reason: isRedactionReason(row.reason_code) ? row.reason_code : 'other',
+  source: row.source === 'suggested' ? 'suggested' : 'manual',
+  status: isRedactionStatus(row.status) ? row.status : 'suggested',
+  createdAt: row.created_at,
+});
+
+const boxColumns = (box: RedactionBox | null) => ({
+  x: box?.x ?? null,
+  y: box?.y ?? null,
+  width: box?.width ?? null,
+  height: box?.height ?? null,
+});
+
+const toInsert = (
+  projectId: string,
+  documentId: string,
+  draft: RedactionDraft,
+  source: Redaction['source'],
+  status: RedactionStatus
+): RedactionInsert => ({
+  project_id: projectId,
+  document_id: documentId,
+  page: draft.page,
+  ...boxColumns(draft.box),
+  text_start: draft.textStart,
+  text_end: draft.textEnd,
+  reason_code: draft.reason,
+  source,
+  status,
+});
+
+/** Stored page geometry, tolerating rows written before it existed. */
+export const parsePageGeometry = (value: Json | null): PageGeometry[] =>
+  Array.isArray(value) ? (value as unknown as PageGeometry[]).filter(page => Array.isArray(page?.words)) : [];
+
+export async function listRedactions(supabase: SupabaseClient<Database>, documentId: string): Promise<Redaction[]> {
+  const { data, error } = await supabase
+    .from('redactions')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('page', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(toRedaction);
+}
+
+/** Reviewer-drawn redactions apply immediately; there is nothing to accept. */
+export async function createRedaction(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; project_id: string },
+  draft: RedactionDraft
+): Promise<Redaction> {
+  const { data, error } = await supabase
+    .from('redactions')
+    .insert(toInsert(document.project_id, document.id, draft, 'manual', 'accepted'))
+    .select('*')
+    .single();
+  if (error) throw error;
+  return toRedaction(data);
+}
+
+export async function updateRedaction(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  redactionId: string,
+  patch: Partial<Pick<Redaction, 'status' | 'reason' | 'box'>>
+): Promise<Redaction | null> {
+  const { data, error } = await supabase
+    .from('redactions')
+    .update({
+      ...(patch.status ? { status: patch.status } : {}),
+      ...(patch.reason ? { reason_code: patch.reason } : {}),
+      ...(patch.box ? boxColumns(patch.box) : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', redactionId)
+    .eq('document_id', documentId)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toRedaction(data) : null;
+}
+
+export async function deleteRedaction(supabase: SupabaseClient<Database>, documentId: string, redactionId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('redactions')
+    .delete()
+    .eq('id', redactionId)
+    .eq('document_id', documentId)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+const draftKey = (draft: Pick<Redaction, 'page' | 'box' | 'textStart' | 'textEnd' | 'reason'>) =>
+  [draft.reason, draft.page, draft.textStart, draft.textEnd, draft.box && [draft.box.x, draft.box.y].map(n => n.toFixed(3)).join(',')].join('|');
+
+/**
+ * Re-run PII detection for a document. Pending suggestions are replaced;
+ * suggestions a reviewer already accepted or rejected are not offered again.
+ * Returns the number of new suggestions.
+ */
+export async function refreshRedactionSuggestions(supabase: SupabaseClient<Database>, documentId: string): Promise<number> {
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('id, project_id, extracted_text, page_geometry')
+    .eq('id', documentId)
+    .single();
+  if (docError || !document) throw new Error(`Document not found: ${documentId}`);
+  if (!document.project_id) return 0;
+
+  const { error: deleteError } = await supabase
+    .from('redactions')
+    .delete()
+    .eq('document_id', documentId)
+    .eq('status', 'suggested');
+  if (deleteError) throw deleteError;
+
+  const { data: reviewed, error: reviewedError } = await supabase
+    .from('redactions')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('source', 'suggested');
+  if (reviewedError) throw reviewedError;
+  const seen = new Set((reviewed || []).map(row => draftKey(toRedaction(row))));
+
+  const drafts = suggestRedactions(document.extracted_text || '', parsePageGeometry(document.page_geometry))
+    .filter(draft => !seen.has(draftKey(draft)));
+  if (drafts.length === 0) return 0;
+
+  const { error: insertError } = await supabase
+    .from('redactions')
+    .insert(drafts.map(draft => toInsert(document.project_id!, documentId, draft, 'suggested', 'suggested')));
+  if (insertError) throw insertError;
+  return drafts.length;
+}
+
+const ID_BATCH_SIZE = 200;
+
+/** Accepted redactions for each document, keyed by document id. */
+export async function loadAcceptedRedactions(
+  supabase: SupabaseClient<Database>,
+  documentIds: string[]
+): Promise<Map<string, Redaction[]>> {
+  const byDocument = new Map<string, Redaction[]>();
+  for (let i = 0; i < documentIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('redactions')
+      .select('*')
+      .in('document_id', documentIds.slice(i, i + ID_BATCH_SIZE))
+      .eq('status', 'accepted');
+    if (error) throw error;
+    (data || []).map(toRedaction).forEach(redaction => {
+      byDocument.set(redaction.documentId, [...(byDocument.get(redaction.documentId) || []), redaction]);
+    });
+  }
+  return byDocument;
+}
+
+/** Redaction log rows for every Bates-numbered document with accepted redactions, in Bates order. */
+export async function loadRedactionLogEntries(supabase: SupabaseClient<Database>, projectId: string): Promise<RedactionLogEntry[]> {
+  const { data: rows, error } = await supabase
+    .from('redactions')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('status', 'accepted');
+  if (error) throw error;
+
+  const redactions = (rows || []).map(toRedaction);
+  const documentIds = Array.from(new Set(redactions.map(r => r.documentId)));
+  if (documentIds.length === 0) return [];
+
+  const documents: { id: string; name: string; bates_formatted: string | null; bates_end_formatted: string | null }[] = [];
+  for (let i = 0; i < documentIds.length; i += ID_BATCH_SIZE) {
+    const { data, error: docError } = await supabase
+      .from('documents')
+      .select('id, name, bates_formatted, bates_end_formatted')
+      .in('id', documentIds.slice(i, i + ID_BATCH_SIZE));
+    if (docError) throw docError;
+    documents.push(...(data || []));
+  }
+
+  const sortKey = (bates: string) => {
+    const label = parseBatesLabel(bates);
+    return label ? [label.prefix, label.number] as const : [bates, 0] as const;
+  };
+
+  return buildRedactionLogEntries(
+    documents
+      .filter((doc): doc is typeof doc & { bates_formatted: string } => Boolean(doc.bates_formatted))
+      .sort((a, b) => {
+        const [prefixA, numberA] = sortKey(a.bates_formatted);
+        const [prefixB, numberB] = sortKey(b.bates_formatted);
+        return prefixA.localeCompare(prefixB) || numberA - numberB;
+      })
+      .map(doc => ({
+        begBates: doc.bates_formatted,
+        endBates: doc.bates_end_formatted || doc.bates_formatted,
+        fileName: doc.name,
+        redactions: redactions.filter(r => r.documentId === doc.id),
+      }))
+  );
+}
+
+export interface RedactableDocument {
+  id: string;
+  project_id: string | null;
+  name: string;
+  mime_type: string;
+  extracted_text: string | null;
+  bates_formatted: string | null;
+  page_geometry: PageGeometry[];
+  content: Uint8Array;
+}
+
+/** A document and its stored file, for rendering pages and redacted copies. Null when either is missing. */
+export async function loadRedactableDocument(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<RedactableDocument | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, project_id, name, mime_type, extracted_text, bates_formatted, storage_path, page_geometry')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document?.storage_path) return null;
+
+  const { data: blob, error: storageError } = await supabase.storage.from('discovery-files').download(document.storage_path);
+  if (storageError || !blob) {
+    throw new Error(`Failed to download ${document.storage_path}: ${storageError?.message || 'empty file'}`);
+  }
+
+  return {
+    id: document.id,
+    project_id: document.project_id,
+    name: document.name,
+    mime_type: document.mime_type || blob.type || 'application/octet-stream',
+    extracted_text: document.extracted_text,
+    bates_formatted: document.bates_formatted,
+    page_geometry: parsePageGeometry(document.page_geometry),
+    content: new Uint8Array(await blob.arrayBuffer()),
+  };
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import type { RetrievedPassage } from './types';
+import { getEmbeddingProvider, toPgVector } from './embeddings';
+import { formatPageLineRange, pageLinesForRange, parseStoredDeposition } from './deposition';
+
+const DEFAULT_TOP_K = 8;
+const MAX_PASSAGE_CHARS = 4000;
+
+/**
+ * Citation label for a retrieved passage, e.g. "DEF-0007 ¶3" for the third chunk
+ * of DEF-0007, or "DEF-0007 45:12-46:3" for testimony from a transcript. The
+ * chat UI renders these as Bates badges.
+ */
+export const formatPassageCitation = (passage: Pick<RetrievedPassage, 'batesNumber' | 'chunkIndex' | 'pageLines'>): string =>
+  passage.pageLines ? `${passage.batesNumber} ${passage.pageLines}` : `${passage.batesNumber} ¶${passage.chunkIndex + 1}`;
+
+// Labels passages from deposition transcripts with the page:line span they cover
+async function addPageLines(supabase: SupabaseClient<Database>, passages: RetrievedPassage[]): Promise<RetrievedPassage[]> {
+  const ids = Array.from(new Set(passages.filter(p => p.charStart !== null && p.charEnd !== null).map(p => p.documentId)));
+  if (ids.length === 0) return passages;
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, deposition')
+    .in('id', ids)
+    .not('deposition', 'is', null);
+  if (error) {
+    throw new Error(`Failed to load transcript line numbers: ${error.message}`);
+  }
+
+  const transcripts = new Map((data || []).map(row => [row.id, parseStoredDeposition(row.deposition)]));
+  return passages.map(passage => {
+    const transcript = transcripts.get(passage.documentId);
+    if (!transcript || passage.charStart === null || passage.charEnd === null) return passage;
+    const span = pageLinesForRange(transcript, passage.charStart, passage.charEnd);
+    return span ? { ...passage, pageLines: formatPageLineRange(span.start, span.end) } : passage;
+  });
+}
+
+export async function retrieveRelevantPassages(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  query: string,
+  topK: number = DEFAULT_TOP_K
+): Promise<RetrievedPassage[]> {
+  const provider = getEmbeddingProvider();
+  const [queryVector] = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    p_project_id: projectId,
+    p_query_embedding: toPgVector(queryVector),
+    p_model: provider.model,
+    p_match_count: topK,
+  });
+
+  if (error) {
+    throw new Error(`Passage retrieval failed: ${error.message}`);
+  }
+
+  const passages = (data || []).map(row => ({
+    documentId: row.document_id,
+    batesNumber: row.bates_formatted || 'UNKNOWN',
+    name: row.name,
+    chunkIndex: row.chunk_index,
+    charStart: row.char_start,
+    charEnd: row.char_end,
+    text: row.content,
+    similarity: row.similarity,
+  }));
+  return addPageLines(supabase, passages);
+}
+
+/**
+ * Render retrieved passages as a prompt section. Each passage is headed by its
+ * citation label and character offsets so the model can cite it precisely.
+ */
+export const buildPassageContext = (passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) return '';
+
+  const sections = passages.map(p => {
+    const offsets = p.charStart !== null && p.charEnd !== null ? `, chars ${p.charStart}-${p.charEnd}` : '';
+    const text = p.text.length > MAX_PASSAGE_CHARS ? `${p.text.slice(0, MAX_PASSAGE_CHARS)}…` : p.text;
+    return `--- [${formatPassageCitation(p)}] (${p.name}${offsets}) ---\n${text}`;
+  });
+
+  return `RELEVANT PASSAGES (retrieved from the full text of the discovery files):\n\n${sections.join('\n\n')}`;
+};
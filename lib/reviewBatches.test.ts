@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkoutConflict,
+  chunkIntoBatches,
+  codingConflict,
+  compareBates,
+  documentCustodian,
+  inBatesRange,
+  parseBatchCriteria,
+} from './reviewBatches';
+
+describe('parseBatchCriteria', () => {
+  it('accepts Bates ranges, custodians and searches', () => {
+    expect(parseBatchCriteria({ type: 'bates', from: ' DEF-0001 ', to: 'DEF-0100' })).toEqual({ type: 'bates', from: 'DEF-0001', to: 'DEF-0100' });
+    expect(parseBatchCriteria({ type: 'custodian', custodian: 'Smith, Jane' })).toEqual({ type: 'custodian', custodian: 'Smith, Jane' });
+    expect(parseBatchCriteria({ type: 'search', query: 'indemnify' })).toEqual({ type: 'search', query: 'indemnify' });
+  });
+
+  it('rejects reversed, mixed-prefix and malformed ranges', () => {
+    expect(parseBatchCriteria({ type: 'bates', from: 'DEF-0100', to: 'DEF-0001' })).toEqual({ error: 'The Bates range ends before it starts' });
+    expect(parseBatchCriteria({ type: 'bates', from: 'DEF-0001', to: 'PLTF-0100' })).toHaveProperty('error');
+    expect(parseBatchCriteria({ type: 'bates', from: 'first', to: 'last' })).toHaveProperty('error');
+    expect(parseBatchCriteria({ type: 'everything' })).toHaveProperty('error');
+  });
+});
+
+describe('batch selection', () => {
+  it('matches documents whose first number is in range', () => {
+    expect(inBatesRange('DEF-0050', 'DEF-0001', 'DEF-0050')).toBe(true);
+    expect(inBatesRange('DEF-0051', 'DEF-0001', 'DEF-0050')).toBe(false);
+    expect(inBatesRange('PLTF-0010', 'DEF-0001', 'DEF-0050')).toBe(false);
+    expect(inBatesRange(null, 'DEF-0001', 'DEF-0050')).toBe(false);
+  });
+
+  it('sorts numerically with unnumbered documents last', () => {
+    expect(['DEF-0010', null, 'DEF-0009', 'DEF-0100'].sort(compareBates)).toEqual(['DEF-0009', 'DEF-0010', 'DEF-0100', null]);
+  });
+
+  it('reads custodians from metadata and load-file fields', () => {
+    expect(documentCustodian({ custodian: 'Jones' })).toBe('Jones');
+    expect(documentCustodian({ loadFile: { CUSTODIAN: 'Smith, Jane' } })).toBe('Smith, Jane');
+    expect(documentCustodian({ loadFile: { Author: 'Smith' } })).toBeNull();
+  });
+
+  it('prefers the custodian a document was collected from', () => {
+    expect(documentCustodian({ loadFile: { CUSTODIAN: 'Smith, Jane' } }, 'Jane Smith')).toBe('Jane Smith');
+    expect(documentCustodian(null, 'Shared Drive')).toBe('Shared Drive');
+  });
+
+  it('splits documents into batches of N', () => {
+    expect(chunkIntoBatches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
+
+describe('checkout', () => {
+  it('lets only the assignee check out an assigned batch', () => {
+    expect(checkoutConflict({ assignee: 'Ann', checkedOutBy: null }, 'ann')).toBeNull();
+    expect(checkoutConflict({ assignee: 'Ann', checkedOutBy: null }, 'Bob')).toBe('Assigned to Ann');
+    expect(checkoutConflict({ assignee: null, checkedOutBy: 'Ann' }, 'Bob')).toBe('Checked out by Ann');
+  });
+
+  it('blocks coding by anyone but the reviewer holding the batch', () => {
+    const batch = { name: 'Batch 2', assignee: null, checkedOutBy: 'Ann' };
+    expect(codingConflict(batch, 'Ann')).toBeNull();
+    expect(codingConflict(batch, null)).toBe('Batch 2 is checked out by Ann');
+    expect(codingConflict({ ...batch, checkedOutBy: null }, 'Bob')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { parseBatesLabel } from './bates';
+import { loadFileCustodian } from './custodians';
+import type { Json } from './database.types';
+import type { ReviewBatch, ReviewBatchCriteria, ReviewBatchStatus } from './types';
+
+export const DEFAULT_BATCH_SIZE = 50;
+export const MAX_BATCH_SIZE = 1000;
+
+/** Reviewers are identified by their sign-in email; assignees typed by hand are compared case-insensitively. */
+export const normalizeReviewer = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : null;
+
+const sameReviewer = (a: string | null, b: string | null) =>
+  a !== null && b !== null && a.toLowerCase() === b.toLowerCase();
+
+export const parseBatchCriteria = (value: unknown): ReviewBatchCriteria | { error: string } => {
+  if (!value || typeof value !== 'object') return { error: 'criteria must be an object' };
+  const criteria = value as Record<string, unknown>;
+
+  switch (criteria.type) {
+    case 'bates': {
+      const from = typeof criteria.from === 'string' ? parseBatesLabel(criteria.from.trim()) : null;
+      const to = typeof criteria.to === 'string' ? parseBatesLabel(criteria.to.trim()) : null;
+      if (!from || !to) return { error: 'A Bates range needs from and to labels such as DEF-0001' };
+      if (from.prefix !== to.prefix) return { error: 'Both ends of a Bates range must share a prefix' };
+      if (from.number > to.number) return { error: 'The Bates range ends before it starts' };
+      return { type: 'bates', from: (criteria.from as string).trim(), to: (criteria.to as string).trim() };
+    }
+    case 'custodian':
+      return typeof criteria.custodian === 'string' && criteria.custodian.trim()
+        ? { type: 'custodian', custodian: criteria.custodian.trim() }
+        : { error: 'A custodian is required' };
+    case 'search':
+      return typeof criteria.query === 'string' && criteria.query.trim().length >= 3
+        ? { type: 'search', query: criteria.query.trim() }
+        : { error: 'A search needs at least three characters' };
+    default:
+      return { error: 'criteria.type must be bates, custodian or search' };
+  }
+};
+
+export const describeBatchCriteria = (criteria: ReviewBatchCriteria): string => {
+  switch (criteria.type) {
+    case 'bates':
+      return `${criteria.from} – ${criteria.to}`;
+    case 'custodian':
+      return `Custodian: ${criteria.custodian}`;
+    case 'search':
+      return `Search: "${criteria.query}"`;
+  }
+};
+
+/** Whether a document's first Bates number falls inside an inclusive range. */
+export const inBatesRange = (batesFormatted: string | null, from: string, to: string): boolean => {
+  const label = batesFormatted ? parseBatesLabel(batesFormatted) : null;
+  const start = parseBatesLabel(from);
+  const end = parseBatesLabel(to);
+  if (!label || !start || !end) return false;
+  return label.prefix === start.prefix && label.number >= start.number && label.number <= end.number;
+};
+
+/** Bates order, with unnumbered documents last. */
+export const compareBates = (a: string | null, b: string | null): number => {
+  const labelA = a ? parseBatesLabel(a) : null;
+  const labelB = b ? parseBatesLabel(b) : null;
+  if (!labelA || !labelB) return (labelA ? 0 : 1) - (labelB ? 0 : 1) || (a || '').localeCompare(b || '');
+  return labelA.prefix.localeCompare(labelB.prefix) || labelA.number - labelB.number;
+};
+
+/**
+ * The custodian recorded for a document, if any: the custodian it was
+ * collected from, else a name kept in its metadata (load-file imports made
+ * before custodians were tracked carry it as a CUSTODIAN field).
+ */
+export const documentCustodian = (metadata: Json | null, custodianName?: string | null): string | null => {
+  if (custodianName) return custodianName;
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+  if (typeof metadata.custodian === 'string' && metadata.custodian.trim()) return metadata.custodian.trim();
+  const fields = metadata.loadFile;
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) return null;
+  return loadFileCustodian(fields);
+};
+
+export const chunkIntoBatches = <T>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+};
+
+export const batchStatus = (batch: { checkedOutBy: string | null; completedAt: string | null }): ReviewBatchStatus =>
+  batch.checkedOutBy ? 'checked_out' : batch.completedAt ? 'complete' : 'open';
+
+type CheckoutState = Pick<ReviewBatch, 'assignee' | 'checkedOutBy'>;
+
+/** Why `reviewer` may not check the batch out, or null when they may. */
+export const checkoutConflict = (batch: CheckoutState, reviewer: string): string | null => {
+  if (batch.checkedOutBy && !sameReviewer(batch.checkedOutBy, reviewer)) {
+    return `Checked out by ${batch.checkedOutBy}`;
+  }
+  if (batch.assignee && !sameReviewer(batch.assignee, reviewer)) {
+    return `Assigned to ${batch.assignee}`;
+  }
+  return null;
+};
+
+/** Why `reviewer` may not code a document in the batch, or null when they may. */
+export const codingConflict = (batch: CheckoutState & Pick<ReviewBatch, 'name'>, reviewer: string | null): string | null =>
+  batch.checkedOutBy && !sameReviewer(batch.checkedOutBy, reviewer)
+    ? `${batch.name} is checked out by ${batch.checkedOutBy}`
+    : null;
+
+export const isCheckedOutBy = (batch: Pick<ReviewBatch, 'checkedOutBy'>, reviewer: string | null): boolean =>
+  sameReviewer(batch.checkedOutBy, reviewer);
@@ -0,0 +1,350 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { readCodingValues } from './coding';
+import { loadCustodianNames } from './custodiansServer';
+import {
+  batchStatus,
+  checkoutConflict,
+  chunkIntoBatches,
+  codingConflict,
+  compareBates,
+  documentCustodian,
+  inBatesRange,
+  isCheckedOutBy,
+  parseBatchCriteria,
+} from './reviewBatches';
+import type { ReviewBatch, ReviewBatchCriteria, ReviewBatchDocument } from './types';
+
+type BatchRow = Database['public']['Tables']['review_batches']['Row'];
+
+const ID_BATCH_SIZE = 200;
+// Full-text criteria batch at most this many of the best-ranked documents.
+const SEARCH_LIMIT = 1000;
+
+const toReviewBatch = (row: BatchRow, documentCount: number, codedCount: number): ReviewBatch => {
+  const criteria = parseBatchCriteria(row.criteria);
+  const batch = {
+    id: row.id,
+    name: row.name,
+    criteria: 'error' in criteria ? { type: 'search' as const, query: '' } : criteria,
+    assignee: row.assignee,
+    checkedOutBy: row.checked_out_by,
+    checkedOutAt: row.checked_out_at,
+    completedAt: row.completed_at,
+    documentCount,
+    codedCount,
+    createdAt: row.created_at,
+  };
+  return { ...batch, status: batchStatus(batch) };
+};
+
+async function loadCodedBy(
+  supabase: SupabaseClient<Database>,
+  documentIds: string[]
+): Promise<Map<string, string | null>> {
+  const coded = new Map<string, string | null>();
+  for (let i = 0; i < documentIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('document_codings')
+      .select('document_id, values, coded_by')
+      .in('document_id', documentIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw error;
+    (data || []).forEach(row => {
+      // A coding whose every field was cleared again counts as uncoded.
+      if (Object.keys(readCodingValues(row.values)).length > 0) coded.set(row.document_id, row.coded_by);
+    });
+  }
+  return coded;
+}
+
+async function loadBatchMembers(
+  supabase: SupabaseClient<Database>,
+  batchIds: string[]
+): Promise<{ batch_id: string; document_id: string; position: number }[]> {
+  const members: { batch_id: string; document_id: string; position: number }[] = [];
+  for (let i = 0; i < batchIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('review_batch_documents')
+      .select('batch_id, document_id, position')
+      .in('batch_id', batchIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw error;
+    members.push(...(data || []));
+  }
+  return members;
+}
+
+async function summarizeBatches(supabase: SupabaseClient<Database>, rows: BatchRow[]): Promise<ReviewBatch[]> {
+  const members = await loadBatchMembers(supabase, rows.map(row => row.id));
+  const coded = await loadCodedBy(supabase, members.map(m => m.document_id));
+  return rows.map(row => {
+    const documents = members.filter(m => m.batch_id === row.id);
+    return toReviewBatch(row, documents.length, documents.filter(m => coded.has(m.document_id)).length);
+  });
+}
+
+async function loadBatchRow(supabase: SupabaseClient<Database>, projectId: string, batchId: string): Promise<BatchRow | null> {
+  const { data, error } = await supabase
+    .from('review_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function listReviewBatches(supabase: SupabaseClient<Database>, projectId: string): Promise<ReviewBatch[]> {
+  const { data, error } = await supabase
+    .from('review_batches')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return summarizeBatches(supabase, data || []);
+}
+
+async function getReviewBatchSummary(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batchId: string
+): Promise<ReviewBatch | null> {
+  const row = await loadBatchRow(supabase, projectId, batchId);
+  return row ? (await summarizeBatches(supabase, [row]))[0] : null;
+}
+
+/** A batch and its documents in review order. */
+export async function getReviewBatch(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batchId: string
+): Promise<{ batch: ReviewBatch; documents: ReviewBatchDocument[] } | null> {
+  const row = await loadBatchRow(supabase, projectId, batchId);
+  if (!row) return null;
+
+  const members = (await loadBatchMembers(supabase, [row.id])).sort((a, b) => a.position - b.position);
+  const ids = members.map(m => m.document_id);
+  const coded = await loadCodedBy(supabase, ids);
+
+  const details = new Map<string, { name: string; bates_formatted: string | null }>();
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, name, bates_formatted')
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw error;
+    (data || []).forEach(doc => details.set(doc.id, doc));
+  }
+
+  return {
+    batch: toReviewBatch(row, members.length, members.filter(m => coded.has(m.document_id)).length),
+    documents: members.map(member => ({
+      documentId: member.document_id,
+      position: member.position,
+      name: details.get(member.document_id)?.name ?? 'Unknown document',
+      batesFormatted: details.get(member.document_id)?.bates_formatted ?? null,
+      coded: coded.has(member.document_id),
+      codedBy: coded.get(member.document_id) ?? null,
+    })),
+  };
+}
+
+/**
+ * Documents matching `criteria` that are not already in a batch, in Bates
+ * order. Suppressed duplicate copies are left out; their master is reviewed.
+ */
+async function findBatchCandidates(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  criteria: ReviewBatchCriteria
+): Promise<string[]> {
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('id, bates_formatted, metadata, analysis_suppressed, custodian_id')
+    .eq('project_id', projectId);
+  if (error) throw error;
+
+  let matching = (documents || []).filter(doc => !doc.analysis_suppressed);
+  if (criteria.type === 'bates') {
+    matching = matching.filter(doc => inBatesRange(doc.bates_formatted, criteria.from, criteria.to));
+  } else if (criteria.type === 'custodian') {
+    const wanted = criteria.custodian.toLowerCase();
+    const names = await loadCustodianNames(supabase, projectId);
+    matching = matching.filter(
+      doc => documentCustodian(doc.metadata, doc.custodian_id ? names.get(doc.custodian_id) : null)?.toLowerCase() === wanted
+    );
+  } else {
+    const { data: hits, error: searchError } = await supabase.rpc('search_document_chunks', {
+      p_project_id: projectId,
+      p_query: criteria.query,
+      p_limit: SEARCH_LIMIT,
+    });
+    if (searchError) throw new Error(`Search query failed: ${searchError.message}`);
+    const hitIds = new Set((hits || []).map(hit => hit.document_id));
+    matching = matching.filter(doc => hitIds.has(doc.id));
+  }
+
+  const { data: batches, error: batchError } = await supabase
+    .from('review_batches')
+    .select('id')
+    .eq('project_id', projectId);
+  if (batchError) throw batchError;
+  const batched = new Set((await loadBatchMembers(supabase, (batches || []).map(b => b.id))).map(m => m.document_id));
+
+  return matching
+    .filter(doc => !batched.has(doc.id))
+    .sort((a, b) => compareBates(a.bates_formatted, b.bates_formatted))
+    .map(doc => doc.id);
+}
+
+/**
+ * Split the unbatched documents matching `criteria` into batches of
+ * `batchSize`, named "<name> 1", "<name> 2", ... Returns the new batches.
+ */
+export async function createReviewBatches(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  options: { criteria: ReviewBatchCriteria; batchSize: number; name: string; assignee: string | null }
+): Promise<ReviewBatch[]> {
+  const candidates = await findBatchCandidates(supabase, projectId, options.criteria);
+  const groups = chunkIntoBatches(candidates, options.batchSize);
+  if (groups.length === 0) return [];
+
+  const names = groups.map((_, index) => (groups.length === 1 ? options.name : `${options.name} ${index + 1}`));
+  const { data: rows, error } = await supabase
+    .from('review_batches')
+    .insert(names.map(name => ({
+      project_id: projectId,
+      name,
+      criteria: options.criteria as unknown as Json,
+      assignee: options.assignee,
+    })))
+    .select('*');
+  if (error) throw error;
+
+  const created = names.map(name => (rows || []).find(row => row.name === name)!);
+  const { error: memberError } = await supabase
+    .from('review_batch_documents')
+    .insert(created.flatMap((row, index) =>
+      groups[index].map((documentId, position) => ({ batch_id: row.id, document_id: documentId, position }))
+    ));
+  if (memberError) {
+    // Leave no empty batches behind when another request batched the same documents first.
+    await supabase.from('review_batches').delete().in('id', created.map(row => row.id));
+    throw memberError;
+  }
+
+  return created.map((row, index) => toReviewBatch(row, groups[index].length, 0));
+}
+
+export async function assignReviewBatch(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batchId: string,
+  assignee: string | null
+): Promise<ReviewBatch | null> {
+  const { data, error } = await supabase
+    .from('review_batches')
+    .update({ assignee, updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .eq('project_id', projectId)
+    .select('id');
+  if (error) throw error;
+  return data && data.length > 0 ? getReviewBatchSummary(supabase, projectId, batchId) : null;
+}
+
+/** Delete a batch; its documents become available for new batches. Coding is kept. */
+export async function deleteReviewBatch(supabase: SupabaseClient<Database>, projectId: string, batchId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('review_batches')
+    .delete()
+    .eq('id', batchId)
+    .eq('project_id', projectId)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+type CheckoutResult = { batch: ReviewBatch } | { conflict: string } | null;
+
+export async function checkOutReviewBatch(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batchId: string,
+  reviewer: string
+): Promise<CheckoutResult> {
+  const row = await loadBatchRow(supabase, projectId, batchId);
+  if (!row) return null;
+  const conflict = checkoutConflict({ assignee: row.assignee, checkedOutBy: row.checked_out_by }, reviewer);
+  if (conflict) return { conflict };
+
+  if (!row.checked_out_by) {
+    // Only claim a batch nobody holds, so two reviewers racing for it cannot both win.
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('review_batches')
+      .update({ checked_out_by: reviewer, checked_out_at: now, completed_at: null, updated_at: now })
+      .eq('id', batchId)
+      .is('checked_out_by', null)
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      const current = await loadBatchRow(supabase, projectId, batchId);
+      if (!current) return null;
+      if (!isCheckedOutBy({ checkedOutBy: current.checked_out_by }, reviewer)) {
+        return { conflict: `Checked out by ${current.checked_out_by}` };
+      }
+    }
+  }
+
+  const batch = await getReviewBatchSummary(supabase, projectId, batchId);
+  return batch ? { batch } : null;
+}
+
+/** Release a batch. `complete` marks it finished; otherwise it goes back to open. */
+export async function checkInReviewBatch(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  batchId: string,
+  reviewer: string,
+  complete: boolean
+): Promise<CheckoutResult> {
+  const row = await loadBatchRow(supabase, projectId, batchId);
+  if (!row) return null;
+  if (!isCheckedOutBy({ checkedOutBy: row.checked_out_by }, reviewer)) {
+    return { conflict: row.checked_out_by ? `Checked out by ${row.checked_out_by}` : 'The batch is not checked out' };
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('review_batches')
+    .update({ checked_out_by: null, checked_out_at: null, completed_at: complete ? now : null, updated_at: now })
+    .eq('id', batchId);
+  if (error) throw error;
+
+  const batch = await getReviewBatchSummary(supabase, projectId, batchId);
+  return batch ? { batch } : null;
+}
+
+/** Why `reviewer` may not code the document because another reviewer holds its batch, or null. */
+export async function findCodingConflict(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  reviewer: string | null
+): Promise<string | null> {
+  const { data: member, error } = await supabase
+    .from('review_batch_documents')
+    .select('batch_id')
+    .eq('document_id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!member) return null;
+
+  const { data: batch, error: batchError } = await supabase
+    .from('review_batches')
+    .select('name, assignee, checked_out_by')
+    .eq('id', member.batch_id)
+    .maybeSingle();
+  if (batchError) throw batchError;
+  return batch ? codingConflict({ name: batch.name, assignee: batch.assignee, checkedOutBy: batch.checked_out_by }, reviewer) : null;
+}
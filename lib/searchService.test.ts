@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet, findTermMatches, parseSearchTerms, toSearchHits } from './searchService';
+
+describe('searchService', () => {
+  describe('parseSearchTerms', () => {
+    it('keeps phrases and drops operators and exclusions', () => {
+      expect(parseSearchTerms('"traffic stop" officer or -dismissed Smith,')).toEqual([
+        'traffic stop',
+        'officer',
+        'Smith',
+      ]);
+    });
+
+    it('dedupes terms case-insensitively', () => {
+      expect(parseSearchTerms('Arrest arrest ARREST')).toEqual(['Arrest']);
+    });
+  });
+
+  describe('findTermMatches', () => {
+    it('matches word prefixes so stemmed hits highlight', () => {
+      const text = 'The suspect was arrested. Arrests followed.';
+      const matches = findTermMatches(text, ['arrest']);
+      expect(matches.map(m => text.slice(m.start, m.end))).toEqual(['arrested', 'Arrests']);
+    });
+
+    it('does not match inside other words', () => {
+      expect(findTermMatches('rearrest', ['arrest'])).toEqual([]);
+    });
+
+    it('matches phrases across irregular whitespace', () => {
+      const text = 'during the traffic\n stop on Main';
+      const [match] = findTermMatches(text, ['traffic stop']);
+      expect(text.slice(match.start, match.end)).toBe('traffic\n stop');
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('returns highlights relative to the snippet', () => {
+      const text = `${'lorem '.repeat(60)}needle ${'ipsum '.repeat(60)}`;
+      const matches = findTermMatches(text, ['needle']);
+      const { snippet, snippetStart, highlights } = buildSnippet(text, matches, 40);
+
+      expect(snippetStart).toBeGreaterThan(0);
+      expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('needle');
+      expect(snippet.length).toBeLessThan(text.length);
+    });
+  });
+
+  describe('toSearchHits', () => {
+    it('offsets matches by the chunk start', () => {
+      const [hit] = toSearchHits(
+        [
+          {
+            document_id: 'doc-1',
+            name: 'report.pdf',
+            bates_formatted: 'DEF-0003',
+            chunk_index: 2,
+            char_start: 16000,
+            char_end: 16040,
+            chunk_text: 'Officer Ramirez reported the vehicle.',
+            rank: 0.5,
+          },
+        ],
+        'ramirez'
+      );
+
+      expect(hit.batesNumber).toBe('DEF-0003');
+      expect(hit.chunkIndex).toBe(2);
+      expect(hit.matches).toEqual([{ start: 16008, end: 16015 }]);
+      expect(hit.snippet.slice(hit.highlights[0].start, hit.highlights[0].end)).toBe('Ramirez');
+    });
+  });
+});
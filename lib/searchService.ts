@@ -0,0 +1,130 @@
+import type { SearchHit, SearchHitMatch } from './types';
+
+export interface ChunkSearchRow {
+  document_id: string;
+  name: string;
+  bates_formatted: string | null;
+  chunk_index: number;
+  char_start: number | null;
+  char_end: number | null;
+  chunk_text: string;
+  rank: number;
+}
+
+const SNIPPET_RADIUS = 160;
+const MAX_MATCHES_PER_HIT = 25;
+const SEARCH_OPERATORS = new Set(['or', 'and', 'not']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a websearch-style query into the terms and quoted phrases worth highlighting.
+ * Excluded terms (prefixed with "-") and boolean operators are dropped.
+ */
+export const parseSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const excluded = match[1] === '-' || match[3] === '-';
+    const term = (match[2] ?? match[4] ?? '').trim();
+    if (excluded || !term) continue;
+    if (!match[2] && SEARCH_OPERATORS.has(term.toLowerCase())) continue;
+    const cleaned = match[2] ? term : term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    if (cleaned && !terms.some(t => t.toLowerCase() === cleaned.toLowerCase())) {
+      terms.push(cleaned);
+    }
+  }
+
+  return terms;
+};
+
+/**
+ * Locate every occurrence of the search terms in a block of text. Single words also
+ * match as prefixes so stemmed Postgres hits ("arrest" → "arrested") still highlight.
+ */
+export const findTermMatches = (text: string, terms: string[]): SearchHitMatch[] => {
+  if (!text || terms.length === 0) return [];
+
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => {
+      const escaped = escapeRegExp(term).replace(/\s+/g, '\\s+');
+      return term.includes(' ') ? escaped : `${escaped}[\\p{L}\\p{N}]*`;
+    });
+  const regex = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+
+  const matches: SearchHitMatch[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+};
+
+/**
+ * Cut a readable snippet around the first match. Returned highlight offsets are
+ * relative to the snippet so the UI can render them without further math.
+ */
+export const buildSnippet = (
+  text: string,
+  matches: SearchHitMatch[],
+  radius: number = SNIPPET_RADIUS
+): { snippet: string; snippetStart: number; highlights: SearchHitMatch[] } => {
+  if (!text) return { snippet: '', snippetStart: 0, highlights: [] };
+
+  const anchor = matches[0]?.start ?? 0;
+  let start = Math.max(0, anchor - radius);
+  let end = Math.min(text.length, (matches[0]?.end ?? 0) + radius);
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < anchor) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > (matches[0]?.end ?? 0)) end = space;
+  }
+
+  const highlights = matches
+    .filter(m => m.start >= start && m.end <= end)
+    .map(m => ({ start: m.start - start, end: m.end - start }));
+
+  return { snippet: text.slice(start, end), snippetStart: start, highlights };
+};
+
+/**
+ * Convert ranked chunk rows from search_document_chunks into hits whose match
+ * offsets point into the document's full extracted_text.
+ */
+export const toSearchHits = (rows: ChunkSearchRow[], query: string): SearchHit[] => {
+  const terms = parseSearchTerms(query);
+
+  return rows.map(row => {
+    const chunkStart = row.char_start ?? 0;
+    const localMatches = findTermMatches(row.chunk_text, terms);
+    const { snippet, snippetStart, highlights } = buildSnippet(row.chunk_text, localMatches);
+
+    return {
+      documentId: row.document_id,
+      name: row.name,
+      batesNumber: row.bates_formatted || 'UNKNOWN',
+      chunkIndex: row.chunk_index,
+      charStart: chunkStart,
+      charEnd: row.char_end ?? chunkStart + row.chunk_text.length,
+      rank: row.rank,
+      snippet,
+      snippetStart: chunkStart + snippetStart,
+      highlights,
+      matches: localMatches.slice(0, MAX_MATCHES_PER_HIT).map(m => ({
+        start: chunkStart + m.start,
+        end: chunkStart + m.end,
+      })),
+    };
+  });
+};
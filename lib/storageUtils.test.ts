@@ -1,6 +1,6 @@
 /// <reference types="vitest" />
 import { describe, expect, it } from 'vitest';
-import { buildObjectKey, normalizeProjectName } from './storageUtils';
+import { buildDocumentKey, buildObjectKey, normalizeProjectName } from './storageUtils';
 
 describe('storage utils', () => {
   describe('normalizeProjectName', () => {
@@ -28,4 +28,11 @@ describe('storage utils', () => {
       expect(key).toBe('projects/alpha-case/assets/xyz-evidence.pdf');
     });
   });
+
+  describe('buildDocumentKey', () => {
+    it('puts the document under its project folder with a safe name', () => {
+      expect(buildDocumentKey('project-1', 'DEF-0001', 'Board minutes (final).pdf'))
+        .toBe('project-1/DEF-0001_Board_minutes_final.pdf');
+    });
+  });
 });
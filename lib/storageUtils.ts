@@ -11,15 +11,24 @@ export const normalizeProjectName = (projectName: string): string => {
   return slug || 'project';
 };
 
+const safeFileName = (fileName: string): string =>
+  fileName
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/[^a-zA-Z0-9._-]/g, '') || 'asset';
+
 /**
  * Build a stable storage key for an uploaded asset
  */
 export const buildObjectKey = (projectName: string, fileName: string, fileId: string): string => {
   const safeProject = normalizeProjectName(projectName);
-  const safeFile = fileName
-    .trim()
-    .replace(/\s+/g, '_')
-    .replace(/[^a-zA-Z0-9._-]/g, '') || 'asset';
 
-  return `projects/${safeProject}/assets/${fileId}-${safeFile}`;
+  return `projects/${safeProject}/assets/${fileId}-${safeFileName(fileName)}`;
 };
+
+/**
+ * Build the discovery-files key for a Bates-numbered document. Keys start with
+ * the project id, which the storage policies check membership against.
+ */
+export const buildDocumentKey = (projectId: string, batesNumber: string, fileName: string): string =>
+  `${projectId}/${batesNumber}_${safeFileName(fileName)}`;
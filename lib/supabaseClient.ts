@@ -47,3 +47,22 @@ export function getSupabaseAdmin() {
 
   return _supabaseAdmin;
 }
+
+// Server-side Supabase client acting as a signed-in user (uses anon key + the user's token)
+// Every query runs as that user - respects Row Level Security policies
+// Create one per request in API routes via getCaller() in lib/auth.ts
+export function createCallerClient(accessToken: string) {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables. Please configure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY in .env.local');
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+}
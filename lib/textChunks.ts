@@ -0,0 +1,35 @@
+import type { Json, TextChunk } from './database.types';
+
+/**
+ * Normalize documents.text_chunks into chunk objects. Older rows stored a plain
+ * string array; those get offsets reconstructed from their running length.
+ */
+export const parseStoredChunks = (value: Json | null | undefined): TextChunk[] => {
+  if (!Array.isArray(value)) return [];
+
+  const chunks: TextChunk[] = [];
+  let offset = 0;
+
+  value.forEach((entry, i) => {
+    if (typeof entry === 'string') {
+      chunks.push({ index: i, text: entry, charStart: offset, charEnd: offset + entry.length });
+      offset += entry.length;
+      return;
+    }
+
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+      const text = typeof entry.text === 'string' ? entry.text : '';
+      const charStart = typeof entry.charStart === 'number' ? entry.charStart : offset;
+      const charEnd = typeof entry.charEnd === 'number' ? entry.charEnd : charStart + text.length;
+      chunks.push({
+        index: typeof entry.index === 'number' ? entry.index : i,
+        text,
+        charStart,
+        charEnd,
+      });
+      offset = charEnd;
+    }
+  });
+
+  return chunks;
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildKeyframeArgs,
+  canThumbnail,
+  keyframeIndexAt,
+  keyframeIntervalMs,
+  MAX_KEYFRAMES,
+  parseFrameTimes,
+  parseStoredThumbnails,
+  posterFrameIndex,
+  thumbnailStoragePath,
+} from './thumbnails';
+
+describe('canThumbnail', () => {
+  it('takes video, PDFs and common images', () => {
+    expect(canThumbnail('video/mp4')).toBe(true);
+    expect(canThumbnail('application/pdf')).toBe(true);
+    expect(canThumbnail('image/png')).toBe(true);
+    expect(canThumbnail('audio/mpeg')).toBe(false);
+    expect(canThumbnail('image/tiff')).toBe(false);
+    expect(canThumbnail(null)).toBe(false);
+  });
+});
+
+describe('keyframeIntervalMs', () => {
+  it('takes a frame every five seconds from short videos', () => {
+    expect(keyframeIntervalMs(60_000)).toBe(5000);
+    expect(keyframeIntervalMs(null)).toBe(5000);
+  });
+
+  it('spreads keyframes out so a long video fits the filmstrip', () => {
+    const hour = 60 * 60 * 1000;
+    const interval = keyframeIntervalMs(hour);
+    expect(interval).toBe(75_000);
+    expect(hour / interval).toBeLessThanOrEqual(MAX_KEYFRAMES);
+  });
+});
+
+describe('buildKeyframeArgs', () => {
+  it('selects the first frame, interval frames and scene changes, logging their times', () => {
+    const args = buildKeyframeArgs({ inputPath: '/tmp/in.mp4', outputPattern: '/tmp/frame_%04d.jpg', intervalMs: 5000 });
+    const filter = args[args.indexOf('-vf') + 1];
+    expect(filter).toBe(
+      "select='isnan(prev_selected_t)+gte(t-prev_selected_t,5)+gt(scene,0.4)*gte(t-prev_selected_t,2)',scale=320:-2,showinfo"
+    );
+    expect(args.slice(0, 2)).toEqual(['-i', '/tmp/in.mp4']);
+    expect(args).toContain('-an');
+    expect(args[args.indexOf('-vsync') + 1]).toBe('vfr');
+    expect(args[args.length - 1]).toBe('/tmp/frame_%04d.jpg');
+  });
+});
+
+describe('parseFrameTimes', () => {
+  it('reads the time of each frame showinfo logged', () => {
+    const log = [
+      'Input #0, mov,mp4,m4a,3gp,3g2,mj2, from \'/tmp/in.mp4\':',
+      '[Parsed_showinfo_2 @ 0x55d1] n:   0 pts:      0 pts_time:0       duration:512',
+      '[Parsed_showinfo_2 @ 0x55d1] n:   1 pts: 2560000 pts_time:5.0001  duration:512',
+      'frame=    2 fps=0.0 q=5.0 size=N/A time=00:00:05.00',
+      '[Parsed_showinfo_2 @ 0x55d1] n:   2 pts: 3200000 pts_time:6.25    duration:512',
+    ].join('\n');
+    expect(parseFrameTimes(log)).toEqual([0, 5000, 6250]);
+  });
+});
+
+describe('keyframeIndexAt', () => {
+  const frames = [{ timeMs: 0 }, { timeMs: 5000 }, { timeMs: 7200 }];
+
+  it('finds the last keyframe at or before the playback time', () => {
+    expect(keyframeIndexAt(frames, 0)).toBe(0);
+    expect(keyframeIndexAt(frames, 6000)).toBe(1);
+    expect(keyframeIndexAt(frames, 90_000)).toBe(2);
+    expect(keyframeIndexAt([{ timeMs: 1000 }], 500)).toBe(-1);
+  });
+
+  it('uses a keyframe a quarter of the way in as the poster', () => {
+    expect(posterFrameIndex(1)).toBe(0);
+    expect(posterFrameIndex(12)).toBe(3);
+  });
+});
+
+describe('parseStoredThumbnails', () => {
+  it('reads stored thumbnails and drops malformed frames', () => {
+    const poster = thumbnailStoragePath('p1', 'd1', 'frame_0001.jpg');
+    expect(poster).toBe('p1/thumbnails/d1/frame_0001.jpg');
+    expect(
+      parseStoredThumbnails({
+        poster,
+        frames: [{ timeMs: 0, path: poster }, { timeMs: 'soon', path: 'x' }],
+        generatedAt: '2024-03-22T00:00:00Z',
+      })
+    ).toEqual({ poster, frames: [{ timeMs: 0, path: poster }], generatedAt: '2024-03-22T00:00:00Z' });
+  });
+
+  it('returns null for absent or malformed values', () => {
+    expect(parseStoredThumbnails(null)).toBeNull();
+    expect(parseStoredThumbnails([])).toBeNull();
+    expect(parseStoredThumbnails({ frames: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import type { Json } from './database.types';
+import type { DocumentThumbnails } from './types';
+
+export const THUMBNAIL_WIDTH = 320;
+// A filmstrip of a long recording stays this long however long the recording is
+export const MAX_KEYFRAMES = 48;
+const MIN_KEYFRAME_INTERVAL_MS = 5000;
+// ffmpeg's scene score runs 0-1; above this the picture has changed enough to be worth a frame
+const SCENE_CHANGE_THRESHOLD = 0.4;
+// Shaky footage scores as a scene change frame after frame; keep those apart
+const MIN_SCENE_GAP_MS = 2000;
+
+const THUMBNAIL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/webp'];
+
+export const canThumbnail = (mimeType: string | null | undefined): boolean =>
+  !!mimeType && (mimeType.startsWith('video/') || mimeType === 'application/pdf' || THUMBNAIL_IMAGE_TYPES.includes(mimeType));
+
+/** Time between interval keyframes: every five seconds, spread out so a long video still fits the filmstrip. */
+export const keyframeIntervalMs = (durationMs: number | null): number =>
+  durationMs && durationMs > 0
+    ? Math.max(MIN_KEYFRAME_INTERVAL_MS, Math.ceil(durationMs / MAX_KEYFRAMES / 1000) * 1000)
+    : MIN_KEYFRAME_INTERVAL_MS;
+
+/**
+ * ffmpeg arguments that write a scaled JPEG for the first frame, one per
+ * interval after it, and one at each scene change, numbered from 1.
+ * `showinfo` logs each written frame's time, which parseFrameTimes reads back.
+ */
+export const buildKeyframeArgs = ({ inputPath, outputPattern, intervalMs }: { inputPath: string; outputPattern: string; intervalMs: number }): string[] => {
+  const since = 't-prev_selected_t';
+  const select = [
+    'isnan(prev_selected_t)',
+    `gte(${since},${intervalMs / 1000})`,
+    `gt(scene,${SCENE_CHANGE_THRESHOLD})*gte(${since},${MIN_SCENE_GAP_MS / 1000})`,
+  ].join('+');
+  return [
+    '-i', inputPath,
+    '-an',
+    '-vf', `select='${select}',scale=${THUMBNAIL_WIDTH}:-2,showinfo`,
+    '-vsync', 'vfr',
+    '-frames:v', String(MAX_KEYFRAMES * 2),
+    '-q:v', '5',
+    '-y', outputPattern,
+  ];
+};
+
+/** The time of each frame showinfo logged, in milliseconds, in the order they were written. */
+export const parseFrameTimes = (log: string): number[] =>
+  Array.from(log.matchAll(/\[Parsed_showinfo[^\]]*\][^\n]*?\bpts_time:\s*(-?[\d.]+)/g), match =>
+    Math.max(0, Math.round(parseFloat(match[1]) * 1000))
+  );
+
+/** A keyframe a quarter of the way in stands for the video: past any black lead-in, still early. */
+export const posterFrameIndex = (frameCount: number): number => Math.floor(frameCount / 4);
+
+/** The keyframe showing at a playback time: the last one taken at or before it, or -1 before the first. */
+export const keyframeIndexAt = (frames: Array<{ timeMs: number }>, timeMs: number): number => {
+  let found = -1;
+  frames.forEach((frame, index) => {
+    if (frame.timeMs <= timeMs) found = index;
+  });
+  return found;
+};
+
+/** Where a document's thumbnail images go in storage. */
+export const thumbnailStoragePath = (projectId: string | null, documentId: string, fileName: string): string =>
+  `${projectId ?? 'unassigned'}/thumbnails/${documentId}/${fileName}`;
+
+/** Reads documents.thumbnails back, or null when it is absent or malformed. */
+export const parseStoredThumbnails = (value: Json | null | undefined): DocumentThumbnails | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const stored = value as unknown as DocumentThumbnails;
+  if (typeof stored.poster !== 'string') return null;
+  return {
+    poster: stored.poster,
+    frames: Array.isArray(stored.frames)
+      ? stored.frames.filter(frame => frame && typeof frame.path === 'string' && typeof frame.timeMs === 'number')
+      : [],
+    generatedAt: typeof stored.generatedAt === 'string' ? stored.generatedAt : '',
+  };
+};
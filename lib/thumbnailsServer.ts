@@ -0,0 +1,221 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { signStoragePaths } from './childDocuments';
+import { extractKeyframes } from './mediaTranscoder';
+import { renderPdfPages } from './redactionBurn';
+import {
+  canThumbnail,
+  parseStoredThumbnails,
+  posterFrameIndex,
+  THUMBNAIL_WIDTH,
+  thumbnailStoragePath,
+} from './thumbnails';
+import type { DocumentThumbnails, ThumbnailSet } from './types';
+
+/** Scales an image down to thumbnail width as a JPEG, on white so transparent PNGs stay legible. */
+async function scaleToThumbnail(image: Uint8Array): Promise<Buffer> {
+  const source = await loadImage(image);
+  const scale = Math.min(1, THUMBNAIL_WIDTH / source.width);
+  const canvas = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toBuffer('image/jpeg', 80);
+}
+
+/**
+ * Thumbnail images for a stored file: timed keyframes for video, with one of
+ * them standing for the video, or a single image for a PDF's first page or a
+ * picture.
+ */
+export async function renderThumbnails(
+  content: Buffer,
+  mimeType: string
+): Promise<{ poster: Buffer; frames: Array<{ timeMs: number; image: Buffer }> }> {
+  if (mimeType.startsWith('video/')) {
+    const frames = await extractKeyframes({ inputBuffer: content, mimeType });
+    if (frames.length === 0) throw new Error('No frames could be read from the video');
+    return { poster: frames[posterFrameIndex(frames.length)].image, frames };
+  }
+  if (mimeType === 'application/pdf') {
+    const [firstPage] = await renderPdfPages(new Uint8Array(content), { scale: 1, pages: [1] });
+    if (!firstPage) throw new Error('The PDF has no pages to render');
+    return { poster: await scaleToThumbnail(firstPage.png), frames: [] };
+  }
+  return { poster: await scaleToThumbnail(new Uint8Array(content)), frames: [] };
+}
+
+const upload = async (supabase: SupabaseClient<Database>, storagePath: string, image: Buffer) => {
+  const { error } = await supabase.storage
+    .from('discovery-files')
+    .upload(storagePath, image, { contentType: 'image/jpeg', upsert: true });
+  if (error) throw new Error(`Failed to store thumbnail ${storagePath}: ${error.message}`);
+};
+
+/**
+ * Renders a document's thumbnails, stores them beside its other files, and
+ * records where in documents.thumbnails. Images left over from an earlier run
+ * that took more keyframes are removed.
+ */
+export async function generateDocumentThumbnails(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<DocumentThumbnails> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, project_id, mime_type, storage_path, thumbnails')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) throw new Error(`Document not found: ${documentId}`);
+  if (!document.storage_path) throw new Error(`Document has no storage_path: ${documentId}`);
+  if (!canThumbnail(document.mime_type)) throw new Error(`Thumbnails cannot be made from ${document.mime_type} files`);
+
+  const { data: blob, error: storageError } = await supabase.storage.from('discovery-files').download(document.storage_path);
+  if (storageError || !blob) {
+    throw new Error(`Failed to download ${document.storage_path}: ${storageError?.message || 'empty file'}`);
+  }
+
+  const rendered = await renderThumbnails(Buffer.from(await blob.arrayBuffer()), document.mime_type!);
+  const pathOf = (fileName: string) => thumbnailStoragePath(document.project_id, document.id, fileName);
+
+  const frames: DocumentThumbnails['frames'] = [];
+  for (const [index, frame] of rendered.frames.entries()) {
+    const storagePath = pathOf(`frame_${String(index + 1).padStart(4, '0')}.jpg`);
+    await upload(supabase, storagePath, frame.image);
+    frames.push({ timeMs: frame.timeMs, path: storagePath });
+  }
+  // A video's poster is one of its keyframes; anything else gets an image of its own
+  const poster = frames.length > 0 ? frames[posterFrameIndex(frames.length)].path : pathOf('poster.jpg');
+  if (frames.length === 0) await upload(supabase, poster, rendered.poster);
+
+  const thumbnails: DocumentThumbnails = { poster, frames, generatedAt: new Date().toISOString() };
+  const { error: updateError } = await supabase
+    .from('documents')
+    .update({ thumbnails: thumbnails as unknown as Json, updated_at: new Date().toISOString() })
+    .eq('id', document.id);
+  if (updateError) throw new Error(`Failed to save thumbnails: ${updateError.message}`);
+
+  const previous = parseStoredThumbnails(document.thumbnails);
+  const kept = new Set([poster, ...frames.map(frame => frame.path)]);
+  const stale = previous ? [previous.poster, ...previous.frames.map(frame => frame.path)].filter(storagePath => !kept.has(storagePath)) : [];
+  if (stale.length > 0) {
+    const { error: removeError } = await supabase.storage.from('discovery-files').remove(stale);
+    if (removeError) console.error(`Failed to remove old thumbnails for ${document.id}:`, removeError);
+  }
+
+  return thumbnails;
+}
+
+/** Queues thumbnail jobs for the documents that have none waiting or running. Returns how many were queued. */
+export async function queueThumbnails(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  documentIds: string[]
+): Promise<number> {
+  if (documentIds.length === 0) return 0;
+  const { data: pending, error } = await supabase
+    .from('job_queue')
+    .select('document_id')
+    .eq('project_id', projectId)
+    .eq('job_type', 'thumbnail')
+    .in('status', ['pending', 'processing']);
+  if (error) throw error;
+  const waiting = new Set((pending || []).map(job => job.document_id));
+  const queued = documentIds.filter(id => !waiting.has(id));
+  if (queued.length === 0) return 0;
+
+  const { error: insertError } = await supabase.from('job_queue').insert(
+    queued.map(documentId => ({
+      project_id: projectId,
+      document_id: documentId,
+      job_type: 'thumbnail',
+      priority: 0,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: 3,
+    }))
+  );
+  if (insertError) throw new Error(`Failed to queue thumbnails: ${insertError.message}`);
+  return queued.length;
+}
+
+export async function isThumbnailQueued(supabase: SupabaseClient<Database>, documentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('document_id', documentId)
+    .eq('job_type', 'thumbnail')
+    .in('status', ['pending', 'processing'])
+    .limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** How many of the project's thumbnail jobs are waiting or running. */
+export async function countQueuedThumbnails(supabase: SupabaseClient<Database>, projectId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('job_queue')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .eq('job_type', 'thumbnail')
+    .in('status', ['pending', 'processing']);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** A document's stored thumbnails, or null when the document does not exist. */
+export async function loadDocumentThumbnails(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<{ projectId: string | null; mimeType: string | null; thumbnails: DocumentThumbnails | null } | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('project_id, mime_type, thumbnails')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) return null;
+  return { projectId: document.project_id, mimeType: document.mime_type, thumbnails: parseStoredThumbnails(document.thumbnails) };
+}
+
+/** Signed URLs for a document's poster and keyframes. */
+export async function signThumbnails(supabase: SupabaseClient<Database>, thumbnails: DocumentThumbnails): Promise<ThumbnailSet> {
+  const signed = await signStoragePaths(supabase, [thumbnails.poster, ...thumbnails.frames.map(frame => frame.path)]);
+  return {
+    posterUrl: signed.get(thumbnails.poster) ?? null,
+    frames: thumbnails.frames.flatMap(frame => {
+      const url = signed.get(frame.path);
+      return url ? [{ timeMs: frame.timeMs, url }] : [];
+    }),
+  };
+}
+
+/**
+ * Signed poster URLs for every document in the project that has thumbnails,
+ * by document id, and the ids of documents that could have them but do not.
+ */
+export async function loadProjectPosters(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<{ posters: Record<string, string>; missing: string[] }> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, mime_type, thumbnails')
+    .eq('project_id', projectId);
+  if (error) throw error;
+
+  const stored = (data || []).map(row => ({ id: row.id, mimeType: row.mime_type, thumbnails: parseStoredThumbnails(row.thumbnails) }));
+  const signed = await signStoragePaths(supabase, stored.map(row => row.thumbnails?.poster ?? null));
+  const posters: Record<string, string> = {};
+  stored.forEach(row => {
+    const url = row.thumbnails ? signed.get(row.thumbnails.poster) : undefined;
+    if (url) posters[row.id] = url;
+  });
+  return {
+    posters,
+    missing: stored.filter(row => !row.thumbnails && canThumbnail(row.mimeType)).map(row => row.id),
+  };
+}
@@ -0,0 +1,302 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { transcribeWithAssembly } from './assemblyTranscriber';
+import { chunkTextSentenceAware } from './extractionService';
+import { formatTranscriptText, parseStoredTranscript, parseTimestampedTranscript, remapTranscriptOffsets, speakerStats } from './transcripts';
+import type { MediaTranscript, TranscriptSpeaker } from './types';
+
+export interface TranscribeMediaInput {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  batesNumber: string;
+}
+
+/**
+ * Transcribes audio or video with word timings from AssemblyAI when it is
+ * configured, otherwise with Gemini, which times each line but not each word.
+ */
+export async function transcribeMedia({ buffer, mimeType, fileName, batesNumber }: TranscribeMediaInput): Promise<MediaTranscript> {
+  if (process.env.ASSEMBLYAI_API_KEY) {
+    return transcribeWithAssembly({ input: buffer, mimeType, fileName, batesNumber, isBase64: false });
+  }
+
+  const { transcribeAudioServer } = await import('./geminiServer');
+  const text = await transcribeAudioServer({ base64Data: buffer.toString('base64'), mimeType, fileName, batesNumber });
+  return parseTimestampedTranscript(text);
+}
+
+/** A document's timed transcript, or null when the document does not exist or is not visible to the caller. */
+export async function loadDocumentTranscript(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<{ projectId: string | null; transcript: MediaTranscript | null } | null> {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, project_id, transcript')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) return null;
+  return { projectId: document.project_id, transcript: parseStoredTranscript(document.transcript) };
+}
+
+/** Queues a transcribe job for the document unless one is already waiting or running. */
+export async function queueTranscription(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  documentId: string
+): Promise<boolean> {
+  if (await isTranscriptionQueued(supabase, documentId)) return false;
+
+  const { error } = await supabase.from('job_queue').insert({
+    project_id: projectId,
+    document_id: documentId,
+    job_type: 'transcribe',
+    priority: 1,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 3,
+  });
+  if (error) throw new Error(`Failed to queue transcription: ${error.message}`);
+  return true;
+}
+
+export async function isTranscriptionQueued(supabase: SupabaseClient<Database>, documentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('document_id', documentId)
+    .eq('job_type', 'transcribe')
+    .in('status', ['pending', 'processing'])
+    .limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Who each of a document's diarization labels has been identified as. */
+export async function loadSpeakerNames(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<Map<string, { name: string; entityId: string | null }>> {
+  const { data, error } = await supabase
+    .from('transcript_speakers')
+    .select('label, name, entity_id')
+    .eq('document_id', documentId);
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.label, { name: row.name, entityId: row.entity_id }]));
+}
+
+/** Each speaker in the transcript with their talk time and who they were identified as. */
+export async function listTranscriptSpeakers(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  transcript: MediaTranscript
+): Promise<TranscriptSpeaker[]> {
+  const names = await loadSpeakerNames(supabase, documentId);
+  return speakerStats(transcript).map(stats => ({
+    ...stats,
+    name: names.get(stats.label)?.name ?? null,
+    entityId: names.get(stats.label)?.entityId ?? null,
+  }));
+}
+
+/** The project's people, for identifying speakers. */
+export async function listProjectPeople(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<Array<{ id: string; name: string }>> {
+  const { data, error } = await supabase
+    .from('entities')
+    .select('id, name')
+    .eq('project_id', projectId)
+    .eq('entity_type', 'person')
+    .order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+const queueUnlessPending = async (
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  documentId: string,
+  jobType: 'embed' | 'analyze' | 'speakers'
+): Promise<boolean> => {
+  const { data: pending, error } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('document_id', documentId)
+    .eq('job_type', jobType)
+    .eq('status', 'pending')
+    .limit(1);
+  if (error) throw new Error(`Failed to check ${jobType} jobs: ${error.message}`);
+  if (pending && pending.length > 0) return false;
+
+  const { error: insertError } = await supabase.from('job_queue').insert({
+    project_id: projectId,
+    document_id: documentId,
+    job_type: jobType,
+    priority: 0,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 3,
+  });
+  if (insertError) throw new Error(`Failed to queue ${jobType} job: ${insertError.message}`);
+  return true;
+};
+
+/**
+ * Queues a speakers job, which writes the identified speaker names into the
+ * document's transcript text. Reviewers name speakers but cannot write the
+ * text themselves.
+ */
+export async function queueSpeakerText(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  documentId: string
+): Promise<boolean> {
+  return queueUnlessPending(supabase, projectId, documentId, 'speakers');
+}
+
+const loadTextRedactionSpans = async (supabase: SupabaseClient<Database>, documentId: string) => {
+  const { data, error } = await supabase
+    .from('redactions')
+    .select('id, text_start, text_end, status')
+    .eq('document_id', documentId)
+    .not('text_start', 'is', null)
+    .not('text_end', 'is', null);
+  if (error) throw error;
+  return data || [];
+};
+
+const TEXT_REDACTION_CONFLICT = 'The transcript text cannot be rewritten while it has text redactions; remove them first';
+
+/**
+ * Why the document's transcript text cannot be rewritten, or null when it can:
+ * its current text was not written from this transcript, so pending or
+ * accepted text redactions on it could not follow the words they cover.
+ */
+export async function transcriptTextConflict(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  transcript: MediaTranscript
+): Promise<string | null> {
+  const { data: current, error } = await supabase.from('documents').select('extracted_text').eq('id', documentId).maybeSingle();
+  if (error) throw error;
+  if (!current?.extracted_text) return null;
+  if (remapTranscriptOffsets(current.extracted_text, formatTranscriptText(transcript))) return null;
+  const spans = await loadTextRedactionSpans(supabase, documentId);
+  return spans.some(span => span.status !== 'rejected') ? TEXT_REDACTION_CONFLICT : null;
+}
+
+/**
+ * Moves the document's text redactions from its old text onto the new one.
+ * Throws, before anything is written, when the new text was not written from
+ * the same transcript and pending or accepted text redactions would be left
+ * pointing at the wrong characters.
+ */
+async function remapTextRedactions(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  oldText: string | null,
+  newText: string
+): Promise<void> {
+  if (oldText === null || oldText === newText) return;
+  const spans = await loadTextRedactionSpans(supabase, documentId);
+  if (spans.length === 0) return;
+
+  const remap = remapTranscriptOffsets(oldText, newText);
+  if (!remap) {
+    if (spans.some(span => span.status !== 'rejected')) throw new Error(TEXT_REDACTION_CONFLICT);
+    return;
+  }
+
+  for (const span of spans) {
+    const { error: updateError } = await supabase
+      .from('redactions')
+      .update({ text_start: remap(span.text_start!, 'start'), text_end: remap(span.text_end!, 'end') })
+      .eq('id', span.id);
+    if (updateError) throw new Error(`Failed to move redaction ${span.id}: ${updateError.message}`);
+  }
+}
+
+/**
+ * Writes the transcript into the document's text with its speakers named,
+ * re-chunks it, and queues re-embedding and re-analysis so chat passages and
+ * the analysis read the names too. Text redactions move with the words they
+ * cover.
+ */
+export async function saveTranscriptText(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; projectId: string | null },
+  transcript: MediaTranscript
+): Promise<void> {
+  const names = await loadSpeakerNames(supabase, document.id);
+  const text = formatTranscriptText(transcript, Object.fromEntries(Array.from(names, ([label, speaker]) => [label, speaker.name])));
+  const { chunks, metadata } = chunkTextSentenceAware(text);
+
+  const { data: current, error: loadError } = await supabase
+    .from('documents')
+    .select('extracted_text')
+    .eq('id', document.id)
+    .maybeSingle();
+  if (loadError) throw loadError;
+  await remapTextRedactions(supabase, document.id, current?.extracted_text ?? null, text);
+
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      extracted_text: text,
+      text_chunks: metadata.map((chunk, i) => ({ ...chunk, text: chunks[i] })) as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', document.id);
+  if (error) throw new Error(`Failed to save transcript text: ${error.message}`);
+
+  if (!document.projectId) return;
+  if (chunks.length > 0) await queueUnlessPending(supabase, document.projectId, document.id, 'embed');
+  await queueUnlessPending(supabase, document.projectId, document.id, 'analyze');
+}
+
+/**
+ * Identifies a diarization label as a person: a project entity, or a name
+ * typed in. Neither clears the identification.
+ */
+export async function setTranscriptSpeaker(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; projectId: string },
+  label: string,
+  person: { entityId: string | null; name: string | null }
+): Promise<void> {
+  let name = person.name?.trim() || null;
+  if (person.entityId) {
+    const { data: entity, error } = await supabase
+      .from('entities')
+      .select('name')
+      .eq('id', person.entityId)
+      .eq('project_id', document.projectId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!entity) throw new Error('Entity not found in this project');
+    name = entity.name;
+  }
+
+  if (!name) {
+    const { error } = await supabase.from('transcript_speakers').delete().eq('document_id', document.id).eq('label', label);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from('transcript_speakers').upsert(
+    {
+      project_id: document.projectId,
+      document_id: document.id,
+      label,
+      entity_id: person.entityId,
+      name,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'document_id,label' }
+  );
+  if (error) throw error;
+}
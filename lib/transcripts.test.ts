@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimestamp,
+  formatTranscriptText,
+  fromAssemblyTranscript,
+  parseStoredTranscript,
+  parseTimestampedTranscript,
+  remapTranscriptOffsets,
+  segmentIndexAt,
+  segmentWords,
+  speakerStats,
+  wordIndexAt,
+  type TimedWord,
+} from './transcripts';
+import type { Json } from './database.types';
+import { redactText } from './redactions';
+
+const words = (speaker: string, start: number, text: string): TimedWord[] =>
+  text.split(' ').map((word, i) => ({ text: word, start: start + i * 300, end: start + i * 300 + 250, confidence: 0.9, speaker }));
+
+describe('segmentWords', () => {
+  it('starts a new line when the speaker changes or pauses', () => {
+    const segments = segmentWords([
+      ...words('A', 0, 'Step out of the car.'),
+      ...words('B', 1500, 'Why?'),
+      ...words('B', 5000, 'I did nothing.'),
+    ]);
+    expect(segments.map(segment => [segment.speaker, segment.startMs, segment.endMs, segment.text])).toEqual([
+      ['A', 0, 1450, 'Step out of the car.'],
+      ['B', 1500, 1750, 'Why?'],
+      ['B', 5000, 5850, 'I did nothing.'],
+    ]);
+    expect(segments[0].confidence).toBe(0.9);
+  });
+
+  it('breaks long speech at a sentence end', () => {
+    const long = words('A', 0, `${'word '.repeat(70)}done. Next sentence`);
+    const segments = segmentWords(long);
+    expect(segments).toHaveLength(2);
+    expect(segments[0].text.endsWith('done.')).toBe(true);
+    expect(segments[1].text).toBe('Next sentence');
+  });
+});
+
+describe('fromAssemblyTranscript', () => {
+  it('keeps utterance speakers and word timings', () => {
+    const transcript = fromAssemblyTranscript({
+      text: 'Hands up. Okay.',
+      audio_duration: 3.2,
+      language_code: 'en_us',
+      utterances: [
+        { speaker: 'A', words: words('A', 0, 'Hands up.') },
+        { speaker: 'B', words: words('B', 900, 'Okay.') },
+      ],
+    });
+    expect(transcript.durationMs).toBe(3200);
+    expect(transcript.language).toBe('en_us');
+    expect(transcript.segments.map(segment => segment.speaker)).toEqual(['A', 'B']);
+    expect(transcript.segments[1].words[0]).toEqual({ text: 'Okay.', startMs: 900, endMs: 1150, confidence: 0.9 });
+  });
+});
+
+describe('parseTimestampedTranscript', () => {
+  const transcript = parseTimestampedTranscript(
+    '[00:03] Speaker 1: 911, what is your emergency?\n[00:07] Speaker 2: There is a man\nin my yard.\n[1:02:10] [door slam]',
+    3_800_000
+  );
+
+  it('reads a stamp and speaker from each line and ends it where the next begins', () => {
+    expect(transcript.segments.map(segment => [segment.startMs, segment.endMs, segment.speaker, segment.text])).toEqual([
+      [3000, 7000, 'Speaker 1', '911, what is your emergency?'],
+      [7000, 3_730_000, 'Speaker 2', 'There is a man in my yard.'],
+      [3_730_000, 3_800_000, null, '[door slam]'],
+    ]);
+    expect(transcript.segments[0].words).toEqual([]);
+  });
+
+  it('writes the transcript back out as stamped lines', () => {
+    expect(formatTranscriptText(transcript).split('\n')).toEqual([
+      '[00:03] Speaker 1: 911, what is your emergency?',
+      '[00:07] Speaker 2: There is a man in my yard.',
+      '[1:02:10] [door slam]',
+    ]);
+    expect(formatTranscriptText(fromAssemblyTranscript({ utterances: [{ speaker: 'A', words: words('A', 65_000, 'Hello') }] })))
+      .toBe('[01:05] Speaker A: Hello');
+    expect(formatTimestamp(-5)).toBe('00:00');
+  });
+});
+
+describe('playback lookups', () => {
+  const { segments } = fromAssemblyTranscript({
+    utterances: [
+      { speaker: 'A', words: words('A', 1000, 'one two') },
+      { speaker: 'B', words: words('B', 4000, 'three') },
+    ],
+  });
+
+  it('finds the line and word being spoken, and nothing in the gaps', () => {
+    expect(segmentIndexAt(segments, 500)).toBe(-1);
+    expect(segmentIndexAt(segments, 1400)).toBe(0);
+    expect(segmentIndexAt(segments, 2500)).toBe(-1);
+    expect(segmentIndexAt(segments, 4100)).toBe(1);
+    expect(wordIndexAt(segments[0], 1400)).toBe(1);
+    expect(wordIndexAt(segments[0], 1270)).toBe(-1);
+  });
+
+  it('keeps an untimed last line lit until the end', () => {
+    const untimed = parseTimestampedTranscript('[00:01] a\n[00:05] b').segments;
+    expect(segmentIndexAt(untimed, 60_000)).toBe(1);
+  });
+});
+
+describe('parseStoredTranscript', () => {
+  it('round-trips and drops malformed segments', () => {
+    const transcript = fromAssemblyTranscript({ text: 'Hi', words: words('A', 0, 'Hi') });
+    expect(parseStoredTranscript(JSON.parse(JSON.stringify(transcript)) as Json)).toEqual(transcript);
+    const stored = { source: 'gemini', segments: [{ startMs: 0, endMs: 1, text: 'ok' }, { text: 'no times' }] } as Json;
+    expect(parseStoredTranscript(stored)?.segments).toHaveLength(1);
+    expect(parseStoredTranscript(null)).toBeNull();
+  });
+});
+
+describe('speaker names and talk time', () => {
+  const transcript = fromAssemblyTranscript({
+    utterances: [
+      { speaker: 'A', words: words('A', 0, 'you were on patrol that night') },
+      { speaker: 'B', words: words('B', 3000, 'yes') },
+      { speaker: 'A', words: words('A', 5000, 'alone') },
+    ],
+  });
+
+  it('names identified speakers in the transcript text', () => {
+    expect(formatTranscriptText(transcript, { B: 'Officer Ramirez' })).toBe(
+      '[00:00] Speaker A: you were on patrol that night\n[00:03] Officer Ramirez: yes\n[00:05] Speaker A: alone'
+    );
+  });
+
+  it('keeps a text redaction on the same words when a speaker is renamed', () => {
+    const ssnCall = fromAssemblyTranscript({
+      utterances: [
+        { speaker: 'A', words: words('A', 0, 'your social is 123-45-6789 right') },
+        { speaker: 'B', words: words('B', 3000, 'yes 123-45-6789') },
+      ],
+    });
+    const before = formatTranscriptText(ssnCall);
+    const start = before.lastIndexOf('123-45-6789');
+    const after = formatTranscriptText(ssnCall, { A: 'Officer Ramirez', B: 'Dana Cole' });
+
+    const remap = remapTranscriptOffsets(before, after)!;
+    const moved = { start: remap(start, 'start'), end: remap(start + 11, 'end') };
+    expect(after.slice(moved.start, moved.end)).toBe('123-45-6789');
+    expect(redactText(after, [moved]).split('\n')[1]).toBe('[00:03] Dana Cole: yes [REDACTED]');
+  });
+
+  it('widens a span over a renamed label rather than uncovering it', () => {
+    const before = formatTranscriptText(transcript);
+    const after = formatTranscriptText(transcript, { B: 'Officer Ramirez' });
+    const label = before.indexOf('Speaker B');
+    const remap = remapTranscriptOffsets(before, after)!;
+    expect(after.slice(remap(label, 'start'), remap(label + 9, 'end'))).toBe('[00:03] Officer Ramirez');
+    expect(remapTranscriptOffsets(before, `${after}\nextra line`)).toBeNull();
+  });
+
+  it('totals talk time per speaker, most talkative first', () => {
+    expect(speakerStats(transcript)).toEqual([
+      { label: 'A', talkMs: 2000, segmentCount: 2, wordCount: 7, share: 0.889 },
+      { label: 'B', talkMs: 250, segmentCount: 1, wordCount: 1, share: 0.111 },
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Json } from './database.types';
+import type { MediaTranscript, TranscriptSegment, TranscriptSpeaker, TranscriptWord } from './types';
+
+// A pause this long, or a sentence ending after a line has run this long, starts a new line
+const MAX_PAUSE_MS = 1500;
+const MAX_SEGMENT_MS = 20000;
+
+const TIMESTAMPED_LINE = /^\s*\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\.\d+)?\]\s*(.*)$/;
+const SPEAKER_PREFIX = /^([A-Z][\w.'-]*(?: [A-Z0-9][\w.'-]*){0,3}):\s+(.+)$/;
+
+/** Word timings as AssemblyAI reports them, in milliseconds. */
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number | null;
+  speaker?: string | null;
+}
+
+/** The parts of an AssemblyAI transcript that are kept. */
+export interface AssemblyTranscriptResult {
+  text?: string | null;
+  words?: TimedWord[] | null;
+  utterances?: Array<{ speaker: string; words: TimedWord[] }> | null;
+  audio_duration?: number | null; // Seconds
+  language_code?: string | null;
+}
+
+/** "01:05" for a minute and five seconds, "1:02:03" past the hour. */
+export const formatTimestamp = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const [hours, minutes, seconds] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+/** Diarization labels read "A", "B"; show them as "Speaker A". */
+export const speakerLabel = (speaker: string): string => (/^[A-Z0-9]{1,2}$/.test(speaker) ? `Speaker ${speaker}` : speaker);
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000 : null;
+
+const toSegment = (words: TimedWord[]): TranscriptSegment => {
+  const kept: TranscriptWord[] = words.map(word => ({
+    text: word.text,
+    startMs: word.start,
+    endMs: word.end,
+    confidence: typeof word.confidence === 'number' ? word.confidence : null,
+  }));
+  return {
+    startMs: kept[0].startMs,
+    endMs: kept[kept.length - 1].endMs,
+    speaker: words[0].speaker ?? null,
+    text: kept.map(word => word.text).join(' '),
+    confidence: average(kept.flatMap(word => (word.confidence === null ? [] : [word.confidence]))),
+    words: kept,
+  };
+};
+
+/** Groups timed words into lines at speaker changes, long pauses, and sentence ends once a line runs long. */
+export const segmentWords = (words: TimedWord[]): TranscriptSegment[] => {
+  const groups: TimedWord[][] = [];
+  let current: TimedWord[] = [];
+  words.forEach(word => {
+    const previous = current[current.length - 1];
+    const breaks = previous && (
+      (word.speaker ?? null) !== (previous.speaker ?? null) ||
+      word.start - previous.end > MAX_PAUSE_MS ||
+      (previous.end - current[0].start > MAX_SEGMENT_MS && /[.?!]["”']?$/.test(previous.text))
+    );
+    if (breaks) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(word);
+  });
+  if (current.length > 0) groups.push(current);
+  return groups.map(toSegment);
+};
+
+/** Keeps AssemblyAI's word timings, split into lines by speaker turn when speaker labels were requested. */
+export const fromAssemblyTranscript = (result: AssemblyTranscriptResult): MediaTranscript => {
+  const segments = result.utterances && result.utterances.length > 0
+    ? result.utterances.flatMap(utterance => segmentWords(utterance.words.map(word => ({ ...word, speaker: utterance.speaker }))))
+    : segmentWords(result.words ?? []);
+  return {
+    source: 'assemblyai',
+    language: result.language_code ?? null,
+    durationMs: typeof result.audio_duration === 'number' ? Math.round(result.audio_duration * 1000) : null,
+    text: result.text ?? segments.map(segment => segment.text).join(' '),
+    segments,
+  };
+};
+
+/**
+ * Reads a transcript written with a "[MM:SS]" stamp at the start of each line
+ * and an optional "Speaker 1:" label. Lines without a stamp continue the line
+ * before; each line ends where the next begins. Gives no word timings.
+ */
+export const parseTimestampedTranscript = (text: string, durationMs: number | null = null): MediaTranscript => {
+  const segments: TranscriptSegment[] = [];
+  text.split('\n').forEach(raw => {
+    const stamped = raw.match(TIMESTAMPED_LINE);
+    if (!stamped) {
+      const current = segments[segments.length - 1];
+      if (current && raw.trim()) current.text = `${current.text} ${raw.trim()}`.trim();
+      return;
+    }
+    const startMs = ((Number(stamped[1] ?? 0) * 60 + Number(stamped[2])) * 60 + Number(stamped[3])) * 1000;
+    const labeled = stamped[4].match(SPEAKER_PREFIX);
+    segments.push({
+      startMs,
+      endMs: startMs,
+      speaker: labeled ? labeled[1] : null,
+      text: (labeled ? labeled[2] : stamped[4]).trim(),
+      confidence: null,
+      words: [],
+    });
+  });
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    segment.endMs = next ? Math.max(segment.startMs, next.startMs) : Math.max(segment.startMs, durationMs ?? segment.startMs);
+  });
+  return { source: 'gemini', language: null, durationMs, text: text.trim(), segments };
+};
+
+/** What a segment's speaker is called: the person they were identified as, else their label. */
+export const speakerName = (speaker: string, names: Record<string, string> = {}): string => names[speaker] || speakerLabel(speaker);
+
+/**
+ * The transcript as searchable, analyzable text: one stamped and labeled line
+ * per segment, with speakers named where a reviewer has identified them.
+ */
+export const formatTranscriptText = (transcript: MediaTranscript, names: Record<string, string> = {}): string => {
+  if (transcript.segments.length === 0) return transcript.text;
+  return transcript.segments
+    .map(segment => `[${formatTimestamp(segment.startMs)}] ${segment.speaker ? `${speakerName(segment.speaker, names)}: ` : ''}${segment.text}`)
+    .join('\n');
+};
+
+/**
+ * Carries character offsets from a transcript's text into the same
+ * transcript's text written again with other speaker names, so spans marked
+ * in the old text (redactions) cover the same words in the new. Each line
+ * keeps its words and changes only its label, so an offset moves with its
+ * line's unchanged tail. An offset inside the changed label widens a span
+ * over the whole new label rather than uncovering any of it. Null when the
+ * texts do not line up line for line, i.e. were not written from the same
+ * transcript.
+ */
+export const remapTranscriptOffsets = (
+  oldText: string,
+  newText: string
+): ((offset: number, edge: 'start' | 'end') => number) | null => {
+  const [oldLines, newLines] = [oldText.split('\n'), newText.split('\n')];
+  if (oldLines.length !== newLines.length) return null;
+
+  let [oldStart, newStart] = [0, 0];
+  const lines = oldLines.map((oldLine, i) => {
+    const newLine = newLines[i];
+    let tail = 0;
+    while (tail < Math.min(oldLine.length, newLine.length) && oldLine[oldLine.length - 1 - tail] === newLine[newLine.length - 1 - tail]) tail++;
+    const line = { oldStart, newStart, oldLength: oldLine.length, oldHead: oldLine.length - tail, newHead: newLine.length - tail };
+    oldStart += oldLine.length + 1;
+    newStart += newLine.length + 1;
+    return line;
+  });
+
+  return (offset, edge) => {
+    const line = lines.find(candidate => offset <= candidate.oldStart + candidate.oldLength) ?? lines[lines.length - 1];
+    const within = Math.max(0, offset - line.oldStart);
+    if (within === 0) return line.newStart;
+    if (within >= line.oldHead) return line.newStart + line.newHead + (within - line.oldHead);
+    return edge === 'start' ? line.newStart : line.newStart + line.newHead;
+  };
+};
+
+/** Talk time per diarization label, most talkative first. */
+export const speakerStats = (transcript: MediaTranscript): Array<Omit<TranscriptSpeaker, 'name' | 'entityId'>> => {
+  const totals = new Map<string, { talkMs: number; segmentCount: number; wordCount: number }>();
+  transcript.segments.forEach(segment => {
+    if (!segment.speaker) return;
+    const total = totals.get(segment.speaker) ?? { talkMs: 0, segmentCount: 0, wordCount: 0 };
+    total.talkMs += Math.max(0, segment.endMs - segment.startMs);
+    total.segmentCount += 1;
+    total.wordCount += segment.words.length || segment.text.split(/\s+/).filter(Boolean).length;
+    totals.set(segment.speaker, total);
+  });
+  const allTalkMs = Array.from(totals.values()).reduce((sum, total) => sum + total.talkMs, 0);
+  return Array.from(totals, ([label, total]) => ({
+    label,
+    ...total,
+    share: allTalkMs > 0 ? Math.round((total.talkMs / allTalkMs) * 1000) / 1000 : 0,
+  })).sort((a, b) => b.talkMs - a.talkMs || a.label.localeCompare(b.label));
+};
+
+/**
+ * The segment being spoken at a playback time, or -1 between segments. A
+ * segment with no length (the last of an untimed transcript) runs until the end.
+ */
+export const segmentIndexAt = (segments: TranscriptSegment[], timeMs: number): number => {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle].startMs <= timeMs) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (found < 0) return -1;
+  const segment = segments[found];
+  return timeMs < segment.endMs || segment.endMs <= segment.startMs ? found : -1;
+};
+
+/** The word being spoken at a playback time, or -1. */
+export const wordIndexAt = (segment: TranscriptSegment, timeMs: number): number =>
+  segment.words.findIndex(word => timeMs >= word.startMs && timeMs < word.endMs);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Reads documents.transcript back, or null when it is absent or malformed. */
+export const parseStoredTranscript = (value: Json | null | undefined): MediaTranscript | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const stored = value as unknown as MediaTranscript;
+  if (!Array.isArray(stored.segments)) return null;
+  const segments = stored.segments.filter(segment =>
+    segment && isNumber(segment.startMs) && isNumber(segment.endMs) && typeof segment.text === 'string'
+  );
+  return {
+    source: stored.source === 'assemblyai' ? 'assemblyai' : 'gemini',
+    language: typeof stored.language === 'string' ? stored.language : null,
+    durationMs: isNumber(stored.durationMs) ? stored.durationMs : null,
+    text: typeof stored.text === 'string' ? stored.text : segments.map(segment => segment.text).join(' '),
+    segments: segments.map(segment => ({
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      speaker: typeof segment.speaker === 'string' ? segment.speaker : null,
+      text: segment.text,
+      confidence: isNumber(segment.confidence) ? segment.confidence : null,
+      words: Array.isArray(segment.words)
+        ? segment.words.filter(word => word && typeof word.text === 'string' && isNumber(word.startMs) && isNumber(word.endMs))
+        : [],
+    })),
+  };
+};
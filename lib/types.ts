@@ -10,6 +10,218 @@ export interface BatesNumber {
   prefix: string;
   number: number;
   formatted: string; // e.g., "DEF-0001"
+  // Page-level range. Single-page items and legacy records omit these.
+  endNumber?: number;
+  endFormatted?: string; // e.g., "DEF-0012"
+  pageCount?: number;
+  // Last number held for child documents (archive entries, attachments) that follow this one.
+  familyEndNumber?: number;
+}
+
+/** One document in a parent/child family, listed in production order. */
+export interface FamilyMember {
+  id: string;
+  parentId: string | null;
+  name: string;
+  mimeType: string | null;
+  batesFormatted: string | null;
+  batesEndFormatted: string | null;
+  status: string | null;
+  depth: number;
+  signedUrl: string | null;
+}
+
+export type DuplicateGroupKind = 'exact' | 'near';
+
+export interface DuplicateMember {
+  id: string;
+  name: string;
+  batesFormatted: string | null;
+  /** Estimated text overlap with the document it was matched against; 1 for the master and exact copies. */
+  similarity: number | null;
+  suppressed: boolean;
+  analyzed: boolean;
+  status: string | null;
+  contentHash: string | null;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  kind: DuplicateGroupKind;
+  masterDocumentId: string | null;
+  reviewedAt: string | null;
+  members: DuplicateMember[];
+}
+
+export interface EmailThreadSummary {
+  id: string;
+  subject: string | null;
+  rootDocumentId: string | null;
+  messageCount: number;
+  inclusiveCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+/** One message of a reconstructed thread, in tree order. */
+export interface ThreadMessage {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  isInclusive: boolean;
+  name: string;
+  batesFormatted: string | null;
+  subject: string | null;
+  from: string | null;
+  date: string | null;
+  signedUrl: string | null;
+}
+
+export type PrivilegeStatus = 'not_privileged' | 'privileged' | 'partial';
+export type PrivilegeBasis = 'attorney_client' | 'work_product';
+
+/** AI privilege screen attached to an analysis; a prompt for review, never a determination. */
+export interface PrivilegeScreen {
+  likelyPrivileged: boolean;
+  bases: PrivilegeBasis[];
+  reasons: string[];
+  attorneys: string[];
+}
+
+/** Reviewer privilege coding. A null status means the document has not been coded. */
+export interface PrivilegeCoding {
+  status: PrivilegeStatus | null;
+  bases: PrivilegeBasis[];
+  /** Overrides the generated privilege log description. */
+  description: string | null;
+  reviewedAt: string | null;
+}
+
+export type CodingFieldType = 'choice' | 'multi' | 'flag' | 'text';
+
+/** One reviewer decision in a project's coding layout. `options` apply to choice and multi fields. */
+export interface CodingField {
+  key: string;
+  label: string;
+  type: CodingFieldType;
+  options?: string[];
+}
+
+/** A project's coding layout. `id` is null while the project uses the default layout. */
+export interface CodingLayout {
+  id: string | null;
+  name: string;
+  fields: CodingField[];
+}
+
+/** A string for choice and text fields, a list for multi fields, true for a set flag. */
+export type CodingValue = string | string[] | boolean;
+export type CodingValues = Record<string, CodingValue>;
+
+/** How a review batch's documents were chosen. Bates bounds are inclusive. */
+export type ReviewBatchCriteria =
+  | { type: 'bates'; from: string; to: string }
+  | { type: 'custodian'; custodian: string }
+  | { type: 'search'; query: string };
+
+export type ReviewBatchStatus = 'open' | 'checked_out' | 'complete';
+
+export interface ReviewBatch {
+  id: string;
+  name: string;
+  criteria: ReviewBatchCriteria;
+  assignee: string | null;
+  checkedOutBy: string | null;
+  checkedOutAt: string | null;
+  completedAt: string | null;
+  status: ReviewBatchStatus;
+  documentCount: number;
+  codedCount: number;
+  createdAt: string;
+}
+
+export interface ReviewBatchDocument {
+  documentId: string;
+  position: number;
+  name: string;
+  batesFormatted: string | null;
+  coded: boolean;
+  codedBy: string | null;
+}
+
+export type RedactionReason =
+  | 'pii_ssn'
+  | 'pii_dob'
+  | 'pii_account'
+  | 'pii_phone'
+  | 'pii_minor'
+  | 'privilege_ac'
+  | 'privilege_wp'
+  | 'confidential'
+  | 'other';
+export type RedactionStatus = 'suggested' | 'accepted' | 'rejected';
+
+/** A page rectangle as fractions of the page size, origin top-left. */
+export interface RedactionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A redaction is a box on a page, a span of the extracted text, or both
+ * (suggestions found in OCR text carry the matching span so the text layer
+ * and the load-file text are redacted along with the image).
+ */
+export interface Redaction {
+  id: string;
+  documentId: string;
+  page: number | null;
+  box: RedactionBox | null;
+  textStart: number | null;
+  textEnd: number | null;
+  reason: RedactionReason;
+  source: 'manual' | 'suggested';
+  status: RedactionStatus;
+  createdAt: string;
+}
+
+export interface GeometryWord extends RedactionBox {
+  text: string;
+}
+
+/** Word positions for one page, from the PDF text layer or OCR. */
+export interface PageGeometry {
+  pageNumber: number;
+  words: GeometryWord[];
+}
+
+export type DatePrecision = 'year' | 'month' | 'day' | 'minute';
+
+/** Something the document says happened, with its date normalized to the calendar. */
+export interface TimelineEvent {
+  date: string | null; // ISO 8601 cut to its precision: "2023", "2023-04", "2023-04-05" or "2023-04-05T14:30"; null when unresolved
+  precision: DatePrecision | null;
+  timezone: string | null; // UTC offset ("-05:00") or IANA zone, when stated
+  approximate: boolean;
+  dateText: string; // The date as the document words it
+  description: string;
+  entities: string[];
+  sourceBates: string;
+  quote: string | null; // Supporting passage, verbatim
+  mediaTimeMs?: number; // Video: where in the recording the event is seen
+}
+
+export type VisualLogCategory = 'vehicle' | 'person' | 'action' | 'overlay' | 'scene';
+
+/** Something seen in a video's keyframes, at its time in the recording. */
+export interface VisualLogEntry {
+  timeMs: number;
+  category: VisualLogCategory;
+  description: string;
+  entities: string[];
+  onScreenText: string | null; // Burned-in date/time, unit number or other overlay, as shown
 }
 
 export interface AnalysisData {
@@ -17,9 +229,12 @@ export interface AnalysisData {
   evidenceType: string; // e.g., "Body Cam", "Deposition", "Email", "Contract"
   entities: string[]; // People, Places, Organizations
   dates: string[];
+  events?: TimelineEvent[];
+  visualLog?: VisualLogEntry[]; // Video: what the sampled keyframes show
   relevantFacts: string[];
   transcription?: string; // For A/V
   sentiment?: 'Hostile' | 'Cooperative' | 'Neutral';
+  privilegeScreen?: PrivilegeScreen;
 }
 
 export enum CasePerspective {
@@ -44,6 +259,23 @@ export interface DiscoveryFile {
   cloudDocumentId?: string; // Document ID in Supabase
   storagePath?: string; // Path in Supabase Storage
   signedUrl?: string; // Signed URL for accessing file
+  // Set for documents imported from another party's production
+  producingBates?: ProducingBates;
+  // Bates number of the master copy when this upload duplicates it exactly
+  duplicateOfBates?: string | null;
+  privilege?: PrivilegeCoding;
+  // Reviewer coding under the project's coding layout
+  coding?: CodingValues;
+  // Where the file was collected from
+  custodianId?: string | null;
+  originalPath?: string | null; // Path within the collected folder, e.g. "Inbox/2019/memo.pdf"
+  fileModifiedAt?: string | null; // File system modification time, ISO 8601
+}
+
+export interface ProducingBates {
+  begin: string;
+  end: string;
+  party?: string | null;
 }
 
 export interface PresignedUpload {
@@ -82,9 +314,20 @@ export enum ViewMode {
   DASHBOARD = 'DASHBOARD',
   EVIDENCE_VIEWER = 'EVIDENCE_VIEWER',
   TIMELINE = 'TIMELINE',
+  DUPLICATES = 'DUPLICATES',
+  REVIEW_BATCHES = 'REVIEW_BATCHES',
+  ENTITIES = 'ENTITIES',
+  CONTRADICTIONS = 'CONTRADICTIONS',
   CLI = 'CLI'
 }
 
+// Props shared by review panels that link to documents in the viewer
+export interface OpenDocumentProps {
+  // Cloud ids of documents loaded in this session; only these can be opened in the viewer
+  openableIds: Set<string>;
+  onOpenDocument: (documentId: string) => void;
+}
+
 // Cloud database types
 export interface Project {
   id: string;
@@ -92,10 +335,288 @@ export interface Project {
   description?: string;
   bates_prefix: string;
   bates_counter: number;
+  created_by?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Project access
+export type ProjectRole = 'owner' | 'attorney' | 'reviewer' | 'read_only';
+
+export interface ProjectMember {
+  id: string;
+  email: string;
+  userId: string | null; // Null until the invited user first signs in
+  role: ProjectRole;
+  createdAt: string;
+}
+
+// Who or what documents were collected from
+export type CustodianKind = 'person' | 'source';
+
+export interface Custodian {
+  id: string;
+  name: string;
+  kind: CustodianKind;
+  email: string | null;
+  description: string | null;
+  documentCount: number;
+  createdAt: string;
+}
+
+// --- Entity resolution ---
+
+export type EntityType = 'person' | 'organization' | 'location' | 'vehicle' | 'badge_number' | 'other';
+
+/** A person, organization, place, vehicle or badge number, resolved across the case's documents. */
+export interface CaseEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+  aliases: string[]; // Names merged into this one
+  documentCount: number;
+  mentionCount: number;
+}
+
+export type EntityMergeConfidence = 'high' | 'medium' | 'low';
+
+/** Two entities that may be the same; a reviewer confirms or dismisses it. */
+export interface EntityMergeSuggestion {
+  entityId: string;
+  otherEntityId: string;
+  reason: string;
+  confidence: EntityMergeConfidence;
+}
+
+export interface EntityDocumentReference {
+  documentId: string;
+  name: string;
+  batesNumber: string | null;
+  mentions: string[]; // The names the document uses
+  facts: string[]; // Facts and events from its analysis that name the entity
+}
+
+export interface EntityDetail {
+  entity: CaseEntity;
+  documents: EntityDocumentReference[];
+}
+
+// --- Cross-document contradictions ---
+
+export type ContradictionSeverity = 'high' | 'medium' | 'low';
+
+export type ContradictionStatus = 'open' | 'confirmed' | 'dismissed';
+
+/** One side of a contradiction: what a document says, in its words where possible. */
+export interface ContradictionStatement {
+  documentId: string;
+  batesNumber: string;
+  quote: string;
+  verbatim: boolean; // Found word for word in the document's text; otherwise the model's paraphrase
+}
+
+/** Two documents that disagree about the same entity or event. */
+export interface Contradiction {
+  id: string;
+  entityId: string | null;
+  topic: string;
+  explanation: string;
+  severity: ContradictionSeverity;
+  status: ContradictionStatus;
+  statements: [ContradictionStatement, ContradictionStatement];
+}
+
+export type ContradictionReportStatus = 'running' | 'complete' | 'failed';
+
+/** One run of the cross-document comparison. */
+export interface ContradictionReport {
+  id: string;
+  status: ContradictionReportStatus;
+  documentCount: number;
+  topicCount: number; // Entities and events compared
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  contradictions: Contradiction[];
+}
+
+// --- Deposition transcripts ---
+
+/** A place in a transcript, cited as page:line. */
+export interface PageLine {
+  page: number;
+  line: number;
+}
+
+/** A numbered transcript line; the offsets span its text (after the line number) in extracted_text. */
+export interface DepositionLine extends PageLine {
+  charStart: number;
+  charEnd: number;
+}
+
+export type DepositionTurnKind = 'question' | 'answer' | 'colloquy';
+
+/** A question, an answer, or something said on the record by counsel or the reporter. */
+export interface DepositionTurn {
+  kind: DepositionTurnKind;
+  speaker: string | null; // Examining attorney for questions, the witness for answers, e.g. "MR. SMITH" for colloquy
+  start: PageLine;
+  end: PageLine;
+  firstLine: number; // Index into DepositionTranscript.lines
+  lastLine: number;
+}
+
+/** Where an attorney took over the questioning ("BY MR. JONES:"). */
+export interface DepositionExamination {
+  attorney: string;
+  heading: string | null; // e.g. "CROSS-EXAMINATION"
+  start: PageLine;
+}
+
+/** The page:line map of a deposition or hearing transcript, stored in documents.deposition. */
+export interface DepositionTranscript {
+  witness: string | null;
+  firstPage: number;
+  lastPage: number;
+  lines: DepositionLine[];
+  examinations: DepositionExamination[];
+  turns: DepositionTurn[];
+}
+
+/** A transcript as the testimony view shows it: each turn with its text. */
+export interface DepositionTestimony {
+  documentId: string;
+  batesNumber: string;
+  witness: string | null;
+  firstPage: number;
+  lastPage: number;
+  examinations: DepositionExamination[];
+  turns: Array<Pick<DepositionTurn, 'kind' | 'speaker' | 'start' | 'end'> & { text: string }>;
+}
+
+// Timed transcripts of audio and video, stored in documents.transcript
+export type TranscriptSource = 'assemblyai' | 'gemini';
+
+export interface TranscriptWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  confidence: number | null; // 0-1
+}
+
+/** One speaker's stretch of speech; the transcript pane shows one per line. */
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  speaker: string | null; // Diarization label, e.g. "A" or "Speaker 1"
+  text: string;
+  confidence: number | null;
+  words: TranscriptWord[]; // Empty when the transcriber gives only segment times
+}
+
+export interface MediaTranscript {
+  source: TranscriptSource;
+  language: string | null;
+  durationMs: number | null;
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+/** Where a document's thumbnail images are stored. */
+export interface DocumentThumbnails {
+  poster: string; // Storage path of the image that stands for the document
+  frames: Array<{ timeMs: number; path: string }>; // Video keyframes, in time order
+  generatedAt: string;
+}
+
+/** A document's thumbnails as signed URLs, for display. */
+export interface ThumbnailSet {
+  posterUrl: string | null;
+  frames: Array<{ timeMs: number; url: string }>;
+}
+
+/** What is burned into a clip's picture. */
+export interface ClipOverlays {
+  bates: boolean; // The clip's Bates number, top right
+  timestamp: boolean; // The running time in the source recording, bottom left
+  subtitles: boolean; // The source transcript
+}
+
+/** A clip cut from an audio or video document, stored as a document of its own. */
+export interface MediaClip {
+  id: string;
+  documentId: string;
+  sourceDocumentId: string;
+  sourceBates: string | null;
+  batesFormatted: string | null;
+  name: string;
+  description: string | null;
+  startMs: number; // In the source recording
+  endMs: number;
+  overlays: ClipOverlays;
+  createdAt: string;
+  signedUrl: string | null;
+}
+
+/** A diarization label with the person a reviewer identified it as and how much they spoke. */
+export interface TranscriptSpeaker {
+  label: string;
+  name: string | null;
+  entityId: string | null;
+  talkMs: number;
+  segmentCount: number;
+  wordCount: number;
+  share: number; // Fraction of all talk time, 0-1
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+// Audit trail
+export type AuditAction =
+  | 'auth.sign_in'
+  | 'project.create' | 'project.view' | 'project.update' | 'project.delete'
+  | 'member.add' | 'member.update' | 'member.remove'
+  | 'custodian.create'
+  | 'entity.index' | 'entity.update' | 'entity.merge' | 'entity.dismiss'
+  | 'storage.presign' | 'storage.manifest'
+  | 'document.upload' | 'document.create' | 'document.import' | 'document.view' | 'document.update'
+  | 'document.analyze' | 'document.transcribe' | 'document.code' | 'document.privilege' | 'document.redact'
+  | 'document.download' | 'document.delete' | 'document.speakers' | 'document.clip'
+  | 'layout.update'
+  | 'batch.create' | 'batch.assign' | 'batch.delete' | 'batch.check_out' | 'batch.check_in'
+  | 'duplicates.resolve' | 'duplicates.dismiss' | 'threads.rebuild'
+  | 'contradictions.run' | 'contradictions.review'
+  | 'job.create' | 'job.view' | 'job.update' | 'job.delete'
+  | 'search' | 'chat'
+  | 'export.production' | 'export.loadfile' | 'export.privilege_log' | 'export.redaction_log' | 'export.custody_report'
+  | 'export.deposition_digest' | 'export.exhibits'
+  | 'audit.view';
+
+export interface AuditEntry {
+  id: string;
+  sequence: number; // Position in the project's chain, from 1
+  projectId: string | null;
+  actorId: string;
+  actorEmail: string;
+  action: AuditAction;
+  documentId: string | null;
+  batesNumber: string | null;
+  hashBefore: string | null;
+  hashAfter: string | null;
+  ipAddress: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+  previousHash: string;
+  entryHash: string;
+}
+
+export type AuditChainStatus =
+  | { valid: true; entryCount: number; headHash: string | null }
+  | { valid: false; entryCount: number; brokenAt: number; reason: string };
+
 export interface CloudDocument {
   id: string;
   project_id: string;
@@ -113,3 +634,37 @@ export interface CloudDocument {
   created_at: string;
   updated_at: string;
 }
+
+// Full-text search
+export interface SearchHitMatch {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  documentId: string;
+  name: string;
+  batesNumber: string;
+  chunkIndex: number;
+  charStart: number; // Chunk offsets into the document's extracted_text
+  charEnd: number;
+  rank: number;
+  snippet: string;
+  snippetStart: number;
+  highlights: SearchHitMatch[]; // Relative to snippet
+  matches: SearchHitMatch[]; // Absolute offsets into extracted_text
+}
+
+// Semantic retrieval
+export interface RetrievedPassage {
+  documentId: string;
+  batesNumber: string;
+  name: string;
+  chunkIndex: number;
+  charStart: number | null;
+  charEnd: number | null;
+  text: string;
+  similarity: number;
+  /** Page:line span (e.g. "45:12-46:3") when the passage comes from a deposition transcript. */
+  pageLines?: string | null;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { describeFramesForAnalysis, frameLabel, normalizeVisualLog, parseMediaTime, recordingEndMs, sampleFrames, visualLogEvents } from './visualLog';
+import type { VisualLogEntry } from './types';
+
+const entry = (timeMs: number, description: string, onScreenText: string | null = null): VisualLogEntry => ({
+  timeMs,
+  category: 'vehicle',
+  description,
+  entities: [],
+  onScreenText,
+});
+
+describe('sampleFrames', () => {
+  it('keeps every frame when there are few enough', () => {
+    const frames = [{ timeMs: 0 }, { timeMs: 5000 }];
+    expect(sampleFrames(frames, 4)).toBe(frames);
+  });
+
+  it('spreads the sample evenly, keeping the first and last frames', () => {
+    const frames = Array.from({ length: 10 }, (_, i) => ({ timeMs: i * 1000 }));
+    expect(sampleFrames(frames, 4).map(frame => frame.timeMs)).toEqual([0, 3000, 6000, 9000]);
+  });
+});
+
+describe('frame labels', () => {
+  it('labels frames by their time and reads the label back', () => {
+    expect(frameLabel(65_000)).toBe('[Frame at 01:05]');
+    expect(parseMediaTime(frameLabel(65_000))).toBe(65_000);
+    expect(parseMediaTime('1:02:03')).toBe(3_723_000);
+    expect(parseMediaTime(12.5)).toBe(12_500);
+    expect(parseMediaTime('soon')).toBeNull();
+  });
+
+  it('asks for the visual log in the prompt', () => {
+    expect(describeFramesForAnalysis(12)).toContain('12 frames');
+    expect(describeFramesForAnalysis(12)).toContain('"visualLog"');
+  });
+});
+
+describe('normalizeVisualLog', () => {
+  it('keeps timed, described entries in time order', () => {
+    const log = normalizeVisualLog([
+      { time: '00:40', category: 'Person', description: 'Officer approaches driver door', entities: ['Officer Diaz', 'Officer Diaz'] },
+      { time: '00:05', category: 'vehicle', description: 'Gray sedan pulls onto shoulder', onScreenText: '04/05/2023 14:30:12' },
+      { time: 'later', description: 'No time' },
+      { time: '00:50', description: '' },
+      { time: '00:20', category: 'weather', description: 'Rain on the windshield', onScreenText: '  ' },
+    ]);
+    expect(log).toEqual([
+      { timeMs: 5000, category: 'vehicle', description: 'Gray sedan pulls onto shoulder', entities: [], onScreenText: '04/05/2023 14:30:12' },
+      { timeMs: 20_000, category: 'scene', description: 'Rain on the windshield', entities: [], onScreenText: null },
+      { timeMs: 40_000, category: 'person', description: 'Officer approaches driver door', entities: ['Officer Diaz'], onScreenText: null },
+    ]);
+  });
+
+  it('drops entries past the end of the recording', () => {
+    expect(normalizeVisualLog([{ time: '02:00', description: 'Late' }], 60_000)).toEqual([]);
+    expect(normalizeVisualLog('not a list')).toEqual([]);
+  });
+
+  it('ends the recording at its transcript, else at the last frame shown', () => {
+    const frames = [{ timeMs: 0 }, { timeMs: 30_000 }, { timeMs: 55_000 }];
+    const log = [{ time: '00:50', description: 'Driver exits' }, { time: '01:30', description: 'Made up' }];
+    expect(normalizeVisualLog(log, recordingEndMs(frames)).map(entry => entry.description)).toEqual(['Driver exits']);
+    expect(normalizeVisualLog(log, recordingEndMs(frames, 95_000))).toHaveLength(2);
+    expect(recordingEndMs([])).toBeNull();
+  });
+});
+
+describe('visualLogEvents', () => {
+  it('dates entries from the overlay clock, counting from it for entries without one', () => {
+    const events = visualLogEvents(
+      [entry(5000, 'Sedan pulls over'), entry(20_000, 'Dash clock visible', '04/05/2023 14:30'), entry(200_000, 'Driver steps out')],
+      { sourceBates: 'DEF-0001' }
+    );
+    expect(events.map(event => [event.date, event.approximate, event.mediaTimeMs])).toEqual([
+      ['2023-04-05T14:29', true, 5000],
+      ['2023-04-05T14:30', false, 20_000],
+      ['2023-04-05T14:33', true, 200_000],
+    ]);
+    expect(events[1].dateText).toBe('04/05/2023 14:30');
+    expect(events[0].dateText).toBe('00:05 into the recording');
+    expect(events[0].sourceBates).toBe('DEF-0001');
+  });
+
+  it('leaves entries undated when no overlay shows a clock', () => {
+    const [event] = visualLogEvents([entry(90_000, 'Pedestrian crosses', 'UNIT 14')], { sourceBates: 'DEF-0002' });
+    expect(event.date).toBeNull();
+    expect(event.precision).toBeNull();
+    expect(event.dateText).toBe('01:30 into the recording');
+  });
+});
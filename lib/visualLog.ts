@@ -0,0 +1,121 @@
+import { normalizeDate, normalizedDateValue, type NormalizedDate } from './dates';
+import { formatTimestamp } from './transcripts';
+import type { TimelineEvent, VisualLogCategory, VisualLogEntry } from './types';
+
+// Enough frames to follow a recording without one request running to dozens of images
+export const MAX_VISION_FRAMES = 24;
+
+export const VISUAL_LOG_CATEGORIES: VisualLogCategory[] = ['vehicle', 'person', 'action', 'overlay', 'scene'];
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * At most `max` frames spread evenly across the recording, always keeping the
+ * first and the last. Frames are expected in time order.
+ */
+export const sampleFrames = <T extends { timeMs: number }>(frames: T[], max: number = MAX_VISION_FRAMES): T[] => {
+  if (frames.length <= max) return frames;
+  if (max <= 1) return frames.slice(0, max);
+  const picked = new Set<number>();
+  for (let i = 0; i < max; i++) picked.add(Math.round((i * (frames.length - 1)) / (max - 1)));
+  return Array.from(picked).sort((a, b) => a - b).map(index => frames[index]);
+};
+
+/** Label sent with each frame, which the model gives back as the entry's time. */
+export const frameLabel = (timeMs: number): string => `[Frame at ${formatTimestamp(timeMs)}]`;
+
+/** Prompt lines that ask for a visual log of the frames that follow. */
+export const describeFramesForAnalysis = (frameCount: number): string =>
+  [
+    `VIDEO KEYFRAMES: ${frameCount} frames sampled from the recording follow, each labeled with its time into the recording.`,
+    '- Add "visualLog": an array of what the frames show, in time order, as objects with time (the "MM:SS" or "H:MM:SS" of the frame it is seen in), ' +
+      `category (one of: ${VISUAL_LOG_CATEGORIES.join(', ')}), description (one line: what is seen), entities (people, vehicles, plates, units or places named or legible), ` +
+      'and onScreenText (any burned-in date, time, unit or speed overlay, exactly as shown, else null)',
+    '- Log vehicles, people, actions and changes of scene; do not guess at identities that cannot be read from the frames',
+    '- Use what the frames show to describe the recording even when it has no speech',
+  ].join('\n');
+
+/** Milliseconds from "MM:SS", "H:MM:SS" or a bare number of seconds; null when unreadable. */
+export const parseMediaTime = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.round(value * 1000) : null;
+  const match = asString(value).replace(/^\[?frame at\s*/i, '').match(/^(?:(\d{1,2}):)?(\d{1,3}):(\d{2})(?:\.(\d+))?\]?$/);
+  if (!match) return null;
+  const [hours, minutes, seconds] = [parseInt(match[1] ?? '0', 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  const fraction = match[4] ? Math.round(parseFloat(`0.${match[4]}`) * 1000) : 0;
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + fraction;
+};
+
+/**
+ * Where the recording ends, for bounding its visual log: the transcript's
+ * duration when it has one, else the time of the last frame the model saw.
+ */
+export const recordingEndMs = (frames: Array<{ timeMs: number }>, durationMs: number | null = null): number | null =>
+  durationMs ?? (frames.length > 0 ? frames[frames.length - 1].timeMs : null);
+
+/**
+ * Cleans the visual log the model returned: entries need a readable time and
+ * a description, unknown categories become 'scene', and times past the end of
+ * the recording are dropped. Sorted by time.
+ */
+export const normalizeVisualLog = (value: unknown, durationMs: number | null = null): VisualLogEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .flatMap((raw): VisualLogEntry[] => {
+      if (!raw || typeof raw !== 'object') return [];
+      const item = raw as Record<string, unknown>;
+      const description = asString(item.description);
+      const timeMs = parseMediaTime(item.time ?? item.timeMs);
+      if (!description || timeMs === null) return [];
+      if (durationMs !== null && timeMs > durationMs) return [];
+
+      const category = asString(item.category).toLowerCase() as VisualLogCategory;
+      const entities = Array.isArray(item.entities) ? Array.from(new Set(item.entities.map(asString).filter(Boolean))) : [];
+      return [{
+        timeMs,
+        category: VISUAL_LOG_CATEGORIES.includes(category) ? category : 'scene',
+        description,
+        entities,
+        onScreenText: asString(item.onScreenText) || null,
+      }];
+    })
+    .sort((a, b) => a.timeMs - b.timeMs);
+};
+
+const shiftMinutes = (anchor: NormalizedDate, ms: number): string =>
+  new Date(normalizedDateValue({ date: anchor.date, timezone: null }) + ms).toISOString().slice(0, 16);
+
+/**
+ * Timeline events for a visual log. An entry whose overlay shows a date and
+ * time is placed there. The other entries are placed by counting from the
+ * first such overlay, so a camera that shows its clock once still dates the
+ * whole recording; those dates are marked approximate, since the clock is read
+ * only to the minute. Without any overlay clock the entries stay undated, at
+ * their time into the recording.
+ */
+export const visualLogEvents = (log: VisualLogEntry[], { sourceBates }: { sourceBates: string }): TimelineEvent[] => {
+  const read = log.map(entry => {
+    const date = entry.onScreenText ? normalizeDate(entry.onScreenText) : null;
+    return date?.precision === 'minute' ? date : null;
+  });
+  const anchorIndex = read.findIndex(date => date !== null);
+  const anchor = anchorIndex >= 0 ? { date: read[anchorIndex]!, timeMs: log[anchorIndex].timeMs } : null;
+
+  return log.map((entry, index): TimelineEvent => {
+    const shown = read[index];
+    const counted = !shown && anchor
+      ? { date: shiftMinutes(anchor.date, entry.timeMs - anchor.timeMs), timezone: anchor.date.timezone }
+      : null;
+    return {
+      date: shown?.date ?? counted?.date ?? null,
+      precision: shown || counted ? 'minute' : null,
+      timezone: shown?.timezone ?? counted?.timezone ?? null,
+      approximate: shown ? shown.approximate : counted !== null,
+      dateText: shown ? entry.onScreenText! : `${formatTimestamp(entry.timeMs)} into the recording`,
+      description: entry.description,
+      entities: entry.entities,
+      sourceBates,
+      quote: null,
+      mediaTimeMs: entry.timeMs,
+    };
+  });
+};
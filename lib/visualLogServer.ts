@@ -0,0 +1,43 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { extractKeyframes } from './mediaTranscoder';
+import { parseStoredThumbnails } from './thumbnails';
+import { sampleFrames } from './visualLog';
+
+export interface AnalysisKeyframe {
+  timeMs: number;
+  base64Data: string; // JPEG
+}
+
+/** Keyframes pulled from the video itself, sampled for analysis. */
+export async function keyframesFromVideo(content: Buffer, mimeType: string): Promise<AnalysisKeyframe[]> {
+  const frames = sampleFrames(await extractKeyframes({ inputBuffer: content, mimeType }));
+  return frames.map(frame => ({ timeMs: frame.timeMs, base64Data: frame.image.toString('base64') }));
+}
+
+/**
+ * Keyframes to show the model for a stored video: the ones its thumbnail job
+ * already saved when there are any, else pulled from the video. Empty for
+ * anything that is not a video.
+ */
+export async function loadAnalysisKeyframes(
+  supabase: SupabaseClient<Database>,
+  document: { id: string; mime_type: string | null; storage_path: string | null; thumbnails: Json | null }
+): Promise<AnalysisKeyframe[]> {
+  if (!document.mime_type?.startsWith('video/') || !document.storage_path) return [];
+
+  const stored = parseStoredThumbnails(document.thumbnails);
+  if (stored && stored.frames.length > 0) {
+    const keyframes: AnalysisKeyframe[] = [];
+    for (const frame of sampleFrames(stored.frames)) {
+      const { data: blob, error } = await supabase.storage.from('discovery-files').download(frame.path);
+      if (error || !blob) throw new Error(`Failed to download keyframe ${frame.path}: ${error?.message || 'empty file'}`);
+      keyframes.push({ timeMs: frame.timeMs, base64Data: Buffer.from(await blob.arrayBuffer()).toString('base64') });
+    }
+    return keyframes;
+  }
+
+  const { data: blob, error } = await supabase.storage.from('discovery-files').download(document.storage_path);
+  if (error || !blob) throw new Error(`Failed to download ${document.storage_path}: ${error?.message || 'empty file'}`);
+  return keyframesFromVideo(Buffer.from(await blob.arrayBuffer()), document.mime_type);
+}
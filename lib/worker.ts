@@ -1,7 +1,22 @@
 import { getSupabaseAdmin } from './supabaseClient';
 import { extractTextFromBase64, type ExtractionResult } from './extractionService';
 import { analyzeFileServer } from './openAIService';
+import { documentReferenceDate } from './chronology';
 import { LRUCache } from './cache';
+import { getEmbeddingProvider, toPgVector } from './embeddings';
+import { parseStoredChunks } from './textChunks';
+import { createChildDocuments } from './childDocuments';
+import { detectDuplicates } from './duplicatesServer';
+import { indexDocumentEntities } from './entitiesServer';
+import { queueThreadRebuild, rebuildEmailThreads } from './emailThreadsServer';
+import { runContradictionAnalysis } from './contradictionsServer';
+import { containerKind } from './fileTypes';
+import { refreshRedactionSuggestions } from './redactionsServer';
+import { loadDocumentTranscript, saveTranscriptText, transcribeMedia } from './transcriptionServer';
+import { parseStoredTranscript } from './transcripts';
+import { canThumbnail } from './thumbnails';
+import { generateDocumentThumbnails } from './thumbnailsServer';
+import { loadAnalysisKeyframes, type AnalysisKeyframe } from './visualLogServer';
 import type { Database, Json } from './database.types';
 
 type JobQueueRow = Database['public']['Tables']['job_queue']['Row'];
@@ -151,6 +166,21 @@ class JobWorker {
         case 'transcribe':
           await this.processTranscribeJob(job);
           break;
+        case 'embed':
+          await this.processEmbedJob(job);
+          break;
+        case 'thread':
+          await this.processThreadJob(job);
+          break;
+        case 'contradictions':
+          await this.processContradictionsJob(job);
+          break;
+        case 'thumbnail':
+          await this.processThumbnailJob(job);
+          break;
+        case 'speakers':
+          await this.processSpeakersJob(job);
+          break;
         default:
           throw new Error(`Unknown job type: ${job.job_type}`);
       }
@@ -188,7 +218,7 @@ class JobWorker {
     }
 
     const { data: fileData, error: storageError } = await supabase.storage
-      .from('documents')
+      .from('discovery-files')
       .download(document.storage_path);
 
     if (storageError || !fileData) {
@@ -201,18 +231,6 @@ class JobWorker {
     const base64Data = buffer.toString('base64');
     const contentHash = LRUCache.hashContent(buffer);
 
-    const existingDoc = await supabase
-      .from('documents')
-      .select('id')
-      .eq('content_hash', contentHash)
-      .eq('project_id', job.project_id || '')
-      .neq('id', document.id)
-      .limit(1);
-
-    if (existingDoc.data && existingDoc.data.length > 0) {
-      this.onProgress?.(job.id, 50, 'Duplicate content detected');
-    }
-
     const result: ExtractionResult = await extractTextFromBase64(
       base64Data,
       document.mime_type || undefined,
@@ -232,6 +250,9 @@ class JobWorker {
         extracted_text: result.text,
         text_chunks: textChunksForDb,
         content_hash: contentHash,
+        metadata: this.mergeExtractionMetadata(document.metadata, result),
+        page_geometry: (result.pageGeometry ?? null) as unknown as Json,
+        deposition: (result.deposition ?? null) as unknown as Json,
         processing_progress: 100,
         status: 'complete',
         updated_at: new Date().toISOString(),
@@ -242,9 +263,232 @@ class JobWorker {
       throw new Error(`Failed to update document: ${updateError.message}`);
     }
 
+    const duplicate = await detectDuplicates(supabase, {
+      ...document,
+      content_hash: contentHash,
+      extracted_text: result.text,
+    });
+    if (duplicate) {
+      const label = duplicate.kind === 'exact' ? 'Exact duplicate' : `Near duplicate (${Math.round(duplicate.similarity * 100)}%)`;
+      this.onProgress?.(job.id, 85, duplicate.suppressed ? `${label}; analysis suppressed` : `${label}; awaiting review`);
+    }
+
+    if (result.chunks.length > 0 && !duplicate?.suppressed) {
+      await this.enqueueFollowUpJob(job, document.id, 'embed');
+    }
+
+    if (canThumbnail(document.mime_type)) {
+      await this.enqueueFollowUpJob(job, document.id, 'thumbnail');
+    }
+
+    if (result.children && result.children.length > 0) {
+      await this.ingestChildDocuments(job, document, result);
+    }
+
+    if (document.project_id) {
+      try {
+        const suggested = await refreshRedactionSuggestions(supabase, document.id);
+        if (suggested > 0) this.onProgress?.(job.id, 90, `${suggested} redactions suggested`);
+      } catch (error) {
+        console.error(`Worker ${this.workerId} failed to suggest redactions for ${document.id}:`, error);
+      }
+    }
+
+    if (result.metadata.email && document.project_id) {
+      try {
+        await queueThreadRebuild(supabase, document.project_id);
+      } catch (error) {
+        console.error(`Worker ${this.workerId} failed to queue thread rebuild for ${document.project_id}:`, error);
+      }
+    }
+
     this.onProgress?.(job.id, 100, 'Extraction complete');
   }
 
+  private async processThumbnailJob(job: JobQueueRow): Promise<void> {
+    if (!job.document_id) {
+      throw new Error('No document_id provided for thumbnail job');
+    }
+
+    this.onProgress?.(job.id, 10, 'Rendering thumbnails');
+    const thumbnails = await generateDocumentThumbnails(getSupabaseAdmin(), job.document_id);
+    this.onProgress?.(job.id, 100, thumbnails.frames.length > 0 ? `${thumbnails.frames.length} keyframes saved` : 'Thumbnail saved');
+  }
+
+  private async processSpeakersJob(job: JobQueueRow): Promise<void> {
+    if (!job.document_id) {
+      throw new Error('No document_id provided for speakers job');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const loaded = await loadDocumentTranscript(supabase, job.document_id);
+    if (!loaded?.transcript) {
+      throw new Error(`Document has no transcript: ${job.document_id}`);
+    }
+
+    this.onProgress?.(job.id, 10, 'Writing speaker names into the transcript text');
+    await saveTranscriptText(supabase, { id: job.document_id, projectId: loaded.projectId }, loaded.transcript);
+    this.onProgress?.(job.id, 100, 'Transcript text updated');
+  }
+
+  private async processThreadJob(job: JobQueueRow): Promise<void> {
+    if (!job.project_id) {
+      throw new Error('No project_id provided for thread job');
+    }
+
+    this.onProgress?.(job.id, 10, 'Rebuilding email threads');
+    const { threads, messages, requeued } = await rebuildEmailThreads(getSupabaseAdmin(), job.project_id);
+    const suffix = requeued > 0 ? `; ${requeued} messages queued for analysis` : '';
+    this.onProgress?.(job.id, 100, `Threaded ${messages} messages into ${threads} conversations${suffix}`);
+  }
+
+  private async processContradictionsJob(job: JobQueueRow): Promise<void> {
+    if (!job.project_id) {
+      throw new Error('No project_id provided for contradictions job');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: project } = await supabase
+      .from('projects')
+      .select('description')
+      .eq('id', job.project_id)
+      .single();
+
+    this.onProgress?.(job.id, 5, 'Gathering accounts across documents');
+    const { topics, contradictions } = await runContradictionAnalysis(supabase, job.project_id, {
+      jobId: job.id,
+      casePerspective: project?.description || undefined,
+      onProgress: (progress, message) => this.onProgress?.(job.id, progress, message),
+    });
+    this.onProgress?.(job.id, 100, `Found ${contradictions} contradictions across ${topics} topics`);
+  }
+
+  private async processEmbedJob(job: JobQueueRow): Promise<void> {
+    const supabase = getSupabaseAdmin();
+
+    if (!job.document_id) {
+      throw new Error('No document_id provided for embed job');
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, project_id, text_chunks, analysis_suppressed')
+      .eq('id', job.document_id)
+      .single();
+
+    if (docError || !document) {
+      throw new Error(`Document not found: ${job.document_id}`);
+    }
+
+    if (document.analysis_suppressed) {
+      this.onProgress?.(job.id, 100, 'Skipped: duplicate of the group master');
+      return;
+    }
+
+    const chunks = parseStoredChunks(document.text_chunks).filter(c => c.text.trim().length > 0);
+    if (chunks.length === 0) {
+      this.onProgress?.(job.id, 100, 'No text chunks to embed');
+      return;
+    }
+
+    const provider = getEmbeddingProvider();
+    this.onProgress?.(job.id, 10, `Embedding ${chunks.length} chunks with ${provider.model}`);
+
+    const vectors = await provider.embed(chunks.map(c => c.text));
+
+    this.onProgress?.(job.id, 70, 'Saving embeddings');
+
+    const { error: deleteError } = await supabase
+      .from('document_embeddings')
+      .delete()
+      .eq('document_id', document.id)
+      .eq('model', provider.model);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear stale embeddings: ${deleteError.message}`);
+    }
+
+    const rows = chunks.map((chunk, i) => ({
+      project_id: document.project_id,
+      document_id: document.id,
+      chunk_index: chunk.index,
+      char_start: chunk.charStart,
+      char_end: chunk.charEnd,
+      content: chunk.text,
+      model: provider.model,
+      embedding: toPgVector(vectors[i]),
+    }));
+
+    const { error: insertError } = await supabase
+      .from('document_embeddings')
+      .insert(rows);
+
+    if (insertError) {
+      throw new Error(`Failed to save embeddings: ${insertError.message}`);
+    }
+
+    this.onProgress?.(job.id, 100, 'Embedding complete');
+  }
+
+  private mergeExtractionMetadata(existing: Json | null, result: ExtractionResult): Json {
+    const base = existing && typeof existing === 'object' && !Array.isArray(existing) ? existing : {};
+    const merged: { [key: string]: Json | undefined } = { ...base };
+    if (result.metadata.email) {
+      merged.email = result.metadata.email as Json;
+    }
+    if (typeof result.metadata.mboxMessageCount === 'number') {
+      merged.mbox = { messageCount: result.metadata.mboxMessageCount };
+    }
+    return merged;
+  }
+
+  /**
+   * Archive entries, attachments and mbox messages become documents of their own. A retried
+   * extract job must not create them twice, so existing children short-circuit.
+   */
+  private async ingestChildDocuments(job: JobQueueRow, document: DocumentRow, result: ExtractionResult): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { data: existing, error: existingError } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('parent_document_id', document.id)
+      .limit(1);
+
+    if (existingError) {
+      throw new Error(`Failed to check child documents: ${existingError.message}`);
+    }
+    if (existing && existing.length > 0) return;
+
+    this.onProgress?.(job.id, 90, `Creating ${result.children!.length} child documents`);
+
+    const kind = containerKind(result.mimeType, document.name);
+    const source = kind === 'mbox' ? 'mbox_message' : kind === 'zip' ? 'archive_entry' : 'email_attachment';
+    const childIds = await createChildDocuments(supabase, document, result.children!, source);
+    for (const childId of childIds) {
+      await this.enqueueFollowUpJob(job, childId, 'extract', 1);
+      await this.enqueueFollowUpJob(job, childId, 'analyze');
+    }
+  }
+
+  private async enqueueFollowUpJob(job: JobQueueRow, documentId: string, jobType: JobType, priority = 0): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase
+      .from('job_queue')
+      .insert({
+        project_id: job.project_id,
+        document_id: documentId,
+        job_type: jobType,
+        priority,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: 3,
+      });
+
+    if (error) {
+      console.error(`Worker ${this.workerId} failed to enqueue ${jobType} job for ${documentId}:`, error);
+    }
+  }
+
   private async processAnalyzeJob(job: JobQueueRow): Promise<void> {
     const supabase = getSupabaseAdmin();
     
@@ -262,20 +506,20 @@ class JobWorker {
       throw new Error(`Document not found: ${job.document_id}`);
     }
 
-    this.onProgress?.(job.id, 10, 'Starting analysis');
+    if (document.analysis_suppressed) {
+      this.onProgress?.(job.id, 100, 'Skipped: duplicate of the group master');
+      return;
+    }
 
-    let textChunks: string[] = [];
-    if (document.text_chunks) {
-      const chunks = document.text_chunks as unknown[];
-      if (Array.isArray(chunks) && chunks.length > 0) {
-        if (typeof chunks[0] === 'string') {
-          textChunks = chunks as string[];
-        } else if (typeof chunks[0] === 'object') {
-          textChunks = chunks.map((c: unknown) => (c as { text?: string }).text || '');
-        }
-      }
+    if (document.email_thread_id && document.is_inclusive === false) {
+      this.onProgress?.(job.id, 100, 'Skipped: contained in a later message of its thread');
+      return;
     }
 
+    this.onProgress?.(job.id, 10, 'Starting analysis');
+
+    const textChunks = parseStoredChunks(document.text_chunks).map(c => c.text);
+
     const { data: project, error: projectError } = await supabase
       .from('projects')
       .select('description')
@@ -284,6 +528,15 @@ class JobWorker {
 
     const casePerspective = project?.description || undefined;
 
+    // Footage without speech is still analyzed from what it shows; failing to read frames only loses that
+    let keyframes: AnalysisKeyframe[] = [];
+    try {
+      keyframes = await loadAnalysisKeyframes(supabase, document);
+      if (keyframes.length > 0) this.onProgress?.(job.id, 15, `${keyframes.length} keyframes sampled`);
+    } catch (error) {
+      console.error(`Worker ${this.workerId} failed to sample keyframes for ${document.id}:`, error);
+    }
+
     this.onProgress?.(job.id, 20, 'Analyzing document');
 
     const analysis = await analyzeFileServer({
@@ -294,6 +547,9 @@ class JobWorker {
       textContent: document.extracted_text || undefined,
       textChunks,
       contentHash: document.content_hash || undefined,
+      documentDate: documentReferenceDate(document.metadata),
+      keyframes,
+      durationMs: parseStoredTranscript(document.transcript)?.durationMs ?? null,
     });
 
     this.onProgress?.(job.id, 80, 'Saving analysis');
@@ -311,6 +567,15 @@ class JobWorker {
       throw new Error(`Failed to update document analysis: ${updateError.message}`);
     }
 
+    if (document.project_id) {
+      try {
+        const mentions = await indexDocumentEntities(supabase, { id: document.id, project_id: document.project_id, analysis });
+        if (mentions > 0) this.onProgress?.(job.id, 90, `${mentions} entity mentions indexed`);
+      } catch (error) {
+        console.error(`Worker ${this.workerId} failed to index entities for ${document.id}:`, error);
+      }
+    }
+
     this.onProgress?.(job.id, 100, 'Analysis complete');
   }
 
@@ -338,7 +603,7 @@ class JobWorker {
     }
 
     const { data: fileData, error: storageError } = await supabase.storage
-      .from('documents')
+      .from('discovery-files')
       .download(document.storage_path);
 
     if (storageError || !fileData) {
@@ -346,13 +611,11 @@ class JobWorker {
     }
 
     const buffer = Buffer.from(await fileData.arrayBuffer());
-    const base64Data = buffer.toString('base64');
 
     this.onProgress?.(job.id, 20, 'Processing audio');
 
-    const { transcribeAudioServer } = await import('./geminiServer');
-    const transcription = await transcribeAudioServer({
-      base64Data,
+    const transcript = await transcribeMedia({
+      buffer,
       mimeType: document.mime_type || 'audio/mpeg',
       fileName: document.name,
       batesNumber: document.bates_formatted || 'UNKNOWN',
@@ -363,7 +626,7 @@ class JobWorker {
     const { error: updateError } = await supabase
       .from('documents')
       .update({
-        extracted_text: transcription,
+        transcript: transcript as unknown as Json,
         status: 'complete',
         updated_at: new Date().toISOString(),
       })
@@ -373,6 +636,8 @@ class JobWorker {
       throw new Error(`Failed to update document transcription: ${updateError.message}`);
     }
 
+    await saveTranscriptText(supabase, { id: document.id, projectId: document.project_id }, transcript);
+
     this.onProgress?.(job.id, 100, 'Transcription complete');
   }
 
@@ -7,7 +7,7 @@ const nextConfig: NextConfig = {
     optimizePackageImports: ['@google/genai'],
   },
 
-  serverExternalPackages: ['pdf-parse', '@napi-rs/canvas'],
+  serverExternalPackages: ['pdf-parse', 'pdfjs-dist', '@napi-rs/canvas'],
 };
 
 export default nextConfig;
@@ -0,0 +1,78 @@
+-- Migration: Add full-text search over extracted document text
+-- Created: 2024-03-01
+-- Description: Adds a weighted tsvector column with a GIN index to documents and a
+--              ranked, chunk-level search function used by /api/search
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENTS TABLE UPDATES
+-- ============================================================================
+
+-- Document names rank above body text. Body text is capped so that very large
+-- productions stay under the 1MB tsvector limit.
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 500000)), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN (search_vector);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Ranked chunk-level search. Documents are filtered through the GIN index first,
+-- then each stored text chunk is ranked individually so callers receive the exact
+-- passage (chunk index and character offsets) that matched.
+CREATE OR REPLACE FUNCTION search_document_chunks(
+  p_project_id uuid,
+  p_query text,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  document_id uuid,
+  name text,
+  bates_formatted text,
+  chunk_index int,
+  char_start int,
+  char_end int,
+  chunk_text text,
+  rank real
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  matched AS (
+    SELECT d.id, d.name, d.bates_formatted, d.text_chunks,
+           ts_rank_cd(d.search_vector, q.query) AS doc_rank
+    FROM documents d, q
+    WHERE d.project_id = p_project_id
+      AND d.search_vector @@ q.query
+  ),
+  chunks AS (
+    SELECT m.id, m.name, m.bates_formatted, m.doc_rank,
+           coalesce((c.value->>'index')::int, (c.ordinality - 1)::int) AS chunk_index,
+           (c.value->>'charStart')::int AS char_start,
+           (c.value->>'charEnd')::int AS char_end,
+           coalesce(c.value->>'text', c.value #>> '{}') AS chunk_text
+    FROM matched m,
+         jsonb_array_elements(
+           CASE WHEN jsonb_typeof(m.text_chunks) = 'array' THEN m.text_chunks ELSE '[]'::jsonb END
+         ) WITH ORDINALITY AS c(value, ordinality)
+  )
+  SELECT c.id, c.name, c.bates_formatted, c.chunk_index, c.char_start, c.char_end, c.chunk_text,
+         (ts_rank_cd(to_tsvector('english', c.chunk_text), q.query) + c.doc_rank * 0.1)::real AS rank
+  FROM chunks c, q
+  WHERE to_tsvector('english', c.chunk_text) @@ q.query
+  ORDER BY rank DESC, c.bates_formatted, c.chunk_index
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.search_vector IS 'Weighted full-text index of document name (A) and extracted_text (B)';
+COMMENT ON FUNCTION search_document_chunks(uuid, text, int) IS 'Ranked full-text search returning matching text chunks with character offsets';
@@ -0,0 +1,79 @@
+-- Migration: Add chunk embeddings for semantic retrieval
+-- Created: 2024-03-02
+-- Description: Stores one embedding per extracted text chunk (pgvector), adds the
+--              'embed' job type and a similarity search function used by /api/chat
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- ============================================================================
+-- DOCUMENT EMBEDDINGS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS document_embeddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_index int NOT NULL,
+  char_start int,
+  char_end int,
+  content text NOT NULL,
+  model text NOT NULL,
+  embedding vector(1536) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (document_id, chunk_index, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_project ON document_embeddings(project_id, model);
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_document ON document_embeddings(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_vector ON document_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+
+-- ============================================================================
+-- JOB QUEUE UPDATES
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('extract', 'analyze', 'transcribe', 'embed'));
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Top-k chunks by cosine similarity within a project. Only vectors produced by the
+-- same model are comparable, so the caller passes the provider's model name.
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  p_project_id uuid,
+  p_query_embedding vector(1536),
+  p_model text,
+  p_match_count int DEFAULT 8
+)
+RETURNS TABLE (
+  document_id uuid,
+  name text,
+  bates_formatted text,
+  chunk_index int,
+  char_start int,
+  char_end int,
+  content text,
+  similarity real
+) AS $$
+  SELECT e.document_id, d.name, d.bates_formatted, e.chunk_index, e.char_start, e.char_end, e.content,
+         (1 - (e.embedding <=> p_query_embedding))::real AS similarity
+  FROM document_embeddings e
+  JOIN documents d ON d.id = e.document_id
+  WHERE e.project_id = p_project_id
+    AND e.model = p_model
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE document_embeddings IS 'Vector embeddings of documents.text_chunks entries for semantic retrieval';
+COMMENT ON COLUMN document_embeddings.model IS 'Embedding provider/model that produced the vector (e.g. openai:text-embedding-3-small, local:hash-v1)';
+COMMENT ON FUNCTION match_document_chunks(uuid, vector, text, int) IS 'Top-k chunk retrieval by cosine similarity for chat grounding';
@@ -0,0 +1,24 @@
+-- Migration: Add page-level Bates ranges
+-- Created: 2024-03-03
+-- Description: Documents consume one Bates number per page. Stores the page count
+--              and the last number of each document's range so productions can
+--              stamp every page and the project counter can advance by page.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT RANGE COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS page_count int;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS bates_end_number int;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS bates_end_formatted text;
+
+-- Existing rows were numbered one per document; treat them as single-page ranges.
+UPDATE documents
+SET bates_end_formatted = bates_formatted
+WHERE bates_end_formatted IS NULL AND bates_formatted IS NOT NULL;
+
+COMMENT ON COLUMN documents.page_count IS 'Pages counted at ingestion (PDFs); NULL or 1 for single-page items';
+COMMENT ON COLUMN documents.bates_end_number IS 'Last Bates number in this document''s page range';
+COMMENT ON COLUMN documents.bates_end_formatted IS 'Formatted last Bates number, e.g. DEF-0012 for a range starting at DEF-0001';
@@ -0,0 +1,77 @@
+-- Migration: Add load-file import support
+-- Created: 2024-03-04
+-- Description: Keeps the producing party's Bates range next to ours for documents
+--              ingested from third-party DAT/OPT/CSV productions, adds a metadata
+--              column for the remaining load-file fields, and a function that
+--              allocates our own Bates numbers atomically on the server.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS producing_party text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS producing_bates_begin text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS producing_bates_end text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS metadata jsonb DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_documents_producing_bates
+  ON documents(project_id, producing_bates_begin)
+  WHERE producing_bates_begin IS NOT NULL;
+
+-- ============================================================================
+-- BATES ALLOCATION
+-- ============================================================================
+
+-- Reserves p_count consecutive numbers and returns the first. The browser upload
+-- path numbers files locally, so the start is never below the highest number
+-- already stored for the project.
+CREATE OR REPLACE FUNCTION allocate_bates_numbers(p_project_id uuid, p_count int)
+RETURNS int AS $$
+DECLARE
+  v_counter int;
+  v_highest int;
+  v_start int;
+BEGIN
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'p_count must be at least 1';
+  END IF;
+
+  SELECT bates_counter INTO v_counter
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  SELECT MAX(COALESCE(
+    bates_end_number,
+    NULLIF(regexp_replace(bates_number::text, '\D', '', 'g'), '')::int
+  ))
+  INTO v_highest
+  FROM documents
+  WHERE project_id = p_project_id;
+
+  v_start := GREATEST(COALESCE(v_counter, 1), COALESCE(v_highest, 0) + 1);
+
+  UPDATE projects
+  SET bates_counter = v_start + p_count,
+      updated_at = now()
+  WHERE id = p_project_id;
+
+  RETURN v_start;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.producing_party IS 'Party that produced the document when it was imported from a load file';
+COMMENT ON COLUMN documents.producing_bates_begin IS 'Producing party''s first Bates number, e.g. PLTF000123';
+COMMENT ON COLUMN documents.producing_bates_end IS 'Producing party''s last Bates number';
+COMMENT ON COLUMN documents.metadata IS 'Source metadata; load-file imports keep the original DAT/CSV fields under loadFile';
+COMMENT ON FUNCTION allocate_bates_numbers IS 'Atomically reserves consecutive Bates numbers for a project and returns the first';
@@ -0,0 +1,29 @@
+-- Migration: Add parent/child document relationships
+-- Created: 2024-03-05
+-- Description: Email attachments and mbox messages are ingested as their own
+--              documents with their own Bates numbers. parent_document_id keeps
+--              each child attached to the message or mailbox it came from.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- PARENT DOCUMENT COLUMN
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS parent_document_id uuid REFERENCES documents(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_documents_parent_document
+  ON documents(parent_document_id)
+  WHERE parent_document_id IS NOT NULL;
+
+-- Email headers are queried by message id when rebuilding families and threads.
+CREATE INDEX IF NOT EXISTS idx_documents_email_message_id
+  ON documents((metadata->'email'->>'messageId'))
+  WHERE metadata ? 'email';
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.parent_document_id IS 'Parent document for attachments and embedded items (email attachment -> message, message -> mbox)';
@@ -0,0 +1,68 @@
+-- Migration: Add family-aware Bates reservations
+-- Created: 2024-03-06
+-- Description: Archives, emails and mailboxes are produced as families: the
+--              parent's range is followed immediately by its children's. The
+--              parent reserves the children's numbers when it is created, and
+--              allocate_bates_numbers must not hand that block out again.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- FAMILY RESERVATION COLUMN
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS bates_family_end_number int;
+
+-- ============================================================================
+-- BATES ALLOCATION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION allocate_bates_numbers(p_project_id uuid, p_count int)
+RETURNS int AS $$
+DECLARE
+  v_counter int;
+  v_highest int;
+  v_start int;
+BEGIN
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'p_count must be at least 1';
+  END IF;
+
+  SELECT bates_counter INTO v_counter
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  SELECT MAX(GREATEST(
+    bates_family_end_number,
+    COALESCE(
+      bates_end_number,
+      NULLIF(regexp_replace(bates_number::text, '\D', '', 'g'), '')::int
+    )
+  ))
+  INTO v_highest
+  FROM documents
+  WHERE project_id = p_project_id;
+
+  v_start := GREATEST(COALESCE(v_counter, 1), COALESCE(v_highest, 0) + 1);
+
+  UPDATE projects
+  SET bates_counter = v_start + p_count,
+      updated_at = now()
+  WHERE id = p_project_id;
+
+  RETURN v_start;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.bates_family_end_number IS 'Last Bates number reserved for this document and all of its descendants; NULL when it has no children';
+COMMENT ON FUNCTION allocate_bates_numbers IS 'Atomically reserves consecutive Bates numbers for a project, skipping family reservations, and returns the first';
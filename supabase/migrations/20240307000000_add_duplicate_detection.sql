@@ -0,0 +1,58 @@
+-- Migration: Add exact and near-duplicate detection
+-- Created: 2024-03-07
+-- Description: Documents with identical content hashes, or MinHash signatures
+--              estimating high text overlap, are collected into duplicate
+--              groups. Reviewers pick a master per group; the other members
+--              are suppressed so they are not analyzed or embedded again.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DUPLICATE GROUPS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS duplicate_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('exact', 'near')),
+  master_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_groups_project ON duplicate_groups(project_id);
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS duplicate_group_id uuid REFERENCES duplicate_groups(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_similarity real,
+  ADD COLUMN IF NOT EXISTS minhash_signature int[],
+  ADD COLUMN IF NOT EXISTS minhash_bands text[],
+  ADD COLUMN IF NOT EXISTS analysis_suppressed boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_documents_duplicate_group
+  ON documents(duplicate_group_id)
+  WHERE duplicate_group_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_project_content_hash
+  ON documents(project_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- Candidate lookup: documents sharing any LSH band with the new signature.
+CREATE INDEX IF NOT EXISTS idx_documents_minhash_bands
+  ON documents USING gin (minhash_bands);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE duplicate_groups IS 'Documents with identical (exact) or highly overlapping (near) content';
+COMMENT ON COLUMN duplicate_groups.master_document_id IS 'Copy that is reviewed and analyzed; other members are suppressed once the group is reviewed';
+COMMENT ON COLUMN documents.duplicate_similarity IS 'Estimated Jaccard similarity to the document this one was matched against; 1 for exact duplicates';
+COMMENT ON COLUMN documents.minhash_signature IS 'MinHash signature over word shingles of extracted_text';
+COMMENT ON COLUMN documents.minhash_bands IS 'LSH band keys derived from minhash_signature, for candidate lookup';
+COMMENT ON COLUMN documents.analysis_suppressed IS 'Duplicate of its group master; analysis and embedding jobs skip it';
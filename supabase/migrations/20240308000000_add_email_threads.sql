@@ -0,0 +1,60 @@
+-- Migration: Add email thread reconstruction
+-- Created: 2024-03-08
+-- Description: Email documents are grouped into conversations. Each thread
+--              records its root and date span; each message records its
+--              parent within the thread and whether it is inclusive (its text
+--              and attachments are not contained in any other message).
+--              Adds the project-level 'thread' job type that rebuilds them.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- EMAIL THREADS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  thread_key text NOT NULL,
+  subject text,
+  root_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  message_count int NOT NULL DEFAULT 0,
+  inclusive_count int NOT NULL DEFAULT 0,
+  first_date timestamptz,
+  last_date timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, thread_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_threads_project ON email_threads(project_id, last_date DESC);
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS email_thread_id uuid REFERENCES email_threads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS thread_parent_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_inclusive boolean;
+
+CREATE INDEX IF NOT EXISTS idx_documents_email_thread
+  ON documents(email_thread_id)
+  WHERE email_thread_id IS NOT NULL;
+
+-- ============================================================================
+-- JOB QUEUE UPDATES
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('extract', 'analyze', 'transcribe', 'embed', 'thread'));
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE email_threads IS 'Email conversations reconstructed from reply headers, quoted text and subjects';
+COMMENT ON COLUMN email_threads.thread_key IS 'Message-ID of the root message, or document:<id> when the root has none';
+COMMENT ON COLUMN documents.thread_parent_id IS 'Message this email replies to or forwards, within its thread';
+COMMENT ON COLUMN documents.is_inclusive IS 'True when no other message in the thread contains this one; only inclusive messages are analyzed';
@@ -0,0 +1,38 @@
+-- Migration: Add privilege coding
+-- Created: 2024-03-09
+-- Description: Reviewers code each document's privilege status (withheld in
+--              full, or produced with redactions) and the privilege bases
+--              claimed. The description written to the privilege log can be
+--              overridden per document; otherwise it is generated at export.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS privilege_status text,
+  ADD COLUMN IF NOT EXISTS privilege_bases text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS privilege_description text,
+  ADD COLUMN IF NOT EXISTS privilege_reviewed_at timestamptz;
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_privilege_status_check;
+ALTER TABLE documents ADD CONSTRAINT documents_privilege_status_check
+  CHECK (privilege_status IS NULL OR privilege_status IN ('not_privileged', 'privileged', 'partial'));
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_privilege_bases_check;
+ALTER TABLE documents ADD CONSTRAINT documents_privilege_bases_check
+  CHECK (privilege_bases <@ ARRAY['attorney_client', 'work_product']::text[]);
+
+CREATE INDEX IF NOT EXISTS idx_documents_privileged
+  ON documents(project_id)
+  WHERE privilege_status IN ('privileged', 'partial');
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.privilege_status IS 'NULL until reviewed; privileged is withheld, partial is produced redacted';
+COMMENT ON COLUMN documents.privilege_bases IS 'Privileges claimed: attorney_client, work_product';
+COMMENT ON COLUMN documents.privilege_description IS 'Privilege log description; generated from document metadata when NULL';
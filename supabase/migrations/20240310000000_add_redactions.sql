@@ -0,0 +1,61 @@
+-- Migration: Add redactions
+-- Created: 2024-03-10
+-- Description: Redactions are stored per document as a page box (fractions of
+--              the page, origin top-left), a span of extracted_text, or both.
+--              PII suggestions are generated after extraction and must be
+--              accepted before they are burned into produced output. Word
+--              positions from extraction are kept so suggestions can be boxed.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS page_geometry jsonb;
+
+-- ============================================================================
+-- REDACTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS redactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  page int,
+  x real,
+  y real,
+  width real,
+  height real,
+  text_start int,
+  text_end int,
+  reason_code text NOT NULL,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'suggested')),
+  status text NOT NULL DEFAULT 'accepted' CHECK (status IN ('suggested', 'accepted', 'rejected')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT redactions_target_check CHECK (
+    (page IS NOT NULL AND x IS NOT NULL AND y IS NOT NULL AND width > 0 AND height > 0)
+    OR (text_start IS NOT NULL AND text_end > text_start)
+  ),
+  CONSTRAINT redactions_reason_check CHECK (reason_code IN (
+    'pii_ssn', 'pii_dob', 'pii_account', 'pii_phone', 'pii_minor',
+    'privilege_ac', 'privilege_wp', 'confidential', 'other'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_redactions_document ON redactions(document_id, page);
+CREATE INDEX IF NOT EXISTS idx_redactions_project_accepted
+  ON redactions(project_id)
+  WHERE status = 'accepted';
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE redactions IS 'Areas and text spans removed from a document when it is produced';
+COMMENT ON COLUMN redactions.x IS 'Left edge as a fraction of page width; y, width and height are fractions likewise';
+COMMENT ON COLUMN redactions.text_start IS 'Start offset in documents.extracted_text; the redacted text itself is never stored';
+COMMENT ON COLUMN redactions.status IS 'Only accepted redactions are applied to produced images, PDFs and text';
+COMMENT ON COLUMN documents.page_geometry IS 'Word boxes per page from extraction or OCR, used to place redaction suggestions';
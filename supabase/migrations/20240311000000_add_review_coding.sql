@@ -0,0 +1,47 @@
+-- Migration: Add review coding
+-- Created: 2024-03-11
+-- Description: Each project defines one coding layout: the fields reviewers
+--              fill in for every document (responsiveness, confidentiality,
+--              issue tags, notes, ...). A document's coding is stored as a
+--              JSON object keyed by field key, so layouts can change without
+--              schema changes.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- CODING LAYOUTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS coding_layouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT 'Review coding',
+  fields jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- ============================================================================
+-- DOCUMENT CODINGS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS document_codings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL UNIQUE REFERENCES documents(id) ON DELETE CASCADE,
+  "values" jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof("values") = 'object'),
+  coded_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_codings_project ON document_codings(project_id);
+CREATE INDEX IF NOT EXISTS idx_document_codings_values ON document_codings USING gin ("values");
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE coding_layouts IS 'Reviewer coding fields for a project; the default layout applies until one is saved';
+COMMENT ON COLUMN coding_layouts.fields IS 'Ordered array of {key, label, type: choice|multi|flag|text, options}';
+COMMENT ON TABLE document_codings IS 'Reviewer decisions for a document under its project''s coding layout';
+COMMENT ON COLUMN document_codings."values" IS 'Object keyed by field key: a string for choice/text, string[] for multi, boolean for flag';
@@ -0,0 +1,60 @@
+-- Migration: Add review batches
+-- Created: 2024-03-12
+-- Description: A production is split into review batches (a Bates range, a
+--              custodian's documents or full-text search hits, N documents
+--              at a time) that are assigned to reviewers. A reviewer checks a
+--              batch out before coding it; while it is checked out nobody else
+--              can code its documents. A document belongs to one batch at most.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- REVIEW BATCHES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS review_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  criteria jsonb NOT NULL DEFAULT '{}'::jsonb,
+  assignee text,
+  checked_out_by text,
+  checked_out_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT review_batches_checkout_check CHECK ((checked_out_by IS NULL) = (checked_out_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_batches_project ON review_batches(project_id, created_at);
+
+-- ============================================================================
+-- REVIEW BATCH DOCUMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS review_batch_documents (
+  batch_id uuid NOT NULL REFERENCES review_batches(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL UNIQUE REFERENCES documents(id) ON DELETE CASCADE,
+  position int NOT NULL,
+  PRIMARY KEY (batch_id, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_batch_documents_order ON review_batch_documents(batch_id, position);
+
+-- ============================================================================
+-- DOCUMENT CODING COLUMNS
+-- ============================================================================
+
+ALTER TABLE document_codings
+  ADD COLUMN IF NOT EXISTS coded_by text;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE review_batches IS 'Sets of documents assigned to one reviewer for first-level review';
+COMMENT ON COLUMN review_batches.criteria IS 'How the documents were selected: {type: bates|custodian|search, ...}';
+COMMENT ON COLUMN review_batches.checked_out_by IS 'Reviewer currently coding the batch; others cannot code its documents';
+COMMENT ON COLUMN review_batches.completed_at IS 'Set when the reviewer checks the batch in as finished';
+COMMENT ON COLUMN review_batch_documents.position IS 'Review order within the batch, by Bates number';
+COMMENT ON COLUMN document_codings.coded_by IS 'Reviewer who last saved the coding';
@@ -0,0 +1,335 @@
+-- Migration: Add project access control
+-- Created: 2024-03-13
+-- Description: Projects get members with a role (owner, attorney, reviewer,
+--              read_only). Row level security on every project-scoped table
+--              is keyed to membership, so API routes can act as the signed-in
+--              caller instead of the service role. Members are invited by
+--              email; the invitation is claimed the first time that user signs
+--              in. The creator of a project becomes its owner; projects that
+--              predate this migration are handed to an owner by email (see
+--              EXISTING PROJECTS). The job worker keeps using the service role
+--              and is unaffected.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- PROJECT OWNERSHIP
+-- ============================================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS created_by uuid DEFAULT auth.uid();
+
+-- ============================================================================
+-- PROJECT MEMBERS TABLE
+-- ============================================================================
+
+-- user_id has no foreign key to auth.users so the local auth provider, which
+-- mints its own user ids, works against the same schema.
+CREATE TABLE IF NOT EXISTS project_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'reviewer',
+  invited_by uuid,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT project_members_email_unique UNIQUE (project_id, email)
+);
+
+ALTER TABLE project_members DROP CONSTRAINT IF EXISTS project_members_role_check;
+ALTER TABLE project_members ADD CONSTRAINT project_members_role_check
+  CHECK (role IN ('owner', 'attorney', 'reviewer', 'read_only'));
+
+ALTER TABLE project_members DROP CONSTRAINT IF EXISTS project_members_email_lowercase;
+ALTER TABLE project_members ADD CONSTRAINT project_members_email_lowercase
+  CHECK (email = lower(email));
+
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_email ON project_members(email) WHERE user_id IS NULL;
+
+-- ============================================================================
+-- MEMBERSHIP FUNCTIONS
+-- ============================================================================
+
+-- SECURITY DEFINER so policies on project_members itself can call it without
+-- recursing into their own RLS checks.
+CREATE OR REPLACE FUNCTION is_project_member(p_project_id uuid, p_roles text[] DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_id = p_project_id
+      AND user_id = auth.uid()
+      AND (p_roles IS NULL OR role = ANY (p_roles))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Attach pending invitations addressed to the caller's email to their user id.
+CREATE OR REPLACE FUNCTION claim_project_invitations()
+RETURNS int AS $$
+DECLARE
+  claimed int;
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(auth.jwt() ->> 'email', '') = '' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE project_members
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL
+    AND email = lower(auth.jwt() ->> 'email');
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+  RETURN claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The creator of a project is its first owner.
+CREATE OR REPLACE FUNCTION add_project_creator_as_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO project_members (project_id, user_id, email, role, invited_by)
+    VALUES (NEW.id, NEW.created_by, lower(coalesce(auth.jwt() ->> 'email', NEW.created_by::text)), 'owner', NEW.created_by)
+    ON CONFLICT (project_id, email) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_project_creator_as_owner ON projects;
+CREATE TRIGGER add_project_creator_as_owner
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION add_project_creator_as_owner();
+
+-- ============================================================================
+-- EXISTING PROJECTS
+-- ============================================================================
+
+-- Projects created before this migration have no creator and no members, so
+-- once RLS is on nobody could see them. This invites an email as owner of
+-- every project that has no owner yet; the invitation is claimed at that
+-- user's next sign-in. Only the service role (and the SQL editor) may run it.
+CREATE OR REPLACE FUNCTION adopt_unowned_projects(p_email text)
+RETURNS int AS $$
+DECLARE
+  adopted int;
+BEGIN
+  IF coalesce(btrim(p_email), '') = '' THEN
+    RAISE EXCEPTION 'An owner email is required';
+  END IF;
+
+  INSERT INTO project_members (project_id, email, role)
+  SELECT p.id, lower(btrim(p_email)), 'owner'
+  FROM projects p
+  WHERE NOT EXISTS (SELECT 1 FROM project_members m WHERE m.project_id = p.id AND m.role = 'owner')
+  ON CONFLICT (project_id, email) DO UPDATE SET role = 'owner';
+  GET DIAGNOSTICS adopted = ROW_COUNT;
+  RETURN adopted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION adopt_unowned_projects(text) FROM PUBLIC, anon, authenticated;
+
+-- Backfill before the policies below take effect. Set the owner with
+--   ALTER DATABASE postgres SET app.initial_owner_email = 'you@firm.com';
+-- before running this migration, or run adopt_unowned_projects afterwards.
+DO $$
+DECLARE
+  owner_email text := nullif(btrim(coalesce(current_setting('app.initial_owner_email', true), '')), '');
+  unowned int;
+BEGIN
+  IF owner_email IS NOT NULL THEN
+    PERFORM adopt_unowned_projects(owner_email);
+  END IF;
+
+  SELECT count(*) INTO unowned
+  FROM projects p
+  WHERE NOT EXISTS (SELECT 1 FROM project_members m WHERE m.project_id = p.id AND m.role = 'owner');
+  IF unowned > 0 THEN
+    RAISE WARNING '% existing projects have no owner and are hidden from every user; run SELECT adopt_unowned_projects(''you@firm.com'');', unowned;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- The original job_queue policy only checked that the project existed.
+DROP POLICY IF EXISTS "Users can view job_queue for accessible projects" ON job_queue;
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_queue ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  -- Projects: visible to members (and to the creator, so INSERT ... RETURNING
+  -- works before the owner row is written)
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'projects' AND policyname = 'Members can view projects') THEN
+    CREATE POLICY "Members can view projects" ON projects FOR SELECT
+      USING (created_by = auth.uid() OR is_project_member(id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'projects' AND policyname = 'Signed-in users can create projects') THEN
+    CREATE POLICY "Signed-in users can create projects" ON projects FOR INSERT
+      WITH CHECK (auth.uid() IS NOT NULL AND created_by = auth.uid());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'projects' AND policyname = 'Owners and attorneys can update projects') THEN
+    CREATE POLICY "Owners and attorneys can update projects" ON projects FOR UPDATE
+      USING (is_project_member(id, ARRAY['owner', 'attorney']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'projects' AND policyname = 'Owners can delete projects') THEN
+    CREATE POLICY "Owners can delete projects" ON projects FOR DELETE
+      USING (is_project_member(id, ARRAY['owner']));
+  END IF;
+
+  -- Members: visible to fellow members, managed by owners
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'project_members' AND policyname = 'Members can view members') THEN
+    CREATE POLICY "Members can view members" ON project_members FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'project_members' AND policyname = 'Owners can manage members') THEN
+    CREATE POLICY "Owners can manage members" ON project_members FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner']));
+  END IF;
+
+  -- Documents: attorneys load and remove them, reviewers code them
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'documents' AND policyname = 'Members can view documents') THEN
+    CREATE POLICY "Members can view documents" ON documents FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'documents' AND policyname = 'Owners and attorneys can add documents') THEN
+    CREATE POLICY "Owners and attorneys can add documents" ON documents FOR INSERT
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'documents' AND policyname = 'Reviewers can update documents') THEN
+    CREATE POLICY "Reviewers can update documents" ON documents FOR UPDATE
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'documents' AND policyname = 'Owners and attorneys can delete documents') THEN
+    CREATE POLICY "Owners and attorneys can delete documents" ON documents FOR DELETE
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney']));
+  END IF;
+
+  -- Jobs: anyone who can edit documents can queue work on them
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'job_queue' AND policyname = 'Members can view jobs') THEN
+    CREATE POLICY "Members can view jobs" ON job_queue FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'job_queue' AND policyname = 'Reviewers can queue jobs') THEN
+    CREATE POLICY "Reviewers can queue jobs" ON job_queue FOR INSERT
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'job_queue' AND policyname = 'Owners and attorneys can manage jobs') THEN
+    CREATE POLICY "Owners and attorneys can manage jobs" ON job_queue FOR UPDATE
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'job_queue' AND policyname = 'Owners and attorneys can delete jobs') THEN
+    CREATE POLICY "Owners and attorneys can delete jobs" ON job_queue FOR DELETE
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney']));
+  END IF;
+END $$;
+
+-- Remaining project-scoped tables: members read, the listed roles write
+DO $$
+DECLARE
+  scoped record;
+BEGIN
+  FOR scoped IN
+    SELECT * FROM (VALUES
+      ('document_embeddings', ARRAY['owner', 'attorney']),
+      ('duplicate_groups', ARRAY['owner', 'attorney']),
+      ('email_threads', ARRAY['owner', 'attorney']),
+      ('coding_layouts', ARRAY['owner', 'attorney']),
+      ('redactions', ARRAY['owner', 'attorney', 'reviewer']),
+      ('document_codings', ARRAY['owner', 'attorney', 'reviewer']),
+      ('review_batches', ARRAY['owner', 'attorney', 'reviewer'])
+    ) AS t(table_name, writers)
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', scoped.table_name);
+
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = scoped.table_name AND policyname = 'Members can view') THEN
+      EXECUTE format(
+        'CREATE POLICY "Members can view" ON %I FOR SELECT USING (is_project_member(project_id))',
+        scoped.table_name
+      );
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = scoped.table_name AND policyname = 'Writers can modify') THEN
+      EXECUTE format(
+        'CREATE POLICY "Writers can modify" ON %I FOR ALL USING (is_project_member(project_id, %L)) WITH CHECK (is_project_member(project_id, %L))',
+        scoped.table_name, scoped.writers, scoped.writers
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Reviewers may check batches in and out, but only owners and attorneys
+-- create, reassign or delete them; restrict_reviewer_batch_write (20240324)
+-- enforces that split. Batch membership follows the batch's project.
+ALTER TABLE review_batch_documents ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'review_batch_documents' AND policyname = 'Members can view batch documents') THEN
+    CREATE POLICY "Members can view batch documents" ON review_batch_documents FOR SELECT
+      USING (EXISTS (
+        SELECT 1 FROM review_batches b
+        WHERE b.id = review_batch_documents.batch_id AND is_project_member(b.project_id)
+      ));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'review_batch_documents' AND policyname = 'Owners and attorneys can manage batch documents') THEN
+    CREATE POLICY "Owners and attorneys can manage batch documents" ON review_batch_documents FOR ALL
+      USING (EXISTS (
+        SELECT 1 FROM review_batches b
+        WHERE b.id = review_batch_documents.batch_id AND is_project_member(b.project_id, ARRAY['owner', 'attorney'])
+      ))
+      WITH CHECK (EXISTS (
+        SELECT 1 FROM review_batches b
+        WHERE b.id = review_batch_documents.batch_id AND is_project_member(b.project_id, ARRAY['owner', 'attorney'])
+      ));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+-- Objects in discovery-files are stored under <project id>/...; replace the
+-- open policies from schema.sql with membership checks on that folder.
+DROP POLICY IF EXISTS "Allow public read access to discovery files" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public insert access to discovery files" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete access to discovery files" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION storage_object_project(p_name text)
+RETURNS uuid AS $$
+  SELECT CASE
+    WHEN split_part(p_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(p_name, '/', 1)::uuid
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Members can read discovery files') THEN
+    CREATE POLICY "Members can read discovery files" ON storage.objects FOR SELECT
+      USING (bucket_id = 'discovery-files' AND is_project_member(storage_object_project(name)));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Reviewers can write discovery files') THEN
+    CREATE POLICY "Reviewers can write discovery files" ON storage.objects FOR INSERT
+      WITH CHECK (bucket_id = 'discovery-files' AND is_project_member(storage_object_project(name), ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Owners and attorneys can delete discovery files') THEN
+    CREATE POLICY "Owners and attorneys can delete discovery files" ON storage.objects FOR DELETE
+      USING (bucket_id = 'discovery-files' AND is_project_member(storage_object_project(name), ARRAY['owner', 'attorney']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE project_members IS 'Who may access a project and with which role; user_id is null until an emailed invitation is claimed';
+COMMENT ON COLUMN project_members.role IS 'owner manages members; attorney manages documents, layouts and batches; reviewer codes; read_only views';
+COMMENT ON COLUMN projects.created_by IS 'Signed-in user who created the project; becomes its first owner';
+COMMENT ON FUNCTION is_project_member(uuid, text[]) IS 'Whether the caller is a member of the project, optionally with one of the given roles';
+COMMENT ON FUNCTION claim_project_invitations() IS 'Attach pending invitations for the caller''s email to their user id';
@@ -0,0 +1,234 @@
+-- Migration: Add audit log
+-- Created: 2024-03-14
+-- Description: Append-only record of who uploaded, viewed, re-analyzed,
+--              coded, downloaded or deleted what, written by every API route.
+--              Entries form one hash chain per project (and one for actions
+--              outside any project): each entry stores the hash of the entry
+--              before it, so editing or removing an entry breaks every hash
+--              after it. Entries are appended only through append_audit_entry,
+--              which takes the actor from the session and computes the
+--              position and hash in the database; lib/auditLog.ts verifies
+--              them with the same canonical JSON.
+--              Entries outlive the projects and documents they describe, so
+--              neither id is a foreign key.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- AUDIT LOG TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid,
+  sequence bigint NOT NULL,
+  actor_id uuid NOT NULL,
+  actor_email text NOT NULL,
+  action text NOT NULL,
+  document_id uuid,
+  bates_number text,
+  hash_before text,
+  hash_after text,
+  ip_address text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  previous_hash text NOT NULL,
+  entry_hash text NOT NULL,
+  CONSTRAINT audit_log_sequence_positive CHECK (sequence > 0)
+);
+
+-- One chain per project; actions outside a project share the all-zero chain.
+-- append_audit_entry locks a chain while appending; this is the backstop.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_chain
+  ON audit_log ((coalesce(project_id, '00000000-0000-0000-0000-000000000000'::uuid)), sequence);
+CREATE INDEX IF NOT EXISTS idx_audit_log_document ON audit_log(document_id, sequence) WHERE document_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_bates ON audit_log(project_id, bates_number) WHERE bates_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_storage_path ON audit_log((details ->> 'storagePath')) WHERE action = 'document.upload';
+
+-- ============================================================================
+-- APPEND-ONLY ENFORCEMENT
+-- ============================================================================
+
+-- Applies to every role, the service role included.
+CREATE OR REPLACE FUNCTION reject_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_audit_log_change();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reject_audit_log_change();
+
+-- ============================================================================
+-- APPEND
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS audit_chain_head(uuid);
+
+-- The JSON canonicalJson in lib/auditLog.ts writes: keys sorted, no spaces.
+-- plpgsql, since a SQL function cannot refer to itself when it is created.
+CREATE OR REPLACE FUNCTION audit_canonical_json(p_value jsonb)
+RETURNS text AS $$
+BEGIN
+  CASE jsonb_typeof(p_value)
+    WHEN 'object' THEN
+      RETURN '{' || coalesce((
+        SELECT string_agg(to_jsonb(e.key)::text || ':' || audit_canonical_json(e.value), ',' ORDER BY e.key COLLATE "C")
+        FROM jsonb_each(p_value) AS e
+      ), '') || '}';
+    WHEN 'array' THEN
+      RETURN '[' || coalesce((
+        SELECT string_agg(audit_canonical_json(e.value), ',' ORDER BY e.position)
+        FROM jsonb_array_elements(p_value) WITH ORDINALITY AS e(value, position)
+      ), '') || ']';
+    ELSE
+      RETURN coalesce(p_value::text, 'null');
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The only way in for signed-in users. The actor is whoever holds the session;
+-- the chain is locked while its next position and hash are worked out, so
+-- concurrent appends queue instead of colliding. An upload entry must name a
+-- file the caller stored in the project, and only the first one counts.
+CREATE OR REPLACE FUNCTION append_audit_entry(
+  p_project_id uuid,
+  p_action text,
+  p_document_id uuid DEFAULT NULL,
+  p_bates_number text DEFAULT NULL,
+  p_hash_before text DEFAULT NULL,
+  p_hash_after text DEFAULT NULL,
+  p_ip_address text DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS audit_log AS $$
+DECLARE
+  v_chain uuid := coalesce(p_project_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  v_actor_email text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  v_details jsonb := coalesce(p_details, '{}'::jsonb);
+  v_head audit_log%ROWTYPE;
+  v_entry audit_log%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR v_actor_email = '' THEN
+    RAISE EXCEPTION 'Sign in to record actions' USING ERRCODE = '42501';
+  END IF;
+  IF p_project_id IS NOT NULL AND NOT is_project_member(p_project_id) THEN
+    RAISE EXCEPTION 'Not a member of project %', p_project_id USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_typeof(v_details) <> 'object' THEN
+    RAISE EXCEPTION 'details must be a JSON object';
+  END IF;
+
+  IF p_action = 'document.upload' THEN
+    IF p_project_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'discovery-files'
+        AND o.name = v_details ->> 'storagePath'
+        AND o.owner = auth.uid()
+        AND storage_object_project(o.name) = p_project_id
+    ) THEN
+      RAISE EXCEPTION 'No file % stored by this user in project %', v_details ->> 'storagePath', p_project_id USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_log:' || v_chain::text, 0));
+
+  IF p_action = 'document.upload' AND EXISTS (
+    SELECT 1 FROM audit_log a
+    WHERE a.action = 'document.upload' AND a.project_id = p_project_id AND a.details ->> 'storagePath' = v_details ->> 'storagePath'
+  ) THEN
+    RAISE EXCEPTION 'The upload of % is already recorded', v_details ->> 'storagePath' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT * INTO v_head
+  FROM audit_log a
+  WHERE coalesce(a.project_id, '00000000-0000-0000-0000-000000000000'::uuid) = v_chain
+  ORDER BY a.sequence DESC
+  LIMIT 1;
+
+  v_entry.id := gen_random_uuid();
+  v_entry.project_id := p_project_id;
+  v_entry.sequence := coalesce(v_head.sequence, 0) + 1;
+  v_entry.actor_id := auth.uid();
+  v_entry.actor_email := v_actor_email;
+  v_entry.action := p_action;
+  v_entry.document_id := p_document_id;
+  v_entry.bates_number := p_bates_number;
+  v_entry.hash_before := p_hash_before;
+  v_entry.hash_after := p_hash_after;
+  v_entry.ip_address := p_ip_address;
+  v_entry.details := v_details;
+  -- Millisecond precision, the most a JavaScript Date carries
+  v_entry.created_at := date_trunc('milliseconds', clock_timestamp());
+  v_entry.previous_hash := coalesce(v_head.entry_hash, repeat('0', 64));
+  v_entry.entry_hash := encode(sha256(convert_to(
+    v_entry.previous_hash || E'\n' || audit_canonical_json(jsonb_build_object(
+      'sequence', v_entry.sequence,
+      'projectId', v_entry.project_id,
+      'actorId', v_entry.actor_id,
+      'actorEmail', v_entry.actor_email,
+      'action', v_entry.action,
+      'documentId', v_entry.document_id,
+      'batesNumber', v_entry.bates_number,
+      'hashBefore', v_entry.hash_before,
+      'hashAfter', v_entry.hash_after,
+      'ipAddress', v_entry.ip_address,
+      'details', v_entry.details,
+      'createdAt', to_char(v_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    )),
+    'UTF8'
+  )), 'hex');
+
+  INSERT INTO audit_log VALUES (v_entry.*);
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION append_audit_entry(uuid, text, uuid, text, text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION append_audit_entry(uuid, text, uuid, text, text, text, text, jsonb) TO authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- No INSERT policy: rows written directly could pick their own position and
+-- hash, so entries go through append_audit_entry alone
+DROP POLICY IF EXISTS "Members can append their own actions" ON audit_log;
+REVOKE INSERT ON audit_log FROM anon, authenticated;
+
+DO $$
+BEGIN
+  -- Owners and attorneys read a project's log; actions outside a project are visible to whoever took them
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'audit_log' AND policyname = 'Owners and attorneys can read the log') THEN
+    CREATE POLICY "Owners and attorneys can read the log" ON audit_log FOR SELECT
+      USING (
+        (project_id IS NOT NULL AND is_project_member(project_id, ARRAY['owner', 'attorney']))
+        OR (project_id IS NULL AND actor_id = auth.uid())
+      );
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE audit_log IS 'Append-only, hash-chained record of every API action, one chain per project';
+COMMENT ON COLUMN audit_log.sequence IS 'Position in the chain, starting at 1 with no gaps';
+COMMENT ON COLUMN audit_log.hash_before IS 'SHA-256 of the evidence (or of the changed record) before the action';
+COMMENT ON COLUMN audit_log.hash_after IS 'SHA-256 of the evidence, changed record or delivered file after the action';
+COMMENT ON COLUMN audit_log.previous_hash IS 'entry_hash of the previous entry in the chain; 64 zeros for the first';
+COMMENT ON COLUMN audit_log.entry_hash IS 'SHA-256 over previous_hash and the canonical JSON of this entry';
+COMMENT ON FUNCTION append_audit_entry(uuid, text, uuid, text, text, text, text, jsonb) IS 'Appends the caller''s action to its chain, computing sequence and hashes';
+COMMENT ON FUNCTION audit_canonical_json(jsonb) IS 'JSON with sorted keys and no whitespace, as hashed by lib/auditLog.ts';
@@ -0,0 +1,74 @@
+-- Migration: Add custodians
+-- Created: 2024-03-15
+-- Description: Every upload names the custodian (a person) or source (a shared
+--              drive, mailbox export or system) the files were collected from.
+--              Documents point at their custodian; embedded children inherit
+--              their parent's. The folder path a file was collected from and
+--              its file system timestamp are kept in documents.metadata
+--              (originalPath, fileModifiedAt) rather than in columns, since
+--              imported productions rarely carry them.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- CUSTODIANS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS custodians (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'person',
+  email text,
+  description text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE custodians DROP CONSTRAINT IF EXISTS custodians_kind_check;
+ALTER TABLE custodians ADD CONSTRAINT custodians_kind_check
+  CHECK (kind IN ('person', 'source'));
+
+ALTER TABLE custodians DROP CONSTRAINT IF EXISTS custodians_name_not_blank;
+ALTER TABLE custodians ADD CONSTRAINT custodians_name_not_blank
+  CHECK (btrim(name) <> '');
+
+-- "Jane Doe" and "jane doe" are the same custodian
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custodians_project_name ON custodians(project_id, lower(name));
+
+-- ============================================================================
+-- DOCUMENT CUSTODIAN COLUMN
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS custodian_id uuid REFERENCES custodians(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_custodian ON documents(custodian_id) WHERE custodian_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE custodians ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'custodians' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON custodians FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  -- The same people who load documents name where they came from
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'custodians' AND policyname = 'Writers can modify') THEN
+    CREATE POLICY "Writers can modify" ON custodians FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE custodians IS 'People and sources documents were collected from, per project';
+COMMENT ON COLUMN custodians.kind IS 'person: an individual custodian; source: a shared drive, mailbox export or system';
+COMMENT ON COLUMN documents.custodian_id IS 'Custodian or source the document was collected from';
@@ -0,0 +1,124 @@
+-- Migration: Add entity resolution
+-- Created: 2024-03-16
+-- Description: People, organizations, places, vehicles and badge numbers named
+--              across a project's documents. Each entity has a canonical name,
+--              a type and the aliases it has been merged from; each mention
+--              ties it to a document. Mentions are rebuilt from the analysis
+--              whenever a document is (re)analyzed, and resolve by name or
+--              alias, so a confirmed merge also catches later mentions.
+--              Merge suggestions are computed on request; the ones a reviewer
+--              rejects are remembered so they are not offered again.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- ENTITIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  entity_type text NOT NULL DEFAULT 'other',
+  aliases text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE entities DROP CONSTRAINT IF EXISTS entities_type_check;
+ALTER TABLE entities ADD CONSTRAINT entities_type_check
+  CHECK (entity_type IN ('person', 'organization', 'location', 'vehicle', 'badge_number', 'other'));
+
+ALTER TABLE entities DROP CONSTRAINT IF EXISTS entities_name_not_blank;
+ALTER TABLE entities ADD CONSTRAINT entities_name_not_blank
+  CHECK (btrim(name) <> '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entities_project_name ON entities(project_id, lower(name));
+
+-- ============================================================================
+-- ENTITY MENTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  entity_id uuid NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  mention text NOT NULL,
+  context text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entity_mentions_unique ON entity_mentions(entity_id, document_id, mention);
+CREATE INDEX IF NOT EXISTS idx_entity_mentions_document ON entity_mentions(document_id);
+CREATE INDEX IF NOT EXISTS idx_entity_mentions_project ON entity_mentions(project_id);
+
+-- ============================================================================
+-- DISMISSED MERGE SUGGESTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_merge_dismissals (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  entity_id uuid NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  other_entity_id uuid NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  dismissed_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (entity_id, other_entity_id)
+);
+
+-- Each pair is stored once, smaller id first
+ALTER TABLE entity_merge_dismissals DROP CONSTRAINT IF EXISTS entity_merge_dismissals_order_check;
+ALTER TABLE entity_merge_dismissals ADD CONSTRAINT entity_merge_dismissals_order_check
+  CHECK (entity_id < other_entity_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entity_mentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entity_merge_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Reviewers save analyses, which rebuilds mentions, and confirm merges
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entities' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON entities FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entities' AND policyname = 'Reviewers can modify') THEN
+    CREATE POLICY "Reviewers can modify" ON entities FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entity_mentions' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON entity_mentions FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entity_mentions' AND policyname = 'Reviewers can modify') THEN
+    CREATE POLICY "Reviewers can modify" ON entity_mentions FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entity_merge_dismissals' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON entity_merge_dismissals FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'entity_merge_dismissals' AND policyname = 'Reviewers can modify') THEN
+    CREATE POLICY "Reviewers can modify" ON entity_merge_dismissals FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE entities IS 'People, organizations, places, vehicles and badge numbers named in a project''s documents';
+COMMENT ON COLUMN entities.aliases IS 'Other names merged into this entity; mentions matching any of them resolve here';
+COMMENT ON TABLE entity_mentions IS 'Where each entity is named, rebuilt from the document''s analysis';
+COMMENT ON COLUMN entity_mentions.context IS 'The fact or event from the analysis that names the entity, if any';
+COMMENT ON TABLE entity_merge_dismissals IS 'Merge suggestions a reviewer rejected as different entities';
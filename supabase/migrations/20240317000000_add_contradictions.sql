@@ -0,0 +1,119 @@
+-- Migration: Add cross-document contradiction reports
+-- Created: 2024-03-17
+-- Description: A 'contradictions' job compares what different documents say
+--              about the same entity or event - a police report against a
+--              body cam transcript, one witness statement against another -
+--              and records each disagreement with a quote from both sides and
+--              their Bates numbers. Every run is kept as a report; reviewers
+--              confirm or dismiss its findings, and their decisions carry over
+--              to the next run.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- JOB TYPE
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('extract', 'analyze', 'transcribe', 'embed', 'thread', 'contradictions'));
+
+-- ============================================================================
+-- CONTRADICTION REPORTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contradiction_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  job_id uuid REFERENCES job_queue(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'running',
+  document_count integer NOT NULL DEFAULT 0,
+  topic_count integer NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+ALTER TABLE contradiction_reports DROP CONSTRAINT IF EXISTS contradiction_reports_status_check;
+ALTER TABLE contradiction_reports ADD CONSTRAINT contradiction_reports_status_check
+  CHECK (status IN ('running', 'complete', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_contradiction_reports_project ON contradiction_reports(project_id, created_at DESC);
+
+-- ============================================================================
+-- CONTRADICTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS contradictions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES contradiction_reports(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  entity_id uuid REFERENCES entities(id) ON DELETE SET NULL,
+  topic text NOT NULL,
+  explanation text NOT NULL DEFAULT '',
+  severity text NOT NULL DEFAULT 'medium',
+  status text NOT NULL DEFAULT 'open',
+  document_a_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  bates_a text NOT NULL,
+  quote_a text NOT NULL,
+  quote_a_verbatim boolean NOT NULL DEFAULT false,
+  document_b_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  bates_b text NOT NULL,
+  quote_b text NOT NULL,
+  quote_b_verbatim boolean NOT NULL DEFAULT false,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE contradictions DROP CONSTRAINT IF EXISTS contradictions_severity_check;
+ALTER TABLE contradictions ADD CONSTRAINT contradictions_severity_check
+  CHECK (severity IN ('high', 'medium', 'low'));
+
+ALTER TABLE contradictions DROP CONSTRAINT IF EXISTS contradictions_status_check;
+ALTER TABLE contradictions ADD CONSTRAINT contradictions_status_check
+  CHECK (status IN ('open', 'confirmed', 'dismissed'));
+
+ALTER TABLE contradictions DROP CONSTRAINT IF EXISTS contradictions_documents_check;
+ALTER TABLE contradictions ADD CONSTRAINT contradictions_documents_check
+  CHECK (document_a_id <> document_b_id);
+
+CREATE INDEX IF NOT EXISTS idx_contradictions_report ON contradictions(report_id);
+CREATE INDEX IF NOT EXISTS idx_contradictions_project ON contradictions(project_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE contradiction_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contradictions ENABLE ROW LEVEL SECURITY;
+
+-- Reports are written by the worker with the service role; reviewers only
+-- record their decisions on the findings
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'contradiction_reports' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON contradiction_reports FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'contradictions' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON contradictions FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'contradictions' AND policyname = 'Reviewers can review') THEN
+    CREATE POLICY "Reviewers can review" ON contradictions FOR UPDATE
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE contradiction_reports IS 'Runs of the cross-document contradiction finder';
+COMMENT ON COLUMN contradiction_reports.topic_count IS 'Entities and events that two or more documents gave an account of';
+COMMENT ON TABLE contradictions IS 'Pairs of documents that disagree about the same entity or event, with a quote from each';
+COMMENT ON COLUMN contradictions.quote_a_verbatim IS 'Whether quote_a was found word for word in the document; otherwise it is a paraphrase';
+COMMENT ON COLUMN contradictions.status IS 'open, confirmed or dismissed by a reviewer; carried over to later runs';
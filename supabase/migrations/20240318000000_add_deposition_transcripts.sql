@@ -0,0 +1,22 @@
+-- Migration: Add deposition transcripts
+-- Created: 2024-03-18
+-- Description: Deposition and hearing transcripts keep their page:line
+--              numbering. Extraction stores a map of each numbered line's
+--              place in extracted_text along with the question-and-answer
+--              turns and examining attorneys, so testimony can be cited and
+--              digested by page and line.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS deposition jsonb;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.deposition IS 'Page:line map of a transcript (offsets into extracted_text), its Q/A turns and examinations; null when the document is not a transcript';
@@ -0,0 +1,22 @@
+-- Migration: Add media transcripts
+-- Created: 2024-03-19
+-- Description: Audio and video transcripts are kept with their timings:
+--              segments with start and end times, speaker labels and, when
+--              the transcriber provides them, per-word times and confidence.
+--              extracted_text still holds the transcript as plain text for
+--              search and analysis.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- DOCUMENT COLUMNS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS transcript jsonb;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.transcript IS 'Timed transcript of audio or video: segments (startMs, endMs, speaker, text, confidence) with their words';
@@ -0,0 +1,54 @@
+-- Migration: Add transcript speakers
+-- Created: 2024-03-20
+-- Description: Reviewers identify the diarization labels in a media
+--              transcript ("Speaker A") as people, usually a resolved person
+--              entity. The names replace the labels in the document's
+--              extracted_text, so search, analysis and chat read them.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- TRANSCRIPT SPEAKERS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS transcript_speakers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  entity_id uuid REFERENCES entities(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  updated_by uuid DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT transcript_speakers_name_not_blank CHECK (btrim(name) <> '')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_speakers_label ON transcript_speakers(document_id, label);
+CREATE INDEX IF NOT EXISTS idx_transcript_speakers_entity ON transcript_speakers(entity_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE transcript_speakers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transcript_speakers' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON transcript_speakers FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'transcript_speakers' AND policyname = 'Reviewers can modify') THEN
+    CREATE POLICY "Reviewers can modify" ON transcript_speakers FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE transcript_speakers IS 'Who each diarization label in a media transcript was identified as';
+COMMENT ON COLUMN transcript_speakers.label IS 'The transcriber''s label, e.g. "A" from AssemblyAI or "Speaker 1" from Gemini';
+COMMENT ON COLUMN transcript_speakers.name IS 'The person''s name as written into the transcript text; the entity name when entity_id is set';
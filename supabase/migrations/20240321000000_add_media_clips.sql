@@ -0,0 +1,62 @@
+-- Migration: Add media clips
+-- Created: 2024-03-21
+-- Description: Clips cut from audio and video documents for use as trial
+--              exhibits. Each clip is stored as a document of its own with
+--              its own Bates number; media_clips records which document it was
+--              cut from, where, and what was burned into the picture.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- MEDIA CLIPS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS media_clips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  source_document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  start_ms int NOT NULL,
+  end_ms int NOT NULL,
+  burn_bates boolean NOT NULL DEFAULT false,
+  burn_timestamp boolean NOT NULL DEFAULT false,
+  burn_subtitles boolean NOT NULL DEFAULT false,
+  description text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT media_clips_range_valid CHECK (start_ms >= 0 AND end_ms > start_ms)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_clips_document ON media_clips(document_id);
+CREATE INDEX IF NOT EXISTS idx_media_clips_source ON media_clips(source_document_id, start_ms);
+CREATE INDEX IF NOT EXISTS idx_media_clips_project ON media_clips(project_id, created_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE media_clips ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'media_clips' AND policyname = 'Members can view') THEN
+    CREATE POLICY "Members can view" ON media_clips FOR SELECT
+      USING (is_project_member(project_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'media_clips' AND policyname = 'Reviewers can modify') THEN
+    CREATE POLICY "Reviewers can modify" ON media_clips FOR ALL
+      USING (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']))
+      WITH CHECK (is_project_member(project_id, ARRAY['owner', 'attorney', 'reviewer']));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE media_clips IS 'Clips cut from audio and video documents; each clip is a document with its own Bates number';
+COMMENT ON COLUMN media_clips.source_document_id IS 'The recording the clip was cut from';
+COMMENT ON COLUMN media_clips.document_id IS 'The clip itself, stored as a document';
+COMMENT ON COLUMN media_clips.start_ms IS 'Where the clip starts in the source recording, in milliseconds';
+COMMENT ON COLUMN media_clips.end_ms IS 'Where the clip ends in the source recording, in milliseconds';
+COMMENT ON COLUMN media_clips.burn_subtitles IS 'Whether the source transcript was burned in as subtitles';
@@ -0,0 +1,30 @@
+-- Migration: Add document thumbnails
+-- Created: 2024-03-22
+-- Description: A 'thumbnail' job renders small images for visual triage:
+--              keyframes from video, taken at intervals and at scene changes,
+--              and the first page of PDFs. The images live in storage;
+--              documents.thumbnails records where, and at what time in the
+--              video each keyframe was taken.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- JOB TYPE
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('extract', 'analyze', 'transcribe', 'embed', 'thread', 'contradictions', 'thumbnail'));
+
+-- ============================================================================
+-- DOCUMENT THUMBNAILS
+-- ============================================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS thumbnails jsonb;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN documents.thumbnails IS 'Storage paths of the poster image and, for video, timed keyframes: {poster, frames: [{timeMs, path}], generatedAt}';
@@ -0,0 +1,58 @@
+-- Migration: Restrict reviewer document updates
+-- Created: 2024-03-23
+-- Description: Reviewers may update a document only to code its privilege.
+--              Row-level security cannot narrow an UPDATE to some columns, and
+--              column grants would bind owners and attorneys too, since every
+--              signed-in user shares one database role; a trigger rejects
+--              reviewer changes to any other column instead. Writing named
+--              speakers into a transcript's text moves to a 'speakers' job, so
+--              it no longer needs the reviewer's own write.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- JOB TYPE
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('extract', 'analyze', 'transcribe', 'embed', 'thread', 'contradictions', 'thumbnail', 'speakers'));
+
+-- ============================================================================
+-- REVIEWER COLUMN CHECK
+-- ============================================================================
+
+-- The service role (auth.uid() IS NULL) and project editors pass through.
+-- search_vector is generated after BEFORE triggers run, so it is left out of
+-- the comparison; it follows name and extracted_text, which are compared.
+CREATE OR REPLACE FUNCTION restrict_reviewer_document_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  reviewer_columns text[] := ARRAY[
+    'privilege_status', 'privilege_bases', 'privilege_description', 'privilege_reviewed_at',
+    'updated_at', 'search_vector'
+  ];
+BEGIN
+  IF auth.uid() IS NULL OR is_project_member(OLD.project_id, ARRAY['owner', 'attorney']) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - reviewer_columns) IS DISTINCT FROM (to_jsonb(OLD) - reviewer_columns) THEN
+    RAISE EXCEPTION 'Reviewers can only change the privilege coding of a document'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS restrict_reviewer_document_update ON documents;
+CREATE TRIGGER restrict_reviewer_document_update
+  BEFORE UPDATE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_reviewer_document_update();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION restrict_reviewer_document_update() IS 'Rejects document updates by reviewers that change anything but privilege coding';
@@ -0,0 +1,64 @@
+-- Migration: Restrict reviewer batch writes
+-- Created: 2024-03-24
+-- Description: Reviewers write review_batches only to check a batch out or in.
+--              Their write policy covers the whole row, so a trigger rejects
+--              reviewer inserts and deletes, and updates that change anything
+--              but the checkout columns or that take or release a batch on
+--              someone else's behalf, as 20240323 does for documents.
+--
+-- IMPORTANT: This migration is idempotent and safe to run on existing databases
+
+-- ============================================================================
+-- REVIEWER CHECKOUT CHECK
+-- ============================================================================
+
+-- The service role (auth.uid() IS NULL) and project editors pass through.
+-- Reviewers are identified by email, as checked_out_by and assignee are.
+CREATE OR REPLACE FUNCTION restrict_reviewer_batch_write()
+RETURNS TRIGGER AS $$
+DECLARE
+  checkout_columns text[] := ARRAY['checked_out_by', 'checked_out_at', 'completed_at', 'updated_at'];
+  project uuid := CASE WHEN TG_OP = 'INSERT' THEN NEW.project_id ELSE OLD.project_id END;
+  reviewer text := lower(coalesce(auth.jwt() ->> 'email', ''));
+BEGIN
+  IF auth.uid() IS NULL OR is_project_member(project, ARRAY['owner', 'attorney']) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP <> 'UPDATE' THEN
+    RAISE EXCEPTION 'Only owners and attorneys can create or delete review batches'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF (to_jsonb(NEW) - checkout_columns) IS DISTINCT FROM (to_jsonb(OLD) - checkout_columns) THEN
+    RAISE EXCEPTION 'Reviewers can only check review batches out and in'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Checking out takes a free batch for yourself, if it is assigned to nobody
+  -- else; checking in releases only a batch you hold.
+  IF OLD.checked_out_by IS NULL AND NEW.checked_out_by IS NOT NULL THEN
+    IF lower(NEW.checked_out_by) <> reviewer OR lower(coalesce(OLD.assignee, reviewer)) <> reviewer THEN
+      RAISE EXCEPTION 'Reviewers can only check out batches for themselves'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF OLD.checked_out_by IS NULL OR lower(OLD.checked_out_by) <> reviewer
+    OR lower(coalesce(NEW.checked_out_by, reviewer)) <> reviewer THEN
+    RAISE EXCEPTION 'Reviewers can only check in batches they hold'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS restrict_reviewer_batch_write ON review_batches;
+CREATE TRIGGER restrict_reviewer_batch_write
+  BEFORE INSERT OR UPDATE OR DELETE ON review_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION restrict_reviewer_batch_write();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION restrict_reviewer_batch_write() IS 'Limits reviewer writes to review batches to checking a batch out or in for themselves';
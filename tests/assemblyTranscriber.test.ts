@@ -38,8 +38,21 @@ describe('transcribeWithAssembly', () => {
     process.env.ASSEMBLYAI_API_KEY = originalKey;
   });
 
-  it('uploads downsampled audio and returns completed transcript text', async () => {
-    mockTranscribe.mockResolvedValue({ status: 'completed', text: 'Hello world' });
+  it('uploads downsampled audio and returns the completed transcript with its timings', async () => {
+    mockTranscribe.mockResolvedValue({
+      status: 'completed',
+      text: 'Hello world',
+      audio_duration: 1.5,
+      utterances: [
+        {
+          speaker: 'A',
+          words: [
+            { text: 'Hello', start: 100, end: 400, confidence: 0.9, speaker: 'A' },
+            { text: 'world', start: 450, end: 800, confidence: 0.7, speaker: 'A' },
+          ],
+        },
+      ],
+    });
 
     const base64 = Buffer.from('audio-bytes').toString('base64');
     const result = await transcribeWithAssembly({
@@ -49,7 +62,21 @@ describe('transcribeWithAssembly', () => {
       batesNumber: 'ABC-0001',
     });
 
-    expect(result).toBe('Hello world');
+    expect(result.text).toBe('Hello world');
+    expect(result.durationMs).toBe(1500);
+    expect(result.segments).toEqual([
+      {
+        startMs: 100,
+        endMs: 800,
+        speaker: 'A',
+        text: 'Hello world',
+        confidence: 0.8,
+        words: [
+          { text: 'Hello', startMs: 100, endMs: 400, confidence: 0.9 },
+          { text: 'world', startMs: 450, endMs: 800, confidence: 0.7 },
+        ],
+      },
+    ]);
     expect(transcodeToMonoWav).toHaveBeenCalled();
     expect(mockTranscribe).toHaveBeenCalledWith({
       audio: expect.any(Buffer),
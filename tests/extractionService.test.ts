@@ -25,17 +25,22 @@ describe('extractionService', () => {
     expect(result.metadata.wordCount).toBeGreaterThan(0);
   });
 
-  it('extracts text entries from zip archives', async () => {
+  it('lists zip archives and returns every entry as a child', async () => {
     const zip = new JSZip();
     zip.file('evidence/alpha.txt', 'alpha content');
     zip.file('beta.md', '# beta content');
+    zip.file('scan.pdf', '%PDF-1.1');
+    zip.file('__MACOSX/._scan.pdf', 'resource fork');
     const zipBase64 = await zip.generateAsync({ type: 'base64' });
 
     const result = await extractTextFromBase64(zipBase64, 'application/zip', 'bundle.zip');
 
-    expect(result.text).toContain('alpha content');
-    expect(result.text).toContain('beta content');
-    expect(result.metadata.archiveEntries).toBe(2);
+    expect(result.text).toContain('evidence/alpha.txt');
+    expect(result.text).not.toContain('alpha content');
+    expect(result.metadata.archiveEntries).toBe(3);
+    expect(result.children?.map(c => c.fileName)).toEqual(['beta.md', 'alpha.txt', 'scan.pdf']);
+    expect(result.children?.[2].mimeType).toBe('application/pdf');
+    expect(result.children?.[1].content.toString()).toBe('alpha content');
   });
 
   it('normalizes text and chunks consistently', () => {